@@ -0,0 +1,255 @@
+/**
+ * Answer Bank Agent - Reusable answers to the questions most application forms ask
+ *
+ * Responsibilities:
+ * - Match form field labels to canonical question keys and the user's saved answers
+ *   (embedding similarity), preferring a company-specific answer over the general one
+ * - Fill answer-sheet fields the profile could not answer from the bank
+ * - Draft answers to new questions from the job and company research; drafts are saved
+ *   back to the bank only after the user approves them
+ *
+ * LLM Usage: Embeddings for matching (embedBatch); GENERAL model for drafts
+ */
+
+import { bestMatch, complete, embedBatch } from '@careersignal/llm';
+import type { JobDetail } from '../browser/job-detail-extractor-agent.js';
+import type { ProfileSnapshot } from '../match/profile-job-match-agent.js';
+import { matchOption } from './application-blueprint-agent.js';
+import type { AnswerSheet, FormField } from './types.js';
+
+export interface CommonQuestion {
+  key: string;
+  question: string;
+  /** Self-identification (EEO) questions: never drafted, only answered by the user. */
+  sensitive?: boolean;
+  /** Answers name or depend on one company: saved per company, never reused for another. */
+  companySpecific?: boolean;
+}
+
+/** Canonical question keys with a typical phrasing each, matched against form labels. */
+export const COMMON_QUESTIONS: CommonQuestion[] = [
+  {
+    key: 'why_company',
+    question: 'Why do you want to work at this company?',
+    companySpecific: true,
+  },
+  { key: 'why_role', question: 'Why are you interested in this role?', companySpecific: true },
+  { key: 'about_you', question: 'Tell us about yourself' },
+  { key: 'work_authorization', question: 'Are you legally authorized to work in this country?' },
+  { key: 'sponsorship', question: 'Will you now or in the future require visa sponsorship?' },
+  { key: 'notice_period', question: 'What is your notice period?' },
+  { key: 'start_date', question: 'When can you start?' },
+  { key: 'salary_expectations', question: 'What are your salary expectations?' },
+  { key: 'relocation', question: 'Are you willing to relocate?' },
+  { key: 'remote_work', question: 'Are you able to work on-site or in a hybrid arrangement?' },
+  { key: 'years_experience', question: 'How many years of relevant experience do you have?' },
+  { key: 'how_heard', question: 'How did you hear about this position?' },
+  {
+    key: 'previously_employed',
+    question: 'Have you previously worked for this company?',
+    companySpecific: true,
+  },
+  { key: 'eeo_gender', question: 'What is your gender?', sensitive: true },
+  { key: 'eeo_race', question: 'What is your race or ethnicity?', sensitive: true },
+  { key: 'eeo_veteran', question: 'Are you a protected veteran?', sensitive: true },
+  { key: 'eeo_disability', question: 'Do you have a disability?', sensitive: true },
+];
+
+export interface AnswerBankEntry {
+  id: string;
+  questionKey: string;
+  question: string;
+  answer: string;
+  /** Null for the general answer; set for a per-company override. */
+  companyId: string | null;
+}
+
+export interface AnswerBankMatch {
+  fieldName: string;
+  questionKey: string;
+  similarity: number;
+  /** Saved answer for the key (company override first); null when the bank has none yet. */
+  entry: AnswerBankEntry | null;
+}
+
+/** Label-to-question similarity at or above which a field counts as that question. */
+export const ANSWER_MATCH_THRESHOLD = 0.8;
+
+/** Question key for a question that is not one of COMMON_QUESTIONS ("custom_why_rust"). */
+export function customQuestionKey(question: string): string {
+  const slug = question
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return `custom_${slug}`.slice(0, 64).replace(/_+$/, '');
+}
+
+export function isSensitiveQuestion(questionKey: string): boolean {
+  return COMMON_QUESTIONS.some((q) => q.key === questionKey && q.sensitive);
+}
+
+export function isCompanySpecificQuestion(questionKey: string): boolean {
+  return COMMON_QUESTIONS.some((q) => q.key === questionKey && q.companySpecific);
+}
+
+/**
+ * The entry for a key: the company's override if there is one, else the general answer. For
+ * company-specific keys only the company's own answer is used.
+ */
+export function pickAnswerBankEntry(
+  entries: AnswerBankEntry[],
+  questionKey: string,
+  companyId?: string | null,
+): AnswerBankEntry | null {
+  const forKey = entries.filter((e) => e.questionKey === questionKey);
+  const own = companyId ? forKey.find((e) => e.companyId === companyId) : undefined;
+  if (own || isCompanySpecificQuestion(questionKey)) return own ?? null;
+  return forKey.find((e) => e.companyId === null) ?? null;
+}
+
+/**
+ * Match form fields to question keys by embedding their labels against the common questions
+ * and the questions saved in the bank. Fields below ANSWER_MATCH_THRESHOLD are left out.
+ */
+export async function matchFieldsToAnswerBank(
+  fields: Pick<FormField, 'name' | 'label'>[],
+  entries: AnswerBankEntry[],
+  options?: { companyId?: string | null; timeout?: number },
+): Promise<AnswerBankMatch[]> {
+  const labelled = fields.filter((f) => f.label.trim());
+  if (labelled.length === 0) return [];
+
+  const seen = new Set<string>();
+  const candidates = [
+    ...COMMON_QUESTIONS,
+    ...entries.map((e) => ({ key: e.questionKey, question: e.question })),
+  ].filter((c) => {
+    const id = `${c.key}\n${c.question.toLowerCase()}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+
+  const embeddings = await embedBatch(
+    [...labelled.map((f) => f.label), ...candidates.map((c) => c.question)],
+    { timeout: options?.timeout ?? 120000 },
+  );
+  const fieldVectors = embeddings.slice(0, labelled.length);
+  const candidateVectors = embeddings.slice(labelled.length);
+
+  const matches: AnswerBankMatch[] = [];
+  labelled.forEach((field, i) => {
+    const { index: best, score: bestScore } = bestMatch(fieldVectors[i] ?? [], candidateVectors);
+    if (best < 0 || bestScore < ANSWER_MATCH_THRESHOLD) return;
+    const questionKey = candidates[best]!.key;
+    matches.push({
+      fieldName: field.name,
+      questionKey,
+      similarity: Math.round(bestScore * 100) / 100,
+      entry: pickAnswerBankEntry(entries, questionKey, options?.companyId),
+    });
+  });
+  return matches;
+}
+
+/**
+ * Fill answer-sheet fields the profile left empty with the matched bank answers (select and
+ * radio answers must match an option) and tag matched fields with their question key.
+ */
+export function applyAnswerBank(sheet: AnswerSheet, matches: AnswerBankMatch[]): AnswerSheet {
+  const byField = new Map(matches.map((m) => [m.fieldName, m]));
+  const answers = sheet.answers.map((answer) => {
+    const match = byField.get(answer.name);
+    if (!match) return answer;
+    const tagged = {
+      ...answer,
+      questionKey: match.questionKey,
+      ...(isCompanySpecificQuestion(match.questionKey) ? { companySpecific: true } : {}),
+    };
+    if (answer.value || !match.entry) return tagged;
+    const value =
+      answer.options?.length && answer.type !== 'CHECKBOX'
+        ? matchOption(answer.options, match.entry.answer)
+        : match.entry.answer;
+    return {
+      ...tagged,
+      value,
+      confidence: value ? match.similarity : 0,
+      needsInput: answer.required && !value,
+      ...(value ? { source: 'answer_bank' as const } : {}),
+    };
+  });
+  return {
+    ...sheet,
+    answers,
+    unansweredRequired: answers.filter((a) => a.needsInput).length,
+  };
+}
+
+export interface DraftAnswerOptions {
+  profile?: ProfileSnapshot | null;
+  /** Company research / dossier summary to ground "why us" answers. */
+  companyResearch?: string | null;
+  /** For select/radio questions: the answer must be one of these. */
+  options?: string[];
+}
+
+/**
+ * Draft an answer to an application question for the user to review. Returns '' when the
+ * model fails; callers show the draft in an editable box and save it only on approval.
+ */
+export async function draftApplicationAnswer(
+  question: string,
+  job: JobDetail,
+  options?: DraftAnswerOptions,
+): Promise<string> {
+  const profile = options?.profile;
+  const candidate = profile
+    ? [
+        `Name: ${profile.name}`,
+        profile.location ? `Location: ${profile.location}` : null,
+        profile.workAuthorization ? `Work authorization: ${profile.workAuthorization}` : null,
+        profile.skills.length > 0 ? `Skills: ${profile.skills.slice(0, 15).join(', ')}` : null,
+        profile.experience.length > 0
+          ? `Recent roles: ${profile.experience
+              .slice(0, 3)
+              .map((e) => `${e.title} at ${e.company}`)
+              .join('; ')}`
+          : null,
+      ]
+        .filter(Boolean)
+        .join('\n')
+    : 'Not available';
+  const choices = options?.options?.length
+    ? `\nAnswer with exactly one of these options: ${options.options.join(' | ')}`
+    : '\nKeep it to 2-4 sentences unless the question asks for more.';
+
+  const prompt = `Draft the candidate's answer to a job application question.
+
+QUESTION: ${question}
+
+JOB:
+Title: ${job.title}
+Company: ${job.company}
+${job.companyOneLiner ? `About company: ${job.companyOneLiner}\n` : ''}Description: ${job.description.slice(0, 1500)}
+${options?.companyResearch ? `\nCOMPANY RESEARCH:\n${options.companyResearch.slice(0, 1500)}\n` : ''}
+CANDIDATE:
+${candidate}
+
+Write in the first person, specific to this company and role. Do not invent facts about the
+candidate that are not listed above.${choices}
+
+Return ONLY the answer text.`;
+
+  try {
+    const response = await complete(prompt, 'GENERAL', {
+      temperature: 0.5,
+      maxTokens: 600,
+      timeout: 120000,
+    });
+    const draft = response?.trim() ?? '';
+    return options?.options?.length ? (matchOption(options.options, draft) ?? draft) : draft;
+  } catch {
+    return '';
+  }
+}
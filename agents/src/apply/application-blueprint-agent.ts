@@ -2,32 +2,111 @@
  * Application Blueprint Agent - Maps application forms and creates fill plans
  *
  * Responsibilities:
- * - Navigate to apply URL
+ * - Navigate to apply URL (following one "Apply" link if the job page has no form)
  * - Extract form structure
  * - Map form fields to profile fields
+ * - Fill an answer sheet from the applicant's values for the user to review
  * - Create checklist for user
  *
- * LLM Usage: Light (map ambiguous fields to profile fields)
+ * Read-only: pages are opened and read, never typed into, clicked or submitted.
+ *
+ * LLM Usage: Light (extract fields from forms the HTML parser finds nothing in)
  */
 
+import type { Page } from 'playwright';
+import { parse, HTMLElement } from 'node-html-parser';
 import { complete } from '@careersignal/llm';
 import type { NormalizedJob } from '../normalize/types.js';
-import type { ApplicationBlueprint, ApplicationStep, FormField, FormFieldType } from './types.js';
-import { PROFILE_FIELDS } from './types.js';
+import { policyGoto } from '../planner/policy-enforcer.js';
+import type {
+  AnswerSheet,
+  ApplicantValues,
+  ApplicationBlueprint,
+  ApplicationStep,
+  FormAnswer,
+  FormField,
+  FormFieldType,
+  ProfileField,
+} from './types.js';
 
 export interface BlueprintResult {
   blueprint: ApplicationBlueprint;
   warnings: string[];
 }
 
+export interface CreateBlueprintOptions {
+  /** Browser page to open the apply URL in. Without one, only common fields are listed. */
+  page?: Page | null;
+  timeoutMs?: number;
+}
+
 /**
- * Create application blueprint from job
+ * Create application blueprint from job: open the apply URL and read the real form when a
+ * page is given, else fall back to the fields most applications ask for.
  */
-export async function createBlueprint(job: NormalizedJob): Promise<BlueprintResult> {
+export async function createBlueprint(
+  job: NormalizedJob,
+  options?: CreateBlueprintOptions,
+): Promise<BlueprintResult> {
   const warnings: string[] = [];
   const applyUrl = job.applyUrl || job.sourceUrl;
 
-  // Placeholder - actual implementation would navigate and extract form
+  if (options?.page) {
+    const form = await readApplicationForm(
+      options.page,
+      applyUrl,
+      options.timeoutMs ?? 30_000,
+      warnings,
+    );
+    const fields = await mapFieldsToProfile(form.fields);
+    const blockers = [...form.blockers];
+    if (fields.length === 0) {
+      blockers.push('No application form found on the apply page');
+    }
+    const requiredDocuments = [
+      ...new Set(
+        fields
+          .filter((f) => f.type === 'FILE')
+          .map((f) =>
+            f.mappedProfileField === 'resume'
+              ? 'resume'
+              : f.mappedProfileField === 'coverLetter'
+                ? 'cover letter'
+                : f.label,
+          ),
+      ),
+    ];
+
+    return {
+      blueprint: {
+        id: `blueprint-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        jobId: job.id,
+        applyUrl,
+        steps: [
+          {
+            order: 1,
+            description: 'Open the application page',
+            url: form.formUrl ?? applyUrl,
+            fields: [],
+            isComplete: false,
+          },
+          {
+            order: 2,
+            description: 'Fill out the application form',
+            fields,
+            isComplete: false,
+          },
+        ],
+        requiredDocuments,
+        blockers,
+        atsType: detectAtsType(form.formUrl ?? applyUrl),
+        estimatedTime: fields.length > 12 ? '10-20 minutes' : '5-10 minutes',
+        createdAt: new Date().toISOString(),
+      },
+      warnings,
+    };
+  }
+
   const steps: ApplicationStep[] = [
     {
       order: 1,
@@ -75,9 +154,210 @@ export async function createBlueprint(job: NormalizedJob): Promise<BlueprintResu
 }
 
 /**
- * Extract form structure from HTML
+ * Open the apply URL and read its form. When the page has no form fields, follow its "Apply"
+ * link once (links only — nothing is clicked).
+ */
+async function readApplicationForm(
+  page: Page,
+  applyUrl: string,
+  timeoutMs: number,
+  warnings: string[],
+): Promise<{ formUrl: string | null; fields: FormField[]; blockers: string[] }> {
+  let url = applyUrl;
+  let html: string;
+  try {
+    html = await loadPage(page, url, timeoutMs);
+    if (parseFormFields(html).length === 0) {
+      const next = findApplyLink(html, url);
+      if (next) {
+        url = next;
+        html = await loadPage(page, url, timeoutMs);
+      }
+    }
+  } catch (e) {
+    warnings.push(`Could not open ${url}: ${e instanceof Error ? e.message : String(e)}`);
+    return { formUrl: null, fields: [], blockers: [] };
+  }
+  return {
+    formUrl: url,
+    fields: await extractFormFromHtml(html, url),
+    blockers: detectBlockers(html),
+  };
+}
+
+async function loadPage(page: Page, url: string, timeoutMs: number): Promise<string> {
+  await policyGoto(page, url, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
+  try {
+    await page.waitForLoadState('networkidle', { timeout: 5000 });
+  } catch {
+    // SPA forms may keep polling; use what has rendered
+  }
+  return page.content();
+}
+
+/** Absolute URL of the page's "Apply" / "Apply now" link, if any. */
+export function findApplyLink(html: string, pageUrl: string): string | null {
+  const root = parse(html);
+  for (const a of root.querySelectorAll('a')) {
+    const text = a.text.replace(/\s+/g, ' ').trim();
+    const href = a.getAttribute('href');
+    if (!href || href.startsWith('#') || href.startsWith('javascript:')) continue;
+    if (!/^apply( now| for this (job|position|role))?$/i.test(text)) continue;
+    try {
+      return new URL(href, pageUrl).toString();
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+function detectBlockers(html: string): string[] {
+  const blockers: string[] = [];
+  const root = parse(html);
+  if (root.querySelector('input[type="password"]')) {
+    blockers.push('The apply page asks you to sign in or create an account');
+  }
+  if (/g-recaptcha|hcaptcha|recaptcha\/api/i.test(html)) {
+    blockers.push('The form has a CAPTCHA you will need to complete yourself');
+  }
+  return blockers;
+}
+
+const IGNORED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image', 'search']);
+
+const INPUT_TYPES: Record<string, FormFieldType> = {
+  email: 'EMAIL',
+  tel: 'PHONE',
+  url: 'URL',
+  number: 'NUMBER',
+  date: 'DATE',
+  file: 'FILE',
+  checkbox: 'CHECKBOX',
+  radio: 'RADIO',
+};
+
+const PLACEHOLDER_OPTION = /^\s*$|^(--|select\b|choose\b|please select\b)/i;
+
+/** Element text without the text of nested selects/textareas (e.g. a label wrapping a select). */
+function ownText(el: HTMLElement): string {
+  let text = '';
+  for (const node of el.childNodes) {
+    if (node instanceof HTMLElement) {
+      if (['SELECT', 'TEXTAREA', 'OPTION'].includes(node.tagName)) continue;
+      text += ` ${ownText(node)}`;
+    } else {
+      text += node.text;
+    }
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Required markers: "*", and Lever's "✱". */
+function cleanLabel(text: string): { label: string; starred: boolean } {
+  const starred = /[*✱]\s*$/.test(text) || /^\s*[*✱]/.test(text);
+  return { label: text.replace(/[*✱]/g, '').replace(/\s+/g, ' ').trim(), starred };
+}
+
+/**
+ * Form fields from application-page HTML, without an LLM. Reads the form with the most
+ * fillable controls (the whole page when there is no <form>); radio buttons and same-named
+ * checkboxes become one field with options.
+ */
+export function parseFormFields(html: string): FormField[] {
+  const root = parse(html);
+  const controlSelector = 'input, select, textarea';
+  const isFillable = (el: HTMLElement) =>
+    el.tagName !== 'INPUT' ||
+    !IGNORED_INPUT_TYPES.has((el.getAttribute('type') ?? 'text').toLowerCase());
+  const forms = root
+    .querySelectorAll('form')
+    .map((form) => ({
+      form,
+      count: form.querySelectorAll(controlSelector).filter(isFillable).length,
+    }))
+    .sort((a, b) => b.count - a.count);
+  const scope = forms[0] && forms[0].count > 0 ? forms[0].form : root;
+
+  const labelsFor = new Map<string, string>();
+  for (const label of scope.querySelectorAll('label')) {
+    const target = label.getAttribute('for');
+    if (target) labelsFor.set(target, ownText(label));
+  }
+
+  const fields: FormField[] = [];
+  const byName = new Map<string, FormField>();
+  for (const el of scope.querySelectorAll(controlSelector).filter(isFillable)) {
+    const tag = el.tagName;
+    const inputType = (el.getAttribute('type') ?? 'text').toLowerCase();
+    const type: FormFieldType =
+      tag === 'SELECT'
+        ? 'SELECT'
+        : tag === 'TEXTAREA'
+          ? 'TEXTAREA'
+          : (INPUT_TYPES[inputType] ?? 'TEXT');
+    const id = el.getAttribute('id');
+    const name = el.getAttribute('name') || id || '';
+    const wrappingLabel = el.closest('label');
+    const ownLabel =
+      (id ? labelsFor.get(id) : undefined) ?? (wrappingLabel ? ownText(wrappingLabel) : '');
+    const required = el.hasAttribute('required') || el.getAttribute('aria-required') === 'true';
+
+    if (type === 'RADIO' || type === 'CHECKBOX') {
+      const group = name ? byName.get(name) : undefined;
+      const optionLabel = cleanLabel(ownLabel || el.getAttribute('value') || '').label;
+      if (group) {
+        group.options = [...(group.options ?? []), optionLabel].filter(Boolean);
+        group.required = group.required || required;
+        continue;
+      }
+      const legend = el.closest('fieldset')?.querySelector('legend');
+      const question = cleanLabel(legend ? ownText(legend) : type === 'CHECKBOX' ? ownLabel : name);
+      const field: FormField = {
+        name: name || question.label,
+        label: question.label || optionLabel || name,
+        type,
+        required: required || question.starred,
+        options: [optionLabel].filter(Boolean),
+      };
+      fields.push(field);
+      if (name) byName.set(name, field);
+      continue;
+    }
+
+    const { label, starred } = cleanLabel(
+      ownLabel || el.getAttribute('aria-label') || el.getAttribute('placeholder') || name,
+    );
+    if (!label && !name) continue;
+    if (name && byName.has(name)) continue;
+    const options =
+      type === 'SELECT'
+        ? el
+            .querySelectorAll('option')
+            .map((o) => o.text.replace(/\s+/g, ' ').trim())
+            .filter((o) => !PLACEHOLDER_OPTION.test(o))
+        : undefined;
+    const field: FormField = {
+      name: name || label,
+      label: label || name,
+      type,
+      required: required || starred,
+      options,
+    };
+    fields.push(field);
+    if (name) byName.set(name, field);
+  }
+  return fields;
+}
+
+/**
+ * Extract form structure from HTML: parsed from the markup when possible, else by the LLM
+ * (e.g. custom widgets without native inputs).
  */
 export async function extractFormFromHtml(html: string, pageUrl: string): Promise<FormField[]> {
+  const parsed = parseFormFields(html);
+  if (parsed.length > 0) return parsed;
+
   // Use LLM to extract form fields from HTML
   const truncatedHtml = html.substring(0, 15000);
 
@@ -118,47 +398,104 @@ ${truncatedHtml}`;
   }
 }
 
+/** Normalized field name/label → profile field, matched against the whole name or label. */
+const EXACT_FIELD_MAPPINGS: Record<string, ProfileField> = {
+  name: 'name',
+  your_name: 'name',
+  first_name: 'firstName',
+  firstname: 'firstName',
+  last_name: 'lastName',
+  lastname: 'lastName',
+  email: 'email',
+  phone: 'phone',
+  phone_number: 'phone',
+  resume: 'resume',
+  cv: 'resume',
+  cover_letter: 'coverLetter',
+  linkedin: 'linkedinUrl',
+  github: 'githubUrl',
+  portfolio: 'portfolioUrl',
+  website: 'portfolioUrl',
+  salary: 'salary',
+  expected_salary: 'salary',
+  start_date: 'startDate',
+  available_date: 'startDate',
+  location: 'location',
+  city: 'city',
+  state: 'state',
+  country: 'country',
+  zip: 'zipCode',
+  zipcode: 'zipCode',
+  work_authorization: 'workAuthorization',
+  visa_sponsorship: 'sponsorshipRequired',
+  sponsorship: 'sponsorshipRequired',
+};
+
 /**
- * Map form fields to profile fields
+ * Whole-word phrases (underscore-joined) → profile field, tried in order, so specific
+ * questions win over generic words ("authorized to work in the United States" is not "state").
  */
-export async function mapFieldsToProfile(fields: FormField[]): Promise<FormField[]> {
-  const mappings: Record<string, string> = {
-    // Exact matches
-    first_name: 'firstName',
-    firstname: 'firstName',
-    last_name: 'lastName',
-    lastname: 'lastName',
-    email: 'email',
-    phone: 'phone',
-    phone_number: 'phone',
-    resume: 'resume',
-    cv: 'resume',
-    cover_letter: 'coverLetter',
-    linkedin: 'linkedinUrl',
-    github: 'githubUrl',
-    portfolio: 'portfolioUrl',
-    website: 'portfolioUrl',
-    salary: 'salary',
-    expected_salary: 'salary',
-    start_date: 'startDate',
-    available_date: 'startDate',
-    location: 'location',
-    city: 'city',
-    state: 'state',
-    country: 'country',
-    zip: 'zipCode',
-    zipcode: 'zipCode',
-    work_authorization: 'workAuthorization',
-    visa_sponsorship: 'sponsorshipRequired',
-    sponsorship: 'sponsorshipRequired',
-  };
+const FUZZY_FIELD_MAPPINGS: [string, ProfileField][] = [
+  ['sponsorship', 'sponsorshipRequired'],
+  ['legally_authorized', 'workAuthorization'],
+  ['authorized_to_work', 'workAuthorization'],
+  ['eligible_to_work', 'workAuthorization'],
+  ['right_to_work', 'workAuthorization'],
+  ['work_authorization', 'workAuthorization'],
+  ['first_name', 'firstName'],
+  ['given_name', 'firstName'],
+  ['last_name', 'lastName'],
+  ['family_name', 'lastName'],
+  ['surname', 'lastName'],
+  ['full_name', 'name'],
+  ['legal_name', 'name'],
+  ['email', 'email'],
+  ['phone', 'phone'],
+  ['mobile', 'phone'],
+  ['cover_letter', 'coverLetter'],
+  ['resume', 'resume'],
+  ['cv', 'resume'],
+  ['linkedin', 'linkedinUrl'],
+  ['github', 'githubUrl'],
+  ['portfolio', 'portfolioUrl'],
+  ['website', 'portfolioUrl'],
+  ['salary', 'salary'],
+  ['compensation', 'salary'],
+  ['start_date', 'startDate'],
+  ['available_date', 'startDate'],
+  ['zip', 'zipCode'],
+  ['postal_code', 'zipCode'],
+  ['city', 'city'],
+  ['country', 'country'],
+  ['state', 'state'],
+  ['province', 'state'],
+  ['location', 'location'],
+  ['located', 'location'],
+  ['school', 'education'],
+  ['university', 'education'],
+  ['degree', 'education'],
+  ['skills', 'skills'],
+];
+
+function normalizeFieldText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
 
+/**
+ * Map form fields to profile fields: exact name/label matches (confidence 0.9), then
+ * whole-word phrases in the label or name (0.7). Unmatched fields are returned unchanged.
+ */
+export async function mapFieldsToProfile(fields: FormField[]): Promise<FormField[]> {
   return fields.map((field) => {
-    const normalizedName = field.name.toLowerCase().replace(/[^a-z0-9]/g, '_');
-    const normalizedLabel = field.label.toLowerCase().replace(/[^a-z0-9]/g, '_');
+    const normalizedName = normalizeFieldText(field.name);
+    const normalizedLabel = normalizeFieldText(field.label);
 
     // Try to match by name or label
-    const mappedField = mappings[normalizedName] || mappings[normalizedLabel];
+    const mappedField =
+      EXACT_FIELD_MAPPINGS[normalizedName] || EXACT_FIELD_MAPPINGS[normalizedLabel];
 
     if (mappedField) {
       return {
@@ -168,12 +505,13 @@ export async function mapFieldsToProfile(fields: FormField[]): Promise<FormField
       };
     }
 
-    // Try fuzzy matching
-    for (const [key, value] of Object.entries(mappings)) {
-      if (normalizedName.includes(key) || normalizedLabel.includes(key)) {
+    // Try fuzzy matching (label first: custom questions have opaque names)
+    for (const text of [normalizedLabel, normalizedName]) {
+      const match = FUZZY_FIELD_MAPPINGS.find(([phrase]) => `_${text}_`.includes(`_${phrase}_`));
+      if (match) {
         return {
           ...field,
-          mappedProfileField: value,
+          mappedProfileField: match[1],
           mappingConfidence: 0.7,
         };
       }
@@ -183,6 +521,66 @@ export async function mapFieldsToProfile(fields: FormField[]): Promise<FormField
   });
 }
 
+/** The option matching an answer ("Yes" → "Yes, I am authorized"), or null. */
+export function matchOption(options: string[], value: string): string | null {
+  const v = value.toLowerCase();
+  return (
+    options.find((o) => o.toLowerCase() === v) ??
+    options.find((o) =>
+      new RegExp(`^${v.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(o),
+    ) ??
+    null
+  );
+}
+
+/**
+ * Propose an answer for each mapped field from the applicant's values. Select and radio
+ * answers must match one of the options; required fields without an answer need input.
+ */
+export function fillFormFields(fields: FormField[], values: ApplicantValues): FormAnswer[] {
+  return fields.map((field) => {
+    const key = field.mappedProfileField as ProfileField | undefined;
+    const raw = key ? values[key]?.trim() || null : null;
+    const value =
+      raw && field.options?.length && field.type !== 'CHECKBOX'
+        ? matchOption(field.options, raw)
+        : raw;
+    return {
+      name: field.name,
+      label: field.label,
+      type: field.type,
+      required: field.required,
+      options: field.options,
+      mappedProfileField: key ?? null,
+      value,
+      confidence: value ? (field.mappingConfidence ?? 0.5) : 0,
+      needsInput: field.required && !value,
+      ...(value ? { source: 'profile' as const } : {}),
+    };
+  });
+}
+
+/** Filled-in answer sheet for a blueprint — a preview for the user; nothing is submitted. */
+export function buildAnswerSheet(
+  blueprint: ApplicationBlueprint,
+  values: ApplicantValues,
+): AnswerSheet {
+  const answers = fillFormFields(
+    blueprint.steps.flatMap((step) => step.fields),
+    values,
+  );
+  return {
+    applyUrl: blueprint.applyUrl,
+    formUrl: blueprint.steps.find((step) => step.url)?.url ?? null,
+    atsType: blueprint.atsType,
+    answers,
+    requiredDocuments: blueprint.requiredDocuments,
+    blockers: blueprint.blockers,
+    unansweredRequired: answers.filter((a) => a.needsInput).length,
+    createdAt: new Date().toISOString(),
+  };
+}
+
 /**
  * Generate checklist from blueprint
  */
@@ -0,0 +1,166 @@
+/**
+ * Guided Apply Agent - Fills an application form in the user's browser and stops before submit
+ *
+ * Responsibilities:
+ * - Open the form the answer sheet was read from
+ * - Type, select and check the answers the user reviewed; upload resume and cover letter files
+ * - Report every field it touched or skipped, so the user knows what to check
+ *
+ * Never clicks submit (or any button): the user reviews the filled form and submits it
+ * themselves. Checkboxes (consents, terms) are always left to the user.
+ *
+ * LLM Usage: None
+ */
+
+import type { Locator, Page } from 'playwright';
+import { policyGoto } from '../planner/policy-enforcer.js';
+import type { AnswerSheet, FormAnswer } from './types.js';
+
+export interface GuidedApplyFiles {
+  /** Absolute paths of files to upload into FILE fields. */
+  resume?: string | null;
+  coverLetter?: string | null;
+}
+
+export type GuidedFieldAction = 'filled' | 'selected' | 'checked' | 'uploaded' | 'skipped';
+
+export interface GuidedFieldLog {
+  name: string;
+  label: string;
+  action: GuidedFieldAction;
+  value: string | null;
+  /** Why a field was skipped. */
+  reason?: string;
+}
+
+export interface FillApplicationFormOptions {
+  files?: GuidedApplyFiles;
+  timeoutMs?: number;
+  /** Called as each field is handled (for live run logs). */
+  onField?: (entry: GuidedFieldLog) => void;
+}
+
+const FIELD_TIMEOUT_MS = 5000;
+
+function attributeSelector(name: string): string {
+  return `[name="${name.replace(/["\\]/g, '\\$&')}"]`;
+}
+
+async function checkRadioOption(page: Page, name: string, value: string): Promise<boolean> {
+  const radios = page.locator(`input[type="radio"]${attributeSelector(name)}`);
+  const wanted = value.trim().toLowerCase();
+  for (let i = 0; i < (await radios.count()); i++) {
+    const radio = radios.nth(i);
+    const label = await radio.evaluate((el) => {
+      const input = el as HTMLInputElement;
+      return (input.labels?.[0]?.textContent ?? input.value ?? '').replace(/\s+/g, ' ').trim();
+    });
+    if (label.toLowerCase() === wanted) {
+      await radio.check({ timeout: FIELD_TIMEOUT_MS });
+      return true;
+    }
+  }
+  return false;
+}
+
+function fileFor(answer: FormAnswer, files: GuidedApplyFiles | undefined): string | null {
+  if (answer.mappedProfileField === 'resume') return files?.resume ?? null;
+  if (answer.mappedProfileField === 'coverLetter') return files?.coverLetter ?? null;
+  return null;
+}
+
+async function fillField(
+  page: Page,
+  field: Locator,
+  answer: FormAnswer,
+  files: GuidedApplyFiles | undefined,
+): Promise<GuidedFieldLog> {
+  const entry = { name: answer.name, label: answer.label };
+  switch (answer.type) {
+    case 'FILE': {
+      const file = fileFor(answer, files);
+      if (!file) return { ...entry, action: 'skipped', value: null, reason: 'No file to upload' };
+      await field.setInputFiles(file, { timeout: FIELD_TIMEOUT_MS });
+      return { ...entry, action: 'uploaded', value: file.split(/[\\/]/).pop() ?? file };
+    }
+    case 'CHECKBOX':
+      return {
+        ...entry,
+        action: 'skipped',
+        value: answer.value,
+        reason: 'Checkboxes are left for you',
+      };
+    case 'SELECT': {
+      await field.selectOption({ label: answer.value! }, { timeout: FIELD_TIMEOUT_MS });
+      return { ...entry, action: 'selected', value: answer.value };
+    }
+    case 'RADIO': {
+      const checked = await checkRadioOption(page, answer.name, answer.value!);
+      return checked
+        ? { ...entry, action: 'checked', value: answer.value }
+        : { ...entry, action: 'skipped', value: answer.value, reason: 'Option not found' };
+    }
+    default:
+      await field.fill(answer.value!, { timeout: FIELD_TIMEOUT_MS });
+      return { ...entry, action: 'filled', value: answer.value };
+  }
+}
+
+/**
+ * Open the application form and fill it from the answer sheet. Fields without an answer (or
+ * file) are skipped; errors on one field don't stop the others. Nothing is submitted.
+ */
+export async function fillApplicationForm(
+  page: Page,
+  sheet: AnswerSheet,
+  options?: FillApplicationFormOptions,
+): Promise<GuidedFieldLog[]> {
+  await policyGoto(page, sheet.formUrl ?? sheet.applyUrl, {
+    waitUntil: 'domcontentloaded',
+    timeout: options?.timeoutMs ?? 30_000,
+  });
+  try {
+    await page.waitForLoadState('networkidle', { timeout: 5000 });
+  } catch {
+    // SPA forms may keep polling; fill what has rendered
+  }
+
+  const log: GuidedFieldLog[] = [];
+  for (const answer of sheet.answers) {
+    let entry: GuidedFieldLog;
+    if (!answer.value && answer.type !== 'FILE') {
+      entry = {
+        name: answer.name,
+        label: answer.label,
+        action: 'skipped',
+        value: null,
+        reason: answer.required ? 'Required — needs your input' : 'No answer',
+      };
+    } else {
+      const field = page.locator(attributeSelector(answer.name)).first();
+      try {
+        entry =
+          (await field.count()) === 0
+            ? {
+                name: answer.name,
+                label: answer.label,
+                action: 'skipped',
+                value: answer.value,
+                reason: 'Field not found on the page',
+              }
+            : await fillField(page, field, answer, options?.files);
+      } catch (e) {
+        entry = {
+          name: answer.name,
+          label: answer.label,
+          action: 'skipped',
+          value: answer.value,
+          reason: e instanceof Error ? e.message.split('\n')[0] : String(e),
+        };
+      }
+    }
+    log.push(entry);
+    options?.onField?.(entry);
+  }
+  return log;
+}
@@ -3,8 +3,12 @@
  *
  * Agents in this module:
  * - ApplicationBlueprintAgent: Maps application forms and creates fill plans
+ * - AnswerBankAgent: Reusable answers to common application questions
+ * - GuidedApplyAgent: Fills a reviewed form in the user's browser, stops before submit
  */
 
 export * from './application-blueprint-agent.js';
+export * from './answer-bank-agent.js';
+export * from './guided-apply-agent.js';
 export * from './cover-letter-agent.js';
 export * from './types.js';
@@ -87,3 +87,45 @@ export const PROFILE_FIELDS = [
   'experience',
   'skills',
 ] as const;
+
+export type ProfileField = (typeof PROFILE_FIELDS)[number];
+
+/** Answers available for form fields, keyed by profile field (see PROFILE_FIELDS). */
+export type ApplicantValues = Partial<Record<ProfileField, string>>;
+
+export const FormAnswerSchema = z.object({
+  name: z.string(),
+  label: z.string(),
+  type: FormFieldTypeSchema,
+  required: z.boolean(),
+  options: z.array(z.string()).optional(),
+  mappedProfileField: z.string().nullable(),
+  /** Proposed answer (for SELECT/RADIO, one of the options); null when unknown. */
+  value: z.string().nullable(),
+  /** 0–1: field-mapping confidence, 0 when there is no answer. */
+  confidence: z.number().min(0).max(1),
+  /** Required and no answer: the user has to fill it in. */
+  needsInput: z.boolean(),
+  /** Answer-bank question the label matched (why_company, sponsorship, ...). */
+  questionKey: z.string().nullable().optional(),
+  /** The question is about this job's company: its answer is saved for that company only. */
+  companySpecific: z.boolean().optional(),
+  /** Where the answer came from. */
+  source: z.enum(['profile', 'answer_bank']).optional(),
+});
+
+export type FormAnswer = z.infer<typeof FormAnswerSchema>;
+
+export const AnswerSheetSchema = z.object({
+  applyUrl: z.string(),
+  /** Page the form was read from (after following an apply link). */
+  formUrl: z.string().nullable(),
+  atsType: z.string().optional(),
+  answers: z.array(FormAnswerSchema),
+  requiredDocuments: z.array(z.string()),
+  blockers: z.array(z.string()),
+  unansweredRequired: z.number(),
+  createdAt: z.string(),
+});
+
+export type AnswerSheet = z.infer<typeof AnswerSheetSchema>;
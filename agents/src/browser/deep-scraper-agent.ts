@@ -10,6 +10,7 @@
 
 import type { Page } from 'playwright';
 import type { RawJobListing } from './types.js';
+import { policyGoto } from '../planner/policy-enforcer.js';
 
 const WELLFOUND_BASE = 'https://wellfound.com';
 
@@ -44,7 +45,7 @@ export async function deepScrapeUrls(
   for (const target of toVisit) {
     try {
       await new Promise((r) => setTimeout(r, delayMs + Math.random() * 1000));
-      await page.goto(target.url, { waitUntil: 'load', timeout: 25000 });
+      await policyGoto(page, target.url, { waitUntil: 'load', timeout: 25000 });
       await new Promise((r) => setTimeout(r, 3000));
       const html = await page.content();
       pagesVisited++;
@@ -25,16 +25,42 @@ export interface JobDetail {
   department: string | null;
 }
 
-function decodeHtmlEntities(s: string): string {
-  return s
-    .replace(/&nbsp;/gi, ' ')
-    .replace(/&amp;/gi, '&')
-    .replace(/&lt;/gi, '<')
-    .replace(/&gt;/gi, '>')
-    .replace(/&quot;/gi, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/\s+/g, ' ')
-    .trim();
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+};
+
+/**
+ * Decode named and numeric HTML entities. Malformed or out-of-range numeric entities
+ * ("&#bad;", "&#99999999;") and unknown names are left as written. Whitespace is kept.
+ */
+export function decodeHtmlEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Decode entities and collapse whitespace, for single-line fields (title, company...). */
+function decodeInline(s: string): string {
+  return decodeHtmlEntities(s).replace(/\s+/g, ' ').trim();
 }
 
 /** Derive company name from ATS URL slug when page doesn't provide it (e.g. Lever). */
@@ -158,14 +184,14 @@ function tryMicrodata(html: string, pageUrl: string): JobDetail | null {
     /<div[^>]*itemprop=["']description["'][^>]*>([\s\S]{200,20000}?)<\/div>/i,
   );
 
-  const title = titleMatch ? decodeHtmlEntities(titleMatch[1]) : 'Untitled';
-  const company = companyMatch ? decodeHtmlEntities(companyMatch[1]) : 'Unknown';
+  const title = titleMatch ? decodeInline(titleMatch[1]) : 'Untitled';
+  const company = companyMatch ? decodeInline(companyMatch[1]) : 'Unknown';
   const locationParts = [localityMatch?.[1], regionMatch?.[1], countryMatch?.[1]]
     .filter(Boolean)
-    .map((s) => decodeHtmlEntities(String(s)));
+    .map((s) => decodeInline(String(s)));
   const location = locationParts.length ? locationParts.join(', ') : null;
-  const employmentType = employmentTypeMatch ? decodeHtmlEntities(employmentTypeMatch[1]) : null;
-  const postedDate = datePostedMatch ? decodeHtmlEntities(datePostedMatch[1]) : null;
+  const employmentType = employmentTypeMatch ? decodeInline(employmentTypeMatch[1]) : null;
+  const postedDate = datePostedMatch ? decodeInline(datePostedMatch[1]) : null;
   const description = descriptionMatch ? stripHtmlTags(descriptionMatch[1]) : '';
 
   // Requirements: SmartRecruiters uses itemprop="qualifications" in a section; extract list items.
@@ -346,8 +372,8 @@ function tryDomFallback(html: string, pageUrl: string): JobDetail | null {
       /<title[^>]*>\s*Job Application for\s+(.+?)\s+at\s+(.+?)\s*<\/title>/i,
     );
     if (greenhouseTitle) {
-      const title = decodeHtmlEntities(greenhouseTitle[1].trim());
-      const company = decodeHtmlEntities(greenhouseTitle[2].trim());
+      const title = decodeInline(greenhouseTitle[1].trim());
+      const company = decodeInline(greenhouseTitle[2].trim());
       if (title.length >= 2 && company.length >= 2) {
         return {
           title,
@@ -371,9 +397,9 @@ function tryDomFallback(html: string, pageUrl: string): JobDetail | null {
     const h1Match = html.match(/<h1[^>]*>([^<]{2,200})<\/h1>/i);
     const titleTag = html.match(/<title[^>]*>([^<]+)<\/title>/i);
     if (h1Match && titleTag) {
-      const title = decodeHtmlEntities(h1Match[1].trim());
+      const title = decodeInline(h1Match[1].trim());
       const atCompany = titleTag[1].match(/\bat\s+(.+?)(?:\s*[\|\-]|$)/i);
-      const company = atCompany ? decodeHtmlEntities(atCompany[1].trim()) : 'Unknown';
+      const company = atCompany ? decodeInline(atCompany[1].trim()) : 'Unknown';
       if (title.length >= 2) {
         return {
           title,
@@ -395,7 +421,7 @@ function tryDomFallback(html: string, pageUrl: string): JobDetail | null {
     }
     // Fallback: h1 only + company from Greenhouse path (e.g. /coderoad/jobs/123 -> CodeRoad)
     if (h1Match) {
-      const title = decodeHtmlEntities(h1Match[1].trim());
+      const title = decodeInline(h1Match[1].trim());
       if (title.length >= 2 && !/not found|404|error/i.test(title)) {
         try {
           const path = new URL(pageUrl).pathname.replace(/\/$/, '');
@@ -441,13 +467,13 @@ function tryDomFallback(html: string, pageUrl: string): JobDetail | null {
       let title: string;
       let company: string;
       if (atIdx > 0) {
-        title = decodeHtmlEntities(raw.slice(0, atIdx).trim());
-        company = decodeHtmlEntities(raw.slice(atIdx + 4).trim());
+        title = decodeInline(raw.slice(0, atIdx).trim());
+        company = decodeInline(raw.slice(atIdx + 4).trim());
       } else if (dashIdx > 0) {
-        company = decodeHtmlEntities(raw.slice(0, dashIdx).trim());
-        title = decodeHtmlEntities(raw.slice(dashIdx + 3).trim());
+        company = decodeInline(raw.slice(0, dashIdx).trim());
+        title = decodeInline(raw.slice(dashIdx + 3).trim());
       } else {
-        title = decodeHtmlEntities(raw.trim());
+        title = decodeInline(raw.trim());
         company = companyFromUrlSlug(pageUrl) || 'Unknown';
       }
       if (title.length >= 2 && !/not found|404|error/i.test(title)) {
@@ -471,7 +497,7 @@ function tryDomFallback(html: string, pageUrl: string): JobDetail | null {
     }
     const h1Match = html.match(/<h1[^>]*>([^<]{2,200})<\/h1>/i);
     if (h1Match) {
-      const title = decodeHtmlEntities(h1Match[1].trim());
+      const title = decodeInline(h1Match[1].trim());
       if (title.length >= 2 && !/not found|404|error/i.test(title)) {
         const company = companyFromUrlSlug(pageUrl);
         if (company) {
@@ -505,9 +531,9 @@ function tryDomFallback(html: string, pageUrl: string): JobDetail | null {
       const atIdx = raw.toLowerCase().indexOf(' at ');
       const title =
         atIdx > 0
-          ? decodeHtmlEntities(raw.slice(0, atIdx).trim())
-          : decodeHtmlEntities(raw.replace(/\s*[\|\-].*$/, '').trim());
-      const company = atIdx > 0 ? decodeHtmlEntities(raw.slice(atIdx + 4).trim()) : 'Unknown';
+          ? decodeInline(raw.slice(0, atIdx).trim())
+          : decodeInline(raw.replace(/\s*[\|\-].*$/, '').trim());
+      const company = atIdx > 0 ? decodeInline(raw.slice(atIdx + 4).trim()) : 'Unknown';
       if (title.length >= 2) {
         return {
           title,
@@ -544,8 +570,8 @@ function tryDomFallback(html: string, pageUrl: string): JobDetail | null {
       } else if (dashIdx > 0) {
         title = raw.slice(0, dashIdx).trim();
       }
-      title = decodeHtmlEntities(title);
-      const company = pipeIdx > 0 ? decodeHtmlEntities(raw.slice(pipeIdx + 1).trim()) : 'Apple';
+      title = decodeInline(title);
+      const company = pipeIdx > 0 ? decodeInline(raw.slice(pipeIdx + 1).trim()) : 'Apple';
       if (title.length >= 2 && !/not found|404|error|careers/i.test(title)) {
         return {
           title,
@@ -11,6 +11,7 @@
 
 import { chromium } from 'playwright';
 import type { PageArtifact } from './types.js';
+import { policyGoto } from '../planner/policy-enforcer.js';
 
 export interface NavigatorConfig {
   headless?: boolean;
@@ -47,7 +48,7 @@ export async function navigateToUrl(
       viewport: config.viewport ?? DEFAULT_CONFIG.viewport,
     });
     const page = await context.newPage();
-    await page.goto(url, {
+    await policyGoto(page, url, {
       waitUntil: 'domcontentloaded',
       timeout: config.timeout ?? DEFAULT_CONFIG.timeout,
     });
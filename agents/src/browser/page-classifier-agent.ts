@@ -53,7 +53,8 @@ interface HeuristicScore {
   signals: string[];
 }
 
-const HEURISTIC_CONFIDENCE_THRESHOLD = 0.6;
+/** Heuristic scores at or above this are trusted without the LLM. */
+export const HEURISTIC_CONFIDENCE_THRESHOLD = 0.6;
 
 /**
  * Classify a page. Heuristics first; LLM only when confidence < threshold.
@@ -127,11 +128,12 @@ function runHeuristics(html: string, url: string, statusCode?: number): Heuristi
       score += 0.8;
       signals.push(`status_${statusCode}`);
     }
-    if (lower.includes('page not found') || lower.includes('404')) {
+    // Whole-word codes only: "Req ID 140452" and "Fortune 500 ... error rates" are job text
+    if (lower.includes('page not found') || /\b404\b/.test(lower)) {
       score += 0.3;
       signals.push('not_found_text');
     }
-    if (lower.includes('500') && lower.includes('error')) {
+    if (/\b(?:500 internal server error|(?:http )?error 500|500 error)\b/.test(lower)) {
       score += 0.3;
       signals.push('server_error_text');
     }
@@ -11,6 +11,7 @@
  */
 
 import type { SourceValidationResult } from './types.js';
+import { policyFetch } from '../planner/policy-enforcer.js';
 
 export interface ValidationConfig {
   timeout: number;
@@ -87,7 +88,7 @@ export async function validateSource(
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), config.timeout);
 
-    const response = await fetch(url, {
+    const response = await policyFetch(url, {
       method: 'GET',
       signal: controller.signal,
       headers: {
@@ -12,6 +12,7 @@
 
 import { complete } from '@careersignal/llm';
 import type { ContactSearchResult, ContactArchetype } from './types.js';
+import { policyFetch } from '../planner/policy-enforcer.js';
 
 export interface SearchConfig {
   maxResults: number;
@@ -55,7 +56,7 @@ export async function searchGitHubOrg(orgName: string): Promise<ContactSearchRes
 
   try {
     // GitHub API is free for public data
-    const response = await fetch(`https://api.github.com/orgs/${orgName}/members`, {
+    const response = await policyFetch(`https://api.github.com/orgs/${orgName}/members`, {
       headers: {
         Accept: 'application/vnd.github.v3+json',
         'User-Agent': 'CareerSignal/1.0',
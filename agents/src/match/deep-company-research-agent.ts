@@ -34,6 +34,7 @@ import {
   type CoreField,
 } from './dossier-types.js';
 import { cleanHtml } from '../browser/html-cleanup-agent.js';
+import { policyFetch, policyGoto } from '../planner/policy-enforcer.js';
 
 export interface DeepCompanyResearchInput {
   companyName: string;
@@ -156,7 +157,7 @@ async function fetchWithTimeout(url: string, timeoutMs: number): Promise<string
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
   try {
-    const res = await fetch(url, {
+    const res = await policyFetch(url, {
       redirect: 'follow',
       signal: controller.signal,
       headers: {
@@ -181,7 +182,7 @@ async function fetchWithBrowser(
   timeoutMs: number,
 ): Promise<string | null> {
   try {
-    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
+    await policyGoto(page, url, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
     await page.waitForTimeout(2000);
     try {
       await page.waitForLoadState('networkidle', { timeout: 5000 });
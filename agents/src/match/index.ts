@@ -3,7 +3,10 @@
  */
 
 export * from './profile-job-match-agent.js';
+export * from './resume-version-selector.js';
+export * from './requirement-evidence-agent.js';
 export * from './resume-suggestions-agent.js';
+export * from './resume-tailor-agent.js';
 export * from './interview-prep-agent.js';
 export * from './company-research-agent.js';
 export * from './company-identity-resolver-agent.js';
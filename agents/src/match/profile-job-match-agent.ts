@@ -52,7 +52,8 @@ export interface MatchResult {
   strictFilterRejects: StrictFilterReject[];
 }
 
-function scoreToGrade(score: number): string {
+/** Letter grade for a 0–100 match score (shared with the eval harness). */
+export function scoreToGrade(score: number): string {
   if (score >= 90) return 'A+';
   if (score >= 85) return 'A';
   if (score >= 80) return 'A-';
@@ -0,0 +1,130 @@
+/**
+ * Requirement Evidence Agent — maps each job requirement to the resume line that best supports it.
+ *
+ * Embeds the posting's requirements alongside the candidate's evidence (resume bullets, skills,
+ * experience titles), picks the most similar piece of evidence per requirement and grades it
+ * met / partial / missing by cosine similarity. Explains the match score line by line.
+ *
+ * LLM Usage: Embeddings only (embedBatch)
+ */
+
+import { bestMatch, embedBatch } from '@careersignal/llm';
+import type { JobDetail } from '../browser/job-detail-extractor-agent.js';
+import type { ProfileSnapshot } from './profile-job-match-agent.js';
+
+export type RequirementVerdict = 'met' | 'partial' | 'missing';
+
+export interface RequirementEvidence {
+  requirement: string;
+  /** Best matching resume bullet or skill; null when the profile has no evidence at all. */
+  evidence: string | null;
+  evidenceSource: 'bullet' | 'skill' | 'experience' | null;
+  /** Cosine similarity of requirement and evidence, 0–1 (rounded to 2 places). */
+  similarity: number;
+  verdict: RequirementVerdict;
+}
+
+/** Similarity at or above which a requirement counts as met / partially met. */
+export const REQUIREMENT_MET_THRESHOLD = 0.75;
+export const REQUIREMENT_PARTIAL_THRESHOLD = 0.6;
+
+const MIN_BULLET_LENGTH = 20;
+const MAX_BULLETS = 80;
+
+interface EvidenceCandidate {
+  text: string;
+  source: 'bullet' | 'skill' | 'experience';
+}
+
+/** Resume lines worth quoting as evidence: bullet points and sentence-length lines. */
+export function extractResumeBullets(rawText: string | null): string[] {
+  if (!rawText) return [];
+  const seen = new Set<string>();
+  const bullets: string[] = [];
+  for (const line of rawText.split(/\r?\n/)) {
+    const text = line.replace(/^\s*(?:[-*•▪◦‣·]|\d+[.)])\s*/, '').trim();
+    if (text.length < MIN_BULLET_LENGTH || seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+    bullets.push(text);
+    if (bullets.length >= MAX_BULLETS) break;
+  }
+  return bullets;
+}
+
+export function requirementVerdict(similarity: number): RequirementVerdict {
+  if (similarity >= REQUIREMENT_MET_THRESHOLD) return 'met';
+  if (similarity >= REQUIREMENT_PARTIAL_THRESHOLD) return 'partial';
+  return 'missing';
+}
+
+function buildCandidates(profile: ProfileSnapshot): EvidenceCandidate[] {
+  const candidates: EvidenceCandidate[] = [
+    ...extractResumeBullets(profile.resumeRawText).map((text) => ({
+      text,
+      source: 'bullet' as const,
+    })),
+    ...profile.skills
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .map((text) => ({ text, source: 'skill' as const })),
+    ...profile.experience
+      .filter((e) => e.title)
+      .map((e) => ({
+        text: e.company ? `${e.title} at ${e.company}` : e.title,
+        source: 'experience' as const,
+      })),
+  ];
+  const seen = new Set<string>();
+  return candidates.filter((c) => {
+    const key = c.text.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Requirement-to-evidence matrix for a job, in requirement order. Empty when the job lists no
+ * requirements; every requirement is 'missing' when the profile has nothing to compare against.
+ */
+export async function mapRequirementEvidence(
+  profile: ProfileSnapshot,
+  job: JobDetail,
+  options?: { timeout?: number },
+): Promise<RequirementEvidence[]> {
+  const requirements = job.requirements.map((r) => r.trim()).filter(Boolean);
+  if (requirements.length === 0) return [];
+
+  const candidates = buildCandidates(profile);
+  if (candidates.length === 0) {
+    return requirements.map((requirement) => ({
+      requirement,
+      evidence: null,
+      evidenceSource: null,
+      similarity: 0,
+      verdict: 'missing',
+    }));
+  }
+
+  const embeddings = await embedBatch([...requirements, ...candidates.map((c) => c.text)], {
+    timeout: options?.timeout ?? 180000,
+  });
+  const requirementVectors = embeddings.slice(0, requirements.length);
+  const candidateVectors = embeddings.slice(requirements.length);
+
+  return requirements.map((requirement, i) => {
+    const { index: best, score: bestScore } = bestMatch(
+      requirementVectors[i] ?? [],
+      candidateVectors,
+    );
+    const match = best >= 0 ? candidates[best]! : null;
+    const similarity = Math.round(bestScore * 100) / 100;
+    return {
+      requirement,
+      evidence: match?.text ?? null,
+      evidenceSource: match?.source ?? null,
+      similarity,
+      verdict: match ? requirementVerdict(similarity) : 'missing',
+    };
+  });
+}
@@ -4,12 +4,19 @@
  * Given a job description and the user's resume/profile, produces:
  * - What already matches well
  * - What to add or improve
- * - Missing keywords for ATS
+ * - Missing keywords for ATS (skills the profile already covers, under any alias, are dropped)
  */
 
 import { complete } from '@careersignal/llm';
 import type { JobDetail } from '../browser/job-detail-extractor-agent.js';
 import type { ProfileSnapshot } from './profile-job-match-agent.js';
+import {
+  DEFAULT_SKILL_TAXONOMY,
+  canonicalSkillName,
+  skillsCover,
+  textMentionsSkill,
+  type SkillTaxonomy,
+} from '../normalize/skill-taxonomy.js';
 
 export interface ResumeSuggestions {
   matches: string[];
@@ -20,6 +27,7 @@ export interface ResumeSuggestions {
 export async function generateResumeSuggestions(
   profile: ProfileSnapshot,
   job: JobDetail,
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY,
 ): Promise<ResumeSuggestions> {
   const resumeText = profile.resumeRawText?.slice(0, 4000) || 'No resume text available.';
 
@@ -56,7 +64,9 @@ Be specific and actionable. Reference actual terms from both the resume and job
     return {
       matches: Array.isArray(parsed.matches) ? parsed.matches.slice(0, 6) : [],
       improvements: Array.isArray(parsed.improvements) ? parsed.improvements.slice(0, 6) : [],
-      keywordsToAdd: Array.isArray(parsed.keywordsToAdd) ? parsed.keywordsToAdd.slice(0, 10) : [],
+      keywordsToAdd: Array.isArray(parsed.keywordsToAdd)
+        ? missingKeywords(parsed.keywordsToAdd, profile, taxonomy).slice(0, 10)
+        : [],
     };
   } catch {
     return {
@@ -66,3 +76,28 @@ Be specific and actionable. Reference actual terms from both the resume and job
     };
   }
 }
+
+/**
+ * Keywords the resume doesn't already cover: drops ones the profile's skills imply or the resume
+ * text mentions under any alias, and alias duplicates. Known skills use their canonical name.
+ */
+export function missingKeywords(
+  keywords: unknown[],
+  profile: ProfileSnapshot,
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY,
+): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const keyword of keywords) {
+    if (typeof keyword !== 'string' || !keyword.trim()) continue;
+    const canonical = canonicalSkillName(keyword, taxonomy);
+    if (seen.has(canonical.toLowerCase())) continue;
+    seen.add(canonical.toLowerCase());
+    if (skillsCover(profile.skills, canonical, taxonomy)) continue;
+    if (profile.resumeRawText && textMentionsSkill(profile.resumeRawText, canonical, taxonomy)) {
+      continue;
+    }
+    result.push(canonical);
+  }
+  return result;
+}
@@ -0,0 +1,385 @@
+/**
+ * Resume Tailor Agent — rewrites and reorders resume bullets for one job.
+ *
+ * Given the parsed experience/projects/skills and the job's requirements, asks the LLM to
+ * reorder items and bullets by relevance and rephrase bullets toward the job's vocabulary.
+ * Every rewrite is checked against the source: a rewrite that introduces a number, or a
+ * tool/term that appears nowhere in the user's resume, is rejected and the original kept.
+ * Nothing is dropped: items and bullets the LLM leaves out are appended in original order.
+ *
+ * LLM Usage: Heavy (GENERAL model). Falls back to a keyword-overlap reorder without rewrites.
+ */
+
+import { complete } from '@careersignal/llm';
+import type { JobDetail } from '../browser/job-detail-extractor-agent.js';
+
+export interface TailorSourceItem {
+  kind: 'experience' | 'project';
+  /** Job title or project name. */
+  heading: string;
+  /** Company, or project context / technologies. */
+  subheading: string | null;
+  dates: string | null;
+  bullets: string[];
+}
+
+export interface TailorSource {
+  name: string;
+  /** Contact line parts (email, phone, location, links). */
+  contact: string[];
+  skills: string[];
+  items: TailorSourceItem[];
+  education: {
+    institution: string;
+    degree?: string | null;
+    field?: string | null;
+    dates?: string | null;
+  }[];
+}
+
+export interface TailoredBullet {
+  text: string;
+  original: string;
+  changed: boolean;
+  /** Word diff from original to text, for changed bullets. */
+  diff?: DiffOp[];
+  /** Set when an LLM rewrite was discarded; explains which claim was unsupported. */
+  rejectedReason?: string;
+}
+
+export interface TailoredItem extends Omit<TailorSourceItem, 'bullets'> {
+  /** Index of the item in TailorSource.items. */
+  sourceIndex: number;
+  bullets: TailoredBullet[];
+}
+
+export interface TailoredResume {
+  name: string;
+  contact: string[];
+  skills: string[];
+  items: TailoredItem[];
+  education: TailorSource['education'];
+  notes: string[];
+  rejectedEdits: number;
+}
+
+export interface DiffOp {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+const MAX_DIFF_TOKENS = 400;
+
+/**
+ * Word-level diff (LCS) of two strings. Whitespace is kept with the preceding word so
+ * joining the texts of 'equal' + 'insert' ops reproduces `after`.
+ */
+export function diffWords(before: string, after: string): DiffOp[] {
+  const a = before.match(/\S+\s*/g) ?? [];
+  const b = after.match(/\S+\s*/g) ?? [];
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    return [
+      { op: 'delete', text: before },
+      { op: 'insert', text: after },
+    ];
+  }
+  const key = (t: string) => t.trim().toLowerCase();
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        key(a[i]!) === key(b[j]!)
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  const push = (op: DiffOp['op'], text: string) => {
+    const last = ops[ops.length - 1];
+    if (last && last.op === op) last.text += text;
+    else ops.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (key(a[i]!) === key(b[j]!)) {
+      push('equal', b[j]!);
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      push('delete', a[i++]!);
+    } else {
+      push('insert', b[j++]!);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]!);
+  while (j < b.length) push('insert', b[j++]!);
+  return ops;
+}
+
+const NUMBER_RE = /\d+(?:[.,]\d+)*\s*(?:%|x|k|m|\+)?/gi;
+/** Proper nouns, acronyms and tool names (capitalized, or with digits/symbols: C#, Node.js). */
+const TERM_RE = /\b[A-Za-z][A-Za-z0-9]*(?:[.+#/-][A-Za-z0-9+#]+)*[+#]*/g;
+
+function normalizeNumber(n: string): string {
+  return n.replace(/[\s,]/g, '').toLowerCase();
+}
+
+function isTermLike(word: string, index: number, text: string): boolean {
+  if (/[0-9+#.]/.test(word.slice(1)) || /[A-Z]/.test(word.slice(1))) return true;
+  if (!/^[A-Z]/.test(word)) return false;
+  // Capitalized only because it starts a sentence or the bullet.
+  const before = text.slice(0, index).trimEnd();
+  return before.length > 0 && !/[.!?:;•\-–—(]$/.test(before);
+}
+
+/**
+ * Claims in `rewritten` that the source does not support: numbers not in `original`, and
+ * capitalized terms/tool names that appear neither in `original` nor anywhere in `corpus`
+ * (the user's full resume text, lowercased).
+ */
+export function findUnsupportedClaims(
+  original: string,
+  rewritten: string,
+  corpus: string,
+): string[] {
+  const unsupported: string[] = [];
+  const originalNumbers = new Set((original.match(NUMBER_RE) ?? []).map(normalizeNumber));
+  for (const n of rewritten.match(NUMBER_RE) ?? []) {
+    const norm = normalizeNumber(n);
+    if (!originalNumbers.has(norm) && !originalNumbers.has(norm.replace(/[%xkm+]$/, ''))) {
+      unsupported.push(n.trim());
+    }
+  }
+
+  const originalLower = original.toLowerCase();
+  for (const match of rewritten.matchAll(TERM_RE)) {
+    const word = match[0];
+    if (!isTermLike(word, match.index ?? 0, rewritten)) continue;
+    const lower = word.toLowerCase();
+    if (originalLower.includes(lower) || corpus.includes(lower)) continue;
+    unsupported.push(word);
+  }
+  return [...new Set(unsupported)];
+}
+
+function sourceCorpus(source: TailorSource): string {
+  return [
+    ...source.skills,
+    ...source.items.flatMap((it) => [it.heading, it.subheading ?? '', ...it.bullets]),
+    ...source.education.flatMap((e) => [e.institution, e.degree ?? '', e.field ?? '']),
+  ]
+    .join('\n')
+    .toLowerCase();
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter((w) => w.length > 2);
+}
+
+function jobKeywords(job: JobDetail, extra: string[] = []): Set<string> {
+  return new Set(words([job.title, ...job.requirements, ...extra].join(' ')));
+}
+
+/** Number of distinct job keywords the text mentions as whole words. */
+function relevance(text: string, keywords: Set<string>): number {
+  return new Set(words(text).filter((w) => keywords.has(w))).size;
+}
+
+/** Stable sort by descending score. */
+function rankBy<T>(list: T[], score: (t: T) => number): T[] {
+  return list
+    .map((t, i) => ({ t, i, s: score(t) }))
+    .sort((x, y) => y.s - x.s || x.i - y.i)
+    .map((x) => x.t);
+}
+
+function unchanged(bullet: string): TailoredBullet {
+  return { text: bullet, original: bullet, changed: false };
+}
+
+/** Deterministic fallback: reorder bullets, projects and skills by job keyword overlap. */
+export function reorderResumeForJob(
+  source: TailorSource,
+  job: JobDetail,
+  keywordsToAdd: string[] = [],
+): TailoredResume {
+  const keywords = jobKeywords(job, keywordsToAdd);
+  const items = source.items.map((item, sourceIndex) => ({ ...item, sourceIndex }));
+  const rankItems = (kind: TailorSourceItem['kind']) =>
+    rankBy(
+      items.filter((it) => it.kind === kind),
+      (it) => relevance([it.heading, it.subheading ?? '', ...it.bullets].join(' '), keywords),
+    );
+  return {
+    name: source.name,
+    contact: source.contact,
+    skills: rankBy(source.skills, (s) => relevance(s, keywords)),
+    // Experience keeps chronological order; projects are ranked by relevance.
+    items: [...items.filter((it) => it.kind === 'experience'), ...rankItems('project')].map(
+      (it) => ({
+        ...it,
+        bullets: rankBy(it.bullets, (b) => relevance(b, keywords)).map(unchanged),
+      }),
+    ),
+    education: source.education,
+    notes: [],
+    rejectedEdits: 0,
+  };
+}
+
+interface LlmTailorResponse {
+  projectOrder?: number[];
+  items?: { index?: number; bullets?: { source?: number; text?: string }[] }[];
+  skills?: string[];
+  notes?: string[];
+}
+
+function formatSourceForPrompt(source: TailorSource): string {
+  return source.items
+    .map(
+      (it, i) =>
+        `[${i}] ${it.kind.toUpperCase()}: ${it.heading}${it.subheading ? ` — ${it.subheading}` : ''}\n` +
+        it.bullets.map((b, j) => `  (${j}) ${b}`).join('\n'),
+    )
+    .join('\n');
+}
+
+/** Merge the LLM response onto the source, enforcing no-drop and no-invented-facts rules. */
+export function applyTailorResponse(
+  source: TailorSource,
+  response: LlmTailorResponse,
+): TailoredResume {
+  const corpus = sourceCorpus(source);
+  let rejectedEdits = 0;
+
+  const byIndex = new Map<number, { source?: number; text?: string }[]>();
+  for (const it of response.items ?? []) {
+    if (typeof it.index === 'number' && Array.isArray(it.bullets))
+      byIndex.set(it.index, it.bullets);
+  }
+
+  const tailorItem = (item: TailorSourceItem, sourceIndex: number): TailoredItem => {
+    const used = new Set<number>();
+    const bullets: TailoredBullet[] = [];
+    for (const b of byIndex.get(sourceIndex) ?? []) {
+      const src = b.source;
+      if (typeof src !== 'number' || used.has(src) || !item.bullets[src]) continue;
+      used.add(src);
+      const original = item.bullets[src]!;
+      const text = typeof b.text === 'string' ? b.text.trim() : '';
+      if (!text || text === original) {
+        bullets.push(unchanged(original));
+        continue;
+      }
+      const unsupported = findUnsupportedClaims(original, text, corpus);
+      if (unsupported.length) {
+        rejectedEdits++;
+        bullets.push({
+          ...unchanged(original),
+          rejectedReason: `Not in your resume: ${unsupported.join(', ')}`,
+        });
+      } else {
+        bullets.push({ text, original, changed: true, diff: diffWords(original, text) });
+      }
+    }
+    item.bullets.forEach((b, j) => {
+      if (!used.has(j)) bullets.push(unchanged(b));
+    });
+    return { ...item, sourceIndex, bullets };
+  };
+
+  const experience = source.items
+    .map((it, i) => ({ it, i }))
+    .filter(({ it }) => it.kind === 'experience');
+  const projectIdx = source.items
+    .map((it, i) => (it.kind === 'project' ? i : -1))
+    .filter((i) => i >= 0);
+  const projectOrder = [
+    ...new Set((response.projectOrder ?? []).filter((i) => projectIdx.includes(i))),
+  ];
+  for (const i of projectIdx) if (!projectOrder.includes(i)) projectOrder.push(i);
+
+  const known = new Map(source.skills.map((s) => [s.toLowerCase(), s]));
+  const skills: string[] = [];
+  for (const s of response.skills ?? []) {
+    const match = typeof s === 'string' ? known.get(s.toLowerCase()) : undefined;
+    if (match && !skills.includes(match)) skills.push(match);
+  }
+  for (const s of source.skills) if (!skills.includes(s)) skills.push(s);
+
+  return {
+    name: source.name,
+    contact: source.contact,
+    skills,
+    items: [
+      ...experience.map(({ it, i }) => tailorItem(it, i)),
+      ...projectOrder.map((i) => tailorItem(source.items[i]!, i)),
+    ],
+    education: source.education,
+    notes: Array.isArray(response.notes)
+      ? response.notes.filter((n) => typeof n === 'string').slice(0, 5)
+      : [],
+    rejectedEdits,
+  };
+}
+
+export async function tailorResume(
+  source: TailorSource,
+  job: JobDetail,
+  options: { keywordsToAdd?: string[] } = {},
+): Promise<TailoredResume> {
+  const keywordsToAdd = options.keywordsToAdd ?? [];
+  if (!source.items.some((it) => it.bullets.length > 0)) {
+    return {
+      ...reorderResumeForJob(source, job, keywordsToAdd),
+      notes: ['No experience or project bullets to tailor. Parse your resume first.'],
+    };
+  }
+
+  const prompt = `You are tailoring a resume for one job posting. Rewrite and reorder bullets so the most relevant work comes first and uses the job's vocabulary where it honestly applies.
+
+STRICT RULES:
+- Do not invent facts. Never add numbers, metrics, tools, technologies, employers or outcomes that are not in the original bullet or elsewhere in the resume.
+- A rewrite may rephrase, tighten, or surface an existing detail; if a bullet is already good or cannot be honestly aligned, return it unchanged.
+- Every bullet must reference its original by "source" index. Do not merge or split bullets.
+
+RESUME ITEMS (index, then bullets with their source index):
+${formatSourceForPrompt(source)}
+
+SKILLS: ${source.skills.join(', ') || 'None listed'}
+
+JOB POSTING:
+Title: ${job.title}
+Company: ${job.company}
+Requirements: ${job.requirements.join('; ') || 'None listed'}
+Description: ${job.description.slice(0, 2500)}
+${keywordsToAdd.length ? `Keywords the resume is missing (use only if the resume already supports them): ${keywordsToAdd.join(', ')}` : ''}
+
+Return a JSON object with:
+- items: array of { index: number, bullets: array of { source: number, text: string } } for every item, bullets in the new order (most relevant first)
+- projectOrder: array of PROJECT item indices, most relevant first (experience stays chronological)
+- skills: the existing skills reordered, most relevant to this job first (do not add new skills)
+- notes: array of 1-3 short strings on what was emphasized`;
+
+  try {
+    const response = await complete(prompt, 'GENERAL', {
+      format: 'json',
+      temperature: 0.2,
+      maxTokens: 4096,
+      timeout: 240000,
+    });
+    return applyTailorResponse(source, JSON.parse(response) as LlmTailorResponse);
+  } catch {
+    return {
+      ...reorderResumeForJob(source, job, keywordsToAdd),
+      notes: ['LLM unavailable — bullets reordered by keyword overlap, wording unchanged.'],
+    };
+  }
+}
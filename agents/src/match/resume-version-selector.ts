@@ -0,0 +1,242 @@
+/**
+ * Resume Version Selector — picks which of the user's resume versions to use for a job.
+ *
+ * Scores each version against the extracted JobDetail by how much of the job's vocabulary
+ * (title + requirements) the version covers, how many of its skills the posting mentions, and
+ * how close its experience titles are to the job title. A pinned version always wins.
+ *
+ * LLM Usage: None (pure code logic)
+ */
+
+import type { JobDetail } from '../browser/job-detail-extractor-agent.js';
+import type { ProfileSnapshot } from './profile-job-match-agent.js';
+
+/** A stored version, or the profile resume (id PROFILE_RESUME_ID), as selection needs it. */
+export interface ResumeVersion {
+  id: string;
+  name: string;
+  isDefault?: boolean;
+  rawText: string | null;
+  skills: string[];
+  experience: { title?: string; company?: string; startDate?: string; endDate?: string }[];
+  education: { institution?: string; degree?: string; field?: string }[];
+}
+
+export interface ResumeVersionScore {
+  resumeId: string;
+  name: string;
+  /** 0–100. */
+  score: number;
+  matchedKeywords: string[];
+}
+
+/** How the version was chosen; stored on the analysis so the UI can show it. */
+export interface ResumeVersionSelection {
+  resumeId: string | null;
+  name: string | null;
+  /** pinned = user chose it; auto = best score; profile = no candidates, profile used as is. */
+  mode: 'pinned' | 'auto' | 'profile';
+  score: number | null;
+  candidates: ResumeVersionScore[];
+  reason: string;
+}
+
+/** Id for the profile's own resume when it competes alongside stored versions. */
+export const PROFILE_RESUME_ID = 'profile';
+
+const STOP_WORDS = new Set([
+  'and',
+  'the',
+  'for',
+  'with',
+  'you',
+  'your',
+  'our',
+  'are',
+  'will',
+  'have',
+  'has',
+  'from',
+  'this',
+  'that',
+  'who',
+  'its',
+  'all',
+  'any',
+  'able',
+  'into',
+  'across',
+  'using',
+  'use',
+  'work',
+  'working',
+  'team',
+  'teams',
+  'strong',
+  'experience',
+  'years',
+  'year',
+  'plus',
+  'including',
+  'knowledge',
+  'understanding',
+  'ability',
+  'skills',
+  'role',
+  'etc',
+  'other',
+  'must',
+  'should',
+  'preferred',
+  'required',
+  'requirements',
+  'bonus',
+  'nice',
+]);
+
+const MAX_MATCHED_KEYWORDS = 10;
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*[a-z0-9+#]|[a-z]/g) ?? []).filter(
+    (t) => t.length >= 2 && !STOP_WORDS.has(t) && !/^\d+$/.test(t),
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whole-word, case-insensitive phrase test ("go" must not match "google"). */
+function mentions(haystack: string, phrase: string): boolean {
+  const needle = phrase.trim().toLowerCase();
+  if (!needle) return false;
+  return new RegExp(`(^|[^a-z0-9+#])${escapeRegExp(needle)}(?=$|[^a-z0-9+#])`).test(haystack);
+}
+
+function versionText(version: ResumeVersion): string {
+  return [
+    version.rawText ?? '',
+    version.skills.join(' '),
+    version.experience.map((e) => `${e.title ?? ''} ${e.company ?? ''}`).join(' '),
+  ]
+    .join('\n')
+    .toLowerCase();
+}
+
+/**
+ * Score = 60% job-keyword coverage + 25% skill mentions (capped at 8 skills) + 15% title overlap.
+ * Coverage is measured over the job's vocabulary, so a longer resume is not penalized.
+ */
+export function scoreResumeVersion(version: ResumeVersion, job: JobDetail): ResumeVersionScore {
+  const jobText = [job.title, ...job.requirements, job.description].join('\n').toLowerCase();
+  const resumeTokens = new Set(tokenize(versionText(version)));
+
+  const jobKeywords = [...new Set(tokenize([job.title, ...job.requirements].join('\n')))];
+  const matchedKeywords = jobKeywords.filter((k) => resumeTokens.has(k));
+  const coverage = jobKeywords.length > 0 ? matchedKeywords.length / jobKeywords.length : 0;
+
+  const skillHits = version.skills.filter((s) => mentions(jobText, s)).length;
+  const skillScore = Math.min(1, skillHits / 8);
+
+  const jobTitleTokens = new Set(tokenize(job.title));
+  let titleOverlap = 0;
+  for (const title of [version.name, ...version.experience.map((e) => e.title ?? '')]) {
+    const tokens = tokenize(title);
+    if (!tokens.length || !jobTitleTokens.size) continue;
+    const hits = tokens.filter((t) => jobTitleTokens.has(t)).length;
+    titleOverlap = Math.max(titleOverlap, hits / jobTitleTokens.size);
+  }
+
+  const score = 100 * (0.6 * coverage + 0.25 * skillScore + 0.15 * Math.min(1, titleOverlap));
+  return {
+    resumeId: version.id,
+    name: version.name,
+    score: Math.round(score * 100) / 100,
+    matchedKeywords: matchedKeywords.slice(0, MAX_MATCHED_KEYWORDS),
+  };
+}
+
+/**
+ * Choose a version for this job. A pinned id that exists wins; otherwise the highest score, with
+ * ties going to the default version, then to list order. No candidates → mode 'profile'.
+ */
+export function selectResumeVersion(
+  versions: ResumeVersion[],
+  job: JobDetail,
+  pinnedResumeId?: string | null,
+): ResumeVersionSelection {
+  if (versions.length === 0) {
+    return {
+      resumeId: null,
+      name: null,
+      mode: 'profile',
+      score: null,
+      candidates: [],
+      reason: 'No resume versions saved; using the profile resume',
+    };
+  }
+
+  const candidates = versions.map((v) => scoreResumeVersion(v, job));
+  const pinned = pinnedResumeId ? versions.find((v) => v.id === pinnedResumeId) : undefined;
+  if (pinned) {
+    const score = candidates.find((c) => c.resumeId === pinned.id)!.score;
+    return {
+      resumeId: pinned.id,
+      name: pinned.name,
+      mode: 'pinned',
+      score,
+      candidates,
+      reason: `Pinned by you: "${pinned.name}" (fit ${score})`,
+    };
+  }
+
+  let best = 0;
+  for (let i = 1; i < candidates.length; i++) {
+    const diff = candidates[i]!.score - candidates[best]!.score;
+    if (diff > 0 || (diff === 0 && versions[i]!.isDefault && !versions[best]!.isDefault)) best = i;
+  }
+  const chosen = candidates[best]!;
+  // The profile resume is only a candidate when it has text (see buildResumeCandidates).
+  const missingPin = !pinnedResumeId
+    ? ''
+    : pinnedResumeId === PROFILE_RESUME_ID
+      ? ' (pinned profile resume has no text)'
+      : ' (pinned version no longer exists)';
+  return {
+    resumeId: chosen.resumeId,
+    name: chosen.name,
+    mode: 'auto',
+    score: chosen.score,
+    candidates,
+    reason:
+      versions.length === 1
+        ? `Only version: "${chosen.name}"${missingPin}`
+        : `Best fit of ${versions.length} versions: "${chosen.name}" (fit ${chosen.score})` +
+          (chosen.matchedKeywords.length
+            ? `; matches ${chosen.matchedKeywords.slice(0, 5).join(', ')}`
+            : '') +
+          missingPin,
+  };
+}
+
+/**
+ * Profile snapshot with the version's resume text, skills, experience and education swapped in.
+ * Empty version sections (e.g. not parsed yet) keep the profile's values.
+ */
+export function applyResumeVersion(
+  profile: ProfileSnapshot,
+  version: ResumeVersion | null,
+): ProfileSnapshot {
+  if (!version) return profile;
+  return {
+    ...profile,
+    resumeRawText: version.rawText ?? profile.resumeRawText,
+    skills: version.skills.length ? version.skills : profile.skills,
+    experience: version.experience.length
+      ? version.experience.map((e) => ({ ...e, title: e.title ?? '', company: e.company ?? '' }))
+      : profile.experience,
+    education: version.education.length
+      ? version.education.map((e) => ({ ...e, institution: e.institution ?? '' }))
+      : profile.education,
+  };
+}
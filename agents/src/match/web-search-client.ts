@@ -6,6 +6,7 @@
  */
 
 import type { Page } from 'playwright';
+import { policyFetch, policyGoto } from '../planner/policy-enforcer.js';
 
 export interface SearchResult {
   url: string;
@@ -126,7 +127,10 @@ export async function searchWebViaBrowser(page: Page, query: string): Promise<Se
 
   const url = `${DDG_HTML_BASE}?q=${encodeURIComponent(q)}`;
   try {
-    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: BROWSER_SEARCH_TIMEOUT_MS });
+    await policyGoto(page, url, {
+      waitUntil: 'domcontentloaded',
+      timeout: BROWSER_SEARCH_TIMEOUT_MS,
+    });
     await page.waitForTimeout(DDG_WAIT_FOR_RESULTS_MS);
     return await extractDuckDuckGoResultsFromPage(page);
   } catch {
@@ -162,7 +166,7 @@ export async function searchWeb(
   const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
 
   try {
-    const res = await fetch(`${SERPAPI_BASE}?${params.toString()}`, {
+    const res = await policyFetch(`${SERPAPI_BASE}?${params.toString()}`, {
       method: 'GET',
       signal: controller.signal,
       headers: { Accept: 'application/json' },
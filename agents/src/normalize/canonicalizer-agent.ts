@@ -6,11 +6,17 @@
  * - Normalize locations to city, state/country format
  * - Expand abbreviations
  * - Map seniority keywords to levels
+ * - Map skill variants to canonical names (skill taxonomy)
  *
  * LLM Usage: Light (normalize exotic titles to standard taxonomy)
  */
 
 import type { SeniorityLevel, RemoteType } from './types.js';
+import {
+  canonicalSkillName,
+  DEFAULT_SKILL_TAXONOMY,
+  type SkillTaxonomy,
+} from './skill-taxonomy.js';
 
 // Title standardization mappings
 const TITLE_MAPPINGS: Record<string, string> = {
@@ -235,3 +241,21 @@ export function canonicalizeCompany(company: string): string {
 
   return normalized;
 }
+
+/**
+ * Canonicalize a skill list: taxonomy names, duplicates (incl. aliases) dropped, order kept
+ */
+export function canonicalizeSkills(
+  skills: string[],
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY,
+): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const skill of skills) {
+    const canonical = canonicalSkillName(skill, taxonomy);
+    if (!canonical || seen.has(canonical.toLowerCase())) continue;
+    seen.add(canonical.toLowerCase());
+    result.push(canonical);
+  }
+  return result;
+}
@@ -0,0 +1,58 @@
+/**
+ * Static FX table for salary comparison.
+ *
+ * Rates are USD per one unit of the currency. They only need to be roughly right: salaries are
+ * compared against a preference band, not paid out. Override or extend via SALARY_FX_RATES
+ * (JSON, e.g. {"EUR":1.1,"BRL":0.2}); read at call time so tests and scripts can change it.
+ */
+
+export const DEFAULT_FX_RATES_TO_USD: Record<string, number> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  CAD: 0.73,
+  AUD: 0.66,
+  NZD: 0.6,
+  CHF: 1.12,
+  SGD: 0.74,
+  INR: 0.012,
+  JPY: 0.0067,
+  SEK: 0.095,
+  NOK: 0.093,
+  DKK: 0.145,
+  PLN: 0.25,
+  MXN: 0.058,
+  BRL: 0.2,
+};
+
+/** Default table merged with SALARY_FX_RATES. Invalid JSON or non-positive rates are ignored. */
+export function getFxRates(): Record<string, number> {
+  const raw = process.env.SALARY_FX_RATES?.trim();
+  if (!raw) return DEFAULT_FX_RATES_TO_USD;
+  try {
+    const overrides = JSON.parse(raw) as Record<string, unknown>;
+    const rates = { ...DEFAULT_FX_RATES_TO_USD };
+    for (const [code, rate] of Object.entries(overrides)) {
+      if (typeof rate === 'number' && rate > 0) rates[code.toUpperCase()] = rate;
+    }
+    return rates;
+  } catch {
+    return DEFAULT_FX_RATES_TO_USD;
+  }
+}
+
+/** Convert between currencies via USD. Returns null when either currency is not in the table. */
+export function convertCurrency(
+  amount: number,
+  from: string,
+  to: string,
+  rates: Record<string, number> = getFxRates(),
+): number | null {
+  const src = from.toUpperCase();
+  const dst = to.toUpperCase();
+  if (src === dst) return amount;
+  const fromRate = rates[src];
+  const toRate = rates[dst];
+  if (!fromRate || !toRate) return null;
+  return (amount * fromRate) / toRate;
+}
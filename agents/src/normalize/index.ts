@@ -4,10 +4,15 @@
  * Agents in this module:
  * - JobNormalizerAgent: Converts raw extracts to canonical Job schema
  * - EntityResolverAgent: Deduplicates jobs using fuzzy matching
- * - CanonicalizerAgent: Standardizes titles, seniority, location, employment type
+ * - CanonicalizerAgent: Standardizes titles, seniority, location, employment type, skills
+ * - Skill taxonomy: canonical skill names, aliases and parent/child relations
+ * - Salary parser + FX table: deterministic salary parsing and currency conversion
  */
 
 export * from './job-normalizer-agent.js';
 export * from './entity-resolver-agent.js';
 export * from './canonicalizer-agent.js';
+export * from './skill-taxonomy.js';
+export * from './salary-parser.js';
+export * from './fx-rates.js';
 export * from './types.js';
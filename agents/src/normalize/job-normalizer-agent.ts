@@ -21,6 +21,7 @@ import {
 } from './types.js';
 import { canonicalizeTitle, canonicalizeLocation } from './canonicalizer-agent.js';
 import { generateDedupeKey } from './entity-resolver-agent.js';
+import { parseSalary } from './salary-parser.js';
 
 export interface NormalizationResult {
   job: NormalizedJob;
@@ -79,9 +80,9 @@ export function normalizeJobForCache(raw: RawJobListing, blessedSourceId: string
     description: raw.description?.substring(0, 10000) ?? null,
     requirements: null,
     postedDate: parsePostedDate(raw.postedDate) ?? null,
-    salaryMin: salary.min ?? null,
-    salaryMax: salary.max ?? null,
-    salaryCurrency: salary.currency ?? null,
+    salaryMin: salary?.annualMin ?? null,
+    salaryMax: salary?.annualMax ?? null,
+    salaryCurrency: salary?.currency ?? null,
     department: null,
     team: null,
     applyUrl: raw.url ?? null,
@@ -173,7 +174,7 @@ export async function normalizeJob(
   if (inferred.remoteType !== 'UNKNOWN') inferredFields.push('remoteType');
   if (inferred.visaSponsorship !== 'UNKNOWN') inferredFields.push('visaSponsorship');
 
-  // Step 3: Parse salary if present
+  // Step 3: Parse salary if present (stored annualized)
   const salary = parseSalary(raw.salary);
 
   // Step 4: Generate dedupe key
@@ -194,9 +195,9 @@ export async function normalizeJob(
     description: raw.description,
     requirements: inferred.requirements,
     postedDate: raw.postedDate,
-    salaryMin: salary.min,
-    salaryMax: salary.max,
-    salaryCurrency: salary.currency,
+    salaryMin: salary?.annualMin,
+    salaryMax: salary?.annualMax,
+    salaryCurrency: salary?.currency,
     applyUrl: raw.url,
     rawExtract: raw as unknown as Record<string, unknown>,
     evidenceRefs: [],
@@ -267,30 +268,6 @@ function getDefaultInferences(): InferredFields {
   };
 }
 
-function parseSalary(salaryStr?: string): { min?: number; max?: number; currency?: string } {
-  if (!salaryStr) return {};
-
-  // Extract numbers
-  const numbers = salaryStr.match(/[\d,]+/g);
-  if (!numbers) return {};
-
-  const parsed = numbers.map((n) => parseInt(n.replace(/,/g, ''), 10));
-
-  // Detect currency
-  let currency = 'USD';
-  if (salaryStr.includes('£')) currency = 'GBP';
-  else if (salaryStr.includes('€')) currency = 'EUR';
-  else if (salaryStr.includes('CAD')) currency = 'CAD';
-
-  if (parsed.length >= 2) {
-    return { min: Math.min(...parsed), max: Math.max(...parsed), currency };
-  } else if (parsed.length === 1) {
-    return { min: parsed[0], max: parsed[0], currency };
-  }
-
-  return {};
-}
-
 function calculateConfidence(job: NormalizedJob, inferredFields: string[]): number {
   let confidence = 0.5;
 
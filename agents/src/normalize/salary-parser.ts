@@ -0,0 +1,207 @@
+/**
+ * Salary Parser - Deterministic parsing of free-form salary strings
+ *
+ * Handles ranges ("$120k – $180k", "120,000-150,000 USD"), k-suffixes, hourly/daily/weekly/
+ * monthly/annual periods and currency symbols or ISO codes. Amounts are also annualized
+ * so that postings with different periods can be compared.
+ *
+ * LLM Usage: None (pure code logic)
+ */
+
+export type SalaryPeriod = 'HOUR' | 'DAY' | 'WEEK' | 'MONTH' | 'YEAR';
+
+export interface ParsedSalary {
+  min: number;
+  max: number;
+  currency: string;
+  period: SalaryPeriod;
+  /** min/max converted to a yearly amount (full-time: 2080 h, 260 days, 52 weeks). */
+  annualMin: number;
+  annualMax: number;
+  /** True when no symbol or code was found and USD was assumed. */
+  currencyInferred: boolean;
+  raw: string;
+}
+
+export const ANNUALIZATION_FACTORS: Record<SalaryPeriod, number> = {
+  HOUR: 2080,
+  DAY: 260,
+  WEEK: 52,
+  MONTH: 12,
+  YEAR: 1,
+};
+
+/** Checked in order: multi-character prefixes before the bare "$". */
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'],
+  ['CA$', 'CAD'],
+  ['C$', 'CAD'],
+  ['AU$', 'AUD'],
+  ['A$', 'AUD'],
+  ['NZ$', 'NZD'],
+  ['S$', 'SGD'],
+  ['R$', 'BRL'],
+  ['£', 'GBP'],
+  ['€', 'EUR'],
+  ['₹', 'INR'],
+  ['¥', 'JPY'],
+  ['zł', 'PLN'],
+  ['$', 'USD'],
+];
+
+const CURRENCY_CODES = [
+  'USD',
+  'EUR',
+  'GBP',
+  'CAD',
+  'AUD',
+  'NZD',
+  'CHF',
+  'SGD',
+  'INR',
+  'JPY',
+  'SEK',
+  'NOK',
+  'DKK',
+  'PLN',
+  'MXN',
+  'BRL',
+];
+
+/**
+ * Nouns ("hour", "month", "year") count only after "per", "a"/"an" or "/", so "6 month fixed
+ * term" is not a monthly rate; adverbs and abbreviations ("hourly", "p.a.", "pcm") stand alone.
+ */
+const PERIOD_PATTERNS: [SalaryPeriod, RegExp][] = [
+  ['HOUR', /(?:\bper|\ban?)\s+(?:hour|hr)\b|\/\s*h(?:ou)?r?\b|\bhourly\b/i],
+  ['DAY', /(?:\bper|\ban?)\s+day\b|\/\s*d(?:ay)?\b|\bdaily\b/i],
+  ['WEEK', /(?:\bper|\ban?)\s+(?:week|wk)\b|\/\s*w(?:ee)?k\b|\bweekly\b/i],
+  ['MONTH', /(?:\bper|\ban?)\s+(?:month|mo)\b|\/\s*mo(?:nth)?\b|\b(?:monthly|pcm)\b/i],
+  [
+    'YEAR',
+    /(?:\bper|\ban?)\s+(?:year|yr|annum)\b|\/\s*y(?:ea)?r\b|\b(?:annual(?:ly)?|yearly|pa)\b|\bp\.a\./i,
+  ],
+];
+
+/**
+ * Grouped thousands ("120,000", "120.000", lakh-style "12,00,000") first, then plain or decimal numbers ("52.50", "1.5"),
+ * each with an optional k/m suffix. Percentages ("15% bonus") are not amounts.
+ */
+const AMOUNT_PATTERN =
+  /(\d{1,3}(?:[,.]\d{2,3})*[,.]\d{3}(?!\d)|\d+(?:\.\d+)?)\s*([km])?(?![a-z\d]|\.\d|\s*%)/gi;
+
+/** Retirement plan names whose digits are not pay ("401(k)", "403(b)"). */
+const PLAN_NAME_PATTERN = /\b40[13]\s*\(\s*[a-z]\s*\)/gi;
+
+/** Text allowed between the two ends of a range: a dash or "to", optionally a currency again. */
+const RANGE_SEPARATOR = /^\s*(?:-|–|—|to)\s*(?:[a-z]{0,3}\$|[£€₹¥]|zł|[a-z]{3}\b)?\s*$/i;
+
+/** A count of hours, days, weeks, months or years ("6 month contract", "2-year"), not pay. */
+const DURATION_AFTER = /^\s*-?\s*(?:hours?|hrs?|days?|weeks?|wks?|months?|mos?|years?|yrs?)\b/i;
+/** "per 6 months", "/ 2 weeks": the number belongs to the pay period, so it is kept. */
+const PERIOD_BEFORE = /(?:\bper|\/)\s*$/i;
+
+const CURRENCY_BEFORE = new RegExp(
+  `(?:[a-z]{0,3}\\$|[£€₹¥]|zł|\\b(?:${CURRENCY_CODES.join('|')}))\\s*$`,
+  'i',
+);
+const CURRENCY_AFTER = new RegExp(`^\\s*(?:${CURRENCY_CODES.join('|')})\\b`, 'i');
+
+/** Below this (after suffixes), an amount without an explicit period is taken as hourly. */
+const HOURLY_INFERENCE_CEILING = 300;
+
+function detectCurrency(text: string): { currency: string; inferred: boolean } {
+  const upper = text.toUpperCase();
+  for (const code of CURRENCY_CODES) {
+    if (new RegExp(`\\b${code}\\b`).test(upper)) return { currency: code, inferred: false };
+  }
+  for (const [symbol, code] of CURRENCY_SYMBOLS) {
+    if (upper.includes(symbol.toUpperCase())) return { currency: code, inferred: false };
+  }
+  return { currency: 'USD', inferred: true };
+}
+
+function detectPeriod(text: string, maxAmount: number): SalaryPeriod {
+  for (const [period, pattern] of PERIOD_PATTERNS) {
+    if (pattern.test(text)) return period;
+  }
+  return maxAmount < HOURLY_INFERENCE_CEILING ? 'HOUR' : 'YEAR';
+}
+
+function toAmount(digits: string, suffix: string | undefined): number {
+  const grouped = /^\d{1,3}(?:[,.]\d{2,3})*[,.]\d{3}$/.test(digits);
+  const value = Number.parseFloat(grouped ? digits.replace(/[,.]/g, '') : digits);
+  const s = suffix?.toLowerCase();
+  if (s === 'k') return value * 1_000;
+  if (s === 'm') return value * 1_000_000;
+  return value;
+}
+
+/**
+ * Parse a salary string. Returns null when no amount is found.
+ * "$120-180k" applies the trailing k to both ends; a single amount gives min = max, so
+ * "$150,000 + 15% bonus" is 150,000 and not a range. Counts of time ("6 month contract") are
+ * skipped, and amounts marked with a currency win over bare numbers before them.
+ */
+export function parseSalary(text: string | null | undefined): ParsedSalary | null {
+  if (!text?.trim()) return null;
+
+  const amounts: { value: number; suffix?: string; start: number; end: number }[] = [];
+  for (const m of text
+    .replace(PLAN_NAME_PATTERN, (name) => ' '.repeat(name.length))
+    .matchAll(AMOUNT_PATTERN)) {
+    const value = toAmount(m[1]!, m[2]);
+    const start = m.index!;
+    const end = start + m[0].length;
+    const isDuration =
+      DURATION_AFTER.test(text.slice(end)) && !PERIOD_BEFORE.test(text.slice(0, start));
+    if (value > 0 && !isDuration) {
+      amounts.push({ value, suffix: m[2]?.toLowerCase(), start, end });
+    }
+  }
+  if (!amounts.length) return null;
+
+  // A second amount is the top of a range only when a separator joins it to the first
+  const joinedToNext = (i: number) => {
+    const next = amounts[i + 1];
+    return !!next && RANGE_SEPARATOR.test(text.slice(amounts[i]!.end, next.start));
+  };
+  const hasCurrency = (i: number) => {
+    const amount = amounts[i];
+    return (
+      !!amount &&
+      (CURRENCY_BEFORE.test(text.slice(0, amount.start)) ||
+        CURRENCY_AFTER.test(text.slice(amount.end)))
+    );
+  };
+  // The pay is the first amount (or range) marked with a currency; else the first amount
+  const anchored = amounts.findIndex(
+    (_, i) => hasCurrency(i) || (joinedToNext(i) && hasCurrency(i + 1)),
+  );
+  const firstIndex = Math.max(anchored, 0);
+  const first = amounts[firstIndex]!;
+  const next = amounts[firstIndex + 1];
+  const joined = joinedToNext(firstIndex);
+  let low = first;
+  const high = joined && next ? next : first;
+  if (!low.suffix && high.suffix && low.value < 1_000) {
+    low = { ...low, value: toAmount(String(low.value), high.suffix), suffix: high.suffix };
+  }
+  const min = Math.min(low.value, high.value);
+  const max = Math.max(low.value, high.value);
+
+  const { currency, inferred } = detectCurrency(text);
+  const period = detectPeriod(text, max);
+  const factor = ANNUALIZATION_FACTORS[period];
+
+  return {
+    min,
+    max,
+    currency,
+    period,
+    annualMin: Math.round(min * factor),
+    annualMax: Math.round(max * factor),
+    currencyInferred: inferred,
+    raw: text.trim(),
+  };
+}
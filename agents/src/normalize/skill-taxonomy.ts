@@ -0,0 +1,215 @@
+/**
+ * Skill Taxonomy - Canonical skill names, aliases and parent/child relations
+ *
+ * Responsibilities:
+ * - Map spelling variants to one canonical name ("Postgres" → "PostgreSQL", "React.js" → "React")
+ * - Expand a skill to the skills it implies ("Next.js" → React → JavaScript)
+ * - Detect a skill (under any alias) in free text
+ *
+ * The bundled entries cover common tech skills; admin overrides (skill_taxonomy_overrides)
+ * replace or add entries at load time via buildSkillTaxonomy.
+ *
+ * LLM Usage: None (pure code logic)
+ */
+
+export interface SkillTaxonomyEntry {
+  canonical: string;
+  aliases?: string[];
+  /** Broader skills this one implies (e.g. Next.js → React). */
+  parents?: string[];
+}
+
+export interface SkillTaxonomy {
+  /** Lookup key → canonical name, for canonicals and aliases. */
+  names: Map<string, string>;
+  /** Lookup key of a canonical name → its entry. */
+  entries: Map<string, Required<SkillTaxonomyEntry>>;
+}
+
+export const BUNDLED_SKILL_TAXONOMY: SkillTaxonomyEntry[] = [
+  // Languages
+  { canonical: 'JavaScript', aliases: ['JS', 'ECMAScript', 'ES6'] },
+  { canonical: 'TypeScript', aliases: ['TS'], parents: ['JavaScript'] },
+  { canonical: 'Python', aliases: ['Python3', 'Python 3'] },
+  { canonical: 'Java' },
+  { canonical: 'Kotlin' },
+  { canonical: 'Go', aliases: ['Golang'] },
+  { canonical: 'Rust' },
+  { canonical: 'C++', aliases: ['CPP'] },
+  { canonical: 'C#', aliases: ['CSharp', 'C Sharp'] },
+  { canonical: 'Ruby' },
+  { canonical: 'PHP' },
+  { canonical: 'Swift' },
+  { canonical: 'Scala' },
+  { canonical: 'SQL' },
+  { canonical: 'HTML', aliases: ['HTML5'] },
+  { canonical: 'CSS', aliases: ['CSS3'] },
+  // Frontend
+  { canonical: 'React', aliases: ['React.js', 'ReactJS'], parents: ['JavaScript'] },
+  { canonical: 'Next.js', aliases: ['NextJS'], parents: ['React'] },
+  { canonical: 'React Native', parents: ['React'] },
+  { canonical: 'Redux', parents: ['React'] },
+  { canonical: 'Vue', aliases: ['Vue.js', 'VueJS'], parents: ['JavaScript'] },
+  { canonical: 'Nuxt', aliases: ['Nuxt.js', 'NuxtJS'], parents: ['Vue'] },
+  { canonical: 'Angular', aliases: ['AngularJS', 'Angular.js'], parents: ['TypeScript'] },
+  { canonical: 'Svelte', aliases: ['SvelteKit'], parents: ['JavaScript'] },
+  { canonical: 'Tailwind CSS', aliases: ['Tailwind', 'TailwindCSS'], parents: ['CSS'] },
+  // Backend
+  { canonical: 'Node.js', aliases: ['Node', 'NodeJS'], parents: ['JavaScript'] },
+  { canonical: 'Express', aliases: ['Express.js', 'ExpressJS'], parents: ['Node.js'] },
+  { canonical: 'NestJS', aliases: ['Nest.js'], parents: ['Node.js', 'TypeScript'] },
+  { canonical: 'Django', parents: ['Python'] },
+  { canonical: 'Flask', parents: ['Python'] },
+  { canonical: 'FastAPI', parents: ['Python'] },
+  { canonical: 'Spring Boot', aliases: ['Spring'], parents: ['Java'] },
+  { canonical: 'Ruby on Rails', aliases: ['Rails', 'RoR'], parents: ['Ruby'] },
+  { canonical: '.NET', aliases: ['dotnet', 'ASP.NET', '.NET Core'], parents: ['C#'] },
+  { canonical: 'GraphQL' },
+  { canonical: 'REST APIs', aliases: ['RESTful', 'RESTful APIs', 'REST API'] },
+  { canonical: 'gRPC' },
+  // Data stores
+  { canonical: 'PostgreSQL', aliases: ['Postgres', 'PSQL'], parents: ['SQL'] },
+  { canonical: 'MySQL', parents: ['SQL'] },
+  { canonical: 'SQLite', parents: ['SQL'] },
+  {
+    canonical: 'Microsoft SQL Server',
+    aliases: ['MSSQL', 'SQL Server', 'T-SQL'],
+    parents: ['SQL'],
+  },
+  { canonical: 'MongoDB', aliases: ['Mongo'] },
+  { canonical: 'Redis' },
+  { canonical: 'Elasticsearch', aliases: ['Elastic Search', 'OpenSearch'] },
+  { canonical: 'DynamoDB', parents: ['AWS'] },
+  { canonical: 'Apache Kafka', aliases: ['Kafka'] },
+  { canonical: 'RabbitMQ' },
+  // Data / ML
+  { canonical: 'Machine Learning', aliases: ['ML'] },
+  { canonical: 'Deep Learning', parents: ['Machine Learning'] },
+  { canonical: 'PyTorch', parents: ['Deep Learning', 'Python'] },
+  { canonical: 'TensorFlow', parents: ['Deep Learning', 'Python'] },
+  {
+    canonical: 'scikit-learn',
+    aliases: ['sklearn', 'scikit learn'],
+    parents: ['Machine Learning', 'Python'],
+  },
+  { canonical: 'Natural Language Processing', aliases: ['NLP'], parents: ['Machine Learning'] },
+  { canonical: 'Large Language Models', aliases: ['LLM', 'LLMs'], parents: ['Machine Learning'] },
+  { canonical: 'pandas', parents: ['Python'] },
+  { canonical: 'NumPy', parents: ['Python'] },
+  { canonical: 'Apache Spark', aliases: ['Spark', 'PySpark'] },
+  { canonical: 'Apache Airflow', aliases: ['Airflow'] },
+  { canonical: 'dbt' },
+  { canonical: 'Snowflake', parents: ['SQL'] },
+  // Cloud / infra
+  { canonical: 'AWS', aliases: ['Amazon Web Services'] },
+  { canonical: 'Google Cloud', aliases: ['GCP', 'Google Cloud Platform'] },
+  { canonical: 'Azure', aliases: ['Microsoft Azure'] },
+  { canonical: 'Docker' },
+  { canonical: 'Kubernetes', aliases: ['K8s'], parents: ['Docker'] },
+  { canonical: 'Terraform', parents: ['Infrastructure as Code'] },
+  { canonical: 'Infrastructure as Code', aliases: ['IaC'] },
+  { canonical: 'CI/CD', aliases: ['CICD', 'Continuous Integration', 'Continuous Delivery'] },
+  { canonical: 'GitHub Actions', parents: ['CI/CD'] },
+  { canonical: 'Jenkins', parents: ['CI/CD'] },
+  { canonical: 'Linux', aliases: ['Unix'] },
+  { canonical: 'Git', aliases: ['GitHub', 'GitLab'] },
+];
+
+/** Lookup key: case, whitespace, dots, dashes and underscores don't distinguish skills. */
+function skillKey(skill: string): string {
+  return skill.toLowerCase().replace(/[\s._-]+/g, '');
+}
+
+function cleanList(values: string[] | undefined): string[] {
+  return (values ?? []).map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Build a taxonomy from the bundled entries plus overrides. An override whose canonical name
+ * matches a bundled entry replaces it; its aliases win over any bundled entry claiming them.
+ */
+export function buildSkillTaxonomy(overrides: SkillTaxonomyEntry[] = []): SkillTaxonomy {
+  const entries = new Map<string, Required<SkillTaxonomyEntry>>();
+  for (const entry of [...BUNDLED_SKILL_TAXONOMY, ...overrides]) {
+    const canonical = entry.canonical.trim();
+    if (!canonical) continue;
+    entries.set(skillKey(canonical), {
+      canonical,
+      aliases: cleanList(entry.aliases),
+      parents: cleanList(entry.parents),
+    });
+  }
+
+  const names = new Map<string, string>();
+  const overrideKeys = new Set(overrides.map((o) => skillKey(o.canonical)));
+  const ordered = [...entries.entries()].sort(
+    ([a], [b]) => Number(overrideKeys.has(a)) - Number(overrideKeys.has(b)),
+  );
+  for (const [, entry] of ordered) {
+    for (const alias of entry.aliases) names.set(skillKey(alias), entry.canonical);
+  }
+  // A canonical name always resolves to itself, even if another entry lists it as an alias
+  for (const [key, entry] of entries) names.set(key, entry.canonical);
+  return { names, entries };
+}
+
+export const DEFAULT_SKILL_TAXONOMY = buildSkillTaxonomy();
+
+/** Canonical name for a skill; unknown skills come back trimmed as written. */
+export function canonicalSkillName(
+  skill: string,
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY,
+): string {
+  const trimmed = skill.trim();
+  return taxonomy.names.get(skillKey(trimmed)) ?? trimmed;
+}
+
+/** The skill's canonical name followed by every broader skill it implies (transitively). */
+export function impliedSkills(
+  skill: string,
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY,
+): string[] {
+  const result: string[] = [];
+  const seen = new Set<string>();
+  const queue = [canonicalSkillName(skill, taxonomy)];
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    const key = skillKey(name);
+    if (!name || seen.has(key)) continue;
+    seen.add(key);
+    result.push(name);
+    for (const parent of taxonomy.entries.get(key)?.parents ?? []) {
+      queue.push(canonicalSkillName(parent, taxonomy));
+    }
+  }
+  return result;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whether text mentions the skill under its canonical name or any alias (whole words only). */
+export function textMentionsSkill(
+  text: string,
+  skill: string,
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY,
+): boolean {
+  const canonical = canonicalSkillName(skill, taxonomy);
+  const entry = taxonomy.entries.get(skillKey(canonical));
+  const terms = [skill.trim(), canonical, ...(entry?.aliases ?? [])].filter(Boolean);
+  const lower = text.toLowerCase();
+  return terms.some((term) =>
+    new RegExp(`(?<![a-z0-9])${escapeRegExp(term.toLowerCase())}(?![a-z0-9+#])`).test(lower),
+  );
+}
+
+/** Whether a skill list covers a skill: same canonical name, or a listed skill implies it. */
+export function skillsCover(
+  skills: string[],
+  skill: string,
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY,
+): boolean {
+  const target = skillKey(canonicalSkillName(skill, taxonomy));
+  return skills.some((s) => impliedSkills(s, taxonomy).some((name) => skillKey(name) === target));
+}
@@ -59,6 +59,7 @@ export const NormalizedJobSchema = z.object({
   description: z.string().optional(),
   requirements: z.array(z.string()).default([]),
   postedDate: z.string().optional(),
+  /** Annualized (see salary-parser); hourly or monthly postings are converted to yearly. */
   salaryMin: z.number().optional(),
   salaryMax: z.number().optional(),
   salaryCurrency: z.string().optional(),
@@ -4,8 +4,10 @@
  * Agents in this module:
  * - PlannerAgent: Builds/updates workflow plans, decides which agents to spawn
  * - PolicyConstraintAgent: Enforces user constraints, budgets, allowlists
+ * - Policy enforcer: Routes a run's fetches, navigations and LLM calls through its policy
  */
 
 export * from './planner-agent.js';
 export * from './policy-constraint-agent.js';
+export * from './policy-enforcer.js';
 export * from './types.js';
@@ -7,6 +7,9 @@
  * - Allow/deny list checking
  * - Simulation mode enforcement
  *
+ * One instance covers one run; see policy-enforcer.ts for routing a run's fetches,
+ * navigations and LLM calls through it.
+ *
  * LLM Usage: None (pure code logic)
  */
 
@@ -24,10 +27,44 @@ interface BudgetState {
   startTimeMs: number;
 }
 
+export type PolicyViolationKind = 'blocked_domain' | 'time_budget' | 'token_budget' | 'page_budget';
+
+export interface PolicyViolation {
+  kind: PolicyViolationKind;
+  message: string;
+}
+
+/** Thrown when a request or LLM call is refused by the run's policy. */
+export class PolicyViolationError extends Error {
+  constructor(public readonly violation: PolicyViolation) {
+    super(violation.message);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+/** Hostname of a URL, lowercased without "www."; null if it doesn't parse. */
+export function policyDomainOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/** "jobs.example.com" matches a list entry of "example.com". */
+function domainMatches(domain: string, entry: string): boolean {
+  const normalized = entry.toLowerCase().replace(/^www\./, '');
+  return domain === normalized || domain.endsWith(`.${normalized}`);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 export class PolicyConstraintAgent {
   private constraints: PolicyConstraints;
   private rateLimits: Map<string, RateLimitState> = new Map();
   private budget: BudgetState;
+  private violationListeners: ((violation: PolicyViolation) => void)[] = [];
+  private reportedViolations = new Set<string>();
 
   constructor(constraints?: Partial<PolicyConstraints>) {
     this.constraints = PolicyConstraintsSchema.parse(constraints ?? {});
@@ -39,17 +76,19 @@ export class PolicyConstraintAgent {
   }
 
   /**
-   * Check if a domain is allowed
+   * Check if a domain is allowed (subdomains of listed domains count as listed)
    */
   isDomainAllowed(domain: string): { allowed: boolean; reason?: string } {
+    const host = domain.toLowerCase().replace(/^www\./, '');
+
     // Check blocked list
-    if (this.constraints.blockedDomains?.includes(domain)) {
+    if (this.constraints.blockedDomains?.some((d) => domainMatches(host, d))) {
       return { allowed: false, reason: `Domain ${domain} is blocked` };
     }
 
     // Check allowed list (if specified, only allow listed domains)
     if (this.constraints.allowedDomains && this.constraints.allowedDomains.length > 0) {
-      if (!this.constraints.allowedDomains.includes(domain)) {
+      if (!this.constraints.allowedDomains.some((d) => domainMatches(host, d))) {
         return { allowed: false, reason: `Domain ${domain} is not in allowed list` };
       }
     }
@@ -94,27 +133,96 @@ export class PolicyConstraintAgent {
    * Check if budget allows more operations
    */
   checkBudget(): { allowed: boolean; violations: string[] } {
-    const violations: string[] = [];
+    const violations = this.budgetViolations().map((v) => v.message);
+    return {
+      allowed: violations.length === 0,
+      violations,
+    };
+  }
+
+  private budgetViolations(): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
     const elapsedMs = Date.now() - this.budget.startTimeMs;
 
     if (elapsedMs > this.constraints.maxTimePerRunMs) {
-      violations.push(
-        `Time budget exceeded: ${elapsedMs}ms > ${this.constraints.maxTimePerRunMs}ms`,
-      );
+      violations.push({
+        kind: 'time_budget',
+        message: `Time budget exceeded: ${elapsedMs}ms > ${this.constraints.maxTimePerRunMs}ms`,
+      });
     }
 
     if (this.budget.tokensUsed > this.constraints.maxTokensPerRun) {
-      violations.push(
-        `Token budget exceeded: ${this.budget.tokensUsed} > ${this.constraints.maxTokensPerRun}`,
-      );
+      violations.push({
+        kind: 'token_budget',
+        message: `Token budget exceeded: ${this.budget.tokensUsed} > ${this.constraints.maxTokensPerRun}`,
+      });
     }
 
-    return {
-      allowed: violations.length === 0,
-      violations,
+    if (this.budget.pagesVisited >= this.constraints.maxPagesPerRun) {
+      violations.push({
+        kind: 'page_budget',
+        message: `Page budget exhausted: ${this.budget.pagesVisited} of ${this.constraints.maxPagesPerRun} pages visited`,
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Gate a page fetch or navigation: refuses blocked domains and exhausted budgets
+   * (PolicyViolationError), waits out the per-domain rate limit, then records the visit.
+   */
+  async beforeRequest(url: string): Promise<void> {
+    const domain = policyDomainOf(url);
+    if (!domain) return;
+
+    const domainCheck = this.isDomainAllowed(domain);
+    if (!domainCheck.allowed) {
+      this.refuse({
+        kind: 'blocked_domain',
+        message: domainCheck.reason ?? `Domain ${domain} is not allowed`,
+      });
+    }
+    const budgetViolation = this.budgetViolations()[0];
+    if (budgetViolation) this.refuse(budgetViolation);
+
+    for (;;) {
+      const rate = this.canMakeRequest(domain);
+      if (rate.allowed) break;
+      await sleep(Math.max(rate.waitMs ?? 0, 10));
+    }
+    this.recordRequest(domain);
+    this.recordPageVisit();
+  }
+
+  /**
+   * Gate an LLM call: refuses once the token or time budget is spent. Pages don't limit LLM use.
+   */
+  beforeLlmCall(): void {
+    const violation = this.budgetViolations().find((v) => v.kind !== 'page_budget');
+    if (violation) this.refuse(violation);
+  }
+
+  /**
+   * Subscribe to refusals. Each violation kind (and each blocked domain) is reported once.
+   * Returns a function that unsubscribes the listener.
+   */
+  onViolation(listener: (violation: PolicyViolation) => void): () => void {
+    this.violationListeners.push(listener);
+    return () => {
+      this.violationListeners = this.violationListeners.filter((l) => l !== listener);
     };
   }
 
+  private refuse(violation: PolicyViolation): never {
+    const key = violation.kind === 'blocked_domain' ? violation.message : violation.kind;
+    if (!this.reportedViolations.has(key)) {
+      this.reportedViolations.add(key);
+      for (const listener of this.violationListeners) listener(violation);
+    }
+    throw new PolicyViolationError(violation);
+  }
+
   /**
    * Record token usage
    */
@@ -145,6 +253,7 @@ export class PolicyConstraintAgent {
     timeElapsedMs: number;
     timeRemainingMs: number;
     pagesVisited: number;
+    pagesRemaining: number;
   } {
     const elapsedMs = Date.now() - this.budget.startTimeMs;
     return {
@@ -153,6 +262,7 @@ export class PolicyConstraintAgent {
       timeElapsedMs: elapsedMs,
       timeRemainingMs: Math.max(0, this.constraints.maxTimePerRunMs - elapsedMs),
       pagesVisited: this.budget.pagesVisited,
+      pagesRemaining: Math.max(0, this.constraints.maxPagesPerRun - this.budget.pagesVisited),
     };
   }
 
@@ -166,5 +276,6 @@ export class PolicyConstraintAgent {
       startTimeMs: Date.now(),
     };
     this.rateLimits.clear();
+    this.reportedViolations.clear();
   }
 }
@@ -0,0 +1,62 @@
+/**
+ * Policy Enforcer - Routes a run's fetches, Playwright navigations and LLM calls through its
+ * PolicyConstraintAgent.
+ *
+ * The active policy is scoped with AsyncLocalStorage, so concurrent runs each see their own
+ * budgets and nested agents (deep research, outreach) share their caller's. Outside
+ * runWithPolicy, policyFetch / policyGoto behave like fetch / page.goto.
+ *
+ * LLM Usage: None (installs an LLM call guard that counts tokens for the active policy)
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Page } from 'playwright';
+import { setLlmCallGuard } from '@careersignal/llm';
+import { PolicyConstraintAgent } from './policy-constraint-agent.js';
+
+const activePolicy = new AsyncLocalStorage<PolicyConstraintAgent>();
+let llmGuardInstalled = false;
+
+function installLlmGuard(): void {
+  if (llmGuardInstalled) return;
+  llmGuardInstalled = true;
+  setLlmCallGuard({
+    beforeCall: () => activePolicy.getStore()?.beforeLlmCall(),
+    afterCall: ({ estimatedTokens }) => activePolicy.getStore()?.recordTokens(estimatedTokens),
+  });
+}
+
+/** Run `fn` with `policy` enforced on every fetch, navigation and LLM call it makes. */
+export function runWithPolicy<T>(policy: PolicyConstraintAgent, fn: () => Promise<T>): Promise<T> {
+  installLlmGuard();
+  return activePolicy.run(policy, fn);
+}
+
+/** The policy of the run this code is executing in, if any. */
+export function getActivePolicy(): PolicyConstraintAgent | undefined {
+  return activePolicy.getStore();
+}
+
+/**
+ * Check the active policy before a request made by other means (e.g. an ATS API client).
+ * Throws PolicyViolationError when refused.
+ */
+export async function enforcePolicyForUrl(url: string): Promise<void> {
+  await activePolicy.getStore()?.beforeRequest(url);
+}
+
+/** fetch() gated by the active policy. */
+export async function policyFetch(url: string, init?: RequestInit): Promise<Response> {
+  await enforcePolicyForUrl(url);
+  return fetch(url, init);
+}
+
+/** page.goto() gated by the active policy. */
+export async function policyGoto(
+  page: Page,
+  url: string,
+  options?: Parameters<Page['goto']>[1],
+): Promise<Awaited<ReturnType<Page['goto']>>> {
+  await enforcePolicyForUrl(url);
+  return page.goto(url, options);
+}
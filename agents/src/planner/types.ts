@@ -33,6 +33,7 @@ export type WorkflowPlan = z.infer<typeof WorkflowPlanSchema>;
 export const PolicyConstraintsSchema = z.object({
   maxPagesPerSource: z.number().default(10),
   maxJobsPerSource: z.number().default(100),
+  maxPagesPerRun: z.number().default(200),
   maxTokensPerRun: z.number().default(50000),
   maxTimePerRunMs: z.number().default(600000), // 10 minutes
   rateLimitPerDomain: z.number().default(2), // requests per second
@@ -0,0 +1,243 @@
+/**
+ * Legacy Word 97-2003 (.doc) text extraction.
+ * Code-only step - no LLM involvement.
+ *
+ * A .doc is a Compound File Binary (CFB) container. The text lives in the WordDocument stream
+ * and is located through the piece table (Clx) stored in the 0Table/1Table stream. We only read
+ * the main document text (headers, footnotes and comments are skipped), keep paragraph breaks,
+ * and drop field codes. List numbering lives in paragraph properties and is not reconstructed;
+ * bullet glyphs typed into the text come through as-is.
+ */
+
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECT = 0xffffffff;
+const WORD_FIB_IDENT = 0xa5ec;
+const FIB_CLX_INDEX = 33;
+
+/** cp1252 characters in 0x80-0x9F (where it differs from latin1); undefined slots stay as-is. */
+const CP1252_HIGH =
+  '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021' +
+  '\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014' +
+  '\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+/** Node's TextDecoder treats windows-1252 as latin1 without full ICU, so map 0x80-0x9F here. */
+function decodeCp1252(bytes: Buffer): string {
+  let out = '';
+  for (const byte of bytes) {
+    out += byte >= 0x80 && byte <= 0x9f ? CP1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+  }
+  return out;
+}
+
+export function isCompoundFile(buffer: Buffer): boolean {
+  return buffer.length >= 512 && buffer.subarray(0, 8).equals(CFB_SIGNATURE);
+}
+
+/** Minimal CFB reader: returns the streams of the root storage by name. */
+function readCompoundStreams(buffer: Buffer): Map<string, Buffer> {
+  if (!isCompoundFile(buffer)) {
+    throw new Error('Invalid DOC file: not a compound document');
+  }
+  const sectorSize = 1 << buffer.readUInt16LE(0x1e);
+  const miniSectorSize = 1 << buffer.readUInt16LE(0x20);
+  const numFatSectors = buffer.readUInt32LE(0x2c);
+  const firstDirSector = buffer.readUInt32LE(0x30);
+  const miniStreamCutoff = buffer.readUInt32LE(0x38);
+  const firstMiniFatSector = buffer.readUInt32LE(0x3c);
+  let difatSector = buffer.readUInt32LE(0x44);
+
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+  const readSector = (sector: number) => {
+    const start = sectorOffset(sector);
+    if (start + sectorSize > buffer.length) {
+      throw new Error('Invalid DOC file: sector out of range');
+    }
+    return buffer.subarray(start, start + sectorSize);
+  };
+
+  // FAT sector list: 109 entries in the header, the rest in the DIFAT chain.
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109 && fatSectors.length < numFatSectors; i++) {
+    fatSectors.push(buffer.readUInt32LE(0x4c + i * 4));
+  }
+  const perDifat = sectorSize / 4 - 1;
+  while (fatSectors.length < numFatSectors && difatSector < END_OF_CHAIN) {
+    const difat = readSector(difatSector);
+    for (let i = 0; i < perDifat && fatSectors.length < numFatSectors; i++) {
+      fatSectors.push(difat.readUInt32LE(i * 4));
+    }
+    difatSector = difat.readUInt32LE(perDifat * 4);
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const data = readSector(sector);
+    for (let i = 0; i < sectorSize; i += 4) fat.push(data.readUInt32LE(i));
+  }
+
+  const readChain = (table: number[], start: number, read: (s: number) => Buffer) => {
+    const parts: Buffer[] = [];
+    const seen = new Set<number>();
+    for (let s = start; s !== END_OF_CHAIN && s !== FREE_SECT; s = table[s] ?? END_OF_CHAIN) {
+      if (seen.has(s)) throw new Error('Invalid DOC file: cyclic sector chain');
+      seen.add(s);
+      parts.push(read(s));
+    }
+    return Buffer.concat(parts);
+  };
+
+  const directory = readChain(fat, firstDirSector, readSector);
+  const entries: { name: string; type: number; start: number; size: number }[] = [];
+  for (let off = 0; off + 128 <= directory.length; off += 128) {
+    const nameLength = directory.readUInt16LE(off + 0x40);
+    entries.push({
+      name: directory.toString('utf16le', off, off + Math.max(0, nameLength - 2)),
+      type: directory[off + 0x42]!,
+      start: directory.readUInt32LE(off + 0x74),
+      size: directory.readUInt32LE(off + 0x78),
+    });
+  }
+  const root = entries[0];
+  if (!root || root.type !== 5) {
+    throw new Error('Invalid DOC file: missing root entry');
+  }
+
+  // Small streams live in the mini stream (root entry's chain), addressed via the mini FAT.
+  const miniStream = readChain(fat, root.start, readSector);
+  const miniFat: number[] = [];
+  const miniFatData =
+    firstMiniFatSector < END_OF_CHAIN ? readChain(fat, firstMiniFatSector, readSector) : null;
+  if (miniFatData) {
+    for (let i = 0; i + 4 <= miniFatData.length; i += 4) miniFat.push(miniFatData.readUInt32LE(i));
+  }
+  const readMiniSector = (sector: number) =>
+    miniStream.subarray(sector * miniSectorSize, (sector + 1) * miniSectorSize);
+
+  const streams = new Map<string, Buffer>();
+  for (const entry of entries) {
+    if (entry.type !== 2) continue;
+    const data =
+      entry.size < miniStreamCutoff
+        ? readChain(miniFat, entry.start, readMiniSector)
+        : readChain(fat, entry.start, readSector);
+    streams.set(entry.name, data.subarray(0, entry.size));
+  }
+  return streams;
+}
+
+interface Piece {
+  cpStart: number;
+  cpEnd: number;
+  fc: number;
+  compressed: boolean;
+}
+
+/** Parse the piece table out of the Clx (skipping any leading Prc property blocks). */
+function readPieceTable(clx: Buffer): Piece[] {
+  let off = 0;
+  while (off < clx.length && clx[off] === 0x01) {
+    off += 3 + clx.readInt16LE(off + 1);
+  }
+  if (clx[off] !== 0x02) {
+    throw new Error('Invalid DOC file: piece table not found');
+  }
+  const lcb = clx.readUInt32LE(off + 1);
+  const plc = clx.subarray(off + 5, off + 5 + lcb);
+  const count = (lcb - 4) / 12;
+  const pieces: Piece[] = [];
+  for (let i = 0; i < count; i++) {
+    const rawFc = plc.readUInt32LE((count + 1) * 4 + i * 8 + 2);
+    const compressed = (rawFc & 0x40000000) !== 0;
+    pieces.push({
+      cpStart: plc.readUInt32LE(i * 4),
+      cpEnd: plc.readUInt32LE((i + 1) * 4),
+      fc: compressed ? (rawFc & 0x3fffffff) / 2 : rawFc,
+      compressed,
+    });
+  }
+  return pieces;
+}
+
+/**
+ * Map Word control characters to plain text: paragraph and line breaks become newlines, table
+ * cell marks (0x07) become " | " separators, and field codes (0x13 … 0x14) are dropped.
+ */
+function cleanWordText(raw: string): string {
+  let out = '';
+  const fields: boolean[] = []; // per open field: still inside the code part?
+  for (const ch of raw) {
+    const code = ch.charCodeAt(0);
+    if (code === 0x13) {
+      fields.push(true);
+      continue;
+    }
+    if (code === 0x14) {
+      if (fields.length) fields[fields.length - 1] = false;
+      continue;
+    }
+    if (code === 0x15) {
+      fields.pop();
+      continue;
+    }
+    if (fields.some((inCode) => inCode)) continue;
+
+    if (ch === '\r' || code === 0x0b || code === 0x0c) out += '\n';
+    else if (code === 0x1e) out += '-';
+    else if (code >= 0x20 || ch === '\n' || ch === '\t' || code === 0x07) out += ch;
+  }
+  return out
+    .split('\n')
+    .map((line) =>
+      line
+        .replace(/\u0007+$/, '')
+        .replace(/\u0007+/g, ' | ')
+        .trimEnd(),
+    )
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Extract the main document text from a Word 97-2003 binary file. */
+export function extractDocText(buffer: Buffer): string {
+  const streams = readCompoundStreams(buffer);
+  const wordDocument = streams.get('WordDocument');
+  if (!wordDocument || wordDocument.length < 32) {
+    throw new Error('Invalid DOC file: WordDocument stream is missing');
+  }
+  if (wordDocument.readUInt16LE(0) !== WORD_FIB_IDENT) {
+    throw new Error('Invalid DOC file: unrecognised Word format (pre-Word 97?)');
+  }
+  if (wordDocument.readUInt16LE(0x0a) & 0x0100) {
+    throw new Error('Encrypted DOC files are not supported');
+  }
+
+  // FIB: FibBase (32 bytes) → csw + fibRgW → cslw + fibRgLw → cbRgFcLcb + fibRgFcLcb.
+  const tableName = wordDocument.readUInt16LE(0x0a) & 0x0200 ? '1Table' : '0Table';
+  let off = 32;
+  off += 2 + wordDocument.readUInt16LE(off) * 2;
+  const rgLw = off + 2;
+  const ccpText = wordDocument.readUInt32LE(rgLw + 3 * 4);
+  off += 2 + wordDocument.readUInt16LE(off) * 4;
+  const rgFcLcb = off + 2;
+  const fcClx = wordDocument.readUInt32LE(rgFcLcb + FIB_CLX_INDEX * 8);
+  const lcbClx = wordDocument.readUInt32LE(rgFcLcb + FIB_CLX_INDEX * 8 + 4);
+
+  const table = streams.get(tableName);
+  if (!table || fcClx + lcbClx > table.length) {
+    throw new Error(`Invalid DOC file: ${tableName} stream is missing`);
+  }
+  const pieces = readPieceTable(table.subarray(fcClx, fcClx + lcbClx));
+
+  let raw = '';
+  for (const piece of pieces) {
+    if (piece.cpStart >= ccpText) break;
+    const chars = Math.min(piece.cpEnd, ccpText) - piece.cpStart;
+    const bytes = piece.compressed ? chars : chars * 2;
+    const data = wordDocument.subarray(piece.fc, piece.fc + bytes);
+    raw += piece.compressed ? decodeCp1252(data) : data.toString('utf16le');
+  }
+  return cleanWordText(raw);
+}
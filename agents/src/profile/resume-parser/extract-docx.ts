@@ -0,0 +1,151 @@
+/**
+ * DOCX text extraction (Office Open XML).
+ * Code-only step - no LLM involvement.
+ *
+ * Reads word/document.xml and emits one line per paragraph, in the same shape pdf-parse gives
+ * for PDFs: headings on their own line preceded by a blank line, list items prefixed with "•"
+ * (nested levels indented), table cells separated by " | ".
+ */
+
+import JSZip from 'jszip';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function attr(xml: string, name: string): string | null {
+  const m = new RegExp(`${name}="([^"]*)"`).exec(xml);
+  return m ? m[1]! : null;
+}
+
+/** Heading/title style ids from word/styles.xml (ids are localized, names are not). */
+function headingStyleIds(stylesXml: string | null): Set<string> {
+  const ids = new Set<string>();
+  if (!stylesXml) return ids;
+  for (const m of stylesXml.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const styleId = attr(m[1]!, 'w:styleId');
+    const name = attr(/<w:name\b[^>]*\/>/.exec(m[2]!)?.[0] ?? '', 'w:val');
+    if (styleId && name && /^(heading \d|title|subtitle)$/i.test(name)) ids.add(styleId);
+  }
+  return ids;
+}
+
+/** Text of one paragraph: runs, tabs and manual line breaks. */
+function paragraphText(paragraphXml: string): string {
+  let text = '';
+  for (const m of paragraphXml.matchAll(
+    /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br\b[^>]*\/>|<w:cr\/>/g,
+  )) {
+    if (m[1] !== undefined) text += decodeXml(m[1]);
+    else if (m[0].startsWith('<w:tab')) text += '\t';
+    else text += '\n';
+  }
+  return text.replace(/[ \t]+$/gm, '');
+}
+
+function renderParagraph(paragraphXml: string, headingIds: Set<string>): string | null {
+  const text = paragraphText(paragraphXml).trim();
+  if (!text) return null;
+
+  const pPr = /<w:pPr>([\s\S]*?)<\/w:pPr>/.exec(paragraphXml)?.[1] ?? '';
+  const styleId = attr(/<w:pStyle\b[^>]*\/>/.exec(pPr)?.[0] ?? '', 'w:val');
+  const isHeading =
+    (styleId != null && (headingIds.has(styleId) || /^(heading\d|title)$/i.test(styleId))) ||
+    /<w:outlineLvl\b/.test(pPr);
+  if (isHeading) return `\n${text}`;
+
+  const numPr = /<w:numPr>([\s\S]*?)<\/w:numPr>/.exec(pPr)?.[1];
+  if (numPr || (styleId && /^list/i.test(styleId))) {
+    const level = Number.parseInt(
+      attr(/<w:ilvl\b[^>]*\/>/.exec(numPr ?? '')?.[0] ?? '', 'w:val') ?? '0',
+      10,
+    );
+    return `${'  '.repeat(Number.isFinite(level) ? level : 0)}• ${text}`;
+  }
+  return text;
+}
+
+function renderTable(tableXml: string, headingIds: Set<string>): string[] {
+  const lines: string[] = [];
+  for (const row of tableXml.matchAll(/<w:tr\b[\s\S]*?<\/w:tr>/g)) {
+    const cells: string[] = [];
+    for (const cell of row[0].matchAll(/<w:tc\b[\s\S]*?<\/w:tc>/g)) {
+      const paragraphs = [...cell[0].matchAll(/<w:p\b[\s\S]*?<\/w:p>/g)]
+        .map((p) => renderParagraph(p[0], headingIds)?.trim())
+        .filter((p): p is string => !!p);
+      if (paragraphs.length) cells.push(paragraphs.join(' '));
+    }
+    if (cells.length) lines.push(cells.join(' | '));
+  }
+  return lines;
+}
+
+/** Convert word/document.xml (+ optional styles.xml) to plain text. */
+export function docxXmlToText(documentXml: string, stylesXml: string | null = null): string {
+  const headingIds = headingStyleIds(stylesXml);
+  const body = /<w:body>([\s\S]*)<\/w:body>/.exec(documentXml)?.[1] ?? documentXml;
+  const lines: string[] = [];
+
+  // Top-level tables and paragraphs in document order. Nested tables (rare in resumes) keep their
+  // text but lose the cell layout.
+  for (const m of body.matchAll(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p\b[^>]*\/>|<w:p\b[\s\S]*?<\/w:p>/g)) {
+    if (m[0].startsWith('<w:tbl>')) {
+      lines.push(...renderTable(m[0], headingIds));
+    } else {
+      const line = renderParagraph(m[0], headingIds);
+      if (line) lines.push(line);
+    }
+  }
+
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export interface DocxText {
+  text: string;
+  title?: string;
+  author?: string;
+}
+
+/** Extract text (and core title/author) from a DOCX buffer. */
+export async function extractDocxText(buffer: Buffer): Promise<DocxText> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new Error('Invalid DOCX file: not a zip archive');
+  }
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('Invalid DOCX file: word/document.xml is missing');
+  }
+  const stylesXml = (await zip.file('word/styles.xml')?.async('string')) ?? null;
+  const coreXml = (await zip.file('docProps/core.xml')?.async('string')) ?? '';
+  const title = /<dc:title>([\s\S]*?)<\/dc:title>/.exec(coreXml)?.[1];
+  const author = /<dc:creator>([\s\S]*?)<\/dc:creator>/.exec(coreXml)?.[1];
+
+  return {
+    text: docxXmlToText(documentXml, stylesXml),
+    title: title ? decodeXml(title) : undefined,
+    author: author ? decodeXml(author) : undefined,
+  };
+}
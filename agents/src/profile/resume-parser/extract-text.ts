@@ -1,10 +1,12 @@
 /**
- * PDF text extraction using pdf-parse.
+ * Resume text extraction: PDF via pdf-parse, DOCX via extract-docx, legacy DOC via extract-doc.
  * Code-only step - no LLM involvement.
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { extractDocxText } from './extract-docx.js';
+import { extractDocText, isCompoundFile } from './extract-doc.js';
 
 // pdf-parse has issues with ESM, so we use dynamic import
 type PdfParseResult = {
@@ -34,10 +36,7 @@ export interface ExtractedText {
   };
 }
 
-/**
- * Extract text content from a PDF file.
- */
-export async function extractTextFromPdf(filePath: string): Promise<ExtractedText> {
+async function readResumeFile(filePath: string): Promise<Buffer> {
   const absolutePath = path.resolve(filePath);
 
   // Verify file exists
@@ -47,8 +46,14 @@ export async function extractTextFromPdf(filePath: string): Promise<ExtractedTex
     throw new Error(`Resume file not found: ${absolutePath}`);
   }
 
-  // Read file
-  const buffer = await fs.readFile(absolutePath);
+  return fs.readFile(absolutePath);
+}
+
+/**
+ * Extract text content from a PDF file.
+ */
+export async function extractTextFromPdf(filePath: string): Promise<ExtractedText> {
+  const buffer = await readResumeFile(filePath);
 
   // Parse PDF
   const parser = await getPdfParser();
@@ -68,11 +73,25 @@ export async function extractTextFromPdf(filePath: string): Promise<ExtractedTex
 }
 
 /**
- * Extract text from DOCX file (basic implementation).
- * For V1, we focus on PDF - DOCX can be added later.
+ * Extract text from a Word file. Dispatches on content rather than extension, since .doc and
+ * .docx are often renamed: zip (PK) → DOCX, compound file → Word 97-2003 binary.
+ * Word has no page count without layout, so numPages is always 1.
  */
-export async function extractTextFromDocx(_filePath: string): Promise<ExtractedText> {
-  throw new Error('DOCX parsing not yet implemented - please use PDF format');
+export async function extractTextFromDocx(filePath: string): Promise<ExtractedText> {
+  const buffer = await readResumeFile(filePath);
+
+  if (buffer.subarray(0, 2).toString('latin1') === 'PK') {
+    const docx = await extractDocxText(buffer);
+    return {
+      text: docx.text,
+      numPages: 1,
+      info: docx.title || docx.author ? { title: docx.title, author: docx.author } : undefined,
+    };
+  }
+  if (isCompoundFile(buffer)) {
+    return { text: extractDocText(buffer), numPages: 1 };
+  }
+  throw new Error('Unsupported Word file: expected a .docx or Word 97-2003 .doc document');
 }
 
 /**
@@ -1,7 +1,7 @@
 /**
  * Resume Parser Agent
  *
- * Extracts structured information from resume PDFs:
+ * Extracts structured information from resumes (PDF, DOCX, DOC, TXT):
  * - Basic info (name, email, phone, location, links) via regex
  * - Education, experience, projects, skills via LLM
  *
@@ -24,8 +24,7 @@ import { extractSections, normalizeSkills } from './parse-sections.js';
 export class ResumeParserAgent extends BaseAgent<ResumeParserInput, ParsedResume> {
   config: AgentConfig = {
     name: 'ResumeParserAgent',
-    description:
-      'Extracts structured information from resume PDFs using hybrid code + LLM approach',
+    description: 'Extracts structured information from resumes using hybrid code + LLM approach',
     version: '1.0.0',
     timeout: 90000,
     retries: 2,
@@ -37,7 +36,7 @@ export class ResumeParserAgent extends BaseAgent<ResumeParserInput, ParsedResume
   protected async run(input: ResumeParserInput, _context: AgentContext): Promise<ParsedResume> {
     const { filePath } = input;
 
-    // Step 1: Extract raw text from PDF (code-only)
+    // Step 1: Extract raw text from the resume file (code-only)
     this.info('Extracting text from resume file', { filePath });
     const extracted = await extractText(filePath);
     this.debug(`Extracted ${extracted.numPages} page(s), ${extracted.text.length} chars`);
@@ -0,0 +1,99 @@
+/**
+ * Compensation fit — a job's parsed salary compared against the user's salary preference,
+ * converted to the preference currency via the static FX table.
+ *
+ * LLM Usage: None (pure code logic)
+ */
+
+import { convertCurrency, getFxRates } from '../normalize/fx-rates.js';
+import type { ParsedSalary } from '../normalize/salary-parser.js';
+import type { DimensionMatch, UserPreferences } from './types.js';
+
+export type SalaryPreference = Pick<UserPreferences, 'salaryMin' | 'salaryMax' | 'salaryCurrency'>;
+
+/** Structured compensation result; also stored as the analysis `compensation` block. */
+export interface CompensationFitResult {
+  /** 0..1; 1 with no salary preference, 0.5 when the job salary is unknown or not convertible. */
+  fit: number;
+  /** MISMATCH when the job's top of range is below the preferred minimum; for hard filters. */
+  match: DimensionMatch;
+  salary: ParsedSalary | null;
+  /** Job's annual range in the comparison currency (preference currency when set). */
+  annual: { min: number; max: number; currency: string } | null;
+  preference: { min: number | null; max: number | null; currency: string | null };
+  /** Job top of range minus preferred minimum (comparison currency); negative = below. */
+  deltaToMin: number | null;
+  evidence: string;
+}
+
+function formatAmount(value: number, currency: string): string {
+  return `${currency} ${Math.round(value).toLocaleString('en-US')}`;
+}
+
+/**
+ * Preference amounts are annual. The job meets the preference when the top of its range reaches
+ * the preferred minimum (fit 1); below that, fit = jobTop / preferredMin. A job paying above the
+ * preferred maximum is not penalized.
+ */
+export function computeCompensationFit(
+  salary: ParsedSalary | null,
+  prefs: SalaryPreference,
+  rates: Record<string, number> = getFxRates(),
+): CompensationFitResult {
+  const preference = {
+    min: prefs.salaryMin ?? null,
+    max: prefs.salaryMax ?? null,
+    currency: prefs.salaryCurrency?.trim().toUpperCase() || null,
+  };
+  const base = { salary, preference, annual: null, deltaToMin: null };
+
+  if (!salary) {
+    const fit = preference.min == null ? 1 : 0.5;
+    return { ...base, fit, match: 'UNKNOWN', evidence: 'Compensation: job salary not stated' };
+  }
+
+  const currency = preference.currency ?? salary.currency;
+  const min = convertCurrency(salary.annualMin, salary.currency, currency, rates);
+  const max = convertCurrency(salary.annualMax, salary.currency, currency, rates);
+  if (min == null || max == null) {
+    return {
+      ...base,
+      fit: 0.5,
+      match: 'UNKNOWN',
+      evidence: `Compensation: no FX rate for ${salary.currency} → ${currency}`,
+    };
+  }
+
+  const annual = { min: Math.round(min), max: Math.round(max), currency };
+  const range =
+    annual.min === annual.max
+      ? formatAmount(annual.max, currency)
+      : `${formatAmount(annual.min, currency)}–${formatAmount(annual.max, currency)}`;
+  const converted = salary.currency !== currency ? ` (from ${salary.currency})` : '';
+  const periodNote =
+    salary.period !== 'YEAR' ? `, annualized from ${salary.period.toLowerCase()}` : '';
+
+  if (preference.min == null) {
+    return {
+      ...base,
+      annual,
+      fit: 1,
+      match: 'MATCH',
+      evidence: `Compensation: ${range}/yr${converted}${periodNote}; no salary preference`,
+    };
+  }
+
+  const deltaToMin = Math.round(annual.max - preference.min);
+  const fit =
+    deltaToMin >= 0 ? 1 : Math.round(Math.max(0, annual.max / preference.min) * 100) / 100;
+  return {
+    ...base,
+    annual,
+    deltaToMin,
+    fit,
+    match: deltaToMin >= 0 ? 'MATCH' : 'MISMATCH',
+    evidence:
+      `Compensation: ${range}/yr${converted}${periodNote} vs preferred min ` +
+      `${formatAmount(preference.min, currency)} → fit ${fit}`,
+  };
+}
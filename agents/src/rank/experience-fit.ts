@@ -0,0 +1,155 @@
+/**
+ * Experience fit — years-of-experience requirements parsed from job text, compared against
+ * the candidate's dated experience entries.
+ *
+ * LLM Usage: None (pure code logic)
+ */
+
+import { estimateTotalMonthsFromWork } from '../profile/profile-insights-agent.js';
+
+export interface ExperienceRequirement {
+  minYears: number;
+  maxYears: number | null;
+  /** The phrase the requirement was parsed from, for evidence. */
+  evidence: string;
+}
+
+export interface ExperienceFitResult {
+  /** 0..1; 0.5 when either side is unknown. */
+  fit: number;
+  candidateYears: number | null;
+  requirement: ExperienceRequirement | null;
+  evidence: string;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  fifteen: 15,
+};
+
+const NUM = `(\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+/**
+ * "5+ years", "3-5 years", "at least 4 years", "minimum of two years", "7 years of experience".
+ * Group 1 = qualifier, 2 = min, 3 = plus, 4 = max, 5 = trailing context.
+ */
+const YEARS_PATTERN = new RegExp(
+  `(at least|minimum(?: of)?|min\\.?|over)?\\s*\\(?\\b${NUM}\\b\\)?\\s*(\\+|plus)?\\s*(?:(?:-|–|to)\\s*\\b${NUM}\\b\\s*\\+?)?\\s*(?:years?|yrs?)\\b([^.;\\n]{0,60})`,
+  'gi',
+);
+
+/** Above this, a number followed by "years" is not an experience requirement. */
+const MAX_PLAUSIBLE_YEARS = 20;
+
+/** Years the candidate can be over the stated maximum before fit starts to drop. */
+const OVERQUALIFIED_TOLERANCE_YEARS = 3;
+
+function toNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const lower = value.toLowerCase();
+  if (lower in NUMBER_WORDS) return NUMBER_WORDS[lower]!;
+  const n = Number.parseInt(lower, 10);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Parse the years-of-experience requirement from job text.
+ * When several are stated (e.g. "5+ years backend, 2+ years Kubernetes"), the largest minimum wins:
+ * that is the bar the candidate must clear.
+ */
+export function parseExperienceRequirement(
+  text: string | null | undefined,
+): ExperienceRequirement | null {
+  if (!text) return null;
+  let best: ExperienceRequirement | null = null;
+
+  for (const m of text.matchAll(YEARS_PATTERN)) {
+    const qualifier = m[1];
+    const min = toNumber(m[2]);
+    const plus = m[3];
+    const max = toNumber(m[4]);
+    const trailing = (m[5] ?? '').toLowerCase();
+    if (min == null || min > MAX_PLAUSIBLE_YEARS) continue;
+
+    // Only count phrases that read as a requirement, not "founded 10 years ago" or "1 year warranty".
+    const isRequirement =
+      Boolean(qualifier || plus || max != null) || /\bexperience\b|\bexp\b/.test(trailing);
+    if (!isRequirement || /\bago\b|\bold\b/.test(trailing)) continue;
+
+    const maxYears = max != null && max >= min && max <= MAX_PLAUSIBLE_YEARS ? max : null;
+    if (!best || min > best.minYears) {
+      best = { minYears: min, maxYears, evidence: m[0].trim() };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Score the candidate's total dated experience against the job's requirement.
+ * - meets the minimum (and within tolerance of any maximum) → 1
+ * - below the minimum → candidateYears / minYears
+ * - well above a stated maximum → 0.7 (likely overqualified)
+ */
+export function computeExperienceFit(
+  experience: unknown[] | undefined,
+  jobText: string | null | undefined,
+): ExperienceFitResult {
+  const requirement = parseExperienceRequirement(jobText);
+  const months = experience?.length ? estimateTotalMonthsFromWork(experience) : 0;
+  const candidateYears = months > 0 ? Math.round((months / 12) * 10) / 10 : null;
+
+  if (!requirement) {
+    return {
+      fit: 0.5,
+      candidateYears,
+      requirement: null,
+      evidence: 'Experience: no years-of-experience requirement found in job text',
+    };
+  }
+
+  const required =
+    requirement.maxYears != null
+      ? `${requirement.minYears}-${requirement.maxYears} yrs`
+      : `${requirement.minYears}+ yrs`;
+
+  if (candidateYears == null) {
+    return {
+      fit: 0.5,
+      candidateYears,
+      requirement,
+      evidence: `Experience: ${required} required ("${requirement.evidence}"); no dated experience on profile`,
+    };
+  }
+
+  let fit: number;
+  if (candidateYears < requirement.minYears) {
+    fit = requirement.minYears > 0 ? candidateYears / requirement.minYears : 1;
+  } else if (
+    requirement.maxYears != null &&
+    candidateYears > requirement.maxYears + OVERQUALIFIED_TOLERANCE_YEARS
+  ) {
+    fit = 0.7;
+  } else {
+    fit = 1;
+  }
+  fit = Math.round(Math.max(0, Math.min(1, fit)) * 100) / 100;
+
+  return {
+    fit,
+    candidateYears,
+    requirement,
+    evidence: `Experience: ${candidateYears} yrs vs ${required} required ("${requirement.evidence}") → fit ${fit}`,
+  };
+}
@@ -2,12 +2,14 @@
  * Rank Agents - Job scoring and ranking
  *
  * Agents in this module:
- * - RuleScorerAgent: Deterministic rule-based scoring
+ * - RuleScorerAgent: Deterministic rule-based scoring (+ experience and compensation fit helpers)
  * - LLMRankerAgent: Deep preference reasoning via Ollama
  * - TopKCuratorAgent: Selects top K jobs per source/company
  */
 
 export * from './rule-scorer-agent.js';
+export * from './experience-fit.js';
+export * from './compensation-fit.js';
 export * from './llm-ranker-agent.js';
 export * from './top-k-curator-agent.js';
 export * from './types.js';
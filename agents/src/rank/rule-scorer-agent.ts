@@ -2,15 +2,46 @@
  * Rule Scorer Agent - Deterministic rule-based job scoring
  *
  * Responsibilities:
- * - Binary checks: visa match, location match, seniority match
- * - Dimension scores: skills overlap, experience fit
+ * - Binary checks: visa match, location match, seniority match, industry match
+ * - Dimension scores: skills overlap (skill taxonomy aware), experience fit (dated profile experience vs job YoE),
+ *   compensation fit (parsed salary vs preferred minimum, FX-converted)
+ * - Per-user dimension weights and hard-filter dimensions (from preferences)
  * - Fast, transparent, reproducible scoring
  *
  * LLM Usage: None (pure code logic)
  */
 
 import type { NormalizedJob } from '../normalize/types.js';
-import type { ScoreBreakdown, UserPreferences, DimensionMatch } from './types.js';
+import type {
+  ScoreBreakdown,
+  UserPreferences,
+  DimensionMatch,
+  HardFilterDimension,
+  StrictFilterLevel,
+} from './types.js';
+import { DEFAULT_HARD_FILTER_DIMENSIONS, DEFAULT_SCORING_WEIGHTS } from './types.js';
+import { computeExperienceFit } from './experience-fit.js';
+import { computeCompensationFit } from './compensation-fit.js';
+import { parseSalary, type ParsedSalary } from '../normalize/salary-parser.js';
+import { canonicalizeSkills } from '../normalize/canonicalizer-agent.js';
+import {
+  DEFAULT_SKILL_TAXONOMY,
+  impliedSkills,
+  textMentionsSkill,
+  type SkillTaxonomy,
+} from '../normalize/skill-taxonomy.js';
+
+/** Profile and company data that is not part of the job or preferences. */
+export interface RuleScoringContext {
+  /** Dated profile experience entries (profiles.experience); drives experienceFit. */
+  experience?: unknown[];
+  /** Company industry labels and/or description text; drives industryMatch. */
+  company?: { industries?: string[]; description?: string | null };
+  /** Raw salary text (e.g. JobDetail.salary); overrides the job's parsed salaryMin/Max. */
+  salary?: string | null;
+  /** Bundled taxonomy plus admin overrides; defaults to the bundled one. */
+  skillTaxonomy?: SkillTaxonomy;
+}
 
 export interface RuleScoringResult {
   score: number;
@@ -24,6 +55,7 @@ export interface RuleScoringResult {
 export function scoreJobWithRules(
   job: NormalizedJob,
   preferences: UserPreferences,
+  context: RuleScoringContext = {},
 ): RuleScoringResult {
   // Calculate dimension scores
   const visaMatch = checkVisaMatch(job, preferences);
@@ -31,21 +63,21 @@ export function scoreJobWithRules(
   const seniorityMatch = checkSeniorityMatch(job, preferences);
   const remoteMatch = checkRemoteMatch(job, preferences);
   const employmentTypeMatch = checkEmploymentTypeMatch(job, preferences);
-  const skillsOverlap = calculateSkillsOverlap(job, preferences);
-  const experienceFit = 0.5; // Placeholder - would need experience data
-  const industryMatch: DimensionMatch = 'UNKNOWN'; // Placeholder
-
-  // Calculate weighted score
+  const skillsOverlap = calculateSkillsOverlap(
+    job,
+    preferences,
+    context.skillTaxonomy ?? DEFAULT_SKILL_TAXONOMY,
+  );
+  const experience = computeExperienceFit(context.experience, jobText(job));
+  const experienceFit = experience.fit;
+  const industry = checkIndustryMatch(preferences, context.company);
+  const industryMatch = industry.match;
+  const compensation = computeCompensationFit(jobSalary(job, context), preferences);
+  const compensationFit = compensation.fit;
+
+  // Calculate weighted score (per-user weights sum to 100)
   let score = 0;
-  const weights = {
-    visa: 25,
-    location: 20,
-    seniority: 15,
-    remote: 10,
-    employment: 5,
-    skills: 20,
-    experience: 5,
-  };
+  const weights = preferences.scoringWeights ?? DEFAULT_SCORING_WEIGHTS;
 
   score += matchToScore(visaMatch) * weights.visa;
   score += matchToScore(locationMatch) * weights.location;
@@ -54,10 +86,8 @@ export function scoreJobWithRules(
   score += matchToScore(employmentTypeMatch) * weights.employment;
   score += skillsOverlap * weights.skills;
   score += experienceFit * weights.experience;
-
-  // Check strict filter (strictFilterLevel; fallback to strictMode for backward compat)
-  const level = preferences.strictFilterLevel ?? (preferences.strictMode ? 'STRICT' : 'OFF');
-  const passesStrictFilter = checkStrictFilter(visaMatch, locationMatch, seniorityMatch, level);
+  score += matchToScore(industryMatch) * weights.industry;
+  score += compensationFit * weights.compensation;
 
   const breakdown: ScoreBreakdown = {
     ruleScore: Math.round(score * 100) / 100,
@@ -71,10 +101,14 @@ export function scoreJobWithRules(
       industryMatch,
       employmentTypeMatch,
       remoteMatch,
+      compensationFit,
+      compensationMatch: compensation.match,
     },
-    evidence: [],
+    evidence: [experience.evidence, industry.evidence, compensation.evidence],
   };
 
+  const passesStrictFilter = passesHardFilters(breakdown.dimensions, preferences);
+
   return {
     score: breakdown.ruleScore,
     breakdown,
@@ -197,36 +231,137 @@ function checkEmploymentTypeMatch(job: NormalizedJob, prefs: UserPreferences): D
   return 'MISMATCH';
 }
 
-function calculateSkillsOverlap(job: NormalizedJob, prefs: UserPreferences): number {
-  if (!prefs.skills.length) return 0.5; // No skills listed = neutral
+/**
+ * Share of the user's skills (deduped by canonical name) the job mentions. A skill counts when
+ * the job names it under any alias or names a skill it implies (Next.js → React).
+ */
+function calculateSkillsOverlap(
+  job: NormalizedJob,
+  prefs: UserPreferences,
+  taxonomy: SkillTaxonomy,
+): number {
+  const skills = canonicalizeSkills(prefs.skills, taxonomy);
+  if (!skills.length) return 0.5; // No skills listed = neutral
   if (!job.description) return 0.3;
 
-  const jobText = job.description.toLowerCase();
+  const jobText = job.description;
   let matchCount = 0;
 
-  for (const skill of prefs.skills) {
-    if (jobText.includes(skill.toLowerCase())) {
+  for (const skill of skills) {
+    if (impliedSkills(skill, taxonomy).some((s) => textMentionsSkill(jobText, s, taxonomy))) {
       matchCount++;
     }
   }
 
-  return prefs.skills.length > 0 ? matchCount / prefs.skills.length : 0.5;
+  return matchCount / skills.length;
+}
+
+/** Job text used for requirement parsing: description plus any structured requirements. */
+function jobText(job: NormalizedJob): string {
+  return [job.description ?? '', ...(job.requirements ?? [])].join('\n');
+}
+
+/** Salary for compensation fit: raw text from context, else the job's annualized salaryMin/Max. */
+function jobSalary(job: NormalizedJob, context: RuleScoringContext): ParsedSalary | null {
+  if (context.salary) return parseSalary(context.salary);
+  if (job.salaryMin == null && job.salaryMax == null) return null;
+  const min = job.salaryMin ?? job.salaryMax!;
+  const max = job.salaryMax ?? min;
+  return {
+    min,
+    max,
+    currency: job.salaryCurrency ?? 'USD',
+    period: 'YEAR',
+    annualMin: min,
+    annualMax: max,
+    currencyInferred: !job.salaryCurrency,
+    raw: `${min}-${max}`,
+  };
+}
+
+function normalizeIndustry(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** Whole-word containment of normalized text, so "ai" is not found in "retail". */
+function containsWords(text: string, words: string): boolean {
+  return !!words && ` ${text} `.includes(` ${words} `);
+}
+
+/**
+ * Preferred industries vs the company's industry.
+ * - No preference → MATCH (any industry)
+ * - Company industry labels: overlap → MATCH, none → MISMATCH
+ * - Only company description: a preferred industry mentioned → PARTIAL (weaker evidence), else UNKNOWN
+ */
+function checkIndustryMatch(
+  prefs: UserPreferences,
+  company: RuleScoringContext['company'],
+): { match: DimensionMatch; evidence: string } {
+  const preferred = (prefs.industries ?? []).map(normalizeIndustry).filter(Boolean);
+  if (!preferred.length) {
+    return { match: 'MATCH', evidence: 'Industry: no industry preference' };
+  }
+
+  const labels = (company?.industries ?? []).filter((l) => l.trim());
+  if (labels.length) {
+    for (const label of labels) {
+      const normalized = normalizeIndustry(label);
+      const hit = preferred.find(
+        (p) => containsWords(normalized, p) || containsWords(p, normalized),
+      );
+      if (hit) return { match: 'MATCH', evidence: `Industry: company is ${label} (preferred)` };
+    }
+    return {
+      match: 'MISMATCH',
+      evidence: `Industry: company is ${labels.join(', ')}; preferred ${prefs.industries.join(', ')}`,
+    };
+  }
+
+  const description = company?.description ? normalizeIndustry(company.description) : '';
+  if (description) {
+    const hit = prefs.industries.find((p) => containsWords(description, normalizeIndustry(p)));
+    if (hit) {
+      return { match: 'PARTIAL', evidence: `Industry: company description mentions ${hit}` };
+    }
+  }
+
+  return { match: 'UNKNOWN', evidence: 'Industry: company industry unknown' };
 }
 
-type StrictFilterLevel = 'STRICT' | 'SEMI_STRICT' | 'OFF';
+const HARD_FILTER_MATCHES: Record<
+  HardFilterDimension,
+  (d: ScoreBreakdown['dimensions']) => DimensionMatch
+> = {
+  visa: (d) => d.visaMatch,
+  location: (d) => d.locationMatch,
+  seniority: (d) => d.seniorityMatch,
+  remote: (d) => d.remoteMatch,
+  employment: (d) => d.employmentTypeMatch,
+  industry: (d) => d.industryMatch,
+  compensation: (d) => d.compensationMatch,
+};
 
-function checkStrictFilter(
-  visa: DimensionMatch,
-  location: DimensionMatch,
-  seniority: DimensionMatch,
-  level: StrictFilterLevel,
+/**
+ * Strict filter over the user's hard-filter dimensions (default visa/location/seniority).
+ * STRICT excludes on any MISMATCH, SEMI_STRICT only when two or more mismatch, OFF never.
+ * strictFilterLevel falls back to strictMode for backward compat.
+ */
+export function passesHardFilters(
+  dimensions: ScoreBreakdown['dimensions'],
+  preferences: Pick<UserPreferences, 'strictFilterLevel' | 'strictMode' | 'hardFilterDimensions'>,
 ): boolean {
+  const level: StrictFilterLevel =
+    preferences.strictFilterLevel ?? (preferences.strictMode ? 'STRICT' : 'OFF');
   if (level === 'OFF') return true;
 
-  const visaFail = visa === 'MISMATCH';
-  const locationFail = location === 'MISMATCH';
-  const seniorityFail = seniority === 'MISMATCH';
-  const failCount = (visaFail ? 1 : 0) + (locationFail ? 1 : 0) + (seniorityFail ? 1 : 0);
+  const hardFilters = preferences.hardFilterDimensions ?? DEFAULT_HARD_FILTER_DIMENSIONS;
+  const failCount = hardFilters.filter(
+    (dim) => HARD_FILTER_MATCHES[dim](dimensions) === 'MISMATCH',
+  ).length;
 
   if (level === 'STRICT') {
     return failCount === 0;
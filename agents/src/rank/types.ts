@@ -20,6 +20,10 @@ export const ScoreBreakdownSchema = z.object({
     industryMatch: DimensionMatchSchema,
     employmentTypeMatch: DimensionMatchSchema,
     remoteMatch: DimensionMatchSchema,
+    /** Defaults for breakdowns stored before compensation was scored. */
+    compensationFit: z.number().min(0).max(1).default(0.5),
+    /** MISMATCH when the salary is below the preferred minimum (compensation hard filter). */
+    compensationMatch: DimensionMatchSchema.default('UNKNOWN'),
   }),
   explanation: z.string().optional(),
   evidence: z.array(z.string()).default([]),
@@ -50,6 +54,67 @@ export type TargetLocation = z.infer<typeof TargetLocationSchema>;
 export const StrictFilterLevelSchema = z.enum(['STRICT', 'SEMI_STRICT', 'OFF']);
 export type StrictFilterLevel = z.infer<typeof StrictFilterLevelSchema>;
 
+/** Dimensions that contribute to the rule score; each gets a weight (weights sum to 100). */
+export const ScoringDimensionSchema = z.enum([
+  'visa',
+  'location',
+  'seniority',
+  'remote',
+  'employment',
+  'skills',
+  'experience',
+  'industry',
+  'compensation',
+]);
+export type ScoringDimension = z.infer<typeof ScoringDimensionSchema>;
+
+export const DEFAULT_SCORING_WEIGHTS: Record<ScoringDimension, number> = {
+  visa: 25,
+  location: 15,
+  seniority: 15,
+  remote: 10,
+  employment: 5,
+  skills: 15,
+  experience: 5,
+  industry: 5,
+  compensation: 5,
+};
+
+export const ScoringWeightsSchema = z
+  .object({
+    visa: z.number().min(0).max(100),
+    location: z.number().min(0).max(100),
+    seniority: z.number().min(0).max(100),
+    remote: z.number().min(0).max(100),
+    employment: z.number().min(0).max(100),
+    skills: z.number().min(0).max(100),
+    experience: z.number().min(0).max(100),
+    industry: z.number().min(0).max(100),
+    compensation: z.number().min(0).max(100),
+  })
+  .refine((w) => Object.values(w).reduce((sum, v) => sum + v, 0) === 100, {
+    message: 'Scoring weights must sum to 100',
+  });
+export type ScoringWeights = z.infer<typeof ScoringWeightsSchema>;
+
+/** Match dimensions that can act as hard filters (a MISMATCH counts as a failure). */
+export const HardFilterDimensionSchema = z.enum([
+  'visa',
+  'location',
+  'seniority',
+  'remote',
+  'employment',
+  'industry',
+  'compensation',
+]);
+export type HardFilterDimension = z.infer<typeof HardFilterDimensionSchema>;
+
+export const DEFAULT_HARD_FILTER_DIMENSIONS: HardFilterDimension[] = [
+  'visa',
+  'location',
+  'seniority',
+];
+
 export const UserPreferencesSchema = z.object({
   workAuthorization: z.enum(['US_CITIZEN', 'GREEN_CARD', 'H1B', 'OPT', 'EAD', 'OTHER']),
   targetLocations: z.array(TargetLocationSchema).default([]),
@@ -65,6 +130,10 @@ export const UserPreferencesSchema = z.object({
   strictFilterLevel: StrictFilterLevelSchema.default('STRICT'),
   maxContactsPerJob: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(5)]).default(2),
   outreachTone: z.string().optional(),
+  /** Per-user rule-score weights; DEFAULT_SCORING_WEIGHTS when unset. */
+  scoringWeights: ScoringWeightsSchema.optional(),
+  /** Dimensions checked by the strict filter; DEFAULT_HARD_FILTER_DIMENSIONS when unset. */
+  hardFilterDimensions: z.array(HardFilterDimensionSchema).optional(),
   /** @deprecated Use strictFilterLevel instead; kept for backward compatibility. */
   strictMode: z.boolean().optional(),
 });
@@ -14,6 +14,8 @@ type QueueUser = {
   running: number;
   completed: number;
   failed: number;
+  /** Out of retry attempts (dead letter). */
+  dead: number;
   total: number;
 };
 
@@ -82,6 +84,25 @@ export function ApplicationAnalysisQueuePanel() {
     }
   }
 
+  async function handleRequeueDead(userId: string) {
+    setActionUserId(userId);
+    try {
+      const res = await fetch('/api/admin/application-analysis-queue/requeue-dead', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error ?? 'Failed to requeue');
+        return;
+      }
+      await fetchUsers();
+    } finally {
+      setActionUserId(null);
+    }
+  }
+
   async function handleTogglePriority(userId: string, nextPriority: boolean) {
     setPriorityActionUserId(userId);
     try {
@@ -211,6 +232,7 @@ export function ApplicationAnalysisQueuePanel() {
                 <th className="text-right py-2 px-2">Running</th>
                 <th className="text-right py-2 px-2">Completed</th>
                 <th className="text-right py-2 px-2">Failed</th>
+                <th className="text-right py-2 px-2">Dead</th>
                 <th className="text-right py-2 px-2">Total</th>
                 <th className="text-left py-2 pl-4">Actions</th>
               </tr>
@@ -239,6 +261,7 @@ export function ApplicationAnalysisQueuePanel() {
                   <td className="text-right py-2 px-2">{u.running}</td>
                   <td className="text-right py-2 px-2">{u.completed}</td>
                   <td className="text-right py-2 px-2">{u.failed}</td>
+                  <td className="text-right py-2 px-2">{u.dead}</td>
                   <td className="text-right py-2 px-2">{u.total}</td>
                   <td className="py-2 pl-4 flex gap-2">
                     <Button
@@ -257,6 +280,14 @@ export function ApplicationAnalysisQueuePanel() {
                     >
                       Hard stop
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={u.dead === 0 || actionUserId === u.userId}
+                      onClick={() => handleRequeueDead(u.userId)}
+                    >
+                      Retry dead
+                    </Button>
                   </td>
                 </tr>
               ))}
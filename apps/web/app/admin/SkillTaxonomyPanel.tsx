@@ -0,0 +1,209 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Trash2 } from 'lucide-react';
+
+type TaxonomyEntry = { canonical: string; aliases?: string[]; parents?: string[] };
+type Override = TaxonomyEntry & { id: string; updatedAt: string };
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+/**
+ * Panel for skill taxonomy overrides: add or replace canonical skills, their aliases and parent
+ * skills on top of the bundled taxonomy used by the rule scorer and skill suggestions.
+ */
+export function SkillTaxonomyPanel() {
+  const [overrides, setOverrides] = useState<Override[]>([]);
+  const [bundled, setBundled] = useState<TaxonomyEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [canonical, setCanonical] = useState('');
+  const [aliases, setAliases] = useState('');
+  const [parents, setParents] = useState('');
+  const [filter, setFilter] = useState('');
+
+  async function fetchTaxonomy() {
+    try {
+      const res = await fetch('/api/admin/skill-taxonomy');
+      if (!res.ok) return;
+      const data = await res.json();
+      setOverrides(data.overrides ?? []);
+      setBundled(data.bundled ?? []);
+    } catch {
+      // ignore
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchTaxonomy();
+  }, []);
+
+  function edit(entry: TaxonomyEntry) {
+    setCanonical(entry.canonical);
+    setAliases((entry.aliases ?? []).join(', '));
+    setParents((entry.parents ?? []).join(', '));
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!canonical.trim()) return;
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/skill-taxonomy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          canonical,
+          aliases: splitList(aliases),
+          parents: splitList(parents),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        alert(data.error ?? 'Failed to save override');
+        return;
+      }
+      edit({ canonical: '' });
+      await fetchTaxonomy();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    const res = await fetch(`/api/admin/skill-taxonomy?id=${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data.error ?? 'Failed to delete override');
+      return;
+    }
+    await fetchTaxonomy();
+  }
+
+  const overridden = new Set(overrides.map((o) => o.canonical.toLowerCase()));
+  const query = filter.trim().toLowerCase();
+  const matchingBundled = bundled.filter(
+    (b) =>
+      !overridden.has(b.canonical.toLowerCase()) &&
+      (!query ||
+        [b.canonical, ...(b.aliases ?? [])].some((name) => name.toLowerCase().includes(query))),
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Skill taxonomy</CardTitle>
+        <p className="text-muted-foreground text-sm">
+          Canonical skill names, aliases and parent skills (e.g. Next.js implies React) used for
+          skills overlap, skill suggestions and resume keywords. An override replaces the bundled
+          entry with the same canonical name; its aliases win over other entries.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSave} className="grid gap-2 md:grid-cols-[1fr_2fr_2fr_auto]">
+          <Input
+            placeholder="Canonical name"
+            value={canonical}
+            onChange={(e) => setCanonical(e.target.value)}
+            disabled={saving}
+          />
+          <Input
+            placeholder="Aliases, comma separated"
+            value={aliases}
+            onChange={(e) => setAliases(e.target.value)}
+            disabled={saving}
+          />
+          <Input
+            placeholder="Parent skills, comma separated"
+            value={parents}
+            onChange={(e) => setParents(e.target.value)}
+            disabled={saving}
+          />
+          <Button type="submit" disabled={saving || !canonical.trim()}>
+            {saving ? 'Saving...' : 'Save override'}
+          </Button>
+        </form>
+
+        <div className="overflow-x-auto">
+          <h3 className="mb-2 text-sm font-medium">Overrides ({overrides.length})</h3>
+          {loading ? (
+            <p className="text-muted-foreground text-sm">Loading...</p>
+          ) : overrides.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No overrides; bundled taxonomy only.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-2 pr-4">Skill</th>
+                  <th className="text-left py-2 px-2">Aliases</th>
+                  <th className="text-left py-2 px-2">Parents</th>
+                  <th className="text-left py-2 pl-4">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overrides.map((o) => (
+                  <tr key={o.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4 font-medium">{o.canonical}</td>
+                    <td className="py-2 px-2">{(o.aliases ?? []).join(', ') || '—'}</td>
+                    <td className="py-2 px-2">{(o.parents ?? []).join(', ') || '—'}</td>
+                    <td className="py-2 pl-4 flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => edit(o)}>
+                        Edit
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => handleDelete(o.id)}
+                        aria-label={`Delete override for ${o.canonical}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Bundled entries ({bundled.length})</h3>
+          <Input
+            placeholder="Filter bundled skills..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="max-w-sm"
+          />
+          <ul className="text-sm space-y-1">
+            {matchingBundled.slice(0, 50).map((b) => (
+              <li key={b.canonical} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  className="font-medium underline-offset-2 hover:underline"
+                  onClick={() => edit(b)}
+                >
+                  {b.canonical}
+                </button>
+                <span className="text-muted-foreground">
+                  {b.aliases?.length ? `aka ${b.aliases.join(', ')}` : ''}
+                  {b.parents?.length ? ` → ${b.parents.join(', ')}` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { DeepCompanyResearchPanel } from './DeepCompanyResearchPanel';
 import { ContactOutreachPanel } from './ContactOutreachPanel';
 import { ApplicationAnalysisQueuePanel } from './ApplicationAnalysisQueuePanel';
+import { SkillTaxonomyPanel } from './SkillTaxonomyPanel';
 
 export const dynamic = 'force-dynamic';
 
@@ -24,6 +25,7 @@ export default function AdminPage() {
               </TabsTrigger>
               <TabsTrigger value="deep-company-research">Deep company research</TabsTrigger>
               <TabsTrigger value="contact-outreach">Contact / Outreach agent</TabsTrigger>
+              <TabsTrigger value="skill-taxonomy">Skill taxonomy</TabsTrigger>
             </TabsList>
             <TabsContent value="application-analysis-queue" className="mt-6">
               <ApplicationAnalysisQueuePanel />
@@ -34,6 +36,9 @@ export default function AdminPage() {
             <TabsContent value="contact-outreach" className="mt-6">
               <ContactOutreachPanel />
             </TabsContent>
+            <TabsContent value="skill-taxonomy" className="mt-6">
+              <SkillTaxonomyPanel />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useToast } from '../components/ToastContext';
+
+interface SavedAnswer {
+  id: string;
+  questionKey: string;
+  question: string;
+  answer: string;
+  companyId: string | null;
+  companyName: string | null;
+  updatedAt: string;
+}
+
+export function AnswerBankList() {
+  const { addToast } = useToast();
+  const [answers, setAnswers] = useState<SavedAnswer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ id: string; answer: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = async () => {
+    try {
+      const res = await fetch('/api/answer-bank');
+      if (!res.ok) return;
+      const data = await res.json();
+      setAnswers(data.answers ?? []);
+    } catch {
+      // ignore
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const save = async () => {
+    if (!editing?.answer.trim()) return;
+    setSaving(true);
+    try {
+      const res = await fetch('/api/answer-bank', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editing),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        addToast(data.error ?? 'Failed to save answer', 'error');
+        return;
+      }
+      setEditing(null);
+      await refresh();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (id: string) => {
+    if (!window.confirm('Delete this answer from your answer bank?')) return;
+    const res = await fetch(`/api/answer-bank?id=${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      addToast(data.error ?? 'Failed to delete answer', 'error');
+      return;
+    }
+    await refresh();
+  };
+
+  if (loading) {
+    return <p style={{ color: 'var(--muted-foreground)' }}>Loading...</p>;
+  }
+  if (answers.length === 0) {
+    return (
+      <div className="card">
+        <p style={{ margin: 0, color: 'var(--muted-foreground)' }}>
+          No saved answers yet. Draft and approve answers from the application form preview of an
+          Application Assistant analysis.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      {answers.map((a) => (
+        <div key={a.id} className="card">
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'baseline',
+              justifyContent: 'space-between',
+              gap: '0.75rem',
+            }}
+          >
+            <strong>{a.question}</strong>
+            <span style={{ color: 'var(--muted-foreground)', fontSize: '0.8125rem' }}>
+              {a.companyName ? `Only for ${a.companyName}` : 'All companies'}
+            </span>
+          </div>
+          {editing?.id === a.id ? (
+            <div
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '0.5rem',
+                marginTop: '0.5rem',
+              }}
+            >
+              <textarea
+                className="input"
+                rows={4}
+                value={editing.answer}
+                onChange={(e) => setEditing({ ...editing, answer: e.target.value })}
+                disabled={saving}
+              />
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <button
+                  type="button"
+                  className="btn"
+                  disabled={saving || !editing.answer.trim()}
+                  onClick={save}
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  disabled={saving}
+                  onClick={() => setEditing(null)}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <p style={{ whiteSpace: 'pre-wrap', margin: '0.5rem 0' }}>{a.answer}</p>
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={() => setEditing({ id: a.id, answer: a.answer })}
+                >
+                  Edit
+                </button>
+                <button type="button" className="btn btn-secondary" onClick={() => remove(a.id)}>
+                  Delete
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
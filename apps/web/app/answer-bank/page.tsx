@@ -0,0 +1,34 @@
+import Link from 'next/link';
+import { getSessionUser } from '@/lib/auth';
+import { AnswerBankList } from './AnswerBankList';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AnswerBankPage() {
+  const user = await getSessionUser();
+  if (!user) {
+    return (
+      <div className="page-head">
+        <h1>Answer bank</h1>
+        <p>Sign in to see your saved application answers.</p>
+        <Link href="/signin" className="btn btn-primary" style={{ marginTop: '1rem' }}>
+          Sign in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="page-head">
+        <h1>Answer bank</h1>
+        <p>
+          Answers you approved for application questions (why this company, sponsorship, notice
+          period, ...). They pre-fill matching questions on new application forms; a
+          company-specific answer wins over the general one at that company.
+        </p>
+      </div>
+      <AnswerBankList />
+    </>
+  );
+}
@@ -3,11 +3,7 @@ import { getSessionUser } from '@/lib/auth';
 import { getDb } from '@careersignal/db';
 import { applicationAnalysisQueue as table } from '@careersignal/db/schema';
 import { or, eq } from 'drizzle-orm';
-import {
-  requestPriorityQueueStop,
-  getQueueWorkerRunningUserId,
-  requestQueueStopForUser,
-} from '@/lib/application-analysis-queue-worker';
+import { requestAllQueueStops } from '@/lib/application-analysis-queue-worker';
 
 /** POST: clear all pending queue items for priority users and hard stop priority worker. Admin only. */
 export async function POST() {
@@ -20,11 +16,7 @@ export async function POST() {
   }
 
   // Request stop for any running worker (priority or single-user).
-  requestPriorityQueueStop();
-  const runningUserId = getQueueWorkerRunningUserId();
-  if (runningUserId) {
-    requestQueueStopForUser(runningUserId);
-  }
+  requestAllQueueStops();
 
   const db = getDb();
 
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { getDb, requeueDeadQueueRows } from '@careersignal/db';
+
+/** POST: move the user's dead-lettered queue rows back to pending with fresh attempts. Admin only. */
+export async function POST(req: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!user.admin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const userId = body?.userId;
+  if (!userId || typeof userId !== 'string') {
+    return NextResponse.json({ error: 'userId required' }, { status: 400 });
+  }
+
+  const requeued = await requeueDeadQueueRows(getDb(), userId);
+  return NextResponse.json({ ok: true, requeued });
+}
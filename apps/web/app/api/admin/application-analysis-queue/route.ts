@@ -26,6 +26,7 @@ export async function GET() {
         running: q.running,
         completed: q.completed,
         failed: q.failed,
+        dead: q.dead,
         total: q.total,
       };
     }),
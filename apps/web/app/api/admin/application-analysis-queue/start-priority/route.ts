@@ -2,7 +2,7 @@ import { NextResponse } from 'next/server';
 import { getSessionUser } from '@/lib/auth';
 import {
   runPriorityQueueWorker,
-  getQueueWorkerRunningUserId,
+  isPriorityQueueWorkerRunning,
 } from '@/lib/application-analysis-queue-worker';
 
 /** POST: start processing the queue for all priority users in cyclic order. Admin only. */
@@ -15,9 +15,11 @@ export async function POST() {
     return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
   }
 
-  const runningFor = getQueueWorkerRunningUserId();
-  if (runningFor != null) {
-    return NextResponse.json({ error: 'Queue worker is already running' }, { status: 409 });
+  if (isPriorityQueueWorkerRunning()) {
+    return NextResponse.json(
+      { error: 'Priority queue worker is already running' },
+      { status: 409 },
+    );
   }
 
   runPriorityQueueWorker();
@@ -2,7 +2,7 @@ import { NextResponse } from 'next/server';
 import { getSessionUser } from '@/lib/auth';
 import {
   runQueueWorker,
-  getQueueWorkerRunningUserId,
+  isQueueWorkerRunningForUser,
 } from '@/lib/application-analysis-queue-worker';
 
 /** POST: start (or resume) processing the queue for the given user. Admin only. */
@@ -21,14 +21,7 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: 'userId required' }, { status: 400 });
   }
 
-  const runningFor = getQueueWorkerRunningUserId();
-  if (runningFor != null && runningFor !== userId) {
-    return NextResponse.json(
-      { error: 'Queue worker is already running for another user' },
-      { status: 409 },
-    );
-  }
-  if (runningFor === userId) {
+  if (isQueueWorkerRunningForUser(userId)) {
     return NextResponse.json({ ok: true, message: 'Already running for this user' });
   }
 
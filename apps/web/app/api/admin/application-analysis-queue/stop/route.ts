@@ -1,15 +1,8 @@
 import { NextResponse } from 'next/server';
 import { getSessionUser } from '@/lib/auth';
 import { requestQueueStopForUser } from '@/lib/application-analysis-queue-worker';
-import { getDb, getRunningAnalysisForUser } from '@careersignal/db';
-import {
-  getAssistantAbortController,
-  clearAssistantAbortController,
-  clearAssistantRunning,
-} from '@/lib/application-assistant-state';
-import { cancelLoginWait } from '@/lib/login-wall-state';
-import { cancelCaptchaSolve } from '@/lib/captcha-state';
-import { transitionAssistantStep } from '@/lib/application-assistant-planner';
+import { getDb, listRunningAnalysesForUser } from '@careersignal/db';
+import { stopAssistantRun } from '@/lib/application-assistant-stop';
 
 /** POST: hard stop the queue worker for the given user. Admin only. */
 export async function POST(req: Request) {
@@ -29,20 +22,10 @@ export async function POST(req: Request) {
 
   requestQueueStopForUser(userId);
 
-  // Also abort any running pipeline for this user so it stops immediately
+  // Also abort the user's running pipelines so they stop immediately
   const db = getDb();
-  const row = await getRunningAnalysisForUser(db, userId);
-  if (row) {
-    const analysisId = row.id;
-    const controller = getAssistantAbortController(analysisId);
-    if (controller) {
-      controller.abort();
-      clearAssistantAbortController(analysisId);
-    }
-    cancelLoginWait(new Error('Stopped by user'));
-    cancelCaptchaSolve(new Error('Stopped by user'));
-    await transitionAssistantStep(db, analysisId, 'error', { runStatusOverride: 'error' });
-    clearAssistantRunning();
+  for (const row of await listRunningAnalysesForUser(db, userId)) {
+    await stopAssistantRun(db, row.id);
   }
 
   return NextResponse.json({ ok: true });
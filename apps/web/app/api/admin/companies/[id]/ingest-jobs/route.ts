@@ -0,0 +1,42 @@
+/**
+ * Admin-only: pull a company's public ATS job board into job_listings.
+ * POST /api/admin/companies/:id/ingest-jobs
+ * Optional body: { careersUrl?: string, maxJobs?: number } (careersUrl overrides the stored one).
+ * Response: AtsIngestResult (atsType, jobsFetched, jobsCreated, jobsUpdated, evidencePath, errors).
+ */
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { ingestCompanyAtsJobs } from '@/lib/ats-job-ingest';
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!user.admin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const body = (await req.json().catch(() => ({}))) as {
+    careersUrl?: unknown;
+    maxJobs?: unknown;
+  };
+  const careersUrl = typeof body.careersUrl === 'string' ? body.careersUrl : undefined;
+  const maxJobs =
+    typeof body.maxJobs === 'number' && body.maxJobs > 0 ? Math.floor(body.maxJobs) : undefined;
+
+  try {
+    const result = await ingestCompanyAtsJobs(id, {
+      careersUrl,
+      budget: maxJobs ? { max_jobs: maxJobs } : null,
+    });
+    if (result.errors.includes('Company not found')) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Job ingestion failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -13,6 +13,7 @@ import { deepResearchCompany } from '@careersignal/agents';
 import { complete } from '@careersignal/llm';
 import { getDossierRunFolderName, createDossierDiskWriter } from '@/lib/dossier-disk';
 import { runCompanyPageRag } from '@/lib/application-assistant-rag';
+import { describePolicyViolation, withRunPolicy } from '@/lib/run-policy';
 
 export const maxDuration = 1200; // 20 min for dossier pipeline
 
@@ -175,22 +176,32 @@ export async function POST(req: Request) {
       const runFolderName = getDossierRunFolderName(companyName);
       const dossierWriter = createDossierDiskWriter();
 
-      const deepResult = await deepResearchCompany({
-        companyName,
-        seedUrl: undefined,
-        jobDescriptionText: undefined,
-        log: ({ level, message }) =>
+      const deepResult = await withRunPolicy(
+        'deep_company_research',
+        () =>
+          deepResearchCompany({
+            companyName,
+            seedUrl: undefined,
+            jobDescriptionText: undefined,
+            log: ({ level, message }) =>
+              log({
+                ts: new Date().toISOString(),
+                level,
+                message,
+              }),
+            hardTimeoutMs: 20 * 60 * 1000, // 20 min max for full pipeline
+            browserPage: page,
+            runFolderName,
+            dossierWriter,
+            runCompanyPageRag,
+          }),
+        (violation) =>
           log({
             ts: new Date().toISOString(),
-            level,
-            message,
+            level: 'warn',
+            message: `[Policy] ${describePolicyViolation(violation)}`,
           }),
-        hardTimeoutMs: 20 * 60 * 1000, // 20 min max for full pipeline
-        browserPage: page,
-        runFolderName,
-        dossierWriter,
-        runCompanyPageRag,
-      });
+      );
 
       await writeLogLineAndPersist(
         writer,
@@ -0,0 +1,64 @@
+/**
+ * Admin-only: job listing freshness monitor.
+ * GET  /api/admin/job-freshness — monitor status and the last sweep's counts.
+ * POST /api/admin/job-freshness — body { action: 'start' | 'stop' | 'run', intervalMinutes? }.
+ *   start = sweep now and then on a schedule; stop = cancel the schedule; run = one sweep now.
+ *   The schedule is in memory only and does not survive a server restart.
+ */
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import {
+  getFreshnessMonitorStatus,
+  startFreshnessMonitor,
+  stopFreshnessMonitor,
+  triggerFreshnessSweep,
+} from '@/lib/job-freshness';
+
+async function requireAdmin(): Promise<NextResponse | null> {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!user.admin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function GET() {
+  const denied = await requireAdmin();
+  if (denied) return denied;
+  return NextResponse.json(getFreshnessMonitorStatus());
+}
+
+export async function POST(req: Request) {
+  const denied = await requireAdmin();
+  if (denied) return denied;
+
+  const body = (await req.json().catch(() => ({}))) as {
+    action?: unknown;
+    intervalMinutes?: unknown;
+  };
+  const intervalMinutes =
+    typeof body.intervalMinutes === 'number' && body.intervalMinutes > 0
+      ? body.intervalMinutes
+      : undefined;
+
+  switch (body.action) {
+    case 'start':
+      startFreshnessMonitor(intervalMinutes);
+      break;
+    case 'stop':
+      stopFreshnessMonitor();
+      break;
+    case 'run':
+      triggerFreshnessSweep();
+      break;
+    default:
+      return NextResponse.json(
+        { error: "action must be 'start', 'stop' or 'run'" },
+        { status: 400 },
+      );
+  }
+  return NextResponse.json({ ok: true, ...getFreshnessMonitorStatus() });
+}
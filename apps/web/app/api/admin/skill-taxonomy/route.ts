@@ -0,0 +1,89 @@
+/**
+ * Admin-only: skill taxonomy overrides merged over the bundled taxonomy.
+ * GET    /api/admin/skill-taxonomy — overrides plus the bundled entries they can replace.
+ * PUT    /api/admin/skill-taxonomy — body { canonical, aliases?, parents? }; create or replace.
+ * DELETE /api/admin/skill-taxonomy?id= — remove an override (bundled entry applies again).
+ */
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { BUNDLED_SKILL_TAXONOMY } from '@careersignal/agents';
+import {
+  deleteSkillTaxonomyOverride,
+  getDb,
+  listSkillTaxonomyOverrides,
+  upsertSkillTaxonomyOverride,
+} from '@careersignal/db';
+
+/** The admin user, or the 401/403 response to return. */
+async function requireAdmin() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!user.admin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  return user;
+}
+
+function toNameList(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) return null;
+  return [...new Set((value as string[]).map((v) => v.trim()).filter(Boolean))];
+}
+
+export async function GET() {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+  const overrides = await listSkillTaxonomyOverrides(getDb());
+  return NextResponse.json({ overrides, bundled: BUNDLED_SKILL_TAXONOMY });
+}
+
+export async function PUT(req: Request) {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+
+  const body = (await req.json().catch(() => ({}))) as {
+    canonical?: unknown;
+    aliases?: unknown;
+    parents?: unknown;
+  };
+  const canonical = typeof body.canonical === 'string' ? body.canonical.trim() : '';
+  if (!canonical || canonical.length > 128) {
+    return NextResponse.json({ error: 'canonical required (max 128 chars)' }, { status: 400 });
+  }
+  const aliases = toNameList(body.aliases);
+  const parents = toNameList(body.parents);
+  if (!aliases || !parents) {
+    return NextResponse.json(
+      { error: 'aliases and parents must be arrays of strings' },
+      { status: 400 },
+    );
+  }
+  if (parents.some((p) => p.toLowerCase() === canonical.toLowerCase())) {
+    return NextResponse.json({ error: 'A skill cannot be its own parent' }, { status: 400 });
+  }
+
+  const override = await upsertSkillTaxonomyOverride(getDb(), {
+    canonical,
+    aliases: aliases.filter((a) => a.toLowerCase() !== canonical.toLowerCase()),
+    parents,
+    updatedBy: admin.id,
+  });
+  return NextResponse.json({ ok: true, override });
+}
+
+export async function DELETE(req: Request) {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'id required' }, { status: 400 });
+  }
+  const deleted = await deleteSkillTaxonomyOverride(getDb(), id);
+  if (!deleted) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,81 @@
+/**
+ * GET /api/answer-bank — the user's saved application answers (with company names for
+ * per-company overrides).
+ * PATCH /api/answer-bank  body { id, answer } — edit an answer.
+ * DELETE /api/answer-bank?id= — remove an answer.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequiredUserId } from '@/lib/auth';
+import {
+  deleteApplicationAnswer,
+  getCompanyById,
+  getDb,
+  listApplicationAnswers,
+  updateApplicationAnswer,
+} from '@careersignal/db';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const userId = await getRequiredUserId();
+    const db = getDb();
+    const rows = await listApplicationAnswers(db, userId);
+    const companyIds = [...new Set(rows.flatMap((r) => (r.companyId ? [r.companyId] : [])))];
+    const companies = await Promise.all(companyIds.map((id) => getCompanyById(db, id)));
+    const companyNames = new Map(companies.flatMap((c) => (c ? [[c.id, c.name]] : [])));
+    return NextResponse.json({
+      answers: rows.map((r) => ({
+        ...r,
+        companyName: r.companyId ? (companyNames.get(r.companyId) ?? null) : null,
+      })),
+    });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed to load answers' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const userId = await getRequiredUserId();
+    const body = await req.json().catch(() => ({}));
+    const answer = typeof body?.answer === 'string' ? body.answer.trim() : '';
+    if (typeof body?.id !== 'string' || !answer) {
+      return NextResponse.json({ error: 'id and answer are required' }, { status: 400 });
+    }
+    const row = await updateApplicationAnswer(getDb(), body.id, userId, { answer });
+    if (!row) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, answer: row });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed to update answer' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const userId = await getRequiredUserId();
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+    const deleted = await deleteApplicationAnswer(getDb(), id, userId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed to delete answer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * POST /api/application-assistant/analyses/[id]/form-answers  body { fieldName }
+ * Drafts an answer to one question on the analysis's application form (not saved).
+ *
+ * PUT /api/application-assistant/analyses/[id]/form-answers
+ * body { fieldName, answer, companyOnly? }
+ * Saves the approved answer to the answer bank — for every company, or only this job's company —
+ * and onto the analysis's answer sheet. Company-specific questions (why_company, ...) are always
+ * saved for this job's company only.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequiredUserId } from '@/lib/auth';
+import { getDb, getAnalysisById } from '@careersignal/db';
+import { jobSummaryToJobDetail } from '@/lib/job-summary';
+import {
+  answerSheetField,
+  companyIdForAnalysis,
+  draftFormAnswer,
+  isCompanySpecificField,
+  isSensitiveField,
+  questionKeyForField,
+  saveApprovedAnswer,
+} from '@/lib/answer-bank';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getRequiredUserId();
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const fieldName = typeof body?.fieldName === 'string' ? body.fieldName : '';
+
+    const db = getDb();
+    const analysis = await getAnalysisById(db, id);
+    if (!analysis || analysis.userId !== userId) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    const field = answerSheetField(analysis, fieldName);
+    if (!field) {
+      return NextResponse.json({ error: 'Form field not found' }, { status: 404 });
+    }
+    if (isSensitiveField(field)) {
+      return NextResponse.json(
+        { error: 'Self-identification questions are not drafted; answer them yourself.' },
+        { status: 400 },
+      );
+    }
+    const job = jobSummaryToJobDetail(analysis.jobSummary);
+    if (!job) {
+      return NextResponse.json({ error: 'Analysis has no job details' }, { status: 400 });
+    }
+
+    const draft = await draftFormAnswer(db, userId, analysis, field, job);
+    if (!draft) {
+      return NextResponse.json({ error: 'Could not draft an answer. Try again.' }, { status: 502 });
+    }
+    return NextResponse.json({
+      ok: true,
+      questionKey: questionKeyForField(field),
+      question: field.label,
+      companySpecific: isCompanySpecificField(field),
+      draft,
+    });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('[form-answers]', e);
+    return NextResponse.json({ error: 'Failed to draft answer' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getRequiredUserId();
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const fieldName = typeof body?.fieldName === 'string' ? body.fieldName : '';
+    const answer = typeof body?.answer === 'string' ? body.answer.trim() : '';
+    if (!answer) {
+      return NextResponse.json({ error: 'answer is required' }, { status: 400 });
+    }
+
+    const db = getDb();
+    const analysis = await getAnalysisById(db, id);
+    if (!analysis || analysis.userId !== userId) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    const field = answerSheetField(analysis, fieldName);
+    if (!field) {
+      return NextResponse.json({ error: 'Form field not found' }, { status: 404 });
+    }
+    const companyOnly = !!body?.companyOnly || isCompanySpecificField(field);
+    const companyId = companyOnly ? await companyIdForAnalysis(db, analysis, true) : null;
+    if (companyOnly && !companyId) {
+      return NextResponse.json(
+        { error: 'The job has no company to save the answer for' },
+        { status: 400 },
+      );
+    }
+
+    const applicationBlueprint = await saveApprovedAnswer(db, userId, analysis, field, {
+      answer,
+      companyId,
+    });
+    return NextResponse.json({ ok: true, applicationBlueprint });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('[form-answers]', e);
+    return NextResponse.json({ error: 'Failed to save answer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * POST /api/application-assistant/analyses/[id]/guided-apply
+ * Opens the analysis's application form in a visible browser and fills it from the answer
+ * sheet, then stops: the user reviews and submits the form themselves. Returns the field log.
+ *
+ * DELETE /api/application-assistant/analyses/[id]/guided-apply
+ * The user is done with the form; closes the browser.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { getDb, getAnalysisById } from '@careersignal/db';
+import { startGuidedApply } from '@/lib/guided-apply';
+import {
+  beginOpeningApplyForm,
+  endApplyHandoff,
+  finishOpeningApplyForm,
+} from '@/lib/guided-apply-state';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const { id } = await params;
+    const db = getDb();
+    const analysis = await getAnalysisById(db, id);
+    if (!analysis || analysis.userId !== user.id) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    const sheet = analysis.applicationBlueprint as { answers?: unknown[] } | null;
+    if (!sheet?.answers?.length) {
+      return NextResponse.json(
+        { error: 'No application form was read for this job.' },
+        { status: 400 },
+      );
+    }
+    if (!beginOpeningApplyForm(id)) {
+      return NextResponse.json(
+        { error: 'The form is already open in the browser.' },
+        { status: 409 },
+      );
+    }
+
+    try {
+      const fields = await startGuidedApply(db, analysis, user.email);
+      return NextResponse.json({ ok: true, fields });
+    } finally {
+      finishOpeningApplyForm(id);
+    }
+  } catch (e) {
+    console.error('[guided-apply]', e);
+    return NextResponse.json({ error: 'Failed to open the application form' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const { id } = await params;
+    const analysis = await getAnalysisById(getDb(), id);
+    if (!analysis || analysis.userId !== user.id) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, closed: endApplyHandoff(id) });
+  } catch {
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * POST /api/application-assistant/analyses/[id]/rerun  body { step }
+ * Re-runs one step (match, resume, interviewPrep, companyResearch, outreach) against the stored
+ * jobSummary and the current profile/preferences; the previous output goes to step history.
+ *
+ * GET /api/application-assistant/analyses/[id]/rerun?step=match
+ * Archived outputs (newest first) alongside the current one, for comparison.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequiredUserId } from '@/lib/auth';
+import { getDb, getAnalysisById, getProfileByUserId, listStepHistory } from '@careersignal/db';
+import { jobSummaryToJobDetail } from '@/lib/job-summary';
+import {
+  getAssistantConcurrencyLimit,
+  getAssistantRun,
+  hasAssistantCapacity,
+} from '@/lib/application-assistant-state';
+import {
+  PROFILE_RERUN_STEPS,
+  RERUN_STEPS,
+  isRerunStep,
+  rerunAnalysisStep,
+  stepOutputSnapshot,
+} from '@/lib/application-assistant-rerun';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 1200; // company research / outreach re-runs drive a browser
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getRequiredUserId();
+    const { id } = await params;
+    const step = new URL(req.url).searchParams.get('step') ?? undefined;
+    if (step !== undefined && !isRerunStep(step)) {
+      return NextResponse.json(
+        { error: `step must be one of: ${RERUN_STEPS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const db = getDb();
+    const analysis = await getAnalysisById(db, id);
+    if (!analysis || analysis.userId !== userId) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    const history = await listStepHistory(db, id, userId, step);
+    return NextResponse.json({
+      current: step ? stepOutputSnapshot(analysis, step) : null,
+      history,
+    });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getRequiredUserId();
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const step = body?.step;
+    if (!isRerunStep(step)) {
+      return NextResponse.json(
+        { error: `step must be one of: ${RERUN_STEPS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const db = getDb();
+    const analysis = await getAnalysisById(db, id);
+    if (!analysis || analysis.userId !== userId) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    if (analysis.runStatus === 'running') {
+      return NextResponse.json(
+        { error: 'Analysis is still running; wait for it to finish.' },
+        { status: 409 },
+      );
+    }
+    const jobDetail = jobSummaryToJobDetail(analysis.jobSummary);
+    if (!jobDetail) {
+      return NextResponse.json(
+        { error: 'Analysis has no job details; re-run the full analysis instead.' },
+        { status: 400 },
+      );
+    }
+    if (PROFILE_RERUN_STEPS.includes(step) && !(await getProfileByUserId(db, userId))?.name) {
+      return NextResponse.json(
+        { error: 'No profile found. Add a profile to re-run this step.' },
+        { status: 400 },
+      );
+    }
+
+    // Checked right before the call, which registers the re-run before its first await
+    if (getAssistantRun(id)) {
+      return NextResponse.json(
+        { error: 'This analysis is already running a step; wait for it to finish.' },
+        { status: 409 },
+      );
+    }
+    if (!hasAssistantCapacity()) {
+      return NextResponse.json(
+        {
+          error: `${getAssistantConcurrencyLimit()} analyses are already running. Try again shortly.`,
+        },
+        { status: 429 },
+      );
+    }
+    const result = await rerunAnalysisStep(db, analysis, jobDetail, step);
+    const updated = await getAnalysisById(db, id);
+    return NextResponse.json({
+      ok: true,
+      step,
+      summary: result.summary,
+      archived: result.archived,
+      current: updated ? stepOutputSnapshot(updated, step) : null,
+    });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('[analyses/rerun]', e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : 'Failed to re-run step' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { getRequiredUserId } from '@/lib/auth';
+import { getScraperStatus } from '@/lib/scraper-state';
+import {
+  getDb,
+  getAnalysisById,
+  markStaleRunsAsError,
+  updateAnalysisRunState,
+} from '@careersignal/db';
+import {
+  getAssistantConcurrencyLimit,
+  hasAssistantCapacity,
+  setAssistantAbortController,
+} from '@/lib/application-assistant-state';
+import { runApplicationAssistantPipeline } from '@/lib/application-assistant-runner';
+
+function atCapacity() {
+  return NextResponse.json(
+    {
+      ok: false,
+      message: `${getAssistantConcurrencyLimit()} analyses are already running. Try again shortly.`,
+    },
+    { status: 429 },
+  );
+}
+
+/**
+ * Resume a failed or interrupted analysis from its last checkpointed step (extract, match,
+ * resume, coverLetters, outreach). Runs with no checkpoints start over in the same analysis.
+ */
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getRequiredUserId();
+    const { id } = await params;
+    const db = getDb();
+    // A run interrupted by a restart still reads 'running' until it is marked stale.
+    await markStaleRunsAsError(db, userId);
+    const analysis = await getAnalysisById(db, id);
+    if (!analysis || analysis.userId !== userId) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    if (analysis.runStatus === 'running') {
+      return NextResponse.json({ ok: false, message: 'Already running' }, { status: 409 });
+    }
+    if (analysis.runStatus === 'done') {
+      return NextResponse.json(
+        { ok: false, message: 'Analysis already finished' },
+        { status: 409 },
+      );
+    }
+    if (getScraperStatus().running) {
+      return NextResponse.json(
+        { ok: false, message: 'Admin scraper is running. Stop it first.' },
+        { status: 409 },
+      );
+    }
+    if (!hasAssistantCapacity()) {
+      return atCapacity();
+    }
+
+    await updateAnalysisRunState(db, id, { runStatus: 'running' });
+    // Another start may have taken the last slot while we were awaiting the DB.
+    if (!hasAssistantCapacity()) {
+      await updateAnalysisRunState(db, id, { runStatus: 'error' });
+      return atCapacity();
+    }
+    const controller = new AbortController();
+    setAssistantAbortController(id, controller);
+    runApplicationAssistantPipeline(userId, analysis.url, id, controller.signal, {
+      resume: true,
+    }).catch(() => {});
+
+    return NextResponse.json({
+      ok: true,
+      running: true,
+      analysisId: id,
+      currentStep: analysis.currentStep ?? 'scraping',
+      waitingForLogin: false,
+      waitingForCaptcha: false,
+    });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { getRequiredUserId } from '@/lib/auth';
+import {
+  getDb,
+  getAnalysisById,
+  listApplicationStatusEvents,
+  recordApplicationStatus,
+  APPLICATION_STATUSES,
+  type ApplicationStatus,
+} from '@careersignal/db';
+
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const d = new Date(String(value));
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
+
+/** Current application status, next action and the dated status history. */
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getRequiredUserId();
+    const { id } = await params;
+    const db = getDb();
+    const analysis = await getAnalysisById(db, id);
+    if (!analysis || analysis.userId !== userId) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    const events = await listApplicationStatusEvents(db, id, userId);
+    return NextResponse.json({
+      status: analysis.applicationStatus,
+      statusAt: analysis.applicationStatusAt,
+      nextAction: analysis.nextAction,
+      nextActionAt: analysis.nextActionAt,
+      events,
+    });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  }
+}
+
+/**
+ * Move to a status and/or add a note; set or clear the next action.
+ * Body: { status?, note?, occurredAt?, nextAction?, nextActionAt? } (dates as ISO strings).
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getRequiredUserId();
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+
+    const status = body?.status as ApplicationStatus | undefined;
+    if (status !== undefined && !APPLICATION_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${APPLICATION_STATUSES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const occurredAt = parseDate(body?.occurredAt);
+    const nextActionAt = parseDate(body?.nextActionAt);
+    if (
+      (body?.occurredAt && !occurredAt) ||
+      (body?.nextActionAt !== undefined && nextActionAt === undefined)
+    ) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+    }
+
+    const db = getDb();
+    const result = await recordApplicationStatus(db, {
+      analysisId: id,
+      userId,
+      status,
+      note: typeof body?.note === 'string' ? body.note : null,
+      occurredAt: occurredAt ?? undefined,
+      nextAction:
+        body?.nextAction === undefined
+          ? undefined
+          : typeof body.nextAction === 'string'
+            ? body.nextAction
+            : null,
+      nextActionAt,
+    });
+    if (!result) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('[application-assistant/status]', e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : 'Failed to update status' },
+      { status: 500 },
+    );
+  }
+}
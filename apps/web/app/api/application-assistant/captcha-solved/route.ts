@@ -1,17 +1,21 @@
 import { NextResponse } from 'next/server';
 import { getRequiredUserId } from '@/lib/auth';
 import { signalCaptchaSolved, isWaitingForCaptchaSolve } from '@/lib/captcha-state';
+import { resolveWaitingRun } from '@/lib/application-assistant-state';
 
-export async function POST() {
+/** Body `{ analysisId? }`: resume that run, or the user's run that is waiting on a captcha. */
+export async function POST(req: Request) {
   try {
-    await getRequiredUserId();
-    if (!isWaitingForCaptchaSolve()) {
+    const userId = await getRequiredUserId();
+    const body = await req.json().catch(() => ({}));
+    const analysisId = resolveWaitingRun(userId, body?.analysisId, isWaitingForCaptchaSolve);
+    if (!analysisId) {
       return NextResponse.json(
         { ok: false, error: 'No captcha solve in progress' },
         { status: 400 },
       );
     }
-    const html = await signalCaptchaSolved();
+    const html = await signalCaptchaSolved(analysisId);
     return NextResponse.json({ ok: true, htmlLength: html.length });
   } catch (e) {
     if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
@@ -1,14 +1,18 @@
 import { NextResponse } from 'next/server';
 import { getRequiredUserId } from '@/lib/auth';
 import { signalLoggedIn, isWaitingForLoginSolve } from '@/lib/login-wall-state';
+import { resolveWaitingRun } from '@/lib/application-assistant-state';
 
-export async function POST() {
+/** Body `{ analysisId? }`: resume that run, or the user's run that is waiting on login. */
+export async function POST(req: Request) {
   try {
-    await getRequiredUserId();
-    if (!isWaitingForLoginSolve()) {
+    const userId = await getRequiredUserId();
+    const body = await req.json().catch(() => ({}));
+    const analysisId = resolveWaitingRun(userId, body?.analysisId, isWaitingForLoginSolve);
+    if (!analysisId) {
       return NextResponse.json({ ok: false, error: 'No login solve in progress' }, { status: 400 });
     }
-    const html = await signalLoggedIn();
+    const html = await signalLoggedIn(analysisId);
     return NextResponse.json({ ok: true, htmlLength: html.length });
   } catch (e) {
     if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
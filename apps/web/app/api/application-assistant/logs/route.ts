@@ -6,6 +6,7 @@ import {
   getAnalysisById,
   getAnalysisLogs,
 } from '@careersignal/db';
+import { getAssistantLogs } from '@/lib/application-assistant-state';
 
 export async function GET(req: Request) {
   try {
@@ -30,6 +31,11 @@ export async function GET(req: Request) {
       analysisId = running.id;
     }
 
+    // Live runs poll from the in-memory buffer; fall back to the DB when it can't answer.
+    const buffered = afterId ? getAssistantLogs(analysisId, afterId) : null;
+    if (buffered) {
+      return NextResponse.json({ logs: buffered });
+    }
     const rows = await getAnalysisLogs(db, analysisId, afterId);
     const logs = rows.map((r) => ({
       id: r.id,
@@ -1,9 +1,11 @@
 /**
  * POST /api/application-assistant/outreach-draft
  * Create a single outreach draft for one ranked contact (on-demand).
- * Body: { analysisId: string, contactIndex: number, userInstruction?: string }
+ * Body: { analysisId: string, contactIndex: number, userInstruction?: string, force?: boolean }
  * Returns: { draft: { platform, variant, body, subject?, tone, ... } }
  * Persists the draft to analysis.contacts.drafts and returns it.
+ * 409 { recentlyContacted: true, error } when the user contacted this person within
+ * RECENT_CONTACT_DAYS (any job); resend with force: true to draft anyway.
  */
 
 import { NextResponse } from 'next/server';
@@ -18,6 +20,11 @@ import {
 import { extractHooks, generateSingleDraftForContact } from '@careersignal/agents';
 import type { OutreachTone } from '@careersignal/agents';
 import { toNormalizedJob, rankedItemToContact } from '@/lib/outreach-draft-helpers';
+import {
+  describeRecentInteraction,
+  findRecentInteraction,
+  resolveAnalysisContact,
+} from '@/lib/contact-crm';
 
 function mapOutreachTone(pref: string | null | undefined): OutreachTone {
   if (pref === 'WARM' || pref === 'TECHNICAL') return pref;
@@ -32,6 +39,7 @@ export async function POST(req: Request) {
     const contactIndex = typeof body?.contactIndex === 'number' ? body.contactIndex : 0;
     const userInstruction =
       typeof body?.userInstruction === 'string' ? body.userInstruction.trim() : '';
+    const force = body?.force === true;
 
     if (!analysisId) {
       return NextResponse.json({ error: 'analysisId is required' }, { status: 400 });
@@ -56,6 +64,25 @@ export async function POST(req: Request) {
       );
     }
 
+    if (!force) {
+      const saved = await resolveAnalysisContact(db, analysis, contactIndex);
+      const recent = saved ? await findRecentInteraction(db, userId, saved.id) : null;
+      if (saved && recent) {
+        return NextResponse.json(
+          {
+            error: describeRecentInteraction(saved.name, recent),
+            recentlyContacted: true,
+            lastInteraction: {
+              occurredAt: recent.occurredAt,
+              channel: recent.channel,
+              outcome: recent.outcome,
+            },
+          },
+          { status: 409 },
+        );
+      }
+    }
+
     const jobSummary = (analysis.jobSummary as Record<string, unknown>) ?? {};
     const companyName = String(jobSummary.company ?? '');
     const url = typeof analysis.url === 'string' ? analysis.url : '';
@@ -1,13 +1,20 @@
 import { NextResponse } from 'next/server';
 import { getRequiredUserId } from '@/lib/auth';
-import { getDb, getQueueCountsByUser, getQueueProgressForUser } from '@careersignal/db';
+import {
+  getDb,
+  getQueueCountsByUser,
+  getQueueProgressForUser,
+  hasActiveQueueLeaseForUser,
+} from '@careersignal/db';
 import { isQueueWorkerRunningForUser } from '@/lib/application-analysis-queue-worker';
 
 export async function GET() {
   try {
     const userId = await getRequiredUserId();
     const db = getDb();
-    const running = isQueueWorkerRunningForUser(userId);
+    // Leases also cover workers in another process (or a pool started before a restart).
+    const running =
+      isQueueWorkerRunningForUser(userId) || (await hasActiveQueueLeaseForUser(db, userId));
     const counts = await getQueueCountsByUser(db, userId);
     const progress = await getQueueProgressForUser(db, userId);
     return NextResponse.json({
@@ -17,6 +24,7 @@ export async function GET() {
       pending: counts.pending,
       completed: counts.completed,
       failed: counts.failed,
+      dead: counts.dead,
     });
   } catch (e) {
     if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
@@ -1,15 +1,8 @@
 import { NextResponse } from 'next/server';
 import { getRequiredUserId } from '@/lib/auth';
 import { requestQueueStopForUser } from '@/lib/application-analysis-queue-worker';
-import { getDb, getRunningAnalysisForUser } from '@careersignal/db';
-import {
-  getAssistantAbortController,
-  clearAssistantAbortController,
-  clearAssistantRunning,
-} from '@/lib/application-assistant-state';
-import { cancelLoginWait } from '@/lib/login-wall-state';
-import { cancelCaptchaSolve } from '@/lib/captcha-state';
-import { transitionAssistantStep } from '@/lib/application-assistant-planner';
+import { getDb, listRunningAnalysesForUser } from '@careersignal/db';
+import { stopAssistantRun } from '@/lib/application-assistant-stop';
 
 /** User hard-stop: request the queue worker to exit after the current URL. */
 export async function POST() {
@@ -17,20 +10,10 @@ export async function POST() {
     const userId = await getRequiredUserId();
     requestQueueStopForUser(userId);
     
-    // Also abort any running pipeline for this user so it stops immediately
+    // Also abort the user's running pipelines so they stop immediately
     const db = getDb();
-    const row = await getRunningAnalysisForUser(db, userId);
-    if (row) {
-      const analysisId = row.id;
-      const controller = getAssistantAbortController(analysisId);
-      if (controller) {
-        controller.abort();
-        clearAssistantAbortController(analysisId);
-      }
-      cancelLoginWait(new Error('Stopped by user'));
-      cancelCaptchaSolve(new Error('Stopped by user'));
-      await transitionAssistantStep(db, analysisId, 'error', { runStatusOverride: 'error' });
-      clearAssistantRunning();
+    for (const row of await listRunningAnalysesForUser(db, userId)) {
+      await stopAssistantRun(db, row.id);
     }
 
     return NextResponse.json({ ok: true });
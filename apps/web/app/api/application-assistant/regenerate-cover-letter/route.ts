@@ -2,6 +2,7 @@
  * POST /api/application-assistant/regenerate-cover-letter
  * Regenerates only the cover letter for an existing analysis using stored job/profile/company
  * and optional user instruction. Writes to analysis.coverLetters (single "draft" key).
+ * Uses the resume version the analysis ran against (profile resume if none or since deleted).
  */
 
 import { NextResponse } from 'next/server';
@@ -11,34 +12,16 @@ import {
   getAnalysisById,
   getProfileByUserId,
   getPreferencesByUserId,
+  getResumeById,
   updateAnalysis,
 } from '@careersignal/db';
-import { generateSingleCoverLetter } from '@careersignal/agents';
-import type { JobDetail, ProfileSnapshot } from '@careersignal/agents';
+import { generateSingleCoverLetter, applyResumeVersion } from '@careersignal/agents';
+import type { ProfileSnapshot } from '@careersignal/agents';
+import { toResumeVersion } from '@/lib/resume-versions';
+import { jobSummaryToJobDetail } from '@/lib/job-summary';
 
 export const dynamic = 'force-dynamic';
 
-function jobSummaryToJobDetail(summary: Record<string, unknown> | null): JobDetail | null {
-  if (!summary || typeof summary.title !== 'string' || typeof summary.company !== 'string')
-    return null;
-  return {
-    title: String(summary.title),
-    company: String(summary.company),
-    companyOneLiner: summary.companyOneLiner != null ? String(summary.companyOneLiner) : null,
-    location: summary.location != null ? String(summary.location) : null,
-    salary: summary.salary != null ? String(summary.salary) : null,
-    description: typeof summary.description === 'string' ? summary.description : '',
-    requirements: Array.isArray(summary.requirements) ? summary.requirements.map(String) : [],
-    postedDate: summary.postedDate != null ? String(summary.postedDate) : null,
-    deadline: summary.deadline != null ? String(summary.deadline) : null,
-    employmentType: summary.employmentType != null ? String(summary.employmentType) : null,
-    remoteType: summary.remoteType != null ? String(summary.remoteType) : null,
-    seniority: summary.seniority != null ? String(summary.seniority) : null,
-    applyUrl: summary.applyUrl != null ? String(summary.applyUrl) : null,
-    department: summary.department != null ? String(summary.department) : null,
-  };
-}
-
 export async function POST(request: Request) {
   try {
     const userId = await getRequiredUserId();
@@ -98,8 +81,13 @@ export async function POST(request: Request) {
         (profile.education as { institution: string; degree?: string; field?: string }[]) ?? [],
       resumeRawText: profile.resumeRawText ?? null,
     };
+    const resume = analysis.resumeId ? await getResumeById(db, analysis.resumeId, userId) : null;
+    const resumeProfile = applyResumeVersion(
+      profileSnapshot,
+      resume ? toResumeVersion(resume) : null,
+    );
 
-    const coverLetters = await generateSingleCoverLetter(profileSnapshot, jobDetail, {
+    const coverLetters = await generateSingleCoverLetter(resumeProfile, jobDetail, {
       companyResearch: analysis.companyResearch ?? undefined,
       style:
         prefs?.coverLetterTone != null || prefs?.coverLetterNotes != null
@@ -1,18 +1,38 @@
 import { NextResponse } from 'next/server';
 import { getRequiredUserId } from '@/lib/auth';
 import { getScraperStatus } from '@/lib/scraper-state';
-import { getDb, insertAnalysis, getRunningAnalysisForUser } from '@careersignal/db';
-import { setAssistantAbortController } from '@/lib/application-assistant-state';
+import {
+  getDb,
+  insertAnalysis,
+  deleteAnalysisById,
+  getProfileByUserId,
+  getResumeById,
+} from '@careersignal/db';
+import { PROFILE_RESUME_ID } from '@careersignal/agents';
+import {
+  getAssistantConcurrencyLimit,
+  hasAssistantCapacity,
+  setAssistantAbortController,
+} from '@/lib/application-assistant-state';
 import { runApplicationAssistantPipeline } from '@/lib/application-assistant-runner';
 
+function atCapacity() {
+  return NextResponse.json(
+    {
+      ok: false,
+      message: `${getAssistantConcurrencyLimit()} analyses are already running. Try again shortly.`,
+    },
+    { status: 429 },
+  );
+}
+
 export async function POST(req: Request) {
   try {
     const userId = await getRequiredUserId();
     const db = getDb();
 
-    const existing = await getRunningAnalysisForUser(db, userId);
-    if (existing) {
-      return NextResponse.json({ ok: false, message: 'Already running' }, { status: 409 });
+    if (!hasAssistantCapacity()) {
+      return atCapacity();
     }
     if (getScraperStatus().running) {
       return NextResponse.json(
@@ -33,7 +53,43 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, message: 'Invalid URL' }, { status: 400 });
     }
 
-    const analysis = await insertAnalysis(db, { userId, url });
+    // Optional pinned resume version: a resume id, or PROFILE_RESUME_ID for the profile resume.
+    // Omitted = auto-select the best-fitting version once the job is extracted.
+    const pinnedResumeId = typeof body?.resumeId === 'string' ? body.resumeId : null;
+    if (pinnedResumeId && pinnedResumeId !== PROFILE_RESUME_ID) {
+      const resume = await getResumeById(db, pinnedResumeId, userId);
+      if (!resume) {
+        return NextResponse.json({ ok: false, message: 'Resume not found' }, { status: 400 });
+      }
+    }
+    // Without text the profile resume can't be scored or used, and the pin would be ignored.
+    if (pinnedResumeId === PROFILE_RESUME_ID) {
+      const profile = await getProfileByUserId(db, userId);
+      if (!profile?.resumeRawText) {
+        return NextResponse.json(
+          {
+            ok: false,
+            message:
+              'Your profile resume has no text yet. Upload and parse it on your profile, or pick another resume.',
+          },
+          { status: 400 },
+        );
+      }
+    }
+
+    const analysis = await insertAnalysis(db, {
+      userId,
+      url,
+      ...(pinnedResumeId && {
+        resumeId: pinnedResumeId === PROFILE_RESUME_ID ? null : pinnedResumeId,
+        resumeSelection: { mode: 'pinned', resumeId: pinnedResumeId },
+      }),
+    });
+    // Another start may have taken the last slot while we were awaiting the DB.
+    if (!hasAssistantCapacity()) {
+      await deleteAnalysisById(db, analysis.id, userId);
+      return atCapacity();
+    }
     const sessionId = `aa-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 
     const controller = new AbortController();
@@ -1,13 +1,22 @@
 import { NextResponse } from 'next/server';
 import { getRequiredUserId } from '@/lib/auth';
-import { getDb, getRunningAnalysisForUser, markStaleRunsAsError } from '@careersignal/db';
+import { getDb, listRunningAnalysesForUser, markStaleRunsAsError } from '@careersignal/db';
 
 export async function GET() {
   try {
     const userId = await getRequiredUserId();
     const db = getDb();
     await markStaleRunsAsError(db, userId);
-    const row = await getRunningAnalysisForUser(db, userId);
+    // Top-level fields describe the newest run; `runs` lists every run in flight.
+    const rows = await listRunningAnalysesForUser(db, userId);
+    const runs = rows.map((r) => ({
+      analysisId: r.id,
+      url: r.url,
+      currentStep: r.currentStep ?? 'scraping',
+      waitingForLogin: r.waitingForLogin ?? false,
+      waitingForCaptcha: r.waitingForCaptcha ?? false,
+    }));
+    const row = rows[0];
     if (!row) {
       return NextResponse.json({
         running: false,
@@ -16,6 +25,7 @@ export async function GET() {
         analysisId: null,
         waitingForLogin: false,
         waitingForCaptcha: false,
+        runs,
       });
     }
     return NextResponse.json({
@@ -25,6 +35,7 @@ export async function GET() {
       analysisId: row.id,
       waitingForLogin: row.waitingForLogin ?? false,
       waitingForCaptcha: row.waitingForCaptcha ?? false,
+      runs,
     });
   } catch (e) {
     if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
@@ -1,41 +1,36 @@
 import { NextResponse } from 'next/server';
 import { getRequiredUserId } from '@/lib/auth';
-import { getDb, getRunningAnalysisForUser } from '@careersignal/db';
-import {
-  getAssistantAbortController,
-  clearAssistantAbortController,
-  clearAssistantRunning,
-} from '@/lib/application-assistant-state';
-import { cancelLoginWait } from '@/lib/login-wall-state';
-import { cancelCaptchaSolve } from '@/lib/captcha-state';
-import { transitionAssistantStep } from '@/lib/application-assistant-planner';
+import { getDb, getAnalysisById, listRunningAnalysesForUser } from '@careersignal/db';
+import { stopAssistantRun } from '@/lib/application-assistant-stop';
 
-export async function POST() {
+/** Body `{ analysisId? }`: stop that run, or every running analysis for the user when omitted. */
+export async function POST(req: Request) {
   try {
     const userId = await getRequiredUserId();
     const db = getDb();
-    const row = await getRunningAnalysisForUser(db, userId);
-    if (!row) {
-      return NextResponse.json({ ok: false, message: 'Not running' });
-    }
-    const analysisId = row.id;
+    const body = await req.json().catch(() => ({}));
+    const analysisId = typeof body?.analysisId === 'string' ? body.analysisId : null;
 
-    // Hard stop: abort the pipeline's controller so it exits at next check
-    const controller = getAssistantAbortController(analysisId);
-    if (controller) {
-      controller.abort();
-      clearAssistantAbortController(analysisId);
+    let ids: string[];
+    if (analysisId) {
+      const analysis = await getAnalysisById(db, analysisId);
+      if (!analysis || analysis.userId !== userId) {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+      }
+      if (analysis.runStatus !== 'running') {
+        return NextResponse.json({ ok: false, message: 'Not running' });
+      }
+      ids = [analysisId];
+    } else {
+      ids = (await listRunningAnalysesForUser(db, userId)).map((r) => r.id);
+      if (ids.length === 0) {
+        return NextResponse.json({ ok: false, message: 'Not running' });
+      }
     }
 
-    // Unblock if stuck waiting on login or captcha
-    cancelLoginWait(new Error('Stopped by user'));
-    cancelCaptchaSolve(new Error('Stopped by user'));
-
-    // Mark run as error immediately so UI updates and status poll sees "not running"
-    await transitionAssistantStep(db, analysisId, 'error', { runStatusOverride: 'error' });
-    clearAssistantRunning();
+    for (const id of ids) await stopAssistantRun(db, id);
 
-    return NextResponse.json({ ok: true });
+    return NextResponse.json({ ok: true, stopped: ids });
   } catch (e) {
     if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getRequiredUserId } from '@/lib/auth';
+import { getDb, getAnalysisById, getUserById } from '@careersignal/db';
+import { generateTailoredResumePdfBuffer, getDynamicResumeName } from '@/lib/tailored-resume-pdf';
+import { generateTailoredResumeDocxBuffer } from '@/lib/tailored-resume-docx';
+import type { StoredTailoredResume } from '@/lib/tailored-resume';
+
+/** Download the approved tailored resume as PDF or DOCX. Drafts are not downloadable. */
+export async function GET(req: Request) {
+  try {
+    const userId = await getRequiredUserId();
+    const { searchParams } = new URL(req.url);
+    const analysisId = (searchParams.get('analysisId') ?? '').trim();
+    const format = (searchParams.get('format') ?? '').trim().toLowerCase();
+
+    if (!analysisId) {
+      return NextResponse.json({ error: 'analysisId is required' }, { status: 400 });
+    }
+    if (format !== 'pdf' && format !== 'docx') {
+      return NextResponse.json({ error: 'format must be pdf or docx' }, { status: 400 });
+    }
+
+    const db = getDb();
+    const analysis = await getAnalysisById(db, analysisId);
+    if (!analysis || analysis.userId !== userId) {
+      return NextResponse.json({ error: 'Analysis not found' }, { status: 404 });
+    }
+    const tailored = analysis.tailoredResume as unknown as StoredTailoredResume | null;
+    if (tailored?.status !== 'approved') {
+      return NextResponse.json({ error: 'Approved tailored resume not found' }, { status: 404 });
+    }
+
+    const user = await getUserById(db, userId);
+    const companyName = (analysis.jobSummary as { company?: string })?.company;
+
+    if (format === 'docx') {
+      const docxBuffer = await generateTailoredResumeDocxBuffer(tailored);
+      return new NextResponse(new Uint8Array(docxBuffer), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          'Content-Disposition': `attachment; filename="${getDynamicResumeName(user?.name, companyName, 'docx')}"`,
+        },
+      });
+    }
+
+    const pdfBuffer = await generateTailoredResumePdfBuffer(tailored);
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getDynamicResumeName(user?.name, companyName, 'pdf')}"`,
+      },
+    });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : 'Failed to download tailored resume' },
+      { status: 500 },
+    );
+  }
+}
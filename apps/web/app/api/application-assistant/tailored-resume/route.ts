@@ -0,0 +1,131 @@
+/**
+ * POST /api/application-assistant/tailored-resume — generate a tailored resume draft for an
+ * analysis from the resume version it ran against (profile resume if none or since deleted).
+ * PATCH — approve the draft (optionally keeping original wording for some bullets) and render
+ * tailored-resume.pdf / .docx into the run folder next to the cover letter.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequiredUserId } from '@/lib/auth';
+import {
+  getDb,
+  getAnalysisById,
+  getProfileByUserId,
+  getResumeById,
+  updateAnalysis,
+} from '@careersignal/db';
+import { tailorResume } from '@careersignal/agents';
+import { getRunFolderPath, updateContentHashes } from '@/lib/application-assistant-disk';
+import { jobSummaryToJobDetail } from '@/lib/job-summary';
+import {
+  approveTailoredResume,
+  buildTailorSource,
+  type StoredTailoredResume,
+} from '@/lib/tailored-resume';
+import { writeTailoredResumePdfToRunFolder } from '@/lib/tailored-resume-pdf';
+import { writeTailoredResumeDocxToRunFolder } from '@/lib/tailored-resume-docx';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  try {
+    const userId = await getRequiredUserId();
+    const body = await request.json().catch(() => ({}));
+    const analysisId = body.analysisId ?? body.analysis_id;
+    if (!analysisId) {
+      return NextResponse.json({ error: 'analysisId is required' }, { status: 400 });
+    }
+
+    const db = getDb();
+    const analysis = await getAnalysisById(db, analysisId);
+    if (!analysis || analysis.userId !== userId) {
+      return NextResponse.json({ error: 'Analysis not found' }, { status: 404 });
+    }
+    const jobDetail = jobSummaryToJobDetail(analysis.jobSummary);
+    if (!jobDetail) {
+      return NextResponse.json(
+        { error: 'Analysis has no job details; cannot tailor a resume.' },
+        { status: 400 },
+      );
+    }
+    const profile = await getProfileByUserId(db, userId);
+    if (!profile?.name) {
+      return NextResponse.json(
+        { error: 'No profile found. Add a profile and resume to tailor one.' },
+        { status: 400 },
+      );
+    }
+
+    const resume = analysis.resumeId ? await getResumeById(db, analysis.resumeId, userId) : null;
+    const tailored = await tailorResume(buildTailorSource(profile, resume), jobDetail, {
+      keywordsToAdd: analysis.keywordsToAdd ?? [],
+    });
+    const draft: StoredTailoredResume = {
+      ...tailored,
+      status: 'draft',
+      resumeId: resume?.id ?? null,
+      generatedAt: new Date().toISOString(),
+    };
+
+    await updateAnalysis(db, analysisId, {
+      tailoredResume: draft as unknown as Record<string, unknown>,
+    });
+    return NextResponse.json({ ok: true, tailoredResume: draft });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('[tailored-resume]', e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : 'Failed to tailor resume' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const userId = await getRequiredUserId();
+    const body = await request.json().catch(() => ({}));
+    const analysisId = body.analysisId ?? body.analysis_id;
+    const keepOriginal = Array.isArray(body.keepOriginal) ? body.keepOriginal.map(String) : [];
+    if (!analysisId) {
+      return NextResponse.json({ error: 'analysisId is required' }, { status: 400 });
+    }
+
+    const db = getDb();
+    const analysis = await getAnalysisById(db, analysisId);
+    if (!analysis || analysis.userId !== userId) {
+      return NextResponse.json({ error: 'Analysis not found' }, { status: 404 });
+    }
+    const draft = analysis.tailoredResume as unknown as StoredTailoredResume | null;
+    if (!draft?.items) {
+      return NextResponse.json({ error: 'No tailored resume draft to approve' }, { status: 404 });
+    }
+
+    const approved = approveTailoredResume(draft, keepOriginal);
+    if (analysis.runFolderName) {
+      const runFolderPath = getRunFolderPath(analysis.runFolderName);
+      await writeTailoredResumePdfToRunFolder(approved, runFolderPath);
+      await writeTailoredResumeDocxToRunFolder(approved, runFolderPath);
+      await updateContentHashes(analysis.runFolderName, [
+        'tailored-resume.pdf',
+        'tailored-resume.docx',
+      ]);
+    }
+
+    await updateAnalysis(db, analysisId, {
+      tailoredResume: approved as unknown as Record<string, unknown>,
+    });
+    return NextResponse.json({ ok: true, tailoredResume: approved });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('[tailored-resume]', e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : 'Failed to approve tailored resume' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * PATCH /api/contacts/interactions/[id]  body { outcome?, followUpAt?, note? }
+ * Record a reply (or other outcome), move or clear the follow-up date, or edit the note.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequiredUserId } from '@/lib/auth';
+import {
+  CONTACT_INTERACTION_OUTCOMES,
+  getDb,
+  updateContactInteraction,
+  type ContactInteractionOutcome,
+} from '@careersignal/db';
+
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getRequiredUserId();
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+
+    const update: {
+      outcome?: ContactInteractionOutcome;
+      followUpAt?: Date | null;
+      note?: string | null;
+    } = {};
+    if (body?.outcome !== undefined) {
+      if (!CONTACT_INTERACTION_OUTCOMES.includes(body.outcome)) {
+        return NextResponse.json(
+          { error: `outcome must be one of: ${CONTACT_INTERACTION_OUTCOMES.join(', ')}` },
+          { status: 400 },
+        );
+      }
+      update.outcome = body.outcome;
+    }
+    if (body?.followUpAt !== undefined) {
+      const date = body.followUpAt === null ? null : new Date(body.followUpAt);
+      if (date && Number.isNaN(date.getTime())) {
+        return NextResponse.json({ error: 'followUpAt must be a date or null' }, { status: 400 });
+      }
+      update.followUpAt = date;
+    }
+    if (body?.note !== undefined) {
+      update.note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null;
+    }
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const interaction = await updateContactInteraction(getDb(), id, userId, update);
+    if (!interaction) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, interaction });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed to update interaction' }, { status: 500 });
+  }
+}
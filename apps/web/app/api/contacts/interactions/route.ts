@@ -0,0 +1,113 @@
+/**
+ * POST /api/contacts/interactions
+ * Log an outreach to a contact. Body:
+ *   { contactId } — a contact already in the user's list, or
+ *   { analysisId, contactIndex } — a ranked contact of an analysis (stored on first use);
+ *   plus { channel, outcome?, draft?, note?, occurredAt?, followUpAt? }.
+ * followUpAt defaults to DEFAULT_FOLLOW_UP_DAYS after occurredAt for outcome 'sent'; pass null
+ * for no follow-up.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequiredUserId } from '@/lib/auth';
+import {
+  CONTACT_INTERACTION_CHANNELS,
+  CONTACT_INTERACTION_OUTCOMES,
+  getAnalysisById,
+  getDb,
+  insertContactInteraction,
+  type ContactInteractionChannel,
+  type ContactInteractionOutcome,
+} from '@careersignal/db';
+import { defaultFollowUpAt, isUserContact, resolveAnalysisContact } from '@/lib/contact-crm';
+
+/** undefined when absent, null when null; anything but a parseable date string is Invalid Date. */
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  return new Date(typeof value === 'string' ? value : NaN);
+}
+
+function isInvalidDate(date: Date | null | undefined): boolean {
+  return !!date && Number.isNaN(date.getTime());
+}
+
+export async function POST(req: Request) {
+  try {
+    const userId = await getRequiredUserId();
+    const body = await req.json().catch(() => ({}));
+    const channel = body?.channel as ContactInteractionChannel;
+    const outcome = (body?.outcome ?? 'sent') as ContactInteractionOutcome;
+    if (!CONTACT_INTERACTION_CHANNELS.includes(channel)) {
+      return NextResponse.json(
+        { error: `channel must be one of: ${CONTACT_INTERACTION_CHANNELS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    if (!CONTACT_INTERACTION_OUTCOMES.includes(outcome)) {
+      return NextResponse.json(
+        { error: `outcome must be one of: ${CONTACT_INTERACTION_OUTCOMES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const occurredAt = parseDate(body?.occurredAt) ?? new Date();
+    const followUpAt = parseDate(body?.followUpAt);
+    if (isInvalidDate(occurredAt)) {
+      return NextResponse.json({ error: 'occurredAt must be a date' }, { status: 400 });
+    }
+    if (isInvalidDate(followUpAt)) {
+      return NextResponse.json({ error: 'followUpAt must be a date or null' }, { status: 400 });
+    }
+
+    const db = getDb();
+    let contactId: string | null = null;
+    let analysisId: string | null = null;
+    if (typeof body?.analysisId === 'string') {
+      const analysis = await getAnalysisById(db, body.analysisId);
+      if (!analysis || analysis.userId !== userId) {
+        return NextResponse.json({ error: 'Analysis not found' }, { status: 404 });
+      }
+      const contactIndex = typeof body?.contactIndex === 'number' ? body.contactIndex : 0;
+      contactId = (await resolveAnalysisContact(db, analysis, contactIndex))?.id ?? null;
+      analysisId = analysis.id;
+    } else if (typeof body?.contactId === 'string') {
+      // Only contacts already in the user's list (contacts are shared per company)
+      contactId = (await isUserContact(db, userId, body.contactId)) ? body.contactId : null;
+    }
+    if (!contactId) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 });
+    }
+
+    const draft =
+      body?.draft && typeof body.draft === 'object'
+        ? {
+            id: body.draft.id ?? null,
+            subject: body.draft.subject ?? null,
+            body: String(body.draft.body ?? ''),
+          }
+        : null;
+    const interaction = await insertContactInteraction(db, {
+      userId,
+      contactId,
+      analysisId,
+      channel,
+      outcome,
+      draft,
+      note: typeof body?.note === 'string' && body.note.trim() ? body.note.trim() : null,
+      occurredAt,
+      followUpAt:
+        followUpAt !== undefined
+          ? followUpAt
+          : outcome === 'sent'
+            ? defaultFollowUpAt(occurredAt)
+            : null,
+    });
+    return NextResponse.json({ ok: true, interaction });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('[contacts/interactions]', e);
+    return NextResponse.json({ error: 'Failed to log interaction' }, { status: 500 });
+  }
+}
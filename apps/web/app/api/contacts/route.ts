@@ -0,0 +1,29 @@
+/**
+ * GET /api/contacts
+ * The user's contacts grouped by company, each with their interaction history (newest first):
+ * people they have reached out to and people their analyses ranked for outreach. followUpsDue counts contacts whose follow-up date has passed without a reply.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequiredUserId } from '@/lib/auth';
+import { getDb } from '@careersignal/db';
+import { isFollowUpDue, listUserContactsByCompany } from '@/lib/contact-crm';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const userId = await getRequiredUserId();
+    const companies = await listUserContactsByCompany(getDb(), userId);
+    const followUpsDue = companies
+      .flatMap((c) => c.contacts)
+      .filter((c) => isFollowUpDue(c)).length;
+    return NextResponse.json({ companies, followUpsDue });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('[contacts]', e);
+    return NextResponse.json({ error: 'Failed to load contacts' }, { status: 500 });
+  }
+}
@@ -27,6 +27,8 @@ function rowToJson(row: Awaited<ReturnType<typeof getPreferencesByUserId>>) {
     salary_max: row.salaryMax != null ? Number(row.salaryMax) : null,
     salary_currency: row.salaryCurrency,
     strict_filter_level: row.strictFilterLevel,
+    scoring_weights: row.scoringWeights ?? null,
+    hard_filter_dimensions: row.hardFilterDimensions ?? ['visa', 'location', 'seniority'],
     max_contacts_per_job: row.maxContactsPerJob,
     email_updates_enabled: row.emailUpdatesEnabled,
     email_min_match_score: row.emailMinMatchScore != null ? Number(row.emailMinMatchScore) : null,
@@ -119,6 +121,8 @@ export async function PUT(request: Request) {
       salaryMax: data.salary_max ?? undefined,
       salaryCurrency: data.salary_currency ?? undefined,
       strictFilterLevel: data.strict_filter_level,
+      scoringWeights: data.scoring_weights ?? null,
+      hardFilterDimensions: data.hard_filter_dimensions,
       maxContactsPerJob: data.max_contacts_per_job,
       emailUpdatesEnabled: data.email_updates_enabled,
       emailMinMatchScore: data.email_min_match_score ?? null,
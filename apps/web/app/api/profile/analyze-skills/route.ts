@@ -3,6 +3,8 @@ import { getDb, getProfileByUserId, updateSuggestedSkills } from '@careersignal/
 import { getRequiredUserId } from '@/lib/auth';
 import { complete, parseJsonResponse } from '@careersignal/llm';
 import { z } from 'zod';
+import { canonicalizeSkills, skillsCover } from '@careersignal/agents';
+import { loadSkillTaxonomy } from '@/lib/skill-taxonomy';
 
 const SuggestedSkillsSchema = z.object({
   suggestedSkills: z.array(z.string()),
@@ -63,9 +65,15 @@ export async function POST() {
       return NextResponse.json({ error: 'Failed to analyze skills' }, { status: 500 });
     }
 
-    const suggestedSkills = result.data.suggestedSkills.filter(
-      (s): s is string => typeof s === 'string' && s.trim().length > 0,
-    );
+    // Canonical names only, and nothing the profile already has under another name or implies
+    const taxonomy = await loadSkillTaxonomy(db);
+    const currentSkills = (profile.skills ?? []) as string[];
+    const suggestedSkills = canonicalizeSkills(
+      result.data.suggestedSkills.filter(
+        (s): s is string => typeof s === 'string' && s.trim().length > 0,
+      ),
+      taxonomy,
+    ).filter((s) => !skillsCover(currentSkills, s, taxonomy));
     await updateSuggestedSkills(db, userId, suggestedSkills);
 
     return NextResponse.json({ suggestedSkills });
@@ -47,8 +47,8 @@ async function runParsing(userId: string) {
 
     log(userId, 'success', `Found resume at ${resumePath.split(/[/\\]/).pop()}`);
 
-    log(userId, 'info', 'Extracting text from PDF...');
-    step(userId, 1, 4, 'PDF Text Extraction');
+    log(userId, 'info', 'Extracting text from resume...');
+    step(userId, 1, 4, 'Text Extraction');
 
     const extracted = await extractText(resumePath);
     log(
@@ -65,8 +65,8 @@ export async function GET() {
           message: `Found resume at ${resumePath.split(/[/\\]/).pop()}`,
         });
 
-        await send('log', { type: 'info', message: 'Extracting text from PDF...' });
-        await send('step', { step: 1, total: 4, name: 'PDF Text Extraction' });
+        await send('log', { type: 'info', message: 'Extracting text from resume...' });
+        await send('step', { step: 1, total: 4, name: 'Text Extraction' });
 
         const extracted = await extractText(resumePath);
         await send('log', {
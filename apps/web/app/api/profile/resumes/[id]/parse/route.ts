@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import path from 'path';
+import { getDb, getUserById, getResumeById, updateResume } from '@careersignal/db';
+import { extractText } from '@careersignal/agents';
+import { getRequiredUserId } from '@/lib/auth';
+import { getUserDataDir } from '@/lib/user-data';
+import { getResumeVersionsDir, parseResumeSections } from '@/lib/resume-versions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Parse a version's sections (experience, education, projects, skills) with the same extractor
+ * the profile parse uses. Re-extracts text from the file when it was not captured on upload.
+ */
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getRequiredUserId();
+    const { id } = await params;
+    const db = getDb();
+    const resume = await getResumeById(db, id, userId);
+    if (!resume) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    let rawText = resume.rawText;
+    if (!rawText && resume.fileRef) {
+      const user = await getUserById(db, userId);
+      if (user?.email) {
+        const dir = await getResumeVersionsDir(await getUserDataDir(user.email));
+        rawText = (await extractText(path.join(dir, resume.fileRef))).text;
+      }
+    }
+    if (!rawText) {
+      return NextResponse.json({ error: 'No resume text to parse' }, { status: 400 });
+    }
+
+    const sections = await parseResumeSections(rawText);
+    if (!sections) {
+      return NextResponse.json(
+        { error: 'Extraction failed - LLM returned empty results. Try re-parsing.' },
+        { status: 502 },
+      );
+    }
+
+    await updateResume(db, id, userId, { ...sections, rawText, parsedAt: new Date() });
+    return NextResponse.json({
+      success: true,
+      summary: {
+        experienceCount: sections.experience.length,
+        educationCount: sections.education.length,
+        projectsCount: sections.projects.length,
+        skillsCount: sections.skills.length,
+      },
+    });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error(e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : 'Failed to parse resume' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { unlink } from 'fs/promises';
+import path from 'path';
+import {
+  getDb,
+  getUserById,
+  getResumeById,
+  listResumesByUser,
+  updateResume,
+  setDefaultResume,
+  deleteResumeById,
+} from '@careersignal/db';
+import { getRequiredUserId } from '@/lib/auth';
+import { getUserDataDir } from '@/lib/user-data';
+import { getResumeVersionsDir } from '@/lib/resume-versions';
+
+const MAX_NAME_LENGTH = 128;
+
+/** Rename a version and/or make it the default. Body: { name?, isDefault?: true }. */
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getRequiredUserId();
+    const { id } = await params;
+    const db = getDb();
+    const existing = await getResumeById(db, id, userId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (body?.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name || name.length > MAX_NAME_LENGTH) {
+        return NextResponse.json(
+          { error: `Name is required (max ${MAX_NAME_LENGTH} characters)` },
+          { status: 400 },
+        );
+      }
+      const others = await listResumesByUser(db, userId);
+      if (others.some((r) => r.id !== id && r.name.toLowerCase() === name.toLowerCase())) {
+        return NextResponse.json(
+          { error: `A resume named "${name}" already exists` },
+          { status: 409 },
+        );
+      }
+      await updateResume(db, id, userId, { name });
+    }
+    if (body?.isDefault === true) {
+      await setDefaultResume(db, id, userId);
+    }
+
+    const updated = await getResumeById(db, id, userId);
+    return NextResponse.json({
+      ok: true,
+      resume: updated ? { id: updated.id, name: updated.name, isDefault: updated.isDefault } : null,
+    });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  }
+}
+
+/** Delete one version and its file. Analyses that used it keep their recorded selection. */
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getRequiredUserId();
+    const { id } = await params;
+    const db = getDb();
+    const deleted = await deleteResumeById(db, id, userId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    const user = await getUserById(db, userId);
+    if (deleted.fileRef && user?.email) {
+      try {
+        const dir = await getResumeVersionsDir(await getUserDataDir(user.email));
+        await unlink(path.join(dir, deleted.fileRef));
+      } catch {
+        // ignore missing file
+      }
+    }
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  }
+}
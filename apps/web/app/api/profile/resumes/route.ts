@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  getDb,
+  getUserById,
+  insertResume,
+  listResumesByUser,
+  updateResume,
+  type ResumeRow,
+} from '@careersignal/db';
+import { extractText } from '@careersignal/agents';
+import { getRequiredUserId } from '@/lib/auth';
+import { getUserDataDir } from '@/lib/user-data';
+import { getResumeVersionsDir, RESUME_VERSION_EXTENSIONS } from '@/lib/resume-versions';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_NAME_LENGTH = 128;
+
+/** List payload: sections are summarized as counts; raw text is left out. */
+function toSummary(row: ResumeRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    fileRef: row.fileRef,
+    isDefault: row.isDefault,
+    hasText: !!row.rawText,
+    skillsCount: row.skills?.length ?? 0,
+    experienceCount: row.experience?.length ?? 0,
+    educationCount: row.education?.length ?? 0,
+    projectsCount: row.projects?.length ?? 0,
+    parsedAt: row.parsedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export async function GET() {
+  try {
+    const userId = await getRequiredUserId();
+    const db = getDb();
+    const rows = await listResumesByUser(db, userId);
+    return NextResponse.json({ resumes: rows.map(toSummary) });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error(e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : 'Failed to list resumes' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Upload a named resume version (multipart: `resume` file, `name`). Saves the file and its raw
+ * text; sections are parsed separately via POST /api/profile/resumes/[id]/parse.
+ */
+export async function POST(request: Request) {
+  try {
+    const userId = await getRequiredUserId();
+    const db = getDb();
+    const user = await getUserById(db, userId);
+
+    if (!user?.email) {
+      return NextResponse.json({ error: 'User email not found' }, { status: 400 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('resume') as File | null;
+    const name = String(formData.get('name') ?? '').trim();
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+    }
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Name is required (max ${MAX_NAME_LENGTH} characters)` },
+        { status: 400 },
+      );
+    }
+
+    const ext = path.extname(file.name).toLowerCase();
+    if (!RESUME_VERSION_EXTENSIONS.includes(ext)) {
+      return NextResponse.json(
+        { error: `Invalid file type. Allowed: ${RESUME_VERSION_EXTENSIONS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'File too large. Maximum size: 10MB' }, { status: 400 });
+    }
+
+    const existing = await listResumesByUser(db, userId);
+    if (existing.some((r) => r.name.toLowerCase() === name.toLowerCase())) {
+      return NextResponse.json(
+        { error: `A resume named "${name}" already exists` },
+        { status: 409 },
+      );
+    }
+
+    const row = await insertResume(db, { userId, name });
+    const fileRef = `${row.id}${ext}`;
+    const filePath = path.join(
+      await getResumeVersionsDir(await getUserDataDir(user.email)),
+      fileRef,
+    );
+    await writeFile(filePath, Buffer.from(await file.arrayBuffer()));
+
+    let rawText: string | null = null;
+    try {
+      rawText = (await extractText(filePath)).text;
+    } catch (err) {
+      console.warn('[profile/resumes] Extract text failed, continuing. Parse will retry.', err);
+    }
+    const saved = (await updateResume(db, row.id, userId, { fileRef, rawText })) ?? row;
+
+    return NextResponse.json({ success: true, resume: toSummary(saved) });
+  } catch (e) {
+    if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error(e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : 'Failed to upload resume' },
+      { status: 500 },
+    );
+  }
+}
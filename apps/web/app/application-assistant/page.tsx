@@ -65,6 +65,46 @@ interface StrictFilterReject {
   reason: string;
 }
 
+interface RequirementEvidence {
+  requirement: string;
+  evidence: string | null;
+  evidenceSource: 'bullet' | 'skill' | 'experience' | null;
+  similarity: number;
+  verdict: 'met' | 'partial' | 'missing';
+}
+
+interface ApplicationFormAnswer {
+  name: string;
+  label: string;
+  type: string;
+  required: boolean;
+  options?: string[];
+  mappedProfileField: string | null;
+  value: string | null;
+  confidence: number;
+  needsInput: boolean;
+  questionKey?: string | null;
+  companySpecific?: boolean;
+  source?: 'profile' | 'answer_bank';
+}
+
+interface GuidedFieldLog {
+  name: string;
+  label: string;
+  action: 'filled' | 'selected' | 'checked' | 'uploaded' | 'skipped';
+  value: string | null;
+  reason?: string;
+}
+
+interface ApplicationAnswerSheet {
+  applyUrl: string;
+  formUrl: string | null;
+  answers: ApplicationFormAnswer[];
+  requiredDocuments: string[];
+  blockers: string[];
+  unansweredRequired: number;
+}
+
 interface Analysis {
   id: string;
   url: string;
@@ -83,11 +123,16 @@ interface Analysis {
   } | null;
   keywordsToAdd: string[] | null;
   salaryLevelCheck: string | null;
+  compensation?: CompensationBlock | null;
+  resumeSelection?: ResumeSelectionBlock | null;
+  tailoredResume?: TailoredResumeBlock | null;
   applicationChecklist: ChecklistItem[] | null;
+  applicationBlueprint?: ApplicationAnswerSheet | null;
   interviewPrepBullets: string[] | null;
   companyResearch: string | null;
   companySnapshot?: Record<string, unknown> | null;
   matchEvidence?: Record<string, unknown> | null;
+  requirementEvidence?: RequirementEvidence[] | null;
   resumeEvidence?: Record<string, unknown> | null;
   coverLettersEvidence?: Record<string, unknown> | null;
   contactsEvidence?: Record<string, unknown> | null;
@@ -97,6 +142,54 @@ interface Analysis {
   runSource?: string | null;
 }
 
+/** Mirrors CompensationFitResult from @careersignal/agents (subset used here). */
+interface CompensationBlock {
+  fit: number;
+  salary: { raw: string; period: string; currency: string } | null;
+  annual: { min: number; max: number; currency: string } | null;
+  preference: { min: number | null; max: number | null; currency: string | null };
+  deltaToMin: number | null;
+}
+
+/** Mirrors ResumeVersionSelection from @careersignal/agents (subset used here). */
+interface ResumeSelectionBlock {
+  resumeId: string | null;
+  name: string | null;
+  mode: 'pinned' | 'auto' | 'profile';
+  score: number | null;
+  reason: string;
+}
+
+/** Mirrors StoredTailoredResume from @/lib/tailored-resume (subset used here). */
+interface TailoredResumeBlock {
+  status: 'draft' | 'approved';
+  items: {
+    kind: 'experience' | 'project';
+    heading: string;
+    subheading: string | null;
+    bullets: {
+      text: string;
+      original: string;
+      changed: boolean;
+      diff?: { op: 'equal' | 'insert' | 'delete'; text: string }[];
+      rejectedReason?: string;
+    }[];
+  }[];
+  skills: string[];
+  notes: string[];
+  rejectedEdits: number;
+  approvedAt?: string;
+}
+
+interface ResumeOption {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+/** Pin value for the profile resume; mirrors PROFILE_RESUME_ID from @careersignal/agents. */
+const PROFILE_RESUME_OPTION = 'profile';
+
 interface ApplicationAssistantPageProps {
   initialAnalysisId?: string;
 }
@@ -314,6 +407,9 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
   const params = useParams<{ id?: string }>();
   const { addToast } = useToast();
   const [url, setUrl] = useState('');
+  const [resumeOptions, setResumeOptions] = useState<ResumeOption[]>([]);
+  /** '' = auto-select the best-fitting version for each job. */
+  const [pinnedResumeId, setPinnedResumeId] = useState('');
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [lastLogId, setLastLogId] = useState<string | null>(null);
   const [status, setStatus] = useState<StatusResponse | null>(null);
@@ -362,6 +458,7 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
     unknown
   > | null>(null);
   const [outreachDraftModalError, setOutreachDraftModalError] = useState<string | null>(null);
+  const [outreachDraftModalLogged, setOutreachDraftModalLogged] = useState(false);
 
   const [automateModalOpen, setAutomateModalOpen] = useState(false);
   const [queueStatus, setQueueStatus] = useState<{
@@ -434,6 +531,14 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
     return () => clearInterval(interval);
   }, [showLogs, logsAnalysisId, lastLogId]);
 
+  // Resume versions for the pin selector (hidden when the user has none)
+  useEffect(() => {
+    fetch('/api/profile/resumes')
+      .then((r) => (r.ok ? r.json() : { resumes: [] }))
+      .then((d) => setResumeOptions((d.resumes || []) as ResumeOption[]))
+      .catch(() => {});
+  }, []);
+
   // When we have an analysis to show logs for and no logs yet, fetch full log buffer once
   useEffect(() => {
     if (!showLogs || !logsAnalysisId || logs.length > 0) return;
@@ -541,7 +646,7 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
       const res = await fetch('/api/application-assistant/start', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: url.trim() }),
+        body: JSON.stringify({ url: url.trim(), resumeId: pinnedResumeId || undefined }),
       });
       const data = await res.json();
       if (!data.ok) {
@@ -564,16 +669,52 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
     }
   };
 
+  // Continue a failed/interrupted analysis from its last checkpoint; earlier logs stay visible.
+  const handleResume = async () => {
+    if (!analysis?.id) return;
+    setStarting(true);
+    try {
+      const res = await fetch(`/api/application-assistant/analyses/${analysis.id}/resume`, {
+        method: 'POST',
+      });
+      const data = await res.json();
+      if (!data.ok) {
+        alert(data.message || data.error || 'Failed to resume');
+        return;
+      }
+      setStatus({
+        running: true,
+        sessionId: null,
+        currentStep: data.currentStep ?? 'scraping',
+        analysisId: data.analysisId ?? analysis.id,
+        waitingForLogin: false,
+        waitingForCaptcha: false,
+      });
+    } catch {
+      alert('Failed to resume analysis');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  // Target the run shown on this page; the user may have others in flight.
+  const postForCurrentRun = (path: string) =>
+    fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ analysisId: status?.analysisId ?? undefined }),
+    });
+
   const handleLoginSolved = async () => {
-    await fetch('/api/application-assistant/login-solved', { method: 'POST' });
+    await postForCurrentRun('/api/application-assistant/login-solved');
   };
 
   const handleCaptchaSolved = async () => {
-    await fetch('/api/application-assistant/captcha-solved', { method: 'POST' });
+    await postForCurrentRun('/api/application-assistant/captcha-solved');
   };
 
   const handleStop = async () => {
-    await fetch('/api/application-assistant/stop', { method: 'POST' });
+    await postForCurrentRun('/api/application-assistant/stop');
   };
 
   const effectiveInitialAnalysisId =
@@ -831,6 +972,9 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
     if (m) cleaningConfidence = parseInt(m[1]!, 10);
   }
 
+  // Run policy refusals (budget exhausted, blocked domain) — logged once each by the runner
+  const policyLogs = logs.filter((l) => l.agent === 'Policy');
+
   const mandatoryConfirmGate = companyConfidence < 40 || cleaningConfidence < 40;
   const canAutoSkipGate = companyConfidence >= 80 && cleaningConfidence >= 70;
   const autoSkipConfirmGate = autoConfirmCompanyTitle && canAutoSkipGate && !mandatoryConfirmGate;
@@ -1362,6 +1506,25 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
           disabled={isRunning}
           style={{ flex: 1 }}
         />
+        {resumeOptions.length > 0 && (
+          <select
+            className="input"
+            value={pinnedResumeId}
+            onChange={(e) => setPinnedResumeId(e.target.value)}
+            disabled={isRunning}
+            title="Resume version to match against"
+            style={{ width: 'auto', maxWidth: 220 }}
+          >
+            <option value="">Resume: auto (best fit)</option>
+            {resumeOptions.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.name}
+                {r.isDefault ? ' (default)' : ''}
+              </option>
+            ))}
+            <option value={PROFILE_RESUME_OPTION}>Profile resume</option>
+          </select>
+        )}
         {isRunning ? (
           <button
             type="button"
@@ -1372,15 +1535,29 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
             Stop
           </button>
         ) : (
-          <button
-            type="button"
-            className="btn btn-primary"
-            onClick={handleStart}
-            disabled={starting || !url.trim()}
-            style={{ whiteSpace: 'nowrap' }}
-          >
-            {starting ? 'Starting...' : 'Analyze'}
-          </button>
+          <>
+            {analysis?.runStatus === 'error' && (
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={handleResume}
+                disabled={starting}
+                title="Continue this analysis from its last completed step"
+                style={{ whiteSpace: 'nowrap' }}
+              >
+                Resume
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handleStart}
+              disabled={starting || !url.trim()}
+              style={{ whiteSpace: 'nowrap' }}
+            >
+              {starting ? 'Starting...' : 'Analyze'}
+            </button>
+          </>
         )}
       </div>
 
@@ -1463,6 +1640,30 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
         </div>
       )}
 
+      {/* Run policy warnings — budget exhaustion / blocked domains skipped part of the run */}
+      {policyLogs.length > 0 && (
+        <div
+          className="card"
+          style={{ marginBottom: '1.5rem', borderLeft: '3px solid var(--warning)' }}
+        >
+          <p style={{ margin: '0 0 0.35rem 0', fontSize: '0.875rem', fontWeight: 600 }}>
+            Run limits reached
+          </p>
+          <ul
+            style={{
+              margin: 0,
+              paddingLeft: '1.25rem',
+              color: 'var(--muted-foreground)',
+              fontSize: '0.8125rem',
+            }}
+          >
+            {policyLogs.map((l) => (
+              <li key={l.id}>{l.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Agent terminal — visible during a run or when viewing an analysis (logs from DB) */}
       {(isRunning ||
         currentStep === 'done' ||
@@ -1835,6 +2036,17 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
         </div>
       )}
 
+      {analysis?.applicationBlueprint && (
+        <ApplicationFormPreview
+          analysisId={analysis.id}
+          companyName={analysis.jobSummary?.company ?? null}
+          sheet={analysis.applicationBlueprint}
+          onUpdated={(applicationBlueprint) =>
+            setAnalysis((prev) => (prev ? { ...prev, applicationBlueprint } : prev))
+          }
+        />
+      )}
+
       {/* Company Snapshot — droppable, default collapsed; collapsed shows name, website, about only */}
       {analysis?.jobSummary && (
         <div className="card" style={{ marginBottom: '1.5rem', padding: 0 }}>
@@ -2282,9 +2494,29 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
             expanded={profileMatchOpen}
             onToggle={() => setProfileMatchOpen((o) => !o)}
           />
+          {analysis.resumeSelection && analysis.resumeSelection.mode !== 'profile' && (
+            <p
+              title={analysis.resumeSelection.reason}
+              style={{
+                fontSize: '0.8125rem',
+                color: 'var(--muted-foreground)',
+                margin: '-0.5rem 0 1rem',
+              }}
+            >
+              Resume used: <strong>{analysis.resumeSelection.name ?? 'Profile resume'}</strong> (
+              {analysis.resumeSelection.mode === 'pinned' ? 'pinned' : 'auto-selected'}
+              {analysis.resumeSelection.score != null
+                ? `, fit ${Math.round(analysis.resumeSelection.score)}`
+                : ''}
+              )
+            </p>
+          )}
           {analysis.strictFilterRejects && analysis.strictFilterRejects.length > 0 && (
             <StrictFilterRejectsSection rejects={analysis.strictFilterRejects} />
           )}
+          {analysis.requirementEvidence && analysis.requirementEvidence.length > 0 && (
+            <RequirementEvidenceSection rows={analysis.requirementEvidence} />
+          )}
         </>
       )}
 
@@ -2310,6 +2542,17 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
         />
       )}
 
+      {/* Tailored resume (draft with diff → approve → PDF/DOCX) */}
+      {analysis?.jobSummary && analysis.runStatus !== 'running' && (
+        <TailoredResumeCard
+          analysisId={analysis.id}
+          tailoredResume={analysis.tailoredResume ?? null}
+          onUpdated={(tailoredResume) =>
+            setAnalysis((prev) => (prev ? { ...prev, tailoredResume } : prev))
+          }
+        />
+      )}
+
       {/* Cover letter (single draft; regenerate via instruction) */}
       {analysis?.coverLetters &&
         (() => {
@@ -2487,14 +2730,34 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
         })()}
 
       {/* Extras: Salary check, Interview prep, Contacts (or Run Deep Outreach), Checklist */}
-      {analysis?.salaryLevelCheck && (
+      {(analysis?.salaryLevelCheck || analysis?.compensation?.annual) && (
         <div className="card" style={{ marginBottom: '1.5rem' }}>
           <h2 className="section-title" style={{ margin: '0 0 0.5rem 0' }}>
             Salary / Level Check
           </h2>
-          <p style={{ margin: 0, fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
-            {analysis.salaryLevelCheck}
-          </p>
+          {analysis.salaryLevelCheck && (
+            <p style={{ margin: 0, fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+              {analysis.salaryLevelCheck}
+            </p>
+          )}
+          {analysis.compensation?.annual && (
+            <p
+              style={{
+                margin: '0.5rem 0 0 0',
+                fontSize: '0.875rem',
+                color:
+                  analysis.compensation.fit >= 1 ? 'var(--success)' : 'var(--text-secondary)',
+              }}
+            >
+              Compensation fit: {Math.round(analysis.compensation.fit * 100)}% (
+              {analysis.compensation.annual.currency}{' '}
+              {analysis.compensation.annual.min.toLocaleString()}–
+              {analysis.compensation.annual.max.toLocaleString()} / yr
+              {analysis.compensation.preference.min != null &&
+                `, your minimum ${analysis.compensation.preference.min.toLocaleString()}`}
+              )
+            </p>
+          )}
         </div>
       )}
 
@@ -2832,19 +3095,37 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
                                 setOutreachDraftModalInstruction('');
                                 setOutreachDraftModalDraft(null);
                                 setOutreachDraftModalError(null);
+                                setOutreachDraftModalLogged(false);
                                 try {
-                                  const res = await fetch(
-                                    '/api/application-assistant/outreach-draft',
-                                    {
+                                  const requestDraft = (force: boolean) =>
+                                    fetch('/api/application-assistant/outreach-draft', {
                                       method: 'POST',
                                       headers: { 'Content-Type': 'application/json' },
                                       body: JSON.stringify({
                                         analysisId: analysis.id,
                                         contactIndex: i,
+                                        force,
                                       }),
-                                    },
-                                  );
-                                  const data = await res.json().catch(() => ({}));
+                                    });
+                                  let res = await requestDraft(false);
+                                  let data = await res.json().catch(() => ({}));
+                                  if (
+                                    res.status === 409 &&
+                                    (data as { recentlyContacted?: boolean }).recentlyContacted
+                                  ) {
+                                    // Same person was reached recently (any job) — confirm first
+                                    if (
+                                      !window.confirm(
+                                        `${(data as { error?: string }).error ?? ''} Draft a message anyway?`,
+                                      )
+                                    ) {
+                                      setOutreachDraftModalOpen(false);
+                                      setOutreachDraftModalContactIndex(null);
+                                      return;
+                                    }
+                                    res = await requestDraft(true);
+                                    data = await res.json().catch(() => ({}));
+                                  }
                                   if (!res.ok) {
                                     setOutreachDraftModalError(
                                       (data as { error?: string }).error ??
@@ -3049,6 +3330,7 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
                             analysisId: analysis.id,
                             contactIndex: outreachDraftModalContactIndex,
                             userInstruction: outreachDraftModalInstruction.trim() || undefined,
+                            force: true,
                           }),
                         });
                         const data = await res.json().catch(() => ({}));
@@ -3074,6 +3356,46 @@ function ApplicationAssistantClient({ initialAnalysisId }: ApplicationAssistantP
                   >
                     Change draft
                   </button>
+                  <button
+                    type="button"
+                    className="btn"
+                    disabled={outreachDraftModalLoading || outreachDraftModalLogged}
+                    title="Log this outreach in Contacts with a follow-up reminder"
+                    onClick={async () => {
+                      if (!analysis?.id || outreachDraftModalContactIndex == null) return;
+                      const res = await fetch('/api/contacts/interactions', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({
+                          analysisId: analysis.id,
+                          contactIndex: outreachDraftModalContactIndex,
+                          channel: String(outreachDraftModalDraft.platform ?? '').startsWith(
+                            'LINKEDIN',
+                          )
+                            ? 'linkedin'
+                            : 'email',
+                          outcome: 'sent',
+                          draft: {
+                            id: outreachDraftModalDraft.id,
+                            subject: outreachDraftModalDraft.subject,
+                            body: outreachDraftModalDraft.body,
+                          },
+                        }),
+                      });
+                      const data = await res.json().catch(() => ({}));
+                      if (!res.ok) {
+                        addToast(
+                          (data as { error?: string }).error ?? 'Failed to log outreach',
+                          'error',
+                        );
+                        return;
+                      }
+                      setOutreachDraftModalLogged(true);
+                      addToast('Logged in Contacts — follow-up reminder set', 'success');
+                    }}
+                  >
+                    {outreachDraftModalLogged ? 'Logged ✓' : 'Mark as sent'}
+                  </button>
                   <button
                     type="button"
                     className="btn"
@@ -3641,6 +3963,381 @@ function StrictFilterRejectsSection({ rejects }: { rejects: StrictFilterReject[]
   );
 }
 
+const VERDICT_STYLE: Record<RequirementEvidence['verdict'], { label: string; color: string }> = {
+  met: { label: 'Met', color: 'var(--success)' },
+  partial: { label: 'Partial', color: 'var(--warning)' },
+  missing: { label: 'Missing', color: 'var(--error)' },
+};
+
+function RequirementEvidenceSection({ rows }: { rows: RequirementEvidence[] }) {
+  const [open, setOpen] = useState(false);
+  const met = rows.filter((r) => r.verdict === 'met').length;
+  const partial = rows.filter((r) => r.verdict === 'partial').length;
+  const cell = { padding: '0.375rem 0.75rem 0.375rem 0', verticalAlign: 'top' } as const;
+  return (
+    <div className="card" style={{ marginBottom: '1.5rem' }}>
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: 0,
+          border: 'none',
+          background: 'none',
+          color: 'var(--text)',
+          fontSize: '0.9375rem',
+          fontWeight: 600,
+          cursor: 'pointer',
+          textAlign: 'left',
+        }}
+      >
+        <span>
+          Requirement evidence ({met} met, {partial} partial, {rows.length - met - partial} missing)
+        </span>
+        <span style={{ color: 'var(--muted-foreground)', fontSize: '0.875rem' }}>
+          {open ? '▼' : '▶'}
+        </span>
+      </button>
+      {open && (
+        <table
+          style={{
+            width: '100%',
+            marginTop: '0.75rem',
+            fontSize: '0.8125rem',
+            borderCollapse: 'collapse',
+          }}
+        >
+          <thead>
+            <tr style={{ color: 'var(--muted-foreground)', textAlign: 'left' }}>
+              <th style={cell}>Requirement</th>
+              <th style={cell}>Best resume evidence</th>
+              <th style={cell}>Similarity</th>
+              <th style={cell}>Verdict</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r, i) => (
+              <tr key={i} style={{ borderTop: '1px solid var(--border)' }}>
+                <td style={{ ...cell, color: 'var(--text)' }}>{r.requirement}</td>
+                <td style={{ ...cell, color: 'var(--text-secondary)' }}>
+                  {r.evidence ?? '—'}
+                  {r.evidenceSource && r.evidenceSource !== 'bullet' && (
+                    <span style={{ color: 'var(--muted-foreground)' }}> ({r.evidenceSource})</span>
+                  )}
+                </td>
+                <td style={{ ...cell, whiteSpace: 'nowrap' }}>{r.similarity.toFixed(2)}</td>
+                <td
+                  style={{
+                    ...cell,
+                    fontWeight: 600,
+                    whiteSpace: 'nowrap',
+                    color: VERDICT_STYLE[r.verdict].color,
+                  }}
+                >
+                  {VERDICT_STYLE[r.verdict].label}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Preview of the apply form with proposed answers; nothing is submitted. Open questions can be
+ * drafted and, once approved, saved to the answer bank for later forms.
+ */
+function ApplicationFormPreview({
+  analysisId,
+  companyName,
+  sheet,
+  onUpdated,
+}: {
+  analysisId: string;
+  companyName: string | null;
+  sheet: ApplicationAnswerSheet;
+  onUpdated: (sheet: ApplicationAnswerSheet) => void;
+}) {
+  const { addToast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<{
+    fieldName: string;
+    answer: string;
+    companyOnly: boolean;
+  } | null>(null);
+  const [loading, setLoading] = useState<'draft' | 'save' | null>(null);
+  const [guided, setGuided] = useState<{ fields: GuidedFieldLog[]; open: boolean } | null>(null);
+  const [guidedLoading, setGuidedLoading] = useState(false);
+
+  const startGuidedApply = async () => {
+    setGuidedLoading(true);
+    try {
+      const res = await fetch(`/api/application-assistant/analyses/${analysisId}/guided-apply`, {
+        method: 'POST',
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        addToast(data.error ?? 'Failed to open the application form', 'error');
+        return;
+      }
+      setGuided({ fields: data.fields as GuidedFieldLog[], open: true });
+      addToast('Form filled — review and submit it yourself in the browser', 'success');
+    } catch {
+      addToast('Failed to open the application form', 'error');
+    } finally {
+      setGuidedLoading(false);
+    }
+  };
+
+  const endGuidedApply = async () => {
+    await fetch(`/api/application-assistant/analyses/${analysisId}/guided-apply`, {
+      method: 'DELETE',
+    }).catch(() => {});
+    setGuided((prev) => (prev ? { ...prev, open: false } : prev));
+  };
+
+  const draftAnswer = async (fieldName: string) => {
+    setLoading('draft');
+    try {
+      const res = await fetch(`/api/application-assistant/analyses/${analysisId}/form-answers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fieldName }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        addToast(data.error ?? 'Failed to draft answer', 'error');
+        return;
+      }
+      setEditing({ fieldName, answer: data.draft, companyOnly: !!data.companySpecific });
+    } catch {
+      addToast('Failed to draft answer', 'error');
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const saveAnswer = async () => {
+    if (!editing?.answer.trim()) return;
+    setLoading('save');
+    try {
+      const res = await fetch(`/api/application-assistant/analyses/${analysisId}/form-answers`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editing),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        addToast(data.error ?? 'Failed to save answer', 'error');
+        return;
+      }
+      setEditing(null);
+      onUpdated(data.applicationBlueprint as ApplicationAnswerSheet);
+      addToast('Answer saved to your answer bank', 'success');
+    } catch {
+      addToast('Failed to save answer', 'error');
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const cell = { padding: '0.375rem 0.75rem 0.375rem 0', verticalAlign: 'top' } as const;
+  return (
+    <div className="card" style={{ marginBottom: '1.5rem' }}>
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: 0,
+          border: 'none',
+          background: 'none',
+          color: 'var(--text)',
+          fontSize: '0.9375rem',
+          fontWeight: 600,
+          cursor: 'pointer',
+          textAlign: 'left',
+        }}
+      >
+        <span>
+          Application form preview ({sheet.answers.length} fields
+          {sheet.unansweredRequired > 0 ? `, ${sheet.unansweredRequired} need your input` : ''})
+        </span>
+        <span style={{ color: 'var(--muted-foreground)', fontSize: '0.875rem' }}>
+          {open ? '▼' : '▶'}
+        </span>
+      </button>
+      {open && (
+        <div style={{ marginTop: '0.75rem', fontSize: '0.8125rem' }}>
+          <p style={{ color: 'var(--muted-foreground)', margin: '0 0 0.5rem' }}>
+            Proposed answers for the form at{' '}
+            <a href={sheet.formUrl ?? sheet.applyUrl} target="_blank" rel="noopener noreferrer">
+              {sheet.formUrl ?? sheet.applyUrl}
+            </a>
+            . Nothing is submitted for you: guided apply fills the form in a browser window and
+            stops so you can review and submit it yourself.
+          </p>
+          <div style={{ display: 'flex', gap: '0.5rem', margin: '0 0 0.75rem' }}>
+            <button
+              type="button"
+              className="btn"
+              disabled={guidedLoading || guided?.open === true}
+              onClick={startGuidedApply}
+            >
+              {guidedLoading ? 'Filling form...' : 'Fill form in browser'}
+            </button>
+            {guided?.open && (
+              <button type="button" className="btn btn-secondary" onClick={endGuidedApply}>
+                Done — close browser
+              </button>
+            )}
+          </div>
+          {guided && (
+            <ul style={{ margin: '0 0 0.75rem', paddingLeft: '1.25rem' }}>
+              {guided.fields.map((f) => (
+                <li
+                  key={f.name}
+                  style={{
+                    color: f.action === 'skipped' ? 'var(--warning)' : 'var(--text-secondary)',
+                  }}
+                >
+                  {f.label}: {f.action}
+                  {f.action === 'skipped' ? ` (${f.reason ?? 'no answer'})` : ''}
+                </li>
+              ))}
+            </ul>
+          )}
+          {sheet.blockers.map((b, i) => (
+            <p key={i} style={{ color: 'var(--warning)', margin: '0 0 0.5rem' }}>
+              {'\u26A0'} {b}
+            </p>
+          ))}
+          {sheet.answers.length > 0 && (
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ color: 'var(--muted-foreground)', textAlign: 'left' }}>
+                  <th style={cell}>Field</th>
+                  <th style={cell}>Answer</th>
+                  <th style={cell}>Confidence</th>
+                  <th style={cell} />
+                </tr>
+              </thead>
+              <tbody>
+                {sheet.answers.map((a, i) => (
+                  <tr key={i} style={{ borderTop: '1px solid var(--border)' }}>
+                    <td style={{ ...cell, color: 'var(--text)' }}>
+                      {a.label}
+                      {a.required && <span style={{ color: 'var(--error)' }}> *</span>}
+                    </td>
+                    <td
+                      style={{
+                        ...cell,
+                        color: a.needsInput ? 'var(--warning)' : 'var(--text-secondary)',
+                      }}
+                    >
+                      {a.value ?? (a.needsInput ? 'Needs your input' : '—')}
+                    </td>
+                    <td style={{ ...cell, whiteSpace: 'nowrap' }}>
+                      {a.value ? a.confidence.toFixed(1) : '—'}
+                      {a.source === 'answer_bank' && (
+                        <span style={{ color: 'var(--muted-foreground)' }}> (bank)</span>
+                      )}
+                    </td>
+                    <td style={cell}>
+                      {!a.mappedProfileField && a.type !== 'FILE' && (
+                        <button
+                          type="button"
+                          className="btn btn-secondary"
+                          style={{ fontSize: '0.75rem', padding: '0.2rem 0.5rem' }}
+                          disabled={loading !== null}
+                          onClick={() =>
+                            a.value
+                              ? setEditing({
+                                  fieldName: a.name,
+                                  answer: a.value,
+                                  companyOnly: !!a.companySpecific,
+                                })
+                              : draftAnswer(a.name)
+                          }
+                        >
+                          {a.value ? 'Edit' : loading === 'draft' ? 'Drafting...' : 'Draft'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {editing && (
+            <div
+              style={{
+                marginTop: '0.75rem',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '0.5rem',
+              }}
+            >
+              <strong>
+                {sheet.answers.find((a) => a.name === editing.fieldName)?.label ??
+                  editing.fieldName}
+              </strong>
+              <textarea
+                className="input"
+                rows={4}
+                value={editing.answer}
+                onChange={(e) => setEditing({ ...editing, answer: e.target.value })}
+                disabled={loading === 'save'}
+              />
+              <div
+                style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap' }}
+              >
+                {companyName && (
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '0.35rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={editing.companyOnly}
+                      disabled={
+                        !!sheet.answers.find((a) => a.name === editing.fieldName)?.companySpecific
+                      }
+                      onChange={(e) => setEditing({ ...editing, companyOnly: e.target.checked })}
+                    />
+                    Only for {companyName}
+                  </label>
+                )}
+                <button
+                  type="button"
+                  className="btn"
+                  disabled={loading !== null || !editing.answer.trim()}
+                  onClick={saveAnswer}
+                >
+                  {loading === 'save' ? 'Saving...' : 'Approve and save to answer bank'}
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  disabled={loading === 'save'}
+                  onClick={() => setEditing(null)}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function MatchCard({
   score,
   grade,
@@ -4003,3 +4700,205 @@ function ResumeSuggestionsCard({
     </div>
   );
 }
+
+function TailoredResumeCard({
+  analysisId,
+  tailoredResume,
+  onUpdated,
+}: {
+  analysisId: string;
+  tailoredResume: TailoredResumeBlock | null;
+  onUpdated: (tailoredResume: TailoredResumeBlock) => void;
+}) {
+  const { addToast } = useToast();
+  const [loading, setLoading] = useState<'generate' | 'approve' | null>(null);
+  const [keepOriginal, setKeepOriginal] = useState<Set<string>>(new Set());
+
+  const request = async (method: 'POST' | 'PATCH') => {
+    setLoading(method === 'POST' ? 'generate' : 'approve');
+    try {
+      const res = await fetch('/api/application-assistant/tailored-resume', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ analysisId, keepOriginal: [...keepOriginal] }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        addToast(data.error ?? 'Failed to update tailored resume', 'error');
+        return;
+      }
+      setKeepOriginal(new Set());
+      onUpdated(data.tailoredResume as TailoredResumeBlock);
+      addToast(
+        method === 'POST' ? 'Tailored resume drafted' : 'Tailored resume approved',
+        'success',
+      );
+    } catch {
+      addToast('Failed to update tailored resume', 'error');
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const toggleKeep = (key: string) =>
+    setKeepOriginal((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const isDraft = tailoredResume?.status === 'draft';
+  const changedCount =
+    tailoredResume?.items.reduce((n, it) => n + it.bullets.filter((b) => b.changed).length, 0) ?? 0;
+
+  return (
+    <div className="card" style={{ marginBottom: '1.5rem' }}>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: tailoredResume ? '0.75rem' : 0,
+        }}
+      >
+        <h2 className="section-title" style={{ margin: 0 }}>
+          Tailored Resume
+          {tailoredResume && (
+            <span
+              style={{
+                marginLeft: '0.5rem',
+                fontSize: '0.75rem',
+                fontWeight: 500,
+                color: isDraft ? 'var(--warning)' : 'var(--success)',
+              }}
+            >
+              {isDraft ? 'Draft' : 'Approved'}
+            </span>
+          )}
+        </h2>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.35rem' }}>
+          {tailoredResume?.status === 'approved' && (
+            <HoverDownloadMenu
+              label="⬇"
+              items={[
+                {
+                  label: 'Download DOCX',
+                  href: `/api/application-assistant/tailored-resume-download?analysisId=${analysisId}&format=docx`,
+                },
+                {
+                  label: 'Download PDF',
+                  href: `/api/application-assistant/tailored-resume-download?analysisId=${analysisId}&format=pdf`,
+                },
+              ]}
+            />
+          )}
+          <button
+            type="button"
+            className="btn"
+            style={{ fontSize: '0.75rem', padding: '0.3rem 0.6rem' }}
+            disabled={loading !== null}
+            onClick={() => request('POST')}
+          >
+            {loading === 'generate'
+              ? 'Tailoring…'
+              : tailoredResume
+                ? 'Regenerate'
+                : 'Tailor resume'}
+          </button>
+          {isDraft && (
+            <button
+              type="button"
+              className="btn btn-primary"
+              style={{ fontSize: '0.75rem', padding: '0.3rem 0.6rem' }}
+              disabled={loading !== null}
+              onClick={() => request('PATCH')}
+            >
+              {loading === 'approve' ? 'Approving…' : 'Approve'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {tailoredResume && (
+        <>
+          <p
+            style={{
+              margin: '0 0 0.75rem',
+              fontSize: '0.8125rem',
+              color: 'var(--muted-foreground)',
+            }}
+          >
+            {changedCount} bullet{changedCount === 1 ? '' : 's'} rewritten
+            {tailoredResume.rejectedEdits > 0 &&
+              `, ${tailoredResume.rejectedEdits} edit${tailoredResume.rejectedEdits === 1 ? '' : 's'} discarded for claims not in your resume`}
+            .{isDraft && ' Untick a rewrite to keep the original wording.'}
+            {tailoredResume.notes.length > 0 && ` ${tailoredResume.notes.join(' ')}`}
+          </p>
+          {tailoredResume.items.map((item, i) => (
+            <div key={i} style={{ marginBottom: '0.75rem' }}>
+              <div style={{ fontSize: '0.8125rem', fontWeight: 600, marginBottom: '0.25rem' }}>
+                {item.heading}
+                {item.subheading && (
+                  <span style={{ fontWeight: 400, color: 'var(--muted-foreground)' }}>
+                    {' '}
+                    — {item.subheading}
+                  </span>
+                )}
+              </div>
+              {item.bullets.map((b, j) => {
+                const key = `${i}.${j}`;
+                const kept = keepOriginal.has(key);
+                return (
+                  <div
+                    key={key}
+                    style={{
+                      display: 'flex',
+                      gap: '0.4rem',
+                      fontSize: '0.8125rem',
+                      color: 'var(--text-secondary)',
+                      marginBottom: '0.25rem',
+                      paddingLeft: '0.75rem',
+                      borderLeft: `2px solid ${b.changed && !kept ? 'var(--accent)' : 'var(--border)'}`,
+                    }}
+                  >
+                    {isDraft && b.changed && (
+                      <input
+                        type="checkbox"
+                        checked={!kept}
+                        onChange={() => toggleKeep(key)}
+                        title="Use the rewritten bullet"
+                      />
+                    )}
+                    <span title={b.rejectedReason}>
+                      {b.changed && b.diff && !kept
+                        ? b.diff.map((d, k) =>
+                            d.op === 'equal' ? (
+                              <span key={k}>{d.text}</span>
+                            ) : d.op === 'insert' ? (
+                              <span key={k} style={{ color: 'var(--success)', fontWeight: 500 }}>
+                                {d.text}
+                              </span>
+                            ) : isDraft ? (
+                              <span
+                                key={k}
+                                style={{ color: 'var(--error)', textDecoration: 'line-through' }}
+                              >
+                                {d.text}
+                              </span>
+                            ) : null,
+                          )
+                        : kept
+                          ? b.original
+                          : b.text}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -50,9 +50,11 @@ export function HeaderAuth({ user }: { user: User | null }) {
   const pathname = usePathname();
   const onDashboard = pathname === '/dashboard';
   const onAssistant = pathname?.startsWith('/application-assistant');
+  const onContacts = pathname?.startsWith('/contacts');
   const onProfileLike =
     pathname?.startsWith('/profile') ||
     pathname?.startsWith('/preferences') ||
+    pathname?.startsWith('/answer-bank') ||
     pathname?.startsWith('/admin');
 
   return (
@@ -83,6 +85,19 @@ export function HeaderAuth({ user }: { user: User | null }) {
       >
         Application Assistant
       </Link>
+      <Link
+        href="/contacts"
+        className={navLinkClass}
+        style={{
+          fontSize: '0.875rem',
+          padding: '0 0.5rem',
+          whiteSpace: 'nowrap',
+          textDecoration: 'none',
+          color: onContacts ? 'var(--accent)' : 'var(--text)',
+        }}
+      >
+        Contacts
+      </Link>
       <div
         ref={containerRef}
         style={{
@@ -188,6 +203,28 @@ export function HeaderAuth({ user }: { user: User | null }) {
             >
               Preferences
             </Link>
+            <Link
+              href="/answer-bank"
+              className={navLinkClass}
+              style={{
+                display: 'block',
+                padding: '0.625rem 1.25rem',
+                textDecoration: 'none',
+                color: 'var(--text)',
+                fontSize: '0.875rem',
+                transition: 'background 0.12s ease, color 0.12s ease',
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.background = 'rgba(255,255,255,0.06)';
+                e.currentTarget.style.color = 'var(--accent)';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.background = 'none';
+                e.currentTarget.style.color = 'var(--text)';
+              }}
+            >
+              Answer bank
+            </Link>
             {user.admin && (
               <Link
                 href="/admin"
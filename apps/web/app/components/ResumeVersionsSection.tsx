@@ -0,0 +1,229 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from './ToastContext';
+
+interface ResumeVersionSummary {
+  id: string;
+  name: string;
+  fileRef: string | null;
+  isDefault: boolean;
+  hasText: boolean;
+  skillsCount: number;
+  experienceCount: number;
+  educationCount: number;
+  projectsCount: number;
+  parsedAt: string | null;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem',
+  background: 'var(--surface)',
+  border: '1px solid var(--border)',
+  borderRadius: 4,
+  color: 'var(--text)',
+  cursor: 'pointer',
+  fontSize: '0.85rem',
+};
+
+/**
+ * Named resume versions (e.g. "Backend", "ML"). The Application Assistant auto-picks the
+ * best-fitting version per job, or uses the one pinned when starting an analysis.
+ */
+export function ResumeVersionsSection() {
+  const { addToast } = useToast();
+  const [versions, setVersions] = useState<ResumeVersionSummary[]>([]);
+  const [name, setName] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = useCallback(() => {
+    fetch('/api/profile/resumes', { cache: 'no-store' })
+      .then((r) => (r.ok ? r.json() : { resumes: [] }))
+      .then((d) => setVersions((d.resumes || []) as ResumeVersionSummary[]))
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const parseVersion = async (id: string) => {
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/profile/resumes/${id}/parse`, { method: 'POST' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        addToast(data.error || 'Failed to parse resume version', 'error');
+        return;
+      }
+      addToast('Resume version parsed.', 'success');
+    } finally {
+      setBusyId(null);
+      load();
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    if (!name.trim()) {
+      addToast('Name the version first (e.g. "Backend").', 'error');
+      return;
+    }
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('resume', file);
+      formData.append('name', name.trim());
+      const res = await fetch('/api/profile/resumes', { method: 'POST', body: formData });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        addToast(data.error || 'Failed to upload resume version', 'error');
+        return;
+      }
+      setName('');
+      load();
+      if (data.resume?.id) await parseVersion(data.resume.id);
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleSetDefault = async (id: string) => {
+    await fetch(`/api/profile/resumes/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isDefault: true }),
+    });
+    load();
+  };
+
+  const handleRename = async (version: ResumeVersionSummary) => {
+    const next = window.prompt('Rename resume version', version.name)?.trim();
+    if (!next || next === version.name) return;
+    const res = await fetch(`/api/profile/resumes/${version.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: next }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      addToast(data.error || 'Failed to rename', 'error');
+    }
+    load();
+  };
+
+  const handleDelete = async (version: ResumeVersionSummary) => {
+    if (!window.confirm(`Delete resume version "${version.name}"?`)) return;
+    await fetch(`/api/profile/resumes/${version.id}`, { method: 'DELETE' });
+    load();
+  };
+
+  return (
+    <section style={{ marginBottom: '2rem' }}>
+      <h2 style={{ fontSize: '1.2rem', marginBottom: '0.25rem' }}>Resume versions</h2>
+      <p style={{ margin: '0 0 1rem', color: 'var(--muted-foreground)', fontSize: '0.85rem' }}>
+        Keep role-specific resumes. The Application Assistant picks the best fit for each job, or
+        the one you pin when starting an analysis.
+      </p>
+
+      {versions.map((v) => (
+        <div
+          key={v.id}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '0.75rem',
+            padding: '0.75rem 1rem',
+            marginBottom: '0.5rem',
+            background: 'var(--surface)',
+            border: '1px solid var(--border)',
+            borderRadius: 8,
+          }}
+        >
+          <div style={{ minWidth: 0 }}>
+            <strong>{v.name}</strong>
+            {v.isDefault && (
+              <span style={{ marginLeft: 8, fontSize: '0.75rem', color: 'var(--accent)' }}>
+                Default
+              </span>
+            )}
+            <p
+              style={{
+                margin: '0.25rem 0 0',
+                color: 'var(--muted-foreground)',
+                fontSize: '0.8rem',
+              }}
+            >
+              {v.parsedAt
+                ? `${v.experienceCount} experiences · ${v.projectsCount} projects · ${v.skillsCount} skills`
+                : v.hasText
+                  ? 'Not parsed yet'
+                  : 'No text extracted'}
+            </p>
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+            <button
+              type="button"
+              style={buttonStyle}
+              onClick={() => parseVersion(v.id)}
+              disabled={busyId === v.id}
+            >
+              {busyId === v.id ? 'Parsing…' : v.parsedAt ? 'Re-parse' : 'Parse'}
+            </button>
+            {!v.isDefault && (
+              <button type="button" style={buttonStyle} onClick={() => handleSetDefault(v.id)}>
+                Make default
+              </button>
+            )}
+            <button type="button" style={buttonStyle} onClick={() => handleRename(v)}>
+              Rename
+            </button>
+            <button type="button" style={buttonStyle} onClick={() => handleDelete(v)}>
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem' }}>
+        <input
+          className="input"
+          placeholder="Version name (e.g. Backend, ML, Frontend)"
+          value={name}
+          maxLength={128}
+          onChange={(e) => setName(e.target.value)}
+          disabled={uploading}
+          style={{ flex: 1 }}
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".pdf,.docx,.doc,.txt"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleUpload(file);
+          }}
+          disabled={uploading}
+          style={{ display: 'none' }}
+          id="resume-version-upload"
+        />
+        <label
+          htmlFor="resume-version-upload"
+          style={{
+            ...buttonStyle,
+            display: 'inline-flex',
+            alignItems: 'center',
+            cursor: uploading || !name.trim() ? 'not-allowed' : 'pointer',
+            opacity: uploading || !name.trim() ? 0.6 : 1,
+            pointerEvents: uploading || !name.trim() ? 'none' : 'auto',
+          }}
+        >
+          {uploading ? 'Uploading…' : 'Upload version'}
+        </label>
+      </div>
+    </section>
+  );
+}
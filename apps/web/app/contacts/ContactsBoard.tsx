@@ -0,0 +1,328 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { ContactInteractionChannel, ContactInteractionOutcome } from '@careersignal/db';
+import type { CrmCompany, CrmContact } from '@/lib/contact-crm';
+import { useToast } from '../components/ToastContext';
+
+const CHANNELS: { id: ContactInteractionChannel; label: string }[] = [
+  { id: 'email', label: 'Email' },
+  { id: 'linkedin', label: 'LinkedIn' },
+  { id: 'phone', label: 'Phone' },
+  { id: 'other', label: 'Other' },
+];
+
+const OUTCOMES: { id: ContactInteractionOutcome; label: string }[] = [
+  { id: 'sent', label: 'Sent' },
+  { id: 'replied', label: 'Replied' },
+  { id: 'no_reply', label: 'No reply' },
+  { id: 'bounced', label: 'Bounced' },
+  { id: 'meeting', label: 'Meeting' },
+];
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '';
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+/** yyyy-mm-dd for <input type="date">. */
+function toDateInput(iso: string | null): string {
+  return iso ? iso.slice(0, 10) : '';
+}
+
+/** Latest outreach is still waiting on a reply and its follow-up date has passed. */
+function followUpDue(contact: CrmContact): boolean {
+  const latest = contact.interactions[0];
+  return (
+    !!latest?.followUpAt &&
+    new Date(latest.followUpAt).getTime() <= Date.now() &&
+    (latest.outcome === 'sent' || latest.outcome === 'no_reply')
+  );
+}
+
+export function ContactsBoard({ companies: initialCompanies }: { companies: CrmCompany[] }) {
+  const { addToast } = useToast();
+  const [companies, setCompanies] = useState(initialCompanies);
+  const [logFor, setLogFor] = useState<string | null>(null);
+  const [channel, setChannel] = useState<ContactInteractionChannel>('email');
+  const [outcome, setOutcome] = useState<ContactInteractionOutcome>('sent');
+  const [followUpAt, setFollowUpAt] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const refresh = async () => {
+    const data = await fetch('/api/contacts')
+      .then((r) => (r.ok ? r.json() : null))
+      .catch(() => null);
+    if (data) setCompanies((data as { companies: CrmCompany[] }).companies);
+  };
+
+  const updateInteraction = async (
+    id: string,
+    body: { outcome?: ContactInteractionOutcome; followUpAt?: string | null },
+  ) => {
+    const res = await fetch(`/api/contacts/interactions/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      addToast((data as { error?: string }).error ?? 'Failed to update interaction', 'error');
+      return;
+    }
+    await refresh();
+  };
+
+  const logInteraction = async (contactId: string) => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/contacts/interactions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contactId,
+          channel,
+          outcome,
+          note: note.trim() || undefined,
+          followUpAt: followUpAt ? new Date(followUpAt).toISOString() : undefined,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        addToast((data as { error?: string }).error ?? 'Failed to log interaction', 'error');
+        return;
+      }
+      setLogFor(null);
+      setNote('');
+      setFollowUpAt('');
+      await refresh();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dueCount = companies.flatMap((c) => c.contacts).filter(followUpDue).length;
+
+  if (companies.length === 0) {
+    return (
+      <div className="card">
+        <p style={{ margin: 0, color: 'var(--muted-foreground)' }}>
+          No contacts yet. Open an analysis in the{' '}
+          <Link href="/application-assistant">Application Assistant</Link>, draft outreach for a
+          contact and use “Mark as sent”.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      {dueCount > 0 && (
+        <div className="card" style={{ borderColor: 'var(--warning)' }}>
+          <strong>
+            {dueCount} follow-up{dueCount === 1 ? '' : 's'} due
+          </strong>{' '}
+          <span style={{ color: 'var(--muted-foreground)' }}>
+            — no reply yet and the follow-up date has passed.
+          </span>
+        </div>
+      )}
+      {companies.map((company) => (
+        <div key={company.companyId} className="card">
+          <h2 className="section-title" style={{ margin: '0 0 0.75rem 0' }}>
+            {company.companyName}
+          </h2>
+          {company.contacts.map((contact) => (
+            <div
+              key={contact.id}
+              style={{
+                padding: '0.75rem 0',
+                borderTop: '1px solid var(--border)',
+              }}
+            >
+              <div
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '0.5rem',
+                  flexWrap: 'wrap',
+                  marginBottom: '0.5rem',
+                }}
+              >
+                <strong>{contact.name}</strong>
+                {contact.role && (
+                  <span style={{ color: 'var(--muted-foreground)' }}>{contact.role}</span>
+                )}
+                {contact.linkedinUrl && (
+                  <a href={contact.linkedinUrl} target="_blank" rel="noopener noreferrer">
+                    LinkedIn
+                  </a>
+                )}
+                {contact.email && <a href={`mailto:${contact.email}`}>{contact.email}</a>}
+                {followUpDue(contact) && (
+                  <span style={{ color: 'var(--warning)', fontSize: '0.8125rem' }}>
+                    Follow-up due
+                  </span>
+                )}
+                <button
+                  type="button"
+                  className="btn"
+                  style={{ marginLeft: 'auto' }}
+                  onClick={() => setLogFor(logFor === contact.id ? null : contact.id)}
+                >
+                  Log interaction
+                </button>
+              </div>
+
+              {logFor === contact.id && (
+                <div
+                  style={{
+                    display: 'flex',
+                    gap: '0.5rem',
+                    flexWrap: 'wrap',
+                    alignItems: 'center',
+                    marginBottom: '0.5rem',
+                  }}
+                >
+                  <select
+                    className="input"
+                    style={{ width: 'auto' }}
+                    value={channel}
+                    onChange={(e) => setChannel(e.target.value as ContactInteractionChannel)}
+                  >
+                    {CHANNELS.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className="input"
+                    style={{ width: 'auto' }}
+                    value={outcome}
+                    onChange={(e) => setOutcome(e.target.value as ContactInteractionOutcome)}
+                  >
+                    {OUTCOMES.map((o) => (
+                      <option key={o.id} value={o.id}>
+                        {o.label}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    className="input"
+                    style={{ width: 'auto' }}
+                    title="Follow up on (defaults to a week out for sent messages)"
+                    value={followUpAt}
+                    onChange={(e) => setFollowUpAt(e.target.value)}
+                  />
+                  <input
+                    type="text"
+                    className="input"
+                    style={{ flex: 1, minWidth: 160 }}
+                    placeholder="Note (optional)"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                  <button
+                    type="button"
+                    className="btn btn-primary"
+                    disabled={saving}
+                    onClick={() => logInteraction(contact.id)}
+                  >
+                    {saving ? 'Saving…' : 'Save'}
+                  </button>
+                </div>
+              )}
+
+              {contact.interactions.length === 0 ? (
+                <p style={{ margin: 0, fontSize: '0.8125rem', color: 'var(--muted-foreground)' }}>
+                  No interactions logged yet.
+                </p>
+              ) : (
+                <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr style={{ textAlign: 'left', color: 'var(--muted-foreground)' }}>
+                      <th style={{ padding: '0.25rem 0.5rem 0.25rem 0' }}>Date</th>
+                      <th style={{ padding: '0.25rem 0.5rem' }}>Channel</th>
+                      <th style={{ padding: '0.25rem 0.5rem' }}>Job</th>
+                      <th style={{ padding: '0.25rem 0.5rem' }}>Outcome</th>
+                      <th style={{ padding: '0.25rem 0.5rem' }}>Follow up</th>
+                      <th style={{ padding: '0.25rem 0 0.25rem 0.5rem' }}>Note</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {contact.interactions.map((interaction) => (
+                      <tr key={interaction.id} style={{ borderTop: '1px solid var(--border)' }}>
+                        <td style={{ padding: '0.35rem 0.5rem 0.35rem 0', whiteSpace: 'nowrap' }}>
+                          {formatDate(interaction.occurredAt)}
+                        </td>
+                        <td style={{ padding: '0.35rem 0.5rem' }}>
+                          {CHANNELS.find((c) => c.id === interaction.channel)?.label}
+                        </td>
+                        <td style={{ padding: '0.35rem 0.5rem' }}>
+                          {interaction.analysisId ? (
+                            <Link href={`/application-assistant/${interaction.analysisId}`}>
+                              {interaction.jobTitle ?? 'Analysis'}
+                            </Link>
+                          ) : (
+                            '—'
+                          )}
+                        </td>
+                        <td style={{ padding: '0.35rem 0.5rem' }}>
+                          <select
+                            className="input"
+                            style={{ width: 'auto', padding: '0.2rem 0.4rem' }}
+                            value={interaction.outcome}
+                            onChange={(e) =>
+                              updateInteraction(interaction.id, {
+                                outcome: e.target.value as ContactInteractionOutcome,
+                              })
+                            }
+                          >
+                            {OUTCOMES.map((o) => (
+                              <option key={o.id} value={o.id}>
+                                {o.label}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td style={{ padding: '0.35rem 0.5rem' }}>
+                          <input
+                            type="date"
+                            className="input"
+                            style={{ width: 'auto', padding: '0.2rem 0.4rem' }}
+                            value={toDateInput(interaction.followUpAt)}
+                            onChange={(e) =>
+                              updateInteraction(interaction.id, {
+                                followUpAt: e.target.value
+                                  ? new Date(e.target.value).toISOString()
+                                  : null,
+                              })
+                            }
+                          />
+                        </td>
+                        <td
+                          style={{ padding: '0.35rem 0 0.35rem 0.5rem' }}
+                          title={
+                            interaction.draft
+                              ? String((interaction.draft as { body?: string }).body ?? '')
+                              : undefined
+                          }
+                        >
+                          {interaction.note ?? (interaction.draft ? 'Draft sent' : '—')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
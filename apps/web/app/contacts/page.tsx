@@ -0,0 +1,38 @@
+import Link from 'next/link';
+import { getSessionUser } from '@/lib/auth';
+import { getDb } from '@careersignal/db';
+import { listUserContactsByCompany } from '@/lib/contact-crm';
+import { ContactsBoard } from './ContactsBoard';
+
+export const dynamic = 'force-dynamic';
+
+export default async function ContactsPage() {
+  const user = await getSessionUser();
+  if (!user) {
+    return (
+      <div className="page-head">
+        <h1>Contacts</h1>
+        <p>Sign in to see the people you have reached out to.</p>
+        <Link href="/signin" className="btn btn-primary" style={{ marginTop: '1rem' }}>
+          Sign in
+        </Link>
+      </div>
+    );
+  }
+
+  const companies = await listUserContactsByCompany(getDb(), user.id);
+
+  return (
+    <>
+      <div className="page-head">
+        <h1>Contacts</h1>
+        <p>
+          People your analyses found for outreach and the ones you have reached out to, by company.
+          Mark an outreach as sent from an Application Assistant draft or log it here, then record
+          replies and follow-ups.
+        </p>
+      </div>
+      <ContactsBoard companies={companies} />
+    </>
+  );
+}
@@ -0,0 +1,366 @@
+'use client';
+
+import Link from 'next/link';
+import { useMemo, useState } from 'react';
+import type { ApplicationStatus } from '@careersignal/db';
+import { useToast } from '../components/ToastContext';
+import { computePipelineFunnel, formatRate, PIPELINE_STAGES } from '@/lib/application-pipeline';
+
+export type PipelineBoardItem = {
+  id: string;
+  title: string;
+  company: string;
+  matchGrade: string | null;
+  matchScore: number | null;
+  status: ApplicationStatus;
+  nextAction: string | null;
+  /** ISO date string. */
+  nextActionAt: string | null;
+  /** ISO date string; set when the freshness monitor found the posting closed. */
+  jobClosedAt: string | null;
+};
+
+export type PipelineBoardEvent = {
+  analysisId: string;
+  fromStatus: ApplicationStatus | null;
+  toStatus: ApplicationStatus;
+  note: string | null;
+  /** ISO date string. */
+  occurredAt: string;
+};
+
+const STAGE_LABEL = Object.fromEntries(PIPELINE_STAGES.map((s) => [s.id, s.label])) as Record<
+  ApplicationStatus,
+  string
+>;
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '';
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function isOverdue(iso: string | null): boolean {
+  return !!iso && new Date(iso).getTime() < Date.now();
+}
+
+export function ApplicationPipelineBoard({
+  items: initialItems,
+  events: initialEvents,
+}: {
+  items: PipelineBoardItem[];
+  events: PipelineBoardEvent[];
+}) {
+  const { addToast } = useToast();
+  const [items, setItems] = useState(initialItems);
+  const [events, setEvents] = useState(initialEvents);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+
+  const funnel = useMemo(() => computePipelineFunnel(items, events), [items, events]);
+
+  const submit = async (
+    id: string,
+    body: {
+      status?: ApplicationStatus;
+      note?: string;
+      nextAction?: string | null;
+      nextActionAt?: string | null;
+    },
+  ) => {
+    const prevItems = items;
+    const prevEvents = events;
+    const item = items.find((i) => i.id === id);
+    if (!item) return;
+    const toStatus = body.status ?? item.status;
+    setItems((list) =>
+      list.map((i) =>
+        i.id === id
+          ? {
+              ...i,
+              status: toStatus,
+              ...(body.nextAction !== undefined && { nextAction: body.nextAction }),
+              ...(body.nextActionAt !== undefined && { nextActionAt: body.nextActionAt }),
+            }
+          : i,
+      ),
+    );
+    if (toStatus !== item.status || body.note) {
+      setEvents((list) => [
+        ...list,
+        {
+          analysisId: id,
+          fromStatus: item.status,
+          toStatus,
+          note: body.note ?? null,
+          occurredAt: new Date().toISOString(),
+        },
+      ]);
+    }
+    try {
+      const res = await fetch(`/api/application-assistant/analyses/${id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? 'Failed to update application status');
+      }
+    } catch (e) {
+      setItems(prevItems);
+      setEvents(prevEvents);
+      addToast(e instanceof Error ? e.message : 'Failed to update application status', 'error');
+    }
+  };
+
+  const open = items.find((i) => i.id === openId) ?? null;
+  const openHistory = open ? events.filter((e) => e.analysisId === open.id) : [];
+
+  return (
+    <div>
+      <div
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          gap: '1.25rem',
+          marginBottom: '1rem',
+          fontSize: '0.875rem',
+        }}
+      >
+        {funnel.steps.map((s) => (
+          <div key={s.to}>
+            <span style={{ color: 'var(--muted-foreground)' }}>
+              {s.from === 'all' ? 'Analyzed' : STAGE_LABEL[s.from]} → {STAGE_LABEL[s.to]}
+            </span>{' '}
+            <strong>{formatRate(s.rate)}</strong>{' '}
+            <span style={{ color: 'var(--muted-foreground)', fontSize: '0.75rem' }}>
+              ({s.toCount}/{s.fromCount})
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(${PIPELINE_STAGES.length}, minmax(150px, 1fr))`,
+          gap: '0.75rem',
+          overflowX: 'auto',
+          paddingBottom: '0.25rem',
+        }}
+      >
+        {PIPELINE_STAGES.map((stage) => {
+          const stageItems = items.filter((i) => i.status === stage.id);
+          return (
+            <div
+              key={stage.id}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                const item = items.find((i) => i.id === dragId);
+                if (item && item.status !== stage.id) void submit(item.id, { status: stage.id });
+                setDragId(null);
+              }}
+              style={{
+                background: 'var(--surface-elevated)',
+                border: '1px solid var(--border)',
+                borderRadius: 8,
+                padding: '0.5rem',
+                minHeight: 120,
+              }}
+            >
+              <div
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  fontSize: '0.8125rem',
+                  fontWeight: 600,
+                  marginBottom: '0.5rem',
+                }}
+              >
+                <span>{stage.label}</span>
+                <span style={{ color: 'var(--muted-foreground)' }}>{stageItems.length}</span>
+              </div>
+              {stageItems.map((item) => (
+                <div
+                  key={item.id}
+                  draggable
+                  onDragStart={() => setDragId(item.id)}
+                  onClick={() => {
+                    setOpenId(openId === item.id ? null : item.id);
+                    setNote('');
+                  }}
+                  style={{
+                    background: 'var(--surface)',
+                    border: `1px solid ${openId === item.id ? 'var(--accent)' : 'var(--border)'}`,
+                    borderRadius: 6,
+                    padding: '0.5rem',
+                    marginBottom: '0.4rem',
+                    cursor: 'grab',
+                    fontSize: '0.8125rem',
+                  }}
+                >
+                  <div style={{ fontWeight: 600, color: 'var(--text)' }}>{item.title}</div>
+                  <div style={{ color: 'var(--muted-foreground)' }}>
+                    {item.company}
+                    {item.matchGrade && ` · ${item.matchGrade}`}
+                  </div>
+                  {item.jobClosedAt && (
+                    <div
+                      title={`Posting closed ${formatDate(item.jobClosedAt)}`}
+                      style={{ marginTop: '0.25rem', fontSize: '0.75rem', color: 'var(--error)' }}
+                    >
+                      Posting closed
+                    </div>
+                  )}
+                  {item.nextActionAt && (
+                    <div
+                      style={{
+                        marginTop: '0.25rem',
+                        fontSize: '0.75rem',
+                        color: isOverdue(item.nextActionAt) ? 'var(--error)' : 'var(--accent)',
+                      }}
+                    >
+                      {item.nextAction || 'Next action'} · {formatDate(item.nextActionAt)}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {open && (
+        <div
+          style={{
+            marginTop: '1rem',
+            padding: '1rem',
+            border: '1px solid var(--border)',
+            borderRadius: 8,
+            fontSize: '0.875rem',
+          }}
+        >
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: '0.75rem',
+              flexWrap: 'wrap',
+              marginBottom: '0.75rem',
+            }}
+          >
+            <Link href={`/application-assistant/${open.id}`} style={{ fontWeight: 600 }}>
+              {open.title} — {open.company}
+            </Link>
+            <select
+              className="input"
+              value={open.status}
+              onChange={(e) => submit(open.id, { status: e.target.value as ApplicationStatus })}
+              style={{ width: 'auto' }}
+            >
+              {PIPELINE_STAGES.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div
+            style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.75rem' }}
+          >
+            <input
+              className="input"
+              placeholder="Next action (e.g. Follow up with recruiter)"
+              defaultValue={open.nextAction ?? ''}
+              key={`action-${open.id}`}
+              onBlur={(e) => {
+                const value = e.target.value.trim() || null;
+                if (value !== open.nextAction) void submit(open.id, { nextAction: value });
+              }}
+              style={{ flex: 1, minWidth: 200 }}
+            />
+            <input
+              className="input"
+              type="date"
+              value={open.nextActionAt ? open.nextActionAt.slice(0, 10) : ''}
+              onChange={(e) =>
+                submit(open.id, {
+                  nextActionAt: e.target.value ? new Date(e.target.value).toISOString() : null,
+                })
+              }
+              style={{ width: 'auto' }}
+            />
+          </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!note.trim()) return;
+              void submit(open.id, { note: note.trim() });
+              setNote('');
+            }}
+            style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.75rem' }}
+          >
+            <input
+              className="input"
+              placeholder="Add a note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              style={{ flex: 1 }}
+            />
+            <button type="submit" className="btn" disabled={!note.trim()}>
+              Add
+            </button>
+          </form>
+
+          {openHistory.length > 0 && (
+            <ul style={{ margin: 0, paddingLeft: '1rem', color: 'var(--text-secondary)' }}>
+              {openHistory.map((e, i) => (
+                <li key={i} style={{ marginBottom: '0.25rem' }}>
+                  <span style={{ color: 'var(--muted-foreground)' }}>
+                    {formatDate(e.occurredAt)}
+                  </span>{' '}
+                  {e.fromStatus !== e.toStatus &&
+                    `${e.fromStatus ? STAGE_LABEL[e.fromStatus] : '—'} → ${STAGE_LABEL[e.toStatus]}`}
+                  {e.note && (e.fromStatus !== e.toStatus ? ` — ${e.note}` : e.note)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {funnel.byGrade.length > 1 && (
+        <table style={{ marginTop: '1rem', fontSize: '0.8125rem', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ color: 'var(--muted-foreground)', textAlign: 'left' }}>
+              <th style={{ padding: '0.25rem 0.75rem 0.25rem 0' }}>Match grade</th>
+              <th style={{ padding: '0.25rem 0.75rem' }}>Jobs</th>
+              {funnel.steps.map((s) => (
+                <th key={s.to} style={{ padding: '0.25rem 0.75rem' }}>
+                  → {STAGE_LABEL[s.to]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {funnel.byGrade.map((g) => (
+              <tr key={g.grade}>
+                <td style={{ padding: '0.25rem 0.75rem 0.25rem 0', fontWeight: 600 }}>{g.grade}</td>
+                <td style={{ padding: '0.25rem 0.75rem' }}>{g.total}</td>
+                {g.steps.map((s) => (
+                  <td key={s.to} style={{ padding: '0.25rem 0.75rem' }}>
+                    {formatRate(s.rate)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -5,12 +5,18 @@ import {
   getProfileByUserId,
   getPreferencesByUserId,
   listAnalysesByUser,
+  listApplicationStatusEventsByUser,
   listJobListingsWithCompany,
   normalizeJobDedupeKey,
 } from '@careersignal/db';
 import { ParsingStatusBadge } from '../components/ParsingStatusBadge';
 import { ApplicationAssistantStatusBadge } from '../components/ApplicationAssistantStatusBadge';
 import { JobRecommendationsCarousel, type JobRecommendation } from './JobRecommendationsCarousel';
+import {
+  ApplicationPipelineBoard,
+  type PipelineBoardEvent,
+  type PipelineBoardItem,
+} from './ApplicationPipelineBoard';
 
 export const dynamic = 'force-dynamic';
 
@@ -29,11 +35,12 @@ export default async function DashboardPage() {
   }
 
   const db = getDb();
-  const [profile, preferences, analyses, jobListings] = await Promise.all([
+  const [profile, preferences, analyses, jobListings, statusEvents] = await Promise.all([
     getProfileByUserId(db, user.id),
     getPreferencesByUserId(db, user.id),
     listAnalysesByUser(db, user.id),
     listJobListingsWithCompany(db, { status: 'OPEN', limit: 30 }),
+    listApplicationStatusEventsByUser(db, user.id),
   ]);
 
   // Map normalized analysis URL -> { id, matchScore, matchGrade, company } so we can show score and company when a listing was analyzed
@@ -92,6 +99,32 @@ export default async function DashboardPage() {
           };
         });
 
+  // Kanban: analyses that extracted a job (failed runs have nothing to track)
+  const pipelineItems: PipelineBoardItem[] = (analyses ?? [])
+    .filter((a) => a.jobSummary)
+    .map((a) => {
+      const js = (a.jobSummary as { title?: string; company?: string } | null) ?? {};
+      const snap = (a.companySnapshot as { name?: string } | null) ?? {};
+      return {
+        id: a.id,
+        title: js.title ?? 'Job',
+        company: js.company ?? snap.name ?? 'Company',
+        matchGrade: a.matchGrade ?? null,
+        matchScore: a.matchScore != null ? Number(a.matchScore) : null,
+        status: a.applicationStatus,
+        nextAction: a.nextAction ?? null,
+        nextActionAt: a.nextActionAt ? a.nextActionAt.toISOString() : null,
+        jobClosedAt: a.jobClosedAt ? a.jobClosedAt.toISOString() : null,
+      };
+    });
+  const pipelineEvents: PipelineBoardEvent[] = (statusEvents ?? []).map((e) => ({
+    analysisId: e.analysisId,
+    fromStatus: e.fromStatus,
+    toStatus: e.toStatus,
+    note: e.note,
+    occurredAt: e.occurredAt.toISOString(),
+  }));
+
   const cards = [
     {
       title: 'Profile',
@@ -208,6 +241,29 @@ export default async function DashboardPage() {
         )}
       </div>
 
+      {pipelineItems.length > 0 && (
+        <div
+          className="card"
+          style={{
+            marginBottom: '1.25rem',
+            padding: '1.25rem 1.5rem',
+          }}
+        >
+          <h2
+            style={{
+              margin: 0,
+              marginBottom: '0.75rem',
+              fontSize: '1.05rem',
+              fontWeight: 600,
+              color: 'var(--text)',
+            }}
+          >
+            Applications
+          </h2>
+          <ApplicationPipelineBoard items={pipelineItems} events={pipelineEvents} />
+        </div>
+      )}
+
       <div
         style={{
           display: 'grid',
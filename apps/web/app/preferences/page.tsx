@@ -4,7 +4,12 @@ import { useEffect, useState, useCallback } from 'react';
 import { useToast } from '../components/ToastContext';
 import { useReportAction } from '../components/UserActivityProvider';
 import { COUNTRY_NAMES, getStatesForCountry } from '@/lib/location-data';
-import type { PreferencesPutBody, TargetLocationInput } from '@careersignal/schemas';
+import type {
+  HardFilterDimensionInput,
+  PreferencesPutBody,
+  ScoringWeightsInput,
+  TargetLocationInput,
+} from '@careersignal/schemas';
 
 const WORK_AUTH_OPTIONS = ['US_CITIZEN', 'GREEN_CARD', 'H1B', 'OPT', 'EAD', 'OTHER'] as const;
 const REMOTE_OPTIONS = ['REMOTE', 'HYBRID', 'ONSITE', 'ANY'] as const;
@@ -30,6 +35,39 @@ const EMPLOYMENT_TYPES = [
 ] as const;
 const STRICT_OPTIONS = ['STRICT', 'SEMI_STRICT', 'OFF'] as const;
 const MAX_CONTACTS_OPTIONS = [1, 2, 3, 5] as const;
+// Mirrors DEFAULT_SCORING_WEIGHTS in agents/src/rank/types.ts
+const DEFAULT_SCORING_WEIGHTS: ScoringWeightsInput = {
+  visa: 25,
+  location: 15,
+  seniority: 15,
+  remote: 10,
+  employment: 5,
+  skills: 15,
+  experience: 5,
+  industry: 5,
+  compensation: 5,
+};
+const SCORING_WEIGHT_LABELS: { key: keyof ScoringWeightsInput; label: string }[] = [
+  { key: 'visa', label: 'Visa' },
+  { key: 'location', label: 'Location' },
+  { key: 'seniority', label: 'Seniority' },
+  { key: 'remote', label: 'Remote' },
+  { key: 'employment', label: 'Employment type' },
+  { key: 'skills', label: 'Skills' },
+  { key: 'experience', label: 'Experience' },
+  { key: 'industry', label: 'Industry' },
+  { key: 'compensation', label: 'Compensation' },
+];
+const HARD_FILTER_OPTIONS: { value: HardFilterDimensionInput; label: string }[] = [
+  { value: 'visa', label: 'Visa' },
+  { value: 'location', label: 'Location' },
+  { value: 'seniority', label: 'Seniority' },
+  { value: 'remote', label: 'Remote' },
+  { value: 'employment', label: 'Employment type' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'compensation', label: 'Salary' },
+];
+const DEFAULT_HARD_FILTERS: HardFilterDimensionInput[] = ['visa', 'location', 'seniority'];
 const CONTACT_ROLE_OPTIONS = [
   'HIRING_MANAGER',
   'ENG_MANAGER',
@@ -121,6 +159,8 @@ const defaultForm: PreferencesPutBody = {
   salary_max: undefined,
   salary_currency: null,
   strict_filter_level: 'STRICT',
+  scoring_weights: null,
+  hard_filter_dimensions: DEFAULT_HARD_FILTERS,
   max_contacts_per_job: 2,
   email_updates_enabled: false,
   email_min_match_score: 60,
@@ -169,6 +209,8 @@ export default function PreferencesPage() {
             salary_max: d.salary_max ?? undefined,
             salary_currency: d.salary_currency ?? null,
             strict_filter_level: d.strict_filter_level ?? 'STRICT',
+            scoring_weights: d.scoring_weights ?? null,
+            hard_filter_dimensions: d.hard_filter_dimensions ?? DEFAULT_HARD_FILTERS,
             max_contacts_per_job: d.max_contacts_per_job ?? 2,
             email_updates_enabled: d.email_updates_enabled ?? false,
             email_min_match_score: d.email_min_match_score ?? null,
@@ -195,8 +237,22 @@ export default function PreferencesPage() {
     load();
   }, [load]);
 
+  const weights = form.scoring_weights ?? DEFAULT_SCORING_WEIGHTS;
+  const weightsTotal = Object.values(weights).reduce((sum, w) => sum + w, 0);
+
+  const setWeight = (key: keyof ScoringWeightsInput, value: number) => {
+    setForm((f) => ({
+      ...f,
+      scoring_weights: { ...(f.scoring_weights ?? DEFAULT_SCORING_WEIGHTS), [key]: value },
+    }));
+  };
+
   const save = (e: React.FormEvent) => {
     e.preventDefault();
+    if (weightsTotal !== 100) {
+      addToast(`Scoring weights must sum to 100 (currently ${weightsTotal})`, 'error');
+      return;
+    }
     const payload = {
       ...form,
       target_locations: form.target_locations.filter((loc) => loc.country?.trim()),
@@ -299,6 +355,9 @@ export default function PreferencesPage() {
           salary_max: data.salary_max ?? undefined,
           salary_currency: data.salary_currency ?? null,
           strict_filter_level: data.strict_filter_level ?? 'STRICT',
+          // Scoring settings are not derived from the profile; keep the current ones.
+          scoring_weights: form.scoring_weights,
+          hard_filter_dimensions: form.hard_filter_dimensions,
           max_contacts_per_job: data.max_contacts_per_job ?? 2,
           outreach_tone: data.outreach_tone ?? null,
           cover_letter_tone: data.cover_letter_tone ?? [],
@@ -782,6 +841,12 @@ export default function PreferencesPage() {
               style={{ width: '6rem' }}
             />
           </div>
+          <p
+            style={{ fontSize: '0.8rem', color: 'var(--muted-foreground)', marginTop: '0.4rem' }}
+          >
+            Annual amounts. Job salaries are annualized and converted to this currency for the
+            compensation score.
+          </p>
         </div>
 
         <div className="card" style={{ marginBottom: '1.25rem' }}>
@@ -816,10 +881,105 @@ export default function PreferencesPage() {
                 marginTop: '0.35rem',
               }}
             >
-              Strict: exclude jobs that fail visa, location, or seniority. Semi-strict: exclude only
-              when two or more fail. Off: show all jobs.
+              Strict: exclude jobs that fail any hard filter below. Semi-strict: exclude only when
+              two or more fail. Off: show all jobs.
             </p>
           </div>
+          <div style={{ marginBottom: '1rem' }}>
+            <label className="label">Hard filters</label>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+              {HARD_FILTER_OPTIONS.map((o) => {
+                const selected = (form.hard_filter_dimensions ?? []).includes(o.value);
+                return (
+                  <button
+                    key={o.value}
+                    type="button"
+                    onClick={() => {
+                      setForm((f) => ({
+                        ...f,
+                        hard_filter_dimensions: selected
+                          ? (f.hard_filter_dimensions ?? []).filter((x) => x !== o.value)
+                          : [...(f.hard_filter_dimensions ?? []), o.value],
+                      }));
+                    }}
+                    style={{
+                      padding: '0.5rem 1rem',
+                      borderRadius: 8,
+                      border: `1px solid ${selected ? 'var(--accent)' : 'var(--border)'}`,
+                      background: selected ? 'var(--accent-muted)' : 'var(--surface-elevated)',
+                      color: selected ? 'var(--accent)' : 'var(--text-secondary)',
+                      fontSize: '0.875rem',
+                      fontWeight: selected ? 600 : 500,
+                      cursor: 'pointer',
+                      transition:
+                        'border-color 0.15s ease, background 0.15s ease, color 0.15s ease',
+                    }}
+                  >
+                    {o.label}
+                  </button>
+                );
+              })}
+            </div>
+            <p
+              style={{ fontSize: '0.8rem', color: 'var(--muted-foreground)', marginTop: '0.4rem' }}
+            >
+              A mismatch on any selected dimension counts as a strict-filter failure. Default is
+              visa, location and seniority.
+            </p>
+          </div>
+          <div style={{ marginBottom: '1rem' }}>
+            <label className="label">Scoring weights</label>
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fill, minmax(9rem, 1fr))',
+                gap: '0.5rem',
+              }}
+            >
+              {SCORING_WEIGHT_LABELS.map(({ key, label }) => (
+                <label
+                  key={key}
+                  style={{ display: 'flex', flexDirection: 'column', fontSize: '0.85rem' }}
+                >
+                  <span style={{ color: 'var(--text-secondary)' }}>{label}</span>
+                  <input
+                    type="number"
+                    className="input"
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={weights[key]}
+                    onChange={(e) => setWeight(key, e.target.value ? Number(e.target.value) : 0)}
+                  />
+                </label>
+              ))}
+            </div>
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.75rem',
+                marginTop: '0.4rem',
+                fontSize: '0.8rem',
+              }}
+            >
+              <span
+                style={{
+                  color: weightsTotal === 100 ? 'var(--muted-foreground)' : 'var(--destructive)',
+                }}
+              >
+                Total: {weightsTotal} / 100
+              </span>
+              <button
+                type="button"
+                className="btn btn-ghost"
+                disabled={!form.scoring_weights}
+                onClick={() => setForm((f) => ({ ...f, scoring_weights: null }))}
+              >
+                Reset to defaults
+              </button>
+            </div>
+          </div>
           <div>
             <label className="label">Max contacts per job</label>
             <select
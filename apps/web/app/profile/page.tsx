@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { ParsingTerminal } from '../components/ParsingTerminal';
+import { ResumeVersionsSection } from '../components/ResumeVersionsSection';
 import { useToast } from '../components/ToastContext';
 import { useReportAction } from '../components/UserActivityProvider';
 
@@ -2341,6 +2342,8 @@ export default function ProfilePage() {
         )}
       </section>
 
+      <ResumeVersionsSection />
+
       {/* Basic Info Section */}
       <section style={{ marginBottom: '2rem' }}>
         <div
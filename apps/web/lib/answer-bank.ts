@@ -0,0 +1,175 @@
+/**
+ * Answer bank helpers: fill the analysis's apply-form answer sheet from the user's saved
+ * answers, draft answers to open questions, and save approved answers back to the bank
+ * (generally or as an override for the job's company).
+ */
+
+import {
+  applyAnswerBank,
+  customQuestionKey,
+  draftApplicationAnswer,
+  isCompanySpecificQuestion,
+  isSensitiveQuestion,
+  matchFieldsToAnswerBank,
+  COMMON_QUESTIONS,
+  type AnswerBankEntry,
+  type AnswerSheet,
+  type FormAnswer,
+  type JobDetail,
+  type ProfileSnapshot,
+} from '@careersignal/agents';
+import {
+  findCompanyByNameOrDomain,
+  getProfileByUserId,
+  listApplicationAnswers,
+  updateAnalysis,
+  upsertApplicationAnswer,
+  upsertCompanyEnrichment,
+  type AnalysisRow,
+  type ApplicationAnswerRow,
+  type getDb,
+} from '@careersignal/db';
+
+type Db = ReturnType<typeof getDb>;
+
+function toEntry(row: ApplicationAnswerRow): AnswerBankEntry {
+  return {
+    id: row.id,
+    questionKey: row.questionKey,
+    question: row.question,
+    answer: row.answer,
+    companyId: row.companyId,
+  };
+}
+
+/** The job's company row id; with create, a pending company row is added when unknown. */
+export async function companyIdForAnalysis(
+  db: Db,
+  analysis: Pick<AnalysisRow, 'jobSummary'>,
+  create = false,
+): Promise<string | null> {
+  const name = String((analysis.jobSummary as { company?: unknown } | null)?.company ?? '').trim();
+  if (!name) return null;
+  const company =
+    (await findCompanyByNameOrDomain(db, { name })) ??
+    (create ? await upsertCompanyEnrichment(db, { name, enrichmentStatus: 'PENDING' }) : null);
+  return company?.id ?? null;
+}
+
+/**
+ * Fill the answer sheet's empty fields from the user's answer bank, including profile-mapped
+ * fields the profile had no value for (e.g. sponsorship). Files are left to the resume step.
+ */
+export async function fillFromAnswerBank(
+  db: Db,
+  userId: string,
+  analysis: Pick<AnalysisRow, 'jobSummary'>,
+  sheet: AnswerSheet,
+): Promise<AnswerSheet> {
+  const questions = sheet.answers.filter((a) => !a.value && a.type !== 'FILE');
+  if (questions.length === 0) return sheet;
+  const [rows, companyId] = await Promise.all([
+    listApplicationAnswers(db, userId),
+    companyIdForAnalysis(db, analysis),
+  ]);
+  const matches = await matchFieldsToAnswerBank(questions, rows.map(toEntry), { companyId });
+  return applyAnswerBank(sheet, matches);
+}
+
+/** The answer sheet's field with this name, or null (also when the analysis has no sheet). */
+export function answerSheetField(analysis: AnalysisRow, fieldName: string): FormAnswer | null {
+  const sheet = analysis.applicationBlueprint as unknown as AnswerSheet | null;
+  return sheet?.answers?.find((a) => a.name === fieldName) ?? null;
+}
+
+/** Question key for a form field: its matched common question, else one from its label. */
+export function questionKeyForField(field: FormAnswer): string {
+  return field.questionKey ?? customQuestionKey(field.label);
+}
+
+export function isSensitiveField(field: FormAnswer): boolean {
+  return isSensitiveQuestion(questionKeyForField(field));
+}
+
+/** Questions about the job's company (why_company, ...): answered per company, not in general. */
+export function isCompanySpecificField(field: FormAnswer): boolean {
+  return !!field.companySpecific || isCompanySpecificQuestion(questionKeyForField(field));
+}
+
+/**
+ * Draft an answer to one form question from the job, company research and profile. Not
+ * saved: the user edits it and approves it via saveApprovedAnswer. '' when drafting failed.
+ */
+export async function draftFormAnswer(
+  db: Db,
+  userId: string,
+  analysis: AnalysisRow,
+  field: FormAnswer,
+  job: JobDetail,
+): Promise<string> {
+  const profile = await getProfileByUserId(db, userId);
+  const snapshot: ProfileSnapshot | null = profile
+    ? {
+        name: profile.name,
+        location: profile.location ?? null,
+        workAuthorization: profile.workAuthorization ?? null,
+        seniority: profile.seniority ?? null,
+        targetRoles: (profile.targetRoles as string[]) ?? [],
+        skills: (profile.skills as string[]) ?? [],
+        experience: (profile.experience as { title: string; company: string }[]) ?? [],
+        education: (profile.education as { institution: string; degree?: string }[]) ?? [],
+        resumeRawText: profile.resumeRawText ?? null,
+      }
+    : null;
+  return draftApplicationAnswer(field.label, job, {
+    profile: snapshot,
+    companyResearch: analysis.companyResearch,
+    options: field.type === 'CHECKBOX' ? undefined : field.options,
+  });
+}
+
+/**
+ * Save the user's approved answer to the bank (general, or an override for companyId) and put
+ * it on the analysis's answer sheet. Returns the updated sheet. Company-specific questions need
+ * a companyId (see isCompanySpecificField).
+ */
+export async function saveApprovedAnswer(
+  db: Db,
+  userId: string,
+  analysis: AnalysisRow,
+  field: FormAnswer,
+  data: { answer: string; companyId: string | null },
+): Promise<AnswerSheet> {
+  const questionKey = questionKeyForField(field);
+  await upsertApplicationAnswer(db, {
+    userId,
+    questionKey,
+    question: COMMON_QUESTIONS.find((q) => q.key === questionKey)?.question ?? field.label,
+    answer: data.answer,
+    companyId: data.companyId,
+  });
+
+  const sheet = analysis.applicationBlueprint as unknown as AnswerSheet;
+  const answers = sheet.answers.map((a) =>
+    a.name === field.name
+      ? {
+          ...a,
+          questionKey,
+          ...(isCompanySpecificField(a) ? { companySpecific: true } : {}),
+          value: data.answer,
+          confidence: 1,
+          needsInput: false,
+          source: 'answer_bank' as const,
+        }
+      : a,
+  );
+  const updated = {
+    ...sheet,
+    answers,
+    unansweredRequired: answers.filter((a) => a.needsInput).length,
+  };
+  await updateAnalysis(db, analysis.id, {
+    applicationBlueprint: updated as unknown as Record<string, unknown>,
+  });
+  return updated;
+}
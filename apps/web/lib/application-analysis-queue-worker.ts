@@ -1,184 +1,253 @@
 /**
- * In-process worker for application analysis queue (CSV upload).
- * One worker per user; admin starts via Play; Hard stop sets flag so loop exits after current URL.
+ * Durable worker for the application analysis queue (CSV upload).
+ * Queue rows live in Postgres and are leased with FOR UPDATE SKIP LOCKED, so several slots
+ * (and several processes) can drain the queue without double-claiming. A heartbeat extends
+ * the lease while the pipeline runs and aborts the run if the lease was lost; rows left
+ * 'running' by a crash are reclaimed once their lease expires. Failed URLs retry with exponential backoff until max attempts, then go 'dead'.
+ *
+ * One pool per scope: a single user's queue (Play) or all priority users (global Play).
+ * Hard stop sets a flag so slots exit after the current URL; the interrupted row is released
+ * back to pending without counting as an attempt.
  */
 
-import { getDb, getNextPendingForUser, updateQueueRow, insertAnalysis } from '@careersignal/db';
-import { applicationAnalysisQueue as table, users } from '@careersignal/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { hostname } from 'node:os';
+import {
+  getDb,
+  insertAnalysis,
+  getAnalysisById,
+  getAnalysisLogs,
+  updateQueueRow,
+  claimNextQueueRow,
+  heartbeatQueueRow,
+  completeQueueRow,
+  failQueueRow,
+  releaseQueueRow,
+  reclaimExpiredQueueLeases,
+  getNextQueueRunAfter,
+  type QueueRow,
+} from '@careersignal/db';
 import { runApplicationAssistantPipeline } from '@/lib/application-assistant-runner';
+import { hasAssistantCapacity } from '@/lib/application-assistant-state';
 
 const DELAY_BETWEEN_JOBS_MS = 10_000; // 10s so user sees transition
+const LEASE_MS = 2 * 60_000;
+const HEARTBEAT_MS = 30_000;
+const RETRY_BASE_MS = 60_000;
+const RETRY_MAX_MS = 30 * 60_000;
+/** Longest idle wait while rows are backing off, so stop requests are noticed promptly. */
+const IDLE_POLL_MS = 15_000;
+const MAX_CONCURRENCY = 8;
+const CAPACITY_POLL_MS = 2_000;
+
+// Pool key for the priority rotation worker.
+const PRIORITY_POOL_KEY = '__PRIORITY__';
+
+interface QueueScope {
+  key: string;
+  userId?: string;
+  priorityUsersOnly?: boolean;
+}
+
+interface QueuePool {
+  stopRequested: boolean;
+}
 
-let queueWorkerRunningUserId: string | null = null;
-let queueStopRequestedForUserId: string | null = null;
+const pools = new Map<string, QueuePool>();
+/** Hard stop time per user: a row of theirs claimed before it is released, not failed. */
+const userStopRequestedAt = new Map<string, number>();
 
-// Special marker used when the worker is running in "priority rotation" mode.
-const PRIORITY_WORKER_ID = '__PRIORITY__';
+/** Slots per pool (env APPLICATION_QUEUE_CONCURRENCY, default 1, max 8). */
+export function getQueueConcurrency(): number {
+  const n = Math.floor(Number(process.env.APPLICATION_QUEUE_CONCURRENCY));
+  return Number.isFinite(n) && n > 0 ? Math.min(n, MAX_CONCURRENCY) : 1;
+}
 
-export function getQueueWorkerRunningUserId(): string | null {
-  return queueWorkerRunningUserId;
+/** Backoff before retry `attempts + 1`: 1 min, 2 min, 4 min, ... capped at 30 min. */
+export function queueRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
 }
 
 export function isQueueWorkerRunningForUser(userId: string): boolean {
-  return queueWorkerRunningUserId === userId;
+  return pools.has(userId);
 }
 
-export function requestQueueStopForUser(userId: string): void {
-  queueStopRequestedForUserId = userId;
+export function isPriorityQueueWorkerRunning(): boolean {
+  return pools.has(PRIORITY_POOL_KEY);
+}
+
+/** User ids with a running single-user pool (the priority pool is not included). */
+export function getRunningQueueWorkerUserIds(): string[] {
+  return [...pools.keys()].filter((k) => k !== PRIORITY_POOL_KEY);
 }
 
-function clearQueueStopRequest(userId: string): void {
-  if (queueStopRequestedForUserId === userId) queueStopRequestedForUserId = null;
+export function requestQueueStopForUser(userId: string): void {
+  userStopRequestedAt.set(userId, Date.now());
+  const pool = pools.get(userId);
+  if (pool) pool.stopRequested = true;
 }
 
 export function isStopRequestedForUser(userId: string): boolean {
-  return queueStopRequestedForUserId === userId;
+  return pools.get(userId)?.stopRequested ?? false;
 }
 
 /** Request stop for the priority rotation worker (global). */
 export function requestPriorityQueueStop(): void {
-  queueStopRequestedForUserId = PRIORITY_WORKER_ID;
+  const pool = pools.get(PRIORITY_POOL_KEY);
+  if (pool) pool.stopRequested = true;
+}
+
+/** Request stop for every pool (single-user and priority). */
+export function requestAllQueueStops(): void {
+  for (const pool of pools.values()) pool.stopRequested = true;
 }
 
-/** Run the queue worker for the given user. Call from admin start API; runs in background. */
+/** Run the queue worker for the given user. Call from start API; runs in background. */
 export function runQueueWorker(userId: string): void {
-  if (queueWorkerRunningUserId != null) {
-    return; // already running for someone
-  }
-  queueWorkerRunningUserId = userId;
-  clearQueueStopRequest(userId);
-  runQueueWorkerLoop(userId).finally(() => {
-    queueWorkerRunningUserId = null;
-    clearQueueStopRequest(userId);
-  });
+  startPool({ key: userId, userId });
 }
 
-/** Run the queue worker across all priority users in a cyclic order. Admin global Play. */
+/** Run the queue worker across all priority users (fair rotation by sequence). Global Play. */
 export function runPriorityQueueWorker(): void {
-  if (queueWorkerRunningUserId != null) {
-    return;
-  }
-  queueWorkerRunningUserId = PRIORITY_WORKER_ID;
-  queueStopRequestedForUserId = null;
-  runPriorityQueueWorkerLoop().finally(() => {
-    queueWorkerRunningUserId = null;
-    queueStopRequestedForUserId = null;
-  });
+  startPool({ key: PRIORITY_POOL_KEY, priorityUsersOnly: true });
 }
 
-async function runQueueWorkerLoop(userId: string): Promise<void> {
-  const db = getDb();
+function startPool(scope: QueueScope): void {
+  if (pools.has(scope.key)) return;
+  const pool: QueuePool = { stopRequested: false };
+  pools.set(scope.key, pool);
+  if (scope.userId) userStopRequestedAt.delete(scope.userId);
+
+  const slots = Array.from({ length: getQueueConcurrency() }, (_, i) =>
+    runSlot(scope, pool, i).catch((err) => {
+      console.error(`[AnalysisQueue] Slot ${scope.key}#${i} crashed:`, err);
+    }),
+  );
+  void Promise.all(slots).finally(() => {
+    if (pools.get(scope.key) === pool) pools.delete(scope.key);
+  });
+}
 
-  // Clean up any previously stuck 'running' rows before starting the loop
-  await db
-    .update(table)
-    .set({ status: 'pending', analysisId: null })
-    .where(and(eq(table.userId, userId), eq(table.status, 'running')));
+/** Sleep in short steps so a stop request ends the wait early. */
+async function sleepUnlessStopped(pool: QueuePool, ms: number): Promise<void> {
+  const until = Date.now() + ms;
+  while (!pool.stopRequested && Date.now() < until) {
+    await new Promise((r) => setTimeout(r, Math.min(1_000, until - Date.now())));
+  }
+}
 
-  while (true) {
-    if (queueStopRequestedForUserId === userId) {
-      break;
-    }
-    const row = await getNextPendingForUser(db, userId);
-    if (!row) {
-      break;
+async function runSlot(scope: QueueScope, pool: QueuePool, slot: number): Promise<void> {
+  const db = getDb();
+  const workerId = `${hostname()}:${process.pid}:${scope.key}:${slot}`;
+  while (!pool.stopRequested) {
+    const reclaimed = await reclaimExpiredQueueLeases(db);
+    if (reclaimed > 0) {
+      console.warn(`[AnalysisQueue] Reclaimed ${reclaimed} row(s) with expired leases`);
     }
-    await updateQueueRow(db, row.id, { status: 'running' });
-    const analysis = await insertAnalysis(db, {
-      userId,
-      url: row.url,
-      runSource: 'batch',
+    const row = await claimNextQueueRow(db, {
+      workerId,
+      leaseMs: LEASE_MS,
+      userId: scope.userId,
+      priorityUsersOnly: scope.priorityUsersOnly,
     });
-    try {
-      await runApplicationAssistantPipeline(userId, row.url, analysis.id, null);
-      await updateQueueRow(db, row.id, { status: 'completed', analysisId: analysis.id });
-    } catch (err) {
-      if (queueStopRequestedForUserId === userId) {
-        await updateQueueRow(db, row.id, { status: 'pending', analysisId: null });
-      } else {
-        await updateQueueRow(db, row.id, { status: 'failed', analysisId: analysis.id });
-      }
-      // continue to next URL
-    }
-    if (queueStopRequestedForUserId === userId) {
-      break;
+    if (!row) {
+      // Nothing claimable: wait for backing-off rows, or exit when the queue is drained.
+      const runAfter = await getNextQueueRunAfter(db, {
+        userId: scope.userId,
+        priorityUsersOnly: scope.priorityUsersOnly,
+      });
+      if (!runAfter) break;
+      await sleepUnlessStopped(
+        pool,
+        Math.min(IDLE_POLL_MS, Math.max(1_000, runAfter.getTime() - Date.now())),
+      );
+      continue;
     }
-    await new Promise((r) => setTimeout(r, DELAY_BETWEEN_JOBS_MS));
+    await processRow(db, row, workerId, pool);
+    if (pool.stopRequested) break;
+    await sleepUnlessStopped(pool, DELAY_BETWEEN_JOBS_MS);
   }
 }
 
-async function runPriorityQueueWorkerLoop(): Promise<void> {
-  const db = getDb();
-
-  // Snapshot of users who are marked as priority and have at least one pending item.
-  const pendingPriorityRows = await db
-    .select({ userId: table.userId })
-    .from(table)
-    .innerJoin(users, eq(users.id, table.userId))
-    .where(and(eq(table.status, 'pending'), eq(users.applicationAnalysisPriority, true)));
-
-  const priorityUserIds: string[] = Array.from(new Set(pendingPriorityRows.map((r) => r.userId)));
+async function lastErrorMessage(db: ReturnType<typeof getDb>, analysisId: string) {
+  const logs = await getAnalysisLogs(db, analysisId).catch(() => []);
+  const last = [...logs].reverse().find((l) => l.level === 'error');
+  return last?.message ?? 'Analysis run ended with an error';
+}
 
-  if (priorityUserIds.length === 0) {
+async function processRow(
+  db: ReturnType<typeof getDb>,
+  row: QueueRow,
+  workerId: string,
+  pool: QueuePool,
+): Promise<void> {
+  const claimedAt = Date.now();
+  // Retries reuse the analysis from the previous attempt instead of piling up failed ones.
+  const analysisId =
+    row.analysisId ??
+    (await insertAnalysis(db, { userId: row.userId, url: row.url, runSource: 'batch' })).id;
+  if (!row.analysisId) await updateQueueRow(db, row.id, { analysisId });
+
+  // Once the lease is lost another worker may reclaim the row, so abort our run of it rather
+  // than analyse the URL twice; the row is no longer ours to complete, fail or release.
+  const lease = new AbortController();
+  const heartbeat = setInterval(() => {
+    heartbeatQueueRow(db, row.id, workerId, LEASE_MS)
+      .then((held) => {
+        if (held || lease.signal.aborted) return;
+        console.warn(`[AnalysisQueue] Lost lease on queue row ${row.id}; stopping its run`);
+        lease.abort();
+      })
+      .catch(() => {});
+  }, HEARTBEAT_MS);
+
+  // Share the global run cap with manual starts; the heartbeat keeps the lease while we wait.
+  while (!hasAssistantCapacity() && !pool.stopRequested && !lease.signal.aborted) {
+    await sleepUnlessStopped(pool, CAPACITY_POLL_MS);
+  }
+  if (lease.signal.aborted) {
+    clearInterval(heartbeat);
+    return;
+  }
+  if (pool.stopRequested) {
+    clearInterval(heartbeat);
+    await releaseQueueRow(db, row.id, workerId);
     return;
   }
 
-  let index = 0;
-
-  while (priorityUserIds.length > 0) {
-    if (queueStopRequestedForUserId === PRIORITY_WORKER_ID) {
-      break;
-    }
-
-    if (index >= priorityUserIds.length) {
-      index = 0;
-    }
-
-    const userId = priorityUserIds[index];
-
-    // Clean up any previously stuck 'running' rows before starting for this user
-    await db
-      .update(table)
-      .set({ status: 'pending', analysisId: null })
-      .where(and(eq(table.userId, userId), eq(table.status, 'running')));
-
-    const row = await getNextPendingForUser(db, userId);
-    if (!row) {
-      // No more pending for this user; remove from rotation.
-      priorityUserIds.splice(index, 1);
-      if (priorityUserIds.length === 0) {
-        break;
-      }
-      // Do not advance index; it now points to the next user.
-      continue;
-    }
-
-    await updateQueueRow(db, row.id, { status: 'running' });
-    const analysis = await insertAnalysis(db, {
-      userId,
-      url: row.url,
-      runSource: 'batch',
+  let error: string | null = null;
+  try {
+    // The runner records failures on the analysis (runStatus 'error') rather than throwing.
+    // A retry resumes the earlier attempt from its last checkpoint.
+    await runApplicationAssistantPipeline(row.userId, row.url, analysisId, lease.signal, {
+      resume: row.analysisId != null,
     });
-    try {
-      await runApplicationAssistantPipeline(userId, row.url, analysis.id, null);
-      await updateQueueRow(db, row.id, { status: 'completed', analysisId: analysis.id });
-    } catch (err) {
-      if (queueStopRequestedForUserId === PRIORITY_WORKER_ID) {
-        await updateQueueRow(db, row.id, { status: 'pending', analysisId: null });
-      } else {
-        await updateQueueRow(db, row.id, { status: 'failed', analysisId: analysis.id });
-      }
-      // continue to next URL
-    }
-
-    if (queueStopRequestedForUserId === PRIORITY_WORKER_ID) {
-      break;
-    }
-
-    // Advance to next user in round-robin.
-    index = (index + 1) % priorityUserIds.length;
+    const analysis = await getAnalysisById(db, analysisId);
+    if (analysis?.runStatus === 'error') error = await lastErrorMessage(db, analysisId);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  } finally {
+    clearInterval(heartbeat);
+  }
 
-    await new Promise((r) => setTimeout(r, DELAY_BETWEEN_JOBS_MS));
+  if (lease.signal.aborted) return;
+  if (error == null) {
+    await completeQueueRow(db, row.id, workerId, analysisId);
+    return;
   }
+  const userStopAt = userStopRequestedAt.get(row.userId);
+  if (pool.stopRequested || (userStopAt != null && userStopAt >= claimedAt)) {
+    userStopRequestedAt.delete(row.userId);
+    await releaseQueueRow(db, row.id, workerId);
+    return;
+  }
+  const status = await failQueueRow(db, row, workerId, {
+    error,
+    analysisId,
+    retryAt: new Date(Date.now() + queueRetryDelayMs(row.attempts)),
+  });
+  console.warn(
+    `[AnalysisQueue] ${row.url} failed (attempt ${row.attempts}/${row.maxAttempts})` +
+      (status === 'dead' ? ', moved to dead letter' : ', will retry') +
+      `: ${error}`,
+  );
 }
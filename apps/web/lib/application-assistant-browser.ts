@@ -0,0 +1,141 @@
+/**
+ * The application assistant's single-URL browser path: open the job URL, clean and classify the
+ * page, hand login walls and captchas to the user (login-wall-state.ts / captcha-state.ts), and
+ * extract the posting. The runner adds its logging, run-state and disk artifacts through hooks;
+ * the mock-site browser tests drive the same functions.
+ */
+
+import type { Page } from 'playwright';
+import {
+  classifyPage,
+  cleanHtml,
+  extractJobDetail,
+  policyGoto,
+  type ClassificationResult,
+} from '@careersignal/agents';
+import { registerCaptchaSolve } from '@/lib/captcha-state';
+import { registerLoginWait } from '@/lib/login-wall-state';
+
+type JobDetail = Awaited<ReturnType<typeof extractJobDetail>>;
+
+/** Below this the raw HTML adds little over the cleaned HTML for the LLM extractor. */
+const RAW_HTML_LLM_MIN_CHARS = 5000;
+
+export type JobPageStage = 'initial' | 'post-login' | 'post-captcha';
+
+export interface JobPageCapture {
+  stage: JobPageStage;
+  html: string;
+  cleanedHtml: string;
+  classification: ClassificationResult;
+}
+
+export interface ClassifyJobPageOptions {
+  /** HTTP status of the navigation, for error / expired pages. */
+  statusCode?: number;
+  useLlm?: boolean;
+  /** After each capture is classified: the first load, then again after login or captcha. */
+  onCapture?: (capture: JobPageCapture) => Promise<void> | void;
+  /** Before (true) and after (false) waiting for the user to log in or solve the captcha. */
+  onWaitForUser?: (kind: 'login' | 'captcha', waiting: boolean) => Promise<void> | void;
+}
+
+/** Navigate to the URL and let the page settle. Returns its HTML and the HTTP status. */
+export async function openJobPage(
+  page: Page,
+  url: string,
+  options?: { settleMs?: number },
+): Promise<{ html: string; statusCode: number | undefined }> {
+  const response = await policyGoto(page, url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+  // Allow network idle for SPAs like Citadel
+  await page.waitForTimeout(options?.settleMs ?? 4000);
+  try {
+    await page.waitForLoadState('networkidle', { timeout: 5000 });
+  } catch {
+    // ignore
+  }
+  return { html: await page.content(), statusCode: response?.status() };
+}
+
+/**
+ * Clean and classify the loaded page. A login wall, then a captcha, waits for the user under
+ * runId and the page is re-captured and re-classified. Returns the last capture.
+ */
+export async function classifyJobPage(
+  page: Page,
+  runId: string,
+  html: string,
+  url: string,
+  options: ClassifyJobPageOptions = {},
+): Promise<JobPageCapture> {
+  const capture = async (
+    stage: JobPageStage,
+    pageHtml: string,
+    statusCode?: number,
+  ): Promise<JobPageCapture> => {
+    const cleanedHtml = cleanHtml(pageHtml).html;
+    const classification = await classifyPage(cleanedHtml, url, {
+      ...(options.useLlm !== undefined ? { useLlm: options.useLlm } : {}),
+      ...(statusCode !== undefined ? { statusCode } : {}),
+    });
+    const result = { stage, html: pageHtml, cleanedHtml, classification };
+    await options.onCapture?.(result);
+    return result;
+  };
+
+  let result = await capture('initial', html, options.statusCode);
+  if (result.classification.type === 'login_wall') {
+    await options.onWaitForUser?.('login', true);
+    const loginHtml = await registerLoginWait(runId, page);
+    await options.onWaitForUser?.('login', false);
+    result = await capture('post-login', loginHtml);
+  }
+  if (result.classification.type === 'captcha_challenge') {
+    await options.onWaitForUser?.('captcha', true);
+    const captchaHtml = await registerCaptchaSolve(runId, page);
+    await options.onWaitForUser?.('captcha', false);
+    result = await capture('post-captcha', captchaHtml);
+  }
+  return result;
+}
+
+function isConcrete(job: JobDetail): boolean {
+  return job.title !== 'Untitled' && job.company !== 'Unknown';
+}
+
+/**
+ * Extract the posting: RAG-focused HTML when given, else (or when that misses) the cleaned HTML,
+ * then the raw HTML for structured data the cleaner strips (JSON-LD). The LLM only reads raw
+ * HTML from large pages. The result may still be Untitled / Unknown.
+ */
+export async function extractJobFromPage(
+  html: string,
+  url: string,
+  options?: {
+    focusedHtml?: string | null;
+    allowLlmFallback?: boolean;
+    onLog?: (message: string) => Promise<void> | void;
+  },
+): Promise<{
+  jobDetail: JobDetail;
+  extractionSource: 'rag_focused' | 'cleaned_html' | 'raw_html';
+}> {
+  const allowLlmFallback = options?.allowLlmFallback ?? true;
+  const focusedHtml = options?.focusedHtml;
+  if (focusedHtml && focusedHtml.length > 100) {
+    const focused = await extractJobDetail(focusedHtml, url, { allowLlmFallback });
+    if (isConcrete(focused)) return { jobDetail: focused, extractionSource: 'rag_focused' };
+    await options?.onLog?.('RAG-focused extraction missed; trying full cleaned HTML.');
+  }
+
+  const cleaned = await extractJobDetail(cleanHtml(html).html, url, { allowLlmFallback });
+  if (isConcrete(cleaned)) return { jobDetail: cleaned, extractionSource: 'cleaned_html' };
+
+  await options?.onLog?.('Cleaned HTML yielded little — trying raw HTML.');
+  const raw = await extractJobDetail(html, url, {
+    allowLlmFallback: allowLlmFallback && html.length > RAW_HTML_LLM_MIN_CHARS,
+  });
+  return raw.title !== 'Untitled' || raw.company !== 'Unknown'
+    ? { jobDetail: raw, extractionSource: 'raw_html' }
+    : { jobDetail: cleaned, extractionSource: 'cleaned_html' };
+}
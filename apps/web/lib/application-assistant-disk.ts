@@ -197,8 +197,21 @@ export interface OrchestratorMemory {
   steps: Record<string, OrchestratorStepEntry>;
   /** Last error for retry context */
   lastError?: string;
+  /** Full step outputs a resumed run reuses instead of recomputing (see saveRunCheckpoint). */
+  checkpoints?: RunCheckpoints;
 }
 
+/** Pipeline steps whose outputs are checkpointed, in run order. */
+export const RUN_CHECKPOINT_STEPS = [
+  'extract',
+  'match',
+  'resume',
+  'coverLetters',
+  'outreach',
+] as const;
+export type RunCheckpointStep = (typeof RUN_CHECKPOINT_STEPS)[number];
+export type RunCheckpoints = Partial<Record<RunCheckpointStep, unknown>>;
+
 const MEMORY_FILENAME = 'memory.json';
 
 /** Read orchestrator memory from run folder. Returns default if missing. */
@@ -243,3 +256,32 @@ export async function updateOrchestratorMemory(
   }
   await writeFile(path.join(dir, MEMORY_FILENAME), JSON.stringify(updated, null, 2), 'utf-8');
 }
+
+/** Persist a completed step's output in orchestrator memory so a later run can resume after it. */
+export async function saveRunCheckpoint(
+  folderName: string,
+  step: RunCheckpointStep,
+  data: unknown,
+): Promise<void> {
+  const dir = getRunFolderPath(folderName);
+  if (!existsSync(ROOT)) await mkdir(ROOT, { recursive: true });
+  if (!existsSync(dir)) await mkdir(dir, { recursive: true });
+
+  const current = await readOrchestratorMemory(folderName);
+  const updated: OrchestratorMemory = {
+    ...current,
+    updatedAt: new Date().toISOString(),
+    checkpoints: { ...current.checkpoints, [step]: data },
+  };
+  await writeFile(path.join(dir, MEMORY_FILENAME), JSON.stringify(updated, null, 2), 'utf-8');
+}
+
+/** Checkpoints saved for a run folder (empty when none were written). */
+export async function readRunCheckpoints(folderName: string): Promise<RunCheckpoints> {
+  return (await readOrchestratorMemory(folderName)).checkpoints ?? {};
+}
+
+/** Last checkpointed step in pipeline order, or null when the run has no checkpoints. */
+export function lastCheckpointStep(checkpoints: RunCheckpoints): RunCheckpointStep | null {
+  return [...RUN_CHECKPOINT_STEPS].reverse().find((s) => checkpoints[s] !== undefined) ?? null;
+}
@@ -1,5 +1,6 @@
 import type { Db } from '@careersignal/db';
 import { updateAnalysisRunState, type RunStatus } from '@careersignal/db';
+import { setAssistantStep } from '@/lib/application-assistant-state';
 
 /**
  * Canonical step identifiers for the single-URL Application Assistant pipeline.
@@ -69,6 +70,7 @@ export async function transitionAssistantStep(
     }
   }
 
+  setAssistantStep(analysisId, step);
   await updateAnalysisRunState(db, analysisId, {
     currentStep: step,
     runStatus,
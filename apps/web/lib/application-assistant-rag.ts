@@ -5,7 +5,7 @@
  */
 
 import { parse, type HTMLElement } from 'node-html-parser';
-import { embedBatch, complete } from '@careersignal/llm';
+import { embedBatch, complete, cosineSimilarity } from '@careersignal/llm';
 import { writeFile, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
 import path from 'path';
@@ -155,20 +155,6 @@ export function capChunksToMax(chunks: ChunkRecord[], maxChunks: number): ChunkR
   return merged;
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length || a.length === 0) return 0;
-  let dot = 0;
-  let na = 0;
-  let nb = 0;
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i]! * b[i]!;
-    na += a[i]! * a[i]!;
-    nb += b[i]! * b[i]!;
-  }
-  const denom = Math.sqrt(na) * Math.sqrt(nb);
-  return denom === 0 ? 0 : dot / denom;
-}
-
 /** Heuristic boost for chunks that contain job-related phrases. */
 function keywordBoost(text: string): number {
   const lower = text.toLowerCase();
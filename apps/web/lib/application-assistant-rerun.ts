@@ -0,0 +1,333 @@
+/**
+ * Re-run a single Application Assistant step for an existing analysis against its stored
+ * jobSummary and the user's current profile/preferences, without re-scraping the URL.
+ * Once the step succeeds, the fields it overwrites are archived to step history so earlier
+ * outputs can be compared with the new one.
+ *
+ * A re-run takes one of the assistant's concurrent run slots while it runs (the route checks
+ * capacity and that the analysis has no run in flight), so re-runs count against the same cap
+ * as pipelines and two re-runs of one analysis can't overlap.
+ */
+
+import { chromium, type Browser } from 'playwright';
+import {
+  applyResumeVersion,
+  deepResearchCompany,
+  generateInterviewPrep,
+  generateResumeSuggestions,
+  mapRequirementEvidence,
+  matchProfileToJob,
+  type JobDetail,
+} from '@careersignal/agents';
+import {
+  findCompanyByNameOrDomain,
+  getPreferencesByUserId,
+  getProfileByUserId,
+  getResumeById,
+  insertStepHistory,
+  updateAnalysis,
+  upsertCompanyEnrichment,
+  type AnalysisRow,
+  type InsertAnalysisData,
+  type getDb,
+} from '@careersignal/db';
+import {
+  STEALTH_ARGS,
+  dbLog,
+  toCompanySnapshot,
+  toProfileSnapshot,
+} from '@/lib/application-assistant-runner';
+import { clearAssistantRunning, registerAssistantRun } from '@/lib/application-assistant-state';
+import { runCompanyPageRag } from '@/lib/application-assistant-rag';
+import { createDossierDiskWriter, getDossierRunFolderName } from '@/lib/dossier-disk';
+import { getOutreachRunFolderName } from '@/lib/outreach-research-disk';
+import { runOutreachResearch, OUTREACH_PIPELINE_TIMEOUT_MS } from '@/lib/outreach-research-runner';
+import { toResumeVersion } from '@/lib/resume-versions';
+import { describePolicyViolation, withRunPolicy } from '@/lib/run-policy';
+import { loadSkillTaxonomy } from '@/lib/skill-taxonomy';
+
+type Db = ReturnType<typeof getDb>;
+
+export const RERUN_STEPS = [
+  'match',
+  'resume',
+  'interviewPrep',
+  'companyResearch',
+  'outreach',
+] as const;
+export type RerunStep = (typeof RERUN_STEPS)[number];
+
+/** Steps that personalize against the profile and can't run without one. */
+export const PROFILE_RERUN_STEPS: readonly RerunStep[] = ['match', 'resume', 'interviewPrep'];
+
+/** Analysis fields each step writes (archived to step history before a re-run). */
+export const RERUN_STEP_FIELDS: Record<RerunStep, (keyof AnalysisRow)[]> = {
+  match: [
+    'matchScore',
+    'matchGrade',
+    'matchRationale',
+    'matchBreakdown',
+    'strictFilterRejects',
+    'matchEvidence',
+    'requirementEvidence',
+  ],
+  resume: ['resumeSuggestions', 'keywordsToAdd', 'resumeEvidence'],
+  interviewPrep: ['interviewPrepBullets'],
+  companyResearch: ['companyResearch', 'companySnapshot'],
+  outreach: ['contacts', 'contactsEvidence'],
+};
+
+const DOSSIER_RERUN_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function isRerunStep(value: unknown): value is RerunStep {
+  return typeof value === 'string' && (RERUN_STEPS as readonly string[]).includes(value);
+}
+
+/** The step's current output on the analysis; null when the step never produced anything. */
+export function stepOutputSnapshot(
+  analysis: AnalysisRow,
+  step: RerunStep,
+): Record<string, unknown> | null {
+  const fields = RERUN_STEP_FIELDS[step];
+  const snapshot = Object.fromEntries(fields.map((f) => [f, analysis[f] ?? null]));
+  return fields.some((f) => snapshot[f] != null) ? snapshot : null;
+}
+
+async function launchBrowser(): Promise<Browser> {
+  return chromium.launch({ headless: true, args: STEALTH_ARGS });
+}
+
+function logTo(db: Db, analysisId: string, agent: string) {
+  return ({ level, message }: { level: string; message: string }) =>
+    void dbLog(db, analysisId, agent, message, { level });
+}
+
+/**
+ * Re-run one step and persist its new output. Callers validate the step, the stored job and
+ * (for PROFILE_RERUN_STEPS) that the user has a profile. Returns a one-line summary.
+ * The step runs under the application_assistant run policy; refusals go to the analysis logs.
+ * Registers the re-run as an assistant run before its first await; callers check
+ * hasAssistantCapacity() and getAssistantRun() just before calling.
+ */
+export function rerunAnalysisStep(
+  db: Db,
+  analysis: AnalysisRow,
+  jobDetail: JobDetail,
+  step: RerunStep,
+): Promise<{ summary: string; archived: boolean }> {
+  registerAssistantRun(analysis.id, analysis.userId);
+  const policyLog = logTo(db, analysis.id, 'Policy');
+  return withRunPolicy(
+    'application_assistant',
+    () => runStep(db, analysis, jobDetail, step),
+    (violation) => policyLog({ level: 'warn', message: describePolicyViolation(violation) }),
+  ).finally(() => clearAssistantRunning(analysis.id));
+}
+
+async function runStep(
+  db: Db,
+  analysis: AnalysisRow,
+  jobDetail: JobDetail,
+  step: RerunStep,
+): Promise<{ summary: string; archived: boolean }> {
+  const userId = analysis.userId;
+  const [profile, preferences] = await Promise.all([
+    getProfileByUserId(db, userId),
+    getPreferencesByUserId(db, userId),
+  ]);
+
+  // Same resume version the analysis ran against (profile resume if none or since deleted).
+  const resumeProfile = async () => {
+    const resume = analysis.resumeId ? await getResumeById(db, analysis.resumeId, userId) : null;
+    return applyResumeVersion(
+      toProfileSnapshot(profile!, preferences),
+      resume ? toResumeVersion(resume) : null,
+    );
+  };
+  const resumeVersion = (analysis.resumeSelection as { name?: string } | null)?.name ?? null;
+
+  let summary: string;
+  let update: Partial<Omit<InsertAnalysisData, 'userId'>>;
+  switch (step) {
+    case 'match': {
+      const matchProfile = await resumeProfile();
+      const matchResult = await matchProfileToJob(matchProfile, jobDetail);
+      const requirementEvidence = await mapRequirementEvidence(matchProfile, jobDetail).catch(
+        () => null,
+      );
+      summary = `Score ${matchResult.overallScore}/100 (${matchResult.grade})`;
+      update = {
+        matchScore: matchResult.overallScore,
+        matchGrade: matchResult.grade,
+        matchRationale: matchResult.rationale || null,
+        matchBreakdown: {
+          ...(matchResult.breakdown as unknown as Record<string, unknown>),
+          strengths: matchResult.strengths,
+          gaps: matchResult.gaps,
+        } as Record<string, unknown>,
+        strictFilterRejects: matchResult.strictFilterRejects?.length
+          ? matchResult.strictFilterRejects
+          : null,
+        matchEvidence: {
+          model: 'GENERAL',
+          summary: matchResult.rationale || summary,
+          breakdown: matchResult.breakdown,
+          strengths: matchResult.strengths,
+          gaps: matchResult.gaps,
+          strictFilterRejects: matchResult.strictFilterRejects,
+          resumeVersion,
+        },
+        requirementEvidence: requirementEvidence as unknown as Record<string, unknown>[] | null,
+      };
+      break;
+    }
+    case 'resume': {
+      const suggestions = await generateResumeSuggestions(
+        await resumeProfile(),
+        jobDetail,
+        await loadSkillTaxonomy(db),
+      );
+      summary = `${suggestions.matches.length} matches, ${suggestions.improvements.length} improvements, ${suggestions.keywordsToAdd.length} keywords`;
+      update = {
+        resumeSuggestions: suggestions as unknown as Record<string, unknown>,
+        keywordsToAdd: suggestions.keywordsToAdd,
+        resumeEvidence: {
+          model: 'GENERAL',
+          summary,
+          matchCount: suggestions.matches.length,
+          improvementCount: suggestions.improvements.length,
+          keywordCount: suggestions.keywordsToAdd.length,
+          resumeVersion,
+        },
+      };
+      break;
+    }
+    case 'interviewPrep': {
+      const bullets = await generateInterviewPrep(await resumeProfile(), jobDetail, {
+        companyResearch: analysis.companyResearch ?? undefined,
+      });
+      summary = `${bullets.length} talking point(s)`;
+      update = { interviewPrepBullets: bullets };
+      break;
+    }
+    case 'companyResearch': {
+      const browser = await launchBrowser();
+      try {
+        const page = await browser.newPage();
+        const result = await deepResearchCompany({
+          companyName: jobDetail.company,
+          seedUrl: undefined,
+          jobDescriptionText: undefined,
+          log: logTo(db, analysis.id, 'DeepCompanyDossier'),
+          hardTimeoutMs: DOSSIER_RERUN_TIMEOUT_MS,
+          browserPage: page,
+          runFolderName: getDossierRunFolderName(jobDetail.company),
+          dossierWriter: createDossierDiskWriter(),
+          runCompanyPageRag,
+        });
+        const upserted = await upsertCompanyEnrichment(db, {
+          name: result.companyName,
+          normalizedName: result.normalizedName,
+          url: result.primaryUrl ?? analysis.url,
+          origin: 'ASSISTANT_STEP_RERUN',
+          websiteDomain: result.websiteDomain,
+          descriptionText: result.descriptionText,
+          enrichmentSources: { urls: result.visitedUrls },
+          coreFieldCoverage: result.coreFieldCoverage,
+          missingCoreFields: result.missingCoreFields,
+          headquartersAndOffices: result.headquartersAndOffices ?? undefined,
+          foundedYear: result.foundedYear ?? null,
+          careersPageUrl: result.careersPageUrl ?? undefined,
+          linkedInCompanyUrl: result.linkedInCompanyUrl ?? undefined,
+          remotePolicy: result.remotePolicy ?? undefined,
+          sponsorshipRate: result.sponsorshipRate ?? undefined,
+          hiringProcessDescription: result.hiringProcessDescription ?? undefined,
+          hiringLocations: result.hiringLocations ?? undefined,
+          techStackHints: result.techStackHints ?? undefined,
+          enrichmentStatus: result.coreFieldCoverage >= 0.5 ? 'DONE' : 'ERROR',
+        });
+        summary = `Company research refreshed (coverage ${(result.coreFieldCoverage * 100).toFixed(0)}%)`;
+        update = {
+          companyResearch: upserted.descriptionText ?? result.descriptionText,
+          companySnapshot: toCompanySnapshot(upserted),
+        };
+      } finally {
+        await browser.close().catch(() => {});
+      }
+      break;
+    }
+    case 'outreach': {
+      const company = await findCompanyByNameOrDomain(db, { name: jobDetail.company });
+      const browser = await launchBrowser();
+      try {
+        const page = await browser.newPage();
+        const result = await runOutreachResearch({
+          job: {
+            title: jobDetail.title,
+            companyName: jobDetail.company,
+            description: jobDetail.description ?? undefined,
+            sourceUrl: analysis.url,
+            applyUrl: analysis.url,
+            location: jobDetail.location,
+          },
+          company: company
+            ? {
+                id: company.id,
+                name: company.name,
+                websiteDomain: company.websiteDomain ?? undefined,
+                descriptionText: company.descriptionText ?? undefined,
+              }
+            : null,
+          profile: profile
+            ? {
+                name: profile.name,
+                skills: (profile.skills as string[]) ?? [],
+                targetRoles: (profile.targetRoles as string[]) ?? [],
+              }
+            : null,
+          runFolderName: getOutreachRunFolderName(analysis.url),
+          log: logTo(db, analysis.id, 'OutReachPipeline'),
+          browserPage: page,
+          hardTimeoutMs: OUTREACH_PIPELINE_TIMEOUT_MS,
+          maxRankedContacts:
+            (preferences as { maxContactsPerJob?: number } | null)?.maxContactsPerJob ?? 2,
+          preferences: preferences
+            ? {
+                targetContactRoles: (preferences as { targetContactRoles?: string[] })
+                  .targetContactRoles,
+              }
+            : null,
+        });
+        const contacts = (result.contacts ?? []) as Record<string, unknown>[];
+        const emails = contacts.filter((c) => c.email).length;
+        const linkedIn = contacts.filter((c) => c.linkedinUrl).length;
+        summary = `Contacts: ${contacts.length}. Create outreach drafts on demand from the contacts list.`;
+        update = {
+          contacts: {
+            bestFirst: result.bestFirst ?? null,
+            ranked: result.rankedContacts ?? result.contacts ?? [],
+            drafts: result.drafts ?? [],
+          },
+          contactsEvidence: {
+            model: 'outreach_pipeline',
+            summary,
+            emails,
+            linkedIn,
+            others: contacts.length - emails - linkedIn,
+          },
+        };
+      } finally {
+        await browser.close().catch(() => {});
+      }
+      break;
+    }
+  }
+
+  // Archive only once the step succeeded, so a failed re-run leaves history untouched.
+  const previous = stepOutputSnapshot(analysis, step);
+  if (previous) {
+    await insertStepHistory(db, { analysisId: analysis.id, userId, step, output: previous });
+  }
+  await updateAnalysis(db, analysis.id, update);
+  return { summary, archived: previous != null };
+}
@@ -14,6 +14,7 @@ import {
   extractLinksFromHtml,
   extractJobDetail,
   matchProfileToJob,
+  mapRequirementEvidence,
   generateResumeSuggestions,
   generateSingleCoverLetter,
   generateInterviewPrep,
@@ -24,6 +25,16 @@ import {
   deepResearchCompany,
   extractHooks,
   generateSingleDraftForContact,
+  parseSalary,
+  computeCompensationFit,
+  createBlueprint,
+  buildAnswerSheet,
+  selectResumeVersion,
+  applyResumeVersion,
+  PROFILE_RESUME_ID,
+  policyFetch,
+  policyGoto,
+  runWithPolicy,
   type ProfileSnapshot,
 } from '@careersignal/agents';
 import {
@@ -40,17 +51,35 @@ import {
   normalizeJobDedupeKey,
   upsertJobListingByDedupeKey,
   upsertCompanyEnrichment,
+  listResumesByUser,
+  listContactsByCompanyId,
 } from '@careersignal/db';
-import { registerLoginWait } from '@/lib/login-wall-state';
-import { registerCaptchaSolve } from '@/lib/captcha-state';
+import { fetchAtsPosting, parseAtsPostingUrl, type AtsPosting } from '@careersignal/core';
+import {
+  classifyJobPage,
+  extractJobFromPage,
+  openJobPage,
+  type JobPageStage,
+} from '@/lib/application-assistant-browser';
 import { getScraperStatus } from '@/lib/scraper-state';
-import { clearAssistantAbortController } from '@/lib/application-assistant-state';
+import {
+  assistantLog,
+  clearAssistantAbortController,
+  clearAssistantRunning,
+  registerAssistantRun,
+  setAssistantWaitingForCaptcha,
+  setAssistantWaitingForLogin,
+  type AssistantLogEntry,
+} from '@/lib/application-assistant-state';
 import {
   getRunFolderName,
   getRunFolderPath,
+  lastCheckpointStep,
+  readRunCheckpoints,
   saveApplicationAssistantRun,
   saveHtmlVariant,
   saveJsonArtifact,
+  saveRunCheckpoint,
   updateOrchestratorMemory,
 } from '@/lib/application-assistant-disk';
 import { runRagPipeline, runCompanyPageRag } from '@/lib/application-assistant-rag';
@@ -63,10 +92,48 @@ import { sendAnalysisSummaryEmail } from '@/lib/email-agent';
 import { toNormalizedJob, rankedItemToContact } from '@/lib/outreach-draft-helpers';
 import { createSessionToken, SESSION_COOKIE_NAME } from '@/lib/session';
 import { writeCoverLetterDocxToRunFolder } from '@/lib/cover-letter-docx';
+import { buildResumeCandidates } from '@/lib/resume-versions';
+import { loadSkillTaxonomy } from '@/lib/skill-taxonomy';
+import {
+  describeRecentInteraction,
+  findRecentInteraction,
+  saveRankedContact,
+} from '@/lib/contact-crm';
+import { atsPostingToJobDetail } from '@/lib/ats-fast-path';
+import { createRunPolicy, describePolicyViolation } from '@/lib/run-policy';
+import { buildApplicantValues } from '@/lib/application-blueprint';
+import { fillFromAnswerBank } from '@/lib/answer-bank';
 import { writeFile } from 'fs/promises';
 
+type JobDetail = Awaited<ReturnType<typeof extractJobDetail>>;
+type MatchResult = Awaited<ReturnType<typeof matchProfileToJob>>;
+type ResumeSuggestions = Awaited<ReturnType<typeof generateResumeSuggestions>>;
+type CoverLetters = Awaited<ReturnType<typeof generateSingleCoverLetter>>;
+type ExtractionSource = 'rag_focused' | 'cleaned_html' | 'raw_html' | 'job_cache' | 'ats_api';
+
+/** Log prefix for a page capture after the user cleared a login wall or captcha. */
+const CAPTURE_LABELS: Record<JobPageStage, string> = {
+  initial: '',
+  'post-login': 'Post-login',
+  'post-captcha': 'Post-captcha',
+};
+
+/** Extract-step checkpoint: everything later steps read from scraping/extraction. */
+interface ExtractCheckpoint {
+  jobDetail: JobDetail;
+  resolvedUrl: string;
+  extractionSource: ExtractionSource;
+  useRag: boolean;
+  cleanedHtml: string;
+}
+
+interface OutreachCheckpoint {
+  outreachContacts: Record<string, unknown>;
+  contactsEvidence: Record<string, unknown>;
+}
+
 /** Build a serializable company snapshot for the analysis (minimal DB company fields for the UI card). */
-function toCompanySnapshot(row: {
+export function toCompanySnapshot(row: {
   name: string;
   url?: string | null;
   descriptionText?: string | null;
@@ -110,7 +177,42 @@ function toCompanySnapshot(row: {
   };
 }
 
-async function dbLog(
+/** Profile plus location/relocation preferences: the snapshot the pipeline matches against. */
+export function toProfileSnapshot(
+  profile: NonNullable<Awaited<ReturnType<typeof getProfileByUserId>>>,
+  preferences: Awaited<ReturnType<typeof getPreferencesByUserId>>,
+): ProfileSnapshot {
+  return {
+    name: profile.name,
+    location: profile.location ?? null,
+    workAuthorization: profile.workAuthorization ?? null,
+    seniority: profile.seniority ?? null,
+    targetRoles: (profile.targetRoles as string[]) ?? [],
+    skills: (profile.skills as string[]) ?? [],
+    linkedinUrl: (profile as { linkedinUrl?: string | null }).linkedinUrl ?? null,
+    githubUrl: (profile as { githubUrl?: string | null }).githubUrl ?? null,
+    portfolioUrl: (profile as { portfolioUrl?: string | null }).portfolioUrl ?? null,
+    experience:
+      (profile.experience as {
+        title: string;
+        company: string;
+        startDate?: string;
+        endDate?: string;
+      }[]) ?? [],
+    education:
+      (profile.education as { institution: string; degree?: string; field?: string }[]) ?? [],
+    resumeRawText: profile.resumeRawText ?? null,
+    willingToRelocate: preferences?.willingToRelocate ?? undefined,
+    hasCar: preferences?.hasCar ?? undefined,
+    remotePreference: preferences?.remotePreference ?? undefined,
+    targetLocations:
+      (preferences?.targetLocations as { country: string; state?: string; city?: string }[]) ??
+      undefined,
+  } as ProfileSnapshot;
+}
+
+/** Persist an analysis log and mirror it into the run's live buffer. */
+export async function dbLog(
   db: ReturnType<typeof getDb>,
   analysisId: string,
   agent: string,
@@ -118,7 +220,7 @@ async function dbLog(
   opts?: { level?: string; detail?: string },
 ): Promise<void> {
   try {
-    await insertAnalysisLog(db, {
+    const row = await insertAnalysisLog(db, {
       analysisId,
       ts: new Date(),
       agent,
@@ -126,12 +228,20 @@ async function dbLog(
       message,
       detail: opts?.detail,
     });
+    // Mirror into the run's live buffer with the same id, so log polls can skip the DB.
+    assistantLog(analysisId, agent, message, {
+      id: row.id,
+      ts: row.ts.getTime(),
+      level: row.level as AssistantLogEntry['level'],
+      detail: row.detail ?? undefined,
+    });
   } catch (err) {
     console.error('[ApplicationAssistant] insertAnalysisLog failed:', err);
   }
 }
 
-const STEALTH_ARGS = [
+/** Chromium flags for every assistant browser (pipeline and step re-runs). */
+export const STEALTH_ARGS = [
   '--disable-blink-features=AutomationControlled',
   '--disable-dev-shm-usage',
   '--no-sandbox',
@@ -256,7 +366,7 @@ async function fetchFinalUrl(
         controller.abort();
       });
     }
-    const res = await fetch(originalUrl, {
+    const res = await policyFetch(originalUrl, {
       redirect: 'follow',
       signal: controller.signal,
     }).catch((err) => {
@@ -298,13 +408,44 @@ async function fetchFinalUrl(
  * Run the full Application Assistant pipeline for a single URL.
  * analysisId must refer to an existing row with run_status = 'running'.
  * When abortSignal is aborted (user clicked Stop), the pipeline exits at the next check.
+ * With `resume`, the run reuses the analysis's run folder and skips every step that already
+ * has a checkpoint there (extract, match, resume, coverLetters, outreach).
+ * Every fetch, navigation and LLM call in the run (including dossier and outreach research)
+ * is held to the application_assistant run policy; refusals are logged under "Policy".
  */
-export async function runApplicationAssistantPipeline(
+export function runApplicationAssistantPipeline(
+  userId: string,
+  url: string,
+  analysisId: string,
+  abortSignal?: AbortSignal | null,
+  options?: { resume?: boolean },
+): Promise<void> {
+  const db = getDb();
+  const policy = createRunPolicy('application_assistant', (violation) => {
+    void dbLog(db, analysisId, 'Policy', describePolicyViolation(violation), { level: 'warn' });
+  });
+  return runWithPolicy(policy, () =>
+    runPipeline(userId, url, analysisId, abortSignal, options),
+  ).finally(() => {
+    const budget = policy.getBudgetStatus();
+    return dbLog(
+      db,
+      analysisId,
+      'Policy',
+      `Run budget used: ${budget.pagesVisited} pages, ~${budget.tokensUsed} LLM tokens`,
+    );
+  });
+}
+
+async function runPipeline(
   userId: string,
   url: string,
   analysisId: string,
   abortSignal?: AbortSignal | null,
+  options?: { resume?: boolean },
 ): Promise<void> {
+  // Synchronous on entry so callers' capacity check + start can't be interleaved.
+  registerAssistantRun(analysisId, userId);
   let browser: Browser | null = null;
   const db = getDb();
   const timings: Record<string, number> = {};
@@ -362,30 +503,80 @@ export async function runApplicationAssistantPipeline(
     }, 30000);
 
     try {
+      // Resumed runs keep their run folder and pick up after the last checkpointed step.
+      const resumedFolderName = options?.resume
+        ? ((await getAnalysisById(db, analysisId))?.runFolderName ?? null)
+        : null;
+      const checkpoints = resumedFolderName ? await readRunCheckpoints(resumedFolderName) : {};
+      const extractCheckpoint = checkpoints.extract as ExtractCheckpoint | undefined;
+      if (resumedFolderName) {
+        const lastStep = lastCheckpointStep(checkpoints);
+        await dbLog(
+          db,
+          analysisId,
+          'Pipeline',
+          lastStep
+            ? `Resuming run after the "${lastStep}" checkpoint.`
+            : 'No checkpoints saved for this run; starting over.',
+          { level: 'info' },
+        );
+      }
+
       // 0. Fetch-first URL normalization (resolve redirects, keep original for reference)
-      const finalUrl = await fetchFinalUrl(url, db, analysisId, effectiveSignal);
+      const finalUrl = extractCheckpoint
+        ? extractCheckpoint.resolvedUrl
+        : await fetchFinalUrl(url, db, analysisId, effectiveSignal);
       timings.fetchMs = Date.now() - t0;
       throwIfAborted(effectiveSignal);
 
-      const runFolderName = getRunFolderName(userName, userId);
+      const runFolderName = resumedFolderName ?? getRunFolderName(userName, userId);
+      // Recorded up front so an interrupted run can find its checkpoints.
+      await updateAnalysis(db, analysisId, { runFolderName });
       const cacheKey = normalizeJobDedupeKey(finalUrl);
-      const cachedJobRow = await getJobListingByDedupeKey(db, cacheKey);
+      const cachedJobRow = extractCheckpoint ? null : await getJobListingByDedupeKey(db, cacheKey);
       const cachedCompany = cachedJobRow?.companyId
         ? await getCompanyById(db, cachedJobRow.companyId)
         : null;
 
+      // 0b. ATS fast path: Greenhouse/Lever/Ashby posting URLs are read from the ATS's public
+      //     JSON API instead of scraping; any API failure falls back to the browser path.
+      let atsPosting: AtsPosting | null = null;
+      const atsPostingUrl = [finalUrl, url].find((u) => parseAtsPostingUrl(u));
+      if (!extractCheckpoint && !cachedJobRow && atsPostingUrl) {
+        const tAtsStart = Date.now();
+        try {
+          // The connector's request guard checks the API URL against the run policy
+          atsPosting = await fetchAtsPosting(atsPostingUrl, { timeout_ms: 15_000 });
+          timings.atsApiMs = Date.now() - tAtsStart;
+        } catch (err) {
+          await dbLog(
+            db,
+            analysisId,
+            'AtsApi',
+            `ATS API lookup failed; falling back to the browser. ${
+              err instanceof Error ? err.message : String(err)
+            }`,
+            { level: 'warn' },
+          );
+        }
+        throwIfAborted(effectiveSignal);
+      }
+
       let html = '';
       let resolvedUrl = finalUrl;
       let resolvedHtml = '';
       let cleanedForExtract = cleanHtml('');
-      let jobDetail: Awaited<ReturnType<typeof extractJobDetail>>;
+      let jobDetail: JobDetail;
       let useRag = process.env.DISABLE_JOB_RAG !== '1' && process.env.DISABLE_JOB_RAG !== 'true';
       let focusedHtml: string | null = null;
-      let extractionSource: 'rag_focused' | 'cleaned_html' | 'raw_html' | 'job_cache' =
-        'cleaned_html';
+      let extractionSource: ExtractionSource = 'cleaned_html';
 
-      // 1. Launch visible browser (used by dossier + outreach even when job is cached)
-      await transitionAssistantStep(db, analysisId, cachedJobRow ? 'extracting' : 'scraping');
+      // 1. Launch visible browser (used by dossier + outreach even when the job needs no scraping)
+      await transitionAssistantStep(
+        db,
+        analysisId,
+        extractCheckpoint || cachedJobRow || atsPosting ? 'extracting' : 'scraping',
+      );
       const tBrowserStart = Date.now();
       await dbLog(db, analysisId, 'Browser', 'Launching visible browser...', { level: 'info' });
       throwIfAborted(effectiveSignal);
@@ -415,7 +606,18 @@ export async function runApplicationAssistantPipeline(
       }
       throwIfAborted(effectiveSignal);
 
-      if (cachedJobRow) {
+      if (extractCheckpoint) {
+        ({ jobDetail, resolvedUrl, extractionSource, useRag } = extractCheckpoint);
+        resolvedHtml = extractCheckpoint.cleanedHtml;
+        cleanedForExtract = cleanHtml(extractCheckpoint.cleanedHtml);
+        await dbLog(
+          db,
+          analysisId,
+          'Extractor',
+          `Using checkpointed job "${jobDetail.title}" at ${jobDetail.company}; skipping scraping + extraction.`,
+          { level: 'info' },
+        );
+      } else if (cachedJobRow) {
         useRag = false;
         extractionSource = 'job_cache';
         resolvedUrl = cachedJobRow.applyUrl ?? cachedJobRow.jobUrl ?? finalUrl;
@@ -456,214 +658,183 @@ export async function runApplicationAssistantPipeline(
             payload: { jobTitle: jobDetail.title, company: jobDetail.company, cached: true },
           },
         });
+      } else if (atsPosting) {
+        useRag = false;
+        extractionSource = 'ats_api';
+        resolvedUrl = atsPosting.job.jobUrl ?? atsPosting.job.applyUrl ?? finalUrl;
+        resolvedHtml = atsPosting.job.descriptionHtml ?? atsPosting.job.descriptionText ?? '';
+        cleanedForExtract = cleanHtml(resolvedHtml);
+        jobDetail = atsPostingToJobDetail(atsPosting);
+
+        await dbLog(
+          db,
+          analysisId,
+          'Extractor',
+          `Loaded "${jobDetail.title}" at ${jobDetail.company} from the ${atsPosting.atsType} API; skipping scraping + extraction.`,
+          { level: 'success' },
+        );
+        await updateOrchestratorMemory(runFolderName, {
+          currentStep: 'extracting',
+          step: {
+            step: 'extract',
+            completedAt: new Date().toISOString(),
+            model: 'ATS_API',
+            outputSummary: `"${jobDetail.title}" at ${jobDetail.company}`,
+            payload: {
+              jobTitle: jobDetail.title,
+              company: jobDetail.company,
+              atsType: atsPosting.atsType,
+              requirements: jobDetail.requirements.length,
+            },
+          },
+        });
       } else {
-        // 2. Navigate to URL (allow network idle for SPAs like Citadel)
+        // 2. Navigate to URL
         const page = await browser.newPage();
         await page.setViewportSize({ width: 1280, height: 720 });
         await page.setExtraHTTPHeaders({ 'Accept-Language': 'en-US,en;q=0.9' });
         throwIfAborted(effectiveSignal);
 
         await dbLog(db, analysisId, 'Browser', `Navigating to ${finalUrl}`, { level: 'info' });
-        await page.goto(finalUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
-        await page.waitForTimeout(4000);
-        try {
-          await page.waitForLoadState('networkidle', { timeout: 5000 });
-        } catch {
-          // ignore
-        }
-
-        html = await page.content();
+        const opened = await openJobPage(page, finalUrl);
+        html = opened.html;
         throwIfAborted(effectiveSignal);
-        await dbLog(db, analysisId, 'Browser', `Page loaded: ${html.length} chars`, {
-          level: 'success',
-        });
 
-        // 3. Clean + classify
+        // 3–5. Clean + classify, then hand a login wall or captcha to the user and re-capture
         const tClassifyStart = Date.now();
-        throwIfAborted(effectiveSignal);
-        const cleanResult = cleanHtml(html);
-        let classification = await classifyPage(cleanResult.html, finalUrl);
-        throwIfAborted(effectiveSignal);
-        dbLog(
-          db,
-          analysisId,
-          'Classifier',
-          `Page type: ${classification.type} (${classification.confidence.toFixed(2)})`,
-          {
-            level: 'info',
-          },
-        );
-        try {
-          const verification = verifyCleaning(html, cleanResult.html);
-          const confidencePct = Math.round(verification.coverageRatio * 100);
-          await dbLog(
-            db,
-            analysisId,
-            'CleanerVerifier',
-            `Cleaning confidence: ${confidencePct}%` +
-              (verification.manualReviewRequired ? ' (manual review recommended)' : ''),
-            { level: verification.manualReviewRequired ? 'warn' : 'info' },
-          );
-        } catch {
-          await dbLog(
-            db,
-            analysisId,
-            'CleanerVerifier',
-            'Cleaning verification failed (non-fatal).',
-            { level: 'warn' },
-          );
-        }
-
-        // 3b. Persist run to disk for debugging and re-analysis
-        await saveApplicationAssistantRun(runFolderName, html, cleanResult.html, {
-          url: finalUrl,
-          userId,
-          userName,
-          folderName: runFolderName,
-          classificationType: classification.type,
-          classificationConfidence: classification.confidence,
-          timestamp: new Date().toISOString(),
-        })
-          .then(async (dir) => {
-            await dbLog(db, analysisId, 'Pipeline', `Run saved to ${dir}`, { level: 'info' });
-          })
-          .catch(async (err) => {
-            await dbLog(
+        const captured = await classifyJobPage(page, analysisId, html, finalUrl, {
+          statusCode: opened.statusCode,
+          onCapture: async ({ stage, html: capturedHtml, cleanedHtml, classification: type }) => {
+            throwIfAborted(effectiveSignal);
+            const label = CAPTURE_LABELS[stage];
+            if (stage === 'initial') {
+              await dbLog(db, analysisId, 'Browser', `Page loaded: ${capturedHtml.length} chars`, {
+                level: 'success',
+              });
+            }
+            dbLog(
               db,
               analysisId,
-              'Pipeline',
-              `Could not save run to disk: ${err instanceof Error ? err.message : String(err)}`,
-              { level: 'warn' },
+              'Classifier',
+              `${label ? `${label} type` : 'Page type'}: ${type.type} (${type.confidence.toFixed(2)})`,
+              { level: 'info' },
             );
-          });
-        await updateOrchestratorMemory(runFolderName, { currentStep: 'scraping' });
-        // Initial screenshot
-        try {
-          const screenshotPath = path.join(
-            getRunFolderPath(runFolderName),
-            'screenshot-initial.png',
-          );
-          await page.screenshot({ path: screenshotPath, fullPage: true });
-          await dbLog(db, analysisId, 'Browser', `Initial screenshot saved.`, { level: 'info' });
-        } catch {
-          // ignore screenshot failures
-        }
-        timings.classifyMs = Date.now() - tClassifyStart;
+            try {
+              const verification = verifyCleaning(capturedHtml, cleanedHtml);
+              const confidencePct = Math.round(verification.coverageRatio * 100);
+              await dbLog(
+                db,
+                analysisId,
+                'CleanerVerifier',
+                `${label ? `${label} cleaning` : 'Cleaning'} confidence: ${confidencePct}%` +
+                  (verification.manualReviewRequired ? ' (manual review recommended)' : ''),
+                { level: verification.manualReviewRequired ? 'warn' : 'info' },
+              );
+            } catch {
+              await dbLog(
+                db,
+                analysisId,
+                'CleanerVerifier',
+                `${label ? `${label} cleaning` : 'Cleaning'} verification failed (non-fatal).`,
+                { level: 'warn' },
+              );
+            }
 
-        throwIfAborted(effectiveSignal);
-        // 4. Handle login wall
-        if (classification.type === 'login_wall') {
-          await dbLog(
-            db,
-            analysisId,
-            'Browser',
-            'Login required — please log in in the browser window',
-            {
-              level: 'warn',
-            },
-          );
-          await updateAnalysisRunState(db, analysisId, { waitingForLogin: true });
-          const loginHtml = await registerLoginWait(page);
-          await updateAnalysisRunState(db, analysisId, { waitingForLogin: false });
-          await dbLog(db, analysisId, 'Browser', 'Login completed, re-capturing page...', {
-            level: 'success',
-          });
-          html = loginHtml;
-          const reclean = cleanHtml(html);
-          classification = await classifyPage(reclean.html, finalUrl);
-          try {
-            const verification = verifyCleaning(loginHtml, reclean.html);
-            const confidencePct = Math.round(verification.coverageRatio * 100);
-            await dbLog(
-              db,
-              analysisId,
-              'CleanerVerifier',
-              `Post-login cleaning confidence: ${confidencePct}%` +
-                (verification.manualReviewRequired ? ' (manual review recommended)' : ''),
-              { level: verification.manualReviewRequired ? 'warn' : 'info' },
-            );
-          } catch {
-            await dbLog(
-              db,
-              analysisId,
-              'CleanerVerifier',
-              'Post-login cleaning verification failed (non-fatal).',
-              { level: 'warn' },
-            );
-          }
-          await dbLog(db, analysisId, 'Classifier', `Post-login type: ${classification.type}`, {
-            level: 'info',
-          });
-          throwIfAborted(effectiveSignal);
-          // Save post-login HTML variant and screenshot
-          try {
-            await saveHtmlVariant(runFolderName, 'post-login', loginHtml, reclean.html);
-            const screenshotPath = path.join(
-              getRunFolderPath(runFolderName),
-              'screenshot-post-login.png',
-            );
-            await page.screenshot({ path: screenshotPath, fullPage: true });
-            await dbLog(db, analysisId, 'Browser', 'Post-login artifacts saved.', {
-              level: 'info',
-            });
-          } catch {
-            // ignore disk/screenshot failures
-          }
-        }
+            if (stage !== 'initial') {
+              // Save the re-captured HTML variant and screenshot
+              try {
+                await saveHtmlVariant(runFolderName, stage, capturedHtml, cleanedHtml);
+                await page.screenshot({
+                  path: path.join(getRunFolderPath(runFolderName), `screenshot-${stage}.png`),
+                  fullPage: true,
+                });
+                await dbLog(db, analysisId, 'Browser', `${label} artifacts saved.`, {
+                  level: 'info',
+                });
+              } catch {
+                // ignore disk/screenshot failures
+              }
+              return;
+            }
 
-        throwIfAborted(effectiveSignal);
-        // 5. Handle captcha
-        if (classification.type === 'captcha_challenge') {
-          dbLog(
-            db,
-            analysisId,
-            'Browser',
-            'Captcha detected — please solve it in the browser window',
-            { level: 'warn' },
-          );
-          await updateAnalysisRunState(db, analysisId, { waitingForCaptcha: true });
-          const captchaHtml = await registerCaptchaSolve(page);
-          await updateAnalysisRunState(db, analysisId, { waitingForCaptcha: false });
-          await dbLog(db, analysisId, 'Browser', 'Captcha solved, re-capturing page...', {
-            level: 'success',
-          });
-          html = captchaHtml;
-          const reclean = cleanHtml(html);
-          classification = await classifyPage(reclean.html, finalUrl);
-          try {
-            const verification = verifyCleaning(captchaHtml, reclean.html);
-            const confidencePct = Math.round(verification.coverageRatio * 100);
-            await dbLog(
-              db,
-              analysisId,
-              'CleanerVerifier',
-              `Post-captcha cleaning confidence: ${confidencePct}%` +
-                (verification.manualReviewRequired ? ' (manual review recommended)' : ''),
-              { level: verification.manualReviewRequired ? 'warn' : 'info' },
-            );
-          } catch {
-            await dbLog(
-              db,
-              analysisId,
-              'CleanerVerifier',
-              'Post-captcha cleaning verification failed (non-fatal).',
-              { level: 'warn' },
-            );
-          }
-          try {
-            await saveHtmlVariant(runFolderName, 'post-captcha', captchaHtml, reclean.html);
-            const screenshotPath = path.join(
-              getRunFolderPath(runFolderName),
-              'screenshot-post-captcha.png',
-            );
-            await page.screenshot({ path: screenshotPath, fullPage: true });
-            await dbLog(db, analysisId, 'Browser', 'Post-captcha artifacts saved.', {
-              level: 'info',
-            });
-          } catch {
-            // ignore
-          }
-        }
+            // 3b. Persist run to disk for debugging and re-analysis
+            await saveApplicationAssistantRun(runFolderName, capturedHtml, cleanedHtml, {
+              url: finalUrl,
+              userId,
+              userName,
+              folderName: runFolderName,
+              classificationType: type.type,
+              classificationConfidence: type.confidence,
+              timestamp: new Date().toISOString(),
+            })
+              .then(async (dir) => {
+                await dbLog(db, analysisId, 'Pipeline', `Run saved to ${dir}`, { level: 'info' });
+              })
+              .catch(async (err) => {
+                await dbLog(
+                  db,
+                  analysisId,
+                  'Pipeline',
+                  `Could not save run to disk: ${err instanceof Error ? err.message : String(err)}`,
+                  { level: 'warn' },
+                );
+              });
+            await updateOrchestratorMemory(runFolderName, { currentStep: 'scraping' });
+            // Initial screenshot
+            try {
+              const screenshotPath = path.join(
+                getRunFolderPath(runFolderName),
+                'screenshot-initial.png',
+              );
+              await page.screenshot({ path: screenshotPath, fullPage: true });
+              await dbLog(db, analysisId, 'Browser', `Initial screenshot saved.`, {
+                level: 'info',
+              });
+            } catch {
+              // ignore screenshot failures
+            }
+            timings.classifyMs = Date.now() - tClassifyStart;
+          },
+          onWaitForUser: async (kind, waiting) => {
+            if (kind === 'login') {
+              if (waiting) {
+                await dbLog(
+                  db,
+                  analysisId,
+                  'Browser',
+                  'Login required — please log in in the browser window',
+                  { level: 'warn' },
+                );
+              }
+              setAssistantWaitingForLogin(analysisId, waiting);
+              await updateAnalysisRunState(db, analysisId, { waitingForLogin: waiting });
+              if (!waiting) {
+                await dbLog(db, analysisId, 'Browser', 'Login completed, re-capturing page...', {
+                  level: 'success',
+                });
+              }
+              return;
+            }
+            if (waiting) {
+              dbLog(
+                db,
+                analysisId,
+                'Browser',
+                'Captcha detected — please solve it in the browser window',
+                { level: 'warn' },
+              );
+            }
+            setAssistantWaitingForCaptcha(analysisId, waiting);
+            await updateAnalysisRunState(db, analysisId, { waitingForCaptcha: waiting });
+            if (!waiting) {
+              await dbLog(db, analysisId, 'Browser', 'Captcha solved, re-capturing page...', {
+                level: 'success',
+              });
+            }
+          },
+        });
+        html = captured.html;
+        const { classification } = captured;
 
         throwIfAborted(effectiveSignal);
         // 6. URL resolution (depth 2) — only when URL does NOT look like a job page and classifier says not job
@@ -735,48 +906,10 @@ export async function runApplicationAssistantPipeline(
           }
         }
 
-        if (focusedHtml && focusedHtml.length > 100) {
-          jobDetail = await extractJobDetail(focusedHtml, resolvedUrl);
-          if (jobDetail.title === 'Untitled' || jobDetail.company === 'Unknown') {
-            await dbLog(
-              db,
-              analysisId,
-              'Extractor',
-              'RAG-focused extraction missed; trying full cleaned HTML.',
-              {
-                level: 'info',
-              },
-            );
-            jobDetail = await extractJobDetail(cleanedForExtract.html, resolvedUrl);
-            extractionSource = 'cleaned_html';
-          }
-          if (jobDetail.title !== 'Untitled' && jobDetail.company !== 'Unknown') {
-            extractionSource = 'rag_focused';
-          }
-        } else {
-          jobDetail = await extractJobDetail(cleanedForExtract.html, resolvedUrl);
-          extractionSource = 'cleaned_html';
-        }
-
-        if (
-          (jobDetail.title === 'Untitled' || jobDetail.company === 'Unknown') &&
-          resolvedHtml.length > 5000
-        ) {
-          await dbLog(
-            db,
-            analysisId,
-            'Extractor',
-            'Cleaned HTML yielded little — trying raw HTML.',
-            {
-              level: 'info',
-            },
-          );
-          const rawJob = await extractJobDetail(resolvedHtml, resolvedUrl);
-          if (rawJob.title !== 'Untitled' || rawJob.company !== 'Unknown') {
-            jobDetail = rawJob;
-            extractionSource = 'raw_html';
-          }
-        }
+        ({ jobDetail, extractionSource } = await extractJobFromPage(resolvedHtml, resolvedUrl, {
+          focusedHtml,
+          onLog: (message) => dbLog(db, analysisId, 'Extractor', message, { level: 'info' }),
+        }));
         if (jobDetail.title === 'Untitled' || jobDetail.company === 'Unknown') {
           await dbLog(
             db,
@@ -808,6 +941,16 @@ export async function runApplicationAssistantPipeline(
           },
         });
       }
+      if (!extractCheckpoint) {
+        const checkpoint: ExtractCheckpoint = {
+          jobDetail,
+          resolvedUrl,
+          extractionSource,
+          useRag,
+          cleanedHtml: cleanedForExtract.html,
+        };
+        await saveRunCheckpoint(runFolderName, 'extract', checkpoint);
+      }
 
       throwIfAborted(effectiveSignal);
       // 7b. Company identity resolver (multi-signal, DB-aware at app layer)
@@ -1029,47 +1172,54 @@ export async function runApplicationAssistantPipeline(
       let resumeSuggestions = null;
 
       if (profile && profile.name) {
-        const profileSnapshot: ProfileSnapshot = {
-          name: profile.name,
-          location: profile.location ?? null,
-          workAuthorization: profile.workAuthorization ?? null,
-          seniority: profile.seniority ?? null,
-          targetRoles: (profile.targetRoles as string[]) ?? [],
-          skills: (profile.skills as string[]) ?? [],
-          linkedinUrl: (profile as { linkedinUrl?: string | null }).linkedinUrl ?? null,
-          githubUrl: (profile as { githubUrl?: string | null }).githubUrl ?? null,
-          portfolioUrl: (profile as { portfolioUrl?: string | null }).portfolioUrl ?? null,
-          experience:
-            (profile.experience as {
-              title: string;
-              company: string;
-              startDate?: string;
-              endDate?: string;
-            }[]) ?? [],
-          education:
-            (profile.education as { institution: string; degree?: string; field?: string }[]) ?? [],
-          resumeRawText: profile.resumeRawText ?? null,
-        } as ProfileSnapshot & {
-          willingToRelocate?: boolean;
-          hasCar?: boolean;
-          remotePreference?: string;
-          targetLocations?: { country: string; state?: string; city?: string }[];
-        };
-        (profileSnapshot as any).willingToRelocate = preferences?.willingToRelocate ?? undefined;
-        (profileSnapshot as any).hasCar = preferences?.hasCar ?? undefined;
-        (profileSnapshot as any).remotePreference = preferences?.remotePreference ?? undefined;
-        (profileSnapshot as any).targetLocations =
-          (preferences?.targetLocations as {
-            country: string;
-            state?: string;
-            city?: string;
-          }[]) ?? undefined;
+        const profileSnapshot = toProfileSnapshot(profile, preferences);
+
+        // 10a. Resume version: the pinned one, else the best fit for this job (none saved → profile)
+        const pinnedSelection = (await getAnalysisById(db, analysisId))?.resumeSelection as {
+          mode?: string;
+          resumeId?: string;
+        } | null;
+        const resumeCandidates = buildResumeCandidates(
+          await listResumesByUser(db, userId),
+          profile,
+        );
+        const resumeSelection = selectResumeVersion(
+          resumeCandidates,
+          jobDetail,
+          pinnedSelection?.mode === 'pinned' ? pinnedSelection.resumeId : null,
+        );
+        const resumeProfile = applyResumeVersion(
+          profileSnapshot,
+          resumeCandidates.find((c) => c.id === resumeSelection.resumeId) ?? null,
+        );
+        await updateAnalysis(db, analysisId, {
+          resumeId:
+            resumeSelection.resumeId && resumeSelection.resumeId !== PROFILE_RESUME_ID
+              ? resumeSelection.resumeId
+              : null,
+          resumeSelection: resumeSelection as unknown as Record<string, unknown>,
+        });
+        if (resumeSelection.mode !== 'profile') {
+          // A pin that could not be honoured falls back to the best fit; make that visible.
+          const pinIgnored =
+            pinnedSelection?.mode === 'pinned' && resumeSelection.mode !== 'pinned';
+          await dbLog(db, analysisId, 'Resume', resumeSelection.reason, {
+            level: pinIgnored ? 'warn' : 'info',
+          });
+        }
+        const resumeVersion = resumeSelection.name;
 
         // 10. Match
         await dbLog(db, analysisId, 'Match', 'Computing profile-job match...', { level: 'info' });
         const tMatchStart = Date.now();
         throwIfAborted(effectiveSignal);
-        matchResult = await matchProfileToJob(profileSnapshot, jobDetail);
+        const matchCheckpoint = checkpoints.match as MatchResult | undefined;
+        if (matchCheckpoint) {
+          matchResult = matchCheckpoint;
+        } else {
+          matchResult = await matchProfileToJob(resumeProfile, jobDetail);
+          await saveRunCheckpoint(runFolderName, 'match', matchResult);
+        }
         throwIfAborted(effectiveSignal);
         dbLog(
           db,
@@ -1079,6 +1229,31 @@ export async function runApplicationAssistantPipeline(
           { level: 'success' },
         );
 
+        // 10b. Requirement evidence: best resume line per requirement (embeddings; optional)
+        let requirementEvidence: Awaited<ReturnType<typeof mapRequirementEvidence>> | null = null;
+        try {
+          requirementEvidence = await mapRequirementEvidence(resumeProfile, jobDetail);
+          if (requirementEvidence.length > 0) {
+            const met = requirementEvidence.filter((r) => r.verdict === 'met').length;
+            await dbLog(
+              db,
+              analysisId,
+              'Match',
+              `Requirements with resume evidence: ${met}/${requirementEvidence.length} met`,
+              { level: 'info' },
+            );
+          }
+        } catch (err) {
+          await dbLog(
+            db,
+            analysisId,
+            'Match',
+            `Requirement evidence skipped: ${err instanceof Error ? err.message : String(err)}`,
+            { level: 'warn' },
+          );
+        }
+        throwIfAborted(effectiveSignal);
+
         const matchEvidence = {
           model: 'GENERAL',
           summary:
@@ -1087,6 +1262,7 @@ export async function runApplicationAssistantPipeline(
           strengths: matchResult.strengths,
           gaps: matchResult.gaps,
           strictFilterRejects: matchResult.strictFilterRejects,
+          resumeVersion,
         };
         await updateAnalysis(db, analysisId, {
           matchScore: matchResult.overallScore,
@@ -1101,6 +1277,7 @@ export async function runApplicationAssistantPipeline(
             ? matchResult.strictFilterRejects
             : null,
           matchEvidence,
+          requirementEvidence: requirementEvidence as unknown as Record<string, unknown>[] | null,
         });
         await updateOrchestratorMemory(runFolderName, {
           currentStep: 'matching',
@@ -1121,7 +1298,17 @@ export async function runApplicationAssistantPipeline(
           level: 'info',
         });
         const tWritingStart = Date.now();
-        resumeSuggestions = await generateResumeSuggestions(profileSnapshot, jobDetail);
+        const resumeCheckpoint = checkpoints.resume as ResumeSuggestions | undefined;
+        if (resumeCheckpoint) {
+          resumeSuggestions = resumeCheckpoint;
+        } else {
+          resumeSuggestions = await generateResumeSuggestions(
+            resumeProfile,
+            jobDetail,
+            await loadSkillTaxonomy(db),
+          );
+          await saveRunCheckpoint(runFolderName, 'resume', resumeSuggestions);
+        }
         throwIfAborted(effectiveSignal);
         dbLog(
           db,
@@ -1137,6 +1324,7 @@ export async function runApplicationAssistantPipeline(
           matchCount: resumeSuggestions.matches.length,
           improvementCount: resumeSuggestions.improvements.length,
           keywordCount: resumeSuggestions.keywordsToAdd.length,
+          resumeVersion,
         };
         await updateAnalysis(db, analysisId, {
           resumeSuggestions: resumeSuggestions as unknown as Record<string, unknown>,
@@ -1165,19 +1353,23 @@ export async function runApplicationAssistantPipeline(
           coverLetterWordChoice?: string[];
           coverLetterNotes?: string | null;
         } | null;
-        const coverLetters = await generateSingleCoverLetter(profileSnapshot, jobDetail, {
-          companyResearch: companyResearchText ?? undefined,
-          style:
-            prefs?.coverLetterTone != null || prefs?.coverLetterNotes != null
-              ? {
-                  tone: prefs.coverLetterTone ?? undefined,
-                  length:
-                    (prefs.coverLetterLength as 'CONCISE' | 'DEFAULT' | 'DETAILED') ?? undefined,
-                  wordChoice: prefs.coverLetterWordChoice ?? undefined,
-                  notes: prefs.coverLetterNotes ?? undefined,
-                }
-              : undefined,
-        });
+        let coverLetters = checkpoints.coverLetters as CoverLetters | undefined;
+        if (!coverLetters) {
+          coverLetters = await generateSingleCoverLetter(resumeProfile, jobDetail, {
+            companyResearch: companyResearchText ?? undefined,
+            style:
+              prefs?.coverLetterTone != null || prefs?.coverLetterNotes != null
+                ? {
+                    tone: prefs.coverLetterTone ?? undefined,
+                    length:
+                      (prefs.coverLetterLength as 'CONCISE' | 'DEFAULT' | 'DETAILED') ?? undefined,
+                    wordChoice: prefs.coverLetterWordChoice ?? undefined,
+                    notes: prefs.coverLetterNotes ?? undefined,
+                  }
+                : undefined,
+          });
+          await saveRunCheckpoint(runFolderName, 'coverLetters', coverLetters);
+        }
         await dbLog(db, analysisId, 'CoverLetter', 'Cover letter ready', {
           level: 'success',
         });
@@ -1186,6 +1378,7 @@ export async function runApplicationAssistantPipeline(
           model: 'GENERAL',
           summary: 'Cover letter ready',
           singleDraft: true,
+          resumeVersion,
         };
         await updateAnalysis(db, analysisId, {
           coverLetters: coverLetters as unknown as Record<string, string>,
@@ -1217,11 +1410,17 @@ export async function runApplicationAssistantPipeline(
         });
         timings.writingMs = Date.now() - tWritingStart;
 
-        // 14. Salary / level check
+        // 14. Salary / level check (deterministic salary parse + compensation fit)
+        const compensation = computeCompensationFit(parseSalary(jobDetail.salary), {
+          salaryMin: preferences?.salaryMin != null ? Number(preferences.salaryMin) : undefined,
+          salaryMax: preferences?.salaryMax != null ? Number(preferences.salaryMax) : undefined,
+          salaryCurrency: preferences?.salaryCurrency ?? undefined,
+        });
         let salaryCheck: string | null = null;
         if (jobDetail.salary || jobDetail.seniority) {
           const parts: string[] = [];
           if (jobDetail.salary) parts.push(`Job salary: ${jobDetail.salary}`);
+          if (compensation.salary) parts.push(compensation.evidence);
           if (jobDetail.seniority && profile.seniority) {
             parts.push(
               jobDetail.seniority.toLowerCase().includes(profile.seniority.toLowerCase())
@@ -1232,6 +1431,66 @@ export async function runApplicationAssistantPipeline(
           salaryCheck = parts.join('. ');
         }
 
+        // 15a. Application form blueprint: read the apply form and pre-fill an answer sheet
+        // for review. Read-only — nothing is typed into or submitted on the employer's site.
+        let answerSheet: ReturnType<typeof buildAnswerSheet> | null = null;
+        if (!isWrappingUp()) {
+          const applyPage = await browser.newPage();
+          try {
+            const { blueprint, warnings } = await createBlueprint(
+              toNormalizedJob(
+                analysisId,
+                jobDetail as unknown as Record<string, unknown>,
+                jobDetail.applyUrl ?? resolvedUrl,
+              ),
+              { page: applyPage },
+            );
+            for (const warning of warnings) {
+              await dbLog(db, analysisId, 'ApplicationBlueprint', warning, { level: 'warn' });
+            }
+            answerSheet = buildAnswerSheet(
+              blueprint,
+              buildApplicantValues(profile, preferences, { coverLetterReady: !!coverLetters }),
+            );
+            try {
+              answerSheet = await fillFromAnswerBank(
+                db,
+                userId,
+                { jobSummary: jobDetail as unknown as Record<string, unknown> },
+                answerSheet,
+              );
+            } catch (e) {
+              await dbLog(
+                db,
+                analysisId,
+                'ApplicationBlueprint',
+                `Answer bank lookup failed (non-fatal): ${e instanceof Error ? e.message : String(e)}`,
+                { level: 'warn' },
+              );
+            }
+            await updateAnalysis(db, analysisId, {
+              applicationBlueprint: answerSheet as unknown as Record<string, unknown>,
+            });
+            await dbLog(
+              db,
+              analysisId,
+              'ApplicationBlueprint',
+              `Application form: ${answerSheet.answers.length} fields, ${answerSheet.unansweredRequired} required need your input`,
+              { level: 'info' },
+            );
+          } catch (e) {
+            await dbLog(
+              db,
+              analysisId,
+              'ApplicationBlueprint',
+              `Could not read the application form (non-fatal): ${e instanceof Error ? e.message : String(e)}`,
+              { level: 'warn' },
+            );
+          } finally {
+            await applyPage.close().catch(() => {});
+          }
+        }
+
         // 15. Application checklist (simple)
         // Company researched = we have snapshot or research text; job scraped well = we have title + description/requirements
         const companyResearched = !!(companySnapshotData ?? companyResearchText);
@@ -1255,12 +1514,25 @@ export async function runApplicationAssistantPipeline(
                 },
               ]
             : []),
+          ...(answerSheet && answerSheet.answers.length > 0
+            ? [
+                {
+                  item:
+                    answerSheet.unansweredRequired > 0
+                      ? `Complete application form (${answerSheet.unansweredRequired} required fields need your input)`
+                      : 'Review pre-filled application form answers',
+                  done: false,
+                  userActionNeeded: answerSheet.unansweredRequired > 0,
+                },
+              ]
+            : []),
           { item: 'Research the company', done: companyResearched },
           { item: 'Prepare for interview questions', done: true },
         ];
 
         await updateAnalysis(db, analysisId, {
           salaryLevelCheck: salaryCheck,
+          compensation: compensation as unknown as Record<string, unknown>,
           applicationChecklist: checklist as unknown as Record<string, unknown>[],
         });
       } else {
@@ -1287,7 +1559,14 @@ export async function runApplicationAssistantPipeline(
         others: 0,
       };
 
-      if (!isWrappingUp()) {
+      const outreachCheckpoint = checkpoints.outreach as OutreachCheckpoint | undefined;
+      if (outreachCheckpoint) {
+        ({ outreachContacts, contactsEvidence } = outreachCheckpoint);
+        await transitionAssistantStep(db, analysisId, 'outreach');
+        await dbLog(db, analysisId, 'OutReachPipeline', 'Using checkpointed contacts.', {
+          level: 'info',
+        });
+      } else if (!isWrappingUp()) {
         await transitionAssistantStep(db, analysisId, 'outreach');
         await dbLog(
           db,
@@ -1310,6 +1589,10 @@ export async function runApplicationAssistantPipeline(
         try {
           const maxContactsPerJob =
             (preferences as { maxContactsPerJob?: number } | null)?.maxContactsPerJob ?? 2;
+          // People already found for other jobs at this company are candidates here too
+          const knownContacts = companyForOutreach
+            ? await listContactsByCompanyId(db, companyForOutreach.id, { limit: 20 })
+            : [];
           const outreachResult = await runOutreachResearch({
             job: {
               title: jobDetail.title,
@@ -1341,6 +1624,13 @@ export async function runApplicationAssistantPipeline(
             hardTimeoutMs: Math.min(OUTREACH_PIPELINE_TIMEOUT_MS, getRemainingMs() - 5000),
             abortSignal: effectiveSignal,
             maxRankedContacts: maxContactsPerJob,
+            existingContactsFromDb: knownContacts.map((c) => ({
+              name: c.name,
+              role: c.role,
+              email: c.email,
+              linkedinUrl: c.linkedinUrl,
+              archetype: c.archetype,
+            })),
             preferences: preferences
               ? { targetContactRoles: (preferences as any).targetContactRoles as string[] }
               : null,
@@ -1371,6 +1661,13 @@ export async function runApplicationAssistantPipeline(
             `Done. ${contacts.length} contact(s). Create drafts on demand from the contacts list.`,
             { level: 'success' },
           );
+          if (companyForOutreach) {
+            for (const item of outreachContacts.ranked as Record<string, unknown>[]) {
+              await saveRankedContact(db, companyForOutreach.id, item).catch(() => null);
+            }
+          }
+          const checkpoint: OutreachCheckpoint = { outreachContacts, contactsEvidence };
+          await saveRunCheckpoint(runFolderName, 'outreach', checkpoint);
         } catch (err) {
           dbLog(
             db,
@@ -1384,10 +1681,8 @@ export async function runApplicationAssistantPipeline(
         }
       }
 
-      // Persist outreach result on the analysis row (contacts jsonb). The dedicated
-      // contacts table (DB) exists for reuse across jobs at the same company; it is
-      // not yet populated by this pipeline. Linking to analysisId would require
-      // usedForAnalysisIds or an analysis_contacts junction table.
+      // Persist outreach result on the analysis row (contacts jsonb). Ranked contacts are also
+      // stored in the contacts table (per company) for reuse and the user's interaction log.
       await updateAnalysis(db, analysisId, {
         contacts: outreachContacts,
         contactsEvidence,
@@ -1409,7 +1704,38 @@ export async function runApplicationAssistantPipeline(
         string,
         unknown
       > | null;
+      // Don't auto-draft to someone the user reached out to recently (any job)
+      let recentlyContacted = false;
       if (profile && bestContact && ranked.length > 0) {
+        try {
+          const crmCompany = await findCompanyByNameOrDomain(db, {
+            name: companyResolution.canonicalName,
+          });
+          const saved = crmCompany
+            ? await saveRankedContact(db, crmCompany.id, bestContact).catch(() => null)
+            : null;
+          const recent = saved ? await findRecentInteraction(db, userId, saved.id) : null;
+          if (saved && recent) {
+            recentlyContacted = true;
+            await dbLog(
+              db,
+              analysisId,
+              'OutreachDraft',
+              `${describeRecentInteraction(saved.name, recent)} Skipping the automatic draft; create one from the contacts list if you still want to follow up.`,
+              { level: 'warn' },
+            );
+          }
+        } catch (recentErr) {
+          dbLog(
+            db,
+            analysisId,
+            'OutreachDraft',
+            `Recent-contact check failed (non-fatal): ${recentErr instanceof Error ? recentErr.message : String(recentErr)}`,
+            { level: 'warn' },
+          );
+        }
+      }
+      if (profile && bestContact && ranked.length > 0 && !recentlyContacted) {
         try {
           const companyName = jobDetail.company ?? 'Company';
           const jobSummary: Record<string, unknown> = {
@@ -1861,6 +2187,7 @@ export async function runApplicationAssistantPipeline(
     await transitionAssistantStep(db, analysisId, 'error', { runStatusOverride: 'error' });
   } finally {
     clearAssistantAbortController(analysisId);
+    clearAssistantRunning(analysisId);
   }
 }
 
@@ -1914,7 +2241,7 @@ async function resolveToJobPage(
       await dbLog(db, analysisId, 'Resolver', `Trying: ${candidate} (depth ${depth + 1})`, {
         level: 'info',
       });
-      await page.goto(candidate, { waitUntil: 'domcontentloaded', timeout: 20000 });
+      await policyGoto(page, candidate, { waitUntil: 'domcontentloaded', timeout: 20000 });
       await page.waitForTimeout(2000);
       const candidateHtml = await page.content();
       const candidateClean = cleanHtml(candidateHtml);
@@ -1,10 +1,14 @@
 /**
- * In-memory state for the Application Assistant single-URL analysis flow.
- * Tracks running state, step progress, and page-scoped logs (separate from Admin).
+ * In-memory state for Application Assistant runs, keyed by analysis id so several runs (for
+ * one user or many) can be in flight at once. Each run has its own step, login/captcha
+ * waiting flags and log buffer; the DB stays the source of truth across restarts/processes.
  *
  * Stop button: we store an AbortController per analysisId so the stop route can
  * call abort() and the pipeline runner can react immediately (check signal at
  * step boundaries and pass to fetch).
+ *
+ * Concurrency: callers (start route, queue worker) check hasAssistantCapacity() before
+ * starting a pipeline; the cap is APPLICATION_ASSISTANT_MAX_CONCURRENT_RUNS (default 2).
  */
 
 const abortControllersByAnalysisId = new Map<string, AbortController>();
@@ -15,6 +19,7 @@ export type AssistantStep =
   | 'extracting'
   | 'matching'
   | 'writing'
+  | 'outreach'
   | 'done'
   | 'error';
 
@@ -27,44 +32,91 @@ export interface AssistantLogEntry {
   detail?: string;
 }
 
+export interface AssistantRunState {
+  analysisId: string;
+  userId: string;
+  startedAt: number;
+  currentStep: AssistantStep;
+  waitingForLogin: boolean;
+  waitingForCaptcha: boolean;
+  logs: AssistantLogEntry[];
+  nextLogId: number;
+}
+
 const MAX_LOGS = 500;
+const DEFAULT_MAX_CONCURRENT_RUNS = 2;
 
-let running = false;
-let sessionId: string | null = null;
-let currentStep: AssistantStep = 'idle';
-let analysisId: string | null = null;
-let waitingForLogin = false;
-let waitingForCaptcha = false;
-const logs: AssistantLogEntry[] = [];
-let nextLogId = 1;
+const runs = new Map<string, AssistantRunState>();
 
-export function getAssistantStatus() {
-  return {
-    running,
-    sessionId,
-    currentStep,
+/** Pipelines allowed in parallel (env APPLICATION_ASSISTANT_MAX_CONCURRENT_RUNS, default 2). */
+export function getAssistantConcurrencyLimit(): number {
+  const n = Math.floor(Number(process.env.APPLICATION_ASSISTANT_MAX_CONCURRENT_RUNS));
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_MAX_CONCURRENT_RUNS;
+}
+
+export function hasAssistantCapacity(): boolean {
+  return runs.size < getAssistantConcurrencyLimit();
+}
+
+/** Track a run (idempotent). The runner calls this synchronously on entry. */
+export function registerAssistantRun(analysisId: string, userId: string): AssistantRunState {
+  const existing = runs.get(analysisId);
+  if (existing) return existing;
+  const run: AssistantRunState = {
     analysisId,
-    waitingForLogin,
-    waitingForCaptcha,
+    userId,
+    startedAt: Date.now(),
+    currentStep: 'scraping',
+    waitingForLogin: false,
+    waitingForCaptcha: false,
+    logs: [],
+    nextLogId: 1,
   };
+  runs.set(analysisId, run);
+  return run;
+}
+
+export function getAssistantRun(analysisId: string): AssistantRunState | undefined {
+  return runs.get(analysisId);
+}
+
+/** Runs in flight in this process, optionally for one user (oldest first). */
+export function listAssistantRuns(userId?: string): AssistantRunState[] {
+  const all = [...runs.values()];
+  return userId ? all.filter((r) => r.userId === userId) : all;
 }
 
-export function setAssistantRunning(sid: string): void {
-  running = true;
-  sessionId = sid;
-  currentStep = 'scraping';
-  analysisId = null;
-  waitingForLogin = false;
-  waitingForCaptcha = false;
-  logs.length = 0;
-  nextLogId = 1;
+/**
+ * Pick the user's run a login/captcha "solved" click is meant for: the requested analysis if
+ * it is theirs and waiting, else their oldest waiting run. Null when nothing of theirs waits.
+ */
+export function resolveWaitingRun(
+  userId: string,
+  analysisId: unknown,
+  isWaiting: (analysisId: string) => boolean,
+): string | null {
+  if (typeof analysisId === 'string' && analysisId) {
+    const run = runs.get(analysisId);
+    return run?.userId === userId && isWaiting(analysisId) ? analysisId : null;
+  }
+  return listAssistantRuns(userId).find((r) => isWaiting(r.analysisId))?.analysisId ?? null;
 }
 
-export function clearAssistantRunning(): void {
-  running = false;
-  sessionId = null;
-  waitingForLogin = false;
-  waitingForCaptcha = false;
+export function getAssistantStatus(analysisId: string) {
+  const run = runs.get(analysisId);
+  if (!run) return null;
+  return {
+    running: true,
+    currentStep: run.currentStep,
+    analysisId: run.analysisId,
+    waitingForLogin: run.waitingForLogin,
+    waitingForCaptcha: run.waitingForCaptcha,
+  };
+}
+
+/** Forget a run once it has finished or been stopped; frees its concurrency slot. */
+export function clearAssistantRunning(analysisId: string): void {
+  runs.delete(analysisId);
 }
 
 /** Register the AbortController for a run so stop can abort it. */
@@ -82,48 +134,59 @@ export function clearAssistantAbortController(analysisId: string): void {
   abortControllersByAnalysisId.delete(analysisId);
 }
 
-export function setAssistantStep(step: AssistantStep): void {
-  currentStep = step;
-}
-
-export function setAssistantAnalysisId(id: string): void {
-  analysisId = id;
+export function setAssistantStep(analysisId: string, step: AssistantStep): void {
+  const run = runs.get(analysisId);
+  if (run) run.currentStep = step;
 }
 
-export function setAssistantWaitingForLogin(v: boolean): void {
-  waitingForLogin = v;
+export function setAssistantWaitingForLogin(analysisId: string, v: boolean): void {
+  const run = runs.get(analysisId);
+  if (run) run.waitingForLogin = v;
 }
 
-export function setAssistantWaitingForCaptcha(v: boolean): void {
-  waitingForCaptcha = v;
+export function setAssistantWaitingForCaptcha(analysisId: string, v: boolean): void {
+  const run = runs.get(analysisId);
+  if (run) run.waitingForCaptcha = v;
 }
 
+/** Append to a run's log buffer. Pass the persisted log row's id so ids match the DB. */
 export function assistantLog(
+  analysisId: string,
   agent: string,
   message: string,
-  options?: { level?: AssistantLogEntry['level']; detail?: string },
-): AssistantLogEntry {
+  options?: { level?: AssistantLogEntry['level']; detail?: string; id?: string; ts?: number },
+): AssistantLogEntry | null {
+  const run = runs.get(analysisId);
+  if (!run) return null;
   const entry: AssistantLogEntry = {
-    id: `aa-log-${nextLogId++}`,
-    ts: Date.now(),
+    id: options?.id ?? `aa-log-${run.nextLogId++}`,
+    ts: options?.ts ?? Date.now(),
     agent,
     level: options?.level ?? 'info',
     message,
     detail: options?.detail,
   };
-  logs.push(entry);
-  if (logs.length > MAX_LOGS) logs.shift();
+  run.logs.push(entry);
+  if (run.logs.length > MAX_LOGS) run.logs.shift();
   return entry;
 }
 
-export function getAssistantLogs(afterId?: string): AssistantLogEntry[] {
-  if (!afterId) return [...logs];
-  const idx = logs.findIndex((l) => l.id === afterId);
-  if (idx < 0) return [...logs];
-  return logs.slice(idx + 1);
+/**
+ * A run's buffered logs after `afterId`. Returns null when the run isn't live here or
+ * `afterId` has rotated out of the buffer, so callers fall back to the DB.
+ */
+export function getAssistantLogs(analysisId: string, afterId?: string): AssistantLogEntry[] | null {
+  const run = runs.get(analysisId);
+  if (!run) return null;
+  if (!afterId) return [...run.logs];
+  const idx = run.logs.findIndex((l) => l.id === afterId);
+  if (idx < 0) return null;
+  return run.logs.slice(idx + 1);
 }
 
-export function clearAssistantLogs(): void {
-  logs.length = 0;
-  nextLogId = 1;
+export function clearAssistantLogs(analysisId: string): void {
+  const run = runs.get(analysisId);
+  if (!run) return;
+  run.logs.length = 0;
+  run.nextLogId = 1;
 }
@@ -0,0 +1,33 @@
+/**
+ * Hard stop for one Application Assistant run: abort its pipeline, unblock any login/captcha
+ * wait and mark the analysis as errored so status polls see it stopped right away.
+ * The concurrency slot stays taken until the pipeline's finally block frees it, so a new run
+ * cannot start alongside one that is still unwinding (closing its browser, writing logs).
+ */
+
+import type { getDb } from '@careersignal/db';
+import {
+  getAssistantAbortController,
+  clearAssistantAbortController,
+} from '@/lib/application-assistant-state';
+import { cancelLoginWait } from '@/lib/login-wall-state';
+import { cancelCaptchaSolve } from '@/lib/captcha-state';
+import { transitionAssistantStep } from '@/lib/application-assistant-planner';
+
+export async function stopAssistantRun(
+  db: ReturnType<typeof getDb>,
+  analysisId: string,
+): Promise<void> {
+  // Abort the pipeline's controller so it exits at next check
+  const controller = getAssistantAbortController(analysisId);
+  if (controller) {
+    controller.abort();
+    clearAssistantAbortController(analysisId);
+  }
+
+  // Unblock if stuck waiting on login or captcha
+  cancelLoginWait(analysisId, new Error('Stopped by user'));
+  cancelCaptchaSolve(analysisId, new Error('Stopped by user'));
+
+  await transitionAssistantStep(db, analysisId, 'error', { runStatusOverride: 'error' });
+}
@@ -0,0 +1,85 @@
+/**
+ * Applicant values for the apply-form answer sheet: the profile and preferences flattened into
+ * the profile fields application forms ask for (see PROFILE_FIELDS in the apply agents).
+ */
+
+import type { ApplicantValues } from '@careersignal/agents';
+
+export interface ApplicantProfile {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  location?: string | null;
+  workAuthorization?: string | null;
+  skills?: string[] | null;
+  education?: unknown[] | null;
+  linkedinUrl?: string | null;
+  githubUrl?: string | null;
+  portfolioUrl?: string | null;
+  resumeFileRef?: string | null;
+}
+
+export interface ApplicantPreferences {
+  salaryMin?: string | number | null;
+  salaryMax?: string | number | null;
+  salaryCurrency?: string | null;
+}
+
+/** Work authorizations that answer "Are you authorized to work in the US?" with Yes. */
+const AUTHORIZED = new Set(['US_CITIZEN', 'GREEN_CARD', 'H1B', 'OPT', 'EAD']);
+/** Sponsorship answer per work authorization; others are left for the user. */
+const SPONSORSHIP: Record<string, string> = {
+  US_CITIZEN: 'No',
+  GREEN_CARD: 'No',
+  H1B: 'Yes',
+  OPT: 'Yes',
+};
+
+function latestEducation(education: unknown[] | null | undefined): string | undefined {
+  const first = (education ?? [])[0] as
+    { institution?: string; degree?: string | null; field?: string | null } | undefined;
+  if (!first?.institution) return undefined;
+  const degree = [first.degree, first.field].filter(Boolean).join(' in ');
+  return degree ? `${degree}, ${first.institution}` : first.institution;
+}
+
+function salaryText(preferences: ApplicantPreferences | null | undefined): string | undefined {
+  const min = preferences?.salaryMin != null ? Number(preferences.salaryMin) : NaN;
+  const max = preferences?.salaryMax != null ? Number(preferences.salaryMax) : NaN;
+  const currency = preferences?.salaryCurrency ? ` ${preferences.salaryCurrency}` : '';
+  if (Number.isFinite(min) && Number.isFinite(max) && max > min) return `${min}-${max}${currency}`;
+  if (Number.isFinite(min)) return `${min}${currency}`;
+  if (Number.isFinite(max)) return `${max}${currency}`;
+  return undefined;
+}
+
+export function buildApplicantValues(
+  profile: ApplicantProfile,
+  preferences?: ApplicantPreferences | null,
+  options?: { coverLetterReady?: boolean },
+): ApplicantValues {
+  const name = profile.name.trim();
+  const [firstName, ...rest] = name.split(/\s+/);
+  const auth = profile.workAuthorization ?? '';
+  const values: ApplicantValues = {
+    name,
+    firstName,
+    lastName: rest.join(' ') || undefined,
+    email: profile.email ?? undefined,
+    phone: profile.phone ?? undefined,
+    location: profile.location ?? undefined,
+    linkedinUrl: profile.linkedinUrl ?? undefined,
+    githubUrl: profile.githubUrl ?? undefined,
+    portfolioUrl: profile.portfolioUrl ?? undefined,
+    workAuthorization: AUTHORIZED.has(auth) ? 'Yes' : undefined,
+    sponsorshipRequired: SPONSORSHIP[auth],
+    salary: salaryText(preferences),
+    resume: profile.resumeFileRef ? profile.resumeFileRef.split('/').pop() : undefined,
+    coverLetter: options?.coverLetterReady ? 'Generated cover letter' : undefined,
+    skills: profile.skills?.length ? profile.skills.join(', ') : undefined,
+    education: latestEducation(profile.education),
+  };
+  return Object.fromEntries(
+    Object.entries(values).filter(([, v]) => typeof v === 'string' && v.trim()),
+  ) as ApplicantValues;
+}
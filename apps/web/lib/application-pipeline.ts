@@ -0,0 +1,114 @@
+/**
+ * Application pipeline: stage metadata and funnel math for the Dashboard kanban.
+ * Client-safe (type-only DB import) so the board can recompute rates after a move.
+ */
+
+import type { ApplicationStatus } from '@careersignal/db';
+
+/** Mirrors the application_status enum, in board order. */
+export const PIPELINE_STAGES: { id: ApplicationStatus; label: string }[] = [
+  { id: 'saved', label: 'Saved' },
+  { id: 'applied', label: 'Applied' },
+  { id: 'interviewing', label: 'Interviewing' },
+  { id: 'offer', label: 'Offer' },
+  { id: 'rejected', label: 'Rejected' },
+  { id: 'withdrawn', label: 'Withdrawn' },
+];
+
+/** Funnel steps: each rate is reached(to) / reached(from). */
+const FUNNEL_STEPS: { from: ApplicationStatus | 'all'; to: ApplicationStatus }[] = [
+  { from: 'all', to: 'applied' },
+  { from: 'applied', to: 'interviewing' },
+  { from: 'interviewing', to: 'offer' },
+];
+
+export interface PipelineItem {
+  id: string;
+  status: ApplicationStatus;
+  matchGrade: string | null;
+}
+
+export interface PipelineEvent {
+  analysisId: string;
+  toStatus: ApplicationStatus;
+}
+
+export interface FunnelStep {
+  from: ApplicationStatus | 'all';
+  to: ApplicationStatus;
+  fromCount: number;
+  toCount: number;
+  /** toCount / fromCount, or null when fromCount is 0. */
+  rate: number | null;
+}
+
+export interface PipelineFunnel {
+  total: number;
+  counts: Record<ApplicationStatus, number>;
+  steps: FunnelStep[];
+  byGrade: { grade: string; total: number; steps: FunnelStep[] }[];
+}
+
+/**
+ * Stages an analysis has reached: its current status, every status in its history, and the
+ * stages implied by them (an interview means you applied; an offer means you interviewed).
+ * Rejected/withdrawn imply nothing, since either can happen before applying.
+ */
+export function reachedStages(
+  item: PipelineItem,
+  events: PipelineEvent[] = [],
+): Set<ApplicationStatus> {
+  const reached = new Set<ApplicationStatus>([item.status, ...events.map((e) => e.toStatus)]);
+  if (reached.has('offer')) reached.add('interviewing');
+  if (reached.has('interviewing')) reached.add('applied');
+  return reached;
+}
+
+function funnelSteps(reached: Set<ApplicationStatus>[]): FunnelStep[] {
+  const count = (s: ApplicationStatus | 'all') =>
+    s === 'all' ? reached.length : reached.filter((r) => r.has(s)).length;
+  return FUNNEL_STEPS.map(({ from, to }) => {
+    const fromCount = count(from);
+    const toCount = count(to);
+    return { from, to, fromCount, toCount, rate: fromCount > 0 ? toCount / fromCount : null };
+  });
+}
+
+/** Per-stage counts and conversion rates overall and per match grade (ungraded last). */
+export function computePipelineFunnel(
+  items: PipelineItem[],
+  events: PipelineEvent[],
+): PipelineFunnel {
+  const eventsByAnalysis = new Map<string, PipelineEvent[]>();
+  for (const e of events) {
+    const list = eventsByAnalysis.get(e.analysisId) ?? [];
+    list.push(e);
+    eventsByAnalysis.set(e.analysisId, list);
+  }
+
+  const counts = Object.fromEntries(PIPELINE_STAGES.map((s) => [s.id, 0])) as Record<
+    ApplicationStatus,
+    number
+  >;
+  const grades = new Map<string, Set<ApplicationStatus>[]>();
+  const all: Set<ApplicationStatus>[] = [];
+  for (const item of items) {
+    counts[item.status] = (counts[item.status] ?? 0) + 1;
+    const reached = reachedStages(item, eventsByAnalysis.get(item.id));
+    all.push(reached);
+    const grade = item.matchGrade?.trim() || 'Ungraded';
+    grades.set(grade, [...(grades.get(grade) ?? []), reached]);
+  }
+
+  const byGrade = [...grades.entries()]
+    .sort(([a], [b]) =>
+      a === 'Ungraded' ? 1 : b === 'Ungraded' ? -1 : a.localeCompare(b, 'en', { numeric: true }),
+    )
+    .map(([grade, reached]) => ({ grade, total: reached.length, steps: funnelSteps(reached) }));
+
+  return { total: items.length, counts, steps: funnelSteps(all), byGrade };
+}
+
+export function formatRate(rate: number | null): string {
+  return rate == null ? '—' : `${Math.round(rate * 100)}%`;
+}
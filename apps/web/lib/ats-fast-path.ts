@@ -0,0 +1,75 @@
+/**
+ * ATS fast path for the Application Assistant: turn a posting fetched from the ATS's public
+ * API into a JobDetail without the browser, HTML cleanup, RAG or LLM extraction.
+ */
+
+import type { AtsPosting } from '@careersignal/core';
+import { decodeHtmlEntities, type JobDetail } from '@careersignal/agents';
+
+/** Greenhouse returns entity-escaped HTML ("&lt;p&gt;"); unescape it before parsing tags. */
+function unescapeHtml(html: string): string {
+  return /&lt;\/?[a-z]/i.test(html) ? decodeHtmlEntities(html) : html;
+}
+
+/** Job description HTML → readable text: block tags become line breaks, list items bullets. */
+export function atsHtmlToText(html: string): string {
+  return decodeHtmlEntities(
+    unescapeHtml(html)
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|ul|ol|li|section)>/gi, '\n')
+      .replace(/<[^>]+>/g, ''),
+  )
+    .replace(/[ \t ]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const REQUIREMENT_HEADING =
+  /requirement|qualification|what you('|’)?ll (need|bring)|you (have|bring|are)|looking for|must have|skills|experience|about you/i;
+
+/**
+ * Bullet items under requirement-style headings ("Requirements", "Qualifications",
+ * "What you'll bring"...). Headings are h1–h6 or a bold/strong paragraph before the list.
+ */
+export function extractRequirementsFromHtml(html: string): string[] {
+  const source = unescapeHtml(html);
+  const requirements: string[] = [];
+  // Heading, then anything without another heading, then the list it introduces.
+  const blocks = source.matchAll(
+    /<(h[1-6]|strong|b)[^>]*>([\s\S]*?)<\/\1>(?:(?!<(?:h[1-6]|strong|b)[\s>])[\s\S])*?<(ul|ol)[^>]*>([\s\S]*?)<\/\3>/gi,
+  );
+  for (const [, , heading, , list] of blocks) {
+    if (!REQUIREMENT_HEADING.test(atsHtmlToText(heading ?? ''))) continue;
+    for (const [, item] of (list ?? '').matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gi)) {
+      const text = atsHtmlToText(item ?? '').replace(/^-\s*/, '');
+      if (text && !requirements.includes(text)) requirements.push(text);
+    }
+  }
+  return requirements;
+}
+
+/** Deterministic JobDetail from an ATS posting; description is plain text like the extractor's. */
+export function atsPostingToJobDetail(posting: AtsPosting): JobDetail {
+  const { job } = posting;
+  const html = job.descriptionHtml ?? '';
+  const description = html ? atsHtmlToText(html) : (job.descriptionText ?? '');
+  return {
+    title: job.title,
+    company: posting.companyName,
+    companyOneLiner: null,
+    location: job.location ?? null,
+    salary: posting.salary,
+    description,
+    requirements: html ? extractRequirementsFromHtml(html) : [],
+    postedDate: job.postedAt ? job.postedAt.toISOString() : null,
+    deadline: null,
+    employmentType: job.employmentType ?? null,
+    remoteType: job.remoteType && job.remoteType !== 'UNKNOWN' ? job.remoteType : null,
+    seniority: null,
+    applyUrl: job.applyUrl ?? job.jobUrl ?? null,
+    department: job.level ?? null,
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * ATS job ingestion: fingerprint a company's careers URL, pull its public job board through the
+ * matching @careersignal/core connector, and upsert every posting into job_listings
+ * (with a job_observations row linking it back to the company). Board requests run under the
+ * ats_ingest run policy.
+ */
+
+import path from 'path';
+import {
+  getDb,
+  getCompanyById,
+  normalizeJobDedupeKey,
+  refreshCompanyJobCounts,
+  updateCompanyAtsType,
+  upsertJobListingByDedupeKey,
+  upsertJobObservation,
+  type InsertJobListingInput,
+} from '@careersignal/db';
+import {
+  fingerprintFromUrl,
+  getConnector,
+  type AtsType,
+  type CanonicalJob,
+  type TestBudget,
+} from '@careersignal/core';
+import { normalizeJobForCache } from '@careersignal/agents';
+import { withRunPolicy } from '@/lib/run-policy';
+
+const EVIDENCE_ROOT = path.join(process.cwd(), '..', '..', 'data', 'evidence');
+
+export interface AtsIngestResult {
+  ok: boolean;
+  atsType: AtsType;
+  jobsFetched: number;
+  jobsCreated: number;
+  jobsUpdated: number;
+  evidencePath: string;
+  errors: string[];
+}
+
+/**
+ * Map a connector posting to a job_listings row. Title and location go through
+ * normalizeJobForCache so ATS rows are canonicalized the same way as scraped ones; the
+ * dedupe key is the normalized apply URL, matching what the analysis runner writes for the
+ * same posting.
+ */
+export function canonicalJobToListingInput(
+  job: CanonicalJob,
+  ctx: { companyId: string | null; companyName: string; evidencePath?: string | null },
+): InsertJobListingInput {
+  const url = job.applyUrl ?? job.jobUrl ?? undefined;
+  const cacheRow = normalizeJobForCache(
+    {
+      title: job.title,
+      company: ctx.companyName,
+      location: job.location ?? undefined,
+      url,
+      postedDate: job.postedAt?.toISOString(),
+      description: job.descriptionText ?? undefined,
+      extractedFrom: job.jobUrl ?? url ?? '',
+      confidence: 1,
+    },
+    ctx.companyId ?? '',
+  );
+  return {
+    companyId: ctx.companyId,
+    title: cacheRow.title,
+    location: cacheRow.location ?? null,
+    remoteType: job.remoteType ?? null,
+    employmentType: job.employmentType ?? null,
+    level: job.level ?? null,
+    jobUrl: job.jobUrl ?? null,
+    applyUrl: job.applyUrl ?? null,
+    externalId: job.externalId ?? null,
+    descriptionText: job.descriptionText ?? null,
+    descriptionHtml: job.descriptionHtml ?? null,
+    postedAt: job.postedAt ?? null,
+    status: job.status ?? 'OPEN',
+    dedupeKey: job.applyUrl ? normalizeJobDedupeKey(job.applyUrl) : job.dedupeKey,
+    rawExtract: job.rawExtract ?? null,
+    evidencePaths: ctx.evidencePath ? [ctx.evidencePath] : null,
+  };
+}
+
+/**
+ * Ingest one company's public job board. Uses `careersUrl` when given, else the company's
+ * careers page URL, else its main URL. Connector errors are collected, not thrown.
+ */
+export async function ingestCompanyAtsJobs(
+  companyId: string,
+  options?: { careersUrl?: string; budget?: TestBudget | null },
+): Promise<AtsIngestResult> {
+  const db = getDb();
+  const result: AtsIngestResult = {
+    ok: false,
+    atsType: 'UNKNOWN',
+    jobsFetched: 0,
+    jobsCreated: 0,
+    jobsUpdated: 0,
+    evidencePath: '',
+    errors: [],
+  };
+
+  const company = await getCompanyById(db, companyId);
+  if (!company) {
+    result.errors.push('Company not found');
+    return result;
+  }
+
+  const careersUrl = options?.careersUrl?.trim() || company.careersPageUrl || company.url;
+  const fingerprint = fingerprintFromUrl(careersUrl);
+  result.atsType = fingerprint.atsType;
+  const connector = getConnector(fingerprint.atsType);
+  if (!connector || !fingerprint.connectorConfig) {
+    result.errors.push(`No ATS job board detected for ${careersUrl}`);
+    return result;
+  }
+  if (company.atsType !== fingerprint.atsType) {
+    await updateCompanyAtsType(db, companyId, fingerprint.atsType);
+  }
+
+  const connectorConfig = {
+    ...fingerprint.connectorConfig,
+    evidenceDir: path.join(EVIDENCE_ROOT, fingerprint.atsType.toLowerCase()),
+  };
+  const connectorResult = await withRunPolicy('ats_ingest', () =>
+    connector.fetch(connectorConfig, options?.budget),
+  );
+  result.jobsFetched = connectorResult.jobs.length;
+  result.evidencePath = connectorResult.evidencePath;
+  result.errors.push(...connectorResult.errors);
+
+  for (const job of connectorResult.jobs) {
+    const input = canonicalJobToListingInput(job, {
+      companyId,
+      companyName: company.name,
+      evidencePath: connectorResult.evidencePath,
+    });
+    try {
+      const { id, created } = await upsertJobListingByDedupeKey(db, input);
+      if (created) result.jobsCreated += 1;
+      else result.jobsUpdated += 1;
+      await upsertJobObservation(db, {
+        jobId: id,
+        sourceId: companyId,
+        observedUrl: job.jobUrl ?? job.applyUrl ?? null,
+      });
+    } catch (e) {
+      result.errors.push(`Job ${input.dedupeKey}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  await refreshCompanyJobCounts(db, companyId);
+  result.ok = result.errors.length === 0;
+  return result;
+}
@@ -1,5 +1,5 @@
 /**
- * Captcha human-in-the-loop state.
+ * Captcha human-in-the-loop state, one wait per analysis run.
  * When scraping detects a possible captcha, we open a visible browser and wait
  * for the admin to solve it, then capture HTML and continue.
  */
@@ -11,63 +11,58 @@ type CaptchaRejector = (err: Error) => void;
 
 const CAPTCHA_TIMEOUT_MS = 120_000; // 2 minutes
 
-let waitingForSolve = false;
-let captchaPage: Page | null = null;
-let captchaResolve: CaptchaResolver | null = null;
-let captchaReject: CaptchaRejector | null = null;
-let captchaTimeout: ReturnType<typeof setTimeout> | null = null;
+interface CaptchaWait {
+  page: Page;
+  resolve: CaptchaResolver;
+  reject: CaptchaRejector;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+const waitsByAnalysisId = new Map<string, CaptchaWait>();
 
-export function isWaitingForCaptchaSolve(): boolean {
-  return waitingForSolve;
+export function isWaitingForCaptchaSolve(analysisId: string): boolean {
+  return waitsByAnalysisId.has(analysisId);
 }
 
-export function registerCaptchaSolve(page: Page): Promise<string> {
-  // Clear any existing timeout just in case
-  if (captchaTimeout) clearTimeout(captchaTimeout);
+/** Analysis ids currently waiting for a captcha solve. */
+export function getCaptchaWaitAnalysisIds(): string[] {
+  return [...waitsByAnalysisId.keys()];
+}
 
-  waitingForSolve = true;
-  captchaPage = page;
+export function registerCaptchaSolve(analysisId: string, page: Page): Promise<string> {
+  // Replace any earlier wait for this run
+  cancelCaptchaSolve(analysisId, new Error('Captcha wait superseded'));
 
   return new Promise<string>((resolve, reject) => {
-    captchaResolve = resolve;
-    captchaReject = reject;
-
-    captchaTimeout = setTimeout(() => {
-      cancelCaptchaSolve(new Error('Captcha solve timeout (120s) — browser automated fallback requested'));
+    const timeout = setTimeout(() => {
+      cancelCaptchaSolve(
+        analysisId,
+        new Error('Captcha solve timeout (120s) — browser automated fallback requested'),
+      );
     }, CAPTCHA_TIMEOUT_MS);
+    waitsByAnalysisId.set(analysisId, { page, resolve, reject, timeout });
   });
 }
 
-export async function signalCaptchaSolved(): Promise<string> {
-  if (!waitingForSolve || !captchaPage || !captchaResolve) {
+export async function signalCaptchaSolved(analysisId: string): Promise<string> {
+  const wait = waitsByAnalysisId.get(analysisId);
+  if (!wait) {
     throw new Error('No captcha solve in progress');
   }
-  if (captchaTimeout) {
-    clearTimeout(captchaTimeout);
-    captchaTimeout = null;
-  }
+  clearTimeout(wait.timeout);
   try {
-    const html = await captchaPage.content();
-    captchaResolve(html);
+    const html = await wait.page.content();
+    wait.resolve(html);
     return html;
   } finally {
-    waitingForSolve = false;
-    captchaPage = null;
-    captchaResolve = null;
-    captchaReject = null;
+    waitsByAnalysisId.delete(analysisId);
   }
 }
 
-export function cancelCaptchaSolve(err?: Error): void {
-  if (captchaTimeout) {
-    clearTimeout(captchaTimeout);
-    captchaTimeout = null;
-  }
-  if (captchaReject) {
-    captchaReject(err ?? new Error('Captcha solve cancelled'));
-  }
-  waitingForSolve = false;
-  captchaPage = null;
-  captchaResolve = null;
-  captchaReject = null;
+export function cancelCaptchaSolve(analysisId: string, err?: Error): void {
+  const wait = waitsByAnalysisId.get(analysisId);
+  if (!wait) return;
+  waitsByAnalysisId.delete(analysisId);
+  clearTimeout(wait.timeout);
+  wait.reject(err ?? new Error('Captcha solve cancelled'));
 }
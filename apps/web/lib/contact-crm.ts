@@ -0,0 +1,249 @@
+/**
+ * Contact CRM helpers: ranked outreach contacts are stored once per company (contacts table) so
+ * the user's interactions with a person add up across jobs, and drafting warns when the same
+ * person was contacted recently.
+ */
+
+import {
+  findCompanyByNameOrDomain,
+  findOrInsertContact,
+  getCompanyById,
+  getContactsByIds,
+  getRecentContactInteraction,
+  listAnalysesByUser,
+  listContactInteractions,
+  listContactsByCompanyId,
+  upsertCompanyEnrichment,
+  type AnalysisRow,
+  type ContactInteractionChannel,
+  type ContactInteractionOutcome,
+  type ContactInteractionRow,
+  type ContactRow,
+  type getDb,
+} from '@careersignal/db';
+
+type Db = ReturnType<typeof getDb>;
+
+/** Drafting to someone contacted within this many days asks for confirmation first. */
+export const RECENT_CONTACT_DAYS = 14;
+/** Follow-up date suggested when an outreach is logged without one. */
+export const DEFAULT_FOLLOW_UP_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CrmInteraction {
+  id: string;
+  channel: ContactInteractionChannel;
+  outcome: ContactInteractionOutcome;
+  /** ISO date strings. */
+  occurredAt: string;
+  followUpAt: string | null;
+  note: string | null;
+  draft: Record<string, unknown> | null;
+  analysisId: string | null;
+  jobTitle: string | null;
+}
+
+export interface CrmContact {
+  id: string;
+  name: string;
+  role: string | null;
+  email: string | null;
+  linkedinUrl: string | null;
+  /** Newest first. */
+  interactions: CrmInteraction[];
+}
+
+export interface CrmCompany {
+  companyId: string;
+  companyName: string;
+  contacts: CrmContact[];
+}
+
+/** Store (or find) a ranked outreach contact under its company. */
+export async function saveRankedContact(
+  db: Db,
+  companyId: string,
+  item: Record<string, unknown>,
+): Promise<ContactRow | null> {
+  const name = typeof item.name === 'string' ? item.name.trim() : '';
+  if (!name || name === '—') return null;
+  const str = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null);
+  return findOrInsertContact(db, {
+    companyId,
+    name,
+    role: str(item.role),
+    contactRole: str(item.contactRole),
+    email: str(item.email),
+    linkedinUrl: str(item.linkedinUrl),
+    archetype: str(item.archetype),
+    source: 'outreach_run',
+    confidence: typeof item.confidence === 'number' ? item.confidence : null,
+  });
+}
+
+/**
+ * The contacts row for the analysis's ranked contact at `contactIndex`, created (with a pending
+ * company row if the company isn't known yet) on first use. Null if there is no such contact.
+ */
+export async function resolveAnalysisContact(
+  db: Db,
+  analysis: AnalysisRow,
+  contactIndex: number,
+): Promise<ContactRow | null> {
+  const contacts = (analysis.contacts as Record<string, unknown> | null) ?? {};
+  const ranked = Array.isArray(contacts.ranked)
+    ? (contacts.ranked as Record<string, unknown>[])
+    : [];
+  const item = ranked[contactIndex];
+  const companyName = String(
+    (analysis.jobSummary as Record<string, unknown> | null)?.company ?? '',
+  );
+  if (!item || !companyName.trim()) return null;
+  const company =
+    (await findCompanyByNameOrDomain(db, { name: companyName })) ??
+    (await upsertCompanyEnrichment(db, { name: companyName, enrichmentStatus: 'PENDING' }));
+  return saveRankedContact(db, company.id, item);
+}
+
+/** The user's latest interaction with the contact within RECENT_CONTACT_DAYS, or null. */
+export function findRecentInteraction(
+  db: Db,
+  userId: string,
+  contactId: string,
+): Promise<ContactInteractionRow | null> {
+  return getRecentContactInteraction(
+    db,
+    userId,
+    contactId,
+    new Date(Date.now() - RECENT_CONTACT_DAYS * DAY_MS),
+  );
+}
+
+/** e.g. "Jane Doe was contacted 3 days ago via email (no reply yet)." */
+export function describeRecentInteraction(
+  contactName: string,
+  interaction: Pick<ContactInteractionRow, 'occurredAt' | 'channel' | 'outcome'>,
+  now = new Date(),
+): string {
+  const days = Math.floor((now.getTime() - new Date(interaction.occurredAt).getTime()) / DAY_MS);
+  const when = days <= 0 ? 'today' : days === 1 ? 'yesterday' : `${days} days ago`;
+  const outcome =
+    interaction.outcome === 'sent' ? 'no reply yet' : interaction.outcome.replace('_', ' ');
+  return `${contactName} was contacted ${when} via ${interaction.channel} (${outcome}).`;
+}
+
+/** Interaction channel for an outreach draft platform (EMAIL, LINKEDIN_CONNECTION, ...). */
+export function channelForDraftPlatform(platform: unknown): ContactInteractionChannel {
+  const value = String(platform ?? '').toUpperCase();
+  if (value.startsWith('LINKEDIN')) return 'linkedin';
+  if (value === 'EMAIL') return 'email';
+  return 'other';
+}
+
+export function defaultFollowUpAt(from = new Date()): Date {
+  return new Date(from.getTime() + DEFAULT_FOLLOW_UP_DAYS * DAY_MS);
+}
+
+/** Latest interaction is waiting on a reply and its follow-up date has passed. */
+export function isFollowUpDue(contact: CrmContact, now = new Date()): boolean {
+  const latest = contact.interactions[0];
+  return (
+    !!latest?.followUpAt &&
+    new Date(latest.followUpAt).getTime() <= now.getTime() &&
+    (latest.outcome === 'sent' || latest.outcome === 'no_reply')
+  );
+}
+
+/**
+ * Contacts the user's analyses ranked for outreach (stored per company by the runner), whether
+ * or not an interaction with them has been logged yet.
+ */
+async function listAnalysisContacts(db: Db, analyses: AnalysisRow[]): Promise<ContactRow[]> {
+  const namesByCompany = new Map<string, Set<string>>();
+  for (const analysis of analyses) {
+    const companyName = String(
+      (analysis.jobSummary as Record<string, unknown> | null)?.company ?? '',
+    ).trim();
+    const ranked = (analysis.contacts as Record<string, unknown> | null)?.ranked;
+    if (!companyName || !Array.isArray(ranked)) continue;
+    const names = namesByCompany.get(companyName) ?? new Set<string>();
+    for (const item of ranked as Record<string, unknown>[]) {
+      if (typeof item?.name === 'string' && item.name.trim()) {
+        names.add(item.name.trim().toLowerCase());
+      }
+    }
+    namesByCompany.set(companyName, names);
+  }
+  const found = await Promise.all(
+    [...namesByCompany].map(async ([companyName, names]) => {
+      if (names.size === 0) return [];
+      const company = await findCompanyByNameOrDomain(db, { name: companyName });
+      if (!company) return [];
+      const contacts = await listContactsByCompanyId(db, company.id, { limit: 200 });
+      return contacts.filter((c) => names.has(c.name.trim().toLowerCase()));
+    }),
+  );
+  return found.flat();
+}
+
+/** Whether the contact is in the user's list: logged before or ranked by one of their analyses. */
+export async function isUserContact(db: Db, userId: string, contactId: string): Promise<boolean> {
+  if ((await listContactInteractions(db, userId, [contactId])).length > 0) return true;
+  const contacts = await listAnalysisContacts(db, await listAnalysesByUser(db, userId));
+  return contacts.some((c) => c.id === contactId);
+}
+
+/**
+ * The user's contacts grouped by company (by name): people they have reached out to, each with
+ * their interaction history and the job it was for, and people their analyses ranked for
+ * outreach who have no interactions yet.
+ */
+export async function listUserContactsByCompany(db: Db, userId: string): Promise<CrmCompany[]> {
+  const [interactions, analyses] = await Promise.all([
+    listContactInteractions(db, userId),
+    listAnalysesByUser(db, userId),
+  ]);
+  const [contacted, ranked] = await Promise.all([
+    getContactsByIds(db, [...new Set(interactions.map((i) => i.contactId))]),
+    listAnalysisContacts(db, analyses),
+  ]);
+  const contacts = [...new Map([...contacted, ...ranked].map((c) => [c.id, c])).values()];
+  const companyIds = [...new Set(contacts.map((c) => c.companyId))];
+  const companyRows = await Promise.all(companyIds.map((id) => getCompanyById(db, id)));
+  const companyNames = new Map(companyRows.flatMap((c) => (c ? [[c.id, c.name]] : [])));
+  const jobTitles = new Map(
+    analyses.map((a) => [a.id, (a.jobSummary as { title?: string } | null)?.title ?? null]),
+  );
+
+  const byCompany = new Map<string, CrmCompany>();
+  for (const contact of contacts) {
+    const group = byCompany.get(contact.companyId) ?? {
+      companyId: contact.companyId,
+      companyName: companyNames.get(contact.companyId) ?? 'Unknown company',
+      contacts: [],
+    };
+    group.contacts.push({
+      id: contact.id,
+      name: contact.name,
+      role: contact.contactRole ?? contact.role,
+      email: contact.email,
+      linkedinUrl: contact.linkedinUrl,
+      interactions: interactions
+        .filter((i) => i.contactId === contact.id)
+        .map((i) => ({
+          id: i.id,
+          channel: i.channel,
+          outcome: i.outcome,
+          occurredAt: new Date(i.occurredAt).toISOString(),
+          followUpAt: i.followUpAt ? new Date(i.followUpAt).toISOString() : null,
+          note: i.note,
+          draft: i.draft,
+          analysisId: i.analysisId,
+          jobTitle: i.analysisId ? (jobTitles.get(i.analysisId) ?? null) : null,
+        })),
+    });
+    byCompany.set(contact.companyId, group);
+  }
+  return [...byCompany.values()].sort((a, b) => a.companyName.localeCompare(b.companyName));
+}
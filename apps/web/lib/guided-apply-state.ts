@@ -0,0 +1,60 @@
+/**
+ * Guided apply handoff state, one per analysis.
+ * After the form is filled in a visible browser we keep it open for the user to review and
+ * submit themselves, until they say they are done (or the handoff times out), then close it.
+ *
+ * Same pattern as login-wall-state.ts.
+ */
+
+import type { Browser } from 'playwright';
+
+const HANDOFF_TIMEOUT_MS = 30 * 60_000; // 30 minutes to review and submit
+
+interface ApplyHandoff {
+  browser: Browser;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+const handoffsByAnalysisId = new Map<string, ApplyHandoff>();
+/** Forms being opened and filled, before their handoff is registered. */
+const openingAnalysisIds = new Set<string>();
+
+/**
+ * Claim the analysis for opening its form. False when the form is already being opened or is
+ * open, so concurrent requests cannot each launch a browser. Call finishOpeningApplyForm after.
+ */
+export function beginOpeningApplyForm(analysisId: string): boolean {
+  if (openingAnalysisIds.has(analysisId) || handoffsByAnalysisId.has(analysisId)) return false;
+  openingAnalysisIds.add(analysisId);
+  return true;
+}
+
+export function finishOpeningApplyForm(analysisId: string): void {
+  openingAnalysisIds.delete(analysisId);
+}
+
+/** Keep the filled form's browser open until endApplyHandoff (or the timeout) closes it. */
+export function registerApplyHandoff(analysisId: string, browser: Browser): void {
+  // Replace any earlier handoff for this analysis
+  endApplyHandoff(analysisId);
+
+  const timeout = setTimeout(() => endApplyHandoff(analysisId), HANDOFF_TIMEOUT_MS);
+  handoffsByAnalysisId.set(analysisId, { browser, timeout });
+  // User closed the window themselves
+  browser.on('disconnected', () => {
+    if (handoffsByAnalysisId.get(analysisId)?.browser === browser) {
+      clearTimeout(timeout);
+      handoffsByAnalysisId.delete(analysisId);
+    }
+  });
+}
+
+/** Close the handoff browser. Returns false if none was open. */
+export function endApplyHandoff(analysisId: string): boolean {
+  const handoff = handoffsByAnalysisId.get(analysisId);
+  if (!handoff) return false;
+  handoffsByAnalysisId.delete(analysisId);
+  clearTimeout(handoff.timeout);
+  handoff.browser.close().catch(() => {});
+  return true;
+}
@@ -0,0 +1,132 @@
+/**
+ * Guided apply: open the analysis's application form in a visible browser, fill it from the
+ * reviewed answer sheet (uploading the analysis's resume and the generated cover letter PDF) and
+ * hand it over to the user to review and submit. Every field touched is logged to the run log.
+ */
+
+import { existsSync } from 'fs';
+import path from 'path';
+import { chromium } from 'playwright';
+import { fillApplicationForm, type AnswerSheet, type GuidedFieldLog } from '@careersignal/agents';
+import {
+  getProfileByUserId,
+  getResumeById,
+  insertAnalysisLog,
+  type AnalysisRow,
+  type getDb,
+} from '@careersignal/db';
+import { getRunFolderPath } from '@/lib/application-assistant-disk';
+import { writeCoverLetterPdfToRunFolder } from '@/lib/cover-letter-pdf';
+import { registerApplyHandoff } from '@/lib/guided-apply-state';
+import { getResumeVersionsDir } from '@/lib/resume-versions';
+import { describePolicyViolation, withRunPolicy } from '@/lib/run-policy';
+import type { StoredTailoredResume } from '@/lib/tailored-resume';
+import { writeTailoredResumePdfToRunFolder } from '@/lib/tailored-resume-pdf';
+import { getUserDataDir } from '@/lib/user-data';
+
+type Db = ReturnType<typeof getDb>;
+
+const AGENT = 'GuidedApply';
+
+function describeField(entry: GuidedFieldLog): string {
+  const value = entry.value ? `: ${entry.value.slice(0, 80)}` : '';
+  return entry.action === 'skipped'
+    ? `Skipped "${entry.label}" (${entry.reason ?? 'no answer'})`
+    : `${entry.action[0]!.toUpperCase()}${entry.action.slice(1)} "${entry.label}"${value}`;
+}
+
+/**
+ * The resume to upload: the approved tailored resume (rendered to the run folder), else the
+ * resume version the analysis ran against, else the profile resume. Null when no file exists.
+ */
+async function resolveResume(
+  db: Db,
+  analysis: AnalysisRow,
+  userEmail: string | null,
+): Promise<string | null> {
+  const tailored = analysis.tailoredResume as unknown as StoredTailoredResume | null;
+  if (tailored?.status === 'approved' && analysis.runFolderName) {
+    const file = await writeTailoredResumePdfToRunFolder(
+      tailored,
+      getRunFolderPath(analysis.runFolderName),
+    ).catch(() => null);
+    if (file) return file;
+  }
+  if (!userEmail) return null;
+  const userDir = await getUserDataDir(userEmail);
+  if (analysis.resumeId) {
+    const version = await getResumeById(db, analysis.resumeId, analysis.userId);
+    if (version?.fileRef) {
+      const file = path.join(await getResumeVersionsDir(userDir), version.fileRef);
+      if (existsSync(file)) return file;
+    }
+  }
+  const profile = await getProfileByUserId(db, analysis.userId);
+  if (!profile?.resumeFileRef) return null;
+  const file = path.join(userDir, profile.resumeFileRef);
+  return existsSync(file) ? file : null;
+}
+
+async function resolveFiles(
+  db: Db,
+  analysis: AnalysisRow,
+  userEmail: string | null,
+): Promise<{ resume: string | null; coverLetter: string | null }> {
+  const resume = await resolveResume(db, analysis, userEmail);
+  const coverLetter = analysis.runFolderName
+    ? await writeCoverLetterPdfToRunFolder(
+        analysis.coverLetters,
+        getRunFolderPath(analysis.runFolderName),
+      ).catch(() => null)
+    : null;
+  return { resume, coverLetter };
+}
+
+/**
+ * Fill the form and leave the browser open for the user (see guided-apply-state.ts). Returns
+ * the per-field log; throws if the form page could not be opened.
+ */
+export async function startGuidedApply(
+  db: Db,
+  analysis: AnalysisRow,
+  userEmail: string | null,
+): Promise<GuidedFieldLog[]> {
+  const sheet = analysis.applicationBlueprint as unknown as AnswerSheet;
+  const log = (message: string, level: 'info' | 'warn' = 'info') =>
+    insertAnalysisLog(db, {
+      analysisId: analysis.id,
+      ts: new Date(),
+      agent: AGENT,
+      level,
+      message,
+    }).catch(() => {});
+
+  const files = await resolveFiles(db, analysis, userEmail);
+  const browser = await chromium.launch({ headless: false });
+  try {
+    const page = await browser.newPage();
+    await log(`Opening ${sheet.formUrl ?? sheet.applyUrl} to fill the application form`);
+    const fields = await withRunPolicy(
+      'application_assistant',
+      () =>
+        fillApplicationForm(page, sheet, {
+          files,
+          onField: (entry) => {
+            log(describeField(entry), entry.action === 'skipped' ? 'warn' : 'info');
+          },
+        }),
+      (violation) => {
+        log(describePolicyViolation(violation), 'warn');
+      },
+    );
+    const touched = fields.filter((f) => f.action !== 'skipped').length;
+    await log(
+      `Filled ${touched} of ${fields.length} fields. Review the form in the browser and submit it yourself — nothing was submitted.`,
+    );
+    registerApplyHandoff(analysis.id, browser);
+    return fields;
+  } catch (e) {
+    await browser.close().catch(() => {});
+    throw e;
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Job listing freshness monitor: re-checks OPEN listings' posting URLs on a schedule, closes
+ * the ones that are gone and flags their analyses. Greenhouse, Lever and Ashby postings are
+ * looked up in the ATS API (their pages are script shells that always look like a posting);
+ * other URLs are fetched and classified without the LLM. Each sweep runs under the
+ * job_freshness run policy and stops early once its budget is spent.
+ *
+ * In-process like the analysis queue worker; admin starts/stops it via /api/admin/job-freshness.
+ * The schedule lives in memory only: after a restart or deploy nothing runs until an admin
+ * starts it again.
+ */
+
+import {
+  getDb,
+  listJobListingsDueForCheck,
+  recordJobListingCheck,
+  flagAnalysesForClosedJob,
+  type JobListingDueForCheck,
+} from '@careersignal/db';
+import { fetchAtsPosting, parseAtsPostingUrl } from '@careersignal/core';
+import {
+  classifyPage,
+  cleanHtml,
+  HEURISTIC_CONFIDENCE_THRESHOLD,
+  policyFetch,
+  type PageType,
+} from '@careersignal/agents';
+import { describePolicyViolation, withRunPolicy } from '@/lib/run-policy';
+
+export type FreshnessVerdict = 'open' | 'closed' | 'unknown';
+
+export interface FreshnessCheck {
+  listingId: string;
+  url: string;
+  verdict: FreshnessVerdict;
+  statusCode: number | null;
+  pageType: PageType | null;
+  error?: string;
+}
+
+export interface FreshnessSweepResult {
+  checked: number;
+  open: number;
+  closed: number;
+  unknown: number;
+  analysesFlagged: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+/** Re-check a listing at most this often (env JOB_FRESHNESS_RECHECK_HOURS). */
+const DEFAULT_RECHECK_HOURS = 24;
+/** Time between sweeps while the monitor runs (env JOB_FRESHNESS_INTERVAL_MINUTES). */
+const DEFAULT_INTERVAL_MINUTES = 60;
+const SWEEP_BATCH_SIZE = 50;
+const FETCH_TIMEOUT_MS = 20_000;
+const DELAY_BETWEEN_CHECKS_MS = 1_000;
+
+const USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36';
+
+function envNumber(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/** ATS API failures that mean the posting is gone (the connectors' error messages). */
+const ATS_NOT_FOUND = /API error: (?:404|410)\b|\bnot found on board\b/;
+
+/**
+ * Decide from HTTP status and page classification. 404/410 are closed, and so are expired/error
+ * pages classified with at least the heuristic threshold's confidence; a weaker match ("Fortune
+ * 500", a req id containing 404) is inconclusive, as are 5xx, rate limits, login walls and
+ * captchas (retried next cycle). Anything else that loaded is still open.
+ */
+export function freshnessVerdict(
+  statusCode: number | null,
+  pageType: PageType | null,
+  confidence = 0,
+): FreshnessVerdict {
+  if (statusCode === 404 || statusCode === 410) return 'closed';
+  if (statusCode == null || statusCode === 429 || statusCode >= 500) return 'unknown';
+  if (pageType === 'expired' || pageType === 'error') {
+    return confidence >= HEURISTIC_CONFIDENCE_THRESHOLD ? 'closed' : 'unknown';
+  }
+  if (pageType === 'login_wall' || pageType === 'captcha_challenge') return 'unknown';
+  if (statusCode >= 400) return 'unknown';
+  return 'open';
+}
+
+/** Look the posting up in its ATS API: found is open, "not found" is closed, errors are unknown. */
+async function checkAtsPosting(base: { listingId: string; url: string }): Promise<FreshnessCheck> {
+  try {
+    await fetchAtsPosting(base.url, { timeout_ms: FETCH_TIMEOUT_MS });
+    return { ...base, verdict: 'open', statusCode: 200, pageType: null };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    if (ATS_NOT_FOUND.test(error)) {
+      return { ...base, verdict: 'closed', statusCode: 404, pageType: null };
+    }
+    return { ...base, verdict: 'unknown', statusCode: null, pageType: null, error };
+  }
+}
+
+/**
+ * Check one listing's posting URL (apply URL first): through the ATS API when it is a
+ * Greenhouse, Lever or Ashby posting, otherwise by fetching and classifying the page.
+ */
+export async function checkJobListing(listing: JobListingDueForCheck): Promise<FreshnessCheck> {
+  const url = (listing.applyUrl ?? listing.jobUrl ?? '').trim();
+  const base = { listingId: listing.id, url };
+  if (!url) return { ...base, verdict: 'unknown', statusCode: null, pageType: null };
+  if (parseAtsPostingUrl(url)) return checkAtsPosting(base);
+
+  let res: Response;
+  try {
+    res = await policyFetch(url, {
+      redirect: 'follow',
+      headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return { ...base, verdict: 'unknown', statusCode: null, pageType: null, error };
+  }
+
+  const statusCode = res.status;
+  if (statusCode === 404 || statusCode === 410 || statusCode >= 500) {
+    return { ...base, verdict: freshnessVerdict(statusCode, null), statusCode, pageType: null };
+  }
+  const html = await res.text().catch(() => '');
+  const { type, confidence } = await classifyPage(cleanHtml(html).html, res.url || url, {
+    useLlm: false,
+    statusCode,
+  });
+  return {
+    ...base,
+    verdict: freshnessVerdict(statusCode, type, confidence),
+    statusCode,
+    pageType: type,
+  };
+}
+
+/**
+ * One pass over listings due for a re-check (oldest check first). Closed listings flag every
+ * analysis of the same posting URL so the user sees the role is gone.
+ */
+export async function runFreshnessSweep(options?: {
+  limit?: number;
+  recheckHours?: number;
+  shouldStop?: () => boolean;
+}): Promise<FreshnessSweepResult> {
+  const db = getDb();
+  const startedAt = new Date();
+  const recheckHours =
+    options?.recheckHours ?? envNumber('JOB_FRESHNESS_RECHECK_HOURS', DEFAULT_RECHECK_HOURS);
+  const due = await listJobListingsDueForCheck(db, {
+    checkedBefore: new Date(startedAt.getTime() - recheckHours * 60 * 60 * 1000),
+    limit: options?.limit ?? SWEEP_BATCH_SIZE,
+  });
+
+  const result = { checked: 0, open: 0, closed: 0, unknown: 0, analysesFlagged: 0 };
+  // A spent budget refuses every later request; stop rather than record them all as unknown.
+  let budgetSpent = false;
+  await withRunPolicy(
+    'job_freshness',
+    async () => {
+      for (const listing of due) {
+        if (options?.shouldStop?.()) break;
+        const check = await checkJobListing(listing);
+        if (budgetSpent) break;
+        const now = new Date();
+        await recordJobListingCheck(db, listing.id, check.verdict, now);
+        if (check.verdict === 'closed') {
+          const urls = [listing.applyUrl, listing.jobUrl].filter((u): u is string => !!u);
+          result.analysesFlagged += await flagAnalysesForClosedJob(db, urls, now);
+        }
+        result.checked++;
+        result[check.verdict]++;
+        await new Promise((r) => setTimeout(r, DELAY_BETWEEN_CHECKS_MS));
+      }
+    },
+    (violation) => {
+      console.warn('[JobFreshness]', describePolicyViolation(violation));
+      if (violation.kind !== 'blocked_domain') budgetSpent = true;
+    },
+  );
+
+  return { ...result, startedAt: startedAt.toISOString(), finishedAt: new Date().toISOString() };
+}
+
+let monitorTimer: ReturnType<typeof setInterval> | null = null;
+let sweepRunning = false;
+let stopRequested = false;
+let lastSweep: FreshnessSweepResult | null = null;
+let lastError: string | null = null;
+
+async function sweepOnce(): Promise<void> {
+  if (sweepRunning) return;
+  sweepRunning = true;
+  stopRequested = false;
+  try {
+    lastSweep = await runFreshnessSweep({ shouldStop: () => stopRequested });
+    lastError = null;
+  } catch (e) {
+    lastError = e instanceof Error ? e.message : String(e);
+    console.error('[JobFreshness] Sweep failed:', lastError);
+  } finally {
+    sweepRunning = false;
+  }
+}
+
+/**
+ * Start the monitor: sweep now, then every interval. No-op if already running. The schedule is
+ * not persisted, so it has to be started again after the server restarts.
+ */
+export function startFreshnessMonitor(intervalMinutes?: number): void {
+  if (monitorTimer != null) return;
+  const minutes =
+    intervalMinutes ?? envNumber('JOB_FRESHNESS_INTERVAL_MINUTES', DEFAULT_INTERVAL_MINUTES);
+  monitorTimer = setInterval(() => void sweepOnce(), minutes * 60 * 1000);
+  void sweepOnce();
+}
+
+/** Stop scheduling sweeps; a sweep in progress exits after the current listing. */
+export function stopFreshnessMonitor(): void {
+  if (monitorTimer != null) clearInterval(monitorTimer);
+  monitorTimer = null;
+  stopRequested = true;
+}
+
+/** Run a single sweep in the background (admin "check now"). */
+export function triggerFreshnessSweep(): void {
+  void sweepOnce();
+}
+
+export function getFreshnessMonitorStatus(): {
+  scheduled: boolean;
+  sweepRunning: boolean;
+  lastSweep: FreshnessSweepResult | null;
+  lastError: string | null;
+} {
+  return { scheduled: monitorTimer != null, sweepRunning, lastSweep, lastError };
+}
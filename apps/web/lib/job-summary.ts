@@ -0,0 +1,23 @@
+import type { JobDetail } from '@careersignal/agents';
+
+/** Rebuild the JobDetail stored as analysis.jobSummary. Returns null without title/company. */
+export function jobSummaryToJobDetail(summary: Record<string, unknown> | null): JobDetail | null {
+  if (!summary || typeof summary.title !== 'string' || typeof summary.company !== 'string')
+    return null;
+  return {
+    title: String(summary.title),
+    company: String(summary.company),
+    companyOneLiner: summary.companyOneLiner != null ? String(summary.companyOneLiner) : null,
+    location: summary.location != null ? String(summary.location) : null,
+    salary: summary.salary != null ? String(summary.salary) : null,
+    description: typeof summary.description === 'string' ? summary.description : '',
+    requirements: Array.isArray(summary.requirements) ? summary.requirements.map(String) : [],
+    postedDate: summary.postedDate != null ? String(summary.postedDate) : null,
+    deadline: summary.deadline != null ? String(summary.deadline) : null,
+    employmentType: summary.employmentType != null ? String(summary.employmentType) : null,
+    remoteType: summary.remoteType != null ? String(summary.remoteType) : null,
+    seniority: summary.seniority != null ? String(summary.seniority) : null,
+    applyUrl: summary.applyUrl != null ? String(summary.applyUrl) : null,
+    department: summary.department != null ? String(summary.department) : null,
+  };
+}
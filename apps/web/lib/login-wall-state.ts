@@ -1,5 +1,5 @@
 /**
- * Login wall human-in-the-loop state.
+ * Login wall human-in-the-loop state, one wait per analysis run.
  * When scraping detects a login wall, we open a visible browser and wait
  * for the admin to log in manually, then re-capture HTML and continue.
  *
@@ -13,63 +13,58 @@ type LoginRejector = (err: Error) => void;
 
 const LOGIN_TIMEOUT_MS = 120_000; // 2 minutes
 
-let waitingForLogin = false;
-let loginPage: Page | null = null;
-let loginResolve: LoginResolver | null = null;
-let loginReject: LoginRejector | null = null;
-let loginTimeout: ReturnType<typeof setTimeout> | null = null;
+interface LoginWait {
+  page: Page;
+  resolve: LoginResolver;
+  reject: LoginRejector;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+const waitsByAnalysisId = new Map<string, LoginWait>();
+
+export function isWaitingForLoginSolve(analysisId: string): boolean {
+  return waitsByAnalysisId.has(analysisId);
+}
 
-export function isWaitingForLoginSolve(): boolean {
-  return waitingForLogin;
+/** Analysis ids currently waiting for a manual login. */
+export function getLoginWaitAnalysisIds(): string[] {
+  return [...waitsByAnalysisId.keys()];
 }
 
-export function registerLoginWait(page: Page): Promise<string> {
-  // Clear any existing timeout just in case
-  if (loginTimeout) clearTimeout(loginTimeout);
-  
-  waitingForLogin = true;
-  loginPage = page;
-  
+export function registerLoginWait(analysisId: string, page: Page): Promise<string> {
+  // Replace any earlier wait for this run
+  cancelLoginWait(analysisId, new Error('Login wait superseded'));
+
   return new Promise<string>((resolve, reject) => {
-    loginResolve = resolve;
-    loginReject = reject;
-    
-    loginTimeout = setTimeout(() => {
-      cancelLoginWait(new Error('Login wall timeout (120s) — browser automated fallback requested'));
+    const timeout = setTimeout(() => {
+      cancelLoginWait(
+        analysisId,
+        new Error('Login wall timeout (120s) — browser automated fallback requested'),
+      );
     }, LOGIN_TIMEOUT_MS);
+    waitsByAnalysisId.set(analysisId, { page, resolve, reject, timeout });
   });
 }
 
-export async function signalLoggedIn(): Promise<string> {
-  if (!waitingForLogin || !loginPage || !loginResolve) {
+export async function signalLoggedIn(analysisId: string): Promise<string> {
+  const wait = waitsByAnalysisId.get(analysisId);
+  if (!wait) {
     throw new Error('No login solve in progress');
   }
-  if (loginTimeout) {
-    clearTimeout(loginTimeout);
-    loginTimeout = null;
-  }
+  clearTimeout(wait.timeout);
   try {
-    const html = await loginPage.content();
-    loginResolve(html);
+    const html = await wait.page.content();
+    wait.resolve(html);
     return html;
   } finally {
-    waitingForLogin = false;
-    loginPage = null;
-    loginResolve = null;
-    loginReject = null;
+    waitsByAnalysisId.delete(analysisId);
   }
 }
 
-export function cancelLoginWait(err?: Error): void {
-  if (loginTimeout) {
-    clearTimeout(loginTimeout);
-    loginTimeout = null;
-  }
-  if (loginReject) {
-    loginReject(err ?? new Error('Login wait cancelled'));
-  }
-  waitingForLogin = false;
-  loginPage = null;
-  loginResolve = null;
-  loginReject = null;
+export function cancelLoginWait(analysisId: string, err?: Error): void {
+  const wait = waitsByAnalysisId.get(analysisId);
+  if (!wait) return;
+  waitsByAnalysisId.delete(analysisId);
+  clearTimeout(wait.timeout);
+  wait.reject(err ?? new Error('Login wait cancelled'));
 }
@@ -3,6 +3,7 @@
  * Each executor receives step inputs and run context, returns updates to merge into context.
  */
 import {
+  findCompanyByNameOrDomain,
   getProfileByUserId,
   getPreferencesByUserId,
   getSourceById,
@@ -14,12 +15,15 @@ import {
   normalizeJob,
   deduplicateJobs,
   scoreJobWithRules,
+  passesHardFilters,
   batchScoreJobs,
   combineScores,
   selectTopK,
   buildPreferencesFromProfile,
+  ScoringWeightsSchema,
 } from '@careersignal/agents';
 import type { RunContext, StepExecutor } from './types';
+import { loadSkillTaxonomy } from '@/lib/skill-taxonomy';
 import type { NormalizedJob } from '@careersignal/agents';
 import type { UserPreferences, ScoredJob } from '@careersignal/agents';
 
@@ -72,6 +76,10 @@ async function profileLoader(
         (prefsRow.strictFilterLevel as UserPreferences['strictFilterLevel']) ?? 'STRICT',
       maxContactsPerJob: prefsRow.maxContactsPerJob as UserPreferences['maxContactsPerJob'],
       outreachTone: prefsRow.outreachTone ?? undefined,
+      // Older weight sets come back with new dimensions at 0; anything still invalid uses defaults.
+      scoringWeights: ScoringWeightsSchema.safeParse(prefsRow.scoringWeights).data,
+      hardFilterDimensions:
+        (prefsRow.hardFilterDimensions as UserPreferences['hardFilterDimensions']) ?? undefined,
     };
   } else {
     const prefsResult = await buildPreferencesFromProfile({
@@ -215,9 +223,22 @@ async function rankRuleScorer(
   if (!preferences) {
     return { scoredJobs: [] };
   }
+  const profile = ctx.profile as { experience?: unknown[] } | null | undefined;
+  const skillTaxonomy = await loadSkillTaxonomy(ctx.db);
+  // Company rows (description) feed the industry match; looked up once per company name.
+  const companies = new Map<string, { description: string | null } | undefined>();
   const scored: ScoredJob[] = [];
   for (const job of jobs) {
-    const result = scoreJobWithRules(job, preferences);
+    const name = job.companyName.trim();
+    if (name && !companies.has(name)) {
+      const row = await findCompanyByNameOrDomain(ctx.db, { name }).catch(() => null);
+      companies.set(name, row ? { description: row.descriptionText } : undefined);
+    }
+    const result = scoreJobWithRules(job, preferences, {
+      experience: profile?.experience ?? [],
+      skillTaxonomy,
+      company: companies.get(name),
+    });
     scored.push({
       jobId: job.id,
       matchScore: result.score,
@@ -258,7 +279,11 @@ function rankStrictFilter(
   ctx: RunContext,
 ): Promise<Record<string, unknown>> {
   const scored = (ctx.scoredJobs ?? []) as ScoredJob[];
-  const filtered = scored.filter((s) => s.strictFilterPass);
+  const preferences = ctx.preferences as UserPreferences | undefined;
+  // Re-check against the user's hard-filter settings so edits apply without re-scoring.
+  const filtered = scored.filter((s) =>
+    preferences ? passesHardFilters(s.scoreBreakdown.dimensions, preferences) : s.strictFilterPass,
+  );
   return Promise.resolve({ scoredJobs: filtered });
 }
 
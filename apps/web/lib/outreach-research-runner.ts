@@ -29,6 +29,7 @@ import {
   type Contact,
   type ContactSearchResult,
   inferEmailPattern,
+  policyGoto,
 } from '@careersignal/agents';
 import {
   extractFromTeamPage,
@@ -37,6 +38,7 @@ import {
   type ContactStrategy,
 } from '@careersignal/agents';
 // import type { NormalizedJob } from '@careersignal/agents'; // This was moved into the combined import
+import { describePolicyViolation, withRunPolicy } from './run-policy';
 
 /**
  * Timeout for the full outreach pipeline (admin or assistant).
@@ -258,8 +260,19 @@ function rankSearchResultsForContacts(
 /**
  * Run the Deep Outreach Research pipeline.
  * Phase 3: parse job, strategy, DDG people search, persist candidates and visitedUrls.
+ * Runs under the caller's run policy (Application Assistant) or its own outreach_research one.
  */
-export async function runOutreachResearch(
+export function runOutreachResearch(
+  options: RunOutreachResearchOptions,
+): Promise<RunOutreachResearchResult> {
+  return withRunPolicy(
+    'outreach_research',
+    () => runOutreachResearchSteps(options),
+    (violation) => options.log({ level: 'warn', message: describePolicyViolation(violation) }),
+  );
+}
+
+async function runOutreachResearchSteps(
   options: RunOutreachResearchOptions,
 ): Promise<RunOutreachResearchResult> {
   const { job, company, profile, runFolderName, log, browserPage, hardTimeoutMs, abortSignal } =
@@ -372,7 +385,7 @@ export async function runOutreachResearch(
       log({ level: 'info', message: `Visiting job posting URL to find contacts and team links: ${job.sourceUrl.slice(0, 50)}...` });
       const key = normalizeUrlForDedupe(job.sourceUrl);
       if (!visitedUrls.has(key)) {
-        await browserPage.goto(job.sourceUrl, { waitUntil: 'domcontentloaded', timeout: 15_000 });
+        await policyGoto(browserPage, job.sourceUrl, { waitUntil: 'domcontentloaded', timeout: 15_000 });
         const rawHtml = await browserPage.content();
         visitedUrls.add(key);
         if (!discoveredUrlsList.includes(job.sourceUrl)) discoveredUrlsList.push(job.sourceUrl);
@@ -420,7 +433,7 @@ export async function runOutreachResearch(
       const key = normalizeUrlForDedupe(link);
       if (visitedUrls.has(key)) continue;
       try {
-        await browserPage.goto(link, { waitUntil: 'domcontentloaded', timeout: 15_000 });
+        await policyGoto(browserPage, link, { waitUntil: 'domcontentloaded', timeout: 15_000 });
         const rawHtml = await browserPage.content();
         visitedUrls.add(key);
         if (!discoveredUrlsList.includes(link)) discoveredUrlsList.push(link);
@@ -540,7 +553,7 @@ export async function runOutreachResearch(
           try {
              const key = normalizeUrlForDedupe(cand.linkedinUrl!);
              // Profile was already counted as "discovered", now we visit to "extract"
-             await browserPage.goto(cand.linkedinUrl!, { waitUntil: 'domcontentloaded', timeout: 15_000 });
+             await policyGoto(browserPage, cand.linkedinUrl!, { waitUntil: 'domcontentloaded', timeout: 15_000 });
              const rawHtml = await browserPage.content();
              const refined = await extractFromLinkedInProfile(rawHtml, cand.linkedinUrl!, job.companyName);
              if (refined) {
@@ -0,0 +1,122 @@
+/**
+ * Resume versions: file storage, section parsing, and mapping DB rows (plus the profile resume)
+ * to the candidates the resume version selector scores.
+ */
+
+import { mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import {
+  extractSections,
+  normalizeSkills,
+  PROFILE_RESUME_ID,
+  type ResumeVersion,
+} from '@careersignal/agents';
+import type { ResumeRow, getProfileByUserId } from '@careersignal/db';
+
+type ProfileRow = NonNullable<Awaited<ReturnType<typeof getProfileByUserId>>>;
+
+export const RESUME_VERSION_EXTENSIONS = ['.pdf', '.docx', '.doc', '.txt'];
+
+/** data_user/<email>/resumes — one file per version, named <resumeId><ext>. Created if missing. */
+export async function getResumeVersionsDir(userDir: string): Promise<string> {
+  const dir = path.join(userDir, 'resumes');
+  if (!existsSync(dir)) {
+    await mkdir(dir, { recursive: true });
+  }
+  return dir;
+}
+
+/** Parsed sections in the same shape the profile stores (snake_case dates). */
+export interface ParsedResumeSections {
+  skills: string[];
+  experience: Record<string, unknown>[];
+  education: Record<string, unknown>[];
+  projects: Record<string, unknown>[];
+  certifications: string[];
+}
+
+/** Run the LLM section extraction on resume text. Returns null when everything came back empty. */
+export async function parseResumeSections(text: string): Promise<ParsedResumeSections | null> {
+  const sections = await extractSections(text);
+  const skills = normalizeSkills(sections.skills).all;
+  if (
+    !sections.education.length &&
+    !sections.experience.length &&
+    !sections.projects.length &&
+    !skills.length
+  ) {
+    return null;
+  }
+  return {
+    skills,
+    experience: sections.experience.map((exp) => ({
+      company: exp.company,
+      title: exp.title,
+      location: exp.location,
+      start_date: exp.startDate,
+      end_date: exp.endDate,
+      description: exp.description,
+      bullets: exp.bullets,
+      projects: exp.projects,
+    })),
+    education: sections.education.map((edu) => ({
+      institution: edu.institution,
+      degree: edu.degree,
+      field: edu.field,
+      gpa: edu.gpa,
+      start_date: edu.startDate,
+      end_date: edu.endDate,
+      coursework: edu.coursework,
+      awards: edu.awards,
+      leadership: edu.leadership,
+    })),
+    projects: sections.projects.map((proj) => ({
+      name: proj.name,
+      context: proj.context,
+      dates: proj.dates,
+      description: proj.description,
+      technologies: proj.technologies,
+      bullets: proj.bullets,
+      achievements: proj.achievements,
+    })),
+    certifications: sections.certifications,
+  };
+}
+
+export function toResumeVersion(row: ResumeRow): ResumeVersion {
+  return {
+    id: row.id,
+    name: row.name,
+    isDefault: row.isDefault,
+    rawText: row.rawText,
+    skills: row.skills ?? [],
+    experience: (row.experience as ResumeVersion['experience']) ?? [],
+    education: (row.education as ResumeVersion['education']) ?? [],
+  };
+}
+
+/**
+ * Candidates for selection: stored versions plus the profile resume (when it has text), so users
+ * with versions can still land on the resume they parsed into their profile. No stored versions →
+ * no candidates, and the analysis uses the profile as before.
+ */
+export function buildResumeCandidates(
+  rows: ResumeRow[],
+  profile: ProfileRow | null,
+): ResumeVersion[] {
+  if (rows.length === 0) return [];
+  const candidates = rows.map(toResumeVersion);
+  if (profile?.resumeRawText) {
+    candidates.push({
+      id: PROFILE_RESUME_ID,
+      name: 'Profile resume',
+      isDefault: !rows.some((r) => r.isDefault),
+      rawText: profile.resumeRawText,
+      skills: (profile.skills as string[]) ?? [],
+      experience: (profile.experience as ResumeVersion['experience']) ?? [],
+      education: (profile.education as ResumeVersion['education']) ?? [],
+    });
+  }
+  return candidates;
+}
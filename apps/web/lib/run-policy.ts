@@ -0,0 +1,117 @@
+/**
+ * Browsing and LLM policy per run type. Each run gets one PolicyConstraintAgent (time, token and
+ * page budgets, a per-domain rate limit, blocked domains) and runs inside runWithPolicy, so every
+ * fetch, Playwright navigation and LLM call in it — including nested deep research and outreach
+ * research — is checked against the same budgets.
+ *
+ * ATS connector requests (@careersignal/core) are checked through a request guard installed
+ * with the first policy, since core can't see the run's policy itself.
+ *
+ * Blocked domains for all run types: env POLICY_BLOCKED_DOMAINS (comma separated).
+ */
+
+import { setConnectorRequestGuard } from '@careersignal/core';
+import {
+  PolicyConstraintAgent,
+  enforcePolicyForUrl,
+  getActivePolicy,
+  runWithPolicy,
+  type PolicyConstraints,
+  type PolicyViolation,
+} from '@careersignal/agents';
+
+export type RunPolicyType =
+  | 'application_assistant'
+  | 'deep_company_research'
+  | 'outreach_research'
+  | 'ats_ingest'
+  | 'job_freshness';
+
+export const RUN_POLICY_CONSTRAINTS: Record<RunPolicyType, Partial<PolicyConstraints>> = {
+  // Covers the assistant's own max deadline (base + dossier + outreach extensions).
+  application_assistant: {
+    maxTimePerRunMs: 45 * 60 * 1000,
+    maxTokensPerRun: 1_500_000,
+    maxPagesPerRun: 250,
+    rateLimitPerDomain: 2,
+  },
+  deep_company_research: {
+    maxTimePerRunMs: 20 * 60 * 1000,
+    maxTokensPerRun: 600_000,
+    maxPagesPerRun: 80,
+    rateLimitPerDomain: 2,
+  },
+  // LinkedIn and search engines are the bulk of outreach traffic; stay gentle.
+  outreach_research: {
+    maxTimePerRunMs: 15 * 60 * 1000,
+    maxTokensPerRun: 400_000,
+    maxPagesPerRun: 80,
+    rateLimitPerDomain: 1,
+  },
+  // Admin ATS ingest: board API requests only (Workday pages through its board).
+  ats_ingest: {
+    maxTimePerRunMs: 10 * 60 * 1000,
+    maxPagesPerRun: 200,
+    rateLimitPerDomain: 2,
+  },
+  // One freshness sweep: a request per listing, mostly to the same few ATS hosts.
+  job_freshness: {
+    maxTimePerRunMs: 30 * 60 * 1000,
+    maxPagesPerRun: 100,
+    rateLimitPerDomain: 1,
+  },
+};
+
+function blockedDomainsFromEnv(): string[] {
+  return (process.env.POLICY_BLOCKED_DOMAINS ?? '')
+    .split(',')
+    .map((d) => d.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+let connectorGuardInstalled = false;
+
+function installConnectorGuard(): void {
+  if (connectorGuardInstalled) return;
+  connectorGuardInstalled = true;
+  setConnectorRequestGuard(enforcePolicyForUrl);
+}
+
+/** A fresh policy for one run; `onViolation` fires once per violation kind (for run logs). */
+export function createRunPolicy(
+  type: RunPolicyType,
+  onViolation?: (violation: PolicyViolation) => void,
+): PolicyConstraintAgent {
+  installConnectorGuard();
+  const policy = new PolicyConstraintAgent({
+    ...RUN_POLICY_CONSTRAINTS[type],
+    blockedDomains: blockedDomainsFromEnv(),
+  });
+  if (onViolation) policy.onViolation(onViolation);
+  return policy;
+}
+
+/** Log line for a refusal; budget exhaustion also says what happens next. */
+export function describePolicyViolation(violation: PolicyViolation): string {
+  if (violation.kind === 'blocked_domain') return `Blocked by run policy: ${violation.message}`;
+  return `Run budget exhausted — ${violation.message}. Remaining page fetches${
+    violation.kind === 'page_budget' ? '' : ' and LLM calls'
+  } in this run will be skipped.`;
+}
+
+/**
+ * Run `fn` under the caller's policy when there is one (e.g. outreach research inside an
+ * Application Assistant run), else under a fresh policy of `type`. Nested, `onViolation` also
+ * hears the caller's policy refusals while `fn` runs.
+ */
+export function withRunPolicy<T>(
+  type: RunPolicyType,
+  fn: () => Promise<T>,
+  onViolation?: (violation: PolicyViolation) => void,
+): Promise<T> {
+  const active = getActivePolicy();
+  if (!active) return runWithPolicy(createRunPolicy(type, onViolation), fn);
+  if (!onViolation) return fn();
+  const unsubscribe = active.onViolation(onViolation);
+  return fn().finally(unsubscribe);
+}
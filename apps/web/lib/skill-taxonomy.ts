@@ -0,0 +1,21 @@
+/**
+ * Skill taxonomy for the web app: the bundled taxonomy from agents with the admin overrides
+ * from skill_taxonomy_overrides merged over it. Falls back to the bundled one if the DB read fails.
+ */
+
+import {
+  buildSkillTaxonomy,
+  DEFAULT_SKILL_TAXONOMY,
+  type SkillTaxonomy,
+} from '@careersignal/agents';
+import { listSkillTaxonomyOverrides, type getDb } from '@careersignal/db';
+
+export async function loadSkillTaxonomy(db: ReturnType<typeof getDb>): Promise<SkillTaxonomy> {
+  try {
+    const overrides = await listSkillTaxonomyOverrides(db);
+    return overrides.length > 0 ? buildSkillTaxonomy(overrides) : DEFAULT_SKILL_TAXONOMY;
+  } catch (err) {
+    console.error('[skill-taxonomy] Failed to load overrides:', err);
+    return DEFAULT_SKILL_TAXONOMY;
+  }
+}
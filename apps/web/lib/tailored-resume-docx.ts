@@ -0,0 +1,91 @@
+import { writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  TextRun,
+} from 'docx';
+import type { TailoredResume } from '@careersignal/agents';
+import { tailoredResumeSections } from './tailored-resume-pdf';
+
+const TAILORED_RESUME_DOCX_FILENAME = 'tailored-resume.docx';
+
+/**
+ * Build Word document (DOCX) buffer for an approved tailored resume, with the same sections
+ * as the PDF. Bullets use real Word bullets so the document stays editable.
+ */
+export async function generateTailoredResumeDocxBuffer(resume: TailoredResume): Promise<Buffer> {
+  const children: Paragraph[] = [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: resume.name, bold: true, size: 32 })],
+    }),
+  ];
+  if (resume.contact.length) {
+    children.push(
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: resume.contact.join('  |  '), size: 18 })],
+      }),
+    );
+  }
+
+  for (const section of tailoredResumeSections(resume)) {
+    children.push(
+      new Paragraph({
+        heading: HeadingLevel.HEADING_2,
+        spacing: { before: 240, after: 80 },
+        border: { bottom: { style: BorderStyle.SINGLE, size: 4, color: '666666', space: 1 } },
+        children: [new TextRun({ text: section.title.toUpperCase(), bold: true, size: 22 })],
+      }),
+    );
+    for (const entry of section.entries) {
+      children.push(
+        new Paragraph({
+          spacing: { before: 80 },
+          children: [
+            new TextRun({ text: entry.heading, bold: section.title !== 'Skills', size: 20 }),
+          ],
+        }),
+      );
+      if (entry.meta) {
+        children.push(
+          new Paragraph({ children: [new TextRun({ text: entry.meta, italics: true, size: 18 })] }),
+        );
+      }
+      for (const bullet of entry.bullets) {
+        children.push(
+          new Paragraph({
+            bullet: { level: 0 },
+            children: [new TextRun({ text: bullet, size: 20 })],
+          }),
+        );
+      }
+    }
+  }
+
+  const doc = new Document({ sections: [{ properties: {}, children }] });
+  const buf = await Packer.toBuffer(doc);
+  return Buffer.from(buf);
+}
+
+/**
+ * Write the tailored resume DOCX to the application assistant run folder and return the path.
+ */
+export async function writeTailoredResumeDocxToRunFolder(
+  resume: TailoredResume,
+  runFolderPath: string,
+): Promise<string> {
+  const buffer = await generateTailoredResumeDocxBuffer(resume);
+  if (!existsSync(runFolderPath)) {
+    await mkdir(runFolderPath, { recursive: true });
+  }
+  const filePath = path.join(runFolderPath, TAILORED_RESUME_DOCX_FILENAME);
+  await writeFile(filePath, buffer);
+  return filePath;
+}
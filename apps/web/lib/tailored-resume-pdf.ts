@@ -0,0 +1,154 @@
+/**
+ * Tailored resume PDF generation for the download API, mirroring cover-letter-pdf.ts.
+ * Can produce a buffer (for HTTP response) or write to a run folder next to the cover letter.
+ */
+
+import { writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import type { TailoredResume } from '@careersignal/agents';
+
+const TAILORED_RESUME_FILENAME = 'tailored-resume.pdf';
+
+/** Standard PDF fonts only encode WinAnsi; swap anything else so drawText cannot throw. */
+export function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‐-‒]/g, '-')
+    .replace(/[•●▪‣]/g, '•')
+    .replace(/[^\x20-\x7E\xA0-\xFF€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ\n\t]/g, '?');
+}
+
+export function getDynamicResumeName(
+  userName: string | null | undefined,
+  company: string | null | undefined,
+  extension: 'pdf' | 'docx',
+): string {
+  const firstName = userName?.split(' ')[0]?.replace(/[^a-zA-Z0-9]/g, '') || 'Applicant';
+  const companyWords = (company?.replace(/[^a-zA-Z0-9\s]/g, '') || 'Company')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase());
+  return `${firstName}_Resume_${companyWords.join('_')}.${extension}`;
+}
+
+/** Flatten a tailored resume into the lines both renderers lay out. */
+export function tailoredResumeSections(
+  resume: TailoredResume,
+): { title: string; entries: { heading: string; meta: string | null; bullets: string[] }[] }[] {
+  const entry = (it: TailoredResume['items'][number]) => ({
+    heading: it.subheading ? `${it.heading} — ${it.subheading}` : it.heading,
+    meta: it.dates,
+    bullets: it.bullets.map((b) => b.text),
+  });
+  const sections = [
+    {
+      title: 'Experience',
+      entries: resume.items.filter((it) => it.kind === 'experience').map(entry),
+    },
+    { title: 'Projects', entries: resume.items.filter((it) => it.kind === 'project').map(entry) },
+    {
+      title: 'Education',
+      entries: resume.education.map((e) => ({
+        heading: [e.degree, e.field].filter(Boolean).join(', ') || e.institution,
+        meta:
+          [e.degree || e.field ? e.institution : null, e.dates].filter(Boolean).join(' · ') || null,
+        bullets: [],
+      })),
+    },
+    {
+      title: 'Skills',
+      entries: resume.skills.length
+        ? [{ heading: resume.skills.join(', '), meta: null, bullets: [] }]
+        : [],
+    },
+  ];
+  return sections.filter((s) => s.entries.length > 0);
+}
+
+function wrap(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+  for (const w of words) {
+    const candidate = current ? `${current} ${w}` : w;
+    if (!current || font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = w;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Build PDF bytes for an approved tailored resume: name, contact line, then Experience,
+ * Projects, Education and Skills sections.
+ */
+export async function generateTailoredResumePdfBuffer(resume: TailoredResume): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const margin = 50;
+
+  let page: PDFPage = pdfDoc.addPage();
+  const { width, height } = page.getSize();
+  const maxWidth = width - margin * 2;
+  let y = height - margin;
+
+  const draw = (text: string, opts: { font: PDFFont; size: number; x?: number; gap?: number }) => {
+    const lineHeight = opts.size + (opts.gap ?? 3);
+    const x = opts.x ?? margin;
+    for (const line of wrap(toWinAnsi(text), opts.font, opts.size, maxWidth - (x - margin))) {
+      if (y < margin + lineHeight) {
+        page = pdfDoc.addPage();
+        y = page.getSize().height - margin;
+      }
+      page.drawText(line, { x, y, size: opts.size, font: opts.font, color: rgb(0, 0, 0) });
+      y -= lineHeight;
+    }
+  };
+
+  draw(resume.name, { font: bold, size: 16, gap: 4 });
+  if (resume.contact.length) draw(resume.contact.join('  |  '), { font, size: 9 });
+
+  for (const section of tailoredResumeSections(resume)) {
+    y -= 8;
+    draw(section.title.toUpperCase(), { font: bold, size: 11 });
+    page.drawLine({
+      start: { x: margin, y: y + 10 },
+      end: { x: width - margin, y: y + 10 },
+      thickness: 0.5,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+    y -= 2;
+    for (const entry of section.entries) {
+      draw(entry.heading, { font: section.title === 'Skills' ? font : bold, size: 10 });
+      if (entry.meta) draw(entry.meta, { font, size: 9 });
+      for (const bullet of entry.bullets) {
+        draw(`• ${bullet}`, { font, size: 10, x: margin + 10 });
+      }
+      y -= 4;
+    }
+  }
+
+  return Buffer.from(await pdfDoc.save());
+}
+
+/**
+ * Write the tailored resume PDF to the application assistant run folder and return the path.
+ */
+export async function writeTailoredResumePdfToRunFolder(
+  resume: TailoredResume,
+  runFolderPath: string,
+): Promise<string> {
+  const buffer = await generateTailoredResumePdfBuffer(resume);
+  if (!existsSync(runFolderPath)) {
+    await mkdir(runFolderPath, { recursive: true });
+  }
+  const filePath = path.join(runFolderPath, TAILORED_RESUME_FILENAME);
+  await writeFile(filePath, buffer);
+  return filePath;
+}
@@ -0,0 +1,113 @@
+/**
+ * Tailored resume for an analysis: builds the tailor agent's input from the profile (or the
+ * resume version the analysis ran against) and manages the stored draft → approved lifecycle.
+ */
+
+import type { TailoredResume, TailorSource, TailorSourceItem } from '@careersignal/agents';
+import type { ResumeRow, getProfileByUserId } from '@careersignal/db';
+
+type ProfileRow = NonNullable<Awaited<ReturnType<typeof getProfileByUserId>>>;
+
+/** Stored on analysis.tailoredResume. */
+export interface StoredTailoredResume extends TailoredResume {
+  status: 'draft' | 'approved';
+  /** Resume version the draft was built from (null = profile resume). */
+  resumeId: string | null;
+  generatedAt: string;
+  approvedAt?: string;
+}
+
+function str(v: unknown): string | null {
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+function strList(v: unknown): string[] {
+  return Array.isArray(v) ? v.map(str).filter((s): s is string => !!s) : [];
+}
+
+function dateRange(start: unknown, end: unknown): string | null {
+  const s = str(start);
+  const e = str(end);
+  if (s && e) return `${s} – ${e}`;
+  return s ?? e;
+}
+
+/**
+ * Tailor input from stored sections (snake_case, as the profile and resume versions store them).
+ * A resume version's sections win over the profile's when present; contact details always come
+ * from the profile.
+ */
+export function buildTailorSource(profile: ProfileRow, resume: ResumeRow | null): TailorSource {
+  const pick = <T>(fromResume: T[] | null | undefined, fromProfile: unknown): unknown[] =>
+    fromResume && fromResume.length ? fromResume : Array.isArray(fromProfile) ? fromProfile : [];
+
+  const experience = pick(resume?.experience, profile.experience) as Record<string, unknown>[];
+  const projects = pick(resume?.projects, profile.projects) as Record<string, unknown>[];
+  const education = pick(resume?.education, profile.education) as Record<string, unknown>[];
+  const skills = pick(resume?.skills, profile.skills) as string[];
+
+  const items: TailorSourceItem[] = [
+    ...experience.map((e) => ({
+      kind: 'experience' as const,
+      heading: str(e.title) ?? 'Role',
+      subheading: [str(e.company), str(e.location)].filter(Boolean).join(', ') || null,
+      dates: dateRange(e.start_date ?? e.startDate, e.end_date ?? e.endDate),
+      bullets: strList(e.bullets),
+    })),
+    ...projects.map((p) => ({
+      kind: 'project' as const,
+      heading: str(p.name) ?? 'Project',
+      subheading: strList(p.technologies).join(', ') || str(p.context),
+      dates: str(p.dates),
+      bullets: [...strList(p.bullets), ...strList(p.achievements)],
+    })),
+  ];
+
+  return {
+    name: profile.name,
+    contact: [
+      profile.email,
+      profile.phone,
+      profile.location,
+      profile.linkedinUrl,
+      profile.githubUrl,
+      profile.portfolioUrl,
+    ]
+      .map(str)
+      .filter((s): s is string => !!s),
+    skills: strList(skills),
+    items,
+    education: education.map((e) => ({
+      institution: str(e.institution) ?? '',
+      degree: str(e.degree),
+      field: str(e.field),
+      dates: dateRange(e.start_date ?? e.startDate, e.end_date ?? e.endDate),
+    })),
+  };
+}
+
+/** Bullet key used by the approve request: "<itemIndex>.<bulletIndex>" in the tailored order. */
+export function bulletKey(itemIndex: number, bulletIndex: number): string {
+  return `${itemIndex}.${bulletIndex}`;
+}
+
+/** Approve a draft, restoring the original wording for the bullets listed in `keepOriginal`. */
+export function approveTailoredResume(
+  draft: StoredTailoredResume,
+  keepOriginal: string[] = [],
+): StoredTailoredResume {
+  const revert = new Set(keepOriginal);
+  return {
+    ...draft,
+    items: draft.items.map((item, i) => ({
+      ...item,
+      bullets: item.bullets.map((b, j) =>
+        revert.has(bulletKey(i, j)) && b.changed
+          ? { text: b.original, original: b.original, changed: false }
+          : b,
+      ),
+    })),
+    status: 'approved',
+    approvedAt: new Date().toISOString(),
+  };
+}
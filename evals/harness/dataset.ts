@@ -0,0 +1,40 @@
+/**
+ * Dataset loading for the eval harness.
+ * A dataset is a directory with cases.json ({ name, cases: EvalCase[] }) and the saved HTML
+ * files it references.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import type { EvalCase, EvalDataset } from './types.js';
+
+export function loadDataset(dir: string): EvalDataset {
+  const absDir = path.resolve(process.cwd(), dir);
+  const manifestPath = path.join(absDir, 'cases.json');
+  if (!existsSync(manifestPath)) {
+    throw new Error(`Eval dataset manifest not found: ${manifestPath}`);
+  }
+
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as {
+    name?: string;
+    cases?: EvalCase[];
+  };
+  const cases = manifest.cases ?? [];
+  const seen = new Set<string>();
+  for (const c of cases) {
+    if (!c.id || !c.url || !c.html || !c.expectedPageType) {
+      throw new Error(`Eval case is missing id/url/html/expectedPageType: ${JSON.stringify(c)}`);
+    }
+    if (seen.has(c.id)) throw new Error(`Duplicate eval case id: ${c.id}`);
+    seen.add(c.id);
+    if (!existsSync(path.join(absDir, c.html))) {
+      throw new Error(`HTML for eval case ${c.id} not found: ${c.html}`);
+    }
+  }
+
+  return { name: manifest.name ?? path.basename(absDir), dir: absDir, cases };
+}
+
+export function readCaseHtml(dataset: EvalDataset, evalCase: EvalCase): string {
+  return readFileSync(path.join(dataset.dir, evalCase.html), 'utf-8');
+}
@@ -0,0 +1,226 @@
+/**
+ * Runs the page classifier, job-detail extractor and rule scorer over an eval dataset and
+ * aggregates per-field precision/recall, page-type accuracy and match-grade accuracy.
+ */
+
+import {
+  classifyPage,
+  extractJobDetail,
+  scoreJobWithRules,
+  scoreToGrade,
+  UserPreferencesSchema,
+  type JobDetail,
+  type NormalizedJob,
+} from '@careersignal/agents';
+import {
+  OllamaModels,
+  getModelForRole,
+  getProviderNameForRole,
+  type OllamaModelType,
+} from '@careersignal/llm';
+import { readCaseHtml } from './dataset.js';
+import { accuracy, addCounts, scoreField, toMetrics } from './metrics.js';
+import {
+  LABELLED_FIELDS,
+  type CaseResult,
+  type EvalCase,
+  type EvalDataset,
+  type EvalReport,
+  type FieldCounts,
+  type LabelledField,
+} from './types.js';
+
+export interface EvalOptions {
+  /** Allow LLM fallbacks in classifyPage/extractJobDetail (default true). */
+  llm?: boolean;
+  onCase?: (result: CaseResult) => void;
+}
+
+function enumFrom<T extends string>(value: string | null, options: [RegExp, T][], fallback: T): T {
+  if (!value) return fallback;
+  for (const [pattern, result] of options) if (pattern.test(value)) return result;
+  return fallback;
+}
+
+/** Map an extracted JobDetail onto the NormalizedJob shape scoreJobWithRules expects. */
+export function toNormalizedJob(detail: JobDetail, url: string): NormalizedJob {
+  const t = new Date(0).toISOString();
+  return {
+    id: url,
+    runId: 'eval',
+    sourceId: url,
+    title: detail.title,
+    companyName: detail.company,
+    sourceUrl: url,
+    location: detail.location ?? undefined,
+    remoteType: enumFrom(
+      detail.remoteType,
+      [
+        [/hybrid/i, 'HYBRID'],
+        [/remote/i, 'REMOTE'],
+        [/on-?site|in[- ]office/i, 'ONSITE'],
+      ],
+      'UNKNOWN',
+    ),
+    seniority: enumFrom(
+      detail.seniority ?? detail.title,
+      [
+        [/intern/i, 'INTERN'],
+        [/principal/i, 'PRINCIPAL'],
+        [/staff/i, 'STAFF'],
+        [/director/i, 'DIRECTOR'],
+        [/senior|sr\.?\b|lead/i, 'SENIOR'],
+        [/junior|jr\.?\b|entry|new grad/i, 'JUNIOR'],
+        [/mid/i, 'MID'],
+      ],
+      'UNKNOWN',
+    ),
+    employmentType: enumFrom(
+      detail.employmentType,
+      [
+        [/full/i, 'FULL_TIME'],
+        [/part/i, 'PART_TIME'],
+        [/contract/i, 'CONTRACT'],
+        [/intern/i, 'INTERNSHIP'],
+        [/freelance/i, 'FREELANCE'],
+      ],
+      'UNKNOWN',
+    ),
+    visaSponsorship: 'UNKNOWN',
+    description: [detail.description, ...detail.requirements].join('\n'),
+    requirements: detail.requirements,
+    evidenceRefs: [],
+    confidence: 0.5,
+    dedupeKey: url,
+    createdAt: t,
+    updatedAt: t,
+  };
+}
+
+async function evaluateCase(
+  dataset: EvalDataset,
+  evalCase: EvalCase,
+  llm: boolean,
+): Promise<CaseResult> {
+  const html = readCaseHtml(dataset, evalCase);
+  const classification = await classifyPage(html, evalCase.url, {
+    useLlm: llm,
+    statusCode: evalCase.statusCode,
+  });
+
+  const result: CaseResult = {
+    id: evalCase.id,
+    pageType: {
+      expected: evalCase.expectedPageType,
+      actual: classification.type,
+      method: classification.method,
+      correct: classification.type === evalCase.expectedPageType,
+    },
+    fields: {},
+    extracted: null,
+    match: null,
+    error: null,
+  };
+
+  if (!evalCase.expected && !evalCase.match) return result;
+
+  const detail = await extractJobDetail(html, evalCase.url, { allowLlmFallback: llm });
+  result.extracted = detail;
+
+  for (const field of LABELLED_FIELDS) {
+    const label = evalCase.expected?.[field];
+    if (label === undefined) continue;
+    result.fields[field] = scoreField(field, label, detail[field]);
+  }
+
+  if (evalCase.match) {
+    const preferences = UserPreferencesSchema.parse({
+      workAuthorization: 'US_CITIZEN',
+      ...evalCase.match.preferences,
+    });
+    const scored = scoreJobWithRules(toNormalizedJob(detail, evalCase.url), preferences, {
+      experience: evalCase.match.experience,
+      company: {
+        industries: evalCase.match.companyIndustries,
+        description: detail.companyOneLiner,
+      },
+      salary: detail.salary,
+    });
+    const actualGrade = scoreToGrade(scored.score);
+    result.match = {
+      expectedGrade: evalCase.match.expectedGrade,
+      actualGrade,
+      score: scored.score,
+      gradeCorrect: actualGrade === evalCase.match.expectedGrade,
+      expectedStrictFilterPass: evalCase.match.expectedStrictFilterPass ?? null,
+      strictFilterPass: scored.passesStrictFilter,
+    };
+  }
+
+  return result;
+}
+
+export async function runEval(
+  dataset: EvalDataset,
+  options: EvalOptions = {},
+): Promise<EvalReport> {
+  const llm = options.llm ?? true;
+  const cases: CaseResult[] = [];
+
+  for (const evalCase of dataset.cases) {
+    let result: CaseResult;
+    try {
+      result = await evaluateCase(dataset, evalCase, llm);
+    } catch (err) {
+      result = {
+        id: evalCase.id,
+        pageType: {
+          expected: evalCase.expectedPageType,
+          actual: 'error',
+          method: 'heuristic',
+          correct: false,
+        },
+        fields: {},
+        extracted: null,
+        match: null,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+    cases.push(result);
+    options.onCase?.(result);
+  }
+
+  const totals: Partial<Record<LabelledField, FieldCounts>> = {};
+  for (const c of cases) {
+    for (const field of LABELLED_FIELDS) {
+      const counts = c.fields[field];
+      if (!counts) continue;
+      totals[field] = addCounts(totals[field] ?? { tp: 0, fp: 0, fn: 0 }, counts);
+    }
+  }
+  const fields: EvalReport['summary']['fields'] = {};
+  for (const field of LABELLED_FIELDS) {
+    const counts = totals[field];
+    if (counts) fields[field] = toMetrics(counts);
+  }
+
+  const models: Record<string, string> = {};
+  for (const role of Object.keys(OllamaModels) as OllamaModelType[]) {
+    const provider = getProviderNameForRole(role);
+    models[role] = `${provider}:${getModelForRole(role, provider)}`;
+  }
+
+  const graded = cases.filter((c) => c.match);
+  return {
+    dataset: dataset.name,
+    config: { llm, models },
+    summary: {
+      cases: cases.length,
+      errors: cases.filter((c) => c.error).length,
+      pageTypeAccuracy: accuracy(cases.filter((c) => c.pageType.correct).length, cases.length),
+      gradeAccuracy: accuracy(graded.filter((c) => c.match?.gradeCorrect).length, graded.length),
+      fields,
+    },
+    cases,
+  };
+}
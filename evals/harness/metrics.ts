@@ -0,0 +1,121 @@
+/**
+ * Field-level scoring for extracted JobDetail values against hand labels.
+ * Pure functions so they can be unit-tested without running any agent.
+ */
+
+import type { JobDetail } from '@careersignal/agents';
+import type { FieldCounts, FieldMetrics, LabelledField } from './types.js';
+
+/** Minimum token Jaccard for a predicted requirement to count as the labelled one. */
+const REQUIREMENT_MATCH_THRESHOLD = 0.5;
+
+export function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}+#.$ ]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tokens(value: string): Set<string> {
+  return new Set(normalizeText(value).split(' ').filter(Boolean));
+}
+
+export function tokenJaccard(a: string, b: string): number {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.size === 0 && tb.size === 0) return 1;
+  let intersection = 0;
+  for (const t of ta) if (tb.has(t)) intersection++;
+  return intersection / (ta.size + tb.size - intersection);
+}
+
+/** Scalar match: equal after normalization, or one contains the other (e.g. "Acme" vs "Acme Inc"). */
+export function scalarMatches(expected: string, actual: string): boolean {
+  const e = normalizeText(expected);
+  const a = normalizeText(actual);
+  if (!e || !a) return false;
+  return e === a || a.includes(e) || e.includes(a);
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value == null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/** Item-level counts for list fields: each labelled item is matched to at most one prediction. */
+export function scoreList(expected: string[], actual: string[]): FieldCounts {
+  const unmatched = [...actual];
+  let tp = 0;
+  for (const item of expected) {
+    let bestIdx = -1;
+    let bestScore = 0;
+    unmatched.forEach((candidate, idx) => {
+      const score = tokenJaccard(item, candidate);
+      if (score > bestScore) {
+        bestScore = score;
+        bestIdx = idx;
+      }
+    });
+    if (bestIdx >= 0 && bestScore >= REQUIREMENT_MATCH_THRESHOLD) {
+      tp++;
+      unmatched.splice(bestIdx, 1);
+    }
+  }
+  return { tp, fp: unmatched.length, fn: expected.length - tp };
+}
+
+/**
+ * Counts for one labelled field.
+ * - label null, value present → FP
+ * - label present, value missing → FN
+ * - both present and matching → TP; mismatching → FP + FN
+ */
+export function scoreField(
+  field: LabelledField,
+  expected: string | string[] | null,
+  actual: JobDetail[LabelledField],
+): FieldCounts {
+  if (Array.isArray(expected) || Array.isArray(actual)) {
+    const e = Array.isArray(expected) ? expected : expected ? [expected] : [];
+    const a = Array.isArray(actual) ? actual : actual ? [actual] : [];
+    return scoreList(e, a);
+  }
+
+  const expectedEmpty = isEmpty(expected);
+  const actualEmpty = isEmpty(actual);
+  if (expectedEmpty && actualEmpty) return { tp: 0, fp: 0, fn: 0 };
+  if (expectedEmpty) return { tp: 0, fp: 1, fn: 0 };
+  if (actualEmpty) return { tp: 0, fp: 0, fn: 1 };
+
+  const matched =
+    field === 'description'
+      ? normalizeText(actual as string).includes(normalizeText(expected as string))
+      : scalarMatches(expected as string, actual as string);
+  return matched ? { tp: 1, fp: 0, fn: 0 } : { tp: 0, fp: 1, fn: 1 };
+}
+
+export function addCounts(a: FieldCounts, b: FieldCounts): FieldCounts {
+  return { tp: a.tp + b.tp, fp: a.fp + b.fp, fn: a.fn + b.fn };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Precision/recall from counts; null when undefined (no predictions / no labels). */
+export function toMetrics(counts: FieldCounts): FieldMetrics {
+  const predicted = counts.tp + counts.fp;
+  const labelled = counts.tp + counts.fn;
+  return {
+    ...counts,
+    precision: predicted > 0 ? round(counts.tp / predicted) : null,
+    recall: labelled > 0 ? round(counts.tp / labelled) : null,
+  };
+}
+
+export function accuracy(correct: number, total: number): number | null {
+  return total > 0 ? round(correct / total) : null;
+}
@@ -0,0 +1,84 @@
+/**
+ * Eval runner for job-detail extraction, page classification and rule match scoring.
+ *
+ * Runs classifyPage, extractJobDetail and scoreJobWithRules over a dataset of saved job pages
+ * with hand-labelled JobDetail fields and expected match grades, prints per-field
+ * precision/recall and writes a JSON report that can be diffed between prompt or model changes.
+ *
+ * Run (from repo root, after `npm run build:packages`):
+ *   npm run eval
+ *   npm run eval -- --dataset evals/datasets/job-detail --out evals/reports/baseline.json
+ *   npm run eval -- --no-llm        # heuristics only (deterministic, no model needed)
+ *
+ * Combine with LLM_CASSETTE_MODE=replay to evaluate against recorded model responses.
+ */
+
+import '../../scripts/load-env';
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { loadDataset } from './dataset.js';
+import { runEval } from './evaluate.js';
+import type { EvalReport } from './types.js';
+
+const DEFAULT_DATASET = 'evals/datasets/job-detail';
+const DEFAULT_OUT = 'evals/reports/latest.json';
+
+function parseArgs(argv: string[]): { dataset: string; out: string; llm: boolean } {
+  const args = { dataset: DEFAULT_DATASET, out: DEFAULT_OUT, llm: true };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dataset' && argv[i + 1]) args.dataset = argv[++i]!;
+    else if (arg === '--out' && argv[i + 1]) args.out = argv[++i]!;
+    else if (arg === '--no-llm') args.llm = false;
+  }
+  return args;
+}
+
+function fmt(value: number | null): string {
+  return value == null ? '  -  ' : value.toFixed(3);
+}
+
+function printReport(report: EvalReport): void {
+  const { summary } = report;
+  console.log(`\nDataset: ${report.dataset} (${summary.cases} cases, ${summary.errors} errors)`);
+  console.log(`LLM fallbacks: ${report.config.llm ? 'on' : 'off'}`);
+  console.log(`Page type accuracy:   ${fmt(summary.pageTypeAccuracy)}`);
+  console.log(`Match grade accuracy: ${fmt(summary.gradeAccuracy)}\n`);
+  console.log('field             precision  recall   tp  fp  fn');
+  for (const [field, m] of Object.entries(summary.fields)) {
+    console.log(
+      `${field.padEnd(18)}${fmt(m.precision).padStart(9)}${fmt(m.recall).padStart(8)}` +
+        `${String(m.tp).padStart(5)}${String(m.fp).padStart(4)}${String(m.fn).padStart(4)}`,
+    );
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const dataset = loadDataset(args.dataset);
+
+  const report = await runEval(dataset, {
+    llm: args.llm,
+    onCase: (c) => {
+      const status = c.error
+        ? `ERROR ${c.error}`
+        : `page=${c.pageType.actual}${c.pageType.correct ? '' : ` (expected ${c.pageType.expected})`}` +
+          (c.match
+            ? ` grade=${c.match.actualGrade}${c.match.gradeCorrect ? '' : ` (expected ${c.match.expectedGrade})`}`
+            : '');
+      console.log(`[eval] ${c.id}: ${status}`);
+    },
+  });
+
+  printReport(report);
+
+  const outPath = path.resolve(process.cwd(), args.out);
+  mkdirSync(path.dirname(outPath), { recursive: true });
+  writeFileSync(outPath, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+  console.log(`\nReport written to ${path.relative(process.cwd(), outPath)}`);
+}
+
+main().catch((err) => {
+  console.error('Eval run failed:', err);
+  process.exit(1);
+});
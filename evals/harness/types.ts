@@ -0,0 +1,95 @@
+/**
+ * Types for the job-detail / match-scoring eval harness.
+ */
+
+import type { JobDetail, PageType, UserPreferences } from '@careersignal/agents';
+
+/** JobDetail fields that can be hand-labelled and scored. */
+export type LabelledField = Exclude<keyof JobDetail, 'applyUrl'>;
+
+export const LABELLED_FIELDS: LabelledField[] = [
+  'title',
+  'company',
+  'companyOneLiner',
+  'location',
+  'salary',
+  'description',
+  'requirements',
+  'postedDate',
+  'deadline',
+  'employmentType',
+  'remoteType',
+  'seniority',
+  'department',
+];
+
+/**
+ * Hand-labelled expectations for one saved page.
+ * Only fields present in `expected` are scored; `null` means "the page has no such value",
+ * so extracting one counts as a false positive. `description` is a snippet the extracted
+ * description must contain.
+ */
+export interface EvalCase {
+  id: string;
+  url: string;
+  /** HTML file path, relative to the dataset directory. */
+  html: string;
+  statusCode?: number;
+  expectedPageType: PageType;
+  expected?: Partial<Record<LabelledField, string | string[] | null>>;
+  match?: {
+    preferences: Partial<UserPreferences>;
+    /** Dated profile experience entries passed to scoreJobWithRules. */
+    experience?: unknown[];
+    /** Company industry labels; the extracted companyOneLiner is used as description. */
+    companyIndustries?: string[];
+    expectedGrade: string;
+    expectedStrictFilterPass?: boolean;
+  };
+}
+
+export interface EvalDataset {
+  name: string;
+  dir: string;
+  cases: EvalCase[];
+}
+
+export interface FieldCounts {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+export interface FieldMetrics extends FieldCounts {
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface CaseResult {
+  id: string;
+  pageType: { expected: PageType; actual: PageType; method: string; correct: boolean };
+  fields: Partial<Record<LabelledField, FieldCounts>>;
+  extracted: JobDetail | null;
+  match: {
+    expectedGrade: string;
+    actualGrade: string;
+    score: number;
+    gradeCorrect: boolean;
+    expectedStrictFilterPass: boolean | null;
+    strictFilterPass: boolean;
+  } | null;
+  error: string | null;
+}
+
+export interface EvalReport {
+  dataset: string;
+  config: { llm: boolean; models: Record<string, string> };
+  summary: {
+    cases: number;
+    errors: number;
+    pageTypeAccuracy: number | null;
+    gradeAccuracy: number | null;
+    fields: Partial<Record<LabelledField, FieldMetrics>>;
+  };
+  cases: CaseResult[];
+}
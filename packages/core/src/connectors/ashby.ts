@@ -0,0 +1,150 @@
+/**
+ * Ashby Job Board API connector.
+ * Uses https://api.ashbyhq.com/posting-api/job-board/{boardName}
+ * to fetch public job postings and normalize them.
+ */
+
+import type {
+  AtsPosting,
+  Connector,
+  ConnectorResult,
+  CanonicalJob,
+  ConnectorConfig,
+  TestBudget,
+} from './types';
+import type { AtsType } from '../fingerprint';
+import { computeDedupeKey } from '../dedupe';
+import {
+  configString,
+  fetchJson,
+  normalizeAll,
+  parseDate,
+  slugToCompanyName,
+  writeEvidence,
+} from './shared';
+
+const ASHBY_ATS: AtsType = 'ASHBY';
+
+interface AshbyJobRaw {
+  id: string;
+  title: string;
+  location?: string;
+  department?: string;
+  team?: string;
+  employmentType?: string;
+  descriptionHtml?: string;
+  descriptionPlain?: string;
+  isRemote?: boolean;
+  workplaceType?: string;
+  isListed?: boolean;
+  publishedAt?: string;
+  jobUrl?: string;
+  applyUrl?: string;
+  /** Present with ?includeCompensation=true. */
+  compensation?: { compensationTierSummary?: string | null };
+}
+
+interface AshbyResponse {
+  apiVersion?: string;
+  jobs?: AshbyJobRaw[];
+}
+
+function normalizeAshbyJob(raw: AshbyJobRaw): CanonicalJob {
+  const applyUrl = raw.applyUrl ?? raw.jobUrl ?? null;
+  const jobUrl = raw.jobUrl ?? raw.applyUrl ?? null;
+  const externalId = raw.id ?? null;
+
+  const dedupeKey = computeDedupeKey({
+    applyUrl: applyUrl ?? undefined,
+    jobUrl: jobUrl ?? undefined,
+    externalId: externalId ?? undefined,
+    sourcePrefix: 'ashby',
+  });
+
+  const remoteType =
+    raw.isRemote || raw.workplaceType === 'Remote'
+      ? 'REMOTE'
+      : raw.workplaceType === 'Hybrid'
+        ? 'HYBRID'
+        : raw.workplaceType === 'OnSite' || raw.workplaceType === 'Onsite'
+          ? 'ONSITE'
+          : null;
+
+  return {
+    title: raw.title?.trim() || 'Untitled',
+    location: raw.location?.trim() || null,
+    jobUrl,
+    applyUrl,
+    externalId,
+    descriptionText: raw.descriptionPlain?.trim() || raw.descriptionHtml?.trim() || null,
+    descriptionHtml: raw.descriptionHtml?.trim() || null,
+    postedAt: parseDate(raw.publishedAt),
+    employmentType: raw.employmentType?.trim() || null,
+    level: raw.team?.trim() || raw.department?.trim() || null,
+    remoteType,
+    status: 'OPEN',
+    dedupeKey,
+    rawExtract: raw as unknown as Record<string, unknown>,
+  };
+}
+
+async function fetchAshbyBoard(
+  boardName: string,
+  budget?: TestBudget | null,
+  includeCompensation = false,
+): Promise<AshbyResponse> {
+  const url = `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(boardName)}${includeCompensation ? '?includeCompensation=true' : ''}`;
+  return fetchJson<AshbyResponse>('Ashby', url, budget);
+}
+
+export const ashbyConnector: Connector = {
+  atsType: ASHBY_ATS,
+
+  async fetch(config: ConnectorConfig, budget?: TestBudget | null): Promise<ConnectorResult> {
+    const name = configString(config, 'boardName', 'companySlug');
+    if (!name) {
+      return {
+        jobs: [],
+        evidencePath: '',
+        errors: ['Missing boardName/companySlug in connector config'],
+      };
+    }
+    const errors: string[] = [];
+    let rawResponse: AshbyResponse;
+    try {
+      rawResponse = await fetchAshbyBoard(name, budget);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return { jobs: [], evidencePath: '', errors: [msg] };
+    }
+    // Unlisted postings are reachable by direct link only; keep them off the board.
+    const listed = (rawResponse.jobs ?? []).filter((j) => j.isListed !== false);
+    const jobs = normalizeAll(listed, normalizeAshbyJob, errors, budget);
+    const evidencePath = await writeEvidence(config, name, rawResponse, errors);
+    return { jobs, evidencePath, errors };
+  },
+};
+
+/**
+ * Fetch one posting by board name and job id. Ashby has no public single-job endpoint,
+ * so this reads the board (with compensation) and picks the posting; throws when it's gone.
+ */
+export async function fetchAshbyPosting(
+  boardName: string,
+  jobId: string,
+  budget?: TestBudget | null,
+): Promise<AtsPosting> {
+  const board = await fetchAshbyBoard(boardName, budget, true);
+  const raw = (board.jobs ?? []).find((j) => j.id === jobId);
+  if (!raw) throw new Error(`Ashby posting ${jobId} not found on board ${boardName}`);
+  return {
+    atsType: ASHBY_ATS,
+    job: normalizeAshbyJob(raw),
+    companyName: slugToCompanyName(boardName),
+    salary: raw.compensation?.compensationTierSummary?.trim() || null,
+  };
+}
+
+export function normalizeAshbyJobExport(raw: AshbyJobRaw): CanonicalJob {
+  return normalizeAshbyJob(raw);
+}
@@ -0,0 +1,143 @@
+/**
+ * Greenhouse Job Board API connector. Fetches jobs from boards-api.greenhouse.io,
+ * normalizes to canonical job shape, optionally writes evidence JSON.
+ */
+
+import type {
+  AtsPosting,
+  Connector,
+  ConnectorResult,
+  CanonicalJob,
+  ConnectorConfig,
+  TestBudget,
+} from './types';
+import type { AtsType } from '../fingerprint';
+import { computeDedupeKey } from '../dedupe';
+import {
+  configString,
+  fetchJson,
+  formatPayRange,
+  normalizeAll,
+  parseDate,
+  slugToCompanyName,
+  writeEvidence,
+} from './shared';
+
+const GREENHOUSE_ATS: AtsType = 'GREENHOUSE';
+
+interface GreenhouseJobRaw {
+  id: number;
+  title: string;
+  absolute_url?: string;
+  location?: { name?: string };
+  updated_at?: string;
+  content?: string;
+  departments?: Array<{ id?: number; name?: string }>;
+  offices?: Array<{ name?: string; location?: string }>;
+  /** Present on the single-job endpoint. */
+  company_name?: string;
+  /** Present on the single-job endpoint with ?pay_transparency=true. */
+  pay_input_ranges?: Array<{ min_cents?: number; max_cents?: number; currency_type?: string }>;
+}
+
+interface GreenhouseResponse {
+  jobs?: GreenhouseJobRaw[];
+  meta?: { total?: number };
+}
+
+function normalizeGreenhouseJob(raw: GreenhouseJobRaw): CanonicalJob {
+  const applyUrl = raw.absolute_url ?? null;
+  const externalId = raw.id != null ? String(raw.id) : null;
+  const dedupeKey = computeDedupeKey({
+    applyUrl: applyUrl ?? undefined,
+    jobUrl: applyUrl ?? undefined,
+    externalId: externalId ?? undefined,
+    sourcePrefix: 'gh',
+  });
+  const location =
+    raw.location?.name?.trim() ||
+    raw.offices?.[0]?.location?.trim() ||
+    raw.offices?.[0]?.name?.trim() ||
+    null;
+  const level = raw.departments?.[0]?.name?.trim() ?? null;
+  return {
+    title: raw.title?.trim() || 'Untitled',
+    location: location ?? null,
+    jobUrl: applyUrl ?? null,
+    applyUrl: applyUrl ?? null,
+    externalId,
+    descriptionText: raw.content?.trim() || null,
+    descriptionHtml: raw.content?.trim() || null,
+    postedAt: parseDate(raw.updated_at),
+    level,
+    status: 'OPEN',
+    dedupeKey,
+    rawExtract: raw as unknown as Record<string, unknown>,
+  };
+}
+
+async function fetchGreenhouseBoard(
+  boardToken: string,
+  budget?: TestBudget | null,
+): Promise<GreenhouseResponse> {
+  const url = `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(boardToken)}/jobs?content=true`;
+  return fetchJson<GreenhouseResponse>('Greenhouse', url, budget);
+}
+
+export const greenhouseConnector: Connector = {
+  atsType: GREENHOUSE_ATS,
+
+  async fetch(config: ConnectorConfig, budget?: TestBudget | null): Promise<ConnectorResult> {
+    const token = configString(config, 'boardToken');
+    if (!token) {
+      return { jobs: [], evidencePath: '', errors: ['Missing boardToken in connector config'] };
+    }
+    const errors: string[] = [];
+    let rawResponse: GreenhouseResponse;
+    try {
+      rawResponse = await fetchGreenhouseBoard(token, budget);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return { jobs: [], evidencePath: '', errors: [msg] };
+    }
+    const jobs = normalizeAll(rawResponse?.jobs ?? [], normalizeGreenhouseJob, errors, budget);
+    const evidencePath = await writeEvidence(config, token, rawResponse, errors);
+    return { jobs, evidencePath, errors };
+  },
+};
+
+/** Fetch one posting by board token and job id (with pay ranges when published). */
+export async function fetchGreenhousePosting(
+  boardToken: string,
+  jobId: string,
+  budget?: TestBudget | null,
+): Promise<AtsPosting> {
+  const url = `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(boardToken)}/jobs/${encodeURIComponent(jobId)}?pay_transparency=true`;
+  const raw = await fetchJson<GreenhouseJobRaw>('Greenhouse', url, budget);
+  const pay = raw.pay_input_ranges?.[0];
+  return {
+    atsType: GREENHOUSE_ATS,
+    job: normalizeGreenhouseJob(raw),
+    companyName: raw.company_name?.trim() || slugToCompanyName(boardToken),
+    salary: pay
+      ? formatPayRange(
+          pay.min_cents != null ? pay.min_cents / 100 : null,
+          pay.max_cents != null ? pay.max_cents / 100 : null,
+          pay.currency_type,
+        )
+      : null,
+  };
+}
+
+/** Normalize a single raw Greenhouse job (exported for tests). */
+export function normalizeGreenhouseJobExport(raw: GreenhouseJobRaw): CanonicalJob {
+  return normalizeGreenhouseJob(raw);
+}
+
+/** Fetch raw response (for tests/fixtures). */
+export async function fetchGreenhouseBoardExport(
+  boardToken: string,
+  budget?: TestBudget | null,
+): Promise<GreenhouseResponse> {
+  return fetchGreenhouseBoard(boardToken, budget);
+}
@@ -0,0 +1,25 @@
+export type {
+  AtsPosting,
+  CanonicalJob,
+  Connector,
+  ConnectorResult,
+  ConnectorConfig,
+  TestBudget,
+  JobRemoteType,
+  JobStatus,
+} from './types';
+export {
+  greenhouseConnector,
+  normalizeGreenhouseJobExport,
+  fetchGreenhouseBoardExport,
+  fetchGreenhousePosting,
+} from './greenhouse';
+export { leverConnector, normalizeLeverJobExport, fetchLeverPosting } from './lever';
+export { ashbyConnector, normalizeAshbyJobExport, fetchAshbyPosting } from './ashby';
+export { smartRecruitersConnector, normalizeSmartRecruitersJobExport } from './smartrecruiters';
+export { recruiteeConnector, normalizeRecruiteeJobExport } from './recruitee';
+export { personioConnector, normalizePersonioJobExport } from './personio';
+export { workdayConnector, normalizeWorkdayJobExport, parseWorkdayPostedOn } from './workday';
+export { getConnector, getConnectorOrThrow } from './registry';
+export { parseAtsPostingUrl, fetchAtsPosting, type AtsPostingRef } from './posting';
+export { setConnectorRequestGuard, type ConnectorRequestGuard } from './shared';
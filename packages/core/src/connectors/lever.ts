@@ -0,0 +1,165 @@
+/**
+ * Lever public postings API connector.
+ * Fetches jobs from api.lever.co/v0/postings/{account}?mode=json and normalizes them.
+ */
+
+import type {
+  AtsPosting,
+  Connector,
+  ConnectorResult,
+  CanonicalJob,
+  ConnectorConfig,
+  TestBudget,
+} from './types';
+import type { AtsType } from '../fingerprint';
+import { computeDedupeKey } from '../dedupe';
+import {
+  configString,
+  fetchJson,
+  formatPayRange,
+  normalizeAll,
+  parseDate,
+  slugToCompanyName,
+  writeEvidence,
+} from './shared';
+
+const LEVER_ATS: AtsType = 'LEVER';
+
+interface LeverCategories {
+  location?: string;
+  team?: string;
+  commitment?: string;
+  department?: string;
+  level?: string;
+}
+
+interface LeverJobRaw {
+  id: string;
+  text: string;
+  createdAt?: number;
+  updatedAt?: number;
+  hostedUrl?: string;
+  applyUrl?: string;
+  categories?: LeverCategories;
+  workplaceType?: string;
+  descriptionPlain?: string;
+  description?: string;
+  /** Sections such as "Requirements"; content is <li> HTML. */
+  lists?: Array<{ text?: string; content?: string }>;
+  additional?: string;
+  additionalPlain?: string;
+  salaryRange?: { min?: number; max?: number; currency?: string; interval?: string };
+}
+
+type LeverResponse = LeverJobRaw[];
+
+/** Lever splits a posting into intro, titled lists and closing text; stitch them back together. */
+function leverDescriptionHtml(raw: LeverJobRaw): string | null {
+  const parts = [
+    raw.description?.trim(),
+    ...(raw.lists ?? []).map((l) =>
+      l.content?.trim() ? `<h3>${l.text?.trim() ?? ''}</h3><ul>${l.content.trim()}</ul>` : '',
+    ),
+    raw.additional?.trim(),
+  ].filter(Boolean);
+  return parts.length ? parts.join('\n') : null;
+}
+
+function normalizeLeverJob(raw: LeverJobRaw): CanonicalJob {
+  const applyUrl = raw.applyUrl ?? raw.hostedUrl ?? null;
+  const jobUrl = raw.hostedUrl ?? raw.applyUrl ?? null;
+  const externalId = raw.id ?? null;
+
+  const dedupeKey = computeDedupeKey({
+    applyUrl: applyUrl ?? undefined,
+    jobUrl: jobUrl ?? undefined,
+    externalId: externalId ?? undefined,
+    sourcePrefix: 'lever',
+  });
+
+  const categories = raw.categories ?? {};
+  const remoteType =
+    raw.workplaceType === 'remote'
+      ? 'REMOTE'
+      : raw.workplaceType === 'hybrid'
+        ? 'HYBRID'
+        : raw.workplaceType === 'onsite'
+          ? 'ONSITE'
+          : null;
+
+  return {
+    title: raw.text?.trim() || 'Untitled',
+    location: categories.location?.trim() || null,
+    jobUrl,
+    applyUrl,
+    externalId,
+    descriptionText: raw.descriptionPlain?.trim() || raw.description?.trim() || null,
+    descriptionHtml: leverDescriptionHtml(raw),
+    postedAt: parseDate(raw.createdAt),
+    employmentType: categories.commitment?.trim() || null,
+    level: categories.team?.trim() || categories.level?.trim() || null,
+    remoteType,
+    status: 'OPEN',
+    dedupeKey,
+    rawExtract: raw as unknown as Record<string, unknown>,
+  };
+}
+
+async function fetchLeverPostings(
+  account: string,
+  budget?: TestBudget | null,
+): Promise<LeverResponse> {
+  const url = `https://api.lever.co/v0/postings/${encodeURIComponent(account)}?mode=json`;
+  return fetchJson<LeverResponse>('Lever', url, budget);
+}
+
+export const leverConnector: Connector = {
+  atsType: LEVER_ATS,
+
+  async fetch(config: ConnectorConfig, budget?: TestBudget | null): Promise<ConnectorResult> {
+    const slug = configString(config, 'companySlug', 'account');
+    if (!slug) {
+      return {
+        jobs: [],
+        evidencePath: '',
+        errors: ['Missing companySlug/account in connector config'],
+      };
+    }
+    const errors: string[] = [];
+    let rawResponse: LeverResponse;
+    try {
+      rawResponse = await fetchLeverPostings(slug, budget);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return { jobs: [], evidencePath: '', errors: [msg] };
+    }
+    const postings = Array.isArray(rawResponse) ? rawResponse : [];
+    const jobs = normalizeAll(postings, normalizeLeverJob, errors, budget);
+    const evidencePath = await writeEvidence(config, slug, rawResponse, errors);
+    return { jobs, evidencePath, errors };
+  },
+};
+
+/** Fetch one posting by account and posting id; EU-hosted boards use api.eu.lever.co. */
+export async function fetchLeverPosting(
+  account: string,
+  postingId: string,
+  options?: { eu?: boolean; budget?: TestBudget | null },
+): Promise<AtsPosting> {
+  const host = options?.eu ? 'api.eu.lever.co' : 'api.lever.co';
+  const url = `https://${host}/v0/postings/${encodeURIComponent(account)}/${encodeURIComponent(postingId)}`;
+  const raw = await fetchJson<LeverJobRaw>('Lever', url, options?.budget);
+  const range = raw.salaryRange;
+  return {
+    atsType: LEVER_ATS,
+    job: normalizeLeverJob(raw),
+    companyName: slugToCompanyName(account),
+    salary: range
+      ? formatPayRange(range.min, range.max, range.currency, range.interval?.replace(/-/g, ' '))
+      : null,
+  };
+}
+
+export function normalizeLeverJobExport(raw: LeverJobRaw): CanonicalJob {
+  return normalizeLeverJob(raw);
+}
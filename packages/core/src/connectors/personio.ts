@@ -0,0 +1,98 @@
+/**
+ * Personio public job board connector.
+ * Uses https://{account}.jobs.personio.de/search.json (the JSON behind the hosted careers page).
+ * The search feed has no description; the full text lives in the /xml feed and the job page.
+ */
+
+import type {
+  Connector,
+  ConnectorResult,
+  CanonicalJob,
+  ConnectorConfig,
+  TestBudget,
+} from './types';
+import type { AtsType } from '../fingerprint';
+import { computeDedupeKey } from '../dedupe';
+import { configString, fetchJson, normalizeAll, parseDate, writeEvidence } from './shared';
+
+const PERSONIO_ATS: AtsType = 'PERSONIO';
+
+interface PersonioJobRaw {
+  id: number;
+  name: string;
+  office?: string;
+  department?: string;
+  employment_type?: string;
+  schedule?: string;
+  seniority?: string;
+  created_at?: string;
+}
+
+type PersonioResponse = PersonioJobRaw[];
+
+function normalizePersonioJob(raw: PersonioJobRaw, account: string): CanonicalJob {
+  const externalId = raw.id != null ? String(raw.id) : null;
+  const jobUrl = externalId
+    ? `https://${account}.jobs.personio.de/job/${encodeURIComponent(externalId)}`
+    : null;
+
+  const dedupeKey = computeDedupeKey({
+    applyUrl: jobUrl ?? undefined,
+    externalId: externalId ?? undefined,
+    sourcePrefix: 'personio',
+  });
+
+  const office = raw.office?.trim() || null;
+
+  return {
+    title: raw.name?.trim() || 'Untitled',
+    location: office,
+    jobUrl,
+    applyUrl: jobUrl,
+    externalId,
+    descriptionText: null,
+    descriptionHtml: null,
+    postedAt: parseDate(raw.created_at),
+    employmentType: raw.schedule?.trim() || raw.employment_type?.trim() || null,
+    level: raw.seniority?.trim() || raw.department?.trim() || null,
+    remoteType: office && /remote/i.test(office) ? 'REMOTE' : null,
+    status: 'OPEN',
+    dedupeKey,
+    rawExtract: { ...raw, account } as unknown as Record<string, unknown>,
+  };
+}
+
+async function fetchPersonioJobs(
+  account: string,
+  budget?: TestBudget | null,
+): Promise<PersonioResponse> {
+  const url = `https://${encodeURIComponent(account)}.jobs.personio.de/search.json`;
+  return fetchJson<PersonioResponse>('Personio', url, budget);
+}
+
+export const personioConnector: Connector = {
+  atsType: PERSONIO_ATS,
+
+  async fetch(config: ConnectorConfig, budget?: TestBudget | null): Promise<ConnectorResult> {
+    const account = configString(config, 'account', 'companySlug');
+    if (!account) {
+      return { jobs: [], evidencePath: '', errors: ['Missing account in connector config'] };
+    }
+    const errors: string[] = [];
+    let rawResponse: PersonioResponse;
+    try {
+      rawResponse = await fetchPersonioJobs(account, budget);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return { jobs: [], evidencePath: '', errors: [msg] };
+    }
+    const postings = Array.isArray(rawResponse) ? rawResponse : [];
+    const jobs = normalizeAll(postings, (j) => normalizePersonioJob(j, account), errors, budget);
+    const evidencePath = await writeEvidence(config, account, rawResponse, errors);
+    return { jobs, evidencePath, errors };
+  },
+};
+
+export function normalizePersonioJobExport(raw: PersonioJobRaw, account: string): CanonicalJob {
+  return normalizePersonioJob(raw, account);
+}
@@ -0,0 +1,89 @@
+/**
+ * Single-posting lookup by job URL. Recognises Greenhouse, Lever and Ashby posting URLs and
+ * fetches that one posting from the ATS's public API, so callers can skip page scraping.
+ */
+
+import type { AtsType } from '../fingerprint';
+import type { AtsPosting, TestBudget } from './types';
+import { fetchGreenhousePosting } from './greenhouse';
+import { fetchLeverPosting } from './lever';
+import { fetchAshbyPosting } from './ashby';
+
+export interface AtsPostingRef {
+  atsType: Extract<AtsType, 'GREENHOUSE' | 'LEVER' | 'ASHBY'>;
+  /** Board token (Greenhouse), account (Lever) or board name (Ashby). */
+  board: string;
+  postingId: string;
+  /** Lever EU boards are served from a separate API host. */
+  eu?: boolean;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parse a posting URL into board + posting id. Returns null for board pages, other ATSs and
+ * company-hosted pages (e.g. `?gh_jid=` embeds, which don't carry the board token).
+ */
+export function parseAtsPostingUrl(url: string): AtsPostingRef | null {
+  let u: URL;
+  try {
+    u = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  const host = u.hostname.toLowerCase();
+  const parts = u.pathname.split('/').filter(Boolean);
+
+  // boards.greenhouse.io/TOKEN/jobs/ID, job-boards(.eu).greenhouse.io/TOKEN/jobs/ID
+  if (/^(boards|job-boards(\.eu)?)\.greenhouse\.io$/.test(host)) {
+    if (parts[0] === 'embed') {
+      const board = u.searchParams.get('for');
+      const postingId = u.searchParams.get('token');
+      return board && postingId && /^\d+$/.test(postingId)
+        ? { atsType: 'GREENHOUSE', board, postingId }
+        : null;
+    }
+    const [board, jobs, postingId] = parts;
+    return board && jobs === 'jobs' && postingId && /^\d+$/.test(postingId)
+      ? { atsType: 'GREENHOUSE', board, postingId }
+      : null;
+  }
+
+  // jobs.lever.co/ACCOUNT/UUID[/apply], jobs.eu.lever.co/...
+  if (host === 'jobs.lever.co' || host === 'jobs.eu.lever.co') {
+    const [board, postingId] = parts;
+    return board && postingId && UUID_PATTERN.test(postingId)
+      ? { atsType: 'LEVER', board, postingId, eu: host === 'jobs.eu.lever.co' }
+      : null;
+  }
+
+  // jobs.ashbyhq.com/BOARD/UUID[/application]
+  if (host === 'jobs.ashbyhq.com') {
+    const [board, postingId] = parts;
+    return board && postingId && UUID_PATTERN.test(postingId)
+      ? { atsType: 'ASHBY', board, postingId }
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Fetch the posting behind a job URL from its ATS API. Returns null when the URL isn't a
+ * recognised posting URL; throws on API errors (404 for closed postings, timeouts).
+ */
+export async function fetchAtsPosting(
+  url: string,
+  budget?: TestBudget | null,
+): Promise<AtsPosting | null> {
+  const ref = parseAtsPostingUrl(url);
+  if (!ref) return null;
+  switch (ref.atsType) {
+    case 'GREENHOUSE':
+      return fetchGreenhousePosting(ref.board, ref.postingId, budget);
+    case 'LEVER':
+      return fetchLeverPosting(ref.board, ref.postingId, { eu: ref.eu, budget });
+    case 'ASHBY':
+      return fetchAshbyPosting(ref.board, ref.postingId, budget);
+  }
+}
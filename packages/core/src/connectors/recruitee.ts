@@ -0,0 +1,115 @@
+/**
+ * Recruitee public offers API connector.
+ * Uses https://{subdomain}.recruitee.com/api/offers/ (JSON) to fetch published jobs.
+ */
+
+import type {
+  Connector,
+  ConnectorResult,
+  CanonicalJob,
+  ConnectorConfig,
+  TestBudget,
+} from './types';
+import type { AtsType } from '../fingerprint';
+import { computeDedupeKey } from '../dedupe';
+import { configString, fetchJson, normalizeAll, parseDate, writeEvidence } from './shared';
+
+const RECRUITEE_ATS: AtsType = 'RECRUITEE';
+
+interface RecruiteeOfferRaw {
+  id: number;
+  title: string;
+  slug?: string;
+  careers_url?: string;
+  careers_apply_url?: string;
+  description?: string;
+  requirements?: string;
+  department?: string;
+  city?: string;
+  country_code?: string;
+  remote?: boolean;
+  hybrid?: boolean;
+  employment_type_code?: string;
+  experience_code?: string;
+  created_at?: string;
+  published_at?: string;
+  status?: string;
+}
+
+interface RecruiteeResponse {
+  offers?: RecruiteeOfferRaw[];
+}
+
+function normalizeRecruiteeJob(raw: RecruiteeOfferRaw, subdomain: string): CanonicalJob {
+  const jobUrl = raw.careers_url ?? raw.careers_apply_url ?? null;
+  const applyUrl = raw.careers_apply_url ?? raw.careers_url ?? null;
+  const externalId = raw.id != null ? String(raw.id) : null;
+
+  const dedupeKey = computeDedupeKey({
+    applyUrl: applyUrl ?? undefined,
+    jobUrl: jobUrl ?? undefined,
+    externalId: externalId ?? undefined,
+    sourcePrefix: 'recruitee',
+  });
+
+  const location = [raw.city, raw.country_code].filter(Boolean).join(', ') || null;
+
+  return {
+    title: raw.title?.trim() || 'Untitled',
+    location,
+    jobUrl,
+    applyUrl,
+    externalId,
+    descriptionText: raw.description?.trim() || raw.requirements?.trim() || null,
+    descriptionHtml: raw.description?.trim() || null,
+    postedAt: parseDate(raw.published_at ?? raw.created_at),
+    employmentType: raw.employment_type_code?.trim() || null,
+    level: raw.department?.trim() || null,
+    remoteType: raw.remote ? 'REMOTE' : raw.hybrid ? 'HYBRID' : null,
+    status: raw.status === 'closed' ? 'CLOSED' : 'OPEN',
+    dedupeKey,
+    rawExtract: { ...raw, subdomain } as unknown as Record<string, unknown>,
+  };
+}
+
+async function fetchRecruiteeOffers(
+  subdomain: string,
+  budget?: TestBudget | null,
+): Promise<RecruiteeResponse> {
+  const url = `https://${encodeURIComponent(subdomain)}.recruitee.com/api/offers/`;
+  return fetchJson<RecruiteeResponse>('Recruitee', url, budget);
+}
+
+export const recruiteeConnector: Connector = {
+  atsType: RECRUITEE_ATS,
+
+  async fetch(config: ConnectorConfig, budget?: TestBudget | null): Promise<ConnectorResult> {
+    const slug = configString(config, 'subdomain');
+    if (!slug) {
+      return { jobs: [], evidencePath: '', errors: ['Missing subdomain in connector config'] };
+    }
+    const errors: string[] = [];
+    let rawResponse: RecruiteeResponse;
+    try {
+      rawResponse = await fetchRecruiteeOffers(slug, budget);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return { jobs: [], evidencePath: '', errors: [msg] };
+    }
+    const jobs = normalizeAll(
+      rawResponse.offers ?? [],
+      (o) => normalizeRecruiteeJob(o, slug),
+      errors,
+      budget,
+    );
+    const evidencePath = await writeEvidence(config, slug, rawResponse, errors);
+    return { jobs, evidencePath, errors };
+  },
+};
+
+export function normalizeRecruiteeJobExport(
+  raw: RecruiteeOfferRaw,
+  subdomain: string,
+): CanonicalJob {
+  return normalizeRecruiteeJob(raw, subdomain);
+}
@@ -0,0 +1,121 @@
+/**
+ * Helpers shared by the ATS connectors: JSON fetch, evidence writing, date parsing and budgets.
+ */
+
+import { writeFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CanonicalJob, ConnectorConfig, TestBudget } from './types';
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/** Runs before every connector request; throw to refuse it (e.g. a run policy's page budget). */
+export type ConnectorRequestGuard = (url: string) => Promise<void>;
+
+let requestGuard: ConnectorRequestGuard | null = null;
+
+/** Install (or with null, remove) the process-wide connector request guard. */
+export function setConnectorRequestGuard(next: ConnectorRequestGuard | null): void {
+  requestGuard = next;
+}
+
+/**
+ * Fetch JSON from a public job-board endpoint after the request guard allows it; throws
+ * `<label> API error: <status>` on non-2xx.
+ */
+export async function fetchJson<T>(
+  label: string,
+  url: string,
+  budget?: TestBudget | null,
+  init?: { method?: 'GET' | 'POST'; body?: unknown },
+): Promise<T> {
+  await requestGuard?.(url);
+  const res = await fetch(url, {
+    method: init?.method ?? 'GET',
+    headers: {
+      Accept: 'application/json',
+      ...(init?.body !== undefined && { 'Content-Type': 'application/json' }),
+    },
+    body: init?.body !== undefined ? JSON.stringify(init.body) : undefined,
+    signal: AbortSignal.timeout(budget?.timeout_ms ?? DEFAULT_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    throw new Error(`${label} API error: ${res.status} ${res.statusText}`);
+  }
+  return (await res.json()) as T;
+}
+
+/**
+ * Write the raw API response under `config.evidenceDir/<slug>/<timestamp>.json` when the caller
+ * passed an evidenceDir. Returns the file path ('' when skipped); write failures go to errors.
+ */
+export async function writeEvidence(
+  config: ConnectorConfig,
+  slug: string,
+  payload: unknown,
+  errors: string[],
+): Promise<string> {
+  const evidenceDir = (config as { evidenceDir?: string }).evidenceDir;
+  if (typeof evidenceDir !== 'string' || !evidenceDir) return '';
+  try {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const dir = join(evidenceDir, slug);
+    await mkdir(dir, { recursive: true });
+    const filePath = join(dir, `${timestamp}.json`);
+    await writeFile(filePath, JSON.stringify(payload, null, 2), 'utf-8');
+    return filePath;
+  } catch (e) {
+    errors.push(`Evidence write: ${e instanceof Error ? e.message : String(e)}`);
+    return '';
+  }
+}
+
+/** Normalize each raw posting, collecting per-job failures instead of aborting the board. */
+export function normalizeAll<T extends { id?: unknown }>(
+  raws: T[],
+  normalize: (raw: T) => CanonicalJob,
+  errors: string[],
+  budget?: TestBudget | null,
+): CanonicalJob[] {
+  const jobs: CanonicalJob[] = [];
+  for (const raw of raws) {
+    if (budget?.max_jobs != null && jobs.length >= budget.max_jobs) break;
+    try {
+      jobs.push(normalize(raw));
+    } catch (e) {
+      errors.push(`Normalize job ${raw.id}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return jobs;
+}
+
+export function parseDate(value: string | number | null | undefined): Date | null {
+  if (value == null || value === '') return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/** Read the first non-empty string among the given config keys. */
+export function configString(config: ConnectorConfig, ...keys: string[]): string | null {
+  for (const key of keys) {
+    const value = config?.[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+/** "acme-robotics" → "Acme Robotics" (boards that don't expose the company name). */
+export function slugToCompanyName(slug: string): string {
+  return slug.replace(/[-_]+/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+/** Format a published pay range; null when neither bound is known. */
+export function formatPayRange(
+  min: number | null | undefined,
+  max: number | null | undefined,
+  currency?: string | null,
+  interval?: string | null,
+): string | null {
+  if (min == null && max == null) return null;
+  const amount = min != null && max != null && min !== max ? `${min} - ${max}` : `${min ?? max}`;
+  return [currency?.trim(), amount, interval?.trim()].filter(Boolean).join(' ');
+}
@@ -0,0 +1,140 @@
+/**
+ * SmartRecruiters public Posting API connector.
+ * Pages through https://api.smartrecruiters.com/v1/companies/{companyIdentifier}/postings
+ * (no API key needed for published postings). The list endpoint carries no description;
+ * the analysis pipeline extracts it from the job page when a listing is analyzed.
+ */
+
+import type {
+  Connector,
+  ConnectorResult,
+  CanonicalJob,
+  ConnectorConfig,
+  TestBudget,
+} from './types';
+import type { AtsType } from '../fingerprint';
+import { computeDedupeKey } from '../dedupe';
+import { configString, fetchJson, normalizeAll, parseDate, writeEvidence } from './shared';
+
+const SMARTRECRUITERS_ATS: AtsType = 'SMARTRECRUITERS';
+const PAGE_SIZE = 100;
+const DEFAULT_MAX_PAGES = 10;
+
+interface SmartRecruitersPostingRaw {
+  id: string;
+  name: string;
+  refNumber?: string;
+  releasedDate?: string;
+  company?: { identifier?: string; name?: string };
+  location?: {
+    city?: string;
+    region?: string;
+    country?: string;
+    remote?: boolean;
+    hybrid?: boolean;
+    fullLocation?: string;
+  };
+  department?: { label?: string };
+  typeOfEmployment?: { label?: string };
+  experienceLevel?: { label?: string };
+}
+
+interface SmartRecruitersResponse {
+  offset?: number;
+  limit?: number;
+  totalFound?: number;
+  content?: SmartRecruitersPostingRaw[];
+}
+
+function normalizeSmartRecruitersJob(
+  raw: SmartRecruitersPostingRaw,
+  companyIdentifier: string,
+): CanonicalJob {
+  const company = raw.company?.identifier || companyIdentifier;
+  const jobUrl = `https://jobs.smartrecruiters.com/${encodeURIComponent(company)}/${encodeURIComponent(raw.id)}`;
+  const externalId = raw.id ?? null;
+
+  const dedupeKey = computeDedupeKey({
+    applyUrl: jobUrl,
+    externalId: externalId ?? undefined,
+    sourcePrefix: 'sr',
+  });
+
+  const loc = raw.location ?? {};
+  const location =
+    loc.fullLocation?.trim() ||
+    [loc.city, loc.region, loc.country?.toUpperCase()].filter(Boolean).join(', ') ||
+    null;
+
+  return {
+    title: raw.name?.trim() || 'Untitled',
+    location,
+    jobUrl,
+    applyUrl: jobUrl,
+    externalId,
+    descriptionText: null,
+    descriptionHtml: null,
+    postedAt: parseDate(raw.releasedDate),
+    employmentType: raw.typeOfEmployment?.label?.trim() || null,
+    level: raw.experienceLevel?.label?.trim() || raw.department?.label?.trim() || null,
+    remoteType: loc.remote ? 'REMOTE' : loc.hybrid ? 'HYBRID' : null,
+    status: 'OPEN',
+    dedupeKey,
+    rawExtract: raw as unknown as Record<string, unknown>,
+  };
+}
+
+async function fetchSmartRecruitersPostings(
+  companyIdentifier: string,
+  budget?: TestBudget | null,
+): Promise<SmartRecruitersPostingRaw[]> {
+  const maxPages = budget?.max_pages ?? DEFAULT_MAX_PAGES;
+  const postings: SmartRecruitersPostingRaw[] = [];
+  for (let page = 0; page < maxPages; page++) {
+    const url = `https://api.smartrecruiters.com/v1/companies/${encodeURIComponent(companyIdentifier)}/postings?limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`;
+    const res = await fetchJson<SmartRecruitersResponse>('SmartRecruiters', url, budget);
+    const content = res.content ?? [];
+    postings.push(...content);
+    if (content.length < PAGE_SIZE || postings.length >= (res.totalFound ?? 0)) break;
+    if (budget?.max_jobs != null && postings.length >= budget.max_jobs) break;
+  }
+  return postings;
+}
+
+export const smartRecruitersConnector: Connector = {
+  atsType: SMARTRECRUITERS_ATS,
+
+  async fetch(config: ConnectorConfig, budget?: TestBudget | null): Promise<ConnectorResult> {
+    const identifier = configString(config, 'companyIdentifier', 'companySlug');
+    if (!identifier) {
+      return {
+        jobs: [],
+        evidencePath: '',
+        errors: ['Missing companyIdentifier in connector config'],
+      };
+    }
+    const errors: string[] = [];
+    let postings: SmartRecruitersPostingRaw[];
+    try {
+      postings = await fetchSmartRecruitersPostings(identifier, budget);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return { jobs: [], evidencePath: '', errors: [msg] };
+    }
+    const jobs = normalizeAll(
+      postings,
+      (p) => normalizeSmartRecruitersJob(p, identifier),
+      errors,
+      budget,
+    );
+    const evidencePath = await writeEvidence(config, identifier, postings, errors);
+    return { jobs, evidencePath, errors };
+  },
+};
+
+export function normalizeSmartRecruitersJobExport(
+  raw: SmartRecruitersPostingRaw,
+  companyIdentifier: string,
+): CanonicalJob {
+  return normalizeSmartRecruitersJob(raw, companyIdentifier);
+}
@@ -0,0 +1,146 @@
+/**
+ * Workday public job board connector.
+ * Pages through the JSON API behind *.myworkdayjobs.com career sites:
+ * POST https://{host}/wday/cxs/{tenant}/{site}/jobs. The list endpoint returns title, location
+ * and a relative "Posted N Days Ago" label; descriptions are only on the per-job page.
+ */
+
+import type {
+  Connector,
+  ConnectorResult,
+  CanonicalJob,
+  ConnectorConfig,
+  TestBudget,
+} from './types';
+import type { AtsType } from '../fingerprint';
+import { computeDedupeKey } from '../dedupe';
+import { configString, fetchJson, normalizeAll, writeEvidence } from './shared';
+
+const WORKDAY_ATS: AtsType = 'WORKDAY';
+/** Workday rejects page sizes above 20. */
+const PAGE_SIZE = 20;
+const DEFAULT_MAX_PAGES = 10;
+
+interface WorkdayPostingRaw {
+  id?: string;
+  title: string;
+  externalPath?: string;
+  locationsText?: string;
+  postedOn?: string;
+  remoteType?: string;
+  bulletFields?: string[];
+}
+
+interface WorkdayResponse {
+  total?: number;
+  jobPostings?: WorkdayPostingRaw[];
+}
+
+interface WorkdaySite {
+  host: string;
+  tenant: string;
+  site: string;
+}
+
+/** Parse "Posted Today" / "Posted Yesterday" / "Posted 3 Days Ago" ("30+ Days" is approximate). */
+export function parseWorkdayPostedOn(postedOn: string | undefined, now = new Date()): Date | null {
+  if (!postedOn) return null;
+  const s = postedOn.toLowerCase();
+  const d = new Date(now);
+  if (s.includes('today')) return d;
+  if (s.includes('yesterday')) {
+    d.setDate(d.getDate() - 1);
+    return d;
+  }
+  const m = s.match(/(\d+)\+?\s+days?\s+ago/);
+  if (!m) return null;
+  d.setDate(d.getDate() - parseInt(m[1] ?? '0', 10));
+  return d;
+}
+
+function normalizeWorkdayJob(raw: WorkdayPostingRaw, site: WorkdaySite): CanonicalJob {
+  const jobUrl = raw.externalPath ? `https://${site.host}/${site.site}${raw.externalPath}` : null;
+  const externalId = raw.bulletFields?.[0]?.trim() || raw.externalPath || null;
+
+  const dedupeKey = computeDedupeKey({
+    applyUrl: jobUrl ?? undefined,
+    externalId: externalId ?? undefined,
+    sourcePrefix: `workday:${site.tenant}`,
+  });
+
+  const remote = raw.remoteType?.toLowerCase() ?? '';
+
+  return {
+    title: raw.title?.trim() || 'Untitled',
+    location: raw.locationsText?.trim() || null,
+    jobUrl,
+    applyUrl: jobUrl,
+    externalId,
+    descriptionText: null,
+    descriptionHtml: null,
+    postedAt: parseWorkdayPostedOn(raw.postedOn),
+    remoteType: remote.includes('remote')
+      ? 'REMOTE'
+      : remote.includes('hybrid')
+        ? 'HYBRID'
+        : remote.includes('on-site') || remote.includes('onsite')
+          ? 'ONSITE'
+          : null,
+    status: 'OPEN',
+    dedupeKey,
+    rawExtract: { ...raw, ...site } as unknown as Record<string, unknown>,
+  };
+}
+
+async function fetchWorkdayPostings(
+  site: WorkdaySite,
+  budget?: TestBudget | null,
+): Promise<WorkdayPostingRaw[]> {
+  const url = `https://${site.host}/wday/cxs/${encodeURIComponent(site.tenant)}/${encodeURIComponent(site.site)}/jobs`;
+  const maxPages = budget?.max_pages ?? DEFAULT_MAX_PAGES;
+  const postings: WorkdayPostingRaw[] = [];
+  for (let page = 0; page < maxPages; page++) {
+    const res = await fetchJson<WorkdayResponse>('Workday', url, budget, {
+      method: 'POST',
+      body: { appliedFacets: {}, limit: PAGE_SIZE, offset: page * PAGE_SIZE, searchText: '' },
+    });
+    const batch = res.jobPostings ?? [];
+    postings.push(...batch);
+    if (batch.length < PAGE_SIZE || postings.length >= (res.total ?? 0)) break;
+    if (budget?.max_jobs != null && postings.length >= budget.max_jobs) break;
+  }
+  return postings;
+}
+
+export const workdayConnector: Connector = {
+  atsType: WORKDAY_ATS,
+
+  async fetch(config: ConnectorConfig, budget?: TestBudget | null): Promise<ConnectorResult> {
+    const host = configString(config, 'host');
+    const tenant = configString(config, 'tenant') ?? host?.split('.')[0] ?? null;
+    const siteName = configString(config, 'site');
+    if (!host || !tenant || !siteName) {
+      return {
+        jobs: [],
+        evidencePath: '',
+        errors: ['Missing host/tenant/site in connector config'],
+      };
+    }
+    const site: WorkdaySite = { host: host.toLowerCase(), tenant, site: siteName };
+    const errors: string[] = [];
+    let postings: WorkdayPostingRaw[];
+    try {
+      postings = await fetchWorkdayPostings(site, budget);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return { jobs: [], evidencePath: '', errors: [msg] };
+    }
+    const jobs = normalizeAll(postings, (p) => normalizeWorkdayJob(p, site), errors, budget);
+    const evidencePath = await writeEvidence(config, `${tenant}-${siteName}`, postings, errors);
+    return { jobs, evidencePath, errors };
+  },
+};
+
+export function normalizeWorkdayJobExport(raw: WorkdayPostingRaw, site: WorkdaySite): CanonicalJob {
+  return normalizeWorkdayJob(raw, site);
+}
@@ -0,0 +1,106 @@
+/**
+ * ATS fingerprinting: detect which ATS a company uses from its careers URL.
+ * URL pattern matching only (no HTTP); connectorConfig carries the tokens each connector needs.
+ */
+
+export type AtsType =
+  | 'GREENHOUSE'
+  | 'LEVER'
+  | 'ASHBY'
+  | 'SMARTRECRUITERS'
+  | 'RECRUITEE'
+  | 'PERSONIO'
+  | 'WORKDAY'
+  | 'UNKNOWN';
+
+export type ScrapeStrategy = 'AUTO' | 'API_JSON' | 'API_XML' | 'BROWSER_FALLBACK';
+
+export interface FingerprintResult {
+  atsType: AtsType;
+  scrapeStrategy: ScrapeStrategy;
+  connectorConfig: Record<string, unknown> | null;
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    const s = url.trim();
+    const withProtocol = /^https?:\/\//i.test(s) ? s : `https://${s}`;
+    return new URL(withProtocol);
+  } catch {
+    return null;
+  }
+}
+
+function apiJson(atsType: AtsType, config: Record<string, unknown> | null): FingerprintResult {
+  return { atsType, scrapeStrategy: 'API_JSON', connectorConfig: config };
+}
+
+/**
+ * Detect ATS from careers URL using URL pattern matching only.
+ * Returns UNKNOWN if no pattern matches; connectorConfig contains extracted tokens
+ * (boardToken for Greenhouse, companySlug for Lever/Ashby, companyIdentifier for SmartRecruiters,
+ * subdomain for Recruitee, account for Personio, host/tenant/site for Workday).
+ */
+export function fingerprintFromUrl(careersUrl: string): FingerprintResult {
+  const url = parseUrl(careersUrl);
+  if (!url) {
+    return { atsType: 'UNKNOWN', scrapeStrategy: 'AUTO', connectorConfig: null };
+  }
+
+  const host = url.hostname.toLowerCase();
+  const pathname = url.pathname.replace(/\/+$/, '') || '/';
+  const parts = pathname.split('/').filter(Boolean);
+  const subdomain = (suffix: string) => host.slice(0, -suffix.length);
+
+  // Greenhouse: boards.greenhouse.io/BOARD or *.greenhouse.io (e.g. company.greenhouse.io)
+  if (
+    (host === 'boards.greenhouse.io' || host === 'job-boards.greenhouse.io') &&
+    pathname !== '/'
+  ) {
+    const boardToken = parts[0];
+    return apiJson('GREENHOUSE', boardToken ? { boardToken } : null);
+  }
+  if (host.endsWith('.greenhouse.io')) {
+    const boardToken = subdomain('.greenhouse.io');
+    return apiJson('GREENHOUSE', boardToken ? { boardToken } : null);
+  }
+
+  // Lever: jobs.lever.co/COMPANY
+  if (host === 'jobs.lever.co') {
+    const companySlug = parts[0] || undefined;
+    return apiJson('LEVER', companySlug ? { companySlug } : null);
+  }
+
+  // Ashby: jobs.ashbyhq.com/COMPANY or *.ashbyhq.com/COMPANY
+  if (host === 'jobs.ashbyhq.com' || host.endsWith('.ashbyhq.com')) {
+    const companySlug = parts[0] || undefined;
+    return apiJson('ASHBY', companySlug ? { companySlug } : null);
+  }
+
+  // SmartRecruiters: jobs.smartrecruiters.com/COMPANY or careers.smartrecruiters.com/COMPANY
+  if (host.endsWith('.smartrecruiters.com')) {
+    const companyIdentifier = parts[0] || undefined;
+    return apiJson('SMARTRECRUITERS', companyIdentifier ? { companyIdentifier } : null);
+  }
+
+  // Recruitee: COMPANY.recruitee.com
+  if (host.endsWith('.recruitee.com')) {
+    const slug = subdomain('.recruitee.com');
+    return apiJson('RECRUITEE', slug ? { subdomain: slug } : null);
+  }
+
+  // Personio: ACCOUNT.jobs.personio.de (or .com)
+  const personio = host.match(/^([a-z0-9-]+)\.jobs\.personio\.(de|com)$/);
+  if (personio) {
+    return apiJson('PERSONIO', { account: personio[1] });
+  }
+
+  // Workday: TENANT.wdN.myworkdayjobs.com/[locale/]SITE
+  if (host.endsWith('.myworkdayjobs.com')) {
+    const tenant = host.split('.')[0];
+    const site = parts.find((p) => !/^[a-z]{2}-[A-Z]{2}$/.test(p));
+    return apiJson('WORKDAY', tenant && site ? { host, tenant, site } : null);
+  }
+
+  return { atsType: 'UNKNOWN', scrapeStrategy: 'AUTO', connectorConfig: null };
+}
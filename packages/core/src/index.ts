@@ -1,7 +1,11 @@
 /**
- * @careersignal/core — shared constants and utilities
- * (Connectors, fingerprint, dedupe moved to miscellaneous/backup with scope pivot.)
+ * @careersignal/core — shared constants and utilities: ATS fingerprinting, job dedupe keys
+ * and the public job-board connectors.
  */
 
 export const APP_NAME = 'CareerSignal';
 export const DEFAULT_TOP_K = 15;
+
+export * from './fingerprint';
+export * from './dedupe';
+export * from './connectors';
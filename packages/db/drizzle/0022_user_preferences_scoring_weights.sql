@@ -0,0 +1,6 @@
+-- Per-user rule-score weights (jsonb, sum to 100; NULL = defaults) and hard-filter dimensions.
+
+ALTER TABLE "user_preferences" ADD COLUMN IF NOT EXISTS "scoring_weights" jsonb;
+--> statement-breakpoint
+ALTER TABLE "user_preferences"
+ADD COLUMN IF NOT EXISTS "hard_filter_dimensions" jsonb DEFAULT '["visa","location","seniority"]'::jsonb;
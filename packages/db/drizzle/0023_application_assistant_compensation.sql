@@ -0,0 +1,3 @@
+-- Structured compensation block (parsed salary, annualized + FX-converted, fit vs preference).
+
+ALTER TABLE "application_assistant_analyses" ADD COLUMN IF NOT EXISTS "compensation" jsonb;
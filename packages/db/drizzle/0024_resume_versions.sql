@@ -0,0 +1,29 @@
+-- Named resume versions per user; analyses record which version they ran against.
+-- The profile resume (profiles.resume_raw_text) stays as is and competes as an implicit version.
+
+CREATE TABLE IF NOT EXISTS "resumes" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL,
+  "name" varchar(128) NOT NULL,
+  "file_ref" varchar(512),
+  "raw_text" text,
+  "skills" jsonb DEFAULT '[]'::jsonb,
+  "experience" jsonb DEFAULT '[]'::jsonb,
+  "education" jsonb DEFAULT '[]'::jsonb,
+  "projects" jsonb DEFAULT '[]'::jsonb,
+  "certifications" jsonb DEFAULT '[]'::jsonb,
+  "is_default" boolean DEFAULT false NOT NULL,
+  "parsed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "resumes" ADD CONSTRAINT "resumes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "resumes_user_name_unique" ON "resumes" USING btree ("user_id", "name");
+--> statement-breakpoint
+ALTER TABLE "application_assistant_analyses" ADD COLUMN IF NOT EXISTS "resume_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "application_assistant_analyses" ADD COLUMN IF NOT EXISTS "resume_selection" jsonb;
+--> statement-breakpoint
+ALTER TABLE "application_assistant_analyses" ADD CONSTRAINT "application_assistant_analyses_resume_id_resumes_id_fk" FOREIGN KEY ("resume_id") REFERENCES "resumes"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,3 @@
+-- Job-tailored resume per analysis: draft with per-bullet originals, approved before rendering.
+
+ALTER TABLE "application_assistant_analyses" ADD COLUMN IF NOT EXISTS "tailored_resume" jsonb;
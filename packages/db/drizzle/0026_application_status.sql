@@ -0,0 +1,34 @@
+-- Application tracking: lifecycle status per analysis plus dated transitions and notes.
+
+DO $$ BEGIN
+  CREATE TYPE "application_status" AS ENUM('saved', 'applied', 'interviewing', 'offer', 'rejected', 'withdrawn');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "application_assistant_analyses" ADD COLUMN IF NOT EXISTS "application_status" "application_status" DEFAULT 'saved' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "application_assistant_analyses" ADD COLUMN IF NOT EXISTS "application_status_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "application_assistant_analyses" ADD COLUMN IF NOT EXISTS "next_action" text;
+--> statement-breakpoint
+ALTER TABLE "application_assistant_analyses" ADD COLUMN IF NOT EXISTS "next_action_at" timestamp;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "application_status_events" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "analysis_id" uuid NOT NULL,
+  "user_id" uuid NOT NULL,
+  "from_status" "application_status",
+  "to_status" "application_status" NOT NULL,
+  "note" text,
+  "occurred_at" timestamp DEFAULT now() NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "application_status_events" ADD CONSTRAINT "application_status_events_analysis_id_application_assistant_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "application_assistant_analyses"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "application_status_events" ADD CONSTRAINT "application_status_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "application_status_events_analysis_idx" ON "application_status_events" USING btree ("analysis_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "application_status_events_user_idx" ON "application_status_events" USING btree ("user_id");
@@ -0,0 +1,9 @@
+-- Job freshness monitor: last re-check and close time per listing; closed flag per analysis.
+
+ALTER TABLE "job_listings" ADD COLUMN IF NOT EXISTS "last_checked_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "job_listings" ADD COLUMN IF NOT EXISTS "closed_at" timestamp;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "job_listings_last_checked_idx" ON "job_listings" USING btree ("last_checked_at");
+--> statement-breakpoint
+ALTER TABLE "application_assistant_analyses" ADD COLUMN IF NOT EXISTS "job_closed_at" timestamp;
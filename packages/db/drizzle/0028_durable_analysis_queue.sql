@@ -0,0 +1,21 @@
+-- Durable analysis queue: leases with heartbeats, retry with backoff and a dead-letter status.
+
+ALTER TYPE "application_analysis_queue_status" ADD VALUE IF NOT EXISTS 'dead';
+--> statement-breakpoint
+ALTER TABLE "application_analysis_queue" ADD COLUMN IF NOT EXISTS "attempts" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "application_analysis_queue" ADD COLUMN IF NOT EXISTS "max_attempts" integer DEFAULT 3 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "application_analysis_queue" ADD COLUMN IF NOT EXISTS "run_after" timestamp DEFAULT now() NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "application_analysis_queue" ADD COLUMN IF NOT EXISTS "leased_by" text;
+--> statement-breakpoint
+ALTER TABLE "application_analysis_queue" ADD COLUMN IF NOT EXISTS "lease_expires_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "application_analysis_queue" ADD COLUMN IF NOT EXISTS "heartbeat_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "application_analysis_queue" ADD COLUMN IF NOT EXISTS "last_error" text;
+--> statement-breakpoint
+ALTER TABLE "application_analysis_queue" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now() NOT NULL;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "application_analysis_queue_status_run_after_idx" ON "application_analysis_queue" USING btree ("status","run_after");
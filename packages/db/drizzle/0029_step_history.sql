@@ -0,0 +1,16 @@
+-- Superseded step outputs per analysis, archived when a single step is re-run.
+
+CREATE TABLE IF NOT EXISTS "application_assistant_step_history" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "analysis_id" uuid NOT NULL,
+  "user_id" uuid NOT NULL,
+  "step" varchar(32) NOT NULL,
+  "output" jsonb NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "application_assistant_step_history" ADD CONSTRAINT "application_assistant_step_history_analysis_id_application_assistant_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "application_assistant_analyses"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "application_assistant_step_history" ADD CONSTRAINT "application_assistant_step_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "application_assistant_step_history_analysis_step_idx" ON "application_assistant_step_history" USING btree ("analysis_id", "step");
@@ -0,0 +1,3 @@
+-- Requirement-to-evidence matrix for match explainability.
+
+ALTER TABLE "application_assistant_analyses" ADD COLUMN IF NOT EXISTS "requirement_evidence" jsonb;
@@ -0,0 +1,14 @@
+-- Admin overrides for the bundled skill taxonomy (canonical names, aliases, parent skills).
+
+CREATE TABLE IF NOT EXISTS "skill_taxonomy_overrides" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "canonical" varchar(128) NOT NULL,
+  "aliases" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "parents" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "updated_by" uuid,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "skill_taxonomy_overrides_canonical_unique" UNIQUE("canonical")
+);
+--> statement-breakpoint
+ALTER TABLE "skill_taxonomy_overrides" ADD CONSTRAINT "skill_taxonomy_overrides_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,38 @@
+-- Contact CRM: per-user interaction log (channel, draft used, outcome, follow-up date).
+
+DO $$ BEGIN
+  CREATE TYPE "contact_interaction_channel" AS ENUM('email', 'linkedin', 'phone', 'other');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+  CREATE TYPE "contact_interaction_outcome" AS ENUM('sent', 'replied', 'no_reply', 'bounced', 'meeting');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "contact_interactions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL,
+  "contact_id" uuid NOT NULL,
+  "analysis_id" uuid,
+  "channel" "contact_interaction_channel" NOT NULL,
+  "outcome" "contact_interaction_outcome" DEFAULT 'sent' NOT NULL,
+  "draft" jsonb,
+  "note" text,
+  "occurred_at" timestamp DEFAULT now() NOT NULL,
+  "follow_up_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contact_interactions" ADD CONSTRAINT "contact_interactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "contact_interactions" ADD CONSTRAINT "contact_interactions_contact_id_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "contacts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "contact_interactions" ADD CONSTRAINT "contact_interactions_analysis_id_application_assistant_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "application_assistant_analyses"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "contact_interactions_user_contact_idx" ON "contact_interactions" USING btree ("user_id","contact_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "contact_interactions_user_follow_up_idx" ON "contact_interactions" USING btree ("user_id","follow_up_at");
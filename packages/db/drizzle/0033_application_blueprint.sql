@@ -0,0 +1,3 @@
+-- Apply-form answer sheet: fields read from the apply URL with proposed answers (never submitted).
+
+ALTER TABLE "application_assistant_analyses" ADD COLUMN IF NOT EXISTS "application_blueprint" jsonb;
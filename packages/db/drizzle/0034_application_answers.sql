@@ -0,0 +1,18 @@
+-- Answer bank: per-user reusable answers to application questions, with per-company overrides.
+
+CREATE TABLE IF NOT EXISTS "application_answers" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL,
+  "question_key" varchar(64) NOT NULL,
+  "question" text NOT NULL,
+  "answer" text NOT NULL,
+  "company_id" uuid,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "application_answers" ADD CONSTRAINT "application_answers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "application_answers" ADD CONSTRAINT "application_answers_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "application_answers_user_question_idx" ON "application_answers" USING btree ("user_id","question_key");
@@ -0,0 +1,10 @@
+-- Answer bank: one answer per user, question and company (NULL company = the general answer).
+
+DELETE FROM "application_answers" a
+USING "application_answers" b
+WHERE a."user_id" = b."user_id"
+  AND a."question_key" = b."question_key"
+  AND a."company_id" IS NOT DISTINCT FROM b."company_id"
+  AND (a."updated_at", a."id") < (b."updated_at", b."id");
+--> statement-breakpoint
+ALTER TABLE "application_answers" ADD CONSTRAINT "application_answers_user_question_company_unique" UNIQUE NULLS NOT DISTINCT("user_id","question_key","company_id");
@@ -1,6 +1,10 @@
-import { eq, and, asc } from 'drizzle-orm';
+import { eq, and, asc, gt, inArray, isNull, lt, lte, or, sql } from 'drizzle-orm';
 import type { Db } from './client';
-import { applicationAnalysisQueue as table, applicationAnalysisQueueStatusEnum } from './schema';
+import {
+  applicationAnalysisQueue as table,
+  applicationAnalysisQueueStatusEnum,
+  users,
+} from './schema';
 
 export type QueueRowStatus = (typeof applicationAnalysisQueueStatusEnum.enumValues)[number];
 
@@ -11,7 +15,24 @@ export interface QueueRow {
   status: QueueRowStatus;
   sequence: number;
   analysisId: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  leasedBy: string | null;
+  leaseExpiresAt: Date | null;
+  heartbeatAt: Date | null;
+  lastError: string | null;
   createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface QueueCounts {
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  dead: number;
+  total: number;
 }
 
 export async function insertQueueRows(db: Db, userId: string, urls: string[]): Promise<QueueRow[]> {
@@ -61,56 +82,238 @@ export async function updateQueueRow(
 export async function resetRunningToPendingForUser(db: Db, userId: string): Promise<void> {
   await db
     .update(table)
-    .set({ status: 'pending', analysisId: null })
+    .set({ status: 'pending', analysisId: null, leasedBy: null, leaseExpiresAt: null })
     .where(and(eq(table.userId, userId), eq(table.status, 'running')));
 }
 
-/** Counts by status for a user. */
-export async function getQueueCountsByUser(
+function priorityUserIds(db: Db) {
+  return db.select({ id: users.id }).from(users).where(eq(users.applicationAnalysisPriority, true));
+}
+
+export interface ClaimQueueRowOptions {
+  /** Stamped on the row as leasedBy; only this worker may heartbeat or settle it. */
+  workerId: string;
+  leaseMs: number;
+  /** Only this user's rows. */
+  userId?: string;
+  /** Only rows of users flagged applicationAnalysisPriority. */
+  priorityUsersOnly?: boolean;
+}
+
+/**
+ * Lease the next claimable row (pending, past runAfter) and mark it running. Rows are picked
+ * by sequence, so with several users each user's 1st URL comes before anyone's 2nd (fair
+ * rotation). FOR UPDATE SKIP LOCKED lets concurrent workers claim without blocking or
+ * double-claiming. Returns null when nothing is claimable.
+ */
+export async function claimNextQueueRow(
   db: Db,
-  userId: string,
-): Promise<{ pending: number; running: number; completed: number; failed: number; total: number }> {
+  options: ClaimQueueRowOptions,
+): Promise<QueueRow | null> {
+  const now = new Date();
+  const conditions = [eq(table.status, 'pending'), lte(table.runAfter, now)];
+  if (options.userId) conditions.push(eq(table.userId, options.userId));
+  if (options.priorityUsersOnly) conditions.push(inArray(table.userId, priorityUserIds(db)));
+  const next = db
+    .select({ id: table.id })
+    .from(table)
+    .where(and(...conditions))
+    .orderBy(asc(table.sequence), asc(table.createdAt))
+    .limit(1)
+    .for('update', { skipLocked: true });
+  const [row] = await db
+    .update(table)
+    .set({
+      status: 'running',
+      attempts: sql`${table.attempts} + 1`,
+      leasedBy: options.workerId,
+      leaseExpiresAt: new Date(now.getTime() + options.leaseMs),
+      heartbeatAt: now,
+      updatedAt: now,
+    })
+    .where(and(inArray(table.id, next), eq(table.status, 'pending')))
+    .returning();
+  return (row as unknown as QueueRow) ?? null;
+}
+
+/**
+ * Earliest runAfter among pending rows in scope (null = nothing pending). Lets an idle worker
+ * wait out retry backoff instead of exiting while retries are still due.
+ */
+export async function getNextQueueRunAfter(
+  db: Db,
+  options: Pick<ClaimQueueRowOptions, 'userId' | 'priorityUsersOnly'>,
+): Promise<Date | null> {
+  const conditions = [eq(table.status, 'pending')];
+  if (options.userId) conditions.push(eq(table.userId, options.userId));
+  if (options.priorityUsersOnly) conditions.push(inArray(table.userId, priorityUserIds(db)));
+  const [row] = await db
+    .select({ runAfter: table.runAfter })
+    .from(table)
+    .where(and(...conditions))
+    .orderBy(asc(table.runAfter))
+    .limit(1);
+  return row?.runAfter ?? null;
+}
+
+/** Extend a lease. Returns false when the worker no longer holds it (reclaimed or settled). */
+export async function heartbeatQueueRow(
+  db: Db,
+  id: string,
+  workerId: string,
+  leaseMs: number,
+): Promise<boolean> {
+  const now = new Date();
+  const rows = await db
+    .update(table)
+    .set({ heartbeatAt: now, leaseExpiresAt: new Date(now.getTime() + leaseMs), updatedAt: now })
+    .where(and(eq(table.id, id), eq(table.status, 'running'), eq(table.leasedBy, workerId)))
+    .returning({ id: table.id });
+  return rows.length > 0;
+}
+
+/** Mark a leased row completed and release the lease. */
+export async function completeQueueRow(
+  db: Db,
+  id: string,
+  workerId: string,
+  analysisId: string,
+): Promise<void> {
+  await db
+    .update(table)
+    .set({
+      status: 'completed',
+      analysisId,
+      lastError: null,
+      leasedBy: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(table.id, id), eq(table.leasedBy, workerId)));
+}
+
+/**
+ * Record a failed attempt: back to pending with runAfter = retryAt, or 'dead' once attempts
+ * reach maxAttempts. Returns the status the row ended up in.
+ */
+export async function failQueueRow(
+  db: Db,
+  row: Pick<QueueRow, 'id' | 'attempts' | 'maxAttempts'>,
+  workerId: string,
+  data: { error: string; analysisId?: string | null; retryAt: Date },
+): Promise<'pending' | 'dead'> {
+  const status = row.attempts >= row.maxAttempts ? 'dead' : 'pending';
+  await db
+    .update(table)
+    .set({
+      status,
+      lastError: data.error.slice(0, 2000),
+      runAfter: data.retryAt,
+      leasedBy: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date(),
+      ...(data.analysisId !== undefined && { analysisId: data.analysisId }),
+    })
+    .where(and(eq(table.id, row.id), eq(table.leasedBy, workerId)));
+  return status;
+}
+
+/** Give a leased row back untouched (hard stop): pending again, the attempt doesn't count. */
+export async function releaseQueueRow(db: Db, id: string, workerId: string): Promise<void> {
+  await db
+    .update(table)
+    .set({
+      status: 'pending',
+      attempts: sql`greatest(${table.attempts} - 1, 0)`,
+      leasedBy: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(table.id, id), eq(table.leasedBy, workerId)));
+}
+
+/**
+ * Reclaim rows left 'running' by a crashed or restarted worker: lease expired (or never set,
+ * for rows from before leasing). They go back to pending, or to 'dead' if out of attempts.
+ * Returns the number of rows reclaimed.
+ */
+export async function reclaimExpiredQueueLeases(db: Db): Promise<number> {
+  const now = new Date();
+  const rows = await db
+    .update(table)
+    .set({
+      status: sql`case when ${table.attempts} >= ${table.maxAttempts} then 'dead' else 'pending' end::application_analysis_queue_status`,
+      lastError: 'Lease expired (worker stopped without finishing)',
+      leasedBy: null,
+      leaseExpiresAt: null,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(table.status, 'running'),
+        or(isNull(table.leaseExpiresAt), lt(table.leaseExpiresAt, now)),
+      ),
+    )
+    .returning({ id: table.id });
+  return rows.length;
+}
+
+/** Put dead-lettered rows back in line with a fresh attempt budget. Returns rows requeued. */
+export async function requeueDeadQueueRows(db: Db, userId: string): Promise<number> {
+  const now = new Date();
+  const rows = await db
+    .update(table)
+    .set({ status: 'pending', attempts: 0, runAfter: now, lastError: null, updatedAt: now })
+    .where(and(eq(table.userId, userId), eq(table.status, 'dead')))
+    .returning({ id: table.id });
+  return rows.length;
+}
+
+function emptyCounts(): QueueCounts {
+  return { pending: 0, running: 0, completed: 0, failed: 0, dead: 0, total: 0 };
+}
+
+function countRow(c: QueueCounts, status: QueueRowStatus): void {
+  c.total += 1;
+  c[status] += 1;
+}
+
+/** Counts by status for a user. */
+export async function getQueueCountsByUser(db: Db, userId: string): Promise<QueueCounts> {
   const rows = await db.select().from(table).where(eq(table.userId, userId));
-  const pending = rows.filter((r) => r.status === 'pending').length;
-  const running = rows.filter((r) => r.status === 'running').length;
-  const completed = rows.filter((r) => r.status === 'completed').length;
-  const failed = rows.filter((r) => r.status === 'failed').length;
-  return { pending, running, completed, failed, total: rows.length };
+  const counts = emptyCounts();
+  for (const r of rows) countRow(counts, r.status);
+  return counts;
 }
 
 /** List users that have at least one queue row, with counts. For admin. */
-export async function getUsersWithQueue(
-  db: Db,
-): Promise<
-  {
-    userId: string;
-    pending: number;
-    running: number;
-    completed: number;
-    failed: number;
-    total: number;
-  }[]
-> {
+export async function getUsersWithQueue(db: Db): Promise<({ userId: string } & QueueCounts)[]> {
   const rows = await db.select().from(table);
-  const byUser = new Map<
-    string,
-    { pending: number; running: number; completed: number; failed: number; total: number }
-  >();
+  const byUser = new Map<string, QueueCounts>();
   for (const r of rows) {
     const uid = r.userId;
-    if (!byUser.has(uid)) {
-      byUser.set(uid, { pending: 0, running: 0, completed: 0, failed: 0, total: 0 });
-    }
-    const c = byUser.get(uid)!;
-    c.total += 1;
-    if (r.status === 'pending') c.pending += 1;
-    else if (r.status === 'running') c.running += 1;
-    else if (r.status === 'completed') c.completed += 1;
-    else c.failed += 1;
+    if (!byUser.has(uid)) byUser.set(uid, emptyCounts());
+    countRow(byUser.get(uid)!, r.status);
   }
   return Array.from(byUser.entries()).map(([userId, counts]) => ({ userId, ...counts }));
 }
 
+/** Whether any of the user's rows is leased by a live worker (in this or another process). */
+export async function hasActiveQueueLeaseForUser(db: Db, userId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: table.id })
+    .from(table)
+    .where(
+      and(
+        eq(table.userId, userId),
+        eq(table.status, 'running'),
+        gt(table.leaseExpiresAt, new Date()),
+      ),
+    )
+    .limit(1);
+  return row != null;
+}
+
 /** Current running index (1-based) and total for progress display. */
 export async function getQueueProgressForUser(
   db: Db,
@@ -124,9 +327,10 @@ export async function getQueueProgressForUser(
   if (rows.length === 0) return null;
   const total = rows.length;
   const runningIdx = rows.findIndex((r) => r.status === 'running');
-  const completedCount = rows.filter((r) => r.status === 'completed').length;
-  const failedCount = rows.filter((r) => r.status === 'failed').length;
-  const current = runningIdx >= 0 ? completedCount + failedCount + 1 : completedCount + failedCount;
+  const doneCount = rows.filter(
+    (r) => r.status === 'completed' || r.status === 'failed' || r.status === 'dead',
+  ).length;
+  const current = runningIdx >= 0 ? doneCount + 1 : doneCount;
   const runningRowId = runningIdx >= 0 ? rows[runningIdx]?.id ?? null : null;
   return { current, total, runningRowId };
 }
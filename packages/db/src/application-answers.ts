@@ -0,0 +1,85 @@
+import { and, asc, eq } from 'drizzle-orm';
+import type { Db } from './client';
+import { applicationAnswers as table } from './schema';
+
+export interface ApplicationAnswerRow {
+  id: string;
+  userId: string;
+  questionKey: string;
+  question: string;
+  answer: string;
+  companyId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export async function listApplicationAnswers(
+  db: Db,
+  userId: string,
+): Promise<ApplicationAnswerRow[]> {
+  const rows = await db
+    .select()
+    .from(table)
+    .where(eq(table.userId, userId))
+    .orderBy(asc(table.questionKey), asc(table.createdAt));
+  return rows as unknown as ApplicationAnswerRow[];
+}
+
+/**
+ * Save the user's answer for a question key: replaces the general answer (companyId null) or
+ * the override for that company. One statement against the (user, question, company) unique
+ * constraint, so concurrent saves cannot add duplicate rows.
+ */
+export async function upsertApplicationAnswer(
+  db: Db,
+  data: {
+    userId: string;
+    questionKey: string;
+    question: string;
+    answer: string;
+    companyId?: string | null;
+  },
+): Promise<ApplicationAnswerRow> {
+  const [row] = await db
+    .insert(table)
+    .values({
+      userId: data.userId,
+      questionKey: data.questionKey,
+      question: data.question,
+      answer: data.answer,
+      companyId: data.companyId ?? null,
+    })
+    .onConflictDoUpdate({
+      target: [table.userId, table.questionKey, table.companyId],
+      set: { question: data.question, answer: data.answer, updatedAt: new Date() },
+    })
+    .returning();
+  return row as unknown as ApplicationAnswerRow;
+}
+
+/** Edit the text of one of the user's answers. Null if not found. */
+export async function updateApplicationAnswer(
+  db: Db,
+  id: string,
+  userId: string,
+  data: { answer: string },
+): Promise<ApplicationAnswerRow | null> {
+  const [row] = await db
+    .update(table)
+    .set({ answer: data.answer, updatedAt: new Date() })
+    .where(and(eq(table.id, id), eq(table.userId, userId)))
+    .returning();
+  return (row as unknown as ApplicationAnswerRow | undefined) ?? null;
+}
+
+export async function deleteApplicationAnswer(
+  db: Db,
+  id: string,
+  userId: string,
+): Promise<boolean> {
+  const rows = await db
+    .delete(table)
+    .where(and(eq(table.id, id), eq(table.userId, userId)))
+    .returning({ id: table.id });
+  return rows.length > 0;
+}
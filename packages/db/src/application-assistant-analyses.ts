@@ -1,6 +1,7 @@
-import { eq, desc, and, gt, lt, or, isNull } from 'drizzle-orm';
+import { eq, desc, and, gt, lt, or, isNull, inArray, sql } from 'drizzle-orm';
 import type { Db } from './client';
 import { applicationAssistantAnalyses as table } from './schema';
+import type { ApplicationStatus } from './application-status-events';
 
 const STALE_RUN_MS = 5 * 60 * 1000;
 
@@ -20,6 +21,7 @@ export interface AnalysisRow {
   matchBreakdown: Record<string, unknown> | null;
   strictFilterRejects: StrictFilterRejectRow[] | null;
   matchEvidence: Record<string, unknown> | null;
+  requirementEvidence: Record<string, unknown>[] | null;
   resumeEvidence: Record<string, unknown> | null;
   coverLettersEvidence: Record<string, unknown> | null;
   contactsEvidence: Record<string, unknown> | null;
@@ -28,7 +30,9 @@ export interface AnalysisRow {
   contacts: Record<string, unknown> | null;
   keywordsToAdd: string[] | null;
   salaryLevelCheck: string | null;
+  compensation: Record<string, unknown> | null;
   applicationChecklist: Record<string, unknown>[] | null;
+  applicationBlueprint: Record<string, unknown> | null;
   interviewPrepBullets: string[] | null;
   companyResearch: string | null;
   companySnapshot: Record<string, unknown> | null;
@@ -39,6 +43,14 @@ export interface AnalysisRow {
   waitingForCaptcha: boolean | null;
   runUpdatedAt: Date | null;
   runSource: string | null;
+  resumeId: string | null;
+  resumeSelection: Record<string, unknown> | null;
+  tailoredResume: Record<string, unknown> | null;
+  applicationStatus: ApplicationStatus;
+  applicationStatusAt: Date | null;
+  nextAction: string | null;
+  nextActionAt: Date | null;
+  jobClosedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -54,6 +66,7 @@ export interface InsertAnalysisData {
   matchBreakdown?: Record<string, unknown> | null;
   strictFilterRejects?: StrictFilterRejectRow[] | null;
   matchEvidence?: Record<string, unknown> | null;
+  requirementEvidence?: Record<string, unknown>[] | null;
   resumeEvidence?: Record<string, unknown> | null;
   coverLettersEvidence?: Record<string, unknown> | null;
   contactsEvidence?: Record<string, unknown> | null;
@@ -62,7 +75,9 @@ export interface InsertAnalysisData {
   contacts?: Record<string, unknown> | null;
   keywordsToAdd?: string[] | null;
   salaryLevelCheck?: string | null;
+  compensation?: Record<string, unknown> | null;
   applicationChecklist?: Record<string, unknown>[] | null;
+  applicationBlueprint?: Record<string, unknown> | null;
   interviewPrepBullets?: string[] | null;
   companyResearch?: string | null;
   companySnapshot?: Record<string, unknown> | null;
@@ -71,6 +86,9 @@ export interface InsertAnalysisData {
   currentStep?: string | null;
   waitingForLogin?: boolean | null;
   waitingForCaptcha?: boolean | null;
+  resumeId?: string | null;
+  resumeSelection?: Record<string, unknown> | null;
+  tailoredResume?: Record<string, unknown> | null;
 }
 
 export type RunStatus = 'running' | 'done' | 'error';
@@ -88,6 +106,7 @@ export async function insertAnalysis(db: Db, data: InsertAnalysisData): Promise<
       matchBreakdown: data.matchBreakdown ?? null,
       strictFilterRejects: data.strictFilterRejects ?? null,
       matchEvidence: data.matchEvidence ?? null,
+      requirementEvidence: data.requirementEvidence ?? null,
       resumeEvidence: data.resumeEvidence ?? null,
       coverLettersEvidence: data.coverLettersEvidence ?? null,
       contactsEvidence: data.contactsEvidence ?? null,
@@ -96,7 +115,9 @@ export async function insertAnalysis(db: Db, data: InsertAnalysisData): Promise<
       contacts: data.contacts ?? null,
       keywordsToAdd: data.keywordsToAdd ?? null,
       salaryLevelCheck: data.salaryLevelCheck ?? null,
+      compensation: data.compensation ?? null,
       applicationChecklist: data.applicationChecklist ?? null,
+      applicationBlueprint: data.applicationBlueprint ?? null,
       interviewPrepBullets: data.interviewPrepBullets ?? null,
       companyResearch: data.companyResearch ?? null,
       companySnapshot: data.companySnapshot ?? null,
@@ -107,6 +128,9 @@ export async function insertAnalysis(db: Db, data: InsertAnalysisData): Promise<
       waitingForCaptcha: data.waitingForCaptcha ?? false,
       runUpdatedAt: new Date(),
       runSource: data.runSource ?? 'single',
+      resumeId: data.resumeId ?? null,
+      resumeSelection: data.resumeSelection ?? null,
+      tailoredResume: data.tailoredResume ?? null,
     })
     .returning();
   return row as unknown as AnalysisRow;
@@ -128,6 +152,7 @@ export async function updateAnalysis(
   if (data.matchBreakdown !== undefined) set.matchBreakdown = data.matchBreakdown;
   if (data.strictFilterRejects !== undefined) set.strictFilterRejects = data.strictFilterRejects;
   if (data.matchEvidence !== undefined) set.matchEvidence = data.matchEvidence;
+  if (data.requirementEvidence !== undefined) set.requirementEvidence = data.requirementEvidence;
   if (data.resumeEvidence !== undefined) set.resumeEvidence = data.resumeEvidence;
   if (data.coverLettersEvidence !== undefined) set.coverLettersEvidence = data.coverLettersEvidence;
   if (data.contactsEvidence !== undefined) set.contactsEvidence = data.contactsEvidence;
@@ -136,7 +161,9 @@ export async function updateAnalysis(
   if (data.contacts !== undefined) set.contacts = data.contacts;
   if (data.keywordsToAdd !== undefined) set.keywordsToAdd = data.keywordsToAdd;
   if (data.salaryLevelCheck !== undefined) set.salaryLevelCheck = data.salaryLevelCheck;
+  if (data.compensation !== undefined) set.compensation = data.compensation;
   if (data.applicationChecklist !== undefined) set.applicationChecklist = data.applicationChecklist;
+  if (data.applicationBlueprint !== undefined) set.applicationBlueprint = data.applicationBlueprint;
   if (data.interviewPrepBullets !== undefined) set.interviewPrepBullets = data.interviewPrepBullets;
   if (data.companyResearch !== undefined) set.companyResearch = data.companyResearch;
   if (data.companySnapshot !== undefined) set.companySnapshot = data.companySnapshot;
@@ -144,6 +171,9 @@ export async function updateAnalysis(
   if (data.currentStep !== undefined) set.currentStep = data.currentStep;
   if (data.waitingForLogin !== undefined) set.waitingForLogin = data.waitingForLogin;
   if (data.waitingForCaptcha !== undefined) set.waitingForCaptcha = data.waitingForCaptcha;
+  if (data.resumeId !== undefined) set.resumeId = data.resumeId;
+  if (data.resumeSelection !== undefined) set.resumeSelection = data.resumeSelection;
+  if (data.tailoredResume !== undefined) set.tailoredResume = data.tailoredResume;
   if (
     data.runStatus !== undefined ||
     data.currentStep !== undefined ||
@@ -194,11 +224,17 @@ export async function deleteAllAnalysesForUser(
   }));
 }
 
-/** Get the current running analysis for a user (not stale). Stale = run_updated_at older than 5 min. */
+/** Get the newest running analysis for a user (not stale). Stale = run_updated_at older than 5 min. */
 export async function getRunningAnalysisForUser(
   db: Db,
   userId: string,
 ): Promise<AnalysisRow | null> {
+  const rows = await listRunningAnalysesForUser(db, userId);
+  return rows[0] ?? null;
+}
+
+/** All non-stale running analyses for a user, newest first (a user may run several at once). */
+export async function listRunningAnalysesForUser(db: Db, userId: string): Promise<AnalysisRow[]> {
   const rows = await db
     .select()
     .from(table)
@@ -209,9 +245,8 @@ export async function getRunningAnalysisForUser(
         gt(table.runUpdatedAt, new Date(Date.now() - STALE_RUN_MS)),
       ),
     )
-    .limit(1);
-  const row = rows[0] as unknown as AnalysisRow | undefined;
-  return row ?? null;
+    .orderBy(desc(table.createdAt));
+  return rows as unknown as AnalysisRow[];
 }
 
 /** Mark stale running analyses (run_updated_at too old or null) as error. Returns count updated. */
@@ -249,3 +284,25 @@ export async function updateAnalysisRunState(
   if (data.waitingForCaptcha !== undefined) set.waitingForCaptcha = data.waitingForCaptcha;
   await db.update(table).set(set).where(eq(table.id, analysisId));
 }
+
+/**
+ * Flag analyses of a posting that has closed. Matches analysis URLs against the listing's
+ * job/apply URLs (case- and trailing-slash-insensitive); already-flagged rows are left alone.
+ * Returns the number of analyses flagged.
+ */
+export async function flagAnalysesForClosedJob(
+  db: Db,
+  urls: string[],
+  closedAt: Date = new Date(),
+): Promise<number> {
+  const keys = [...new Set(urls.map((u) => u.trim().replace(/\/+$/, '').toLowerCase()))].filter(
+    Boolean,
+  );
+  if (keys.length === 0) return 0;
+  const rows = await db
+    .update(table)
+    .set({ jobClosedAt: closedAt, updatedAt: closedAt })
+    .where(and(isNull(table.jobClosedAt), inArray(sql`lower(rtrim(${table.url}, '/'))`, keys)))
+    .returning({ id: table.id });
+  return rows.length;
+}
@@ -0,0 +1,42 @@
+import { and, desc, eq } from 'drizzle-orm';
+import type { Db } from './client';
+import { applicationAssistantStepHistory as table } from './schema';
+
+export interface StepHistoryRow {
+  id: string;
+  analysisId: string;
+  userId: string;
+  step: string;
+  output: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/** Archive a step's previous output before it is overwritten by a re-run. */
+export async function insertStepHistory(
+  db: Db,
+  data: { analysisId: string; userId: string; step: string; output: Record<string, unknown> },
+): Promise<StepHistoryRow> {
+  const [row] = await db.insert(table).values(data).returning();
+  return row as unknown as StepHistoryRow;
+}
+
+/** Archived outputs for an analysis (optionally one step), newest first. */
+export async function listStepHistory(
+  db: Db,
+  analysisId: string,
+  userId: string,
+  step?: string,
+): Promise<StepHistoryRow[]> {
+  const rows = await db
+    .select()
+    .from(table)
+    .where(
+      and(
+        eq(table.analysisId, analysisId),
+        eq(table.userId, userId),
+        step ? eq(table.step, step) : undefined,
+      ),
+    )
+    .orderBy(desc(table.createdAt));
+  return rows as unknown as StepHistoryRow[];
+}
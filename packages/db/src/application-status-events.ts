@@ -0,0 +1,104 @@
+import { and, asc, eq } from 'drizzle-orm';
+import type { Db } from './client';
+import {
+  applicationAssistantAnalyses as analyses,
+  applicationStatusEnum,
+  applicationStatusEvents as table,
+} from './schema';
+
+export type ApplicationStatus = (typeof applicationStatusEnum.enumValues)[number];
+export const APPLICATION_STATUSES = applicationStatusEnum.enumValues;
+
+export interface ApplicationStatusEventRow {
+  id: string;
+  analysisId: string;
+  userId: string;
+  fromStatus: ApplicationStatus | null;
+  toStatus: ApplicationStatus;
+  note: string | null;
+  occurredAt: Date;
+  createdAt: Date;
+}
+
+export interface RecordApplicationStatusData {
+  analysisId: string;
+  userId: string;
+  /** New status; omit to only add a note or change the next action. */
+  status?: ApplicationStatus;
+  note?: string | null;
+  occurredAt?: Date;
+  /** null clears the next action. */
+  nextAction?: string | null;
+  nextActionAt?: Date | null;
+}
+
+/**
+ * Move an analysis to a status and/or attach a note, logging a dated event, and update the next
+ * action. Returns null when the analysis does not exist or is not owned by userId.
+ */
+export async function recordApplicationStatus(
+  db: Db,
+  data: RecordApplicationStatusData,
+): Promise<{ status: ApplicationStatus; event: ApplicationStatusEventRow | null } | null> {
+  const [current] = await db
+    .select({ status: analyses.applicationStatus })
+    .from(analyses)
+    .where(and(eq(analyses.id, data.analysisId), eq(analyses.userId, data.userId)))
+    .limit(1);
+  if (!current) return null;
+
+  const fromStatus = current.status as ApplicationStatus;
+  const toStatus = data.status ?? fromStatus;
+  const note = data.note?.trim() || null;
+  const occurredAt = data.occurredAt ?? new Date();
+
+  const set: Record<string, unknown> = { updatedAt: new Date() };
+  if (toStatus !== fromStatus) {
+    set.applicationStatus = toStatus;
+    set.applicationStatusAt = occurredAt;
+  }
+  if (data.nextAction !== undefined) set.nextAction = data.nextAction?.trim() || null;
+  if (data.nextActionAt !== undefined) set.nextActionAt = data.nextActionAt;
+  await db.update(analyses).set(set).where(eq(analyses.id, data.analysisId));
+
+  if (toStatus === fromStatus && !note) return { status: toStatus, event: null };
+  const [event] = await db
+    .insert(table)
+    .values({
+      analysisId: data.analysisId,
+      userId: data.userId,
+      fromStatus,
+      toStatus,
+      note,
+      occurredAt,
+    })
+    .returning();
+  return { status: toStatus, event: event as unknown as ApplicationStatusEventRow };
+}
+
+/** Events for one analysis, oldest first. */
+export async function listApplicationStatusEvents(
+  db: Db,
+  analysisId: string,
+  userId: string,
+): Promise<ApplicationStatusEventRow[]> {
+  const rows = await db
+    .select()
+    .from(table)
+    .where(and(eq(table.analysisId, analysisId), eq(table.userId, userId)))
+    .orderBy(asc(table.occurredAt));
+  return rows as unknown as ApplicationStatusEventRow[];
+}
+
+/** All events for a user (for funnel stats), oldest first. */
+export async function listApplicationStatusEventsByUser(
+  db: Db,
+  userId: string,
+): Promise<ApplicationStatusEventRow[]> {
+  const rows = await db
+    .select()
+    .from(table)
+    .where(eq(table.userId, userId))
+    .orderBy(asc(table.occurredAt));
+  return rows as unknown as ApplicationStatusEventRow[];
+}
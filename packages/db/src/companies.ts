@@ -1,7 +1,9 @@
-import { and, eq, ilike, inArray, or, sql } from 'drizzle-orm';
+import { and, count, eq, ilike, inArray, or, sql } from 'drizzle-orm';
 import type { Db } from './client';
 import {
   companies,
+  jobListings,
+  atsTypeEnum,
   enrichmentStatusEnum,
   type CompanyRow,
   type EnrichmentStatus,
@@ -239,6 +241,38 @@ export async function updateCompanyEnrichmentStatus(
     .where(eq(companies.id, companyId));
 }
 
+/** Record the ATS detected from a company's careers URL. */
+export async function updateCompanyAtsType(
+  db: Db,
+  companyId: string,
+  atsType: (typeof atsTypeEnum.enumValues)[number],
+): Promise<void> {
+  await db
+    .update(companies)
+    .set({ atsType, updatedAt: new Date() })
+    .where(eq(companies.id, companyId));
+}
+
+/** Recompute job_count_total / job_count_open from job_listings after an ingest. */
+export async function refreshCompanyJobCounts(db: Db, companyId: string): Promise<void> {
+  const [totalRow] = await db
+    .select({ count: count() })
+    .from(jobListings)
+    .where(eq(jobListings.companyId, companyId));
+  const [openRow] = await db
+    .select({ count: count() })
+    .from(jobListings)
+    .where(and(eq(jobListings.companyId, companyId), eq(jobListings.status, 'OPEN')));
+  await db
+    .update(companies)
+    .set({
+      jobCountTotal: Number(totalRow?.count ?? 0),
+      jobCountOpen: Number(openRow?.count ?? 0),
+      updatedAt: new Date(),
+    })
+    .where(eq(companies.id, companyId));
+}
+
 /** Unresearched = PENDING, ERROR, or RUNNING. Used for "Continue deep research" in admin. */
 const UNRESEARCHED_STATUSES: EnrichmentStatus[] = ['PENDING', 'ERROR', 'RUNNING'];
 
@@ -0,0 +1,114 @@
+import { and, desc, eq, gte, inArray } from 'drizzle-orm';
+import type { Db } from './client';
+import {
+  contactInteractionChannelEnum,
+  contactInteractionOutcomeEnum,
+  contactInteractions as table,
+} from './schema';
+
+export type ContactInteractionChannel = (typeof contactInteractionChannelEnum.enumValues)[number];
+export type ContactInteractionOutcome = (typeof contactInteractionOutcomeEnum.enumValues)[number];
+export const CONTACT_INTERACTION_CHANNELS = contactInteractionChannelEnum.enumValues;
+export const CONTACT_INTERACTION_OUTCOMES = contactInteractionOutcomeEnum.enumValues;
+
+export interface ContactInteractionRow {
+  id: string;
+  userId: string;
+  contactId: string;
+  analysisId: string | null;
+  channel: ContactInteractionChannel;
+  outcome: ContactInteractionOutcome;
+  draft: Record<string, unknown> | null;
+  note: string | null;
+  occurredAt: Date;
+  followUpAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsertContactInteractionInput {
+  userId: string;
+  contactId: string;
+  analysisId?: string | null;
+  channel: ContactInteractionChannel;
+  outcome?: ContactInteractionOutcome;
+  draft?: Record<string, unknown> | null;
+  note?: string | null;
+  occurredAt?: Date;
+  followUpAt?: Date | null;
+}
+
+export async function insertContactInteraction(
+  db: Db,
+  input: InsertContactInteractionInput,
+): Promise<ContactInteractionRow> {
+  const [row] = await db
+    .insert(table)
+    .values({
+      userId: input.userId,
+      contactId: input.contactId,
+      analysisId: input.analysisId ?? null,
+      channel: input.channel,
+      outcome: input.outcome ?? 'sent',
+      draft: input.draft ?? null,
+      note: input.note ?? null,
+      occurredAt: input.occurredAt ?? new Date(),
+      followUpAt: input.followUpAt ?? null,
+    })
+    .returning();
+  return row as unknown as ContactInteractionRow;
+}
+
+/** Update outcome, follow-up date or note of the user's interaction. Null if not found. */
+export async function updateContactInteraction(
+  db: Db,
+  id: string,
+  userId: string,
+  data: {
+    outcome?: ContactInteractionOutcome;
+    followUpAt?: Date | null;
+    note?: string | null;
+  },
+): Promise<ContactInteractionRow | null> {
+  const [row] = await db
+    .update(table)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(eq(table.id, id), eq(table.userId, userId)))
+    .returning();
+  return (row as unknown as ContactInteractionRow | undefined) ?? null;
+}
+
+/** All of the user's interactions (optionally for some contacts only), newest first. */
+export async function listContactInteractions(
+  db: Db,
+  userId: string,
+  contactIds?: string[],
+): Promise<ContactInteractionRow[]> {
+  if (contactIds && contactIds.length === 0) return [];
+  const rows = await db
+    .select()
+    .from(table)
+    .where(
+      and(eq(table.userId, userId), contactIds ? inArray(table.contactId, contactIds) : undefined),
+    )
+    .orderBy(desc(table.occurredAt));
+  return rows as unknown as ContactInteractionRow[];
+}
+
+/** The user's latest interaction with the contact since `since`, or null. */
+export async function getRecentContactInteraction(
+  db: Db,
+  userId: string,
+  contactId: string,
+  since: Date,
+): Promise<ContactInteractionRow | null> {
+  const [row] = await db
+    .select()
+    .from(table)
+    .where(
+      and(eq(table.userId, userId), eq(table.contactId, contactId), gte(table.occurredAt, since)),
+    )
+    .orderBy(desc(table.occurredAt))
+    .limit(1);
+  return (row as unknown as ContactInteractionRow | undefined) ?? null;
+}
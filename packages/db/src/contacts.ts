@@ -1,4 +1,4 @@
-import { eq, and } from 'drizzle-orm';
+import { eq, and, inArray, or, sql } from 'drizzle-orm';
 import type { Db } from './client';
 import { contacts as contactsTable } from './schema';
 
@@ -64,6 +64,29 @@ export async function insertContact(db: Db, input: InsertContactInput): Promise<
   return row as unknown as ContactRow;
 }
 
+/**
+ * Existing contact at the company with the same email, LinkedIn URL or (case-insensitive) name,
+ * else a new one. Keeps one row per person so interactions and reuse add up across jobs.
+ */
+export async function findOrInsertContact(db: Db, input: InsertContactInput): Promise<ContactRow> {
+  const matches = [sql`lower(${contactsTable.name}) = ${input.name.trim().toLowerCase()}`];
+  if (input.email) matches.push(eq(contactsTable.email, input.email));
+  if (input.linkedinUrl) matches.push(eq(contactsTable.linkedinUrl, input.linkedinUrl));
+  const [existing] = await db
+    .select()
+    .from(contactsTable)
+    .where(and(eq(contactsTable.companyId, input.companyId), or(...matches)))
+    .limit(1);
+  if (existing) return existing as unknown as ContactRow;
+  return insertContact(db, { ...input, name: input.name.trim() });
+}
+
+export async function getContactsByIds(db: Db, ids: string[]): Promise<ContactRow[]> {
+  if (ids.length === 0) return [];
+  const rows = await db.select().from(contactsTable).where(inArray(contactsTable.id, ids));
+  return rows as unknown as ContactRow[];
+}
+
 export async function listContactsByCompanyId(
   db: Db,
   companyId: string,
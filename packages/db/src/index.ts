@@ -2,6 +2,7 @@ export { getDb, type Db } from './client';
 export * from './schema';
 export * from './runs';
 export * from './profiles';
+export * from './resumes';
 export * from './sources';
 export * from './companies';
 export * from './seed';
@@ -12,7 +13,13 @@ export * from './user-metadata';
 export * from './application-assistant-analyses';
 export * from './application-assistant-analysis-logs';
 export * from './application-assistant-feedback';
+export * from './application-status-events';
+export * from './application-assistant-step-history';
 export * from './contacts';
+export * from './contact-interactions';
 export * from './job-listings';
+export * from './job-observations';
 export * from './deep-company-research-runs';
 export * from './application-analysis-queue';
+export * from './skill-taxonomy-overrides';
+export * from './application-answers';
@@ -1,4 +1,4 @@
-import { and, desc, eq } from 'drizzle-orm';
+import { and, asc, desc, eq, isNull, lt, or, sql } from 'drizzle-orm';
 import type { Db } from './client';
 import { jobListings, companies } from './schema';
 
@@ -135,6 +135,7 @@ export async function upsertJobListingByDedupeKey(
         ...(input.descriptionHtml !== undefined && { descriptionHtml: input.descriptionHtml }),
         ...(input.postedAt !== undefined && { postedAt: input.postedAt }),
         ...(input.status !== undefined && { status: input.status }),
+        ...(input.status === 'OPEN' && { closedAt: null }),
         ...(input.rawExtract !== undefined && { rawExtract: input.rawExtract }),
         ...(input.evidencePaths !== undefined && { evidencePaths: input.evidencePaths }),
         ...(input.companyId !== undefined && { companyId: input.companyId }),
@@ -226,3 +227,60 @@ export async function listJobListingsWithCompany(
         .limit(limit));
   return rows as unknown as JobListingWithCompanyRow[];
 }
+
+export interface JobListingDueForCheck {
+  id: string;
+  title: string;
+  jobUrl: string | null;
+  applyUrl: string | null;
+  lastCheckedAt: Date | null;
+}
+
+/**
+ * OPEN listings whose posting URL hasn't been re-checked since `checkedBefore`, never-checked
+ * first. Listings without a URL are skipped (nothing to re-fetch).
+ */
+export async function listJobListingsDueForCheck(
+  db: Db,
+  options: { checkedBefore: Date; limit?: number },
+): Promise<JobListingDueForCheck[]> {
+  return db
+    .select({
+      id: jobListings.id,
+      title: jobListings.title,
+      jobUrl: jobListings.jobUrl,
+      applyUrl: jobListings.applyUrl,
+      lastCheckedAt: jobListings.lastCheckedAt,
+    })
+    .from(jobListings)
+    .where(
+      and(
+        eq(jobListings.status, 'OPEN'),
+        or(isNull(jobListings.lastCheckedAt), lt(jobListings.lastCheckedAt, options.checkedBefore)),
+        sql`coalesce(${jobListings.applyUrl}, ${jobListings.jobUrl}) is not null`,
+      ),
+    )
+    .orderBy(sql`${jobListings.lastCheckedAt} asc nulls first`, asc(jobListings.firstSeenAt))
+    .limit(options.limit ?? 50);
+}
+
+/**
+ * Record a freshness check. 'open' refreshes lastSeenAt, 'closed' marks the listing CLOSED,
+ * 'unknown' (timeouts, 5xx, login walls) only stamps lastCheckedAt so it is retried next cycle.
+ */
+export async function recordJobListingCheck(
+  db: Db,
+  id: string,
+  verdict: 'open' | 'closed' | 'unknown',
+  now: Date = new Date(),
+): Promise<void> {
+  await db
+    .update(jobListings)
+    .set({
+      lastCheckedAt: now,
+      updatedAt: now,
+      ...(verdict === 'open' && { lastSeenAt: now }),
+      ...(verdict === 'closed' && { status: 'CLOSED' as const, closedAt: now }),
+    })
+    .where(eq(jobListings.id, id));
+}
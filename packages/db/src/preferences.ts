@@ -8,6 +8,12 @@ export type { TargetLocationRow };
 const STRICT_LEVELS = ['STRICT', 'SEMI_STRICT', 'OFF'] as const;
 const MAX_CONTACTS_VALUES = [1, 2, 3, 5] as const;
 
+/**
+ * Weight dimensions added after users could save weights. Sets saved before one existed get it
+ * at 0, which keeps their sum at 100 and their other weights as the user chose them.
+ */
+const ADDED_WEIGHT_DIMENSIONS = ['compensation'] as const;
+
 export type StrictFilterLevel = (typeof STRICT_LEVELS)[number];
 export type MaxContactsPerJob = (typeof MAX_CONTACTS_VALUES)[number];
 
@@ -29,6 +35,8 @@ export interface UserPreferencesRow {
   salaryMax: string | null;
   salaryCurrency: string | null;
   strictFilterLevel: StrictFilterLevel;
+  scoringWeights: Record<string, number> | null;
+  hardFilterDimensions: string[];
   maxContactsPerJob: number;
   emailUpdatesEnabled: boolean;
   emailMinMatchScore: string | null;
@@ -64,6 +72,8 @@ export interface UpsertPreferencesInput {
   salaryMax?: number | null;
   salaryCurrency?: string | null;
   strictFilterLevel?: StrictFilterLevel;
+  scoringWeights?: Record<string, number> | null;
+  hardFilterDimensions?: string[];
   maxContactsPerJob?: MaxContactsPerJob;
   emailUpdatesEnabled?: boolean;
   emailMinMatchScore?: number | null;
@@ -107,7 +117,19 @@ export async function getPreferencesByUserId(
     .from(userPreferencesTable)
     .where(eq(userPreferencesTable.userId, userId))
     .limit(1);
-  return (row as UserPreferencesRow) ?? null;
+  if (!row) return null;
+  return {
+    ...row,
+    scoringWeights: withAddedWeightDimensions(row.scoringWeights),
+  } as UserPreferencesRow;
+}
+
+function withAddedWeightDimensions(
+  weights: Record<string, number> | null,
+): Record<string, number> | null {
+  if (!weights) return null;
+  const added = ADDED_WEIGHT_DIMENSIONS.filter((d) => !(d in weights));
+  return added.length ? { ...weights, ...Object.fromEntries(added.map((d) => [d, 0])) } : weights;
 }
 
 export async function upsertPreferences(
@@ -133,6 +155,13 @@ export async function upsertPreferences(
 
   const emailMinMatch = data.emailMinMatchScore ?? 60;
 
+  const scoringWeights = data.scoringWeights ?? null;
+  if (scoringWeights) {
+    const total = Object.values(scoringWeights).reduce((sum, w) => sum + w, 0);
+    if (total !== 100) throw new Error('scoringWeights must sum to 100');
+  }
+  const hardFilterDimensions = data.hardFilterDimensions ?? ['visa', 'location', 'seniority'];
+
   const [row] = await db
     .insert(userPreferencesTable)
     .values({
@@ -152,6 +181,8 @@ export async function upsertPreferences(
       salaryMax: data.salaryMax != null ? String(data.salaryMax) : null,
       salaryCurrency: data.salaryCurrency ?? null,
       strictFilterLevel: (data.strictFilterLevel ?? 'STRICT') as 'STRICT' | 'SEMI_STRICT' | 'OFF',
+      scoringWeights,
+      hardFilterDimensions,
       maxContactsPerJob: maxContacts,
       emailUpdatesEnabled: data.emailUpdatesEnabled ?? false,
       emailMinMatchScore: emailMinMatch != null ? String(emailMinMatch) : null,
@@ -187,6 +218,8 @@ export async function upsertPreferences(
         salaryMax: data.salaryMax != null ? String(data.salaryMax) : null,
         salaryCurrency: data.salaryCurrency ?? null,
         strictFilterLevel: (data.strictFilterLevel ?? 'STRICT') as 'STRICT' | 'SEMI_STRICT' | 'OFF',
+        scoringWeights,
+        hardFilterDimensions,
         maxContactsPerJob: maxContacts,
         emailUpdatesEnabled: data.emailUpdatesEnabled ?? false,
         emailMinMatchScore: emailMinMatch != null ? String(emailMinMatch) : null,
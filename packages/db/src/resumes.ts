@@ -0,0 +1,159 @@
+import { and, asc, desc, eq, ne } from 'drizzle-orm';
+import type { Db } from './client';
+import { resumes as table } from './schema';
+
+export interface ResumeRow {
+  id: string;
+  userId: string;
+  name: string;
+  fileRef: string | null;
+  rawText: string | null;
+  skills: string[] | null;
+  experience: unknown[] | null;
+  education: unknown[] | null;
+  projects: unknown[] | null;
+  certifications: string[] | null;
+  isDefault: boolean;
+  parsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsertResumeData {
+  userId: string;
+  name: string;
+  fileRef?: string | null;
+  rawText?: string | null;
+  skills?: string[];
+  experience?: unknown[];
+  education?: unknown[];
+  projects?: unknown[];
+  certifications?: string[];
+  isDefault?: boolean;
+  parsedAt?: Date | null;
+}
+
+export type UpdateResumeData = Partial<Omit<InsertResumeData, 'userId' | 'isDefault'>>;
+
+/** All versions for a user: default first, then newest. */
+export async function listResumesByUser(db: Db, userId: string): Promise<ResumeRow[]> {
+  const rows = await db
+    .select()
+    .from(table)
+    .where(eq(table.userId, userId))
+    .orderBy(desc(table.isDefault), desc(table.createdAt));
+  return rows as unknown as ResumeRow[];
+}
+
+/** One version by id, only if owned by userId. */
+export async function getResumeById(db: Db, id: string, userId: string): Promise<ResumeRow | null> {
+  const [row] = await db
+    .select()
+    .from(table)
+    .where(and(eq(table.id, id), eq(table.userId, userId)))
+    .limit(1);
+  return (row as unknown as ResumeRow) ?? null;
+}
+
+/** Insert a version. The user's first version becomes the default. */
+export async function insertResume(db: Db, data: InsertResumeData): Promise<ResumeRow> {
+  const [existing] = await db
+    .select({ id: table.id })
+    .from(table)
+    .where(eq(table.userId, data.userId))
+    .limit(1);
+  const isDefault = data.isDefault ?? !existing;
+  const [row] = await db
+    .insert(table)
+    .values({
+      userId: data.userId,
+      name: data.name,
+      fileRef: data.fileRef ?? null,
+      rawText: data.rawText ?? null,
+      skills: data.skills ?? [],
+      experience: data.experience ?? [],
+      education: data.education ?? [],
+      projects: data.projects ?? [],
+      certifications: data.certifications ?? [],
+      isDefault,
+      parsedAt: data.parsedAt ?? null,
+    })
+    .returning();
+  if (isDefault && existing) {
+    await db
+      .update(table)
+      .set({ isDefault: false, updatedAt: new Date() })
+      .where(and(eq(table.userId, data.userId), ne(table.id, row!.id)));
+  }
+  return row as unknown as ResumeRow;
+}
+
+export async function updateResume(
+  db: Db,
+  id: string,
+  userId: string,
+  data: UpdateResumeData,
+): Promise<ResumeRow | null> {
+  const set: Record<string, unknown> = { updatedAt: new Date() };
+  if (data.name !== undefined) set.name = data.name;
+  if (data.fileRef !== undefined) set.fileRef = data.fileRef;
+  if (data.rawText !== undefined) set.rawText = data.rawText;
+  if (data.skills !== undefined) set.skills = data.skills;
+  if (data.experience !== undefined) set.experience = data.experience;
+  if (data.education !== undefined) set.education = data.education;
+  if (data.projects !== undefined) set.projects = data.projects;
+  if (data.certifications !== undefined) set.certifications = data.certifications;
+  if (data.parsedAt !== undefined) set.parsedAt = data.parsedAt;
+  const [row] = await db
+    .update(table)
+    .set(set)
+    .where(and(eq(table.id, id), eq(table.userId, userId)))
+    .returning();
+  return (row as unknown as ResumeRow) ?? null;
+}
+
+/** Make one version the default and clear the flag on the others. */
+export async function setDefaultResume(
+  db: Db,
+  id: string,
+  userId: string,
+): Promise<ResumeRow | null> {
+  const target = await getResumeById(db, id, userId);
+  if (!target) return null;
+  await db
+    .update(table)
+    .set({ isDefault: false, updatedAt: new Date() })
+    .where(and(eq(table.userId, userId), ne(table.id, id)));
+  const [row] = await db
+    .update(table)
+    .set({ isDefault: true, updatedAt: new Date() })
+    .where(eq(table.id, id))
+    .returning();
+  return (row as unknown as ResumeRow) ?? null;
+}
+
+/**
+ * Delete a version (only if owned by userId). If it was the default, the oldest remaining
+ * version becomes the default. Returns the deleted row or null.
+ */
+export async function deleteResumeById(
+  db: Db,
+  id: string,
+  userId: string,
+): Promise<ResumeRow | null> {
+  const [row] = await db
+    .delete(table)
+    .where(and(eq(table.id, id), eq(table.userId, userId)))
+    .returning();
+  const deleted = (row as unknown as ResumeRow) ?? null;
+  if (deleted?.isDefault) {
+    const [next] = await db
+      .select({ id: table.id })
+      .from(table)
+      .where(eq(table.userId, userId))
+      .orderBy(asc(table.createdAt))
+      .limit(1);
+    if (next) await setDefaultResume(db, next.id, userId);
+  }
+  return deleted;
+}
@@ -11,6 +11,7 @@ import {
   pgEnum,
   integer,
   uniqueIndex,
+  unique,
   index,
 } from 'drizzle-orm/pg-core';
 
@@ -129,6 +130,34 @@ export const profiles = pgTable('profiles', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+/** Named resume versions per user (e.g. backend, ML, frontend), each with parsed sections. */
+export const resumes = pgTable(
+  'resumes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 128 }).notNull(),
+    /** File name inside the user's data_user/<email>/resumes folder. */
+    fileRef: varchar('file_ref', { length: 512 }),
+    rawText: text('raw_text'),
+    skills: jsonb('skills').$type<string[]>().default([]),
+    experience: jsonb('experience').$type<unknown[]>().default([]),
+    education: jsonb('education').$type<unknown[]>().default([]),
+    projects: jsonb('projects').$type<unknown[]>().default([]),
+    certifications: jsonb('certifications').$type<string[]>().default([]),
+    /** Used when auto-selection ties; at most one per user. */
+    isDefault: boolean('is_default').notNull().default(false),
+    parsedAt: timestamp('parsed_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    resumesUserNameUnique: uniqueIndex('resumes_user_name_unique').on(table.userId, table.name),
+  }),
+);
+
 /** One row per user; used for scoring and preferences UI. */
 export const userPreferences = pgTable('user_preferences', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -151,6 +180,12 @@ export const userPreferences = pgTable('user_preferences', {
   salaryMax: decimal('salary_max', { precision: 12, scale: 2 }),
   salaryCurrency: varchar('salary_currency', { length: 8 }),
   strictFilterLevel: strictFilterLevelEnum('strict_filter_level').notNull().default('STRICT'),
+  /** Rule-score weights per dimension (sum to 100); null = default weights. */
+  scoringWeights: jsonb('scoring_weights').$type<Record<string, number>>(),
+  /** Dimensions the strict filter checks (visa, location, seniority, remote, employment, industry). */
+  hardFilterDimensions: jsonb('hard_filter_dimensions')
+    .$type<string[]>()
+    .default(['visa', 'location', 'seniority']),
   maxContactsPerJob: integer('max_contacts_per_job').notNull().default(2),
   emailUpdatesEnabled: boolean('email_updates_enabled').notNull().default(false),
   emailMinMatchScore: decimal('email_min_match_score', { precision: 5, scale: 2 }),
@@ -248,6 +283,16 @@ export const runs = pgTable('runs', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+/** Where the user is with an analyzed job: saved (not applied yet) through offer/rejected. */
+export const applicationStatusEnum = pgEnum('application_status', [
+  'saved',
+  'applied',
+  'interviewing',
+  'offer',
+  'rejected',
+  'withdrawn',
+]);
+
 /** Per-user analysis from Application Assistant: job summary, match, resume tips, cover letters, etc. */
 export const applicationAssistantAnalyses = pgTable('application_assistant_analyses', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -263,6 +308,8 @@ export const applicationAssistantAnalyses = pgTable('application_assistant_analy
   strictFilterRejects:
     jsonb('strict_filter_rejects').$type<{ dimension: string; reason: string }[]>(),
   matchEvidence: jsonb('match_evidence').$type<Record<string, unknown>>(),
+  /** Per job requirement: best matching resume bullet or skill, similarity and met/partial/missing. */
+  requirementEvidence: jsonb('requirement_evidence').$type<Record<string, unknown>[]>(),
   resumeEvidence: jsonb('resume_evidence').$type<Record<string, unknown>>(),
   coverLettersEvidence: jsonb('cover_letters_evidence').$type<Record<string, unknown>>(),
   contactsEvidence: jsonb('contacts_evidence').$type<Record<string, unknown>>(),
@@ -271,7 +318,11 @@ export const applicationAssistantAnalyses = pgTable('application_assistant_analy
   contacts: jsonb('contacts').$type<Record<string, unknown>>(),
   keywordsToAdd: jsonb('keywords_to_add').$type<string[]>(),
   salaryLevelCheck: text('salary_level_check'),
+  /** Parsed job salary vs salary preference (annualized, FX-converted) and compensation fit. */
+  compensation: jsonb('compensation').$type<Record<string, unknown>>(),
   applicationChecklist: jsonb('application_checklist').$type<Record<string, unknown>[]>(),
+  /** Apply-form answer sheet (fields read from the apply URL, proposed answers); never submitted. */
+  applicationBlueprint: jsonb('application_blueprint').$type<Record<string, unknown>>(),
   interviewPrepBullets: jsonb('interview_prep_bullets').$type<string[]>(),
   companyResearch: text('company_research'),
   companySnapshot: jsonb('company_snapshot').$type<Record<string, unknown>>(),
@@ -283,16 +334,85 @@ export const applicationAssistantAnalyses = pgTable('application_assistant_analy
   runUpdatedAt: timestamp('run_updated_at'),
   /** 'single' = one-off URL; 'batch' = from CSV automated queue. */
   runSource: varchar('run_source', { length: 16 }).default('single'),
+  /** Resume version the analysis ran against (null = profile resume or version deleted). */
+  resumeId: uuid('resume_id').references(() => resumes.id, { onDelete: 'set null' }),
+  /** How the version was chosen (pinned/auto/profile), its fit score and the other candidates. */
+  resumeSelection: jsonb('resume_selection').$type<Record<string, unknown>>(),
+  /** Job-tailored resume draft (bullets with originals); status 'approved' once rendered. */
+  tailoredResume: jsonb('tailored_resume').$type<Record<string, unknown>>(),
+  /** Application lifecycle; transitions are logged in application_status_events. */
+  applicationStatus: applicationStatusEnum('application_status').notNull().default('saved'),
+  applicationStatusAt: timestamp('application_status_at'),
+  nextAction: text('next_action'),
+  nextActionAt: timestamp('next_action_at'),
+  /** Set when the freshness monitor finds the analysed posting closed. */
+  jobClosedAt: timestamp('job_closed_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
-/** Queue for CSV-uploaded job URLs: one row per URL per user, processed in order. */
+/**
+ * Superseded outputs of an analysis step (match, resume, interviewPrep, companyResearch, outreach).
+ * A step re-run archives the fields it is about to overwrite here, so runs can be compared.
+ */
+export const applicationAssistantStepHistory = pgTable(
+  'application_assistant_step_history',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    analysisId: uuid('analysis_id')
+      .notNull()
+      .references(() => applicationAssistantAnalyses.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    step: varchar('step', { length: 32 }).notNull(),
+    /** The analysis fields the step writes, as they were before the re-run. */
+    output: jsonb('output').$type<Record<string, unknown>>().notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    analysisStepIdx: index('application_assistant_step_history_analysis_step_idx').on(
+      table.analysisId,
+      table.step,
+    ),
+  }),
+);
+
+/** Dated application status transitions (and notes) per analysis. from = to for a note only. */
+export const applicationStatusEvents = pgTable(
+  'application_status_events',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    analysisId: uuid('analysis_id')
+      .notNull()
+      .references(() => applicationAssistantAnalyses.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    fromStatus: applicationStatusEnum('from_status'),
+    toStatus: applicationStatusEnum('to_status').notNull(),
+    note: text('note'),
+    /** When it happened (user-supplied, e.g. the day they applied); defaults to now. */
+    occurredAt: timestamp('occurred_at').defaultNow().notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    analysisIdx: index('application_status_events_analysis_idx').on(table.analysisId),
+    userIdx: index('application_status_events_user_idx').on(table.userId),
+  }),
+);
+
+/**
+ * Queue for CSV-uploaded job URLs: one row per URL per user, processed in order.
+ * Workers lease rows (leasedBy/leaseExpiresAt, extended by heartbeats); failures go back to
+ * pending with backoff (runAfter) until maxAttempts, then to 'dead' (dead letter).
+ */
 export const applicationAnalysisQueueStatusEnum = pgEnum('application_analysis_queue_status', [
   'pending',
   'running',
   'completed',
   'failed',
+  'dead',
 ]);
 
 export const applicationAnalysisQueue = pgTable(
@@ -308,13 +428,26 @@ export const applicationAnalysisQueue = pgTable(
     analysisId: uuid('analysis_id').references(() => applicationAssistantAnalyses.id, {
       onDelete: 'set null',
     }),
+    attempts: integer('attempts').notNull().default(0),
+    maxAttempts: integer('max_attempts').notNull().default(3),
+    /** Not claimable before this time (retry backoff). */
+    runAfter: timestamp('run_after').defaultNow().notNull(),
+    leasedBy: text('leased_by'),
+    leaseExpiresAt: timestamp('lease_expires_at'),
+    heartbeatAt: timestamp('heartbeat_at'),
+    lastError: text('last_error'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
   },
   (table) => ({
     queueUserStatusIdx: index('application_analysis_queue_user_status_idx').on(
       table.userId,
       table.status,
     ),
+    queueStatusRunAfterIdx: index('application_analysis_queue_status_run_after_idx').on(
+      table.status,
+      table.runAfter,
+    ),
   }),
 );
 
@@ -508,6 +641,10 @@ export const jobListings = pgTable(
     postedAt: timestamp('posted_at'),
     firstSeenAt: timestamp('first_seen_at').defaultNow().notNull(),
     lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+    /** Last freshness re-check of the posting URL (null = never checked). */
+    lastCheckedAt: timestamp('last_checked_at'),
+    /** When the freshness check found the posting gone; cleared if it reappears as OPEN. */
+    closedAt: timestamp('closed_at'),
     status: jobStatusEnum('status').default('OPEN'),
     dedupeKey: text('dedupe_key').notNull().unique(),
     rawExtract: jsonb('raw_extract').$type<Record<string, unknown>>(),
@@ -521,6 +658,7 @@ export const jobListings = pgTable(
       table.status,
     ),
     jobListingsLastSeenIdx: index('job_listings_last_seen_idx').on(table.lastSeenAt),
+    jobListingsLastCheckedIdx: index('job_listings_last_checked_idx').on(table.lastCheckedAt),
   }),
 );
 
@@ -584,6 +722,60 @@ export const contacts = pgTable(
   }),
 );
 
+/** How the user reached out to a contact. */
+export const contactInteractionChannelEnum = pgEnum('contact_interaction_channel', [
+  'email',
+  'linkedin',
+  'phone',
+  'other',
+]);
+
+/** What came of an interaction (sent = no answer yet). */
+export const contactInteractionOutcomeEnum = pgEnum('contact_interaction_outcome', [
+  'sent',
+  'replied',
+  'no_reply',
+  'bounced',
+  'meeting',
+]);
+
+/** Per-user outreach log for a contact: channel, draft used, outcome and when to follow up. */
+export const contactInteractions = pgTable(
+  'contact_interactions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    contactId: uuid('contact_id')
+      .notNull()
+      .references(() => contacts.id, { onDelete: 'cascade' }),
+    /** Analysis (job) the outreach was for; kept when the analysis is deleted. */
+    analysisId: uuid('analysis_id').references(() => applicationAssistantAnalyses.id, {
+      onDelete: 'set null',
+    }),
+    channel: contactInteractionChannelEnum('channel').notNull(),
+    outcome: contactInteractionOutcomeEnum('outcome').notNull().default('sent'),
+    /** Draft that was sent ({ id, subject, body }), if one was used. */
+    draft: jsonb('draft').$type<Record<string, unknown>>(),
+    note: text('note'),
+    occurredAt: timestamp('occurred_at').defaultNow().notNull(),
+    followUpAt: timestamp('follow_up_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userContactIdx: index('contact_interactions_user_contact_idx').on(
+      table.userId,
+      table.contactId,
+    ),
+    userFollowUpIdx: index('contact_interactions_user_follow_up_idx').on(
+      table.userId,
+      table.followUpAt,
+    ),
+  }),
+);
+
 // ---------------------------------------------------------------------------
 // Admin: Deep company research runs + logs (persisted for reactive UI / return-to-page)
 // ---------------------------------------------------------------------------
@@ -618,3 +810,49 @@ export const deepCompanyResearchAdminLogs = pgTable(
     runIdIdx: index('deep_company_research_admin_logs_run_id_idx').on(table.runId),
   }),
 );
+
+// ---------------------------------------------------------------------------
+// Admin: Skill taxonomy overrides (merged over the bundled taxonomy in agents)
+// ---------------------------------------------------------------------------
+
+export const skillTaxonomyOverrides = pgTable('skill_taxonomy_overrides', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  /** Replaces the bundled entry with the same canonical name, or adds a new skill. */
+  canonical: varchar('canonical', { length: 128 }).notNull().unique(),
+  aliases: jsonb('aliases').$type<string[]>().notNull().default([]),
+  parents: jsonb('parents').$type<string[]>().notNull().default([]),
+  updatedBy: uuid('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+/**
+ * Reusable answers to application-form questions, keyed by canonical question (why_company,
+ * sponsorship, notice_period, ...). A row with companyId overrides the general answer there.
+ */
+export const applicationAnswers = pgTable(
+  'application_answers',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    questionKey: varchar('question_key', { length: 64 }).notNull(),
+    /** Question as the user last saw it on a form (used for matching new forms). */
+    question: text('question').notNull(),
+    answer: text('answer').notNull(),
+    companyId: uuid('company_id').references(() => companies.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userQuestionIdx: index('application_answers_user_question_idx').on(
+      table.userId,
+      table.questionKey,
+    ),
+    /** One general answer (companyId null) and one override per company for each question. */
+    userQuestionCompanyUnique: unique('application_answers_user_question_company_unique')
+      .on(table.userId, table.questionKey, table.companyId)
+      .nullsNotDistinct(),
+  }),
+);
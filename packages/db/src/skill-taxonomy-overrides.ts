@@ -0,0 +1,50 @@
+import { asc, eq } from 'drizzle-orm';
+import type { Db } from './client';
+import { skillTaxonomyOverrides as table } from './schema';
+
+export interface SkillTaxonomyOverrideRow {
+  id: string;
+  canonical: string;
+  aliases: string[];
+  parents: string[];
+  updatedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export async function listSkillTaxonomyOverrides(db: Db): Promise<SkillTaxonomyOverrideRow[]> {
+  const rows = await db.select().from(table).orderBy(asc(table.canonical));
+  return rows as unknown as SkillTaxonomyOverrideRow[];
+}
+
+/** Create or replace the override for a canonical skill name. */
+export async function upsertSkillTaxonomyOverride(
+  db: Db,
+  data: { canonical: string; aliases: string[]; parents: string[]; updatedBy?: string | null },
+): Promise<SkillTaxonomyOverrideRow> {
+  const [row] = await db
+    .insert(table)
+    .values({
+      canonical: data.canonical,
+      aliases: data.aliases,
+      parents: data.parents,
+      updatedBy: data.updatedBy ?? null,
+    })
+    .onConflictDoUpdate({
+      target: table.canonical,
+      set: {
+        aliases: data.aliases,
+        parents: data.parents,
+        updatedBy: data.updatedBy ?? null,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+  return row as unknown as SkillTaxonomyOverrideRow;
+}
+
+/** Remove an override so the bundled entry (if any) applies again. Returns false if not found. */
+export async function deleteSkillTaxonomyOverride(db: Db, id: string): Promise<boolean> {
+  const rows = await db.delete(table).where(eq(table.id, id)).returning({ id: table.id });
+  return rows.length > 0;
+}
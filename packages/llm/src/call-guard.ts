@@ -0,0 +1,35 @@
+/**
+ * Process-wide hook around every LLM call (chat completions and embeddings).
+ * The agents' policy enforcer installs one to check run budgets before a call and count
+ * tokens after it; with no guard installed calls go straight to the provider.
+ * Providers return text only, so token usage is estimated from character counts.
+ */
+import type { OllamaModelType } from './models.js';
+
+export interface LlmCallInfo {
+  kind: 'chat' | 'embed';
+  /** Model role for chat calls; null for embeddings. */
+  role: OllamaModelType | null;
+}
+
+export interface LlmCallGuard {
+  /** Throw to refuse the call (e.g. token or time budget exhausted). */
+  beforeCall(info: LlmCallInfo): void | Promise<void>;
+  afterCall(info: LlmCallInfo & { estimatedTokens: number }): void;
+}
+
+let guard: LlmCallGuard | null = null;
+
+/** Install (or with null, remove) the process-wide LLM call guard. */
+export function setLlmCallGuard(next: LlmCallGuard | null): void {
+  guard = next;
+}
+
+export function getLlmCallGuard(): LlmCallGuard | null {
+  return guard;
+}
+
+/** Rough token count: ~4 characters per token for English text and HTML. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
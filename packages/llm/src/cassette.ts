@@ -0,0 +1,104 @@
+/**
+ * Record/replay cassettes for LLM calls.
+ *
+ * LLM_CASSETTE_MODE=record  → call the real provider and write each response to
+ *                              {LLM_CASSETTE_DIR}/{llmRequestKey}.json
+ * LLM_CASSETTE_MODE=replay  → serve responses from that directory; a missing cassette throws
+ *                              LlmCassetteMissError so prompt/model/option changes show up as
+ *                              failing tests (and new cassette files in review) instead of silently
+ *                              hitting a live model.
+ * Unset/off                 → no cassette; calls go straight to the provider.
+ *
+ * Cassette files keep the full request next to the response so a diff shows exactly which
+ * prompt changed.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { LlmChatRequest, LlmProvider } from './provider.js';
+import { llmRequestKey } from './provider.js';
+import type { LlmProviderName } from './models.js';
+
+export type LlmCassetteMode = 'off' | 'record' | 'replay';
+
+export const DEFAULT_LLM_CASSETTE_DIR = 'tests/fixtures/llm-cassettes';
+
+export interface LlmCassette {
+  key: string;
+  provider: LlmProviderName;
+  request: LlmChatRequest;
+  response: string;
+  recordedAt: string;
+}
+
+export class LlmCassetteMissError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly filePath: string,
+    request: LlmChatRequest,
+  ) {
+    const prompt = request.messages.map((m) => m.content).join('\n');
+    super(
+      `LLM cassette miss (${key}) for model ${request.model}: no recording at ${filePath}. ` +
+        `Re-record with LLM_CASSETTE_MODE=record. Prompt: ${prompt.substring(0, 200)}...`,
+    );
+    this.name = 'LlmCassetteMissError';
+  }
+}
+
+/** Cassette mode from LLM_CASSETTE_MODE, read at call time. Unknown values mean off. */
+export function getCassetteMode(): LlmCassetteMode {
+  const value = process.env.LLM_CASSETTE_MODE?.trim().toLowerCase();
+  return value === 'record' || value === 'replay' ? value : 'off';
+}
+
+/** Absolute cassette directory from LLM_CASSETTE_DIR (relative paths resolve against cwd). */
+export function getCassetteDir(): string {
+  return path.resolve(process.cwd(), process.env.LLM_CASSETTE_DIR || DEFAULT_LLM_CASSETTE_DIR);
+}
+
+/**
+ * Wraps a provider with record or replay behaviour.
+ * In replay mode the inner provider is never called.
+ */
+export class CassetteProvider implements LlmProvider {
+  readonly name: LlmProviderName;
+
+  constructor(
+    private inner: LlmProvider,
+    private mode: Exclude<LlmCassetteMode, 'off'>,
+    private dir: string = getCassetteDir(),
+  ) {
+    this.name = inner.name;
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  async chat(request: LlmChatRequest, timeout?: number): Promise<string> {
+    const key = llmRequestKey(request);
+    const filePath = this.filePath(key);
+
+    if (this.mode === 'replay') {
+      let raw: string;
+      try {
+        raw = await readFile(filePath, 'utf-8');
+      } catch {
+        throw new LlmCassetteMissError(key, filePath, request);
+      }
+      return (JSON.parse(raw) as LlmCassette).response;
+    }
+
+    const response = await this.inner.chat(request, timeout);
+    const cassette: LlmCassette = {
+      key,
+      provider: this.inner.name,
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(filePath, JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+    return response;
+  }
+}
@@ -6,20 +6,16 @@
  * Ollama's ~2-minute server-side timeout that hits non-streaming /api/chat when the model is slow.
  * Strict timeout policy: all chat/generate use at least 3 min and at most 5 min client-side.
  */
-import {
-  OLLAMA_BASE_URL,
-  OllamaModels,
-  type ModelConfig,
-  defaultModelConfigs,
-  type OllamaModelType,
-} from './models.js';
+import { estimateTokens, getLlmCallGuard } from './call-guard.js';
+import { OLLAMA_BASE_URL } from './models.js';
+import type { LlmChatRequest, LlmProvider } from './provider.js';
 
 /** Minimum timeout for chat/generate (3 min). Ensures we don't abort before Ollama can finish. */
-const MIN_CHAT_TIMEOUT_MS = 180_000;
+export const MIN_CHAT_TIMEOUT_MS = 180_000;
 /** Maximum timeout for chat/generate (5 min). Keeps requests bounded. */
-const MAX_CHAT_TIMEOUT_MS = 300_000;
+export const MAX_CHAT_TIMEOUT_MS = 300_000;
 
-function clampTimeout(ms: number | undefined, defaultMs: number): number {
+export function clampTimeout(ms: number | undefined, defaultMs: number): number {
   const value = ms ?? defaultMs;
   return Math.min(MAX_CHAT_TIMEOUT_MS, Math.max(MIN_CHAT_TIMEOUT_MS, value));
 }
@@ -299,55 +295,28 @@ export class OllamaClient {
 }
 
 /**
- * High-level completion function with model type selection.
+ * LlmProvider backed by the Ollama /api/chat endpoint (the default for every role).
  */
-export async function complete(
-  prompt: string,
-  modelType: OllamaModelType = 'GENERAL',
-  options?: Partial<ModelConfig> & { system?: string; format?: 'json' },
-): Promise<string> {
-  const client = new OllamaClient();
-  const config = { ...defaultModelConfigs[modelType], ...options };
-
-  const messages: OllamaChatMessage[] = [];
-
-  if (options?.system) {
-    messages.push({ role: 'system', content: options.system });
-  }
-
-  messages.push({ role: 'user', content: prompt });
-
-  const response = await client.chat(
-    {
-      model: config.model,
-      messages,
-      format: options?.format,
-      options: {
-        temperature: config.temperature,
-        top_p: config.topP,
-        num_predict: config.maxTokens,
+export class OllamaProvider implements LlmProvider {
+  readonly name = 'ollama' as const;
+
+  constructor(private client: OllamaClient = new OllamaClient()) {}
+
+  async chat(request: LlmChatRequest, timeout?: number): Promise<string> {
+    const response = await this.client.chat(
+      {
+        model: request.model,
+        messages: request.messages,
+        format: request.format,
+        options: {
+          temperature: request.temperature,
+          top_p: request.topP,
+          num_predict: request.maxTokens,
+        },
       },
-    },
-    config.timeout,
-  );
-
-  return response.message.content;
-}
-
-/**
- * Complete with JSON output and validation.
- */
-export async function completeJson<T>(
-  prompt: string,
-  modelType: OllamaModelType = 'GENERAL',
-  options?: Partial<ModelConfig> & { system?: string },
-): Promise<T> {
-  const response = await complete(prompt, modelType, { ...options, format: 'json' });
-
-  try {
-    return JSON.parse(response) as T;
-  } catch (error) {
-    throw new Error(`Failed to parse JSON response: ${response.substring(0, 200)}...`);
+      timeout,
+    );
+    return response.message.content;
   }
 }
 
@@ -360,7 +329,15 @@ export async function embed(
   input: string | string[],
   options?: { model?: string; timeout?: number },
 ): Promise<number[][]> {
-  return defaultClient.embed(input, options);
+  const guard = getLlmCallGuard();
+  const info = { kind: 'embed' as const, role: null };
+  await guard?.beforeCall(info);
+  const embeddings = await defaultClient.embed(input, options);
+  guard?.afterCall({
+    ...info,
+    estimatedTokens: estimateTokens([input].flat().join('')),
+  });
+  return embeddings;
 }
 
 /**
@@ -374,7 +351,7 @@ export async function embedBatch(
   const results: number[][] = [];
   for (let i = 0; i < texts.length; i += batchSize) {
     const batch = texts.slice(i, i + batchSize);
-    const embeddings = await defaultClient.embed(batch, options);
+    const embeddings = await embed(batch, options);
     results.push(...embeddings);
   }
   return results;
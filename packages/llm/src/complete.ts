@@ -0,0 +1,76 @@
+/**
+ * High-level completion entry points used by agents.
+ * The provider and model for each role are resolved per call (see registry.ts), so the
+ * same agent code runs against Ollama, an OpenAI-compatible server, or a fake in tests.
+ */
+import {
+  type ModelConfig,
+  defaultModelConfigs,
+  getModelForRole,
+  type OllamaModelType,
+} from './models.js';
+import { estimateTokens, getLlmCallGuard } from './call-guard.js';
+import type { LlmChatMessage } from './provider.js';
+import { getProviderForRole } from './registry.js';
+
+/**
+ * High-level completion function with model type selection.
+ */
+export async function complete(
+  prompt: string,
+  modelType: OllamaModelType = 'GENERAL',
+  options?: Partial<ModelConfig> & { system?: string; format?: 'json' },
+): Promise<string> {
+  const provider = getProviderForRole(modelType);
+  const config = {
+    ...defaultModelConfigs[modelType],
+    model: getModelForRole(modelType, provider.name),
+    ...options,
+  };
+
+  const messages: LlmChatMessage[] = [];
+
+  if (options?.system) {
+    messages.push({ role: 'system', content: options.system });
+  }
+
+  messages.push({ role: 'user', content: prompt });
+
+  const guard = getLlmCallGuard();
+  const info = { kind: 'chat' as const, role: modelType };
+  await guard?.beforeCall(info);
+
+  const response = await provider.chat(
+    {
+      model: config.model,
+      messages,
+      format: options?.format,
+      temperature: config.temperature,
+      topP: config.topP,
+      maxTokens: config.maxTokens,
+    },
+    config.timeout,
+  );
+  guard?.afterCall({
+    ...info,
+    estimatedTokens: estimateTokens(messages.map((m) => m.content).join('') + response),
+  });
+  return response;
+}
+
+/**
+ * Complete with JSON output and validation.
+ */
+export async function completeJson<T>(
+  prompt: string,
+  modelType: OllamaModelType = 'GENERAL',
+  options?: Partial<ModelConfig> & { system?: string },
+): Promise<T> {
+  const response = await complete(prompt, modelType, { ...options, format: 'json' });
+
+  try {
+    return JSON.parse(response) as T;
+  } catch (error) {
+    throw new Error(`Failed to parse JSON response: ${response.substring(0, 200)}...`);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Deterministic in-process LLM provider for tests.
+ * Replays recorded responses instead of calling a model, so agent tests run without Ollama.
+ *
+ * Lookup order for each chat request:
+ * 1. recordings: exact match on llmRequestKey(request)
+ * 2. rules: first rule whose matcher accepts the request (string = substring of the prompt text)
+ * 3. fallback response, if configured
+ * Otherwise chat() throws so a missing fixture fails loudly instead of returning junk.
+ */
+import type { LlmChatRequest, LlmProvider } from './provider.js';
+import { llmRequestKey } from './provider.js';
+
+export type FakeResponseMatcher = string | RegExp | ((request: LlmChatRequest) => boolean);
+
+export interface FakeResponseRule {
+  match: FakeResponseMatcher;
+  response: string | ((request: LlmChatRequest) => string);
+}
+
+export interface FakeProviderOptions {
+  /** Recorded responses keyed by llmRequestKey(request). */
+  recordings?: Record<string, string>;
+  rules?: FakeResponseRule[];
+  fallback?: string;
+}
+
+/** All message contents joined, which is what string/RegExp matchers are tested against. */
+function promptText(request: LlmChatRequest): string {
+  return request.messages.map((m) => m.content).join('\n');
+}
+
+function matches(matcher: FakeResponseMatcher, request: LlmChatRequest): boolean {
+  if (typeof matcher === 'string') return promptText(request).includes(matcher);
+  if (matcher instanceof RegExp) return matcher.test(promptText(request));
+  return matcher(request);
+}
+
+export class FakeProvider implements LlmProvider {
+  readonly name = 'fake' as const;
+  /** Every request received, in order, for assertions. */
+  readonly calls: LlmChatRequest[] = [];
+  private recordings: Map<string, string>;
+  private rules: FakeResponseRule[];
+  private fallback: string | undefined;
+
+  constructor(options: FakeProviderOptions = {}) {
+    this.recordings = new Map(Object.entries(options.recordings ?? {}));
+    this.rules = [...(options.rules ?? [])];
+    this.fallback = options.fallback;
+  }
+
+  /** Add a rule; rules are checked in the order they were added. */
+  respondTo(match: FakeResponseMatcher, response: FakeResponseRule['response']): this {
+    this.rules.push({ match, response });
+    return this;
+  }
+
+  /** Record the response for an exact request. */
+  record(request: LlmChatRequest, response: string): this {
+    this.recordings.set(llmRequestKey(request), response);
+    return this;
+  }
+
+  async chat(request: LlmChatRequest): Promise<string> {
+    this.calls.push(request);
+
+    const recorded = this.recordings.get(llmRequestKey(request));
+    if (recorded !== undefined) return recorded;
+
+    for (const rule of this.rules) {
+      if (matches(rule.match, request)) {
+        return typeof rule.response === 'function' ? rule.response(request) : rule.response;
+      }
+    }
+
+    if (this.fallback !== undefined) return this.fallback;
+
+    throw new Error(
+      `FakeProvider: no recorded response for prompt: ${promptText(request).substring(0, 200)}...`,
+    );
+  }
+}
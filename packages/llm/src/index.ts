@@ -1,5 +1,5 @@
 /**
- * @careersignal/llm - Ollama client wrapper for local LLM inference
+ * @careersignal/llm - LLM client layer (Ollama, OpenAI-compatible servers, fake provider for tests)
  */
 
 export {
@@ -8,12 +8,16 @@ export {
   type OllamaModelType,
   type ModelConfig,
   defaultModelConfigs,
+  OPENAI_COMPATIBLE_BASE_URL,
+  LLM_PROVIDER_NAMES,
+  type LlmProviderName,
+  getProviderNameForRole,
+  getModelForRole,
 } from './models.js';
 
 export {
   OllamaClient,
-  complete,
-  completeJson,
+  OllamaProvider,
   defaultClient,
   embed,
   embedBatch,
@@ -24,6 +28,46 @@ export {
   type OllamaChatResponse,
 } from './client.js';
 
+export { complete, completeJson } from './complete.js';
+
+export { cosineSimilarity, bestMatch, type BestMatch } from './similarity.js';
+
+export {
+  setLlmCallGuard,
+  getLlmCallGuard,
+  estimateTokens,
+  type LlmCallGuard,
+  type LlmCallInfo,
+} from './call-guard.js';
+
+export {
+  llmRequestKey,
+  type LlmProvider,
+  type LlmChatMessage,
+  type LlmChatRequest,
+} from './provider.js';
+
+export { OpenAICompatibleProvider } from './openai-compatible.js';
+
+export {
+  FakeProvider,
+  type FakeProviderOptions,
+  type FakeResponseRule,
+  type FakeResponseMatcher,
+} from './fake-provider.js';
+
+export {
+  CassetteProvider,
+  LlmCassetteMissError,
+  getCassetteMode,
+  getCassetteDir,
+  DEFAULT_LLM_CASSETTE_DIR,
+  type LlmCassette,
+  type LlmCassetteMode,
+} from './cassette.js';
+
+export { setLlmProvider, resetLlmProviders, getProviderForRole } from './registry.js';
+
 export {
   buildPrompt,
   createPromptTemplate,
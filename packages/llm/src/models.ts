@@ -63,3 +63,50 @@ export const defaultModelConfigs: Record<OllamaModelType, ModelConfig> = {
     timeout: 300000, // up to 5 minutes for long-context fallbacks
   },
 };
+
+/**
+ * Provider backends a model role can be routed to.
+ * - ollama: local Ollama server (default)
+ * - openai: any OpenAI-compatible /v1/chat/completions server (llama.cpp, vLLM, LM Studio)
+ * - fake: deterministic in-process provider for tests (see fake-provider.ts)
+ */
+export type LlmProviderName = 'ollama' | 'openai' | 'fake';
+
+export const LLM_PROVIDER_NAMES: readonly LlmProviderName[] = ['ollama', 'openai', 'fake'];
+
+export const OPENAI_COMPATIBLE_BASE_URL =
+  process.env.OPENAI_COMPATIBLE_BASE_URL ?? 'http://localhost:8080/v1';
+
+function parseProviderName(value: string | undefined): LlmProviderName | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return LLM_PROVIDER_NAMES.find((name) => name === normalized);
+}
+
+/**
+ * Provider for a model role. Read at call time so tests and scripts can switch providers
+ * via env without reloading the module.
+ * Order: LLM_PROVIDER_<ROLE> → LLM_PROVIDER → 'ollama'.
+ */
+export function getProviderNameForRole(modelType: OllamaModelType): LlmProviderName {
+  return (
+    parseProviderName(process.env[`LLM_PROVIDER_${modelType}`]) ??
+    parseProviderName(process.env.LLM_PROVIDER) ??
+    'ollama'
+  );
+}
+
+/**
+ * Model name for a role on a given provider.
+ * Ollama keeps the OLLAMA_MODEL_* map; OpenAI-compatible servers use
+ * OPENAI_COMPATIBLE_MODEL_<ROLE> → OPENAI_COMPATIBLE_MODEL → the Ollama name.
+ */
+export function getModelForRole(modelType: OllamaModelType, provider: LlmProviderName): string {
+  if (provider === 'openai') {
+    return (
+      process.env[`OPENAI_COMPATIBLE_MODEL_${modelType}`] ??
+      process.env.OPENAI_COMPATIBLE_MODEL ??
+      OllamaModels[modelType]
+    );
+  }
+  return OllamaModels[modelType];
+}
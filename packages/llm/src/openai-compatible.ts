@@ -0,0 +1,69 @@
+/**
+ * OpenAI-compatible HTTP provider (llama.cpp server, vLLM, LM Studio, ...).
+ * Talks to POST {baseUrl}/chat/completions; baseUrl should include the /v1 prefix.
+ * Uses the same 3–5 min client-side timeout policy as the Ollama client.
+ */
+import { clampTimeout } from './client.js';
+import { OPENAI_COMPATIBLE_BASE_URL } from './models.js';
+import type { LlmChatRequest, LlmProvider } from './provider.js';
+
+interface OpenAIChatCompletionResponse {
+  choices?: Array<{ message?: { role?: string; content?: string | null } }>;
+}
+
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+  private baseUrl: string;
+  private apiKey: string | undefined;
+  private defaultTimeout: number;
+
+  constructor(
+    baseUrl: string = OPENAI_COMPATIBLE_BASE_URL,
+    apiKey: string | undefined = process.env.OPENAI_COMPATIBLE_API_KEY,
+    defaultTimeout: number = 300000,
+  ) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.apiKey = apiKey || undefined;
+    this.defaultTimeout = defaultTimeout;
+  }
+
+  async chat(request: LlmChatRequest, timeout?: number): Promise<string> {
+    const controller = new AbortController();
+    const effectiveTimeout = clampTimeout(timeout, this.defaultTimeout);
+    const timeoutId = setTimeout(() => controller.abort(), effectiveTimeout);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          top_p: request.topP,
+          max_tokens: request.maxTokens,
+          stream: false,
+          ...(request.format === 'json' ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`OpenAI-compatible chat failed: ${response.status} - ${error}`);
+      }
+
+      const data = (await response.json()) as OpenAIChatCompletionResponse;
+      const content = data.choices?.[0]?.message?.content;
+      if (content == null) {
+        throw new Error('OpenAI-compatible chat failed: response has no message content');
+      }
+      return content;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Provider-neutral chat interface. Every backend (Ollama, OpenAI-compatible HTTP, fake)
+ * implements LlmProvider so complete()/completeJson() can route each model role independently.
+ */
+import { createHash } from 'node:crypto';
+import type { LlmProviderName } from './models.js';
+
+export interface LlmChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmChatRequest {
+  model: string;
+  messages: LlmChatMessage[];
+  format?: 'json';
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  /** Run one chat completion and return the assistant message content. */
+  chat(request: LlmChatRequest, timeout?: number): Promise<string>;
+}
+
+/**
+ * Stable key for a chat request: sha256 over the model, messages, format and sampling options.
+ * Used to look up recorded responses, so identical requests always map to the same entry.
+ */
+export function llmRequestKey(request: LlmChatRequest): string {
+  const canonical = JSON.stringify({
+    model: request.model,
+    messages: request.messages.map((m) => ({ role: m.role, content: m.content })),
+    format: request.format ?? null,
+    temperature: request.temperature ?? null,
+    topP: request.topP ?? null,
+    maxTokens: request.maxTokens ?? null,
+  });
+  return createHash('sha256').update(canonical).digest('hex');
+}
@@ -0,0 +1,63 @@
+/**
+ * Per-role provider selection.
+ * Each model role (REASONING, GENERAL, CODE, FAST, LONG_CONTEXT) resolves to a provider:
+ * an in-process override set via setLlmProvider() wins, otherwise the env-selected backend
+ * (LLM_PROVIDER_<ROLE> / LLM_PROVIDER, see models.ts). Env-selected providers are wrapped in
+ * a CassetteProvider when LLM_CASSETTE_MODE is record or replay (see cassette.ts).
+ */
+import { CassetteProvider, getCassetteMode } from './cassette.js';
+import { OllamaProvider, defaultClient } from './client.js';
+import { getProviderNameForRole, type LlmProviderName, type OllamaModelType } from './models.js';
+import { OpenAICompatibleProvider } from './openai-compatible.js';
+import type { LlmProvider } from './provider.js';
+
+const roleOverrides = new Map<OllamaModelType, LlmProvider>();
+let globalOverride: LlmProvider | null = null;
+const envProviders = new Map<LlmProviderName, LlmProvider>();
+
+function envProvider(name: LlmProviderName, modelType: OllamaModelType): LlmProvider {
+  const cached = envProviders.get(name);
+  if (cached) return cached;
+
+  let provider: LlmProvider;
+  if (name === 'ollama') {
+    provider = new OllamaProvider(defaultClient);
+  } else if (name === 'openai') {
+    provider = new OpenAICompatibleProvider();
+  } else {
+    throw new Error(
+      `LLM provider 'fake' selected for ${modelType} but no FakeProvider is registered; call setLlmProvider(new FakeProvider(...)) first`,
+    );
+  }
+  envProviders.set(name, provider);
+  return provider;
+}
+
+/**
+ * Route model roles to a provider. Without roles, the provider serves every role
+ * (role-specific overrides still take precedence).
+ */
+export function setLlmProvider(provider: LlmProvider, roles?: OllamaModelType[]): void {
+  if (!roles) {
+    globalOverride = provider;
+    return;
+  }
+  for (const role of roles) roleOverrides.set(role, provider);
+}
+
+/** Drop all in-process overrides and cached env providers (env is re-read on next call). */
+export function resetLlmProviders(): void {
+  roleOverrides.clear();
+  globalOverride = null;
+  envProviders.clear();
+}
+
+/** Provider that complete()/completeJson() will use for a model role. */
+export function getProviderForRole(modelType: OllamaModelType): LlmProvider {
+  const override = roleOverrides.get(modelType) ?? globalOverride;
+  if (override) return override;
+
+  const provider = envProvider(getProviderNameForRole(modelType), modelType);
+  const cassetteMode = getCassetteMode();
+  return cassetteMode === 'off' ? provider : new CassetteProvider(provider, cassetteMode);
+}
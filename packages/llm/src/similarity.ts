@@ -0,0 +1,38 @@
+/**
+ * Vector helpers for comparing embeddings (embed / embedBatch results).
+ */
+
+/** Cosine similarity of two vectors; 0 when their lengths differ or either is empty or zero. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    na += a[i]! * a[i]!;
+    nb += b[i]! * b[i]!;
+  }
+  const denom = Math.sqrt(na) * Math.sqrt(nb);
+  return denom === 0 ? 0 : dot / denom;
+}
+
+export interface BestMatch {
+  /** Index into the candidates; -1 when none scores above 0. */
+  index: number;
+  score: number;
+}
+
+/** The candidate most similar to the query (the first one on ties). */
+export function bestMatch(query: number[], candidates: number[][]): BestMatch {
+  let index = -1;
+  let score = 0;
+  candidates.forEach((vector, j) => {
+    const similarity = cosineSimilarity(query, vector);
+    if (similarity > score) {
+      score = similarity;
+      index = j;
+    }
+  });
+  return { index, score };
+}
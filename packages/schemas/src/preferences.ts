@@ -17,6 +17,36 @@ export const maxContactsPerJobSchema = z.union([
   z.literal(5),
 ]);
 
+const weightSchema = z.number().int().min(0).max(100);
+
+/** Rule-score weight per dimension; must sum to 100. */
+export const scoringWeightsSchema = z
+  .object({
+    visa: weightSchema,
+    location: weightSchema,
+    seniority: weightSchema,
+    remote: weightSchema,
+    employment: weightSchema,
+    skills: weightSchema,
+    experience: weightSchema,
+    industry: weightSchema,
+    compensation: weightSchema,
+  })
+  .strict()
+  .refine((w) => Object.values(w).reduce((sum, v) => sum + v, 0) === 100, {
+    message: 'Weights must sum to 100',
+  });
+
+export const hardFilterDimensionSchema = z.enum([
+  'visa',
+  'location',
+  'seniority',
+  'remote',
+  'employment',
+  'industry',
+  'compensation',
+]);
+
 const workAuthOptionSchema = z.enum(['US_CITIZEN', 'GREEN_CARD', 'H1B', 'OPT', 'EAD', 'OTHER']);
 export const coverLetterLengthSchema = z.enum(['CONCISE', 'DEFAULT', 'DETAILED']);
 export const coldMessageLengthSchema = z.enum(['VERY_SHORT', 'SHORT', 'MEDIUM']);
@@ -38,6 +68,11 @@ export const preferencesPutBodySchema = z
     salary_max: z.number().nullable().optional(),
     salary_currency: z.string().nullable().optional(),
     strict_filter_level: strictFilterLevelSchema.default('STRICT'),
+    // Rule scoring: null weights = defaults
+    scoring_weights: scoringWeightsSchema.nullable().optional(),
+    hard_filter_dimensions: z
+      .array(hardFilterDimensionSchema)
+      .default(['visa', 'location', 'seniority']),
     max_contacts_per_job: maxContactsPerJobSchema.default(2),
     email_updates_enabled: z.boolean().default(false),
     email_min_match_score: z.number().min(0).max(100).nullable().optional().default(60),
@@ -60,4 +95,6 @@ export const preferencesPutBodySchema = z
   .strict();
 
 export type PreferencesPutBody = z.infer<typeof preferencesPutBodySchema>;
+export type ScoringWeightsInput = z.infer<typeof scoringWeightsSchema>;
+export type HardFilterDimensionInput = z.infer<typeof hardFilterDimensionSchema>;
 export type TargetLocationInput = z.infer<typeof targetLocationSchema>;
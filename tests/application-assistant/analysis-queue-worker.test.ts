@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+const queue = vi.hoisted(() => ({
+  row: {
+    id: 'row-1',
+    userId: 'u1',
+    url: 'https://example.com/jobs/1',
+    analysisId: null,
+    attempts: 1,
+    maxAttempts: 3,
+  },
+  claimed: false,
+  heartbeatHeld: true,
+  runSignal: null as AbortSignal | null,
+}));
+
+vi.mock('@careersignal/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@careersignal/db')>()),
+  getDb: vi.fn(() => ({})),
+  reclaimExpiredQueueLeases: vi.fn().mockResolvedValue(0),
+  claimNextQueueRow: vi.fn(async () => {
+    if (queue.claimed) return null;
+    queue.claimed = true;
+    return queue.row;
+  }),
+  getNextQueueRunAfter: vi.fn().mockResolvedValue(null),
+  insertAnalysis: vi.fn().mockResolvedValue({ id: 'analysis-1' }),
+  updateQueueRow: vi.fn().mockResolvedValue(undefined),
+  heartbeatQueueRow: vi.fn(async () => queue.heartbeatHeld),
+  getAnalysisById: vi.fn().mockResolvedValue({ runStatus: 'error' }),
+  getAnalysisLogs: vi.fn().mockResolvedValue([]),
+  completeQueueRow: vi.fn(),
+  failQueueRow: vi.fn(),
+  releaseQueueRow: vi.fn(),
+}));
+
+vi.mock('@/lib/application-assistant-runner', () => ({
+  // Stands in for a long run: ends only when its signal aborts.
+  runApplicationAssistantPipeline: vi.fn(
+    (_userId: string, _url: string, _analysisId: string, signal: AbortSignal) =>
+      new Promise<void>((resolve) => {
+        queue.runSignal = signal;
+        signal.addEventListener('abort', () => resolve());
+      }),
+  ),
+}));
+
+import { completeQueueRow, failQueueRow, releaseQueueRow } from '@careersignal/db';
+import {
+  getQueueConcurrency,
+  isQueueWorkerRunningForUser,
+  queueRetryDelayMs,
+  runQueueWorker,
+} from '@/lib/application-analysis-queue-worker';
+
+describe('analysis queue worker', () => {
+  const original = process.env.APPLICATION_QUEUE_CONCURRENCY;
+  afterEach(() => {
+    if (original === undefined) delete process.env.APPLICATION_QUEUE_CONCURRENCY;
+    else process.env.APPLICATION_QUEUE_CONCURRENCY = original;
+  });
+
+  it('backs off exponentially between attempts, capped at 30 minutes', () => {
+    expect(queueRetryDelayMs(1)).toBe(60_000);
+    expect(queueRetryDelayMs(2)).toBe(120_000);
+    expect(queueRetryDelayMs(3)).toBe(240_000);
+    expect(queueRetryDelayMs(10)).toBe(30 * 60_000);
+  });
+
+  it('reads concurrency from the environment with a safe default and cap', () => {
+    delete process.env.APPLICATION_QUEUE_CONCURRENCY;
+    expect(getQueueConcurrency()).toBe(1);
+    process.env.APPLICATION_QUEUE_CONCURRENCY = '3';
+    expect(getQueueConcurrency()).toBe(3);
+    process.env.APPLICATION_QUEUE_CONCURRENCY = '0';
+    expect(getQueueConcurrency()).toBe(1);
+    process.env.APPLICATION_QUEUE_CONCURRENCY = '50';
+    expect(getQueueConcurrency()).toBe(8);
+  });
+
+  it('stops the run when the heartbeat finds the lease lost', async () => {
+    vi.useFakeTimers();
+    try {
+      runQueueWorker('u1');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(queue.runSignal?.aborted).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(queue.runSignal?.aborted).toBe(false);
+
+      queue.heartbeatHeld = false;
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(queue.runSignal?.aborted).toBe(true);
+
+      // Another worker owns the row now: it is neither completed, failed nor released.
+      await vi.advanceTimersByTimeAsync(10_000);
+      expect(isQueueWorkerRunningForUser('u1')).toBe(false);
+      expect(completeQueueRow).not.toHaveBeenCalled();
+      expect(failQueueRow).not.toHaveBeenCalled();
+      expect(releaseQueueRow).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
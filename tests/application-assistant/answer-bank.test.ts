@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AnswerSheet, FormAnswer } from '@careersignal/agents';
+import type { Db } from '@careersignal/db';
+
+const KEYWORDS = ['sponsorship', 'email', 'why'];
+const embedded = vi.hoisted(() => ({ texts: [] as string[] }));
+vi.mock('@careersignal/llm', async (importOriginal) => {
+  const { keywordEmbeddings } = await import('../helpers/keyword-embeddings');
+  return {
+    ...(await importOriginal<typeof import('@careersignal/llm')>()),
+    complete: vi.fn(),
+    embedBatch: vi.fn(async (texts: string[]) => {
+      embedded.texts.push(...texts);
+      return keywordEmbeddings(texts, KEYWORDS);
+    }),
+  };
+});
+
+vi.mock('@careersignal/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@careersignal/db')>()),
+  findCompanyByNameOrDomain: vi.fn().mockResolvedValue(null),
+  listApplicationAnswers: vi.fn().mockResolvedValue([
+    {
+      id: 'sponsor',
+      userId: 'u1',
+      questionKey: 'sponsorship',
+      question: 'Will you now or in the future require visa sponsorship?',
+      answer: 'No',
+      companyId: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+    {
+      id: 'why-general',
+      userId: 'u1',
+      questionKey: 'why_company',
+      question: 'Why do you want to work at this company?',
+      answer: 'I have wanted to work at Globex for years.',
+      companyId: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+  ]),
+}));
+
+import { fillFromAnswerBank } from '@/lib/answer-bank';
+
+function field(overrides: Partial<FormAnswer> & Pick<FormAnswer, 'name' | 'label'>): FormAnswer {
+  return {
+    type: 'TEXT',
+    required: true,
+    mappedProfileField: null,
+    value: null,
+    confidence: 0,
+    needsInput: true,
+    ...overrides,
+  };
+}
+
+describe('fillFromAnswerBank', () => {
+  it('fills profile-mapped fields the profile left empty and leaves answered fields alone', async () => {
+    const sheet: AnswerSheet = {
+      applyUrl: 'https://jobs.example.com/1',
+      formUrl: null,
+      answers: [
+        field({
+          name: 'email',
+          label: 'Email',
+          mappedProfileField: 'email',
+          value: 'sam@example.com',
+          confidence: 0.9,
+          needsInput: false,
+          source: 'profile',
+        }),
+        field({
+          name: 'sponsor',
+          label: 'Do you require sponsorship?',
+          type: 'SELECT',
+          options: ['Yes', 'No'],
+          mappedProfileField: 'sponsorshipRequired',
+        }),
+        field({ name: 'resume', label: 'Resume', type: 'FILE', mappedProfileField: 'resume' }),
+      ],
+      requiredDocuments: [],
+      blockers: [],
+      unansweredRequired: 2,
+      createdAt: new Date().toISOString(),
+    };
+
+    const filled = await fillFromAnswerBank({} as Db, 'u1', { jobSummary: null }, sheet);
+    const byName = Object.fromEntries(filled.answers.map((a) => [a.name, a]));
+    expect(byName.sponsor).toMatchObject({ value: 'No', source: 'answer_bank', needsInput: false });
+    expect(byName.email).toEqual(sheet.answers[0]);
+    expect(filled.unansweredRequired).toBe(1);
+    // Only the open, non-file field is sent for matching
+    expect(embedded.texts).toContain('Do you require sponsorship?');
+    expect(embedded.texts).not.toContain('Email');
+    expect(embedded.texts).not.toContain('Resume');
+  });
+
+  it('does not reuse a general answer to a company-specific question', async () => {
+    const sheet: AnswerSheet = {
+      applyUrl: 'https://jobs.example.com/1',
+      formUrl: null,
+      answers: [
+        field({ name: 'why', label: 'Why do you want to work at Acme?', type: 'TEXTAREA' }),
+      ],
+      requiredDocuments: [],
+      blockers: [],
+      unansweredRequired: 1,
+      createdAt: new Date().toISOString(),
+    };
+
+    const filled = await fillFromAnswerBank({} as Db, 'u1', { jobSummary: null }, sheet);
+    expect(filled.answers[0]).toMatchObject({
+      questionKey: 'why_company',
+      companySpecific: true,
+      value: null,
+      needsInput: true,
+    });
+  });
+});
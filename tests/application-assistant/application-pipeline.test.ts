@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computePipelineFunnel,
+  reachedStages,
+  type PipelineItem,
+} from '@/lib/application-pipeline';
+
+describe('reachedStages', () => {
+  it('implies applied and interviewing from an offer', () => {
+    const reached = reachedStages({ id: 'a', status: 'offer', matchGrade: 'A' });
+    expect([...reached].sort()).toEqual(['applied', 'interviewing', 'offer']);
+  });
+
+  it('keeps stages from history after a rejection', () => {
+    const reached = reachedStages({ id: 'a', status: 'rejected', matchGrade: null }, [
+      { analysisId: 'a', toStatus: 'applied' },
+      { analysisId: 'a', toStatus: 'interviewing' },
+    ]);
+    expect(reached.has('interviewing')).toBe(true);
+    expect(reached.has('offer')).toBe(false);
+  });
+});
+
+describe('computePipelineFunnel', () => {
+  const items: PipelineItem[] = [
+    { id: '1', status: 'saved', matchGrade: 'B' },
+    { id: '2', status: 'applied', matchGrade: 'B' },
+    { id: '3', status: 'rejected', matchGrade: 'A' },
+    { id: '4', status: 'offer', matchGrade: 'A' },
+    { id: '5', status: 'withdrawn', matchGrade: null },
+  ];
+  const events = [
+    { analysisId: '3', toStatus: 'applied' as const },
+    { analysisId: '3', toStatus: 'interviewing' as const },
+    { analysisId: '3', toStatus: 'rejected' as const },
+  ];
+
+  it('counts current stages and conversion rates from history', () => {
+    const funnel = computePipelineFunnel(items, events);
+    expect(funnel.total).toBe(5);
+    expect(funnel.counts.saved).toBe(1);
+    expect(funnel.counts.rejected).toBe(1);
+    expect(funnel.steps.map((s) => [s.fromCount, s.toCount])).toEqual([
+      [5, 3],
+      [3, 2],
+      [2, 1],
+    ]);
+    expect(funnel.steps[2]!.rate).toBe(0.5);
+  });
+
+  it('breaks rates down per match grade with ungraded last', () => {
+    const funnel = computePipelineFunnel(items, events);
+    expect(funnel.byGrade.map((g) => g.grade)).toEqual(['A', 'B', 'Ungraded']);
+    const a = funnel.byGrade[0]!;
+    expect(a.steps[0]!.rate).toBe(1);
+    expect(a.steps[1]!.rate).toBe(1);
+    expect(funnel.byGrade[2]!.steps[1]!.rate).toBeNull();
+  });
+});
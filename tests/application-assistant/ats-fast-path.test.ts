@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { fetchAtsPosting, parseAtsPostingUrl } from '@careersignal/core';
+import {
+  atsHtmlToText,
+  atsPostingToJobDetail,
+  extractRequirementsFromHtml,
+} from '@/lib/ats-fast-path';
+
+const LEVER_ID = '5ac21346-8e0c-4494-8e7a-3eb92ff77902';
+
+function stubFetch(body: unknown) {
+  const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(body) });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('parseAtsPostingUrl', () => {
+  it('recognises Greenhouse, Lever and Ashby posting URLs', () => {
+    expect(parseAtsPostingUrl('https://boards.greenhouse.io/acme/jobs/4012345')).toEqual({
+      atsType: 'GREENHOUSE',
+      board: 'acme',
+      postingId: '4012345',
+    });
+    expect(
+      parseAtsPostingUrl('https://boards.greenhouse.io/embed/job_app?for=acme&token=4012345'),
+    ).toMatchObject({ atsType: 'GREENHOUSE', board: 'acme', postingId: '4012345' });
+    expect(parseAtsPostingUrl(`https://jobs.eu.lever.co/acme/${LEVER_ID}/apply`)).toEqual({
+      atsType: 'LEVER',
+      board: 'acme',
+      postingId: LEVER_ID,
+      eu: true,
+    });
+    expect(
+      parseAtsPostingUrl(`https://jobs.ashbyhq.com/acme/${LEVER_ID}/application`),
+    ).toMatchObject({ atsType: 'ASHBY', board: 'acme', postingId: LEVER_ID });
+  });
+
+  it('returns null for board pages and non-ATS URLs', () => {
+    expect(parseAtsPostingUrl('https://boards.greenhouse.io/acme')).toBeNull();
+    expect(parseAtsPostingUrl('https://jobs.lever.co/acme')).toBeNull();
+    expect(parseAtsPostingUrl('https://acme.com/careers?gh_jid=4012345')).toBeNull();
+    expect(parseAtsPostingUrl('not a url')).toBeNull();
+  });
+});
+
+describe('ATS fast path', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('builds a JobDetail from a Greenhouse posting without the browser', async () => {
+    const fixture = JSON.parse(
+      await readFile(
+        join(process.cwd(), 'tests', 'fixtures', 'greenhouse-job-response.json'),
+        'utf-8',
+      ),
+    );
+    const fetchMock = stubFetch(fixture);
+
+    const posting = await fetchAtsPosting('https://job-boards.greenhouse.io/vaulttec/jobs/4012345');
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://boards-api.greenhouse.io/v1/boards/vaulttec/jobs/4012345?pay_transparency=true',
+    );
+    const detail = atsPostingToJobDetail(posting!);
+
+    expect(detail.title).toBe('Staff Data Engineer');
+    expect(detail.company).toBe('Vault-Tec');
+    expect(detail.location).toBe('Remote - US');
+    expect(detail.department).toBe('Data Platform');
+    expect(detail.salary).toBe('USD 180000 - 220000');
+    expect(detail.applyUrl).toBe('https://job-boards.greenhouse.io/vaulttec/jobs/4012345');
+    expect(detail.description).toContain('Vault-Tec is hiring a Staff Data Engineer');
+    expect(detail.description).toContain('- Experience with Airflow & dbt');
+    expect(detail.description).not.toMatch(/<|&lt;/);
+    expect(detail.requirements).toEqual([
+      '8+ years building data pipelines',
+      'Expert Python and SQL',
+      'Experience with Airflow & dbt',
+    ]);
+  });
+
+  it('stitches Lever lists into the description and formats the salary range', async () => {
+    stubFetch({
+      id: LEVER_ID,
+      text: 'Backend Engineer',
+      hostedUrl: `https://jobs.lever.co/acme-robotics/${LEVER_ID}`,
+      applyUrl: `https://jobs.lever.co/acme-robotics/${LEVER_ID}/apply`,
+      categories: { location: 'Boston, MA', commitment: 'Full-time' },
+      workplaceType: 'onsite',
+      description: '<div>Join us.</div>',
+      descriptionPlain: 'Join us.',
+      lists: [{ text: 'Requirements', content: '<li>Go</li><li>Postgres</li>' }],
+      salaryRange: { min: 140000, max: 170000, currency: 'USD', interval: 'per-year-salary' },
+    });
+
+    const posting = await fetchAtsPosting(`https://jobs.lever.co/acme-robotics/${LEVER_ID}`);
+    const detail = atsPostingToJobDetail(posting!);
+
+    expect(detail.company).toBe('Acme Robotics');
+    expect(detail.remoteType).toBe('ONSITE');
+    expect(detail.salary).toBe('USD 140000 - 170000 per year salary');
+    expect(detail.requirements).toEqual(['Go', 'Postgres']);
+    expect(detail.description).toContain('Requirements');
+  });
+
+  it('throws on API errors so the runner can fall back to the browser', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }),
+    );
+    await expect(fetchAtsPosting('https://boards.greenhouse.io/acme/jobs/1')).rejects.toThrow(
+      'Greenhouse API error: 404 Not Found',
+    );
+    expect(await fetchAtsPosting('https://example.com/jobs/1')).toBeNull();
+  });
+
+  it('only takes list items under requirement-style headings', () => {
+    const html =
+      '<p><strong>Perks</strong></p><ul><li>Snacks</li></ul>' +
+      '<p><b>Qualifications</b></p><p>Ideally:</p><ol><li>Rust</li></ol>';
+    expect(extractRequirementsFromHtml(html)).toEqual(['Rust']);
+  });
+
+  it('keeps malformed and out-of-range numeric entities as written', () => {
+    expect(atsHtmlToText('<p>A &#bad; B &#99999999; C &#x1F600; &rsquo;s</p>')).toBe(
+      'A &#bad; B &#99999999; C \u{1F600} ’s',
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { Page } from 'playwright';
+import type { getDb } from '@careersignal/db';
+
+vi.mock('@/lib/application-assistant-planner', () => ({
+  transitionAssistantStep: vi.fn().mockResolvedValue(undefined),
+}));
+
+import {
+  assistantLog,
+  clearAssistantRunning,
+  getAssistantLogs,
+  getAssistantStatus,
+  hasAssistantCapacity,
+  listAssistantRuns,
+  registerAssistantRun,
+  resolveWaitingRun,
+  setAssistantAbortController,
+  setAssistantStep,
+} from '@/lib/application-assistant-state';
+import { stopAssistantRun } from '@/lib/application-assistant-stop';
+import {
+  cancelLoginWait,
+  isWaitingForLoginSolve,
+  registerLoginWait,
+  signalLoggedIn,
+} from '@/lib/login-wall-state';
+
+const fakePage = (html: string) => ({ content: async () => html }) as unknown as Page;
+
+describe('concurrent Application Assistant runs', () => {
+  const original = process.env.APPLICATION_ASSISTANT_MAX_CONCURRENT_RUNS;
+  afterEach(() => {
+    for (const run of listAssistantRuns()) clearAssistantRunning(run.analysisId);
+    if (original === undefined) delete process.env.APPLICATION_ASSISTANT_MAX_CONCURRENT_RUNS;
+    else process.env.APPLICATION_ASSISTANT_MAX_CONCURRENT_RUNS = original;
+  });
+
+  it('keeps step and logs separate per analysis', () => {
+    registerAssistantRun('a1', 'u1');
+    registerAssistantRun('a2', 'u1');
+    setAssistantStep('a1', 'matching');
+    const first = assistantLog('a1', 'Matcher', 'scored', { id: 'log-1' });
+    assistantLog('a1', 'Matcher', 'done', { id: 'log-2' });
+    assistantLog('a2', 'Fetcher', 'fetching', { id: 'log-3' });
+
+    expect(first?.id).toBe('log-1');
+    expect(getAssistantStatus('a1')?.currentStep).toBe('matching');
+    expect(getAssistantStatus('a2')?.currentStep).toBe('scraping');
+    expect(getAssistantLogs('a1', 'log-1')?.map((l) => l.message)).toEqual(['done']);
+    expect(getAssistantLogs('a2')?.map((l) => l.message)).toEqual(['fetching']);
+    // Unknown cursor or finished run: caller falls back to the DB
+    expect(getAssistantLogs('a1', 'log-3')).toBeNull();
+    clearAssistantRunning('a1');
+    expect(getAssistantStatus('a1')).toBeNull();
+    expect(getAssistantLogs('a1')).toBeNull();
+  });
+
+  it('caps runs across users at the configured limit', () => {
+    process.env.APPLICATION_ASSISTANT_MAX_CONCURRENT_RUNS = '2';
+    registerAssistantRun('a1', 'u1');
+    expect(hasAssistantCapacity()).toBe(true);
+    registerAssistantRun('a2', 'u2');
+    expect(hasAssistantCapacity()).toBe(false);
+    // Re-registering the same run doesn't take another slot
+    registerAssistantRun('a2', 'u2');
+    expect(listAssistantRuns()).toHaveLength(2);
+    expect(listAssistantRuns('u2').map((r) => r.analysisId)).toEqual(['a2']);
+    clearAssistantRunning('a1');
+    expect(hasAssistantCapacity()).toBe(true);
+  });
+
+  it('resolves login waits per analysis and only for the owning user', async () => {
+    registerAssistantRun('a1', 'u1');
+    registerAssistantRun('a2', 'u2');
+    const wait1 = registerLoginWait('a1', fakePage('<html>one</html>'));
+    const wait2 = registerLoginWait('a2', fakePage('<html>two</html>'));
+
+    expect(resolveWaitingRun('u2', 'a1', isWaitingForLoginSolve)).toBeNull();
+    expect(resolveWaitingRun('u2', undefined, isWaitingForLoginSolve)).toBe('a2');
+
+    await signalLoggedIn('a2');
+    await expect(wait2).resolves.toBe('<html>two</html>');
+    expect(isWaitingForLoginSolve('a1')).toBe(true);
+    expect(isWaitingForLoginSolve('a2')).toBe(false);
+
+    cancelLoginWait('a1', new Error('Stopped by user'));
+    await expect(wait1).rejects.toThrow('Stopped by user');
+  });
+
+  it('keeps a stopped run in its slot until the pipeline finishes', async () => {
+    process.env.APPLICATION_ASSISTANT_MAX_CONCURRENT_RUNS = '1';
+    registerAssistantRun('a1', 'u1');
+    const controller = new AbortController();
+    setAssistantAbortController('a1', controller);
+
+    await stopAssistantRun({} as ReturnType<typeof getDb>, 'a1');
+    expect(controller.signal.aborted).toBe(true);
+    expect(hasAssistantCapacity()).toBe(false);
+
+    // The pipeline's finally block frees the slot.
+    clearAssistantRunning('a1');
+    expect(hasAssistantCapacity()).toBe(true);
+  });
+});
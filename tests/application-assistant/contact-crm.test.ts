@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ContactRow, getDb } from '@careersignal/db';
+
+const person = vi.hoisted(
+  () => (id: string, name: string) => ({ id, companyId: 'co1', name }) as ContactRow,
+);
+
+vi.mock('@careersignal/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@careersignal/db')>()),
+  listContactInteractions: vi.fn().mockResolvedValue([]),
+  getContactsByIds: vi.fn().mockResolvedValue([]),
+  listAnalysesByUser: vi.fn().mockResolvedValue([
+    {
+      id: 'a1',
+      jobSummary: { title: 'Backend Engineer', company: 'Acme' },
+      contacts: { ranked: [{ name: 'Jane Doe' }] },
+    },
+  ]),
+  findCompanyByNameOrDomain: vi.fn().mockResolvedValue({ id: 'co1', name: 'Acme' }),
+  getCompanyById: vi.fn().mockResolvedValue({ id: 'co1', name: 'Acme' }),
+  listContactsByCompanyId: vi
+    .fn()
+    .mockResolvedValue([person('c1', 'Jane Doe'), person('c2', 'Someone Else')]),
+}));
+
+import {
+  channelForDraftPlatform,
+  defaultFollowUpAt,
+  describeRecentInteraction,
+  isFollowUpDue,
+  isUserContact,
+  listUserContactsByCompany,
+  type CrmContact,
+} from '@/lib/contact-crm';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const contact = (interaction: Partial<CrmContact['interactions'][number]>): CrmContact => ({
+  id: 'c1',
+  name: 'Jane Doe',
+  role: null,
+  email: null,
+  linkedinUrl: null,
+  interactions: [
+    {
+      id: 'i1',
+      channel: 'email',
+      outcome: 'sent',
+      occurredAt: '2026-03-01T12:00:00Z',
+      followUpAt: '2026-03-08T12:00:00Z',
+      note: null,
+      draft: null,
+      analysisId: null,
+      jobTitle: null,
+      ...interaction,
+    },
+  ],
+});
+
+describe('contact CRM helpers', () => {
+  it('describes how recently a contact was reached', () => {
+    const interaction = {
+      occurredAt: new Date('2026-03-07T09:00:00Z'),
+      channel: 'email' as const,
+      outcome: 'sent' as const,
+    };
+    expect(describeRecentInteraction('Jane Doe', interaction, now)).toBe(
+      'Jane Doe was contacted 3 days ago via email (no reply yet).',
+    );
+    expect(
+      describeRecentInteraction(
+        'Jane Doe',
+        { ...interaction, occurredAt: now, outcome: 'no_reply' },
+        now,
+      ),
+    ).toBe('Jane Doe was contacted today via email (no reply).');
+  });
+
+  it('maps draft platforms to interaction channels', () => {
+    expect(channelForDraftPlatform('LINKEDIN_CONNECTION')).toBe('linkedin');
+    expect(channelForDraftPlatform('EMAIL')).toBe('email');
+    expect(channelForDraftPlatform(undefined)).toBe('other');
+  });
+
+  it('suggests a follow-up a week out', () => {
+    expect(defaultFollowUpAt(now).toISOString()).toBe('2026-03-17T12:00:00.000Z');
+  });
+
+  it('flags follow-ups only while waiting on a reply', () => {
+    expect(isFollowUpDue(contact({}), now)).toBe(true);
+    expect(isFollowUpDue(contact({ outcome: 'replied' }), now)).toBe(false);
+    expect(isFollowUpDue(contact({ followUpAt: '2026-03-12T12:00:00Z' }), now)).toBe(false);
+    expect(isFollowUpDue(contact({ followUpAt: null }), now)).toBe(false);
+  });
+
+  it("lists contacts the user's analyses ranked before any interaction is logged", async () => {
+    const db = {} as ReturnType<typeof getDb>;
+    const companies = await listUserContactsByCompany(db, 'u1');
+    expect(companies).toHaveLength(1);
+    expect(companies[0]?.companyName).toBe('Acme');
+    // Another user's contact at the same company is not listed.
+    expect(companies[0]?.contacts.map((c) => [c.name, c.interactions])).toEqual([['Jane Doe', []]]);
+    expect(await isUserContact(db, 'u1', 'c1')).toBe(true);
+    expect(await isUserContact(db, 'u1', 'c2')).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { AnalysisRow, Db } from '@careersignal/db';
+
+const seen = vi.hoisted(() => ({ files: [] as unknown[], userDir: '' }));
+
+vi.mock('playwright', () => ({
+  chromium: {
+    launch: vi.fn(async () => ({
+      newPage: async () => ({}),
+      close: async () => {},
+      on: () => {},
+    })),
+  },
+}));
+
+vi.mock('@careersignal/agents', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@careersignal/agents')>()),
+  fillApplicationForm: vi.fn(
+    async (_page: unknown, _sheet: unknown, options: { files: unknown }) => {
+      seen.files.push(options.files);
+      return [];
+    },
+  ),
+}));
+
+vi.mock('@careersignal/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@careersignal/db')>()),
+  getProfileByUserId: vi.fn().mockResolvedValue({ resumeFileRef: 'resume.pdf' }),
+  getResumeById: vi.fn(async (_db: unknown, id: string) =>
+    id === 'r-backend' ? { id, name: 'Backend', fileRef: 'r-backend.pdf' } : null,
+  ),
+  insertAnalysisLog: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('@/lib/user-data', () => ({ getUserDataDir: vi.fn(async () => seen.userDir) }));
+
+vi.mock('@/lib/tailored-resume-pdf', () => ({
+  writeTailoredResumePdfToRunFolder: vi.fn(async () => '/runs/r1/tailored-resume.pdf'),
+}));
+
+import { startGuidedApply } from '@/lib/guided-apply';
+import {
+  beginOpeningApplyForm,
+  endApplyHandoff,
+  finishOpeningApplyForm,
+} from '@/lib/guided-apply-state';
+
+function analysis(overrides: Partial<AnalysisRow> = {}): AnalysisRow {
+  return {
+    id: 'a1',
+    userId: 'u1',
+    runFolderName: null,
+    resumeId: null,
+    tailoredResume: null,
+    coverLetters: null,
+    applicationBlueprint: { applyUrl: 'https://jobs.example.com/1', formUrl: null, answers: [] },
+    ...overrides,
+  } as unknown as AnalysisRow;
+}
+
+async function uploadedResume(row: AnalysisRow): Promise<unknown> {
+  seen.files = [];
+  await startGuidedApply({} as Db, row, 'sam@example.com');
+  endApplyHandoff(row.id);
+  return (seen.files[0] as { resume: unknown }).resume;
+}
+
+describe('guided apply', () => {
+  beforeAll(() => {
+    seen.userDir = mkdtempSync(path.join(tmpdir(), 'guided-apply-'));
+    mkdirSync(path.join(seen.userDir, 'resumes'));
+    writeFileSync(path.join(seen.userDir, 'resume.pdf'), 'profile');
+    writeFileSync(path.join(seen.userDir, 'resumes', 'r-backend.pdf'), 'backend');
+  });
+
+  afterAll(() => {
+    rmSync(seen.userDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    endApplyHandoff('a1');
+  });
+
+  it('uploads the resume version the analysis ran against', async () => {
+    expect(await uploadedResume(analysis({ resumeId: 'r-backend' }))).toBe(
+      path.join(seen.userDir, 'resumes', 'r-backend.pdf'),
+    );
+  });
+
+  it('prefers the approved tailored resume and falls back to the profile resume', async () => {
+    const approved = { status: 'approved', items: [], education: [], skills: [] };
+    expect(
+      await uploadedResume(
+        analysis({ resumeId: 'r-backend', runFolderName: 'r1', tailoredResume: approved }),
+      ),
+    ).toBe('/runs/r1/tailored-resume.pdf');
+    expect(
+      await uploadedResume(
+        analysis({ tailoredResume: { ...approved, status: 'draft' }, resumeId: 'deleted' }),
+      ),
+    ).toBe(path.join(seen.userDir, 'resume.pdf'));
+  });
+
+  it('lets only one request open the form at a time', () => {
+    expect(beginOpeningApplyForm('a2')).toBe(true);
+    expect(beginOpeningApplyForm('a2')).toBe(false);
+    finishOpeningApplyForm('a2');
+    expect(beginOpeningApplyForm('a2')).toBe(true);
+    finishOpeningApplyForm('a2');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// The disk module resolves its data root from cwd at import time; point it at a temp dir.
+let tmp: string;
+let disk: typeof import('@/lib/application-assistant-disk');
+
+beforeAll(async () => {
+  tmp = await mkdtemp(join(tmpdir(), 'aa-checkpoints-'));
+  vi.spyOn(process, 'cwd').mockReturnValue(join(tmp, 'apps', 'web'));
+  vi.resetModules();
+  disk = await import('@/lib/application-assistant-disk');
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  await rm(tmp, { recursive: true, force: true });
+});
+
+describe('run checkpoints', () => {
+  it('saves step outputs alongside orchestrator memory and reads them back', async () => {
+    const folder = 'jane-doe_2026-10-19-10-00-00';
+    expect(await disk.readRunCheckpoints(folder)).toEqual({});
+
+    await disk.updateOrchestratorMemory(folder, {
+      currentStep: 'extracting',
+      step: { step: 'extract', outputSummary: '"Engineer" at Acme' },
+    });
+    await disk.saveRunCheckpoint(folder, 'extract', { resolvedUrl: 'https://acme.com/jobs/1' });
+    await disk.saveRunCheckpoint(folder, 'match', { overallScore: 82 });
+    await disk.updateOrchestratorMemory(folder, { currentStep: 'matching' });
+
+    const memory = await disk.readOrchestratorMemory(folder);
+    expect(memory.currentStep).toBe('matching');
+    expect(memory.steps.extract?.outputSummary).toBe('"Engineer" at Acme');
+    expect(await disk.readRunCheckpoints(folder)).toEqual({
+      extract: { resolvedUrl: 'https://acme.com/jobs/1' },
+      match: { overallScore: 82 },
+    });
+  });
+
+  it('reports the last checkpointed step in pipeline order', () => {
+    expect(disk.lastCheckpointStep({})).toBeNull();
+    expect(disk.lastCheckpointStep({ extract: {}, match: {} })).toBe('match');
+    expect(disk.lastCheckpointStep({ coverLetters: {}, extract: {}, resume: {} })).toBe(
+      'coverLetters',
+    );
+  });
+});
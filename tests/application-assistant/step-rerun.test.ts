@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AnalysisRow, Db } from '@careersignal/db';
+import { getAssistantRun } from '@/lib/application-assistant-state';
+
+const seen = vi.hoisted(() => ({ registered: false }));
+
+vi.mock('@careersignal/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@careersignal/db')>()),
+  getProfileByUserId: vi.fn().mockResolvedValue({ name: 'Sam Lee', skills: ['Go'] }),
+  getPreferencesByUserId: vi.fn().mockResolvedValue(null),
+  insertStepHistory: vi.fn().mockResolvedValue(undefined),
+  updateAnalysis: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('@careersignal/agents', async (importOriginal) => {
+  const { getAssistantRun: runOf } = await import('@/lib/application-assistant-state');
+  return {
+    ...(await importOriginal<typeof import('@careersignal/agents')>()),
+    generateInterviewPrep: vi.fn(async () => {
+      seen.registered = runOf('a1') != null;
+      return ['Talk about the Go migration'];
+    }),
+  };
+});
+
+import {
+  isRerunStep,
+  rerunAnalysisStep,
+  stepOutputSnapshot,
+} from '@/lib/application-assistant-rerun';
+
+const analysis = {
+  id: 'a1',
+  userId: 'u1',
+  matchScore: 72,
+  matchGrade: 'B',
+  matchRationale: 'Strong backend fit',
+  matchBreakdown: null,
+  strictFilterRejects: null,
+  matchEvidence: { summary: 'Strong backend fit' },
+  interviewPrepBullets: null,
+  contacts: null,
+  contactsEvidence: null,
+} as unknown as AnalysisRow;
+
+describe('step re-run', () => {
+  it('accepts only re-runnable steps', () => {
+    expect(isRerunStep('match')).toBe(true);
+    expect(isRerunStep('companyResearch')).toBe(true);
+    expect(isRerunStep('coverLetters')).toBe(false);
+    expect(isRerunStep(undefined)).toBe(false);
+  });
+
+  it("snapshots exactly the fields a step writes, or null when it hasn't run", () => {
+    expect(stepOutputSnapshot(analysis, 'match')).toEqual({
+      matchScore: 72,
+      matchGrade: 'B',
+      matchRationale: 'Strong backend fit',
+      matchBreakdown: null,
+      strictFilterRejects: null,
+      matchEvidence: { summary: 'Strong backend fit' },
+      requirementEvidence: null,
+    });
+    expect(stepOutputSnapshot(analysis, 'interviewPrep')).toBeNull();
+    expect(stepOutputSnapshot(analysis, 'outreach')).toBeNull();
+  });
+
+  it('holds an assistant run slot for the analysis while the step runs', async () => {
+    const result = await rerunAnalysisStep(
+      {} as Db,
+      analysis,
+      { title: 'Backend Engineer', company: 'Acme' } as never,
+      'interviewPrep',
+    );
+    expect(result).toEqual({ summary: '1 talking point(s)', archived: false });
+    expect(seen.registered).toBe(true);
+    expect(getAssistantRun('a1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const KEYWORDS = ['sponsorship', 'why', 'notice', 'color'];
+vi.mock('@careersignal/llm', async (importOriginal) => {
+  const { keywordEmbeddings } = await import('../helpers/keyword-embeddings');
+  return {
+    ...(await importOriginal<typeof import('@careersignal/llm')>()),
+    complete: vi.fn(async () => ' no '),
+    embedBatch: vi.fn(async (texts: string[]) => keywordEmbeddings(texts, KEYWORDS)),
+  };
+});
+
+import {
+  applyAnswerBank,
+  customQuestionKey,
+  draftApplicationAnswer,
+  matchFieldsToAnswerBank,
+  type AnswerBankEntry,
+  type AnswerSheet,
+  type JobDetail,
+} from '@careersignal/agents';
+
+const entries: AnswerBankEntry[] = [
+  {
+    id: 'general',
+    questionKey: 'why_company',
+    question: 'Why do you want to work at this company?',
+    answer: 'General answer',
+    companyId: null,
+  },
+  {
+    id: 'acme',
+    questionKey: 'why_company',
+    question: 'Why do you want to work at this company?',
+    answer: 'Acme answer',
+    companyId: 'acme-id',
+  },
+  {
+    id: 'sponsor',
+    questionKey: 'sponsorship',
+    question: 'Will you now or in the future require visa sponsorship?',
+    answer: 'No',
+    companyId: null,
+  },
+];
+
+const fields = [
+  { name: 'q1', label: 'Why are you excited about joining us?' },
+  { name: 'q2', label: 'Do you require sponsorship?' },
+  { name: 'q3', label: 'What is your notice period?' },
+  { name: 'q4', label: 'Favorite color' },
+];
+
+describe('answer bank agent', () => {
+  it('matches labels to question keys, preferring the company override', async () => {
+    const matches = await matchFieldsToAnswerBank(fields, entries, { companyId: 'acme-id' });
+    expect(matches.map((m) => [m.fieldName, m.questionKey, m.entry?.id ?? null])).toEqual([
+      ['q1', 'why_company', 'acme'],
+      ['q2', 'sponsorship', 'sponsor'],
+      ['q3', 'notice_period', null],
+    ]);
+    const other = await matchFieldsToAnswerBank(fields.slice(0, 2), entries, {
+      companyId: 'other-id',
+    });
+    // why_company answers name a company: the general one is not reused for another company
+    expect(other.map((m) => [m.questionKey, m.entry?.id ?? null])).toEqual([
+      ['why_company', null],
+      ['sponsorship', 'sponsor'],
+    ]);
+  });
+
+  it('fills open answers from matched entries and recounts required inputs', async () => {
+    const sheet: AnswerSheet = {
+      applyUrl: 'https://jobs.example.com/1',
+      formUrl: null,
+      answers: [
+        {
+          name: 'q2',
+          label: 'Do you require sponsorship?',
+          type: 'RADIO',
+          required: true,
+          options: ['Yes', 'No'],
+          mappedProfileField: null,
+          value: null,
+          confidence: 0,
+          needsInput: true,
+        },
+        {
+          name: 'q3',
+          label: 'What is your notice period?',
+          type: 'TEXT',
+          required: true,
+          mappedProfileField: null,
+          value: null,
+          confidence: 0,
+          needsInput: true,
+        },
+      ],
+      requiredDocuments: [],
+      blockers: [],
+      unansweredRequired: 2,
+      createdAt: new Date().toISOString(),
+    };
+    const filled = applyAnswerBank(sheet, await matchFieldsToAnswerBank(fields, entries));
+    expect(filled.answers[0]).toMatchObject({
+      value: 'No',
+      source: 'answer_bank',
+      questionKey: 'sponsorship',
+      needsInput: false,
+    });
+    expect(filled.answers[1]).toMatchObject({ value: null, questionKey: 'notice_period' });
+    expect(filled.unansweredRequired).toBe(1);
+  });
+
+  it('keys custom questions by their wording', () => {
+    expect(customQuestionKey('Have you used Rust in production?')).toBe(
+      'custom_have_you_used_rust_in_production',
+    );
+  });
+
+  it('snaps drafted answers to one of the options', async () => {
+    const job = { title: 'Engineer', company: 'Acme', description: '' } as JobDetail;
+    expect(
+      await draftApplicationAnswer('Do you require sponsorship?', job, { options: ['Yes', 'No'] }),
+    ).toBe('No');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAnswerSheet,
+  fillFormFields,
+  findApplyLink,
+  mapFieldsToProfile,
+  parseFormFields,
+  type ApplicationBlueprint,
+} from '@careersignal/agents';
+
+const FORM_HTML = `
+<html><body>
+  <form id="search"><input name="q" type="search"></form>
+  <form id="application" action="/submit">
+    <label for="first_name">First Name *</label><input id="first_name" name="first_name">
+    <label for="last_name">Last Name</label><input id="last_name" name="last_name" required>
+    <label>Email <input type="email" name="email" required></label>
+    <input type="tel" name="phone" placeholder="Phone number">
+    <label for="resume">Resume/CV</label><input type="file" id="resume" name="resume" required>
+    <label for="q1">Are you legally authorized to work in the United States?</label>
+    <select id="q1" name="question_123" required>
+      <option value="">Select...</option><option>Yes</option><option>No</option>
+    </select>
+    <fieldset>
+      <legend>Will you now or in the future require visa sponsorship? *</legend>
+      <label><input type="radio" name="question_456" value="1"> Yes</label>
+      <label><input type="radio" name="question_456" value="0"> No</label>
+    </fieldset>
+    <label for="why">Why do you want to work here?</label>
+    <textarea id="why" name="question_789" required></textarea>
+    <input type="hidden" name="token" value="x">
+    <button type="submit">Submit</button>
+  </form>
+</body></html>`;
+
+describe('application blueprint agent', () => {
+  it('parses fields from the largest form with labels, types and required flags', () => {
+    const fields = parseFormFields(FORM_HTML);
+    expect(fields.map((f) => [f.name, f.label, f.type, f.required])).toEqual([
+      ['first_name', 'First Name', 'TEXT', true],
+      ['last_name', 'Last Name', 'TEXT', true],
+      ['email', 'Email', 'EMAIL', true],
+      ['phone', 'Phone number', 'PHONE', false],
+      ['resume', 'Resume/CV', 'FILE', true],
+      ['question_123', 'Are you legally authorized to work in the United States?', 'SELECT', true],
+      ['question_456', 'Will you now or in the future require visa sponsorship?', 'RADIO', true],
+      ['question_789', 'Why do you want to work here?', 'TEXTAREA', true],
+    ]);
+    expect(fields[5]!.options).toEqual(['Yes', 'No']);
+    expect(fields[6]!.options).toEqual(['Yes', 'No']);
+  });
+
+  it("treats Lever's ✱ as a required marker", () => {
+    const fields = parseFormFields(`
+      <form>
+        <label for="name">Full name ✱</label><input id="name" name="name">
+        <label for="org">Current company</label><input id="org" name="org">
+      </form>`);
+    expect(fields.map((f) => [f.label, f.required])).toEqual([
+      ['Full name', true],
+      ['Current company', false],
+    ]);
+  });
+
+  it('maps custom questions by whole words in the label', async () => {
+    const mapped = await mapFieldsToProfile(parseFormFields(FORM_HTML));
+    expect(mapped.map((f) => f.mappedProfileField ?? null)).toEqual([
+      'firstName',
+      'lastName',
+      'email',
+      'phone',
+      'resume',
+      'workAuthorization',
+      'sponsorshipRequired',
+      null,
+    ]);
+  });
+
+  it('fills answers from applicant values and flags required fields it cannot answer', async () => {
+    const mapped = await mapFieldsToProfile(parseFormFields(FORM_HTML));
+    const answers = fillFormFields(mapped, {
+      firstName: 'Sam',
+      lastName: 'Lee',
+      email: 'sam@example.com',
+      workAuthorization: 'Yes',
+      sponsorshipRequired: 'Maybe',
+    });
+    const byName = Object.fromEntries(answers.map((a) => [a.name, a]));
+    expect(byName.first_name!.value).toBe('Sam');
+    expect(byName.question_123!.value).toBe('Yes');
+    // Not one of the options
+    expect(byName.question_456!.value).toBeNull();
+    expect(answers.filter((a) => a.needsInput).map((a) => a.name)).toEqual([
+      'resume',
+      'question_456',
+      'question_789',
+    ]);
+    expect(byName.phone!.needsInput).toBe(false);
+  });
+
+  it('builds an answer sheet from a blueprint', async () => {
+    const fields = await mapFieldsToProfile(parseFormFields(FORM_HTML));
+    const blueprint: ApplicationBlueprint = {
+      id: 'bp',
+      jobId: 'job',
+      applyUrl: 'https://jobs.example.com/1',
+      steps: [
+        {
+          order: 1,
+          description: 'Open',
+          url: 'https://jobs.example.com/1/apply',
+          fields: [],
+          isComplete: false,
+        },
+        { order: 2, description: 'Fill', fields, isComplete: false },
+      ],
+      requiredDocuments: ['resume'],
+      blockers: [],
+      createdAt: new Date().toISOString(),
+    };
+    const sheet = buildAnswerSheet(blueprint, { resume: 'resume.pdf' });
+    expect(sheet.formUrl).toBe('https://jobs.example.com/1/apply');
+    expect(sheet.answers).toHaveLength(8);
+    expect(sheet.unansweredRequired).toBe(6);
+  });
+
+  it('follows only links labelled as apply links', () => {
+    const html = `<a href="/about">About</a><a href="#top">Apply</a>
+      <a href="/jobs/1/application"> Apply   now </a>`;
+    expect(findApplyLink(html, 'https://jobs.example.com/jobs/1')).toBe(
+      'https://jobs.example.com/jobs/1/application',
+    );
+    expect(findApplyLink('<a href="/x">Applying tips</a>', 'https://a.com')).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { Page } from 'playwright';
+import { fillApplicationForm, type AnswerSheet, type FormAnswer } from '@careersignal/agents';
+
+/** Minimal Page stand-in: records every interaction; `names` are the fields on the page. */
+function fakePage(names: string[], radioLabels: string[] = []) {
+  const calls: string[] = [];
+  const locator = (selector: string) => {
+    const name = /\[name="([^"]+)"\]/.exec(selector)?.[1] ?? '';
+    const radios = selector.startsWith('input[type="radio"]');
+    const self = {
+      first: () => self,
+      nth: (i: number) => ({
+        evaluate: async () => radioLabels[i],
+        check: async () => void calls.push(`check ${name}=${radioLabels[i]}`),
+      }),
+      count: async () => (radios ? radioLabels.length : names.includes(name) ? 1 : 0),
+      fill: async (value: string) => void calls.push(`fill ${name}=${value}`),
+      selectOption: async (o: { label: string }) => void calls.push(`select ${name}=${o.label}`),
+      setInputFiles: async (file: string) => void calls.push(`upload ${name}=${file}`),
+      click: async () => void calls.push(`click ${name}`),
+    };
+    return self;
+  };
+  const page = {
+    goto: async (url: string) => void calls.push(`goto ${url}`),
+    waitForLoadState: async () => {},
+    locator,
+  };
+  return { page: page as unknown as Page, calls };
+}
+
+const answer = (a: Partial<FormAnswer> & Pick<FormAnswer, 'name' | 'type'>): FormAnswer => ({
+  label: a.name,
+  required: false,
+  mappedProfileField: null,
+  value: null,
+  confidence: 0,
+  needsInput: false,
+  ...a,
+});
+
+const sheet: AnswerSheet = {
+  applyUrl: 'https://jobs.example.com/1',
+  formUrl: 'https://jobs.example.com/1/apply',
+  answers: [
+    answer({ name: 'email', type: 'EMAIL', value: 'sam@example.com' }),
+    answer({ name: 'country', type: 'SELECT', value: 'Canada' }),
+    answer({ name: 'sponsorship', type: 'RADIO', value: 'No' }),
+    answer({ name: 'resume', type: 'FILE', mappedProfileField: 'resume' }),
+    answer({ name: 'cover', type: 'FILE', mappedProfileField: 'coverLetter' }),
+    answer({ name: 'terms', type: 'CHECKBOX', value: 'I agree' }),
+    answer({ name: 'why', type: 'TEXTAREA', required: true, needsInput: true }),
+    answer({ name: 'missing', type: 'TEXT', value: 'x' }),
+  ],
+  requiredDocuments: ['resume'],
+  blockers: [],
+  unansweredRequired: 1,
+  createdAt: new Date().toISOString(),
+};
+
+describe('guided apply agent', () => {
+  it('fills answered fields, uploads files and never clicks anything', async () => {
+    const { page, calls } = fakePage(
+      ['email', 'country', 'sponsorship', 'resume', 'cover', 'terms', 'why'],
+      ['Yes', 'No'],
+    );
+    const seen: string[] = [];
+    const log = await fillApplicationForm(page, sheet, {
+      files: { resume: '/data/resume.pdf' },
+      onField: (e) => seen.push(e.name),
+    });
+
+    expect(calls).toEqual([
+      'goto https://jobs.example.com/1/apply',
+      'fill email=sam@example.com',
+      'select country=Canada',
+      'check sponsorship=No',
+      'upload resume=/data/resume.pdf',
+    ]);
+    expect(log.map((e) => [e.name, e.action])).toEqual([
+      ['email', 'filled'],
+      ['country', 'selected'],
+      ['sponsorship', 'checked'],
+      ['resume', 'uploaded'],
+      ['cover', 'skipped'],
+      ['terms', 'skipped'],
+      ['why', 'skipped'],
+      ['missing', 'skipped'],
+    ]);
+    expect(log[6]!.reason).toBe('Required — needs your input');
+    expect(log[7]!.reason).toBe('Field not found on the page');
+    expect(seen).toHaveLength(sheet.answers.length);
+  });
+});
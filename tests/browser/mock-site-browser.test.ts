@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { chromium, type Browser, type Page } from 'playwright';
+
+// Offline: any LLM fallback is a test failure, not a network call.
+vi.mock('@careersignal/llm', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@careersignal/llm')>()),
+  complete: vi.fn().mockRejectedValue(new Error('LLM disabled in mock-site tests')),
+}));
+
+import {
+  buildAnswerSheet,
+  createBlueprint,
+  extractJobDetail,
+  fillApplicationForm,
+  navigateToUrl,
+  policyGoto,
+  type ClassificationResult,
+  type JobDetail,
+} from '@careersignal/agents';
+import {
+  classifyJobPage,
+  extractJobFromPage,
+  openJobPage,
+} from '@/lib/application-assistant-browser';
+import { isWaitingForLoginSolve, signalLoggedIn } from '@/lib/login-wall-state';
+import { isWaitingForCaptchaSolve, signalCaptchaSolved } from '@/lib/captcha-state';
+import { toNormalizedJob } from '@/lib/outreach-draft-helpers';
+import {
+  EXPIRED_JOB_PATH,
+  GREENHOUSE_JOB_PATH,
+  LEVER_JOB_PATH,
+  MEMBERS_JOB,
+  PROTECTED_JOB,
+  jobPath,
+  startMockSite,
+  type MockSite,
+} from './mock-site';
+
+/**
+ * Playwright runs of the assistant's single-URL browser path against the local mock site.
+ * Skipped when Playwright's Chromium isn't installed (`npx playwright install chromium`).
+ */
+const hasChromium = existsSync(chromium.executablePath());
+
+/** Stands in for the user in the visible browser while the run waits on them. */
+type UserAction = (page: Page) => Promise<void>;
+
+interface SingleUrlResult {
+  classifications: ClassificationResult['type'][];
+  job: JobDetail | null;
+}
+
+/**
+ * The runner's single-URL browser path (application-assistant-browser.ts): open, clean,
+ * classify, hand login walls and captchas to the user through the same wait/signal state the UI
+ * uses, then extract the posting.
+ */
+async function runSingleUrl(page: Page, url: string, user?: UserAction): Promise<SingleUrlResult> {
+  const runId = `mock-${url}`;
+  const classifications: ClassificationResult['type'][] = [];
+  let userDone: Promise<unknown> = Promise.resolve();
+
+  const opened = await openJobPage(page, url, { settleMs: 0 });
+  const { html, classification } = await classifyJobPage(page, runId, opened.html, page.url(), {
+    statusCode: opened.statusCode,
+    useLlm: false,
+    onCapture: ({ classification: c }) => void classifications.push(c.type),
+    onWaitForUser: (kind, waiting) => {
+      if (!waiting) return;
+      // The user acts once the run is waiting on them, then the UI signals it to continue
+      userDone = (async () => {
+        const isWaiting = kind === 'login' ? isWaitingForLoginSolve : isWaitingForCaptchaSolve;
+        await vi.waitFor(() => expect(isWaiting(runId)).toBe(true));
+        await user?.(page);
+        await (kind === 'login' ? signalLoggedIn(runId) : signalCaptchaSolved(runId));
+      })();
+    },
+  });
+  await userDone;
+
+  if (classification.type !== 'detail') {
+    return { classifications, job: null };
+  }
+  const { jobDetail } = await extractJobFromPage(html, page.url(), { allowLlmFallback: false });
+  return { classifications, job: jobDetail };
+}
+
+describe.skipIf(!hasChromium)('mock site in a real browser', () => {
+  let site: MockSite;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    site = await startMockSite();
+    browser = await chromium.launch({ headless: true });
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await site?.close();
+  });
+
+  beforeEach(async () => {
+    await page?.context().close();
+    page = await (await browser.newContext()).newPage();
+  });
+
+  it('navigates through an HTTP redirect chain and captures the posting', async () => {
+    const result = await navigateToUrl(site.url('/go/backend'), { timeout: 15000 });
+    expect(result.success).toBe(true);
+    const job = await extractJobDetail(result.artifact?.html ?? '', site.url(GREENHOUSE_JOB_PATH), {
+      allowLlmFallback: false,
+    });
+    expect(job).toMatchObject({ title: 'Senior Backend Engineer', company: 'Acme Robotics' });
+  });
+
+  it('follows a meta refresh to the posting', async () => {
+    await policyGoto(page, site.url('/refresh/backend'));
+    await page.waitForURL(site.url(GREENHOUSE_JOB_PATH), { timeout: 10000 });
+    const result = await runSingleUrl(page, page.url());
+    expect(result.classifications).toEqual(['detail']);
+    expect(result.job?.title).toBe('Senior Backend Engineer');
+  });
+
+  it('waits on a login wall until the user signs in, then extracts the posting', async () => {
+    const result = await runSingleUrl(page, site.url(jobPath(MEMBERS_JOB)), async (p) => {
+      await p.fill('#email', 'sam@example.com');
+      await p.fill('#password', 'hunter2');
+      await p.click('button[type="submit"]');
+      await p.getByRole('heading', { name: MEMBERS_JOB.title }).waitFor({ timeout: 10000 });
+    });
+    expect(result.classifications).toEqual(['login_wall', 'detail']);
+    expect(result.job).toMatchObject({ title: MEMBERS_JOB.title, company: 'Acme Robotics' });
+  });
+
+  it('waits on a captcha until the user solves it, then extracts the posting', async () => {
+    const result = await runSingleUrl(page, site.url(jobPath(PROTECTED_JOB)), async (p) => {
+      await p.check('#not-a-robot');
+      await p.click('button[type="submit"]');
+      await p.getByRole('heading', { name: PROTECTED_JOB.title }).waitFor({ timeout: 10000 });
+    });
+    expect(result.classifications).toEqual(['captcha_challenge', 'detail']);
+    expect(result.job).toMatchObject({ title: PROTECTED_JOB.title, location: 'Chicago, IL' });
+  });
+
+  it('stops at an expired posting', async () => {
+    const result = await runSingleUrl(page, site.url(EXPIRED_JOB_PATH));
+    expect(result).toMatchObject({ classifications: ['expired'], job: null });
+  });
+
+  it('reads the Lever apply form and fills it without submitting', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mock-site-'));
+    const resume = join(dir, 'resume.pdf');
+    writeFileSync(resume, '%PDF-1.4 mock resume');
+    try {
+      const job = toNormalizedJob(
+        'mock-lever',
+        { title: 'Platform Engineer', company: 'Acme Robotics' },
+        site.url(LEVER_JOB_PATH),
+      );
+      const { blueprint, warnings } = await createBlueprint(job, { page, timeoutMs: 15000 });
+      expect(warnings).toEqual([]);
+      expect(blueprint.steps[0]!.url).toBe(site.url(`${LEVER_JOB_PATH}/apply`));
+
+      const sheet = buildAnswerSheet(blueprint, {
+        name: 'Sam Lee',
+        email: 'sam@example.com',
+        phone: '555-0100',
+        linkedinUrl: 'https://www.linkedin.com/in/samlee',
+        sponsorshipRequired: 'No',
+        resume: 'resume.pdf',
+      });
+      expect(sheet.unansweredRequired).toBe(0);
+
+      const before = site.requests.length;
+      const log = await fillApplicationForm(page, sheet, { files: { resume }, timeoutMs: 15000 });
+      expect(log.filter((l) => l.action !== 'skipped').map((l) => [l.name, l.action])).toEqual([
+        ['resume', 'uploaded'],
+        ['name', 'filled'],
+        ['email', 'filled'],
+        ['phone', 'filled'],
+        ['urls[LinkedIn]', 'filled'],
+        ['cards[a1b2][field0]', 'checked'],
+      ]);
+      expect(await page.inputValue('#name')).toBe('Sam Lee');
+      expect(await page.isChecked('input[name="cards[a1b2][field0]"][value="No"]')).toBe(true);
+      expect(site.requests.slice(before).filter((r) => r.method === 'POST')).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('single-URL extraction', () => {
+  it('falls back to the raw HTML for JSON-LD the cleaner strips', async () => {
+    const html = readFileSync(
+      join('tests', 'fixtures', 'mock-site', 'greenhouse-job.html'),
+      'utf-8',
+    );
+    const { jobDetail, extractionSource } = await extractJobFromPage(
+      html,
+      `http://127.0.0.1${GREENHOUSE_JOB_PATH}`,
+      { allowLlmFallback: false },
+    );
+    expect(extractionSource).toBe('raw_html');
+    expect(jobDetail).toMatchObject({ title: 'Senior Backend Engineer', company: 'Acme Robotics' });
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+
+// Offline: any LLM fallback is a test failure, not a network call.
+vi.mock('@careersignal/llm', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@careersignal/llm')>()),
+  complete: vi.fn().mockRejectedValue(new Error('LLM disabled in mock-site tests')),
+}));
+
+import {
+  classifyPage,
+  cleanHtml,
+  extractJobDetail,
+  extractLinksFromHtml,
+  filterLinks,
+  findApplyLink,
+  mapFieldsToProfile,
+  parseFormFields,
+  resolveUrl,
+  validateSource,
+} from '@careersignal/agents';
+import {
+  EXPIRED_JOB_PATH,
+  GREENHOUSE_JOB_PATH,
+  LEVER_JOB_PATH,
+  MEMBERS_JOB,
+  MOCK_JOBS,
+  PAGE_SIZE,
+  PROTECTED_JOB,
+  jobPath,
+  startMockSite,
+  type MockSite,
+} from './mock-site';
+
+let site: MockSite;
+
+beforeAll(async () => {
+  site = await startMockSite();
+});
+
+afterAll(async () => {
+  await site.close();
+});
+
+async function fetchPage(path: string) {
+  const res = await fetch(site.url(path));
+  return { html: await res.text(), url: res.url, statusCode: res.status };
+}
+
+async function classify(path: string) {
+  const { html, url, statusCode } = await fetchPage(path);
+  return classifyPage(cleanHtml(html).html, url, { useLlm: false, statusCode });
+}
+
+describe('mock site: source validation and URL resolution', () => {
+  it('accepts the careers page and the end of a redirect chain', async () => {
+    const careers = await validateSource('mock', site.url('/careers'));
+    expect(careers).toMatchObject({ isValid: true, statusCode: 200, hasJobListings: true });
+
+    const before = site.requests.length;
+    const redirected = await validateSource('mock', site.url('/go/backend'));
+    expect(redirected).toMatchObject({ isValid: true, statusCode: 200 });
+    expect(site.requests.slice(before).map((r) => r.path)).toEqual([
+      '/go/backend',
+      '/r/track?to=backend',
+      GREENHOUSE_JOB_PATH,
+    ]);
+  });
+
+  it('flags login walls, captchas, expired postings and missing pages', async () => {
+    const login = await validateSource('mock', site.url(jobPath(MEMBERS_JOB)));
+    expect(login).toMatchObject({
+      isValid: false,
+      errorMessage: 'Blocked: loginRequired detected',
+    });
+    const captcha = await validateSource('mock', site.url(jobPath(PROTECTED_JOB)));
+    expect(captcha).toMatchObject({ isValid: false, errorMessage: 'Blocked: captcha detected' });
+    const expired = await validateSource('mock', site.url(EXPIRED_JOB_PATH));
+    expect(expired).toMatchObject({ isValid: false, statusCode: 410 });
+    const missing = await validateSource('mock', site.url('/broken'));
+    expect(missing.isValid).toBe(false);
+  });
+
+  it('resolves a broken source to the same-domain careers page', async () => {
+    const result = await resolveUrl(site.url('/broken'), 'Acme Robotics', 0);
+    expect(result).toMatchObject({ correctedUrl: site.url('/careers'), method: 'same_domain' });
+    expect(result.triedUrls).toEqual([site.url('/jobs'), site.url('/careers')]);
+  });
+});
+
+describe('mock site: page classification and extraction', () => {
+  it('classifies each page type by heuristics alone', async () => {
+    expect((await classify('/careers/jobs?page=1')).type).toBe('listing');
+    expect((await classify(jobPath(MOCK_JOBS[0]!))).type).toBe('detail');
+    expect((await classify(GREENHOUSE_JOB_PATH)).type).toBe('detail');
+    expect((await classify(jobPath(MEMBERS_JOB))).type).toBe('login_wall');
+    expect((await classify(jobPath(PROTECTED_JOB))).type).toBe('captcha_challenge');
+    expect((await classify(EXPIRED_JOB_PATH)).type).toBe('expired');
+    expect((await classify('/broken')).type).toBe('error');
+  });
+
+  it('extracts the posting from JSON-LD after following redirects', async () => {
+    const { html, url } = await fetchPage('/go/backend');
+    expect(url).toBe(site.url(GREENHOUSE_JOB_PATH));
+    const job = await extractJobDetail(html, url, { allowLlmFallback: false });
+    expect(job).toMatchObject({
+      title: 'Senior Backend Engineer',
+      company: 'Acme Robotics',
+      location: 'Remote',
+      salary: 'USD 160000–190000',
+      postedDate: '2026-09-28',
+    });
+  });
+
+  it('walks the paginated listing to every job link', async () => {
+    const jobLinks: string[] = [];
+    const pages: string[] = [];
+    let next: string | undefined = site.url('/careers/jobs?page=1');
+    while (next && pages.length < 10) {
+      pages.push(next);
+      const { html } = await fetchPage(next);
+      const links = extractLinksFromHtml(html, next);
+      jobLinks.push(...links.filter((l) => /\/careers\/jobs\/\d+-/.test(l)));
+      next = links.find((l) => /[?&]page=\d+/.test(l) && !pages.includes(l));
+    }
+    expect(pages).toHaveLength(Math.ceil(MOCK_JOBS.length / PAGE_SIZE));
+    expect(jobLinks).toEqual(MOCK_JOBS.map((j) => site.url(jobPath(j))));
+  });
+
+  it('discovers postings on the Greenhouse-style board', async () => {
+    const { html, url } = await fetchPage('/greenhouse/acme');
+    const links = filterLinks(extractLinksFromHtml(html, url), {
+      sourceDomain: new URL(site.baseUrl).hostname,
+      urlSeen: new Set(),
+      frontier: [],
+      currentDepth: 0,
+      maxDepth: 2,
+    });
+    expect(links.map((l) => new URL(l.url).pathname)).toEqual([
+      GREENHOUSE_JOB_PATH,
+      '/greenhouse/acme/jobs/4012346',
+      '/greenhouse/acme/jobs/4012347',
+    ]);
+  });
+});
+
+describe('mock site: application forms', () => {
+  it('finds the Lever apply page and reads its form', async () => {
+    const posting = await fetchPage(LEVER_JOB_PATH);
+    expect(parseFormFields(posting.html)).toEqual([]);
+    const applyUrl = findApplyLink(posting.html, posting.url);
+    expect(applyUrl).toBe(site.url(`${LEVER_JOB_PATH}/apply`));
+
+    const fields = await mapFieldsToProfile(parseFormFields((await fetchPage(applyUrl!)).html));
+    expect(fields.map((f) => [f.name, f.label, f.required, f.mappedProfileField ?? null])).toEqual([
+      ['resume', 'Resume/CV', true, 'resume'],
+      ['name', 'Full name', true, 'name'],
+      ['email', 'Email', true, 'email'],
+      ['phone', 'Phone', false, 'phone'],
+      ['org', 'Current company', false, null],
+      ['urls[LinkedIn]', 'LinkedIn URL', false, 'linkedinUrl'],
+      ['location', 'Current location', false, 'location'],
+      [
+        'cards[a1b2][field0]',
+        'Will you now or in the future require visa sponsorship?',
+        true,
+        'sponsorshipRequired',
+      ],
+      ['eeo[gender]', 'Gender', false, null],
+      ['comments', 'Additional information', false, null],
+    ]);
+  });
+
+  it('reads the Greenhouse form embedded in the posting', async () => {
+    const fields = parseFormFields((await fetchPage(GREENHOUSE_JOB_PATH)).html);
+    expect(fields.filter((f) => f.required).map((f) => f.label)).toEqual([
+      'First Name',
+      'Last Name',
+      'Email',
+      'Resume/CV',
+      'Are you legally authorized to work in the United States?',
+      'Why do you want to work at Acme Robotics?',
+    ]);
+  });
+});
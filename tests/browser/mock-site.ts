@@ -0,0 +1,224 @@
+/**
+ * Local mock job site for offline browser-agent tests.
+ *
+ * Serves canned pages from tests/fixtures/mock-site on an ephemeral 127.0.0.1 port:
+ * Greenhouse- and Lever-style boards, a paginated careers listing, a login wall and a captcha
+ * page (each cleared by submitting its form, which sets a cookie), an expired posting, and
+ * redirect chains (HTTP and meta refresh). Every request is recorded so tests can assert which
+ * URLs an agent tried and that nothing was submitted.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+
+const PAGES_DIR = join(process.cwd(), 'tests', 'fixtures', 'mock-site');
+
+export interface MockJob {
+  id: number;
+  slug: string;
+  title: string;
+  location: string;
+}
+
+/** Careers listing jobs, PAGE_SIZE per page; detail pages live at /careers/jobs/{id}-{slug}. */
+export const MOCK_JOBS: MockJob[] = [
+  'Backend Engineer',
+  'Frontend Engineer',
+  'Data Engineer',
+  'Machine Learning Engineer',
+  'Product Designer',
+  'Engineering Manager',
+  'Robotics Technician',
+  'Security Engineer',
+  'Technical Writer',
+  'Solutions Architect',
+  'QA Engineer',
+  'Support Engineer',
+].map((title, i) => ({
+  id: 101 + i,
+  slug: title.toLowerCase().replace(/\s+/g, '-'),
+  title,
+  location: i % 2 === 0 ? 'Remote' : 'Boston, MA',
+}));
+
+export const PAGE_SIZE = 5;
+
+/** Behind the login wall until the login form is submitted. */
+export const MEMBERS_JOB: MockJob = {
+  id: 77,
+  slug: 'staff-engineer',
+  title: 'Staff Engineer',
+  location: 'Remote',
+};
+
+/** Behind the captcha until the challenge form is submitted. */
+export const PROTECTED_JOB: MockJob = {
+  id: 88,
+  slug: 'data-platform-lead',
+  title: 'Data Platform Lead',
+  location: 'Chicago, IL',
+};
+
+export const EXPIRED_JOB_PATH = '/careers/jobs/99-site-reliability-engineer';
+export const GREENHOUSE_JOB_PATH = '/greenhouse/acme/jobs/4012345';
+export const LEVER_JOB_PATH = '/lever/acme/8f1c2d3e-5a6b-4c7d-9e0f-112233445566';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+}
+
+export interface MockSite {
+  baseUrl: string;
+  /** Absolute URL for a path on the mock site. */
+  url: (path: string) => string;
+  /** Every request served, in order. */
+  requests: MockRequest[];
+  close: () => Promise<void>;
+}
+
+function page(name: string, vars: Record<string, string> = {}): string {
+  const html = readFileSync(join(PAGES_DIR, `${name}.html`), 'utf-8');
+  return html.replace(/\{\{(\w+)\}\}/g, (_, key: string) => vars[key] ?? '');
+}
+
+export function jobPath(job: MockJob): string {
+  return `/careers/jobs/${job.id}-${job.slug}`;
+}
+
+function jobPage(job: MockJob): string {
+  return page('careers-job', { id: String(job.id), title: job.title, location: job.location });
+}
+
+function listingPage(pageNumber: number): string | null {
+  const pages = Math.ceil(MOCK_JOBS.length / PAGE_SIZE);
+  if (pageNumber < 1 || pageNumber > pages) return null;
+  const jobs = MOCK_JOBS.slice((pageNumber - 1) * PAGE_SIZE, pageNumber * PAGE_SIZE)
+    .map(
+      (job) =>
+        `<li class="job-card"><a href="${jobPath(job)}">${job.title}</a> <span>${job.location}</span></li>`,
+    )
+    .join('\n');
+  const links = [
+    pageNumber > 1
+      ? `<a rel="prev" href="/careers/jobs?page=${pageNumber - 1}">Previous page</a>`
+      : '',
+    pageNumber < pages
+      ? `<a rel="next" href="/careers/jobs?page=${pageNumber + 1}">Next page</a>`
+      : '',
+  ];
+  return page('careers-listing', {
+    page: String(pageNumber),
+    pages: String(pages),
+    jobs,
+    pagination: links.filter(Boolean).join('\n'),
+  });
+}
+
+function hasCookie(req: IncomingMessage, name: string): boolean {
+  return (req.headers.cookie ?? '').split(/;\s*/).some((c) => c.startsWith(`${name}=`));
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+function send(res: ServerResponse, status: number, html: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(html);
+}
+
+function redirect(res: ServerResponse, status: number, location: string, cookie?: string): void {
+  res.writeHead(status, { Location: location, ...(cookie ? { 'Set-Cookie': cookie } : {}) });
+  res.end();
+}
+
+/** Only same-site paths are followed after login / captcha. */
+function safeNext(value: string | null): string {
+  return value?.startsWith('/') && !value.startsWith('//') ? value : '/careers';
+}
+
+async function route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+  const path = url.pathname;
+
+  if (req.method === 'POST') {
+    const form = await readForm(req);
+    if (path === '/login') {
+      return redirect(res, 303, safeNext(form.get('next')), 'session=mock; Path=/');
+    }
+    if (path === '/captcha/verify' && form.get('human')) {
+      return redirect(res, 303, safeNext(form.get('next')), 'captcha=passed; Path=/');
+    }
+    return send(res, 405, page('not-found'));
+  }
+
+  switch (path) {
+    case '/careers':
+      return send(res, 200, page('careers'));
+    case '/careers/jobs': {
+      const html = listingPage(Number(url.searchParams.get('page') ?? '1'));
+      return html ? send(res, 200, html) : send(res, 404, page('not-found'));
+    }
+    case EXPIRED_JOB_PATH:
+      return send(res, 410, page('expired'));
+    case jobPath(MEMBERS_JOB):
+      return hasCookie(req, 'session')
+        ? send(res, 200, jobPage(MEMBERS_JOB))
+        : send(res, 200, page('login-wall', { next: path }));
+    case jobPath(PROTECTED_JOB):
+      return hasCookie(req, 'captcha')
+        ? send(res, 200, jobPage(PROTECTED_JOB))
+        : send(res, 200, page('captcha', { next: path }));
+    case '/greenhouse/acme':
+      return send(res, 200, page('greenhouse-board'));
+    case GREENHOUSE_JOB_PATH:
+      return send(res, 200, page('greenhouse-job'));
+    case '/lever/acme':
+      return send(res, 200, page('lever-board'));
+    case LEVER_JOB_PATH:
+      return send(res, 200, page('lever-job'));
+    case `${LEVER_JOB_PATH}/apply`:
+      return send(res, 200, page('lever-apply'));
+    // Short link → tracking hop → posting, like job-board "apply" links
+    case '/go/backend':
+      return redirect(res, 301, '/r/track?to=backend');
+    case '/r/track':
+      return redirect(res, 302, GREENHOUSE_JOB_PATH);
+    case '/refresh/backend':
+      return send(res, 200, page('meta-refresh', { target: GREENHOUSE_JOB_PATH }));
+  }
+
+  const job = MOCK_JOBS.find((j) => path === jobPath(j));
+  if (job) return send(res, 200, jobPage(job));
+  return send(res, 404, page('not-found'));
+}
+
+/** Start the mock site; call close() when done. */
+export async function startMockSite(): Promise<MockSite> {
+  const requests: MockRequest[] = [];
+  const server = createServer((req, res) => {
+    requests.push({ method: req.method ?? 'GET', path: req.url ?? '/' });
+    route(req, res).catch((e) => {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end(e instanceof Error ? e.message : String(e));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+  return {
+    baseUrl,
+    url: (path) => new URL(path, baseUrl).toString(),
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
@@ -84,6 +84,22 @@ describe('page-classifier-agent', () => {
       expect(result.type).toBe('error');
     });
 
+    it('does not read job text mentioning 404 or 500 as an error page', async () => {
+      const html = `
+        <html><body>
+          <p>Req ID 140452. Join a Fortune 500 team and keep error rates low.</p>
+        </body></html>
+      `;
+      const result = await classifyPage(html, 'https://acme.com/jobs/140452', { useLlm: false });
+      expect(result.type).not.toBe('error');
+      const serverError = await classifyPage(
+        '<html><body><h1>500 Internal Server Error</h1></body></html>',
+        'https://acme.com/status',
+        { useLlm: false },
+      );
+      expect(serverError.type).toBe('error');
+    });
+
     it('classifies an expired job page', async () => {
       const html = `
         <html><body>
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  leverConnector,
+  ashbyConnector,
+  smartRecruitersConnector,
+  recruiteeConnector,
+  personioConnector,
+  workdayConnector,
+  getConnector,
+  parseWorkdayPostedOn,
+  type CanonicalJob,
+} from '@careersignal/core';
+import { canonicalJobToListingInput } from '@/lib/ats-job-ingest';
+
+async function loadFixture(name: string): Promise<unknown> {
+  const fixturePath = join(process.cwd(), 'tests', 'fixtures', name);
+  return JSON.parse(await readFile(fixturePath, 'utf-8'));
+}
+
+function stubFetch(...bodies: unknown[]) {
+  const fetchMock = vi.fn();
+  for (const body of bodies) {
+    fetchMock.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(body) });
+  }
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('ATS connectors', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('registers a connector for every ATS type except UNKNOWN', () => {
+    for (const ats of [
+      'GREENHOUSE',
+      'LEVER',
+      'ASHBY',
+      'SMARTRECRUITERS',
+      'RECRUITEE',
+      'PERSONIO',
+      'WORKDAY',
+    ] as const) {
+      expect(getConnector(ats)?.atsType).toBe(ats);
+    }
+    expect(getConnector('UNKNOWN')).toBeNull();
+  });
+
+  it('Lever: normalizes postings from the fixture', async () => {
+    const fetchMock = stubFetch(await loadFixture('lever-response.json'));
+    const result = await leverConnector.fetch({ companySlug: 'acme' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.lever.co/v0/postings/acme?mode=json');
+    expect(result.errors).toHaveLength(0);
+    expect(result.jobs).toHaveLength(2);
+    const [first, second] = result.jobs;
+    expect(first.title).toBe('Senior Backend Engineer');
+    expect(first.applyUrl).toMatch(/\/apply$/);
+    expect(first.jobUrl).not.toBe(first.applyUrl);
+    expect(first.location).toBe('San Francisco, CA');
+    expect(first.employmentType).toBe('Full-time');
+    expect(first.level).toBe('Platform');
+    expect(first.remoteType).toBe('HYBRID');
+    expect(first.postedAt?.toISOString()).toBe('2024-05-01T00:00:00.000Z');
+    expect(second.remoteType).toBe('REMOTE');
+    expect(second.applyUrl).toBe(second.jobUrl);
+  });
+
+  it('Ashby: skips unlisted postings and maps workplace type', async () => {
+    stubFetch(await loadFixture('ashby-response.json'));
+    const result = await ashbyConnector.fetch({ companySlug: 'acme' });
+
+    expect(result.jobs).toHaveLength(1);
+    expect(result.jobs[0].title).toBe('Product Designer');
+    expect(result.jobs[0].remoteType).toBe('HYBRID');
+    expect(result.jobs[0].level).toBe('Growth');
+    expect(result.jobs[0].descriptionText).toBe('Own the onboarding flow.');
+  });
+
+  it('SmartRecruiters: builds job URLs from the company identifier', async () => {
+    const fetchMock = stubFetch(await loadFixture('smartrecruiters-response.json'));
+    const result = await smartRecruitersConnector.fetch({ companyIdentifier: 'AcmeCorp' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toContain('/v1/companies/AcmeCorp/postings?limit=100');
+    const [job] = result.jobs;
+    expect(job.applyUrl).toBe('https://jobs.smartrecruiters.com/AcmeCorp/744000012345678');
+    expect(job.location).toBe('Berlin, BE, DE');
+    expect(job.remoteType).toBe('REMOTE');
+    expect(job.level).toBe('Mid-Senior Level');
+  });
+
+  it('Recruitee: reads offers and keeps the subdomain in rawExtract', async () => {
+    stubFetch(await loadFixture('recruitee-response.json'));
+    const result = await recruiteeConnector.fetch({ subdomain: 'acme' });
+
+    const [job] = result.jobs;
+    expect(job.title).toBe('Customer Success Manager');
+    expect(job.applyUrl).toMatch(/\/c\/new$/);
+    expect(job.location).toBe('Amsterdam, NL');
+    expect(job.remoteType).toBe('HYBRID');
+    expect(job.status).toBe('OPEN');
+    expect(job.rawExtract?.subdomain).toBe('acme');
+  });
+
+  it('Personio: derives job URLs from the account and respects max_jobs', async () => {
+    stubFetch(await loadFixture('personio-response.json'));
+    const result = await personioConnector.fetch({ account: 'acme' }, { max_jobs: 1 });
+
+    expect(result.jobs).toHaveLength(1);
+    expect(result.jobs[0].applyUrl).toBe('https://acme.jobs.personio.de/job/1180321');
+    expect(result.jobs[0].employmentType).toBe('full-time');
+    expect(result.jobs[0].location).toBe('Munich');
+  });
+
+  it('Workday: posts to the CXS endpoint and parses relative posting dates', async () => {
+    const fetchMock = stubFetch(await loadFixture('workday-response.json'));
+    const result = await workdayConnector.fetch({
+      host: 'acme.wd5.myworkdayjobs.com',
+      tenant: 'acme',
+      site: 'External',
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://acme.wd5.myworkdayjobs.com/wday/cxs/acme/External/jobs');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toMatchObject({ limit: 20, offset: 0 });
+    expect(result.jobs).toHaveLength(2);
+    expect(result.jobs[0].applyUrl).toBe(
+      'https://acme.wd5.myworkdayjobs.com/External/job/Seattle-WA/Machine-Learning-Engineer_R0045123',
+    );
+    expect(result.jobs[0].externalId).toBe('R0045123');
+    expect(result.jobs[0].remoteType).toBe('HYBRID');
+
+    const now = new Date('2024-06-10T12:00:00Z');
+    expect(parseWorkdayPostedOn('Posted 3 Days Ago', now)?.toISOString()).toBe(
+      '2024-06-07T12:00:00.000Z',
+    );
+    expect(parseWorkdayPostedOn('Posted 30+ Days Ago', now)?.toISOString()).toBe(
+      '2024-05-11T12:00:00.000Z',
+    );
+    expect(parseWorkdayPostedOn('Posted Yesterday', now)?.toISOString()).toBe(
+      '2024-06-09T12:00:00.000Z',
+    );
+  });
+
+  it('reports missing config and API errors instead of throwing', async () => {
+    expect((await workdayConnector.fetch({})).errors).toEqual([
+      'Missing host/tenant/site in connector config',
+    ]);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }),
+    );
+    const result = await personioConnector.fetch({ account: 'nope' });
+    expect(result.jobs).toHaveLength(0);
+    expect(result.errors).toEqual(['Personio API error: 404 Not Found']);
+  });
+});
+
+describe('canonicalJobToListingInput', () => {
+  const job: CanonicalJob = {
+    title: 'senior  sre',
+    location: 'Austin, TX',
+    applyUrl: 'https://jobs.lever.co/Acme/123/apply/',
+    jobUrl: 'https://jobs.lever.co/Acme/123',
+    externalId: '123',
+    status: 'OPEN',
+    dedupeKey: 'https://jobs.lever.co/Acme/123/apply',
+  };
+
+  it('canonicalizes title and location through normalizeJobForCache', () => {
+    const input = canonicalJobToListingInput(job, {
+      companyId: 'c1',
+      companyName: 'Acme',
+      evidencePath: '/tmp/evidence.json',
+    });
+    expect(input.title).toBe('Senior Site Reliability Engineer');
+    expect(input.location).toBe('Austin, Texas');
+    expect(input.companyId).toBe('c1');
+    expect(input.evidencePaths).toEqual(['/tmp/evidence.json']);
+  });
+
+  it('keys listings by the normalized apply URL and falls back to the connector key', () => {
+    expect(
+      canonicalJobToListingInput(job, { companyId: null, companyName: 'Acme' }).dedupeKey,
+    ).toBe('https://jobs.lever.co/acme/123/apply');
+    expect(
+      canonicalJobToListingInput(
+        { ...job, applyUrl: null, jobUrl: null, dedupeKey: 'sr:1' },
+        { companyId: null, companyName: 'Acme' },
+      ).dedupeKey,
+    ).toBe('sr:1');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import * as schema from '../../packages/db/src/schema';
+import {
+  claimNextQueueRow,
+  failQueueRow,
+  hasActiveQueueLeaseForUser,
+  reclaimExpiredQueueLeases,
+  type Db,
+} from '@careersignal/db';
+import { queueRetryDelayMs } from '@/lib/application-analysis-queue-worker';
+
+/** The SQL the queue functions send to Postgres, with bound params. */
+interface SentQuery {
+  text: string;
+  params: unknown[];
+}
+
+/** A Drizzle db over a pg client that records each query and answers with the given rows. */
+function recordingDb(...results: unknown[][][]): { db: Db; sent: SentQuery[] } {
+  const sent: SentQuery[] = [];
+  const client = {
+    query: async (config: { text: string }, params: unknown[] = []) => {
+      sent.push({ text: config.text, params });
+      const rows = results.shift() ?? [];
+      return { rows, rowCount: rows.length };
+    },
+  };
+  return { db: drizzle(client as never, { schema }) as unknown as Db, sent };
+}
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const t = (ms: number) => new Date(NOW.getTime() + ms).toISOString();
+
+describe('application analysis queue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('claims the next due row with FOR UPDATE SKIP LOCKED and leases it to the worker', async () => {
+    const { db, sent } = recordingDb([]);
+    const row = await claimNextQueueRow(db, { workerId: 'w1', leaseMs: 60_000, userId: 'u1' });
+    expect(row).toBeNull();
+
+    const [{ text, params }] = sent as [SentQuery];
+    // One statement: the row is picked and leased atomically; a row locked by another worker
+    // is skipped rather than waited on, and the outer status check stops a double claim.
+    expect(text).toMatch(
+      /^update "application_analysis_queue" set "status" = \$1, "attempts" = "application_analysis_queue"\."attempts" \+ 1/,
+    );
+    expect(text).toMatch(
+      /"id" in \(select "id" from "application_analysis_queue" where .+ limit \$\d+ for update skip locked\) and "application_analysis_queue"\."status" = \$\d+\)/,
+    );
+    expect(text).toContain('"run_after" <= $7');
+    expect(text).toContain('order by "application_analysis_queue"."sequence" asc');
+    expect(params).toEqual([
+      'running',
+      'w1',
+      t(60_000),
+      t(0),
+      t(0),
+      'pending',
+      t(0),
+      'u1',
+      1,
+      'pending',
+    ]);
+  });
+
+  it('reclaims running rows whose lease expired, dead-lettering those out of attempts', async () => {
+    const { db, sent } = recordingDb([['r1'], ['r2']]);
+    expect(await reclaimExpiredQueueLeases(db)).toBe(2);
+
+    const [{ text, params }] = sent as [SentQuery];
+    expect(text).toContain(
+      `"status" = case when "application_analysis_queue"."attempts" >= "application_analysis_queue"."max_attempts" then 'dead' else 'pending' end`,
+    );
+    expect(text).toContain(
+      `where ("application_analysis_queue"."status" = $5 and ("application_analysis_queue"."lease_expires_at" is null or "application_analysis_queue"."lease_expires_at" < $6))`,
+    );
+    expect(params.slice(4)).toEqual(['running', t(0)]);
+  });
+
+  it('puts a failed row back with backoff while attempts remain', async () => {
+    const { db, sent } = recordingDb();
+    const retryAt = new Date(NOW.getTime() + queueRetryDelayMs(2));
+    const status = await failQueueRow(db, { id: 'r1', attempts: 2, maxAttempts: 3 }, 'w1', {
+      error: 'Timeout',
+      retryAt,
+    });
+    expect(status).toBe('pending');
+    expect(sent[0]!.text).toContain('"run_after" = $3');
+    expect(sent[0]!.params.slice(0, 3)).toEqual(['pending', 'Timeout', t(120_000)]);
+    // Only the worker holding the lease can settle the row
+    expect(sent[0]!.text).toContain('"leased_by" = $8');
+    expect(sent[0]!.params.slice(6)).toEqual(['r1', 'w1']);
+  });
+
+  it('dead-letters a failed row once it reaches max attempts', async () => {
+    const { db, sent } = recordingDb();
+    const status = await failQueueRow(db, { id: 'r1', attempts: 3, maxAttempts: 3 }, 'w1', {
+      error: 'Timeout',
+      retryAt: new Date(NOW.getTime() + queueRetryDelayMs(3)),
+    });
+    expect(status).toBe('dead');
+    expect(sent[0]!.params[0]).toBe('dead');
+  });
+
+  it('checks for a live lease against the app clock', async () => {
+    const { db, sent } = recordingDb([['r1']]);
+    expect(await hasActiveQueueLeaseForUser(db, 'u1')).toBe(true);
+    expect(sent[0]!.text).toContain('"lease_expires_at" > $3');
+    expect(sent[0]!.text).not.toContain('now()');
+    expect(sent[0]!.params).toEqual(['u1', 'running', t(0), 1]);
+  });
+});
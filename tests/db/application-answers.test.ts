@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import * as schema from '../../packages/db/src/schema';
+import { upsertApplicationAnswer, type Db } from '@careersignal/db';
+
+/** A Drizzle db over a pg client that records each query and answers with no rows. */
+function recordingDb(): { db: Db; sent: { text: string; params: unknown[] }[] } {
+  const sent: { text: string; params: unknown[] }[] = [];
+  const client = {
+    query: async (config: { text: string }, params: unknown[] = []) => {
+      sent.push({ text: config.text, params });
+      return { rows: [], rowCount: 0 };
+    },
+  };
+  return { db: drizzle(client as never, { schema }) as unknown as Db, sent };
+}
+
+describe('application answers', () => {
+  it('upserts in one statement on the (user, question, company) unique constraint', async () => {
+    const { db, sent } = recordingDb();
+    await upsertApplicationAnswer(db, {
+      userId: 'u1',
+      questionKey: 'sponsorship',
+      question: 'Do you require sponsorship?',
+      answer: 'No',
+    });
+
+    expect(sent).toHaveLength(1);
+    const [{ text, params }] = sent as [{ text: string; params: unknown[] }];
+    expect(text).toMatch(/^insert into "application_answers"/);
+    expect(text).toContain(
+      'on conflict ("user_id","question_key","company_id") do update set "question" = $',
+    );
+    // General answer: company_id is NULL, which the NULLS NOT DISTINCT constraint treats as a key
+    expect(params.slice(0, 6)).toEqual([
+      'u1',
+      'sponsorship',
+      'Do you require sponsorship?',
+      'No',
+      null,
+      expect.anything(),
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { getPreferencesByUserId, type Db } from '@careersignal/db';
+
+/** Just enough of Drizzle's select chain to hand back one stored row. */
+function dbReturning(rows: object[]): Db {
+  const chain = { from: () => chain, where: () => chain, limit: async () => rows };
+  return { select: () => chain } as unknown as Db;
+}
+
+const EIGHT_KEY_WEIGHTS = {
+  visa: 30,
+  location: 20,
+  seniority: 10,
+  remote: 10,
+  employment: 5,
+  skills: 15,
+  experience: 5,
+  industry: 5,
+};
+
+describe('getPreferencesByUserId', () => {
+  it('gives weight sets saved before compensation existed a zero compensation weight', async () => {
+    const row = await getPreferencesByUserId(
+      dbReturning([{ userId: 'u1', scoringWeights: EIGHT_KEY_WEIGHTS }]),
+      'u1',
+    );
+    expect(row?.scoringWeights).toEqual({ ...EIGHT_KEY_WEIGHTS, compensation: 0 });
+  });
+
+  it('leaves current and unset weights alone', async () => {
+    const current = { ...EIGHT_KEY_WEIGHTS, visa: 25, compensation: 5 };
+    const row = await getPreferencesByUserId(dbReturning([{ scoringWeights: current }]), 'u1');
+    expect(row?.scoringWeights).toEqual(current);
+    const unset = await getPreferencesByUserId(dbReturning([{ scoringWeights: null }]), 'u1');
+    expect(unset?.scoringWeights).toBeNull();
+    expect(await getPreferencesByUserId(dbReturning([]), 'u1')).toBeNull();
+  });
+});
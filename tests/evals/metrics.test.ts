@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { scalarMatches, scoreField, scoreList, toMetrics } from '../../evals/harness/metrics';
+import { loadDataset } from '../../evals/harness/dataset';
+import { runEval } from '../../evals/harness/evaluate';
+
+describe('eval harness metrics', () => {
+  it('matches scalars case- and punctuation-insensitively, allowing containment', () => {
+    expect(scalarMatches('Full-time', 'FULL_TIME')).toBe(true);
+    expect(scalarMatches('Vault-Tec', 'Vault-Tec Industries')).toBe(true);
+    expect(scalarMatches('Austin, TX', 'Remote')).toBe(false);
+  });
+
+  it('scores labelled nulls and missing values as FP / FN', () => {
+    expect(scoreField('salary', null, '$100k')).toEqual({ tp: 0, fp: 1, fn: 0 });
+    expect(scoreField('salary', '$100k', null)).toEqual({ tp: 0, fp: 0, fn: 1 });
+    expect(scoreField('salary', null, null)).toEqual({ tp: 0, fp: 0, fn: 0 });
+    expect(scoreField('title', 'Engineer', 'Designer')).toEqual({ tp: 0, fp: 1, fn: 1 });
+  });
+
+  it('treats the description label as a required snippet', () => {
+    const counts = scoreField(
+      'description',
+      'own services end to end',
+      'You will own services end to end.',
+    );
+    expect(counts).toEqual({ tp: 1, fp: 0, fn: 0 });
+  });
+
+  it('matches requirement items one-to-one by token overlap', () => {
+    const counts = scoreList(
+      ['5+ years of TypeScript', 'PostgreSQL in production', 'Mentors junior engineers'],
+      ['5+ years of TypeScript experience', 'Kubernetes', 'Production PostgreSQL'],
+    );
+    expect(counts).toEqual({ tp: 2, fp: 1, fn: 1 });
+  });
+
+  it('reports null precision/recall when undefined', () => {
+    expect(toMetrics({ tp: 0, fp: 0, fn: 2 })).toMatchObject({ precision: null, recall: 0 });
+    expect(toMetrics({ tp: 3, fp: 1, fn: 0 })).toMatchObject({ precision: 0.75, recall: 1 });
+  });
+});
+
+describe('eval harness runner', () => {
+  it('runs the bundled dataset heuristically and classifies blocker pages', async () => {
+    const dataset = loadDataset(path.resolve(__dirname, '../../evals/datasets/job-detail'));
+    const report = await runEval(dataset, { llm: false });
+
+    expect(report.summary.cases).toBe(dataset.cases.length);
+    expect(report.summary.errors).toBe(0);
+    const byId = new Map(report.cases.map((c) => [c.id, c]));
+    expect(byId.get('expired-posting')?.pageType.actual).toBe('expired');
+    expect(byId.get('login-wall')?.pageType.actual).toBe('login_wall');
+    expect(byId.get('captcha-challenge')?.pageType.actual).toBe('captcha_challenge');
+    expect(byId.get('greenhouse-jsonld-backend')?.extracted?.title).toBe('Senior Backend Engineer');
+    expect(report.summary.fields.title?.precision).toBe(1);
+  });
+});
@@ -54,29 +54,29 @@ describe('fingerprintFromUrl', () => {
   });
 
   describe('SMARTRECRUITERS', () => {
-    it('detects *.smartrecruiters.com', () => {
+    it('detects *.smartrecruiters.com and extracts company identifier', () => {
       const r = fingerprintFromUrl('https://jobs.smartrecruiters.com/acme');
       expect(r.atsType).toBe('SMARTRECRUITERS');
       expect(r.scrapeStrategy).toBe('API_JSON');
-      expect(r.connectorConfig).toBeNull();
+      expect(r.connectorConfig).toEqual({ companyIdentifier: 'acme' });
     });
   });
 
   describe('RECRUITEE', () => {
-    it('detects *.recruitee.com', () => {
+    it('detects *.recruitee.com and extracts subdomain', () => {
       const r = fingerprintFromUrl('https://acme.recruitee.com');
       expect(r.atsType).toBe('RECRUITEE');
       expect(r.scrapeStrategy).toBe('API_JSON');
-      expect(r.connectorConfig).toBeNull();
+      expect(r.connectorConfig).toEqual({ subdomain: 'acme' });
     });
   });
 
   describe('PERSONIO', () => {
-    it('detects *.jobs.personio.de', () => {
+    it('detects *.jobs.personio.de and extracts account', () => {
       const r = fingerprintFromUrl('https://acme.jobs.personio.de');
       expect(r.atsType).toBe('PERSONIO');
       expect(r.scrapeStrategy).toBe('API_JSON');
-      expect(r.connectorConfig).toBeNull();
+      expect(r.connectorConfig).toEqual({ account: 'acme' });
     });
   });
 
@@ -84,13 +84,22 @@ describe('fingerprintFromUrl', () => {
     it('detects *.myworkdayjobs.com', () => {
       const r = fingerprintFromUrl('https://acme.myworkdayjobs.com/careers');
       expect(r.atsType).toBe('WORKDAY');
-      expect(r.scrapeStrategy).toBe('API_XML');
-      expect(r.connectorConfig).toBeNull();
+      expect(r.scrapeStrategy).toBe('API_JSON');
+      expect(r.connectorConfig).toEqual({
+        host: 'acme.myworkdayjobs.com',
+        tenant: 'acme',
+        site: 'careers',
+      });
     });
 
-    it('detects *.wdN.myworkdayjobs.com', () => {
+    it('detects *.wdN.myworkdayjobs.com and skips the locale segment', () => {
       const r = fingerprintFromUrl('https://acme.wd1.myworkdayjobs.com/en-US/careers');
       expect(r.atsType).toBe('WORKDAY');
+      expect(r.connectorConfig).toEqual({
+        host: 'acme.wd1.myworkdayjobs.com',
+        tenant: 'acme',
+        site: 'careers',
+      });
     });
   });
 
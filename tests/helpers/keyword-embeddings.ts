@@ -0,0 +1,7 @@
+/**
+ * Fake embeddings for tests that mock embedBatch: one dimension per keyword plus a small
+ * constant, so cosine similarity tracks the keywords two texts share.
+ */
+export function keywordEmbeddings(texts: string[], keywords: string[]): number[][] {
+  return texts.map((t) => [...keywords.map((k) => (t.toLowerCase().includes(k) ? 1 : 0)), 0.1]);
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { checkJobListing, freshnessVerdict } from '@/lib/job-freshness';
+
+const listing = {
+  id: 'job-1',
+  title: 'Backend Engineer',
+  jobUrl: 'https://jobs.example.com/backend-engineer',
+  applyUrl: null,
+  lastCheckedAt: null,
+};
+
+function stubPage(status: number, html: string) {
+  const fetchMock = vi.fn().mockResolvedValue({
+    status,
+    url: listing.jobUrl,
+    text: () => Promise.resolve(html),
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('freshnessVerdict', () => {
+  it('closes on 404/410 and confidently classified expired or error pages', () => {
+    expect(freshnessVerdict(404, null)).toBe('closed');
+    expect(freshnessVerdict(410, null)).toBe('closed');
+    expect(freshnessVerdict(200, 'expired', 0.8)).toBe('closed');
+    expect(freshnessVerdict(200, 'error', 0.6)).toBe('closed');
+  });
+
+  it('does not close on a weak expired or error classification', () => {
+    expect(freshnessVerdict(200, 'expired', 0.4)).toBe('unknown');
+    expect(freshnessVerdict(200, 'error', 0.3)).toBe('unknown');
+    expect(freshnessVerdict(200, 'error')).toBe('unknown');
+  });
+
+  it('treats server errors, rate limits and walls as inconclusive', () => {
+    expect(freshnessVerdict(null, null)).toBe('unknown');
+    expect(freshnessVerdict(503, 'error')).toBe('unknown');
+    expect(freshnessVerdict(429, null)).toBe('unknown');
+    expect(freshnessVerdict(200, 'login_wall')).toBe('unknown');
+    expect(freshnessVerdict(200, 'captcha_challenge')).toBe('unknown');
+  });
+
+  it('keeps loaded job pages open', () => {
+    expect(freshnessVerdict(200, 'detail')).toBe('open');
+    expect(freshnessVerdict(200, 'external_apply')).toBe('open');
+  });
+});
+
+describe('checkJobListing', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('closes a posting whose page says it is no longer available', async () => {
+    stubPage(
+      200,
+      '<html><body><h1>Backend Engineer</h1><p>This job is no longer available.</p>' +
+        '<p>The position has been filled.</p></body></html>',
+    );
+    const check = await checkJobListing(listing);
+    expect(check.pageType).toBe('expired');
+    expect(check.verdict).toBe('closed');
+  });
+
+  it('closes on 404 without classifying the page', async () => {
+    const fetchMock = stubPage(404, '');
+    const check = await checkJobListing(listing);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(check).toMatchObject({ verdict: 'closed', statusCode: 404, pageType: null });
+  });
+
+  it('keeps live postings that mention 404 or 500 open', async () => {
+    stubPage(
+      200,
+      '<html><body><h1>Site Reliability Engineer</h1><p>Req ID 140452</p>' +
+        '<p>Join a Fortune 500 team and keep error rates low across our payments platform.</p>' +
+        '<h2>Responsibilities</h2><ul><li>Own on-call for 500+ services</li>' +
+        '<li>Cut p99 latency</li></ul><h2>Qualifications</h2><ul><li>5+ years of experience</li>' +
+        '</ul><a href="/jobs/140452/apply">Apply now</a></body></html>',
+    );
+    const check = await checkJobListing(listing);
+    expect(check.pageType).not.toBe('error');
+    expect(check.verdict).not.toBe('closed');
+  });
+
+  it('does not close a short page on a stray 404 or 500', async () => {
+    stubPage(200, '<html><body><p>Req ID 140452. Fortune 500 error rates.</p></body></html>');
+    const check = await checkJobListing(listing);
+    expect(check.verdict).not.toBe('closed');
+  });
+
+  it('checks ATS postings in the ATS API instead of their script-rendered pages', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found', json: vi.fn() });
+    vi.stubGlobal('fetch', fetchMock);
+    const check = await checkJobListing({
+      ...listing,
+      jobUrl: 'https://boards.greenhouse.io/acme/jobs/4012345',
+    });
+    expect(fetchMock.mock.calls[0]![0]).toContain(
+      'boards-api.greenhouse.io/v1/boards/acme/jobs/4012345',
+    );
+    expect(check).toMatchObject({ verdict: 'closed', statusCode: 404 });
+
+    fetchMock.mockResolvedValue({ ok: false, status: 503, statusText: 'Unavailable' });
+    const down = await checkJobListing({
+      ...listing,
+      jobUrl: 'https://boards.greenhouse.io/acme/jobs/4012345',
+    });
+    expect(down.verdict).toBe('unknown');
+  });
+
+  it('is inconclusive when the request fails', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('ETIMEDOUT')));
+    const check = await checkJobListing(listing);
+    expect(check).toMatchObject({ verdict: 'unknown', statusCode: null, error: 'ETIMEDOUT' });
+  });
+});
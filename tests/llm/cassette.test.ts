@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CassetteProvider,
+  FakeProvider,
+  LlmCassetteMissError,
+  OllamaProvider,
+  complete,
+  getProviderForRole,
+  llmRequestKey,
+  resetLlmProviders,
+} from '@careersignal/llm';
+
+const request = {
+  model: 'qwen',
+  messages: [{ role: 'user' as const, content: 'Classify this page' }],
+  format: 'json' as const,
+};
+
+describe('llm cassettes', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'llm-cassettes-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    resetLlmProviders();
+    vi.unstubAllEnvs();
+  });
+
+  it('records the request and response keyed by llmRequestKey', async () => {
+    const inner = new FakeProvider({ fallback: '{"type":"detail"}' });
+    const provider = new CassetteProvider(inner, 'record', dir);
+
+    expect(await provider.chat(request)).toBe('{"type":"detail"}');
+
+    const key = llmRequestKey(request);
+    expect(readdirSync(dir)).toEqual([`${key}.json`]);
+    const cassette = JSON.parse(readFileSync(join(dir, `${key}.json`), 'utf-8'));
+    expect(cassette.request.messages[0].content).toBe('Classify this page');
+    expect(cassette.response).toBe('{"type":"detail"}');
+  });
+
+  it('replays recorded responses without calling the inner provider', async () => {
+    await new CassetteProvider(new FakeProvider({ fallback: 'recorded' }), 'record', dir).chat(
+      request,
+    );
+
+    const inner = new FakeProvider({ fallback: 'live' });
+    const replay = new CassetteProvider(inner, 'replay', dir);
+    expect(await replay.chat(request)).toBe('recorded');
+    expect(inner.calls).toHaveLength(0);
+  });
+
+  it('fails loudly on a cache miss when the prompt changes', async () => {
+    await new CassetteProvider(new FakeProvider({ fallback: 'recorded' }), 'record', dir).chat(
+      request,
+    );
+
+    const replay = new CassetteProvider(new FakeProvider({ fallback: 'live' }), 'replay', dir);
+    const changed = {
+      ...request,
+      messages: [{ role: 'user' as const, content: 'Classify this page (v2)' }],
+    };
+    await expect(replay.chat(changed)).rejects.toBeInstanceOf(LlmCassetteMissError);
+    await expect(replay.chat(changed)).rejects.toThrow(/LLM_CASSETTE_MODE=record/);
+  });
+
+  it('wraps env-selected providers when LLM_CASSETTE_MODE is set', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'ollama');
+    vi.stubEnv('LLM_CASSETTE_MODE', 'replay');
+    vi.stubEnv('LLM_CASSETTE_DIR', dir);
+
+    expect(getProviderForRole('GENERAL')).toBeInstanceOf(CassetteProvider);
+    await expect(complete('never recorded')).rejects.toBeInstanceOf(LlmCassetteMissError);
+
+    vi.stubEnv('LLM_CASSETTE_MODE', 'off');
+    expect(getProviderForRole('GENERAL')).toBeInstanceOf(OllamaProvider);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  complete,
+  completeJson,
+  FakeProvider,
+  OpenAICompatibleProvider,
+  OllamaProvider,
+  getModelForRole,
+  getProviderForRole,
+  getProviderNameForRole,
+  llmRequestKey,
+  resetLlmProviders,
+  setLlmProvider,
+} from '@careersignal/llm';
+
+afterEach(() => {
+  resetLlmProviders();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('llm providers', () => {
+  describe('per-role selection', () => {
+    it('defaults every role to ollama', () => {
+      vi.stubEnv('LLM_PROVIDER', '');
+      vi.stubEnv('LLM_PROVIDER_FAST', '');
+      vi.stubEnv('LLM_CASSETTE_MODE', '');
+      expect(getProviderNameForRole('FAST')).toBe('ollama');
+      expect(getProviderForRole('FAST')).toBeInstanceOf(OllamaProvider);
+    });
+
+    it('routes a single role to an OpenAI-compatible server via env', () => {
+      vi.stubEnv('LLM_PROVIDER', 'ollama');
+      vi.stubEnv('LLM_PROVIDER_REASONING', 'openai');
+      vi.stubEnv('LLM_CASSETTE_MODE', '');
+      expect(getProviderForRole('REASONING')).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(getProviderForRole('GENERAL')).toBeInstanceOf(OllamaProvider);
+    });
+
+    it('uses OPENAI_COMPATIBLE_MODEL_<ROLE> for openai roles', () => {
+      vi.stubEnv('OPENAI_COMPATIBLE_MODEL', 'shared-model');
+      vi.stubEnv('OPENAI_COMPATIBLE_MODEL_FAST', 'fast-gguf');
+      expect(getModelForRole('FAST', 'openai')).toBe('fast-gguf');
+      expect(getModelForRole('GENERAL', 'openai')).toBe('shared-model');
+    });
+
+    it('throws when fake is selected via env without a registered provider', () => {
+      vi.stubEnv('LLM_PROVIDER', 'fake');
+      expect(() => getProviderForRole('GENERAL')).toThrow(/no FakeProvider is registered/);
+    });
+
+    it('role overrides win over the global override', async () => {
+      setLlmProvider(new FakeProvider({ fallback: 'global' }));
+      setLlmProvider(new FakeProvider({ fallback: 'fast-only' }), ['FAST']);
+      expect(await complete('hi', 'GENERAL')).toBe('global');
+      expect(await complete('hi', 'FAST')).toBe('fast-only');
+    });
+  });
+
+  describe('FakeProvider', () => {
+    it('replays exact recordings before rules', async () => {
+      const fake = new FakeProvider({ rules: [{ match: 'Classify', response: 'rule' }] });
+      fake.record(
+        {
+          model: 'm',
+          messages: [{ role: 'user', content: 'Classify this page' }],
+        },
+        'recorded',
+      );
+      expect(
+        await fake.chat({
+          model: 'm',
+          messages: [{ role: 'user', content: 'Classify this page' }],
+        }),
+      ).toBe('recorded');
+      expect(
+        await fake.chat({
+          model: 'other',
+          messages: [{ role: 'user', content: 'Classify this page' }],
+        }),
+      ).toBe('rule');
+    });
+
+    it('passes system prompt, format and role config through complete()', async () => {
+      const fake = new FakeProvider().respondTo(/job title/i, '{"title":"Engineer"}');
+      setLlmProvider(fake);
+
+      const result = await completeJson<{ title: string }>('Extract the job title', 'FAST', {
+        system: 'You extract fields',
+      });
+
+      expect(result.title).toBe('Engineer');
+      expect(fake.calls).toHaveLength(1);
+      expect(fake.calls[0]?.format).toBe('json');
+      expect(fake.calls[0]?.messages[0]).toEqual({ role: 'system', content: 'You extract fields' });
+      expect(fake.calls[0]?.temperature).toBe(0.2);
+    });
+
+    it('throws on an unrecorded prompt with no fallback', async () => {
+      setLlmProvider(new FakeProvider());
+      await expect(complete('unknown prompt')).rejects.toThrow(/no recorded response/);
+    });
+  });
+
+  describe('llmRequestKey', () => {
+    it('is stable for identical requests and changes with options', () => {
+      const base = { model: 'm', messages: [{ role: 'user' as const, content: 'x' }] };
+      expect(llmRequestKey(base)).toBe(llmRequestKey({ ...base }));
+      expect(llmRequestKey(base)).not.toBe(llmRequestKey({ ...base, temperature: 0.5 }));
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('posts to /chat/completions and returns the first choice', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { role: 'assistant', content: '{"ok":true}' } }],
+        }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const provider = new OpenAICompatibleProvider('http://llama.local/v1/', 'secret');
+      const content = await provider.chat({
+        model: 'qwen',
+        messages: [{ role: 'user', content: 'hi' }],
+        format: 'json',
+        maxTokens: 100,
+      });
+
+      expect(content).toBe('{"ok":true}');
+      const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('http://llama.local/v1/chat/completions');
+      expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+      const body = JSON.parse(String(init.body));
+      expect(body.response_format).toEqual({ type: 'json_object' });
+      expect(body.max_tokens).toBe(100);
+    });
+
+    it('surfaces HTTP errors', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({ ok: false, status: 503, text: async () => 'loading model' }),
+      );
+      const provider = new OpenAICompatibleProvider('http://llama.local/v1');
+      await expect(
+        provider.chat({ model: 'qwen', messages: [{ role: 'user', content: 'hi' }] }),
+      ).rejects.toThrow('OpenAI-compatible chat failed: 503 - loading model');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const KEYWORDS = ['postgres', 'api', 'kafka'];
+vi.mock('@careersignal/llm', async (importOriginal) => {
+  const { keywordEmbeddings } = await import('../helpers/keyword-embeddings');
+  return {
+    ...(await importOriginal<typeof import('@careersignal/llm')>()),
+    complete: vi.fn(),
+    embedBatch: vi.fn(async (texts: string[]) => keywordEmbeddings(texts, KEYWORDS)),
+  };
+});
+
+import {
+  extractResumeBullets,
+  mapRequirementEvidence,
+  requirementVerdict,
+  type JobDetail,
+  type ProfileSnapshot,
+} from '@careersignal/agents';
+
+const job: JobDetail = {
+  title: 'Backend Engineer',
+  company: 'Acme',
+  companyOneLiner: null,
+  location: null,
+  salary: null,
+  description: 'Own PostgreSQL-backed APIs.',
+  requirements: ['PostgreSQL', 'API design', 'Kafka streaming'],
+  postedDate: null,
+  deadline: null,
+  employmentType: null,
+  remoteType: null,
+  seniority: null,
+  applyUrl: null,
+  department: null,
+};
+
+const profile: ProfileSnapshot = {
+  name: 'Sam Lee',
+  location: null,
+  workAuthorization: null,
+  seniority: null,
+  targetRoles: [],
+  skills: ['PostgreSQL', 'React'],
+  experience: [{ title: 'Software Engineer', company: 'Initech' }],
+  education: [],
+  resumeRawText: 'SAM LEE\n• Built PostgreSQL-backed APIs for billing\n- Short\n',
+};
+
+describe('requirement evidence agent', () => {
+  it('keeps bullet and sentence-length resume lines without markers', () => {
+    expect(extractResumeBullets(profile.resumeRawText)).toEqual([
+      'Built PostgreSQL-backed APIs for billing',
+    ]);
+    expect(extractResumeBullets(null)).toEqual([]);
+  });
+
+  it('grades similarity into met / partial / missing', () => {
+    expect(requirementVerdict(0.9)).toBe('met');
+    expect(requirementVerdict(0.65)).toBe('partial');
+    expect(requirementVerdict(0.2)).toBe('missing');
+  });
+
+  it('maps each requirement to its best resume bullet or skill', async () => {
+    const rows = await mapRequirementEvidence(profile, job);
+    expect(rows.map((r) => [r.requirement, r.evidence, r.evidenceSource, r.verdict])).toEqual([
+      ['PostgreSQL', 'PostgreSQL', 'skill', 'met'],
+      ['API design', 'Built PostgreSQL-backed APIs for billing', 'bullet', 'partial'],
+      ['Kafka streaming', expect.any(String), expect.any(String), 'missing'],
+    ]);
+    expect(rows[0]!.similarity).toBe(1);
+  });
+
+  it('marks every requirement missing when the profile has no evidence', async () => {
+    const empty = { ...profile, skills: [], experience: [], resumeRawText: null };
+    const rows = await mapRequirementEvidence(empty, job);
+    expect(rows.every((r) => r.verdict === 'missing' && r.evidence === null)).toBe(true);
+    expect(await mapRequirementEvidence(profile, { ...job, requirements: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@careersignal/llm', () => ({
+  complete: vi.fn(),
+}));
+
+import { complete } from '@careersignal/llm';
+import {
+  applyTailorResponse,
+  diffWords,
+  findUnsupportedClaims,
+  tailorResume,
+  type JobDetail,
+  type TailorSource,
+} from '@careersignal/agents';
+
+const job: JobDetail = {
+  title: 'Backend Engineer',
+  company: 'Acme',
+  companyOneLiner: null,
+  location: null,
+  salary: null,
+  description: 'Own PostgreSQL-backed APIs.',
+  requirements: ['PostgreSQL', 'API design', 'Kafka'],
+  postedDate: null,
+  deadline: null,
+  employmentType: null,
+  remoteType: null,
+  seniority: null,
+  applyUrl: null,
+  department: null,
+};
+
+const source: TailorSource = {
+  name: 'Sam Lee',
+  contact: ['sam@example.com'],
+  skills: ['React', 'PostgreSQL', 'Go'],
+  items: [
+    {
+      kind: 'experience',
+      heading: 'Software Engineer',
+      subheading: 'Initech',
+      dates: '2021 – 2024',
+      bullets: [
+        'Built React dashboards for ops',
+        'Cut API latency 40% by tuning PostgreSQL queries',
+      ],
+    },
+    {
+      kind: 'project',
+      heading: 'Portfolio site',
+      subheading: 'React',
+      dates: null,
+      bullets: ['Designed a static site'],
+    },
+    {
+      kind: 'project',
+      heading: 'Queue service',
+      subheading: 'Go',
+      dates: null,
+      bullets: ['Wrote a Go job queue backed by PostgreSQL'],
+    },
+  ],
+  education: [],
+};
+
+describe('diffWords', () => {
+  it('marks inserted and deleted words', () => {
+    const ops = diffWords('Built dashboards for ops', 'Built PostgreSQL dashboards');
+    expect(ops).toEqual([
+      { op: 'equal', text: 'Built ' },
+      { op: 'insert', text: 'PostgreSQL ' },
+      { op: 'equal', text: 'dashboards' },
+      { op: 'delete', text: 'for ops' },
+    ]);
+  });
+});
+
+describe('findUnsupportedClaims', () => {
+  const corpus = 'react postgresql go';
+
+  it('flags new numbers and unknown tools', () => {
+    expect(
+      findUnsupportedClaims('Cut latency 40%', 'Cut latency 60% using Kafka streams', corpus),
+    ).toEqual(['60%', 'Kafka']);
+  });
+
+  it('accepts rephrasing with terms from elsewhere in the resume', () => {
+    expect(
+      findUnsupportedClaims('Cut latency 40%', 'Reduced latency 40% via PostgreSQL tuning', corpus),
+    ).toEqual([]);
+  });
+});
+
+describe('applyTailorResponse', () => {
+  it('reorders bullets and projects, keeps everything, rejects invented facts', () => {
+    const result = applyTailorResponse(source, {
+      items: [
+        {
+          index: 0,
+          bullets: [
+            { source: 1, text: 'Reduced API latency 40% by tuning PostgreSQL queries' },
+            { source: 0, text: 'Built React dashboards for ops using Kafka' },
+          ],
+        },
+      ],
+      projectOrder: [2],
+      skills: ['PostgreSQL', 'Kafka'],
+    });
+
+    const [exp, firstProject, secondProject] = result.items;
+    expect(exp!.bullets.map((b) => b.text)).toEqual([
+      'Reduced API latency 40% by tuning PostgreSQL queries',
+      'Built React dashboards for ops',
+    ]);
+    expect(exp!.bullets[0]!.changed).toBe(true);
+    expect(exp!.bullets[0]!.diff?.some((d) => d.op === 'insert')).toBe(true);
+    expect(exp!.bullets[1]!.rejectedReason).toContain('Kafka');
+    expect(result.rejectedEdits).toBe(1);
+    expect(firstProject!.heading).toBe('Queue service');
+    expect(secondProject!.heading).toBe('Portfolio site');
+    expect(result.skills).toEqual(['PostgreSQL', 'React', 'Go']);
+  });
+});
+
+describe('tailorResume', () => {
+  it('falls back to a keyword reorder without rewrites when the LLM fails', async () => {
+    vi.mocked(complete).mockRejectedValueOnce(new Error('offline'));
+    const result = await tailorResume(source, job);
+    expect(result.items[0]!.bullets[0]!.original).toContain('PostgreSQL');
+    expect(result.items.every((it) => it.bullets.every((b) => !b.changed))).toBe(true);
+    expect(result.items[1]!.heading).toBe('Queue service');
+    expect(result.notes[0]).toContain('LLM unavailable');
+  });
+});
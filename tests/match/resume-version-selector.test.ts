@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyResumeVersion,
+  PROFILE_RESUME_ID,
+  selectResumeVersion,
+  type JobDetail,
+  type ProfileSnapshot,
+  type ResumeVersion,
+} from '@careersignal/agents';
+
+function makeJob(overrides: Partial<JobDetail> = {}): JobDetail {
+  return {
+    title: 'Senior Backend Engineer',
+    company: 'Acme',
+    companyOneLiner: null,
+    location: null,
+    salary: null,
+    description: 'Build Go and PostgreSQL services on Kubernetes.',
+    requirements: ['5+ years with Go or Java', 'PostgreSQL and Kafka', 'Kubernetes in production'],
+    postedDate: null,
+    deadline: null,
+    employmentType: null,
+    remoteType: null,
+    seniority: null,
+    applyUrl: null,
+    department: null,
+    ...overrides,
+  };
+}
+
+const backend: ResumeVersion = {
+  id: 'r-backend',
+  name: 'Backend',
+  rawText: 'Backend engineer. Go, PostgreSQL, Kafka, Kubernetes services in production.',
+  skills: ['Go', 'PostgreSQL', 'Kafka', 'Kubernetes'],
+  experience: [{ title: 'Backend Engineer', company: 'Initech' }],
+  education: [],
+};
+
+const frontend: ResumeVersion = {
+  id: 'r-frontend',
+  name: 'Frontend',
+  isDefault: true,
+  rawText: 'Frontend engineer. React, TypeScript, CSS, design systems.',
+  skills: ['React', 'TypeScript', 'CSS'],
+  experience: [{ title: 'Frontend Engineer', company: 'Globex' }],
+  education: [],
+};
+
+const profile: ProfileSnapshot = {
+  name: 'Sam',
+  location: null,
+  workAuthorization: null,
+  seniority: null,
+  targetRoles: [],
+  skills: ['Python'],
+  experience: [{ title: 'Engineer', company: 'Umbrella' }],
+  education: [{ institution: 'State University' }],
+  resumeRawText: 'Profile resume text',
+};
+
+describe('selectResumeVersion', () => {
+  it('auto-selects the version that best covers the job', () => {
+    const selection = selectResumeVersion([frontend, backend], makeJob());
+    expect(selection.mode).toBe('auto');
+    expect(selection.resumeId).toBe('r-backend');
+    expect(selection.candidates).toHaveLength(2);
+    expect(selection.reason).toContain('Backend');
+  });
+
+  it('uses a pinned version even when another scores higher', () => {
+    const selection = selectResumeVersion([frontend, backend], makeJob(), 'r-frontend');
+    expect(selection.mode).toBe('pinned');
+    expect(selection.resumeId).toBe('r-frontend');
+  });
+
+  it('falls back to auto when the pinned version no longer exists', () => {
+    const selection = selectResumeVersion([frontend, backend], makeJob(), 'deleted');
+    expect(selection.mode).toBe('auto');
+    expect(selection.reason).toContain('no longer exists');
+  });
+
+  it('says why a pinned profile resume without text was not used', () => {
+    const selection = selectResumeVersion([frontend, backend], makeJob(), PROFILE_RESUME_ID);
+    expect(selection.mode).toBe('auto');
+    expect(selection.reason).toContain('pinned profile resume has no text');
+  });
+
+  it('breaks ties in favour of the default version', () => {
+    const plain = { ...frontend, id: 'r-copy', isDefault: false };
+    const job = makeJob({ title: 'Chef', requirements: ['Cooking'], description: '' });
+    expect(selectResumeVersion([plain, frontend], job).resumeId).toBe('r-frontend');
+  });
+
+  it('uses the profile when there are no versions', () => {
+    const selection = selectResumeVersion([], makeJob());
+    expect(selection.mode).toBe('profile');
+    expect(selection.resumeId).toBeNull();
+  });
+});
+
+describe('applyResumeVersion', () => {
+  it('swaps in the version sections', () => {
+    const applied = applyResumeVersion(profile, backend);
+    expect(applied.resumeRawText).toBe(backend.rawText);
+    expect(applied.skills).toEqual(backend.skills);
+    expect(applied.experience[0]!.title).toBe('Backend Engineer');
+  });
+
+  it('keeps profile sections the version does not have', () => {
+    const applied = applyResumeVersion(profile, { ...backend, skills: [], rawText: null });
+    expect(applied.skills).toEqual(['Python']);
+    expect(applied.resumeRawText).toBe('Profile resume text');
+    expect(applied.education).toEqual(profile.education);
+  });
+});
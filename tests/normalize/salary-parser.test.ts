@@ -0,0 +1,115 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { convertCurrency, getFxRates, parseSalary } from '@careersignal/agents';
+
+describe('salary-parser', () => {
+  describe('parseSalary', () => {
+    it('parses k-suffixed ranges, applying a trailing k to both ends', () => {
+      expect(parseSalary('$120k – $180k')).toMatchObject({
+        min: 120_000,
+        max: 180_000,
+        currency: 'USD',
+        period: 'YEAR',
+      });
+      expect(parseSalary('$120-180k')).toMatchObject({ min: 120_000, max: 180_000 });
+    });
+
+    it('detects currency symbols and ISO codes', () => {
+      expect(parseSalary('£45,000 - £55,000 per annum')?.currency).toBe('GBP');
+      expect(parseSalary('CA$90,000')?.currency).toBe('CAD');
+      expect(parseSalary('120,000-150,000 EUR')).toMatchObject({ currency: 'EUR', max: 150_000 });
+      expect(parseSalary('150000–185000')).toMatchObject({
+        currency: 'USD',
+        currencyInferred: true,
+      });
+    });
+
+    it('handles grouped thousands in several styles', () => {
+      expect(parseSalary('€60.000')?.min).toBe(60_000);
+      expect(parseSalary('₹12,00,000')?.min).toBe(1_200_000);
+      expect(parseSalary('$1.2M')?.min).toBe(1_200_000);
+    });
+
+    it('annualizes hourly and monthly pay', () => {
+      expect(parseSalary('$25 - $35 per hour')).toMatchObject({
+        period: 'HOUR',
+        annualMin: 52_000,
+        annualMax: 72_800,
+      });
+      expect(parseSalary('$50/hr')?.annualMax).toBe(104_000);
+      expect(parseSalary('5000 EUR monthly')).toMatchObject({ period: 'MONTH', annualMin: 60_000 });
+      expect(parseSalary('$45')?.period).toBe('HOUR');
+    });
+
+    it('ignores benefits, percentages and durations next to the pay', () => {
+      expect(parseSalary('$150,000 + 401(k) match')).toMatchObject({
+        min: 150_000,
+        max: 150_000,
+        period: 'YEAR',
+      });
+      expect(parseSalary('Up to $200k plus 15% bonus')).toMatchObject({
+        min: 200_000,
+        max: 200_000,
+        period: 'YEAR',
+      });
+      expect(parseSalary('£45,000 - £55,000 (6 month fixed term)')).toMatchObject({
+        min: 45_000,
+        max: 55_000,
+        currency: 'GBP',
+        period: 'YEAR',
+        annualMax: 55_000,
+      });
+      expect(parseSalary('$30 an hour')?.period).toBe('HOUR');
+      expect(parseSalary('USD 100,000 to USD 120,000')).toMatchObject({
+        min: 100_000,
+        max: 120_000,
+      });
+    });
+
+    it('skips a duration before the pay and prefers the amount with a currency', () => {
+      expect(parseSalary('6 month contract, $80/hr')).toMatchObject({
+        min: 80,
+        max: 80,
+        period: 'HOUR',
+        annualMax: 166_400,
+      });
+      expect(parseSalary('12-month fixed term: £40,000 - £45,000')).toMatchObject({
+        min: 40_000,
+        max: 45_000,
+        currency: 'GBP',
+        period: 'YEAR',
+      });
+      expect(parseSalary('Team of 40 engineers, 120,000-150,000 EUR')).toMatchObject({
+        min: 120_000,
+        max: 150_000,
+      });
+      expect(parseSalary('$9,000 per 3 months')?.min).toBe(9_000);
+    });
+
+    it('returns null without an amount', () => {
+      expect(parseSalary('Competitive')).toBeNull();
+      expect(parseSalary('')).toBeNull();
+      expect(parseSalary(null)).toBeNull();
+    });
+  });
+
+  describe('fx rates', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('converts via USD and returns null for unknown currencies', () => {
+      const rates = { USD: 1, EUR: 1.1, GBP: 1.25 };
+      expect(convertCurrency(100, 'EUR', 'USD', rates)).toBeCloseTo(110);
+      expect(convertCurrency(125, 'USD', 'GBP', rates)).toBeCloseTo(100);
+      expect(convertCurrency(100, 'XYZ', 'USD', rates)).toBeNull();
+    });
+
+    it('merges SALARY_FX_RATES over the defaults', () => {
+      vi.stubEnv('SALARY_FX_RATES', '{"eur": 2, "BRL": -1}');
+      const rates = getFxRates();
+      expect(rates.EUR).toBe(2);
+      expect(rates.BRL).toBeGreaterThan(0);
+      expect(rates.USD).toBe(1);
+    });
+  });
+});
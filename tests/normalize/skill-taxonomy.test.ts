@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSkillTaxonomy,
+  canonicalizeSkills,
+  canonicalSkillName,
+  impliedSkills,
+  missingKeywords,
+  scoreJobWithRules,
+  skillsCover,
+  textMentionsSkill,
+  UserPreferencesSchema,
+  type NormalizedJob,
+  type ProfileSnapshot,
+} from '@careersignal/agents';
+
+describe('skill taxonomy', () => {
+  it('maps aliases and spelling variants to one canonical name', () => {
+    expect(canonicalSkillName('Postgres')).toBe('PostgreSQL');
+    expect(canonicalSkillName('react.js')).toBe('React');
+    expect(canonicalSkillName('Node JS')).toBe('Node.js');
+    expect(canonicalSkillName('  Haskell ')).toBe('Haskell');
+    expect(canonicalizeSkills(['ReactJS', 'React', 'postgres', 'Go'])).toEqual([
+      'React',
+      'PostgreSQL',
+      'Go',
+    ]);
+  });
+
+  it('expands a skill to the broader skills it implies', () => {
+    expect(impliedSkills('NextJS')).toEqual(['Next.js', 'React', 'JavaScript']);
+    expect(skillsCover(['Next.js'], 'react.js')).toBe(true);
+    expect(skillsCover(['React'], 'Next.js')).toBe(false);
+  });
+
+  it('finds skills in text under any alias, as whole words', () => {
+    expect(textMentionsSkill('Experience with Postgres and Redis', 'PostgreSQL')).toBe(true);
+    expect(textMentionsSkill('Strong C++ background', 'C')).toBe(false);
+    expect(textMentionsSkill('Reactive systems', 'React')).toBe(false);
+  });
+
+  it('lets overrides replace bundled entries and claim aliases', () => {
+    const taxonomy = buildSkillTaxonomy([
+      { canonical: 'Remix', aliases: ['Remix.run'], parents: ['React'] },
+      { canonical: 'Apache Kafka', aliases: ['Kafka', 'Confluent'] },
+      { canonical: 'Supabase', aliases: ['Postgres'] },
+    ]);
+    expect(impliedSkills('remix.run', taxonomy)).toEqual(['Remix', 'React', 'JavaScript']);
+    expect(canonicalSkillName('Confluent', taxonomy)).toBe('Apache Kafka');
+    expect(canonicalSkillName('Postgres', taxonomy)).toBe('Supabase');
+    expect(canonicalSkillName('PostgreSQL', taxonomy)).toBe('PostgreSQL');
+  });
+
+  it('counts alias and implied matches in the rule scorer skills overlap', () => {
+    const job = {
+      id: 'job-1',
+      runId: 'run-1',
+      sourceId: 'src-1',
+      title: 'Frontend Engineer',
+      companyName: 'Acme',
+      sourceUrl: 'https://example.com/jobs/1',
+      remoteType: 'REMOTE',
+      seniority: 'MID',
+      employmentType: 'FULL_TIME',
+      visaSponsorship: 'UNKNOWN',
+      description: 'Build React.js apps backed by Postgres.',
+      requirements: [],
+      evidenceRefs: [],
+      confidence: 0.5,
+      dedupeKey: 'https://example.com/jobs/1',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    } as NormalizedJob;
+    const prefs = UserPreferencesSchema.parse({
+      workAuthorization: 'US_CITIZEN',
+      skills: ['Next.js', 'PostgreSQL', 'postgres', 'Rust'],
+    });
+    expect(scoreJobWithRules(job, prefs).breakdown.dimensions.skillsOverlap).toBeCloseTo(2 / 3);
+  });
+
+  it('drops resume keywords the profile already covers', () => {
+    const profile = {
+      name: 'Sam Lee',
+      skills: ['Next.js'],
+      resumeRawText: 'Maintained Postgres clusters',
+    } as ProfileSnapshot;
+    expect(missingKeywords(['React.js', 'PostgreSQL', 'kubernetes', 'K8s', 42], profile)).toEqual([
+      'Kubernetes',
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  PolicyConstraintAgent,
+  PolicyViolationError,
+  getActivePolicy,
+  policyFetch,
+  runWithPolicy,
+  type PolicyViolation,
+} from '@careersignal/agents';
+import { FakeProvider, complete, resetLlmProviders, setLlmProvider } from '@careersignal/llm';
+import { fetchGreenhousePosting } from '@careersignal/core';
+import { withRunPolicy } from '@/lib/run-policy';
+
+afterEach(() => {
+  resetLlmProviders();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('PolicyConstraintAgent', () => {
+  it('blocks listed domains including their subdomains', () => {
+    const policy = new PolicyConstraintAgent({ blockedDomains: ['example.com'] });
+    expect(policy.isDomainAllowed('jobs.example.com').allowed).toBe(false);
+    expect(policy.isDomainAllowed('www.example.com').allowed).toBe(false);
+    expect(policy.isDomainAllowed('notexample.com').allowed).toBe(true);
+  });
+
+  it('refuses requests once the page budget is spent and reports it once', async () => {
+    const violations: PolicyViolation[] = [];
+    const policy = new PolicyConstraintAgent({ maxPagesPerRun: 1, rateLimitPerDomain: 10 });
+    policy.onViolation((v) => violations.push(v));
+
+    await policy.beforeRequest('https://a.com/1');
+    await expect(policy.beforeRequest('https://b.com/2')).rejects.toBeInstanceOf(
+      PolicyViolationError,
+    );
+    await expect(policy.beforeRequest('https://b.com/3')).rejects.toThrow(/Page budget/);
+    expect(violations.map((v) => v.kind)).toEqual(['page_budget']);
+    // Pages don't limit LLM use
+    expect(() => policy.beforeLlmCall()).not.toThrow();
+  });
+
+  it('waits out the per-domain rate limit instead of refusing', async () => {
+    const policy = new PolicyConstraintAgent({ rateLimitPerDomain: 1 });
+    const start = Date.now();
+    await policy.beforeRequest('https://a.com/1');
+    await policy.beforeRequest('https://a.com/2');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(900);
+    expect(policy.getBudgetStatus().pagesVisited).toBe(2);
+  });
+});
+
+describe('runWithPolicy', () => {
+  it('gates fetches and counts LLM tokens for the active run only', async () => {
+    const fetchMock = vi.fn(async () => new Response('ok'));
+    vi.stubGlobal('fetch', fetchMock);
+    setLlmProvider(new FakeProvider({ fallback: 'x'.repeat(400) }));
+
+    const policy = new PolicyConstraintAgent({
+      blockedDomains: ['blocked.com'],
+      maxTokensPerRun: 50,
+    });
+    await runWithPolicy(policy, async () => {
+      expect(getActivePolicy()).toBe(policy);
+      await policyFetch('https://ok.com/page');
+      await expect(policyFetch('https://blocked.com/page')).rejects.toThrow(/blocked/);
+      await complete('hi', 'FAST');
+      await expect(complete('again', 'FAST')).rejects.toThrow(/Token budget/);
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(policy.getBudgetStatus().tokensUsed).toBeGreaterThan(50);
+    // Outside the run nothing is enforced
+    expect(getActivePolicy()).toBeUndefined();
+    await expect(complete('free', 'FAST')).resolves.toHaveLength(400);
+  });
+});
+
+describe('ATS connectors under a run policy', () => {
+  it('checks connector API requests against the run policy', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ id: 1, title: 'Engineer' }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('POLICY_BLOCKED_DOMAINS', 'greenhouse.io');
+
+    await expect(
+      withRunPolicy('ats_ingest', () => fetchGreenhousePosting('acme', '1')),
+    ).rejects.toThrow(/blocked/);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    // Outside a run the guard lets requests through
+    await fetchGreenhousePosting('acme', '1').catch(() => {});
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('withRunPolicy', () => {
+  it("reports the caller's refusals to a nested run's listener while it runs", async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('ok')),
+    );
+    vi.stubEnv('POLICY_BLOCKED_DOMAINS', 'blocked.com,other.com');
+    const outer = vi.fn();
+    const inner = vi.fn();
+
+    await withRunPolicy(
+      'application_assistant',
+      async () => {
+        await withRunPolicy(
+          'outreach_research',
+          () => expect(policyFetch('https://blocked.com/a')).rejects.toThrow(/blocked/),
+          inner,
+        );
+        // The nested listener is gone once its run ends
+        await expect(policyFetch('https://other.com/a')).rejects.toThrow(/blocked/);
+      },
+      outer,
+    );
+
+    expect(inner).toHaveBeenCalledTimes(1);
+    expect(inner.mock.calls[0]![0]).toMatchObject({ kind: 'blocked_domain' });
+    expect(outer).toHaveBeenCalledTimes(2);
+  });
+});
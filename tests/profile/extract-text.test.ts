@@ -0,0 +1,202 @@
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { extractText } from '@careersignal/agents';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const para = (text: string, pPr = '') =>
+  `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+/** Splits the run's text around a <w:tab/>, as Word writes it. */
+const TAB = '</w:t><w:tab/><w:t xml:space="preserve">';
+const bullet = (text: string, level = 0) =>
+  para(text, `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr>`);
+
+async function buildDocx(bodyXml: string, stylesXml?: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('word/document.xml', `<w:document ${W_NS}><w:body>${bodyXml}</w:body></w:document>`);
+  if (stylesXml) zip.file('word/styles.xml', `<w:styles ${W_NS}>${stylesXml}</w:styles>`);
+  zip.file(
+    'docProps/core.xml',
+    '<cp:coreProperties xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:creator>Jane Doe</dc:creator></cp:coreProperties>',
+  );
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+/**
+ * Minimal Word 97 binary: a CFB container (512-byte sectors, no mini stream) holding a
+ * WordDocument stream with a FIB and a 1Table stream with a piece table. Each piece is either
+ * 8-bit (cp1252) or UTF-16LE text.
+ */
+function buildDoc(pieces: { text: string; utf16?: boolean }[]): Buffer {
+  const STREAM_SIZE = 4096;
+  const wordDocument = Buffer.alloc(STREAM_SIZE);
+  wordDocument.writeUInt16LE(0xa5ec, 0);
+  wordDocument.writeUInt16LE(0x0200, 0x0a); // fWhichTblStm → 1Table
+  wordDocument.writeUInt16LE(14, 32); // csw
+  wordDocument.writeUInt16LE(22, 62); // cslw
+  wordDocument.writeUInt16LE(93, 152); // cbRgFcLcb
+
+  const cps = [0];
+  const pcds: Buffer[] = [];
+  let fc = 1024;
+  for (const piece of pieces) {
+    const bytes = piece.utf16
+      ? Buffer.from(piece.text, 'utf16le')
+      : Buffer.from(piece.text, 'latin1');
+    bytes.copy(wordDocument, fc);
+    const pcd = Buffer.alloc(8);
+    pcd.writeUInt32LE(piece.utf16 ? fc : (fc * 2) | 0x40000000, 2);
+    pcds.push(pcd);
+    cps.push(cps[cps.length - 1]! + piece.text.length);
+    fc += bytes.length + 16;
+  }
+  wordDocument.writeUInt32LE(cps[cps.length - 1]!, 76); // ccpText
+
+  const plc = Buffer.concat([
+    ...cps.map((cp) => {
+      const b = Buffer.alloc(4);
+      b.writeUInt32LE(cp);
+      return b;
+    }),
+    ...pcds,
+  ]);
+  const clx = Buffer.concat([Buffer.from([0x02]), Buffer.alloc(4), plc]);
+  clx.writeUInt32LE(plc.length, 1);
+  wordDocument.writeUInt32LE(0, 418); // fcClx
+  wordDocument.writeUInt32LE(clx.length, 422); // lcbClx
+  const table = Buffer.alloc(STREAM_SIZE);
+  clx.copy(table, 0);
+
+  const END = 0xfffffffe;
+  const FREE = 0xffffffff;
+  const header = Buffer.alloc(512);
+  Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).copy(header, 0);
+  header.writeUInt16LE(0x3e, 0x18);
+  header.writeUInt16LE(3, 0x1a);
+  header.writeUInt16LE(0xfffe, 0x1c);
+  header.writeUInt16LE(9, 0x1e);
+  header.writeUInt16LE(6, 0x20);
+  header.writeUInt32LE(1, 0x2c); // one FAT sector
+  header.writeUInt32LE(1, 0x30); // directory at sector 1
+  header.writeUInt32LE(4096, 0x38);
+  header.writeUInt32LE(END, 0x3c);
+  header.writeUInt32LE(END, 0x44);
+  header.writeUInt32LE(0, 0x4c);
+  for (let i = 1; i < 109; i++) header.writeUInt32LE(FREE, 0x4c + i * 4);
+
+  const fat = Buffer.alloc(512, 0xff);
+  fat.writeUInt32LE(0xfffffffd, 0);
+  fat.writeUInt32LE(END, 4);
+  const sectorsPerStream = STREAM_SIZE / 512;
+  for (const start of [2, 2 + sectorsPerStream]) {
+    for (let i = 0; i < sectorsPerStream; i++) {
+      fat.writeUInt32LE(i === sectorsPerStream - 1 ? END : start + i + 1, (start + i) * 4);
+    }
+  }
+
+  const directory = Buffer.alloc(512);
+  const entry = (index: number, name: string, type: number, start: number, size: number) => {
+    const off = index * 128;
+    directory.write(name, off, 'utf16le');
+    directory.writeUInt16LE((name.length + 1) * 2, off + 0x40);
+    directory[off + 0x42] = type;
+    directory.writeUInt32LE(start, off + 0x74);
+    directory.writeUInt32LE(size, off + 0x78);
+  };
+  entry(0, 'Root Entry', 5, END, 0);
+  entry(1, 'WordDocument', 2, 2, STREAM_SIZE);
+  entry(2, '1Table', 2, 2 + sectorsPerStream, STREAM_SIZE);
+
+  return Buffer.concat([header, fat, directory, wordDocument, table]);
+}
+
+describe('resume-parser — extractText (Word formats)', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'extract-text-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function write(name: string, data: Buffer): Promise<string> {
+    const filePath = path.join(dir, name);
+    await fs.writeFile(filePath, data);
+    return filePath;
+  }
+
+  it('extracts DOCX text with headings, bullets and tables preserved', async () => {
+    const styles =
+      '<w:style w:type="paragraph" w:styleId="berschrift1"><w:name w:val="heading 1"/></w:style>';
+    const body = [
+      para('Jane Doe'),
+      para(`jane@example.com${TAB}Cincinnati, OH`),
+      para('Experience', '<w:pStyle w:val="berschrift1"/>'),
+      para('Engineer | Acme &amp; Co'),
+      bullet('Built microservices'),
+      bullet('Cut latency 40%', 1),
+      para('Skills', '<w:pStyle w:val="Heading2"/>'),
+      '<w:tbl><w:tr><w:tc>' +
+        para('Languages') +
+        '</w:tc><w:tc>' +
+        para('TypeScript, Go') +
+        '</w:tc></w:tr></w:tbl>',
+      '<w:sectPr/>',
+    ].join('');
+    const filePath = await write('resume.docx', await buildDocx(body, styles));
+
+    const result = await extractText(filePath);
+
+    expect(result.text).toBe(
+      [
+        'Jane Doe',
+        'jane@example.com\tCincinnati, OH',
+        '',
+        'Experience',
+        'Engineer | Acme & Co',
+        '• Built microservices',
+        '  • Cut latency 40%',
+        '',
+        'Skills',
+        'Languages | TypeScript, Go',
+      ].join('\n'),
+    );
+    expect(result.numPages).toBe(1);
+    expect(result.info?.author).toBe('Jane Doe');
+  });
+
+  it('extracts legacy DOC text across 8-bit and UTF-16 pieces, dropping field codes', async () => {
+    const filePath = await write(
+      'resume.doc',
+      buildDoc([
+        {
+          text: 'JANE DOE\rEXPERIENCE\r\u0095 Portfolio: \u0013 HYPERLINK "https://x.dev" \u0014x.dev\u0015\r',
+        },
+        { text: 'Zürich – Remote\rSkills\u0007Python\u0007\u0007\r', utf16: true },
+      ]),
+    );
+
+    const result = await extractText(filePath);
+
+    expect(result.text).toBe(
+      ['JANE DOE', 'EXPERIENCE', '• Portfolio: x.dev', 'Zürich – Remote', 'Skills | Python'].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('sniffs the actual format when the extension is wrong', async () => {
+    const filePath = await write('renamed.doc', await buildDocx(para('Jane Doe')));
+    expect((await extractText(filePath)).text).toBe('Jane Doe');
+  });
+
+  it('rejects files that are not Word documents', async () => {
+    const filePath = await write('fake.docx', Buffer.from('plain text, not a zip'));
+    await expect(extractText(filePath)).rejects.toThrow(/Unsupported Word file/);
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeCompensationFit,
+  computeExperienceFit,
+  DEFAULT_SCORING_WEIGHTS,
+  parseExperienceRequirement,
+  parseSalary,
+  passesHardFilters,
+  scoreJobWithRules,
+  UserPreferencesSchema,
+  type NormalizedJob,
+} from '@careersignal/agents';
+
+function makeJob(overrides: Partial<NormalizedJob> = {}): NormalizedJob {
+  return {
+    id: 'job-1',
+    runId: 'run-1',
+    sourceId: 'src-1',
+    title: 'Backend Engineer',
+    companyName: 'Acme',
+    sourceUrl: 'https://example.com/jobs/1',
+    remoteType: 'REMOTE',
+    seniority: 'SENIOR',
+    employmentType: 'FULL_TIME',
+    visaSponsorship: 'UNKNOWN',
+    description: 'We need 5+ years of experience building TypeScript services.',
+    requirements: [],
+    evidenceRefs: [],
+    confidence: 0.5,
+    dedupeKey: 'https://example.com/jobs/1',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const prefs = UserPreferencesSchema.parse({
+  workAuthorization: 'US_CITIZEN',
+  skills: ['TypeScript'],
+  industries: ['Fintech'],
+});
+
+describe('rule-scorer-agent', () => {
+  describe('parseExperienceRequirement', () => {
+    it('parses plus, range and word forms', () => {
+      expect(parseExperienceRequirement('5+ years building backend services')).toMatchObject({
+        minYears: 5,
+        maxYears: null,
+      });
+      expect(parseExperienceRequirement('3-5 years of experience with React')).toMatchObject({
+        minYears: 3,
+        maxYears: 5,
+      });
+      expect(
+        parseExperienceRequirement('At least two years of professional experience'),
+      ).toMatchObject({ minYears: 2 });
+    });
+
+    it('takes the largest minimum when several are stated', () => {
+      const req = parseExperienceRequirement(
+        '2+ years Kubernetes. 6+ years of backend experience.',
+      );
+      expect(req?.minYears).toBe(6);
+    });
+
+    it('ignores non-requirement mentions of years', () => {
+      expect(
+        parseExperienceRequirement('Founded 10 years ago, we offer a 1 year warranty.'),
+      ).toBeNull();
+      expect(parseExperienceRequirement('Celebrating 120 years of service')).toBeNull();
+    });
+  });
+
+  describe('computeExperienceFit', () => {
+    const fourYears = [{ title: 'Dev', start_date: 'Jan 2020', end_date: 'Dec 2023' }];
+
+    it('scales fit by candidate years under the minimum', () => {
+      const result = computeExperienceFit(fourYears, '5+ years of experience');
+      expect(result.candidateYears).toBe(4);
+      expect(result.fit).toBe(0.8);
+      expect(result.evidence).toContain('5+ yrs');
+    });
+
+    it('is 1 when the candidate meets the requirement', () => {
+      expect(computeExperienceFit(fourYears, '3+ years of experience').fit).toBe(1);
+    });
+
+    it('penalizes well above a stated maximum', () => {
+      const long = [{ title: 'Dev', start_date: 'Jan 2010', end_date: 'Dec 2023' }];
+      expect(computeExperienceFit(long, '2-4 years of experience').fit).toBe(0.7);
+    });
+
+    it('stays neutral without a requirement or without dated experience', () => {
+      expect(computeExperienceFit(fourYears, 'Great team, good snacks').fit).toBe(0.5);
+      expect(computeExperienceFit([], '5+ years of experience').fit).toBe(0.5);
+    });
+  });
+
+  describe('scoreJobWithRules', () => {
+    it('uses dated experience and company industry, with evidence', () => {
+      const result = scoreJobWithRules(makeJob(), prefs, {
+        experience: [{ title: 'Dev', startDate: '2015-01', endDate: '2023-12' }],
+        company: { industries: ['Fintech', 'Payments'] },
+      });
+      expect(result.breakdown.dimensions.experienceFit).toBe(1);
+      expect(result.breakdown.dimensions.industryMatch).toBe('MATCH');
+      expect(result.breakdown.evidence).toHaveLength(3);
+      expect(result.breakdown.evidence[0]).toMatch(/^Experience:/);
+      expect(result.breakdown.evidence[1]).toMatch(/^Industry:/);
+    });
+
+    it('marks a mismatched industry and lowers the score', () => {
+      const match = scoreJobWithRules(makeJob(), prefs, { company: { industries: ['Fintech'] } });
+      const mismatch = scoreJobWithRules(makeJob(), prefs, {
+        company: { industries: ['Gaming'] },
+      });
+      expect(mismatch.breakdown.dimensions.industryMatch).toBe('MISMATCH');
+      expect(mismatch.score).toBeLessThan(match.score);
+    });
+
+    it('matches industries on whole words only', () => {
+      const aiPrefs = UserPreferencesSchema.parse({
+        workAuthorization: 'US_CITIZEN',
+        industries: ['AI'],
+      });
+      const retail = scoreJobWithRules(makeJob(), aiPrefs, { company: { industries: ['Retail'] } });
+      expect(retail.breakdown.dimensions.industryMatch).toBe('MISMATCH');
+      const described = scoreJobWithRules(makeJob(), aiPrefs, {
+        company: { description: 'A retail chain with stores across Maine.' },
+      });
+      expect(described.breakdown.dimensions.industryMatch).toBe('UNKNOWN');
+      const applied = scoreJobWithRules(makeJob(), aiPrefs, {
+        company: { industries: ['Applied AI'] },
+      });
+      expect(applied.breakdown.dimensions.industryMatch).toBe('MATCH');
+    });
+
+    it('falls back to the company description and to UNKNOWN', () => {
+      const partial = scoreJobWithRules(makeJob(), prefs, {
+        company: { description: 'A fintech platform for small businesses.' },
+      });
+      expect(partial.breakdown.dimensions.industryMatch).toBe('PARTIAL');
+      expect(scoreJobWithRules(makeJob(), prefs).breakdown.dimensions.industryMatch).toBe(
+        'UNKNOWN',
+      );
+    });
+
+    it('treats no industry preference as a match', () => {
+      const noPref = UserPreferencesSchema.parse({ workAuthorization: 'US_CITIZEN' });
+      expect(scoreJobWithRules(makeJob(), noPref).breakdown.dimensions.industryMatch).toBe('MATCH');
+    });
+  });
+
+  describe('scoring weights and hard filters', () => {
+    const onsite = makeJob({ remoteType: 'ONSITE', location: 'Berlin, Germany' });
+    const remotePrefs = UserPreferencesSchema.parse({
+      workAuthorization: 'US_CITIZEN',
+      remotePreference: 'REMOTE',
+      targetLocations: [{ country: 'Germany' }],
+    });
+
+    it('uses per-user weights in place of the defaults', () => {
+      const base = scoreJobWithRules(onsite, remotePrefs);
+      const remoteHeavy = scoreJobWithRules(onsite, {
+        ...remotePrefs,
+        scoringWeights: { ...DEFAULT_SCORING_WEIGHTS, remote: 40, visa: 0, location: 10 },
+      });
+      expect(base.breakdown.dimensions.remoteMatch).toBe('MISMATCH');
+      expect(remoteHeavy.score).toBeLessThan(base.score);
+    });
+
+    it('only fails the strict filter on the chosen dimensions', () => {
+      expect(scoreJobWithRules(onsite, remotePrefs).passesStrictFilter).toBe(true);
+      const withRemote = {
+        ...remotePrefs,
+        hardFilterDimensions: ['location' as const, 'remote' as const],
+      };
+      expect(scoreJobWithRules(onsite, withRemote).passesStrictFilter).toBe(false);
+    });
+
+    it('applies strict levels to the chosen dimensions', () => {
+      const dims = scoreJobWithRules(
+        onsite,
+        { ...remotePrefs, industries: ['Fintech'] },
+        { company: { industries: ['Gaming'] } },
+      ).breakdown.dimensions;
+      const oneFailure = { hardFilterDimensions: ['remote' as const, 'visa' as const] };
+      const twoFailures = { hardFilterDimensions: ['remote' as const, 'industry' as const] };
+
+      expect(passesHardFilters(dims, { ...oneFailure, strictFilterLevel: 'STRICT' })).toBe(false);
+      expect(passesHardFilters(dims, { ...oneFailure, strictFilterLevel: 'SEMI_STRICT' })).toBe(
+        true,
+      );
+      expect(passesHardFilters(dims, { ...twoFailures, strictFilterLevel: 'SEMI_STRICT' })).toBe(
+        false,
+      );
+      expect(passesHardFilters(dims, { ...twoFailures, strictFilterLevel: 'OFF' })).toBe(true);
+    });
+
+    it('rejects weights that do not sum to 100', () => {
+      const result = UserPreferencesSchema.safeParse({
+        workAuthorization: 'US_CITIZEN',
+        scoringWeights: { ...DEFAULT_SCORING_WEIGHTS, visa: 30 },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('compensation fit', () => {
+    const usdMin = { salaryMin: 150_000, salaryCurrency: 'USD' };
+
+    it('is 1 when the top of the range reaches the preferred minimum', () => {
+      const result = computeCompensationFit(parseSalary('$120k – $160k'), usdMin);
+      expect(result.fit).toBe(1);
+      expect(result.annual).toEqual({ min: 120_000, max: 160_000, currency: 'USD' });
+      expect(result.deltaToMin).toBe(10_000);
+    });
+
+    it('scales below the minimum and converts currency', () => {
+      const rates = { USD: 1, GBP: 1.25 };
+      const result = computeCompensationFit(parseSalary('£80,000 - £96,000'), usdMin, rates);
+      expect(result.annual).toEqual({ min: 100_000, max: 120_000, currency: 'USD' });
+      expect(result.fit).toBe(0.8);
+      expect(result.evidence).toContain('from GBP');
+    });
+
+    it('stays neutral when salary is unknown or has no FX rate', () => {
+      expect(computeCompensationFit(null, usdMin).fit).toBe(0.5);
+      expect(computeCompensationFit(parseSalary('100,000 SEK'), usdMin, { USD: 1 }).fit).toBe(0.5);
+      expect(computeCompensationFit(null, {}).fit).toBe(1);
+    });
+
+    it('feeds compensationFit and evidence into the rule score', () => {
+      const withPref = { ...prefs, salaryMin: 200_000, salaryCurrency: 'USD' };
+      const low = scoreJobWithRules(makeJob(), withPref, { salary: '$25 per hour' });
+      const high = scoreJobWithRules(makeJob(), withPref, { salary: '$200k - $240k' });
+      expect(low.breakdown.dimensions.compensationFit).toBe(0.26);
+      expect(high.breakdown.dimensions.compensationFit).toBe(1);
+      expect(high.score).toBeGreaterThan(low.score);
+      expect(high.breakdown.evidence[2]).toMatch(/^Compensation:/);
+    });
+
+    it('fails the salary hard filter only when stated pay is below the minimum', () => {
+      const withPref = {
+        ...prefs,
+        salaryMin: 200_000,
+        salaryCurrency: 'USD',
+        strictFilterLevel: 'STRICT' as const,
+        hardFilterDimensions: ['compensation' as const],
+      };
+      const low = scoreJobWithRules(makeJob(), withPref, { salary: '$25 per hour' });
+      const high = scoreJobWithRules(makeJob(), withPref, { salary: '$200k - $240k' });
+      const unknown = scoreJobWithRules(makeJob(), withPref);
+      expect(low.breakdown.dimensions.compensationMatch).toBe('MISMATCH');
+      expect(low.passesStrictFilter).toBe(false);
+      expect(high.passesStrictFilter).toBe(true);
+      expect(unknown.breakdown.dimensions.compensationMatch).toBe('UNKNOWN');
+      expect(unknown.passesStrictFilter).toBe(true);
+    });
+
+    it('uses the job annualized salary fields without raw text', () => {
+      const job = makeJob({ salaryMin: 210_000, salaryMax: 230_000, salaryCurrency: 'USD' });
+      const result = scoreJobWithRules(job, { ...prefs, salaryMin: 200_000 });
+      expect(result.breakdown.dimensions.compensationFit).toBe(1);
+    });
+  });
+});